@@ -0,0 +1,179 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AtRiskRules } from '@/lib/services/at-risk';
+
+interface AtRiskThresholdsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cohortId: string;
+}
+
+type OptionalKey = 'consecutiveAbsences' | 'minAttendancePercentage' | 'inactiveDays' | 'minVideoCompletion' | 'missedCaseStudies';
+
+const OPTIONAL_FIELDS: Array<{ key: OptionalKey; label: string; max?: number }> = [
+  { key: 'consecutiveAbsences', label: 'Consecutive absences' },
+  { key: 'minAttendancePercentage', label: 'Min recent attendance (%)', max: 100 },
+  { key: 'inactiveDays', label: 'Days without login' },
+  { key: 'minVideoCompletion', label: 'Min video completion (%)', max: 100 },
+  { key: 'missedCaseStudies', label: 'Missed case studies' },
+];
+
+/** Blank inputs disable that signal. */
+type Draft = Omit<AtRiskRules, OptionalKey> & Record<OptionalKey, string>;
+
+function toDraft(rules: AtRiskRules): Draft {
+  const draft = { ...rules } as unknown as Draft;
+  for (const { key } of OPTIONAL_FIELDS) draft[key] = rules[key] == null ? '' : String(rules[key]);
+  return draft;
+}
+
+export function AtRiskThresholdsDialog({ open, onOpenChange, cohortId }: AtRiskThresholdsDialogProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [evaluating, setEvaluating] = useState(false);
+
+  useEffect(() => {
+    if (!open || !cohortId) return;
+    setDraft(null);
+    fetch(`/api/admin/attendance/at-risk?cohort_id=${cohortId}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load thresholds');
+        setDraft(toDraft(data.rules));
+      })
+      .catch((error) => toast.error(error instanceof Error ? error.message : 'Failed to load thresholds'));
+  }, [open, cohortId]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const body: Record<string, unknown> = {
+        cohortId,
+        enabled: draft.enabled,
+        attendanceWindowSessions: draft.attendanceWindowSessions,
+      };
+      for (const { key } of OPTIONAL_FIELDS) body[key] = draft[key] === '' ? null : Number(draft[key]);
+
+      const res = await fetch('/api/admin/attendance/at-risk', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save thresholds');
+
+      toast.success('At-risk thresholds saved');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save thresholds');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEvaluate = async () => {
+    setEvaluating(true);
+    try {
+      const res = await fetch('/api/admin/attendance/at-risk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cohortId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to evaluate');
+
+      const cohort = data.cohorts?.[0];
+      toast.success(
+        cohort
+          ? `${cohort.flagged} of ${cohort.evaluated} students at risk · ${data.digestsQueued} mentor digest(s) queued`
+          : 'Evaluation finished'
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to evaluate');
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>At-Risk Alerts</DialogTitle>
+          <DialogDescription>
+            Students crossing any threshold are flagged daily and their subgroup mentors get a digest. Leave a field blank to ignore that signal.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!draft ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="at-risk-enabled">Enabled</Label>
+              <Switch
+                id="at-risk-enabled"
+                checked={draft.enabled}
+                onCheckedChange={(checked) => setDraft((d) => d && { ...d, enabled: checked })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 items-center gap-3">
+              {OPTIONAL_FIELDS.map(({ key, label, max }) => (
+                <div key={key} className="contents">
+                  <Label htmlFor={`at-risk-${key}`}>{label}</Label>
+                  <Input
+                    id={`at-risk-${key}`}
+                    type="number"
+                    min={key === 'minAttendancePercentage' || key === 'minVideoCompletion' ? 0 : 1}
+                    max={max}
+                    placeholder="Off"
+                    value={draft[key]}
+                    onChange={(e) => setDraft((d) => d && { ...d, [key]: e.target.value })}
+                  />
+                </div>
+              ))}
+              <Label htmlFor="at-risk-window">Recent sessions window</Label>
+              <Input
+                id="at-risk-window"
+                type="number"
+                min={1}
+                value={draft.attendanceWindowSessions}
+                onChange={(e) => setDraft((d) => d && { ...d, attendanceWindowSessions: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleEvaluate} disabled={evaluating || saving}>
+            {evaluating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+            Evaluate now
+          </Button>
+          <Button onClick={handleSave} disabled={!draft || saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Thresholds
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
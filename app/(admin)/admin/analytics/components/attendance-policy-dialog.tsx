@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AttendancePolicyRules } from '@/lib/services/attendance-policy';
+
+interface AttendancePolicyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cohortId: string;
+  rules: AttendancePolicyRules;
+  onSaved: () => void;
+}
+
+export function AttendancePolicyDialog({ open, onOpenChange, cohortId, rules, onSaved }: AttendancePolicyDialogProps) {
+  const [draft, setDraft] = useState<AttendancePolicyRules>(rules);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(rules);
+  }, [open, rules]);
+
+  const setNumber = (key: 'minSessionPercentage' | 'lateJoinGraceMinutes' | 'maxMissedSessions') =>
+    (e: React.ChangeEvent<HTMLInputElement>) => setDraft((d) => ({ ...d, [key]: Number(e.target.value) }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/attendance/policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cohortId, ...draft }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save policy');
+
+      toast.success('Attendance policy saved');
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Attendance Policy</DialogTitle>
+          <DialogDescription>
+            Rules that decide when a session counts as attended and when a student becomes ineligible.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 items-center gap-3">
+            <Label htmlFor="policy-min-pct">Minimum attendance (%)</Label>
+            <Input
+              id="policy-min-pct"
+              type="number"
+              min={0}
+              max={100}
+              value={draft.minSessionPercentage}
+              onChange={setNumber('minSessionPercentage')}
+            />
+            <Label htmlFor="policy-grace">Late-join grace (min)</Label>
+            <Input
+              id="policy-grace"
+              type="number"
+              min={0}
+              max={60}
+              value={draft.lateJoinGraceMinutes}
+              onChange={setNumber('lateJoinGraceMinutes')}
+            />
+            <Label htmlFor="policy-max-missed">Max missed sessions</Label>
+            <Input
+              id="policy-max-missed"
+              type="number"
+              min={0}
+              value={draft.maxMissedSessions}
+              onChange={setNumber('maxMissedSessions')}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="policy-excused">Honour excused absences</Label>
+            <Switch
+              id="policy-excused"
+              checked={draft.excusedAbsencesAllowed}
+              onCheckedChange={(checked) => setDraft((d) => ({ ...d, excusedAbsencesAllowed: checked }))}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="policy-gate">Gate certificates</Label>
+              <p className="text-xs text-muted-foreground">Block certificate uploads for ineligible students</p>
+            </div>
+            <Switch
+              id="policy-gate"
+              checked={draft.gateCertificates}
+              onCheckedChange={(checked) => setDraft((d) => ({ ...d, gateCertificates: checked }))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Policy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
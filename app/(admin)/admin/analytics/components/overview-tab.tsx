@@ -16,6 +16,7 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { format } from 'date-fns';
+import { PunctualityCard, type PunctualityData } from './punctuality-card';
 
 interface Cohort {
   id: string;
@@ -28,6 +29,7 @@ interface StatsData {
   sessionsCompleted: number;
   unmatchedCount: number;
   trendData: { sessionId: string; title: string; date: string; avgPercentage: number }[];
+  punctuality?: PunctualityData;
 }
 
 interface OverviewTabProps {
@@ -296,6 +298,17 @@ export function OverviewTab({ cohorts }: OverviewTabProps) {
           </CardContent>
         </Card>
       </motion.div>
+
+      {/* Punctuality */}
+      {!loading && stats?.punctuality && (
+        <motion.div
+          initial={{ opacity: 0, y: 8 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: 0.3 }}
+        >
+          <PunctualityCard punctuality={stats.punctuality} />
+        </motion.div>
+      )}
     </div>
   );
 }
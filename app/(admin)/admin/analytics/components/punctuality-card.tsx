@@ -0,0 +1,108 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Clock } from 'lucide-react';
+
+export interface PunctualitySummaryData {
+  sessionsMeasured: number;
+  lateCount: number;
+  avgMinutesLate: number;
+  earlyLeaveCount: number;
+  avgMinutesLeftEarly: number;
+  totalReconnects: number;
+}
+
+export interface PunctualityData {
+  overall: PunctualitySummaryData | null;
+  cohorts: (PunctualitySummaryData & { cohortId: string | null; cohortName: string; thresholdMinutes: number })[];
+  students: (PunctualitySummaryData & { userId: string; name: string; email: string; cohortId: string | null })[];
+}
+
+const TOP_LATECOMERS = 10;
+
+export function PunctualityCard({ punctuality }: { punctuality: PunctualityData }) {
+  const latecomers = punctuality.students
+    .filter((s) => s.lateCount > 0 || s.earlyLeaveCount > 0)
+    .slice(0, TOP_LATECOMERS);
+  const measured = punctuality.cohorts.some((c) => c.sessionsMeasured > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="w-5 h-5" />
+          Punctuality
+        </CardTitle>
+        <CardDescription>
+          Late joins and early leaves beyond each cohort&apos;s grace period
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!measured ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Clock className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p className="text-lg font-medium">No punctuality data yet</p>
+            <p className="text-sm">Recalculate attendance to measure late joins</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {punctuality.cohorts.map((c) => (
+                <div key={c.cohortId ?? 'none'} className="rounded-xl border p-4 space-y-1">
+                  <p className="font-medium text-sm">{c.cohortName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {c.lateCount} late · {c.earlyLeaveCount} left early of {c.sessionsMeasured} attendances
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Avg {c.avgMinutesLate} min late · {c.avgMinutesLeftEarly} min early · {c.thresholdMinutes} min grace
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {latecomers.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead className="text-right">Late</TableHead>
+                    <TableHead className="text-right">Avg late</TableHead>
+                    <TableHead className="text-right">Left early</TableHead>
+                    <TableHead className="text-right">Reconnects</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {latecomers.map((s) => (
+                    <TableRow key={`${s.cohortId}:${s.userId}`}>
+                      <TableCell>
+                        <p className="font-medium">{s.name}</p>
+                        <p className="text-xs text-muted-foreground">{s.email}</p>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={s.lateCount >= 3 ? 'destructive' : 'secondary'}>
+                          {s.lateCount}/{s.sessionsMeasured}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{s.avgMinutesLate} min</TableCell>
+                      <TableCell className="text-right">{s.earlyLeaveCount}</TableCell>
+                      <TableCell className="text-right">{s.totalReconnects}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -20,9 +20,13 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
-import { Users, ChevronDown, Clock, Calendar } from 'lucide-react';
+import { Users, ChevronDown, Clock, Calendar, ShieldCheck, BellRing } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { format } from 'date-fns';
+import type { AttendanceEligibilityStatus } from '@/types';
+import type { AttendancePolicyRules } from '@/lib/services/attendance-policy';
+import { AttendancePolicyDialog } from './attendance-policy-dialog';
+import { AtRiskThresholdsDialog } from './at-risk-thresholds-dialog';
 
 interface Cohort {
   id: string;
@@ -37,6 +41,7 @@ interface SessionDetail {
   durationAttended: number;
   totalDuration: number;
   attended: boolean;
+  outcome?: 'present' | 'absent' | 'excused';
   segments: { join: string; leave: string; duration: number }[];
   formalEndMinutes?: number | null;
 }
@@ -49,9 +54,26 @@ interface StudentData {
   sessionsAttended: number;
   sessionsTotal: number;
   avgPercentage: number;
+  eligibility: {
+    status: AttendanceEligibilityStatus;
+    sessionsPresent: number;
+    sessionsMissed: number;
+    sessionsExcused: number;
+    remainingAbsences: number;
+  };
   sessions: SessionDetail[];
 }
 
+function getEligibilityBadge(eligibility: StudentData['eligibility']) {
+  if (eligibility.status === 'ineligible') {
+    return <Badge variant="outline" className="bg-red-500/10 text-red-600 dark:text-red-400 border-red-200 dark:border-red-800">Ineligible</Badge>;
+  }
+  if (eligibility.status === 'at_risk') {
+    return <Badge variant="outline" className="bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-200 dark:border-yellow-800">At risk</Badge>;
+  }
+  return <Badge variant="outline" className="bg-green-500/10 text-green-600 dark:text-green-400 border-green-200 dark:border-green-800">Eligible</Badge>;
+}
+
 function getAttendanceBadge(percentage: number) {
   if (percentage >= 75) {
     return <Badge variant="outline" className="bg-green-500/10 text-green-600 dark:text-green-400 border-green-200 dark:border-green-800">{percentage}%</Badge>;
@@ -109,7 +131,9 @@ function SessionCard({ session }: { session: SessionDetail }) {
               </div>
             </div>
             <div className="flex items-center gap-2">
-              {session.attended ? getAttendanceBadge(session.percentage) : (
+              {session.outcome === 'excused' ? (
+                <Badge variant="outline" className="bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-200 dark:border-blue-800">Excused</Badge>
+              ) : session.attended ? getAttendanceBadge(session.percentage) : (
                 <Badge variant="outline" className="bg-gray-500/10 text-gray-500 dark:text-gray-400 border-gray-200 dark:border-gray-700">Absent</Badge>
               )}
               <ChevronDown className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} />
@@ -157,16 +181,26 @@ export function StudentAttendanceTab({ cohorts }: { cohorts: Cohort[] }) {
   const [students, setStudents] = useState<StudentData[]>([]);
   const [loading, setLoading] = useState(false);
   const [expandedStudent, setExpandedStudent] = useState<string | null>(null);
+  const [policy, setPolicy] = useState<AttendancePolicyRules | null>(null);
+  const [policyOpen, setPolicyOpen] = useState(false);
+  const [alertsOpen, setAlertsOpen] = useState(false);
 
   const fetchStudents = useCallback(async (cohortId: string) => {
     if (!cohortId) return;
     setLoading(true);
     try {
-      const res = await fetch(`/api/admin/analytics/student-attendance?cohort_id=${cohortId}`);
+      const [res, policyRes] = await Promise.all([
+        fetch(`/api/admin/analytics/student-attendance?cohort_id=${cohortId}`),
+        fetch(`/api/admin/attendance/policy?cohort_id=${cohortId}`),
+      ]);
       if (res.ok) {
         const data = await res.json();
         setStudents(data.students || []);
       }
+      if (policyRes.ok) {
+        const data = await policyRes.json();
+        setPolicy(data.rules || null);
+      }
     } catch (error) {
       console.error('Failed to fetch student attendance:', error);
     } finally {
@@ -179,6 +213,7 @@ export function StudentAttendanceTab({ cohorts }: { cohorts: Cohort[] }) {
       fetchStudents(selectedCohort);
     } else {
       setStudents([]);
+      setPolicy(null);
     }
   }, [selectedCohort, fetchStudents]);
 
@@ -196,8 +231,37 @@ export function StudentAttendanceTab({ cohorts }: { cohorts: Cohort[] }) {
             ))}
           </SelectContent>
         </Select>
+        {selectedCohort && policy && (
+          <>
+            <span className="text-sm text-muted-foreground">
+              Present ≥ {policy.minSessionPercentage}% · {policy.lateJoinGraceMinutes}m grace · max {policy.maxMissedSessions} missed
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setPolicyOpen(true)}>
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Policy
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAlertsOpen(true)}>
+              <BellRing className="w-4 h-4 mr-2" />
+              At-risk alerts
+            </Button>
+          </>
+        )}
       </div>
 
+      {policy && (
+        <AttendancePolicyDialog
+          open={policyOpen}
+          onOpenChange={setPolicyOpen}
+          cohortId={selectedCohort}
+          rules={policy}
+          onSaved={() => fetchStudents(selectedCohort)}
+        />
+      )}
+
+      {selectedCohort && (
+        <AtRiskThresholdsDialog open={alertsOpen} onOpenChange={setAlertsOpen} cohortId={selectedCohort} />
+      )}
+
       <motion.div
         initial={{ opacity: 0, y: 8 }}
         animate={{ opacity: 1, y: 0 }}
@@ -239,6 +303,7 @@ export function StudentAttendanceTab({ cohorts }: { cohorts: Cohort[] }) {
                       <TableHead>Student</TableHead>
                       <TableHead>Sessions</TableHead>
                       <TableHead>Avg Attendance</TableHead>
+                      <TableHead>Eligibility</TableHead>
                       <TableHead></TableHead>
                     </TableRow>
                   </TableHeader>
@@ -272,6 +337,15 @@ export function StudentAttendanceTab({ cohorts }: { cohorts: Cohort[] }) {
                               {student.sessionsAttended} / {student.sessionsTotal}
                             </TableCell>
                             <TableCell>{getAttendanceBadge(student.avgPercentage)}</TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                {getEligibilityBadge(student.eligibility)}
+                                <span className="text-xs text-muted-foreground">
+                                  {student.eligibility.sessionsMissed} missed
+                                  {student.eligibility.sessionsExcused > 0 && ` · ${student.eligibility.sessionsExcused} excused`}
+                                </span>
+                              </div>
+                            </TableCell>
                             <TableCell>
                               <Button variant="ghost" size="icon" className="h-8 w-8">
                                 <ChevronDown
@@ -284,7 +358,7 @@ export function StudentAttendanceTab({ cohorts }: { cohorts: Cohort[] }) {
                           </TableRow>
                           {isExpanded && (
                             <tr>
-                              <td colSpan={4} className="p-0">
+                              <td colSpan={5} className="p-0">
                                 <motion.div
                                   initial={{ height: 0, opacity: 0 }}
                                   animate={{ height: 'auto', opacity: 1 }}
@@ -0,0 +1,318 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Flag, Loader2, Paperclip, Inbox } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import type { AttendanceClaim, AttendanceClaimEvent, AttendanceClaimReason } from '@/types';
+
+const REASON_LABELS: Record<AttendanceClaimReason, string> = {
+  unaliased_email: 'Different email',
+  dropped_connection: 'Dropped connection',
+  cliff_misapplied: 'End time misapplied',
+  other: 'Other',
+};
+
+interface ClaimDetail {
+  claim: AttendanceClaim;
+  events: (AttendanceClaimEvent & { actor?: { full_name: string | null; email: string } | null })[];
+  attendance: {
+    attendance_percentage: number | null;
+    attendance_segments: { join_time: string; leave_time: string; duration_seconds: number }[];
+  } | null;
+  evidence: { path: string; url: string | null }[];
+}
+
+/** Convert an ISO timestamp to the value format of a datetime-local input. */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return '';
+  return format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+}
+
+export function ClaimsQueue() {
+  const [claims, setClaims] = useState<AttendanceClaim[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [detail, setDetail] = useState<ClaimDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [aliasEmail, setAliasEmail] = useState('');
+  const [joinTime, setJoinTime] = useState('');
+  const [leaveTime, setLeaveTime] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchClaims = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/attendance/claims?status=pending');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to fetch claims');
+      setClaims(data.claims || []);
+    } catch (error) {
+      console.error('Error fetching attendance claims:', error);
+      toast.error('Failed to fetch attendance claims');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchClaims();
+  }, [fetchClaims]);
+
+  const openClaim = async (claimId: string) => {
+    setDetailLoading(true);
+    try {
+      const res = await fetch(`/api/admin/attendance/claims/${claimId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load claim');
+      setDetail(data);
+      setAliasEmail(data.claim.alternate_email || '');
+      setJoinTime(toLocalInput(data.claim.claimed_join_time));
+      setLeaveTime(toLocalInput(data.claim.claimed_leave_time));
+      setNote('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load claim');
+    } finally {
+      setDetailLoading(false);
+    }
+  };
+
+  const adjudicate = async (body: Record<string, unknown>) => {
+    if (!detail) return;
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/admin/attendance/claims/${detail.claim.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, note: note.trim() || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update claim');
+
+      if (data.recalculation && !data.recalculation.ok) {
+        toast.warning('Claim approved, but attendance could not be recalculated yet');
+      } else {
+        toast.success(body.decision === 'reject' ? 'Claim rejected' : 'Claim approved and attendance recalculated');
+      }
+      setDetail(null);
+      fetchClaims();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update claim');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Flag className="w-5 h-5" />
+            Attendance Claims
+            {claims.length > 0 && <Badge variant="secondary">{claims.length}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Review attendance disputes filed by students
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : claims.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Inbox className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p className="text-lg font-medium">No pending claims</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Current</TableHead>
+                  <TableHead>Filed</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {claims.map((claim) => (
+                  <TableRow key={claim.id}>
+                    <TableCell>
+                      <p className="font-medium">{claim.user?.full_name || 'Unknown'}</p>
+                      <p className="text-xs text-muted-foreground">{claim.user?.email}</p>
+                    </TableCell>
+                    <TableCell>
+                      <p>{claim.session?.title || 'Unknown session'}</p>
+                      {claim.session?.scheduled_at && (
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(claim.session.scheduled_at), 'MMM d, yyyy')}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{REASON_LABELS[claim.reason]}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {claim.current_percentage != null ? `${claim.current_percentage}%` : 'No record'}
+                    </TableCell>
+                    <TableCell>{format(new Date(claim.created_at), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => openClaim(claim.id)} disabled={detailLoading}>
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!detail} onOpenChange={(open) => { if (!open && !submitting) setDetail(null); }}>
+        <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+          {detail && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {detail.claim.user?.full_name || detail.claim.user?.email} · {REASON_LABELS[detail.claim.reason]}
+                </DialogTitle>
+                <DialogDescription>
+                  {detail.claim.session?.title}
+                  {detail.claim.session?.scheduled_at &&
+                    ` · ${format(new Date(detail.claim.session.scheduled_at), 'MMM d, yyyy h:mm a')}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 text-sm">
+                {detail.claim.description && (
+                  <p className="whitespace-pre-wrap rounded-md bg-muted p-3">{detail.claim.description}</p>
+                )}
+
+                <div>
+                  <p className="font-medium mb-1">
+                    Recorded attendance:{' '}
+                    {detail.attendance?.attendance_percentage != null
+                      ? `${detail.attendance.attendance_percentage}%`
+                      : 'none'}
+                  </p>
+                  {detail.attendance?.attendance_segments?.map((seg, i) => (
+                    <p key={i} className="text-muted-foreground">
+                      {format(new Date(seg.join_time), 'h:mm a')} – {format(new Date(seg.leave_time), 'h:mm a')}
+                      {' '}({Math.round(seg.duration_seconds / 60)} min)
+                    </p>
+                  ))}
+                </div>
+
+                {detail.evidence.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="font-medium">Evidence</p>
+                    {detail.evidence.map((file) => (
+                      <a
+                        key={file.path}
+                        href={file.url || undefined}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1.5 text-primary hover:underline"
+                      >
+                        <Paperclip className="w-3.5 h-3.5" />
+                        {file.path.split('/').pop()}
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="claim-alias">Alias email</Label>
+                    <Input id="claim-alias" value={aliasEmail} onChange={(e) => setAliasEmail(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="claim-join">Segment join</Label>
+                    <Input id="claim-join" type="datetime-local" value={joinTime} onChange={(e) => setJoinTime(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="claim-leave">Segment leave</Label>
+                    <Input id="claim-leave" type="datetime-local" value={leaveTime} onChange={(e) => setLeaveTime(e.target.value)} />
+                  </div>
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="claim-note">Note to student</Label>
+                    <Textarea id="claim-note" rows={2} value={note} onChange={(e) => setNote(e.target.value)} />
+                  </div>
+                </div>
+
+                {detail.events.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="font-medium">History</p>
+                    {detail.events.map((event) => (
+                      <p key={event.id} className="text-xs text-muted-foreground">
+                        {format(new Date(event.created_at), 'MMM d, h:mm a')} · {event.action.replace(/_/g, ' ')}
+                        {event.actor && ` by ${event.actor.full_name || event.actor.email}`}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter className="gap-2 sm:gap-0">
+                <Button
+                  variant="outline"
+                  className="text-destructive"
+                  disabled={submitting}
+                  onClick={() => adjudicate({ decision: 'reject' })}
+                >
+                  Reject
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={submitting || !joinTime || !leaveTime}
+                  onClick={() => adjudicate({
+                    decision: 'approve',
+                    resolution: 'manual_segment',
+                    join_time: new Date(joinTime).toISOString(),
+                    leave_time: new Date(leaveTime).toISOString(),
+                  })}
+                >
+                  Approve as Segment
+                </Button>
+                <Button
+                  disabled={submitting || !aliasEmail.trim()}
+                  onClick={() => adjudicate({ decision: 'approve', resolution: 'alias', alias_email: aliasEmail.trim() })}
+                >
+                  {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Approve as Alias
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
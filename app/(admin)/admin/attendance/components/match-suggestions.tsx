@@ -0,0 +1,215 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface CandidateScore {
+  user_id: string;
+  full_name: string | null;
+  email: string;
+  score: number;
+  signals: { name: number; cohort: number; aliasHistory: number };
+}
+
+interface ParticipantSuggestion {
+  participant: string;
+  isEmail: boolean;
+  sessions: { id: string; title: string; date: string }[];
+  candidates: CandidateScore[];
+}
+
+interface MatchSuggestionsProps {
+  /** Called after aliases are created so the parent can refresh its lists */
+  onLinked: () => void;
+}
+
+export function MatchSuggestions({ onLinked }: MatchSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<ParticipantSuggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  // participant → chosen candidate user_id (only checked rows are submitted)
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirming, setConfirming] = useState(false);
+
+  const fetchSuggestions = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/attendance/aliases?action=suggestions');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to fetch suggestions');
+
+      const withCandidates = ((data.suggestions || []) as ParticipantSuggestion[]).filter(
+        (s) => s.candidates.length > 0
+      );
+      setSuggestions(withCandidates);
+      setChoices(Object.fromEntries(withCandidates.map((s) => [s.participant, s.candidates[0].user_id])));
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Error fetching match suggestions:', error);
+      toast.error('Failed to fetch match suggestions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [fetchSuggestions]);
+
+  const toggle = (participant: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(participant);
+      else next.delete(participant);
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    const matches = [...selected].map((participant) => ({ participant, user_id: choices[participant] }));
+    if (matches.length === 0) return;
+
+    setConfirming(true);
+    try {
+      const res = await fetch('/api/admin/attendance/aliases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ matches }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to confirm matches');
+
+      const failedSessions = (data.sessions || []).filter((s: { ok: boolean }) => !s.ok).length;
+      toast.success(
+        `Linked ${data.linked.length} participant(s), recalculated ${data.sessions.length - failedSessions} session(s)`
+      );
+      if (data.failed.length > 0) {
+        toast.error(`${data.failed.length} link(s) failed: ${data.failed[0].error}`);
+      }
+      if (failedSessions > 0) {
+        toast.warning(`${failedSessions} session(s) could not be recalculated`);
+      }
+
+      await fetchSuggestions();
+      onLinked();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to confirm matches');
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  if (!loading && suggestions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Sparkles className="w-5 h-5" />
+              Suggested Matches
+            </CardTitle>
+            <CardDescription>
+              Likely accounts for unmatched participants, ranked by name similarity, cohort and alias history
+            </CardDescription>
+          </div>
+          <Button onClick={handleConfirm} disabled={confirming || selected.size === 0}>
+            {confirming && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Confirm {selected.size > 0 ? selected.size : ''} Selected
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={selected.size === suggestions.length}
+                    onCheckedChange={(checked) =>
+                      setSelected(checked ? new Set(suggestions.map((s) => s.participant)) : new Set())
+                    }
+                    aria-label="Select all"
+                  />
+                </TableHead>
+                <TableHead>Participant</TableHead>
+                <TableHead>Sessions</TableHead>
+                <TableHead>Suggested User</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suggestions.map((s) => {
+                const chosen = s.candidates.find((c) => c.user_id === choices[s.participant]) || s.candidates[0];
+                return (
+                  <TableRow key={s.participant}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(s.participant)}
+                        onCheckedChange={(checked) => toggle(s.participant, checked === true)}
+                        aria-label={`Select ${s.participant}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{s.participant}</p>
+                      {!s.isEmail && <Badge variant="outline" className="mt-1">No email</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{s.sessions.length} session(s)</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={chosen.user_id}
+                        onValueChange={(value) => setChoices((prev) => ({ ...prev, [s.participant]: value }))}
+                      >
+                        <SelectTrigger className="w-[280px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {s.candidates.map((c) => (
+                            <SelectItem key={c.user_id} value={c.user_id}>
+                              {c.full_name || c.email} · {Math.round(c.score * 100)}%
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {chosen.email}
+                        {chosen.signals.cohort > 0 && ' · in session cohort'}
+                        {chosen.signals.aliasHistory >= 0.5 && ' · similar to a past alias'}
+                      </p>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
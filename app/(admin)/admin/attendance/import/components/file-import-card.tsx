@@ -0,0 +1,260 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { FileSpreadsheet, Loader2, Eye, Upload, AlertCircle } from 'lucide-react';
+import { IMPORT_SOURCES, IMPORT_SOURCE_LABELS, type SkippedRow } from '@/lib/services/attendance-file-parser';
+import type { ImportPreviewRow } from '@/lib/services/attendance-import';
+import type { AttendanceImportSource, Session } from '@/types';
+
+interface ImportPreview {
+  source: AttendanceImportSource;
+  durationMinutes: number;
+  durationSource: string;
+  rowsParsed: number;
+  skipped: SkippedRow[];
+  rows: ImportPreviewRow[];
+  summary: { total: number; matched: number; unmatched: number };
+}
+
+/**
+ * Attendance import from Zoom CSV reports, Google Meet attendance files or a
+ * plain roster — for sessions the Zoom API can't see.
+ */
+export function FileImportCard({ sessions }: { sessions: Session[] }) {
+  const [sessionId, setSessionId] = useState('');
+  const [source, setSource] = useState<AttendanceImportSource | 'auto'>('auto');
+  const [duration, setDuration] = useState('');
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const requestBody = () =>
+    JSON.stringify({
+      sessionId,
+      csvContent: file?.content,
+      fileName: file?.name,
+      source: source === 'auto' ? undefined : source,
+      timezoneOffsetMinutes: new Date().getTimezoneOffset(),
+      durationMinutes: duration ? Number(duration) : undefined,
+    });
+
+  const handleFile = async (selected: File | undefined) => {
+    setPreview(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    setFile({ name: selected.name, content: await selected.text() });
+  };
+
+  const runPreview = async () => {
+    setPreviewing(true);
+    try {
+      const res = await fetch('/api/admin/attendance/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestBody(),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to preview import');
+      setPreview(data);
+    } catch (error) {
+      setPreview(null);
+      toast.error(error instanceof Error ? error.message : 'Failed to preview import');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const applyImport = async () => {
+    setApplying(true);
+    try {
+      const res = await fetch('/api/admin/attendance/import', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestBody(),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to apply import');
+
+      toast.success(`Imported ${data.imported} attendance records (${data.unmatched} unmatched)`);
+      setPreview(null);
+      setFile(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to apply import');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <FileSpreadsheet className="w-5 h-5" />
+          Import from File
+        </CardTitle>
+        <CardDescription>
+          Zoom participant reports, Google Meet attendance or a roster with email, join and leave columns.
+          Times without a timezone are read in your local time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Session</Label>
+            <Select value={sessionId} onValueChange={(v) => { setSessionId(v); setPreview(null); }}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue placeholder="Select session" />
+              </SelectTrigger>
+              <SelectContent>
+                {sessions.map((session) => (
+                  <SelectItem key={session.id} value={session.id}>
+                    {session.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={source} onValueChange={(v) => { setSource(v as AttendanceImportSource | 'auto'); setPreview(null); }}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect automatically</SelectItem>
+                {IMPORT_SOURCES.map((s) => (
+                  <SelectItem key={s} value={s}>{IMPORT_SOURCE_LABELS[s]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-duration">Duration (min, optional)</Label>
+            <Input
+              id="import-duration"
+              type="number"
+              min={1}
+              className="w-[160px]"
+              placeholder="From file"
+              value={duration}
+              onChange={(e) => { setDuration(e.target.value); setPreview(null); }}
+            />
+          </div>
+          <div className="space-y-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              {file ? file.name : 'Choose CSV'}
+            </Button>
+          </div>
+          <Button onClick={runPreview} disabled={!sessionId || !file || previewing}>
+            {previewing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Eye className="w-4 h-4 mr-2" />}
+            Preview
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="secondary">{IMPORT_SOURCE_LABELS[preview.source]}</Badge>
+              <span className="text-muted-foreground">
+                {preview.rowsParsed} rows → {preview.summary.total} attendees
+                ({preview.summary.matched} matched, {preview.summary.unmatched} unmatched)
+                · {preview.durationMinutes} min denominator ({preview.durationSource})
+              </span>
+            </div>
+
+            {preview.skipped.length > 0 && (
+              <div className="rounded-lg border border-amber-500/30 bg-amber-500/5 p-3 text-sm space-y-1">
+                <p className="font-medium flex items-center gap-1.5">
+                  <AlertCircle className="w-4 h-4 text-amber-500" />
+                  {preview.skipped.length} row{preview.skipped.length !== 1 ? 's' : ''} skipped
+                </p>
+                {preview.skipped.slice(0, 5).map((s) => (
+                  <p key={s.line} className="text-muted-foreground">Line {s.line}: {s.reason}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="overflow-x-auto max-h-[400px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Attendee</TableHead>
+                    <TableHead>Match</TableHead>
+                    <TableHead className="text-right">Minutes</TableHead>
+                    <TableHead className="text-right">Attendance</TableHead>
+                    <TableHead className="text-right">Late</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row, i) => (
+                    <TableRow key={row.userId ?? `unmatched-${i}`}>
+                      <TableCell>
+                        <p className="font-medium">{row.name}</p>
+                        <p className="text-xs text-muted-foreground">{row.email}</p>
+                      </TableCell>
+                      <TableCell>
+                        {row.userId ? (
+                          <Badge className="bg-green-500/10 text-green-600">Matched</Badge>
+                        ) : (
+                          <Badge variant="outline">Unmatched</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{row.durationMinutes}</TableCell>
+                      <TableCell className="text-right">{row.percentage}%</TableCell>
+                      <TableCell className="text-right">
+                        {row.minutesLate != null ? `${row.minutesLate} min` : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={applyImport} disabled={applying}>
+                {applying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Replace session attendance
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -38,6 +38,7 @@ import {
 import { format, subDays, parseISO } from 'date-fns';
 import type { Session, Cohort } from '@/types';
 import { PageHeader } from '@/components/ui/page-header';
+import { FileImportCard } from './components/file-import-card';
 
 interface ZoomMeeting {
   id: number;
@@ -197,7 +198,7 @@ export default function ImportPage() {
         <PageHeader
           icon={Upload}
           title="Import Attendance"
-          description="Bulk import attendance records"
+          description="Bulk import attendance records from Zoom or exported files"
         />
 
         <Card>
@@ -206,7 +207,7 @@ export default function ImportPage() {
               <AlertCircle className="w-12 h-12 mx-auto mb-4 text-amber-500" />
               <h3 className="text-lg font-semibold mb-2">Zoom Not Configured</h3>
               <p className="text-muted-foreground mb-4">
-                Please configure Zoom credentials to import attendance data.
+                Please configure Zoom credentials to import attendance data from Zoom, or import a file below.
               </p>
               <p className="text-sm text-muted-foreground">
                 Add the following to your .env.local:
@@ -219,6 +220,8 @@ export default function ImportPage() {
             </div>
           </CardContent>
         </Card>
+
+        <FileImportCard sessions={sessions} />
       </div>
     );
   }
@@ -228,7 +231,7 @@ export default function ImportPage() {
       <PageHeader
         icon={Upload}
         title="Import Attendance"
-        description="Bulk import attendance records"
+        description="Bulk import attendance records from Zoom or exported files"
       />
 
       {/* Date Range Selector */}
@@ -406,6 +409,9 @@ export default function ImportPage() {
           )}
         </CardContent>
       </Card>
+
+      {/* Non-Zoom sources */}
+      <FileImportCard sessions={sessions} />
     </div>
   );
 }
@@ -38,6 +38,9 @@ import { format } from 'date-fns';
 import { MotionFadeIn } from '@/components/ui/motion';
 import { PageHeader } from '@/components/ui/page-header';
 import type { Profile } from '@/types';
+import { ClaimsQueue } from './components/claims-queue';
+import { ExcuseReviewQueue } from '@/components/attendance/excuse-review-queue';
+import { MatchSuggestions } from './components/match-suggestions';
 
 interface UnmatchedEmail {
   email: string;
@@ -249,6 +252,9 @@ export default function AdminAttendancePage() {
         </Card>
       )}
 
+      {/* Fuzzy-match suggestions for unmatched participants */}
+      {unmatchedEmails.length > 0 && <MatchSuggestions onLinked={() => fetchData(true)} />}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Zoom Webhook Card */}
         <Card>
@@ -359,6 +365,12 @@ export default function AdminAttendancePage() {
         </Card>
       </div>
 
+      {/* Attendance Claims */}
+      <ClaimsQueue />
+
+      {/* Excused Absence Requests */}
+      <ExcuseReviewQueue />
+
       {/* Email Aliases */}
       <Card>
         <CardHeader>
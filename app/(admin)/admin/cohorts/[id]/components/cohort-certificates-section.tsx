@@ -193,7 +193,7 @@ export function CohortCertificatesSection({ cohortId, cohortName }: CohortCertif
     setSelectedFile(file);
   };
 
-  const submitUpload = async () => {
+  const submitUpload = async (override = false) => {
     if (!uploadTarget || !selectedFile) return;
     setUploadInFlight(true);
     try {
@@ -201,6 +201,7 @@ export function CohortCertificatesSection({ cohortId, cohortName }: CohortCertif
       formData.append('user_id', uploadTarget.user_id);
       formData.append('cohort_id', cohortId);
       formData.append('file', selectedFile);
+      if (override) formData.append('override', 'true');
 
       const response = await fetch('/api/admin/cohort-certificates', {
         method: 'POST',
@@ -221,6 +222,12 @@ export function CohortCertificatesSection({ cohortId, cohortName }: CohortCertif
           toast.error('Recipient is not a cohort member');
         } else if (body?.reason === 'invalid_uuid') {
           toast.error('Invalid recipient or cohort identifier');
+        } else if (body?.stage === 'ineligible') {
+          // Attendance policy gate — admins may still issue the certificate
+          toast.error('Recipient is not eligible under the attendance policy', {
+            description: body.error,
+            action: { label: 'Upload anyway', onClick: () => submitUpload(true) },
+          });
         } else {
           toast.error(body.error || `Upload failed (HTTP ${response.status})`);
         }
@@ -461,7 +468,7 @@ export function CohortCertificatesSection({ cohortId, cohortName }: CohortCertif
             <Button variant="outline" onClick={closeUpload} disabled={uploadInFlight}>
               Cancel
             </Button>
-            <Button onClick={submitUpload} disabled={!selectedFile || uploadInFlight}>
+            <Button onClick={() => submitUpload()} disabled={!selectedFile || uploadInFlight}>
               {uploadInFlight && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
               {uploadTarget?.certificate ? 'Replace certificate' : 'Upload certificate'}
             </Button>
@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import { z } from 'zod';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Loader2, NotebookPen } from 'lucide-react';
+import type { Assignment } from '@/types';
+
+interface AssignmentFormData {
+  title: string;
+  description: string;
+  due_date: string;
+  grace_period_minutes: number;
+  max_score: number;
+  submissions_closed: boolean;
+}
+
+interface AssignmentFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  editingAssignment: Assignment | null;
+  onSave: (data: AssignmentFormData) => void;
+  saving: boolean;
+}
+
+const assignmentSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  max_score: z.number().min(1, 'Min score is 1').max(1000, 'Max score is 1000'),
+  grace_period_minutes: z.number().int().min(0).max(10080, 'Max grace period is 7 days (10080 minutes)'),
+});
+
+export function AssignmentFormDialog({
+  open,
+  onOpenChange,
+  editingAssignment,
+  onSave,
+  saving,
+}: AssignmentFormDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="dark:bg-gray-900 dark:border-gray-700 sm:max-w-[550px]">
+        {/* Mounted per open, so the fields start from the assignment being edited */}
+        <AssignmentForm
+          editingAssignment={editingAssignment}
+          onCancel={() => onOpenChange(false)}
+          onSave={onSave}
+          saving={saving}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AssignmentForm({
+  editingAssignment,
+  onCancel,
+  onSave,
+  saving,
+}: Pick<AssignmentFormDialogProps, 'editingAssignment' | 'onSave' | 'saving'> & { onCancel: () => void }) {
+  const [title, setTitle] = useState(editingAssignment?.title ?? '');
+  const [description, setDescription] = useState(editingAssignment?.description ?? '');
+  const [dueDate, setDueDate] = useState(editingAssignment?.due_date ? editingAssignment.due_date.slice(0, 16) : '');
+  const [gracePeriod, setGracePeriod] = useState(editingAssignment?.grace_period_minutes?.toString() ?? '5');
+  const [maxScore, setMaxScore] = useState(editingAssignment?.max_score?.toString() ?? '100');
+  const [submissionsClosed, setSubmissionsClosed] = useState(editingAssignment?.submissions_closed ?? false);
+
+  const handleSubmit = () => {
+    const parsed = assignmentSchema.safeParse({
+      title: title.trim(),
+      max_score: Number(maxScore) || 0,
+      grace_period_minutes: parseInt(gracePeriod) || 0,
+    });
+
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0].message);
+      return;
+    }
+
+    onSave({
+      title: parsed.data.title,
+      description: description.trim(),
+      due_date: dueDate,
+      grace_period_minutes: parsed.data.grace_period_minutes,
+      max_score: parsed.data.max_score,
+      submissions_closed: submissionsClosed,
+    });
+  };
+
+  return (
+    <>
+      <DialogHeader className="pb-2">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-orange-500 to-amber-600 flex items-center justify-center">
+            <NotebookPen className="w-5 h-5 text-white" />
+          </div>
+          <DialogTitle className="dark:text-white text-2xl">
+            {editingAssignment ? 'Edit Assignment' : 'Create Assignment'}
+          </DialogTitle>
+        </div>
+        <DialogDescription className="dark:text-gray-400 text-base">
+          Individual homework — each student submits a file or link and their mentor grades it
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-6 py-4">
+        <div className="space-y-2">
+          <Label htmlFor="asg-title" className="dark:text-gray-300 font-medium flex items-center gap-1">
+            Title <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="asg-title"
+            placeholder="e.g., Write a PRD for a feature you use daily"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="dark:bg-gray-950 dark:border-gray-700 dark:text-white h-11 text-base"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="asg-description" className="dark:text-gray-300 font-medium">Instructions</Label>
+          <Textarea
+            id="asg-description"
+            placeholder="What students should hand in..."
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="dark:bg-gray-950 dark:border-gray-700 dark:text-white min-h-[100px] text-base resize-none"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-5">
+          <div className="space-y-2">
+            <Label htmlFor="asg-due" className="dark:text-gray-300 font-medium">Due Date & Time</Label>
+            <Input
+              id="asg-due"
+              type="datetime-local"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="dark:bg-gray-950 dark:border-gray-700 dark:text-white h-11 text-base"
+            />
+            <p className="text-xs text-muted-foreground dark:text-gray-500">Optional deadline (IST)</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="asg-grace" className="dark:text-gray-300 font-medium">Grace Period</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="asg-grace"
+                type="number"
+                min={0}
+                max={10080}
+                value={gracePeriod}
+                onChange={(e) => setGracePeriod(e.target.value)}
+                className="dark:bg-gray-950 dark:border-gray-700 dark:text-white h-11 text-base w-20"
+              />
+              <span className="text-sm text-muted-foreground dark:text-gray-500">minutes</span>
+            </div>
+            <p className="text-xs text-muted-foreground dark:text-gray-500">Accepted but marked late</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="asg-max" className="dark:text-gray-300 font-medium">Max Score</Label>
+            <Input
+              id="asg-max"
+              type="number"
+              min={1}
+              max={1000}
+              value={maxScore}
+              onChange={(e) => setMaxScore(e.target.value)}
+              className="dark:bg-gray-950 dark:border-gray-700 dark:text-white h-11 text-base"
+            />
+          </div>
+          {editingAssignment && (
+            <div className="space-y-2">
+              <Label htmlFor="asg-closed" className="dark:text-gray-300 font-medium">Submissions Closed</Label>
+              <div className="flex items-center h-11">
+                <Switch id="asg-closed" checked={submissionsClosed} onCheckedChange={setSubmissionsClosed} />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      <DialogFooter className="gap-2">
+        <Button
+          variant="outline"
+          onClick={onCancel}
+          className="dark:border-gray-700 dark:text-white dark:hover:bg-gray-800 h-11"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          disabled={saving || !title.trim()}
+          className="bg-gradient-to-r from-orange-500 to-amber-600 hover:from-orange-600 hover:to-amber-700 text-white h-11 px-6 shadow-md"
+        >
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {editingAssignment ? 'Update Assignment' : 'Create Assignment'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export type { AssignmentFormData };
@@ -0,0 +1,173 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Plus,
+  MoreVertical,
+  Pencil,
+  Trash2,
+  ChevronDown,
+  ChevronRight,
+  NotebookPen,
+  Calendar,
+  Inbox,
+  Lock,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import type { Assignment } from '@/types';
+
+interface AssignmentSectionProps {
+  expanded: boolean;
+  onToggle: () => void;
+  assignments: Assignment[];
+  onAdd: () => void;
+  onEdit: (assignment: Assignment) => void;
+  onDelete: (assignmentId: string) => void;
+  onViewSubmissions: (assignment: Assignment) => void;
+}
+
+export function AssignmentSection({
+  expanded,
+  onToggle,
+  assignments,
+  onAdd,
+  onEdit,
+  onDelete,
+  onViewSubmissions,
+}: AssignmentSectionProps) {
+  return (
+    <Card className="border-2 dark:border-gray-800 dark:bg-gray-950/50 shadow-sm overflow-hidden">
+      <Collapsible open={expanded} onOpenChange={onToggle}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-orange-50/50 dark:hover:bg-orange-950/10 transition-all border-b dark:border-gray-800 group">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="transition-transform group-hover:scale-110">
+                  {expanded ? (
+                    <ChevronDown className="w-5 h-5 text-gray-700 dark:text-gray-300" />
+                  ) : (
+                    <ChevronRight className="w-5 h-5 text-gray-700 dark:text-gray-300" />
+                  )}
+                </div>
+                <div className="w-9 h-9 rounded-lg bg-orange-500/10 dark:bg-orange-500/20 flex items-center justify-center">
+                  <NotebookPen className="w-5 h-5 text-orange-600 dark:text-orange-400" />
+                </div>
+                <CardTitle className="text-lg font-semibold dark:text-white">Assignments</CardTitle>
+                <Badge variant="secondary" className="bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border-0 font-semibold">
+                  {assignments.length}
+                </Badge>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={(e) => { e.stopPropagation(); onAdd(); }}
+                className="border-2 dark:border-gray-700 dark:bg-gray-900 dark:text-white dark:hover:bg-gray-800 transition-all hover:shadow-sm"
+              >
+                <Plus className="w-4 h-4 mr-1.5" />
+                Add
+              </Button>
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="pt-5 pb-5">
+            {assignments.length === 0 ? (
+              <div className="text-center py-8 px-4 rounded-lg border-2 border-dashed dark:border-gray-700 bg-gray-50/50 dark:bg-gray-900/50">
+                <div className="w-12 h-12 rounded-full bg-orange-500/10 dark:bg-orange-500/20 flex items-center justify-center mx-auto mb-3">
+                  <NotebookPen className="w-6 h-6 text-orange-600 dark:text-orange-400" />
+                </div>
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-300">No assignments added yet</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Click &quot;Add&quot; to set individual homework for this week</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {assignments.map((assignment) => (
+                  <div
+                    key={assignment.id}
+                    className="flex items-start gap-4 p-5 rounded-lg border-2 dark:border-gray-700 bg-white dark:bg-gray-900 hover:border-orange-500/50 dark:hover:border-orange-500/50 transition-all shadow-sm hover:shadow-md"
+                  >
+                    <div className="w-12 h-12 rounded-lg bg-orange-500/10 dark:bg-orange-500/20 flex items-center justify-center flex-shrink-0">
+                      <NotebookPen className="w-6 h-6 text-orange-600 dark:text-orange-400" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-2">
+                        <p className="font-semibold text-base dark:text-white">{assignment.title}</p>
+                        {assignment.is_archived && (
+                          <Badge variant="outline" className="text-xs border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400">
+                            Archived
+                          </Badge>
+                        )}
+                        {assignment.submissions_closed && (
+                          <Badge variant="outline" className="text-xs border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400">
+                            <Lock className="w-3 h-3 mr-1" />
+                            Closed
+                          </Badge>
+                        )}
+                      </div>
+                      {assignment.description && (
+                        <p className="text-sm text-gray-600 dark:text-gray-300 mb-3 whitespace-pre-line">{assignment.description}</p>
+                      )}
+                      <div className="flex items-center gap-4 text-sm">
+                        <button
+                          onClick={() => onViewSubmissions(assignment)}
+                          className="text-orange-600 dark:text-orange-400 hover:text-orange-700 dark:hover:text-orange-300 font-medium flex items-center gap-1.5 transition-colors"
+                        >
+                          <Inbox className="w-4 h-4" />
+                          {assignment.submission_count ?? 0} submitted · {assignment.graded_count ?? 0} graded
+                        </button>
+                        {assignment.due_date && (
+                          <span className="text-gray-600 dark:text-gray-400 flex items-center gap-1.5">
+                            <Calendar className="w-4 h-4" />
+                            Due: {format(new Date(assignment.due_date), 'MMM d, yyyy h:mm a')}
+                          </span>
+                        )}
+                        <span className="text-gray-600 dark:text-gray-400">Max {assignment.max_score}</span>
+                      </div>
+                    </div>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm" variant="ghost">
+                          <MoreVertical className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => onViewSubmissions(assignment)}>
+                          <Inbox className="w-4 h-4 mr-2" />
+                          Submissions
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onEdit(assignment)}>
+                          <Pencil className="w-4 h-4 mr-2" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          className="text-destructive"
+                          onClick={() => onDelete(assignment.id)}
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
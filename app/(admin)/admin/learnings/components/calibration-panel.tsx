@@ -0,0 +1,307 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { AlertTriangle, CheckCircle2, Gavel, Loader2 } from 'lucide-react';
+import type { BiasTendency, MentorCalibration, SubmissionCalibration } from '@/lib/services/review-calibration';
+import type { CaseStudy } from '@/types';
+
+interface CalibrationPanelProps {
+  caseStudy: CaseStudy;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after settings or adjudications change */
+  onChanged: () => void;
+}
+
+const TENDENCY_STYLES: Record<BiasTendency, { label: string; className: string }> = {
+  harsher: { label: 'Harsher', className: 'text-red-600 border-red-300 dark:text-red-400 dark:border-red-800' },
+  softer: { label: 'Softer', className: 'text-amber-600 border-amber-300 dark:text-amber-400 dark:border-amber-800' },
+  aligned: { label: 'Aligned', className: 'text-emerald-600 border-emerald-300 dark:text-emerald-400 dark:border-emerald-800' },
+  insufficient_data: { label: 'Too few reviews', className: 'text-muted-foreground' },
+};
+
+const signed = (n: number) => `${n > 0 ? '+' : ''}${n}`;
+
+export function CalibrationPanel({ caseStudy, open, onOpenChange, onChanged }: CalibrationPanelProps) {
+  const [loading, setLoading] = useState(false);
+  const [submissions, setSubmissions] = useState<SubmissionCalibration[]>([]);
+  const [mode, setMode] = useState(caseStudy.calibration_mode);
+  const [threshold, setThreshold] = useState(String(caseStudy.calibration_threshold ?? 15));
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [adjudicatingId, setAdjudicatingId] = useState<string | null>(null);
+
+  const [mentors, setMentors] = useState<MentorCalibration[] | null>(null);
+  const [tolerance, setTolerance] = useState(5);
+
+  const fetchCalibration = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/calibration`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setSubmissions(data.submissions || []);
+      setMode(data.settings.calibrationMode);
+      setThreshold(String(data.settings.calibrationThreshold));
+    } catch {
+      toast.error('Failed to load calibration');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseStudy.id]);
+
+  const fetchMentorReport = useCallback(async () => {
+    setMentors(null);
+    try {
+      const res = await fetch(`/api/admin/case-studies/calibration-report?cohort_id=${caseStudy.cohort_id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setMentors(data.mentors || []);
+      setTolerance(data.tolerance_pct);
+    } catch {
+      setMentors([]);
+      toast.error('Failed to load mentor report');
+    }
+  }, [caseStudy.cohort_id]);
+
+  useEffect(() => {
+    if (open) {
+      fetchCalibration();
+      fetchMentorReport();
+    }
+  }, [open, fetchCalibration, fetchMentorReport]);
+
+  const handleSaveSettings = async () => {
+    setSavingSettings(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/calibration`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ calibration_mode: mode, calibration_threshold: Number(threshold) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save settings');
+      toast.success('Calibration settings saved');
+      fetchCalibration();
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleAdjudicate = async (submissionId: string) => {
+    setAdjudicatingId(submissionId);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/calibration/adjudicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ submission_id: submissionId, note: notes[submissionId] || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to adjudicate');
+      toast.success('Submission adjudicated');
+      fetchCalibration();
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to adjudicate');
+    } finally {
+      setAdjudicatingId(null);
+    }
+  };
+
+  const awaiting = submissions.filter(s => s.agreement.flagged && !s.adjudicatedAt).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Calibration — {caseStudy.title}</DialogTitle>
+          <DialogDescription>
+            Reviewers score blind; submissions whose scores spread by more than the threshold must be adjudicated before students see them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="agreement">
+          <TabsList>
+            <TabsTrigger value="agreement">
+              Agreement
+              {awaiting > 0 && <Badge variant="destructive" className="ml-1.5 h-5 px-1.5 text-[10px]">{awaiting}</Badge>}
+            </TabsTrigger>
+            <TabsTrigger value="mentors">Mentor bias</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="agreement" className="space-y-4 mt-4">
+            <div className="flex flex-wrap items-end gap-4 rounded-lg border bg-muted/30 p-3">
+              <div className="flex items-center gap-2">
+                <Switch id="calibration-mode" checked={mode} onCheckedChange={setMode} />
+                <Label htmlFor="calibration-mode">Calibration mode</Label>
+              </div>
+              <div>
+                <Label htmlFor="calibration-threshold" className="text-xs text-muted-foreground">Max spread (% of {caseStudy.max_score})</Label>
+                <Input
+                  id="calibration-threshold"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={threshold}
+                  onChange={e => setThreshold(e.target.value)}
+                  className="h-8 w-24 mt-1"
+                />
+              </div>
+              <Button size="sm" onClick={handleSaveSettings} disabled={savingSettings}>
+                {savingSettings && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+                Save
+              </Button>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : submissions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No submitted work yet</p>
+            ) : (
+              <div className="space-y-2">
+                {submissions.map(s => {
+                  const a = s.agreement;
+                  const needsAdjudication = a.flagged && !s.adjudicatedAt;
+                  return (
+                    <div
+                      key={s.submissionId}
+                      className={`rounded-lg border p-3 space-y-2 ${needsAdjudication ? 'border-red-300 dark:border-red-900 bg-red-50/50 dark:bg-red-950/10' : ''}`}
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <span className="text-sm font-medium">{s.subgroupName}</span>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          {a.reviewCount >= 2 ? (
+                            <span>
+                              Spread {a.spread} pts ({a.spreadPct}%) · σ {a.stdDev} · mean {a.mean}
+                            </span>
+                          ) : (
+                            <span>{a.reviewCount} scored review{a.reviewCount === 1 ? '' : 's'}</span>
+                          )}
+                          {s.adjudicatedAt ? (
+                            <Badge variant="outline" className="text-[10px]"><Gavel className="w-3 h-3 mr-1" />Adjudicated</Badge>
+                          ) : a.flagged ? (
+                            <Badge variant="destructive" className="text-[10px]"><AlertTriangle className="w-3 h-3 mr-1" />Disagreement</Badge>
+                          ) : a.reviewCount >= 2 ? (
+                            <Badge variant="outline" className="text-[10px] text-emerald-600 border-emerald-300"><CheckCircle2 className="w-3 h-3 mr-1" />Agreed</Badge>
+                          ) : null}
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap gap-1.5">
+                        {s.reviews.map(r => (
+                          <Badge key={r.reviewId} variant="secondary" className="text-[11px] font-normal">
+                            {r.reviewerName ?? 'Unknown'} ({r.role}): <span className="font-semibold ml-1">{r.score ?? '—'}</span>
+                          </Badge>
+                        ))}
+                      </div>
+
+                      {a.criteria.some(c => c.reviewCount >= 2) && (
+                        <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 text-xs">
+                          <span className="text-muted-foreground">Criterion</span>
+                          <span className="text-muted-foreground text-right">Spread</span>
+                          <span className="text-muted-foreground text-right">Variance</span>
+                          {a.criteria.filter(c => c.reviewCount >= 2).map(c => (
+                            <div key={c.criteriaId} className="contents">
+                              <span className="truncate">{c.label}</span>
+                              <span className="text-right tabular-nums">{c.spreadPct}%</span>
+                              <span className="text-right tabular-nums">{c.variance}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {s.adjudicatedAt && s.adjudicationNote && (
+                        <p className="text-xs text-muted-foreground">Adjudication: {s.adjudicationNote}</p>
+                      )}
+
+                      {needsAdjudication && (
+                        <div className="flex items-center gap-2">
+                          <Input
+                            placeholder="Adjudication note (optional)"
+                            value={notes[s.submissionId] ?? ''}
+                            onChange={e => setNotes(n => ({ ...n, [s.submissionId]: e.target.value }))}
+                            className="h-8 text-xs"
+                          />
+                          <Button
+                            size="sm"
+                            className="h-8 text-xs shrink-0"
+                            onClick={() => handleAdjudicate(s.submissionId)}
+                            disabled={adjudicatingId === s.submissionId}
+                          >
+                            {adjudicatingId === s.submissionId && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+                            Adjudicate
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {awaiting > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    To adjudicate, update your own review to the final score, then confirm here.
+                  </p>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="mentors" className="mt-4">
+            {mentors === null ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : mentors.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No mentor reviews to compare against an admin score in this cohort yet
+              </p>
+            ) : (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground mb-2">
+                  Mentor score minus admin score on the same submissions, across this cohort, in points per 100.
+                  Within ±{tolerance} counts as aligned.
+                </p>
+                <div className="grid grid-cols-[1fr_auto_auto_auto_auto] items-center gap-x-4 gap-y-2 text-sm">
+                  <span className="text-xs text-muted-foreground">Mentor</span>
+                  <span className="text-xs text-muted-foreground text-right">Reviews</span>
+                  <span className="text-xs text-muted-foreground text-right">Mean Δ</span>
+                  <span className="text-xs text-muted-foreground text-right">Mean |Δ|</span>
+                  <span />
+                  {mentors.map(m => (
+                    <div key={m.reviewerId} className="contents">
+                      <span className="truncate">{m.reviewerName ?? 'Unknown'}</span>
+                      <span className="text-right tabular-nums">{m.reviewCount}</span>
+                      <span className="text-right tabular-nums">{signed(m.meanDeltaPct)}</span>
+                      <span className="text-right tabular-nums">{m.meanAbsDeltaPct}</span>
+                      <Badge variant="outline" className={`text-[10px] justify-self-end ${TENDENCY_STYLES[m.tendency].className}`}>
+                        {TENDENCY_STYLES[m.tendency].label}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
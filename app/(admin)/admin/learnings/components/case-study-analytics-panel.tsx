@@ -0,0 +1,313 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from 'sonner';
+import { BarChart3 } from 'lucide-react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { AnalyticsHistogramBin, CaseStudy, CaseStudyAnalytics, CaseStudyFunnelStage } from '@/types';
+
+interface CaseStudyAnalyticsPanelProps {
+  caseStudy: CaseStudy;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STAGE_LABELS: Record<CaseStudyFunnelStage, string> = {
+  not_started: 'Not started',
+  draft: 'Draft',
+  submitted: 'Submitted',
+  reviewed: 'Reviewed',
+  published: 'Published',
+};
+
+const SERIES_COLORS = ['var(--primary)', 'rgb(16 185 129)', 'rgb(245 158 11)', 'rgb(14 165 233)', 'rgb(244 63 94)'];
+
+const axisTick = { fill: 'var(--muted-foreground)', fontSize: 11 };
+
+function seriesName(a: CaseStudyAnalytics): string {
+  return a.cohort_name ?? 'Unknown cohort';
+}
+
+function formatHours(hours: number | null): string {
+  if (hours === null) return '—';
+  return hours >= 48 ? `${Math.round(hours / 24)}d` : `${hours}h`;
+}
+
+/**
+ * One row per bin with a value per series. Comparing cohorts of different
+ * sizes only makes sense as shares, so counts become percentages then.
+ */
+function histogramRows(series: CaseStudyAnalytics[], pick: (a: CaseStudyAnalytics) => AnalyticsHistogramBin[], asShare: boolean) {
+  const labels = series.map(pick).find(bins => bins.length)?.map(b => b.label) ?? [];
+  return labels.map((label, i) => {
+    const row: Record<string, string | number> = { label };
+    for (const a of series) {
+      const bins = pick(a);
+      const total = bins.reduce((sum, b) => sum + b.count, 0);
+      const count = bins[i]?.count ?? 0;
+      row[a.case_study_id] = asShare ? (total ? Math.round((count / total) * 100) : 0) : count;
+    }
+    return row;
+  });
+}
+
+function HistogramChart({
+  series,
+  pick,
+  asShare,
+}: {
+  series: CaseStudyAnalytics[];
+  pick: (a: CaseStudyAnalytics) => AnalyticsHistogramBin[];
+  asShare: boolean;
+}) {
+  const rows = histogramRows(series, pick, asShare);
+  if (rows.length === 0) return <p className="text-sm text-muted-foreground py-6 text-center">No data yet</p>;
+  return (
+    <ResponsiveContainer width="100%" height={200}>
+      <BarChart data={rows} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+        <XAxis dataKey="label" tick={axisTick} interval={0} />
+        <YAxis allowDecimals={false} tick={axisTick} tickFormatter={v => (asShare ? `${v}%` : `${v}`)} />
+        <Tooltip
+          formatter={(value, name) => [
+            asShare ? `${value}%` : value,
+            seriesName(series.find(a => a.case_study_id === name) ?? series[0]),
+          ]}
+          contentStyle={{ background: 'var(--popover)', border: '1px solid var(--border)', borderRadius: 8, fontSize: 12 }}
+        />
+        {series.length > 1 && (
+          <Legend formatter={value => seriesName(series.find(a => a.case_study_id === value) ?? series[0])} wrapperStyle={{ fontSize: 12 }} />
+        )}
+        {series.map((a, i) => (
+          <Bar key={a.case_study_id} dataKey={a.case_study_id} fill={SERIES_COLORS[i % SERIES_COLORS.length]} isAnimationActive={false} />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
+
+function SectionTitle({ children }: { children: React.ReactNode }) {
+  return <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">{children}</p>;
+}
+
+export function CaseStudyAnalyticsPanel({ caseStudy, open, onOpenChange }: CaseStudyAnalyticsPanelProps) {
+  const [loading, setLoading] = useState(false);
+  const [analytics, setAnalytics] = useState<CaseStudyAnalytics[]>([]);
+  const [compareIds, setCompareIds] = useState<Set<string>>(new Set());
+
+  const fetchAnalytics = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/analytics`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load analytics');
+      setAnalytics(data.analytics);
+      setCompareIds(new Set());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseStudy.id]);
+
+  useEffect(() => {
+    if (open) fetchAnalytics();
+  }, [open, fetchAnalytics]);
+
+  const [current, ...others] = analytics;
+  const series = useMemo(
+    () => analytics.filter((a, i) => i === 0 || compareIds.has(a.case_study_id)),
+    [analytics, compareIds],
+  );
+  const comparing = series.length > 1;
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Criteria line up across cohorts by label, since clones copy them verbatim
+  const criteriaLabels = useMemo(() => {
+    const labels: string[] = [];
+    for (const a of series) {
+      for (const c of a.criteria) if (!labels.includes(c.label)) labels.push(c.label);
+    }
+    return labels;
+  }, [series]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BarChart3 className="w-5 h-5" />
+            Analytics — {caseStudy.title}
+          </DialogTitle>
+          <DialogDescription>
+            Scores are from the grading admin review. {comparing && 'Charts show each cohort’s share so cohorts of different sizes compare.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !current ? (
+          <div className="space-y-3">
+            <Skeleton className="h-[120px] w-full rounded-lg" />
+            <Skeleton className="h-[200px] w-full rounded-lg" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {others.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-xs text-muted-foreground">Compare with</span>
+                {others.map(a => (
+                  <button key={a.case_study_id} type="button" onClick={() => toggleCompare(a.case_study_id)}>
+                    <Badge
+                      variant={compareIds.has(a.case_study_id) ? 'default' : 'outline'}
+                      style={compareIds.has(a.case_study_id) ? { background: SERIES_COLORS[series.indexOf(a) % SERIES_COLORS.length] } : undefined}
+                    >
+                      {seriesName(a)}
+                    </Badge>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <SectionTitle>Funnel</SectionTitle>
+              <div className="space-y-3">
+                {current.funnel.map((step, i) => (
+                  <div key={step.stage} className="flex items-center gap-3">
+                    <span className="text-xs w-24 shrink-0">{STAGE_LABELS[step.stage]}</span>
+                    <div className="flex-1 space-y-1">
+                      {series.map((a, j) => {
+                        const s = a.funnel[i];
+                        const share = a.subgroups ? s.reached / a.subgroups : 0;
+                        return (
+                          <div key={a.case_study_id} className="flex items-center gap-2">
+                            <div className="relative flex-1 h-3 rounded-sm bg-muted/40">
+                              <div
+                                className="absolute inset-y-0 left-0 rounded-sm"
+                                style={{ width: `${share * 100}%`, background: SERIES_COLORS[j % SERIES_COLORS.length] }}
+                              />
+                            </div>
+                            <span className="text-[11px] text-muted-foreground w-28 text-right tabular-nums shrink-0">
+                              {s.reached}/{a.subgroups} ({Math.round(share * 100)}%)
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-muted-foreground">
+                Subgroups that reached each stage. Right now: {current.funnel.map(s => `${s.count} ${STAGE_LABELS[s.stage].toLowerCase()}`).join(', ')}.
+              </p>
+            </div>
+
+            <div>
+              <SectionTitle>Submitted relative to the deadline</SectionTitle>
+              {series.some(a => a.timing.length) ? (
+                <>
+                  <HistogramChart series={series} pick={a => a.timing} asShare={comparing} />
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Median{' '}
+                    {series
+                      .map(a => {
+                        const h = a.median_hours_before_deadline;
+                        const text = h === null ? '—' : h >= 0 ? `${formatHours(h)} early` : `${formatHours(-h)} late`;
+                        return comparing ? `${seriesName(a)} ${text}` : text;
+                      })
+                      .join(' · ')}
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">No deadline, or nothing submitted yet.</p>
+              )}
+            </div>
+
+            <div>
+              <SectionTitle>Final scores (% of max)</SectionTitle>
+              <HistogramChart series={series} pick={a => a.scores} asShare={comparing} />
+            </div>
+
+            {criteriaLabels.length > 0 && (
+              <div>
+                <SectionTitle>Rubric criteria — mean % of max</SectionTitle>
+                <div className="rounded-lg border divide-y text-sm">
+                  {criteriaLabels.map(label => (
+                    <div key={label} className="flex items-center gap-3 px-3 py-2">
+                      <span className="flex-1 min-w-0 truncate">{label}</span>
+                      {series.map((a, j) => {
+                        const c = a.criteria.find(cr => cr.label === label);
+                        return (
+                          <div key={a.case_study_id} className="w-28 shrink-0 text-right">
+                            <span className="tabular-nums font-medium" style={{ color: comparing ? SERIES_COLORS[j % SERIES_COLORS.length] : undefined }}>
+                              {c?.mean_percent != null ? `${c.mean_percent}%` : '—'}
+                            </span>
+                            {c && c.scored > 0 && (
+                              <div className="mt-1 flex h-1.5 gap-px" title={c.bins.map(b => `${b.label}: ${b.count}`).join('\n')}>
+                                {c.bins.map(b => (
+                                  <div
+                                    key={b.label}
+                                    className="flex-1 rounded-[1px] bg-primary"
+                                    style={{ opacity: 0.15 + 0.85 * (b.count / c.scored) }}
+                                  />
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <SectionTitle>Reviewer turnaround (submitted → review started)</SectionTitle>
+              <div className="rounded-lg border divide-y text-sm">
+                {(['admin', 'mentor'] as const).map(role => (
+                  <div key={role} className="flex items-center gap-3 px-3 py-2">
+                    <span className="flex-1 capitalize">{role}</span>
+                    {series.map(a => {
+                      const t = a.turnaround.find(tr => tr.reviewer_role === role);
+                      return (
+                        <span key={a.case_study_id} className="w-40 shrink-0 text-right text-xs text-muted-foreground tabular-nums">
+                          {comparing && <span className="mr-1">{seriesName(a)}:</span>}
+                          {t?.reviews ? `median ${formatHours(t.median_hours)} · p90 ${formatHours(t.p90_hours)} (${t.reviews})` : '—'}
+                        </span>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
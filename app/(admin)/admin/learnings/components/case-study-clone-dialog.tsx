@@ -0,0 +1,227 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { CheckCircle2, Loader2, MinusCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import type { CaseStudy, CaseStudyCloneReport, Cohort } from '@/types';
+
+interface CaseStudyCloneDialogProps {
+  /** The cohort case studies are copied into */
+  targetCohort: Cohort;
+  cohorts: Cohort[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCloned: () => void;
+}
+
+function formatStart(date: string | null): string {
+  return date ? format(new Date(`${date}T00:00:00`), 'MMM d, yyyy') : 'no start date';
+}
+
+export function CaseStudyCloneDialog({ targetCohort, cohorts, open, onOpenChange, onCloned }: CaseStudyCloneDialogProps) {
+  const [sourceCohortId, setSourceCohortId] = useState('');
+  const [sourceCaseStudies, setSourceCaseStudies] = useState<CaseStudy[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [weekOffset, setWeekOffset] = useState('0');
+  const [loading, setLoading] = useState(false);
+  const [cloning, setCloning] = useState(false);
+  const [report, setReport] = useState<CaseStudyCloneReport | null>(null);
+
+  const sourceCohorts = cohorts.filter(c => c.id !== targetCohort.id);
+  const sourceCohort = sourceCohorts.find(c => c.id === sourceCohortId);
+
+  const fetchSourceCaseStudies = useCallback(async () => {
+    if (!sourceCohortId) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies?cohort_id=${sourceCohortId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      const list = (data.caseStudies || []) as CaseStudy[];
+      setSourceCaseStudies(list);
+      setSelected(new Set(list.filter(cs => !cs.is_archived).map(cs => cs.id)));
+    } catch {
+      toast.error('Failed to load case studies');
+    } finally {
+      setLoading(false);
+    }
+  }, [sourceCohortId]);
+
+  useEffect(() => {
+    if (open) fetchSourceCaseStudies();
+  }, [open, fetchSourceCaseStudies]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setReport(null);
+    onOpenChange(next);
+  };
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleClone = async () => {
+    setCloning(true);
+    try {
+      const res = await fetch(`/api/admin/cohorts/${targetCohort.id}/clone-case-studies`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          source_cohort_id: sourceCohortId,
+          case_study_ids: [...selected],
+          week_offset: Number(weekOffset) || 0,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to clone case studies');
+      setReport(data);
+      toast.success(`${data.copied.length} case stud${data.copied.length === 1 ? 'y' : 'ies'} copied`);
+      if (data.copied.length > 0) onCloned();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to clone case studies');
+    } finally {
+      setCloning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Clone Case Studies into {targetCohort.name}</DialogTitle>
+          <DialogDescription>
+            Copies problem files, rubric criteria and general solutions. Due dates keep their distance from the cohort start
+            ({formatStart(targetCohort.start_date)} for {targetCohort.name}).
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-3">
+            {report.copied.map(c => (
+              <div key={c.case_study_id} className="rounded-lg border px-3 py-2 text-sm space-y-0.5">
+                <p className="flex items-center gap-1.5 font-medium">
+                  <CheckCircle2 className="w-4 h-4 text-emerald-600 shrink-0" />
+                  {c.title}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Week {c.week_number}
+                  {c.due_date && ` · due ${format(new Date(c.due_date), 'MMM d, yyyy h:mm a')}`}
+                  {' · '}{c.problem_file ? 'problem file' : 'no problem file'}
+                  {' · '}{c.rubric_criteria} rubric criteri{c.rubric_criteria === 1 ? 'on' : 'a'}
+                  {' · '}{c.solutions} solution{c.solutions !== 1 ? 's' : ''}
+                </p>
+                {c.notes.map(note => (
+                  <p key={note} className="text-xs text-amber-600 dark:text-amber-400">{note}</p>
+                ))}
+              </div>
+            ))}
+            {report.skipped.map(s => (
+              <div key={s.source_id} className="rounded-lg border border-dashed px-3 py-2 text-sm space-y-0.5">
+                <p className="flex items-center gap-1.5 font-medium text-muted-foreground">
+                  <MinusCircle className="w-4 h-4 shrink-0" />
+                  {s.title}
+                </p>
+                <p className="text-xs text-muted-foreground">Skipped: {s.reason}</p>
+              </div>
+            ))}
+            {report.copied.length === 0 && report.skipped.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nothing to copy.</p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Copy from</Label>
+              <Select value={sourceCohortId} onValueChange={setSourceCohortId}>
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue placeholder="Select cohort" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sourceCohorts.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {sourceCohort && (
+                <p className="mt-1 text-xs text-muted-foreground">Started {formatStart(sourceCohort.start_date)}</p>
+              )}
+            </div>
+
+            {sourceCohortId && (
+              loading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : sourceCaseStudies.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This cohort has no case studies.</p>
+              ) : (
+                <div className="space-y-1.5">
+                  {sourceCaseStudies.map(cs => (
+                    <label key={cs.id} className="flex items-center gap-3 rounded-md border px-3 py-2 text-sm cursor-pointer hover:bg-muted/40">
+                      <Checkbox checked={selected.has(cs.id)} onCheckedChange={() => toggle(cs.id)} />
+                      <span className="flex-1 min-w-0 truncate">{cs.title}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        Week {cs.week_number}{cs.is_archived && ' · archived'}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )
+            )}
+
+            <div>
+              <Label htmlFor="clone-week-offset" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                Shift by weeks
+              </Label>
+              <Input
+                id="clone-week-offset"
+                type="number"
+                value={weekOffset}
+                onChange={e => setWeekOffset(e.target.value)}
+                className="mt-1.5 w-28"
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Added to week numbers and due dates, e.g. 1 if this cohort has an extra orientation week.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>{report ? 'Done' : 'Cancel'}</Button>
+          {!report && (
+            <Button onClick={handleClone} disabled={cloning || loading || selected.size === 0 || !sourceCohortId}>
+              {cloning && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+              Clone {selected.size > 0 ? selected.size : ''}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -442,7 +442,7 @@ export function CaseStudyFormDialog({
   const caseStudySchema = z.object({
     title: z.string().min(1, 'Title is required'),
     max_score: z.number().int().min(1, 'Min score is 1').max(1000, 'Max score is 1000'),
-    grace_period_minutes: z.number().int().min(0).max(60, 'Max grace period is 60 minutes'),
+    grace_period_minutes: z.number().int().min(0).max(10080, 'Max grace period is 7 days (10080 minutes)'),
   });
 
   const handleSubmit = async () => {
@@ -916,7 +916,7 @@ export function CaseStudyFormDialog({
                   id="cs-grace"
                   type="number"
                   min={0}
-                  max={60}
+                  max={10080}
                   value={gracePeriod}
                   onChange={(e) => setGracePeriod(e.target.value)}
                   className="dark:bg-gray-950 dark:border-gray-700 dark:text-white h-11 text-base w-20"
@@ -924,7 +924,7 @@ export function CaseStudyFormDialog({
                 <span className="text-sm text-muted-foreground dark:text-gray-500">minutes</span>
               </div>
               <p className="text-xs text-muted-foreground dark:text-gray-500">
-                Late submissions accepted within grace
+                Late submissions accepted within grace; the late policy sets any penalty
               </p>
             </div>
             <div className="space-y-2">
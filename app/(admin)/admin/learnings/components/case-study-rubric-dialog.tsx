@@ -0,0 +1,218 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { AlertTriangle, Library, Loader2, Trash2 } from 'lucide-react';
+import { RubricTemplateLibrary } from './rubric-template-library';
+import type { CaseStudy, RubricCriteria, RubricTemplate } from '@/types';
+
+interface CaseStudyRubricDialogProps {
+  caseStudy: CaseStudy | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CaseStudyRubricDialog({ caseStudy, onOpenChange }: CaseStudyRubricDialogProps) {
+  const [criteria, setCriteria] = useState<RubricCriteria[]>([]);
+  const [currentTemplateId, setCurrentTemplateId] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<RubricTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [conflict, setConflict] = useState<string | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+
+  const caseStudyId = caseStudy?.id;
+
+  const fetchTemplates = useCallback(async () => {
+    const res = await fetch('/api/admin/rubric-templates');
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    setTemplates(data.templates || []);
+  }, []);
+
+  const fetchRubric = useCallback(async () => {
+    if (!caseStudyId) return;
+    setLoading(true);
+    setConflict(null);
+    setSelectedTemplateId('');
+    try {
+      const [res] = await Promise.all([fetch(`/api/admin/case-studies/${caseStudyId}/rubric`), fetchTemplates()]);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setCriteria(data.criteria || []);
+      setCurrentTemplateId(data.rubric_template_id ?? null);
+    } catch {
+      toast.error('Failed to load rubric');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseStudyId, fetchTemplates]);
+
+  useEffect(() => {
+    fetchRubric();
+  }, [fetchRubric]);
+
+  const handleAttach = async (force = false) => {
+    if (!caseStudyId || !selectedTemplateId) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudyId}/rubric`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ template_id: selectedTemplateId, force }),
+      });
+      const data = await res.json();
+      if (res.status === 409) {
+        setConflict(data.error);
+        return;
+      }
+      if (!res.ok) throw new Error(data.error || 'Failed to attach rubric');
+
+      setCriteria(data.criteria || []);
+      setCurrentTemplateId(data.rubric_template_id);
+      setSelectedTemplateId('');
+      setConflict(null);
+      toast.success('Rubric attached');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to attach rubric');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!caseStudyId) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudyId}/rubric`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to remove rubric');
+      setCriteria([]);
+      setCurrentTemplateId(null);
+      toast.success('Rubric removed');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove rubric');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const currentTemplate = templates.find(t => t.id === currentTemplateId);
+
+  return (
+    <>
+      <Dialog open={!!caseStudy} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Rubric — {caseStudy?.title}</DialogTitle>
+            <DialogDescription>
+              Reviewers grade each criterion by picking a level; the score out of {caseStudy?.max_score ?? 100} is
+              computed from the weighted criteria.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {criteria.length === 0 ? (
+                <p className="text-sm text-muted-foreground rounded-lg border border-dashed p-4 text-center">
+                  No rubric attached. Reviewers enter a single score.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {currentTemplate && (
+                    <p className="text-xs text-muted-foreground">From template &ldquo;{currentTemplate.name}&rdquo;</p>
+                  )}
+                  {criteria.map(c => (
+                    <div key={c.id} className="rounded-lg border p-3 space-y-1.5">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">{c.label}</span>
+                        <Badge variant="outline" className="text-[10px]">weight {c.weight}</Badge>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {c.levels.map(l => (
+                          <Badge key={l.label} variant="secondary" className="text-[10px]" title={l.description ?? undefined}>
+                            {l.label} · {l.points}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Select value={selectedTemplateId} onValueChange={v => { setSelectedTemplateId(v); setConflict(null); }}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={templates.length ? 'Choose a template' : 'No templates yet'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map(t => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={() => handleAttach(false)} disabled={!selectedTemplateId || saving}>
+                  {saving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+                  {criteria.length ? 'Replace' : 'Attach'}
+                </Button>
+              </div>
+
+              {conflict && (
+                <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 dark:border-amber-800 dark:bg-amber-950/20">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />
+                  <div className="flex-1 space-y-2">
+                    <p className="text-sm text-amber-700 dark:text-amber-400">{conflict}</p>
+                    <Button size="sm" variant="outline" onClick={() => handleAttach(true)} disabled={saving}>
+                      Replace anyway
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter className="sm:justify-between">
+            <Button variant="outline" onClick={() => setLibraryOpen(true)}>
+              <Library className="w-4 h-4 mr-1.5" />
+              Manage Templates
+            </Button>
+            {criteria.length > 0 && (
+              <Button variant="ghost" className="text-destructive" onClick={handleRemove} disabled={saving}>
+                <Trash2 className="w-4 h-4 mr-1.5" />
+                Remove Rubric
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <RubricTemplateLibrary
+        open={libraryOpen}
+        onOpenChange={setLibraryOpen}
+        onChanged={() => fetchTemplates().catch(() => toast.error('Failed to load rubric templates'))}
+      />
+    </>
+  );
+}
@@ -28,6 +28,7 @@ import {
   EyeOff,
   Calendar,
   Inbox,
+  ListChecks,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import type { CaseStudy } from '@/types';
@@ -43,6 +44,7 @@ interface CaseStudySectionProps {
   onPreviewProblem: (caseStudy: CaseStudy) => void;
   onPreviewSolution: (caseStudy: CaseStudy) => void;
   onViewSubmissions?: (caseStudy: CaseStudy) => void;
+  onManageRubric?: (caseStudy: CaseStudy) => void;
 }
 
 export function CaseStudySection({
@@ -56,6 +58,7 @@ export function CaseStudySection({
   onPreviewProblem,
   onPreviewSolution,
   onViewSubmissions,
+  onManageRubric,
 }: CaseStudySectionProps) {
   return (
     <Card className="border-2 dark:border-gray-800 dark:bg-gray-950/50 shadow-sm overflow-hidden">
@@ -175,6 +178,12 @@ export function CaseStudySection({
                               Submissions
                             </DropdownMenuItem>
                           )}
+                          {onManageRubric && (
+                            <DropdownMenuItem onClick={() => onManageRubric(caseStudy)}>
+                              <ListChecks className="w-4 h-4 mr-2" />
+                              Rubric
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem onClick={() => onEdit(caseStudy)}>
                             <Pencil className="w-4 h-4 mr-2" />
                             Edit
@@ -0,0 +1,209 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { Check, Loader2, X } from 'lucide-react';
+import type { CaseStudy, CaseStudyExtensionLogEntry, CaseStudyExtensionRequest } from '@/types';
+
+interface ExtensionPanelProps {
+  caseStudy: CaseStudy;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after a request is approved or rejected */
+  onChanged: () => void;
+}
+
+const SCOPE_LABELS: Record<CaseStudyExtensionLogEntry['scope'], string> = {
+  cohort: 'All subgroups',
+  subgroup: 'Subgroup',
+  student: 'Student',
+};
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('en-IN', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export function ExtensionPanel({ caseStudy, open, onOpenChange, onChanged }: ExtensionPanelProps) {
+  const [loading, setLoading] = useState(false);
+  const [requests, setRequests] = useState<CaseStudyExtensionRequest[]>([]);
+  const [log, setLog] = useState<CaseStudyExtensionLogEntry[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  const fetchExtensions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [reqRes, logRes] = await Promise.all([
+        fetch(`/api/admin/case-studies/extension-requests?case_study_id=${caseStudy.id}`),
+        fetch(`/api/admin/case-studies/${caseStudy.id}/extend-deadline`),
+      ]);
+      const [reqData, logData] = await Promise.all([reqRes.json(), logRes.json()]);
+      if (!reqRes.ok) throw new Error(reqData.error);
+      if (!logRes.ok) throw new Error(logData.error);
+      setRequests(reqData.requests || []);
+      setLog(logData.log || []);
+    } catch {
+      toast.error('Failed to load extensions');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseStudy.id]);
+
+  useEffect(() => {
+    if (open) fetchExtensions();
+  }, [open, fetchExtensions]);
+
+  const handleDecide = async (request: CaseStudyExtensionRequest, action: 'approve' | 'reject') => {
+    setDeciding(request.id);
+    try {
+      const res = await fetch(`/api/admin/case-studies/extension-requests/${request.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, note: notes[request.id] || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update request');
+      toast.success(action === 'approve' ? 'Extension approved' : 'Extension rejected');
+      fetchExtensions();
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update request');
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const pending = requests.filter(r => r.status === 'pending');
+  const decided = requests.filter(r => r.status !== 'pending');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Extensions — {caseStudy.title}</DialogTitle>
+          <DialogDescription>
+            Student requests waiting for a decision, and every extension granted so far.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Pending requests ({pending.length})</h3>
+              {pending.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No pending requests</p>
+              ) : (
+                <div className="divide-y rounded-lg border">
+                  {pending.map(r => (
+                    <div key={r.id} className="p-3 space-y-2">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="text-sm">
+                          <span className="font-medium">{r.subgroup_name}</span>
+                          {r.student_name && <span className="text-muted-foreground"> · just {r.student_name}</span>}
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {formatDate(r.current_deadline)} → <span className="font-medium text-foreground">{formatDate(r.requested_due_date)}</span>
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        &ldquo;{r.reason}&rdquo;{r.requested_by_name && <> — {r.requested_by_name}</>}
+                      </p>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          placeholder="Note (optional)"
+                          value={notes[r.id] ?? ''}
+                          onChange={e => setNotes(prev => ({ ...prev, [r.id]: e.target.value }))}
+                          className="h-8 text-sm"
+                        />
+                        <Button size="sm" className="h-8" onClick={() => handleDecide(r, 'approve')} disabled={deciding === r.id}>
+                          {deciding === r.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5 mr-1" />}
+                          Approve
+                        </Button>
+                        <Button size="sm" variant="outline" className="h-8" onClick={() => handleDecide(r, 'reject')} disabled={deciding === r.id}>
+                          <X className="w-3.5 h-3.5 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {decided.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">Decided requests</h3>
+                <div className="divide-y rounded-lg border">
+                  {decided.map(r => (
+                    <div key={r.id} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-sm">
+                      <span>
+                        {r.subgroup_name}
+                        {r.student_name && <span className="text-muted-foreground"> · {r.student_name}</span>}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        {r.decision_note && <span className="text-xs text-muted-foreground truncate max-w-[200px]">{r.decision_note}</span>}
+                        <Badge
+                          variant="outline"
+                          className={r.status === 'approved'
+                            ? 'text-emerald-600 border-emerald-300 dark:text-emerald-400 dark:border-emerald-700'
+                            : 'text-red-600 border-red-300 dark:text-red-400 dark:border-red-700'}
+                        >
+                          {r.status === 'approved' ? 'Approved' : 'Rejected'}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Extension log</h3>
+              {log.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No extensions granted yet</p>
+              ) : (
+                <div className="divide-y rounded-lg border">
+                  {log.map(entry => (
+                    <div key={entry.id} className="px-3 py-2 space-y-0.5">
+                      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <span>
+                          <span className="font-medium">{SCOPE_LABELS[entry.scope]}</span>
+                          {entry.subgroup_name && <> · {entry.subgroup_name}</>}
+                          {entry.student_name && <> · {entry.student_name}</>}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {formatDate(entry.previous_due_date)} → <span className="font-medium text-foreground">{formatDate(entry.new_due_date)}</span>
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(entry.created_at)}
+                        {entry.granted_by_name && <> · by {entry.granted_by_name}</>}
+                        {entry.request_id && <> · on request</>}
+                        {entry.reason && <> · {entry.reason}</>}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
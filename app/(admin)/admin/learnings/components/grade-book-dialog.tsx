@@ -0,0 +1,206 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from 'sonner';
+import { Download, FileSpreadsheet, Loader2, RefreshCw } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import { gradeBookToRows, type GradeBookView } from '@/lib/services/grade-book';
+import type { CohortGradeBook, GradeBookCell, GradeBookStatus } from '@/types';
+
+interface GradeBookDialogProps {
+  cohortId: string;
+  cohortName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_STYLES: Record<GradeBookStatus, { label: string; className: string }> = {
+  not_submitted: { label: 'Open', className: 'text-muted-foreground' },
+  missing: { label: 'Missing', className: 'text-red-600 dark:text-red-400' },
+  awaiting_review: { label: 'To review', className: 'text-amber-600 dark:text-amber-400' },
+  graded: { label: 'Graded', className: 'text-blue-600 dark:text-blue-400' },
+  published: { label: 'Published', className: 'text-emerald-600 dark:text-emerald-400' },
+};
+
+function GradeCell({ cell, maxScore }: { cell: GradeBookCell | undefined; maxScore: number }) {
+  if (!cell) return <span className="text-muted-foreground">—</span>;
+  const style = STATUS_STYLES[cell.status];
+
+  if (cell.final_score === null) {
+    return <span className={`text-xs ${style.className}`}>{style.label}</span>;
+  }
+
+  const title = [
+    cell.late_penalty > 0 ? `Raw ${cell.raw_score}, −${cell.late_penalty} late` : null,
+    cell.reviewer_name ? `Graded by ${cell.reviewer_name}` : null,
+    style.label,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <span title={title} className="whitespace-nowrap">
+      <span className={`font-semibold ${style.className}`}>{cell.final_score}</span>
+      <span className="text-muted-foreground text-xs">/{maxScore}</span>
+      {cell.late_penalty > 0 && <span className="text-[10px] text-amber-600 dark:text-amber-400 ml-1">−{cell.late_penalty}</span>}
+    </span>
+  );
+}
+
+export function GradeBookDialog({ cohortId, cohortName, open, onOpenChange }: GradeBookDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [gradeBook, setGradeBook] = useState<CohortGradeBook | null>(null);
+  const [view, setView] = useState<GradeBookView>('students');
+
+  const fetchGradeBook = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/grade-book?cohort_id=${cohortId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setGradeBook(data.grade_book);
+    } catch {
+      toast.error('Failed to load grade book');
+    } finally {
+      setLoading(false);
+    }
+  }, [cohortId]);
+
+  useEffect(() => {
+    if (open) fetchGradeBook();
+  }, [open, fetchGradeBook]);
+
+  const handleSyncRankings = async () => {
+    setSyncing(true);
+    try {
+      const res = await fetch('/api/admin/case-studies/grade-book', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cohort_id: cohortId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update rankings');
+      setGradeBook(data.grade_book);
+      toast.success(`Case study scores updated for ${data.rankings_updated} student${data.rankings_updated !== 1 ? 's' : ''}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update rankings');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleExport = (bookType: 'xlsx' | 'csv') => {
+    if (!gradeBook) return;
+    const wb = XLSX.utils.book_new();
+    // CSV holds a single sheet, so it gets the current view only
+    const views: GradeBookView[] = bookType === 'csv' ? [view] : ['students', 'subgroups'];
+    for (const v of views) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(gradeBookToRows(gradeBook, v)), v === 'students' ? 'Students' : 'Subgroups');
+    }
+
+    const slug = cohortName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'cohort';
+    const suffix = bookType === 'csv' ? `_${view}` : '';
+    XLSX.writeFile(wb, `${slug}_grade_book${suffix}_${format(new Date(), 'yyyy-MM-dd')}.${bookType}`, { bookType });
+  };
+
+  const rows = gradeBook ? (view === 'students' ? gradeBook.students : gradeBook.subgroups) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Grade Book — {cohortName}</DialogTitle>
+          <DialogDescription>
+            Admin grades after late penalties. The case study score is the percent of possible points over graded and missed case studies.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Tabs value={view} onValueChange={v => setView(v as GradeBookView)}>
+            <TabsList>
+              <TabsTrigger value="students">Students</TabsTrigger>
+              <TabsTrigger value="subgroups">Subgroups</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" className="h-8 text-xs" onClick={() => handleExport('xlsx')} disabled={!gradeBook}>
+              <FileSpreadsheet className="w-3.5 h-3.5 mr-1.5" />
+              Export XLSX
+            </Button>
+            <Button size="sm" variant="outline" className="h-8 text-xs" onClick={() => handleExport('csv')} disabled={!gradeBook}>
+              <Download className="w-3.5 h-3.5 mr-1.5" />
+              Export CSV
+            </Button>
+            <Button size="sm" className="h-8 text-xs" onClick={handleSyncRankings} disabled={syncing || !gradeBook}>
+              {syncing ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5 mr-1.5" />}
+              Update Rankings
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !gradeBook || gradeBook.case_studies.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No case studies in this cohort yet</p>
+        ) : (
+          <div className="overflow-auto rounded-lg border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 sticky top-0 z-10">
+                <tr>
+                  <th className="text-left font-medium px-3 py-2 sticky left-0 bg-muted">
+                    {view === 'students' ? 'Student' : 'Subgroup'}
+                  </th>
+                  {gradeBook.case_studies.map(cs => (
+                    <th key={cs.id} className="text-left font-medium px-3 py-2 min-w-[110px]">
+                      <div className="text-xs text-muted-foreground">Week {cs.week_number}</div>
+                      <div className="truncate max-w-[160px]" title={cs.title}>{cs.title}</div>
+                    </th>
+                  ))}
+                  <th className="text-right font-medium px-3 py-2">Score %</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {rows.map(row => {
+                  const key = 'user_id' in row ? row.user_id : row.subgroup_id;
+                  return (
+                    <tr key={key} className="hover:bg-muted/20">
+                      <td className="px-3 py-2 sticky left-0 bg-background">
+                        {'user_id' in row ? (
+                          <>
+                            <div className="font-medium">{row.full_name || row.email}</div>
+                            <div className="text-xs text-muted-foreground">{row.subgroup_name ?? 'No subgroup'}</div>
+                          </>
+                        ) : (
+                          <span className="font-medium">{row.subgroup_name}</span>
+                        )}
+                      </td>
+                      {gradeBook.case_studies.map(cs => (
+                        <td key={cs.id} className="px-3 py-2">
+                          <GradeCell cell={row.cells[cs.id]} maxScore={cs.max_score} />
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 text-right font-semibold">
+                        {row.case_study_score ?? <span className="text-muted-foreground font-normal">—</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { describeLatePolicy, type LatePolicy } from '@/lib/services/late-penalty';
+import type { CaseStudy, LatePolicyType } from '@/types';
+
+interface LatePolicyPanelProps {
+  caseStudy: CaseStudy;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the policy is saved and adjusted scores recomputed */
+  onChanged: () => void;
+}
+
+const POLICY_LABELS: Record<LatePolicyType, string> = {
+  flag: 'Flag only',
+  fixed: 'Fixed deduction',
+  percent: 'Percentage per hour/day',
+  zero_after: 'Zero after a number of hours',
+};
+
+function toInput(value: number | null | undefined): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+export function LatePolicyPanel({ caseStudy, open, onOpenChange, onChanged }: LatePolicyPanelProps) {
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [graceMinutes, setGraceMinutes] = useState(0);
+  const [policyType, setPolicyType] = useState<LatePolicyType>('flag');
+  const [points, setPoints] = useState('');
+  const [percent, setPercent] = useState('');
+  const [unit, setUnit] = useState<'hour' | 'day'>('hour');
+  const [cap, setCap] = useState('');
+  const [zeroAfter, setZeroAfter] = useState('');
+
+  const fetchPolicy = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/late-policy`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      const policy = data.policy;
+      setGraceMinutes(policy.grace_period_minutes ?? 0);
+      setPolicyType(policy.late_policy);
+      setPoints(toInput(policy.late_penalty_points));
+      setPercent(toInput(policy.late_penalty_percent));
+      setUnit(policy.late_penalty_unit ?? 'hour');
+      setCap(toInput(policy.late_penalty_cap_percent));
+      setZeroAfter(toInput(policy.late_zero_after_hours));
+    } catch {
+      toast.error('Failed to load late policy');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseStudy.id]);
+
+  useEffect(() => {
+    if (open) fetchPolicy();
+  }, [open, fetchPolicy]);
+
+  const draft: LatePolicy = {
+    late_policy: policyType,
+    late_penalty_points: points === '' ? null : Number(points),
+    late_penalty_percent: percent === '' ? null : Number(percent),
+    late_penalty_unit: unit,
+    late_penalty_cap_percent: cap === '' ? null : Number(cap),
+    late_zero_after_hours: zeroAfter === '' ? null : Number(zeroAfter),
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/late-policy`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save late policy');
+      toast.success(
+        data.reviews_updated > 0
+          ? `Late policy saved, ${data.reviews_updated} score${data.reviews_updated !== 1 ? 's' : ''} adjusted`
+          : 'Late policy saved'
+      );
+      onOpenChange(false);
+      onChanged();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save late policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Late Policy — {caseStudy.title}</DialogTitle>
+          <DialogDescription>
+            How late submissions are penalised. Reviews keep the raw score; the adjusted score is recalculated when you save.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Policy</Label>
+              <Select value={policyType} onValueChange={v => setPolicyType(v as LatePolicyType)}>
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(POLICY_LABELS) as LatePolicyType[]).map(type => (
+                    <SelectItem key={type} value={type}>{POLICY_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {policyType === 'fixed' && (
+              <div>
+                <Label htmlFor="late-points" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                  Points deducted
+                </Label>
+                <Input id="late-points" type="number" min={0} value={points} onChange={e => setPoints(e.target.value)} className="mt-1.5" />
+              </div>
+            )}
+
+            {policyType === 'percent' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="late-percent" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                    Percent per
+                  </Label>
+                  <div className="mt-1.5 flex gap-2">
+                    <Input id="late-percent" type="number" min={0} max={100} value={percent} onChange={e => setPercent(e.target.value)} />
+                    <Select value={unit} onValueChange={v => setUnit(v as 'hour' | 'day')}>
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="hour">hour</SelectItem>
+                        <SelectItem value="day">day</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="late-cap" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                    Cap (%)
+                  </Label>
+                  <Input id="late-cap" type="number" min={0} max={100} placeholder="No cap" value={cap} onChange={e => setCap(e.target.value)} className="mt-1.5" />
+                </div>
+              </div>
+            )}
+
+            {policyType === 'zero_after' && (
+              <div>
+                <Label htmlFor="late-zero-after" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                  Zero after (hours late)
+                </Label>
+                <Input id="late-zero-after" type="number" min={0} value={zeroAfter} onChange={e => setZeroAfter(e.target.value)} className="mt-1.5" />
+              </div>
+            )}
+
+            <div className="rounded-lg border bg-muted/30 px-3 py-2 text-sm space-y-1">
+              <p className="font-medium">{describeLatePolicy(draft)}</p>
+              <p className="text-xs text-muted-foreground">
+                Submissions are accepted up to {graceMinutes} minute{graceMinutes !== 1 ? 's' : ''} after the deadline.
+                Individual penalties can be overridden from the review form.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            Save Policy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
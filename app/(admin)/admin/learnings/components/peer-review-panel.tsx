@@ -0,0 +1,175 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { Loader2, Shuffle } from 'lucide-react';
+import type { PeerReviewSummary } from '@/lib/services/peer-review';
+import type { CaseStudy } from '@/types';
+
+interface PeerReviewPanelProps {
+  caseStudy: CaseStudy;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after settings change or reviews are assigned */
+  onChanged: () => void;
+}
+
+export function PeerReviewPanel({ caseStudy, open, onOpenChange, onChanged }: PeerReviewPanelProps) {
+  const [loading, setLoading] = useState(false);
+  const [enabled, setEnabled] = useState(caseStudy.peer_review_enabled);
+  const [perSubgroup, setPerSubgroup] = useState(String(caseStudy.peer_reviews_per_subgroup ?? 2));
+  const [closed, setClosed] = useState(caseStudy.submissions_closed);
+  const [summary, setSummary] = useState<PeerReviewSummary | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [assigning, setAssigning] = useState(false);
+
+  const fetchPeerReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/peer-reviews`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setEnabled(data.settings.peer_review_enabled);
+      setPerSubgroup(String(data.settings.peer_reviews_per_subgroup));
+      setClosed(data.settings.submissions_closed);
+      setSummary(data.summary);
+    } catch {
+      toast.error('Failed to load peer reviews');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseStudy.id]);
+
+  useEffect(() => {
+    if (open) fetchPeerReviews();
+  }, [open, fetchPeerReviews]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/peer-reviews`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ peer_review_enabled: enabled, peer_reviews_per_subgroup: Number(perSubgroup) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save settings');
+      toast.success('Peer review settings saved');
+      fetchPeerReviews();
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAssign = async () => {
+    setAssigning(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/peer-reviews`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to assign peer reviews');
+      toast.success(`${data.created} peer reviews assigned`);
+      fetchPeerReviews();
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign peer reviews');
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const assigned = (summary?.assigned ?? 0) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Peer Review — {caseStudy.title}</DialogTitle>
+          <DialogDescription>
+            When submissions close, each subgroup anonymously reviews other subgroups&apos; work against the rubric.
+            Peer scores are shown to reviewers as a signal and never count towards the final score.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4 rounded-lg border bg-muted/30 p-3">
+              <div className="flex items-center gap-2">
+                <Switch id="peer-review-enabled" checked={enabled} onCheckedChange={setEnabled} />
+                <Label htmlFor="peer-review-enabled">Peer review</Label>
+              </div>
+              <div>
+                <Label className="text-xs text-muted-foreground">Reviews per subgroup</Label>
+                <Select value={perSubgroup} onValueChange={setPerSubgroup} disabled={assigned}>
+                  <SelectTrigger className="h-8 w-24 mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {['1', '2', '3', '4', '5'].map(n => (
+                      <SelectItem key={n} value={n}>{n}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+                Save
+              </Button>
+            </div>
+
+            {assigned ? (
+              <div className="rounded-lg border p-3 text-sm space-y-1">
+                <p>
+                  <span className="font-semibold">{summary!.submitted}</span>
+                  <span className="text-muted-foreground">/{summary!.assigned} peer reviews submitted</span>
+                </p>
+                {summary!.meanScore !== null && (
+                  <p className="text-muted-foreground">
+                    Mean peer score {summary!.meanScore}/{caseStudy.max_score}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-3 rounded-lg border border-dashed p-3">
+                <p className="text-sm text-muted-foreground">
+                  {closed
+                    ? 'Submissions are closed but no peer reviews have been assigned.'
+                    : 'Peer reviews are assigned automatically when submissions close.'}
+                </p>
+                {closed && (
+                  <Button size="sm" variant="outline" onClick={handleAssign} disabled={assigning || !enabled}>
+                    {assigning ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <Shuffle className="w-4 h-4 mr-1.5" />}
+                    Assign now
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from 'sonner';
+import { BarChart3, Check } from 'lucide-react';
+import type { ModuleResource, QuizItemAnalysis, QuizItemStat } from '@/types';
+
+interface QuizAnalysisDialogProps {
+  quiz: ModuleResource | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+/** Rules of thumb from classical test theory; flags are prompts to look, not verdicts */
+function difficultyLabel(p: number | null): { label: string; className: string } | null {
+  if (p === null) return null;
+  if (p >= 0.9) return { label: 'Very easy', className: 'text-sky-600 dark:text-sky-400' };
+  if (p < 0.3) return { label: 'Hard', className: 'text-amber-600 dark:text-amber-400' };
+  return null;
+}
+
+function discriminationLabel(d: number | null): { label: string; className: string } | null {
+  if (d === null) return null;
+  if (d < 0) return { label: 'Check answer key', className: 'text-red-600 dark:text-red-400' };
+  if (d < 0.2) return { label: 'Weak', className: 'text-amber-600 dark:text-amber-400' };
+  return null;
+}
+
+function ItemCard({ item, index }: { item: QuizItemStat; index: number }) {
+  const diffFlag = difficultyLabel(item.difficulty);
+  const discFlag = discriminationLabel(item.discrimination);
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <span className="text-sm font-semibold text-muted-foreground">Q{index + 1}</span>
+        <p className="flex-1 text-sm font-medium whitespace-pre-line">{item.prompt}</p>
+        <span className="text-xs text-muted-foreground whitespace-nowrap">{item.responses} responses</span>
+      </div>
+      <div className="flex flex-wrap gap-6 text-sm">
+        <div>
+          <span className="text-muted-foreground">Difficulty </span>
+          <span className="font-semibold">{percent(item.difficulty)}</span>
+          <span className="text-muted-foreground"> correct</span>
+          {diffFlag && <span className={`ml-2 text-xs ${diffFlag.className}`}>{diffFlag.label}</span>}
+        </div>
+        <div>
+          <span className="text-muted-foreground">Discrimination </span>
+          <span className="font-semibold">{item.discrimination?.toFixed(2) ?? '—'}</span>
+          {discFlag && <span className={`ml-2 text-xs ${discFlag.className}`}>{discFlag.label}</span>}
+        </div>
+      </div>
+      {item.option_counts.length > 0 && (
+        <div className="space-y-1.5">
+          {item.option_counts.map(option => {
+            const share = item.responses ? option.count / item.responses : 0;
+            return (
+              <div key={option.option_id} className="flex items-center gap-2 text-xs">
+                <span className="w-4 shrink-0">
+                  {option.is_correct && <Check className="w-3.5 h-3.5 text-emerald-600 dark:text-emerald-400" />}
+                </span>
+                <span className="w-48 truncate" title={option.text}>{option.text}</span>
+                <div className="flex-1 h-2 rounded bg-muted overflow-hidden">
+                  <div
+                    className={option.is_correct ? 'h-full bg-emerald-500' : 'h-full bg-muted-foreground/40'}
+                    style={{ width: `${Math.round(share * 100)}%` }}
+                  />
+                </div>
+                <span className="w-10 text-right tabular-nums text-muted-foreground">{option.count}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function QuizAnalysisDialog({ quiz, onOpenChange }: QuizAnalysisDialogProps) {
+  const [analysis, setAnalysis] = useState<QuizItemAnalysis | null>(null);
+
+  const fetchAnalysis = useCallback(async () => {
+    if (!quiz) return;
+    try {
+      const res = await fetch(`/api/admin/quizzes/${quiz.id}/analysis`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setAnalysis(data.analysis);
+    } catch {
+      toast.error('Failed to load item analysis');
+    }
+  }, [quiz]);
+
+  useEffect(() => {
+    fetchAnalysis();
+  }, [fetchAnalysis]);
+
+  const current = analysis?.resource_id === quiz?.id ? analysis : null;
+
+  return (
+    <Dialog open={!!quiz} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-violet-600 dark:text-violet-400" />
+            Item Analysis: {quiz?.title}
+          </DialogTitle>
+          <DialogDescription>
+            From each student&apos;s first attempt. Discrimination compares the top and bottom 27% of scorers.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!current ? (
+          <div className="space-y-3">
+            <Skeleton className="h-8 w-1/2" />
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : current.students === 0 ? (
+          <p className="text-sm text-muted-foreground py-10 text-center">No submitted attempts yet</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{current.students} student{current.students !== 1 ? 's' : ''}</Badge>
+              <Badge variant="secondary">Mean {current.mean_percent ?? '—'}%</Badge>
+              <Badge variant="secondary">Pass rate {percent(current.pass_rate)}</Badge>
+            </div>
+            {current.items.map((item, i) => (
+              <ItemCard key={item.question_id} item={item} index={i} />
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
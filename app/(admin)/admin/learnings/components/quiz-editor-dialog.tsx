@@ -0,0 +1,542 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { ArrowDown, ArrowUp, ListChecks, Loader2, Plus, Trash2, X } from 'lucide-react';
+import {
+  DEFAULT_QUIZ_SETTINGS,
+  validateQuizInput,
+  type QuizInput,
+} from '@/lib/services/quizzes';
+import type { ModuleResource, QuizOption, QuizQuestion, QuizQuestionType, QuizSettings } from '@/types';
+
+interface QuizEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Module a new quiz is added to */
+  moduleId: string;
+  /** Quiz being edited, or null to create one */
+  resourceId: string | null;
+  onSaved: () => void;
+}
+
+interface LoadedQuiz {
+  resource: ModuleResource;
+  settings: QuizSettings;
+  questions: QuizQuestion[];
+}
+
+/** Editable question; numbers stay strings until save so fields can be cleared */
+interface QuestionDraft {
+  key: string;
+  id?: string;
+  type: QuizQuestionType;
+  prompt: string;
+  options: QuizOption[];
+  correct_option_ids: string[];
+  numeric_answer: string;
+  numeric_tolerance: string;
+  accepted_answers: string;
+  case_sensitive: boolean;
+  points: string;
+  explanation: string;
+}
+
+const TYPE_LABELS: Record<QuizQuestionType, string> = {
+  single_choice: 'Multiple choice',
+  multi_select: 'Multi-select',
+  numeric: 'Numeric',
+  short_text: 'Short text',
+};
+
+const newOption = (): QuizOption => ({ id: crypto.randomUUID(), text: '' });
+
+const newQuestion = (): QuestionDraft => ({
+  key: crypto.randomUUID(),
+  type: 'single_choice',
+  prompt: '',
+  options: [newOption(), newOption()],
+  correct_option_ids: [],
+  numeric_answer: '',
+  numeric_tolerance: '0',
+  accepted_answers: '',
+  case_sensitive: false,
+  points: '1',
+  explanation: '',
+});
+
+const toDraft = (q: QuizQuestion): QuestionDraft => ({
+  key: q.id,
+  id: q.id,
+  type: q.type,
+  prompt: q.prompt,
+  options: q.options.length ? q.options : [newOption(), newOption()],
+  correct_option_ids: q.correct_option_ids,
+  numeric_answer: q.numeric_answer?.toString() ?? '',
+  numeric_tolerance: q.numeric_tolerance.toString(),
+  accepted_answers: q.accepted_answers.join('\n'),
+  case_sensitive: q.case_sensitive,
+  points: q.points.toString(),
+  explanation: q.explanation ?? '',
+});
+
+const optionalInt = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export function QuizEditorDialog({ open, onOpenChange, moduleId, resourceId, onSaved }: QuizEditorDialogProps) {
+  const [loaded, setLoaded] = useState<LoadedQuiz | null>(null);
+
+  const fetchQuiz = useCallback(async () => {
+    if (!resourceId) return;
+    try {
+      const res = await fetch(`/api/admin/quizzes/${resourceId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setLoaded(data);
+    } catch {
+      toast.error('Failed to load quiz');
+    }
+  }, [resourceId]);
+
+  useEffect(() => {
+    if (open) fetchQuiz();
+  }, [open, fetchQuiz]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setLoaded(null);
+    onOpenChange(next);
+  };
+
+  const ready = !resourceId || loaded?.resource.id === resourceId;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="dark:bg-gray-900 dark:border-gray-700 sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        {ready ? (
+          // Mounted once the quiz is loaded, so the fields start from it
+          <QuizEditorForm
+            key={resourceId ?? 'new'}
+            moduleId={moduleId}
+            loaded={resourceId ? loaded : null}
+            onCancel={() => handleOpenChange(false)}
+            onSaved={() => { onSaved(); handleOpenChange(false); }}
+          />
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="dark:text-white">Edit Quiz</DialogTitle>
+            </DialogHeader>
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function QuizEditorForm({
+  moduleId,
+  loaded,
+  onCancel,
+  onSaved,
+}: {
+  moduleId: string;
+  loaded: LoadedQuiz | null;
+  onCancel: () => void;
+  onSaved: () => void;
+}) {
+  const settings = loaded?.settings ?? DEFAULT_QUIZ_SETTINGS;
+  const [title, setTitle] = useState(loaded?.resource.title ?? '');
+  const [instructions, setInstructions] = useState(settings.instructions ?? '');
+  const [maxAttempts, setMaxAttempts] = useState(settings.max_attempts?.toString() ?? '');
+  const [timeLimit, setTimeLimit] = useState(settings.time_limit_minutes?.toString() ?? '');
+  const [passPercent, setPassPercent] = useState(settings.pass_percent.toString());
+  const [shuffleQuestions, setShuffleQuestions] = useState(settings.shuffle_questions);
+  const [shuffleOptions, setShuffleOptions] = useState(settings.shuffle_options);
+  const [showAnswers, setShowAnswers] = useState(settings.show_answers);
+  const [questions, setQuestions] = useState<QuestionDraft[]>(
+    loaded?.questions.length ? loaded.questions.map(toDraft) : [newQuestion()]
+  );
+  const [saving, setSaving] = useState(false);
+
+  const updateQuestion = (key: string, patch: Partial<QuestionDraft>) => {
+    setQuestions(prev => prev.map(q => (q.key === key ? { ...q, ...patch } : q)));
+  };
+
+  const moveQuestion = (index: number, delta: number) => {
+    setQuestions(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + delta, 0, moved);
+      return next;
+    });
+  };
+
+  const toggleCorrect = (q: QuestionDraft, optionId: string) => {
+    if (q.type === 'single_choice') {
+      updateQuestion(q.key, { correct_option_ids: [optionId] });
+    } else {
+      updateQuestion(q.key, {
+        correct_option_ids: q.correct_option_ids.includes(optionId)
+          ? q.correct_option_ids.filter(id => id !== optionId)
+          : [...q.correct_option_ids, optionId],
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    const input: QuizInput = {
+      title: title.trim(),
+      settings: {
+        instructions: instructions.trim() || null,
+        max_attempts: optionalInt(maxAttempts),
+        time_limit_minutes: optionalInt(timeLimit),
+        pass_percent: Number(passPercent),
+        shuffle_questions: shuffleQuestions,
+        shuffle_options: shuffleOptions,
+        show_answers: showAnswers,
+      },
+      questions: questions.map(q => ({
+        id: q.id,
+        type: q.type,
+        prompt: q.prompt,
+        options: q.options,
+        // Switching from multi-select to multiple choice can leave extra marks behind
+        correct_option_ids: q.correct_option_ids.filter(id => q.options.some(o => o.id === id)),
+        numeric_answer: q.numeric_answer.trim() === '' ? null : Number(q.numeric_answer),
+        numeric_tolerance: Number(q.numeric_tolerance) || 0,
+        accepted_answers: q.accepted_answers.split('\n').map(a => a.trim()).filter(Boolean),
+        case_sensitive: q.case_sensitive,
+        points: Number(q.points),
+        explanation: q.explanation.trim() || null,
+      })),
+    };
+
+    const invalid = validateQuizInput(input);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(loaded ? `/api/admin/quizzes/${loaded.resource.id}` : '/api/admin/quizzes', {
+        method: loaded ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(loaded ? input : { ...input, module_id: moduleId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save quiz');
+      toast.success(loaded ? 'Quiz updated' : 'Quiz created');
+      onSaved();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save quiz');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldClass = 'dark:bg-gray-950 dark:border-gray-700 dark:text-white';
+
+  return (
+    <>
+      <DialogHeader className="pb-2">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center">
+            <ListChecks className="w-5 h-5 text-white" />
+          </div>
+          <DialogTitle className="dark:text-white text-2xl">
+            {loaded ? 'Edit Quiz' : 'Create Quiz'}
+          </DialogTitle>
+        </div>
+        <DialogDescription className="dark:text-gray-400 text-base">
+          Auto-graded questions — passing marks the quiz complete for the student
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-6 py-4">
+        <div className="space-y-2">
+          <Label htmlFor="quiz-title" className="dark:text-gray-300 font-medium flex items-center gap-1">
+            Title <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="quiz-title"
+            placeholder="e.g., Week 2 check: prioritization frameworks"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className={`${fieldClass} h-11 text-base`}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="quiz-instructions" className="dark:text-gray-300 font-medium">Instructions</Label>
+          <Textarea
+            id="quiz-instructions"
+            placeholder="Shown to students before they start..."
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            className={`${fieldClass} min-h-[70px] resize-none`}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="quiz-attempts" className="dark:text-gray-300 font-medium">Attempts</Label>
+            <Input
+              id="quiz-attempts"
+              type="number"
+              min={1}
+              placeholder="Unlimited"
+              value={maxAttempts}
+              onChange={(e) => setMaxAttempts(e.target.value)}
+              className={`${fieldClass} h-11`}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quiz-time" className="dark:text-gray-300 font-medium">Time Limit (min)</Label>
+            <Input
+              id="quiz-time"
+              type="number"
+              min={1}
+              placeholder="None"
+              value={timeLimit}
+              onChange={(e) => setTimeLimit(e.target.value)}
+              className={`${fieldClass} h-11`}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quiz-pass" className="dark:text-gray-300 font-medium">Pass Mark (%)</Label>
+            <Input
+              id="quiz-pass"
+              type="number"
+              min={0}
+              max={100}
+              value={passPercent}
+              onChange={(e) => setPassPercent(e.target.value)}
+              className={`${fieldClass} h-11`}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-x-6 gap-y-3">
+          <label className="flex items-center gap-2 text-sm dark:text-gray-300">
+            <Switch checked={shuffleQuestions} onCheckedChange={setShuffleQuestions} />
+            Shuffle questions
+          </label>
+          <label className="flex items-center gap-2 text-sm dark:text-gray-300">
+            <Switch checked={shuffleOptions} onCheckedChange={setShuffleOptions} />
+            Shuffle options
+          </label>
+          <label className="flex items-center gap-2 text-sm dark:text-gray-300">
+            <Switch checked={showAnswers} onCheckedChange={setShowAnswers} />
+            Show answers after passing or the last attempt
+          </label>
+        </div>
+
+        <div className="space-y-4">
+          {questions.map((q, index) => (
+            <div key={q.key} className="rounded-lg border-2 dark:border-gray-700 p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold dark:text-white">Q{index + 1}</span>
+                <Select
+                  value={q.type}
+                  onValueChange={(type: QuizQuestionType) => updateQuestion(q.key, {
+                    type,
+                    correct_option_ids: type === 'single_choice' ? q.correct_option_ids.slice(0, 1) : q.correct_option_ids,
+                  })}
+                >
+                  <SelectTrigger className={`${fieldClass} w-[160px] h-9`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TYPE_LABELS) as QuizQuestionType[]).map(type => (
+                      <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-1 ml-2">
+                  <Input
+                    type="number"
+                    min={0.5}
+                    step={0.5}
+                    value={q.points}
+                    onChange={(e) => updateQuestion(q.key, { points: e.target.value })}
+                    className={`${fieldClass} h-9 w-20`}
+                    aria-label="Points"
+                  />
+                  <span className="text-xs text-muted-foreground">pts</span>
+                </div>
+                <div className="ml-auto flex items-center gap-1">
+                  <Button size="icon" variant="ghost" className="h-8 w-8" disabled={index === 0} onClick={() => moveQuestion(index, -1)}>
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-8 w-8" disabled={index === questions.length - 1} onClick={() => moveQuestion(index, 1)}>
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-red-600 dark:text-red-400"
+                    disabled={questions.length === 1}
+                    onClick={() => setQuestions(prev => prev.filter(p => p.key !== q.key))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <Textarea
+                placeholder="Question"
+                value={q.prompt}
+                onChange={(e) => updateQuestion(q.key, { prompt: e.target.value })}
+                className={`${fieldClass} min-h-[60px] resize-none`}
+              />
+
+              {(q.type === 'single_choice' || q.type === 'multi_select') && (
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    {q.type === 'single_choice' ? 'Tick the one correct option' : 'Tick every correct option — all must be chosen to score'}
+                  </p>
+                  {q.options.map(option => (
+                    <div key={option.id} className="flex items-center gap-2">
+                      <Checkbox
+                        checked={q.correct_option_ids.includes(option.id)}
+                        onCheckedChange={() => toggleCorrect(q, option.id)}
+                        aria-label="Correct option"
+                      />
+                      <Input
+                        placeholder="Option"
+                        value={option.text}
+                        onChange={(e) => updateQuestion(q.key, {
+                          options: q.options.map(o => (o.id === option.id ? { ...o, text: e.target.value } : o)),
+                        })}
+                        className={`${fieldClass} h-9`}
+                      />
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 shrink-0"
+                        disabled={q.options.length <= 2}
+                        onClick={() => updateQuestion(q.key, {
+                          options: q.options.filter(o => o.id !== option.id),
+                          correct_option_ids: q.correct_option_ids.filter(id => id !== option.id),
+                        })}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => updateQuestion(q.key, { options: [...q.options, newOption()] })}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Option
+                  </Button>
+                </div>
+              )}
+
+              {q.type === 'numeric' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs dark:text-gray-400">Answer</Label>
+                    <Input
+                      type="number"
+                      value={q.numeric_answer}
+                      onChange={(e) => updateQuestion(q.key, { numeric_answer: e.target.value })}
+                      className={`${fieldClass} h-9`}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs dark:text-gray-400">Accept within ±</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={q.numeric_tolerance}
+                      onChange={(e) => updateQuestion(q.key, { numeric_tolerance: e.target.value })}
+                      className={`${fieldClass} h-9`}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {q.type === 'short_text' && (
+                <div className="space-y-2">
+                  <Label className="text-xs dark:text-gray-400">Accepted answers, one per line</Label>
+                  <Textarea
+                    value={q.accepted_answers}
+                    onChange={(e) => updateQuestion(q.key, { accepted_answers: e.target.value })}
+                    className={`${fieldClass} min-h-[60px] resize-none`}
+                  />
+                  <label className="flex items-center gap-2 text-xs dark:text-gray-400">
+                    <Switch
+                      checked={q.case_sensitive}
+                      onCheckedChange={(checked) => updateQuestion(q.key, { case_sensitive: checked })}
+                    />
+                    Case-sensitive
+                  </label>
+                </div>
+              )}
+
+              <Input
+                placeholder="Explanation shown with the answer (optional)"
+                value={q.explanation}
+                onChange={(e) => updateQuestion(q.key, { explanation: e.target.value })}
+                className={`${fieldClass} h-9`}
+              />
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            onClick={() => setQuestions(prev => [...prev, newQuestion()])}
+            className="w-full border-2 border-dashed dark:border-gray-700 dark:text-white"
+          >
+            <Plus className="w-4 h-4 mr-1.5" />
+            Add Question
+          </Button>
+        </div>
+      </div>
+
+      <DialogFooter className="gap-2">
+        <Button
+          variant="outline"
+          onClick={onCancel}
+          className="dark:border-gray-700 dark:text-white dark:hover:bg-gray-800 h-11"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={saving || !title.trim()}
+          className="bg-gradient-to-r from-violet-500 to-purple-600 hover:from-violet-600 hover:to-purple-700 text-white h-11 px-6 shadow-md"
+        >
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {loaded ? 'Update Quiz' : 'Create Quiz'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
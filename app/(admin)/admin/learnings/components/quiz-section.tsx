@@ -0,0 +1,145 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Plus,
+  MoreVertical,
+  Pencil,
+  Trash2,
+  ChevronDown,
+  ChevronRight,
+  ListChecks,
+  BarChart3,
+} from 'lucide-react';
+import type { ModuleResource } from '@/types';
+
+interface QuizSectionProps {
+  expanded: boolean;
+  onToggle: () => void;
+  quizzes: ModuleResource[];
+  onAdd: () => void;
+  onEdit: (quiz: ModuleResource) => void;
+  onDelete: (resourceId: string) => void;
+  onViewAnalysis: (quiz: ModuleResource) => void;
+}
+
+export function QuizSection({
+  expanded,
+  onToggle,
+  quizzes,
+  onAdd,
+  onEdit,
+  onDelete,
+  onViewAnalysis,
+}: QuizSectionProps) {
+  return (
+    <Card className="border-2 dark:border-gray-800 dark:bg-gray-950/50 shadow-sm overflow-hidden">
+      <Collapsible open={expanded} onOpenChange={onToggle}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-violet-50/50 dark:hover:bg-violet-950/10 transition-all border-b dark:border-gray-800 group">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="transition-transform group-hover:scale-110">
+                  {expanded ? (
+                    <ChevronDown className="w-5 h-5 text-gray-700 dark:text-gray-300" />
+                  ) : (
+                    <ChevronRight className="w-5 h-5 text-gray-700 dark:text-gray-300" />
+                  )}
+                </div>
+                <div className="w-9 h-9 rounded-lg bg-violet-500/10 dark:bg-violet-500/20 flex items-center justify-center">
+                  <ListChecks className="w-5 h-5 text-violet-600 dark:text-violet-400" />
+                </div>
+                <CardTitle className="text-lg font-semibold dark:text-white">Quizzes</CardTitle>
+                <Badge variant="secondary" className="bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-300 border-0 font-semibold">
+                  {quizzes.length}
+                </Badge>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={(e) => { e.stopPropagation(); onAdd(); }}
+                className="border-2 dark:border-gray-700 dark:bg-gray-900 dark:text-white dark:hover:bg-gray-800 transition-all hover:shadow-sm"
+              >
+                <Plus className="w-4 h-4 mr-1.5" />
+                Add
+              </Button>
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="pt-5 pb-5">
+            {quizzes.length === 0 ? (
+              <div className="text-center py-8 px-4 rounded-lg border-2 border-dashed dark:border-gray-700 bg-gray-50/50 dark:bg-gray-900/50">
+                <div className="w-12 h-12 rounded-full bg-violet-500/10 dark:bg-violet-500/20 flex items-center justify-center mx-auto mb-3">
+                  <ListChecks className="w-6 h-6 text-violet-600 dark:text-violet-400" />
+                </div>
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-300">No quizzes added yet</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Click &quot;Add&quot; to create an auto-graded knowledge check</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {quizzes.map((quiz) => (
+                  <div
+                    key={quiz.id}
+                    className="flex items-center gap-4 p-5 rounded-lg border-2 dark:border-gray-700 bg-white dark:bg-gray-900 hover:border-violet-500/50 dark:hover:border-violet-500/50 transition-all shadow-sm hover:shadow-md"
+                  >
+                    <div className="w-12 h-12 rounded-lg bg-violet-500/10 dark:bg-violet-500/20 flex items-center justify-center flex-shrink-0">
+                      <ListChecks className="w-6 h-6 text-violet-600 dark:text-violet-400" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-base dark:text-white truncate">{quiz.title}</p>
+                      <button
+                        onClick={() => onViewAnalysis(quiz)}
+                        className="mt-1 text-sm text-violet-600 dark:text-violet-400 hover:text-violet-700 dark:hover:text-violet-300 font-medium flex items-center gap-1.5 transition-colors"
+                      >
+                        <BarChart3 className="w-4 h-4" />
+                        Item analysis
+                      </button>
+                    </div>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm" variant="ghost">
+                          <MoreVertical className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => onViewAnalysis(quiz)}>
+                          <BarChart3 className="w-4 h-4 mr-2" />
+                          Item analysis
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onEdit(quiz)}>
+                          <Pencil className="w-4 h-4 mr-2" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          className="text-destructive"
+                          onClick={() => onDelete(quiz.id)}
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
@@ -24,15 +24,34 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { toast } from 'sonner';
-import { Loader2, AlertTriangle, EyeOff, FileText, ExternalLink, Eye } from 'lucide-react';
+import { Loader2, AlertTriangle, EyeOff, FileText, ExternalLink, Eye, History, TimerOff, Users, Highlighter, ScanSearch } from 'lucide-react';
+import {
+  RubricGrader,
+  isRubricComplete,
+  picksFromScores,
+  picksToPayload,
+  type RubricPicks,
+} from '@/components/case-studies/rubric-grader';
+import { SubmissionVersionHistory } from '@/components/case-studies/submission-version-history';
+import { SubmissionContributions } from '@/components/case-studies/submission-contributions';
+import { AnnotatedPdfViewer } from '@/components/case-studies/annotated-pdf-viewer';
+import { SimilarityMatches } from './similarity-matches';
+import { isPdfAttachment } from '@/lib/services/annotations';
+import { summarizePeerReviews } from '@/lib/services/peer-review';
+import type { SubmissionVersionWithChanges } from '@/lib/services/submission-versions';
+import type { CaseStudyPeerReview, RubricCriteria, SimilarityMatch } from '@/types';
 
 interface ReviewData {
   id: string;
   reviewer_role: string;
   score: number | null;
+  late_penalty?: number;
+  adjusted_score?: number | null;
   reviewer_name: string | null;
   overridden: boolean;
   comment?: string;
+  submission_version_id?: string | null;
+  rubric_scores?: Array<{ criteria_id: string; score: number; level_label: string | null; comment: string | null }>;
 }
 
 interface AttachmentData {
@@ -41,10 +60,18 @@ interface AttachmentData {
   file_name: string | null;
   file_path: string | null;
   file_size: number | null;
+  file_type: string | null;
   link_url: string | null;
   link_label: string | null;
 }
 
+interface LatenessData {
+  lateMinutes: number;
+  /** Admin-set penalty replacing the policy's deduction */
+  override: number | null;
+  overrideReason: string | null;
+}
+
 interface ReviewFormProps {
   open: boolean;
   onClose: () => void;
@@ -52,11 +79,26 @@ interface ReviewFormProps {
   submissionId: string;
   subgroupName: string;
   maxScore: number;
+  rubricCriteria: RubricCriteria[];
   existingReview: ReviewData | null;
   mentorReview: ReviewData | null;
+  /** Calibration mode: hide the mentor's review until this admin has scored */
+  blind?: boolean;
+  /** Anonymous subgroup peer reviews — shown as a signal, never the score */
+  peerReviews?: CaseStudyPeerReview[];
+  /** Flagged pairs from the latest similarity check */
+  similarityMatches?: SimilarityMatch[];
+  /** Set when the submission was late; enables the penalty override */
+  lateness?: LatenessData | null;
   onSaved: () => void;
 }
 
+function formatLateness(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 6) / 10} h`;
+  return `${Math.round(minutes / 144) / 10} days`;
+}
+
 export function ReviewForm({
   open,
   onClose,
@@ -64,16 +106,34 @@ export function ReviewForm({
   submissionId,
   subgroupName,
   maxScore,
+  rubricCriteria,
   existingReview,
   mentorReview,
+  blind = false,
+  peerReviews = [],
+  similarityMatches = [],
+  lateness = null,
   onSaved,
 }: ReviewFormProps) {
   const [score, setScore] = useState<string>('');
   const [comment, setComment] = useState('');
+  const [picks, setPicks] = useState<RubricPicks>({});
+  const hasRubric = rubricCriteria.length > 0;
   const [saving, setSaving] = useState(false);
   const [overrideConfirmOpen, setOverrideConfirmOpen] = useState(false);
   const [overriding, setOverriding] = useState(false);
 
+  // Late penalty override
+  const [penaltyPoints, setPenaltyPoints] = useState('');
+  const [penaltyReason, setPenaltyReason] = useState('');
+  const [savingPenalty, setSavingPenalty] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPenaltyPoints(lateness?.override?.toString() ?? '');
+    setPenaltyReason(lateness?.overrideReason ?? '');
+  }, [open, lateness?.override, lateness?.overrideReason]);
+
   // Submission attachments
   const [attachments, setAttachments] = useState<AttachmentData[]>([]);
   const [loadingAttachments, setLoadingAttachments] = useState(false);
@@ -82,16 +142,23 @@ export function ReviewForm({
     if (open && existingReview) {
       setScore(existingReview.score?.toString() ?? '');
       setComment(existingReview.comment ?? '');
+      setPicks(picksFromScores(existingReview.rubric_scores));
     } else if (open) {
       setScore('');
       setComment('');
+      setPicks({});
     }
   }, [open, existingReview]);
 
-  // Fetch submission attachments when opened
+  // Submission versions
+  const [versions, setVersions] = useState<SubmissionVersionWithChanges[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  // Fetch submission attachments and versions when opened
   useEffect(() => {
     if (!open || !submissionId) {
       setAttachments([]);
+      setVersions([]);
       return;
     }
     setLoadingAttachments(true);
@@ -100,36 +167,58 @@ export function ReviewForm({
       .then(data => setAttachments(data.attachments || []))
       .catch(() => setAttachments([]))
       .finally(() => setLoadingAttachments(false));
+    fetch(`/api/admin/case-studies/${caseStudyId}/submissions/${submissionId}/versions`)
+      .then(res => res.json())
+      .then(data => setVersions(data.versions || []))
+      .catch(() => setVersions([]));
   }, [open, submissionId, caseStudyId]);
 
   const handleSave = async () => {
+    if (hasRubric && Object.keys(picks).length > 0 && !isRubricComplete(rubricCriteria, picks)) {
+      toast.error('Pick a level for every rubric criterion');
+      return;
+    }
+
     setSaving(true);
     try {
-      const scoreNum = score ? parseInt(score) : null;
-      if (scoreNum !== null && (isNaN(scoreNum) || scoreNum < 0 || scoreNum > maxScore)) {
-        toast.error(`Score must be between 0 and ${maxScore}`);
-        setSaving(false);
-        return;
+      // With a rubric the server computes the score from the picked levels
+      const grading: Record<string, unknown> = {};
+      if (hasRubric) {
+        if (Object.keys(picks).length > 0) grading.rubric_scores = picksToPayload(picks);
+      } else {
+        const scoreNum = score ? parseInt(score) : null;
+        if (scoreNum !== null && (isNaN(scoreNum) || scoreNum < 0 || scoreNum > maxScore)) {
+          toast.error(`Score must be between 0 and ${maxScore}`);
+          setSaving(false);
+          return;
+        }
+        grading.score = scoreNum;
       }
 
       if (existingReview) {
         const res = await fetch(`/api/admin/case-studies/reviews/${existingReview.id}`, {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ score: scoreNum, comment: comment || null }),
+          body: JSON.stringify({ ...grading, comment: comment || null }),
         });
-        if (!res.ok) throw new Error('Failed to update review');
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to update review');
+        }
       } else {
         const res = await fetch('/api/admin/case-studies/reviews', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             submission_id: submissionId,
-            score: scoreNum,
+            ...grading,
             comment: comment || null,
           }),
         });
-        if (!res.ok) throw new Error('Failed to save review');
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to save review');
+        }
       }
 
       toast.success('Review saved');
@@ -161,8 +250,40 @@ export function ReviewForm({
     }
   };
 
+  const handlePenaltyOverride = async (clear: boolean) => {
+    const points = clear ? null : Number(penaltyPoints);
+    if (points !== null && (penaltyPoints === '' || isNaN(points) || points < 0)) {
+      toast.error('Penalty must be 0 or more');
+      return;
+    }
+    if (points !== null && !penaltyReason.trim()) {
+      toast.error('A reason is required to override the penalty');
+      return;
+    }
+
+    setSavingPenalty(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudyId}/submissions/${submissionId}/late-penalty`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ points, reason: points === null ? null : penaltyReason.trim() }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to override penalty');
+      toast.success(clear ? 'Penalty override removed' : 'Penalty overridden');
+      onSaved();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to override penalty');
+    } finally {
+      setSavingPenalty(false);
+    }
+  };
+
   // Open file via signed URL
   const [openingFileId, setOpeningFileId] = useState<string | null>(null);
+  // Inline PDF annotation
+  const [annotatingAttachment, setAnnotatingAttachment] = useState<AttachmentData | null>(null);
+
   const handleOpenFile = async (att: AttachmentData) => {
     if (!att.file_path) return;
     setOpeningFileId(att.id);
@@ -178,6 +299,13 @@ export function ReviewForm({
     }
   };
 
+  const latestVersion = versions[0] ?? null;
+  const gradedVersion = versions.find(v => v.id === existingReview?.submission_version_id) ?? null;
+  const gradedOutdated = !!existingReview && !!latestVersion && gradedVersion?.id !== latestVersion.id;
+
+  const submittedPeerReviews = peerReviews.filter(p => p.status === 'submitted');
+  const peerSummary = summarizePeerReviews(peerReviews);
+
   const fileAttachments = attachments.filter(a => a.type === 'file');
   const linkAttachments = attachments.filter(a => a.type === 'link');
 
@@ -192,7 +320,38 @@ export function ReviewForm({
           <div className="px-4 pb-6 space-y-5">
             {/* ── Section 1: Submission Content ──────────────────── */}
             <div className="rounded-lg border bg-card p-4 space-y-3">
-              <Label className="text-sm font-semibold">Submission</Label>
+              <div className="flex items-center justify-between gap-2">
+                <Label className="text-sm font-semibold">
+                  Submission
+                  {latestVersion && (
+                    <span className="ml-1.5 font-normal text-muted-foreground">v{latestVersion.version_number}</span>
+                  )}
+                </Label>
+                {versions.length > 0 && (
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setHistoryOpen(v => !v)}>
+                    <History className="w-3.5 h-3.5 mr-1" />
+                    {historyOpen ? 'Hide history' : `History (${versions.length})`}
+                  </Button>
+                )}
+              </div>
+
+              {gradedOutdated && (
+                <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-2.5 dark:border-amber-800 dark:bg-amber-950/20">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />
+                  <p className="text-xs text-amber-700 dark:text-amber-400">
+                    {gradedVersion
+                      ? `Your review graded version ${gradedVersion.version_number}; version ${latestVersion!.version_number} was submitted since.`
+                      : `Your review predates version ${latestVersion!.version_number}.`}{' '}
+                    Saving again records the latest version as graded.
+                  </p>
+                </div>
+              )}
+
+              {historyOpen && (
+                <div className="rounded-md border bg-muted/20 p-3">
+                  <SubmissionVersionHistory versions={versions} gradedVersionId={existingReview?.submission_version_id} />
+                </div>
+              )}
 
               {loadingAttachments ? (
                 <div className="flex items-center justify-center py-4">
@@ -218,6 +377,17 @@ export function ReviewForm({
                           <p className="text-[11px] text-muted-foreground">{(att.file_size / 1024 / 1024).toFixed(1)} MB</p>
                         )}
                       </div>
+                      {isPdfAttachment(att) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs shrink-0"
+                          onClick={e => { e.stopPropagation(); setAnnotatingAttachment(att); }}
+                        >
+                          <Highlighter className="w-3.5 h-3.5 mr-1" />
+                          Annotate
+                        </Button>
+                      )}
                       <Eye className="w-4 h-4 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity shrink-0" />
                     </div>
                   ))}
@@ -251,21 +421,38 @@ export function ReviewForm({
               <Label className="text-sm font-semibold">Your Review</Label>
 
               <div className="rounded-lg border bg-card p-4 space-y-4">
-                <div>
-                  <Label htmlFor="review-score" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
-                    Score (out of {maxScore})
-                  </Label>
-                  <Input
-                    id="review-score"
-                    type="number"
-                    min={0}
-                    max={maxScore}
-                    placeholder="Optional"
-                    value={score}
-                    onChange={e => setScore(e.target.value)}
-                    className="mt-1.5 h-10"
-                  />
-                </div>
+                {hasRubric ? (
+                  <div>
+                    <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                      Rubric
+                    </Label>
+                    <div className="mt-1.5">
+                      <RubricGrader
+                        criteria={rubricCriteria}
+                        maxScore={maxScore}
+                        value={picks}
+                        onChange={setPicks}
+                        disabled={saving}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="review-score" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                      Score (out of {maxScore})
+                    </Label>
+                    <Input
+                      id="review-score"
+                      type="number"
+                      min={0}
+                      max={maxScore}
+                      placeholder="Optional"
+                      value={score}
+                      onChange={e => setScore(e.target.value)}
+                      className="mt-1.5 h-10"
+                    />
+                  </div>
+                )}
 
                 <div>
                   <Label htmlFor="review-comment" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
@@ -287,8 +474,81 @@ export function ReviewForm({
               </Button>
             </div>
 
-            {/* ── Section 3: Mentor Review (if exists) ───────────── */}
-            {mentorReview && (
+            {/* ── Section 3: Late Penalty (late submissions) ─────── */}
+            {lateness && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <Label className="text-sm font-semibold flex items-center gap-1.5">
+                    <TimerOff className="w-4 h-4 text-amber-500" />
+                    Late Penalty
+                  </Label>
+                  <div className="rounded-lg border bg-card p-4 space-y-3">
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                      <span className="text-muted-foreground">Submitted {formatLateness(lateness.lateMinutes)} late</span>
+                      {existingReview?.score !== null && existingReview?.score !== undefined && (
+                        <span>
+                          {existingReview.score}
+                          <span className="text-muted-foreground"> − {Number(existingReview.late_penalty ?? 0)} = </span>
+                          <span className="font-semibold">{existingReview.adjusted_score ?? existingReview.score}</span>
+                          <span className="text-muted-foreground">/{maxScore}</span>
+                        </span>
+                      )}
+                      {lateness.override !== null && (
+                        <Badge variant="outline" className="text-[10px]">Overridden</Badge>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-[100px_1fr] gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder="Points"
+                        value={penaltyPoints}
+                        onChange={e => setPenaltyPoints(e.target.value)}
+                        className="h-9"
+                      />
+                      <Input
+                        placeholder="Reason (required)"
+                        value={penaltyReason}
+                        onChange={e => setPenaltyReason(e.target.value)}
+                        className="h-9"
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handlePenaltyOverride(false)}
+                        disabled={savingPenalty || penaltyPoints === '' || !penaltyReason.trim()}
+                      >
+                        {savingPenalty && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+                        Override Penalty
+                      </Button>
+                      {lateness.override !== null && (
+                        <Button size="sm" variant="ghost" onClick={() => handlePenaltyOverride(true)} disabled={savingPenalty}>
+                          Use Policy
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* ── Section 4: Mentor Review (if exists) ───────────── */}
+            {mentorReview && blind && !existingReview && (
+              <>
+                <Separator />
+                <div className="flex items-center gap-2 rounded-lg border bg-muted/40 p-3">
+                  <EyeOff className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <p className="text-sm text-muted-foreground">
+                    A mentor has reviewed this submission. Their score is hidden until you save yours (calibration mode).
+                  </p>
+                </div>
+              </>
+            )}
+            {mentorReview && !(blind && !existingReview) && (
               <>
                 <Separator />
                 <div className="space-y-3">
@@ -312,6 +572,20 @@ export function ReviewForm({
                     {mentorReview.comment && (
                       <p className="text-sm whitespace-pre-wrap leading-relaxed">{mentorReview.comment}</p>
                     )}
+                    {!!mentorReview.rubric_scores?.length && (
+                      <div className="space-y-1 pt-2 border-t">
+                        {rubricCriteria.map(c => {
+                          const rs = mentorReview.rubric_scores?.find(r => r.criteria_id === c.id);
+                          if (!rs) return null;
+                          return (
+                            <div key={c.id} className="flex items-center justify-between text-xs">
+                              <span className="text-muted-foreground">{c.label}</span>
+                              <span>{rs.level_label ?? rs.score} · {rs.score}/{c.max_score}</span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
                   </div>
 
                   <Button
@@ -326,10 +600,94 @@ export function ReviewForm({
                 </div>
               </>
             )}
+
+            {/* ── Section 5: Peer Reviews (signal only) ──────────── */}
+            {peerReviews.length > 0 && !(blind && !existingReview) && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-semibold">Peer Reviews</Label>
+                    <span className="text-xs text-muted-foreground">
+                      {peerSummary.submitted}/{peerSummary.assigned} in
+                      {peerSummary.meanScore !== null && <> · mean <span className="font-semibold text-foreground">{peerSummary.meanScore}</span>/{maxScore}</>}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    From other subgroups. Not shown to students and not part of the final score.
+                  </p>
+                  {submittedPeerReviews.map(p => (
+                    <div key={p.id} className="rounded-lg border bg-muted/30 p-3 space-y-1.5">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">{p.reviewer_subgroup_name ?? 'Subgroup'}</span>
+                        {p.score !== null && (
+                          <span className="font-semibold">{p.score}<span className="text-muted-foreground font-normal">/{maxScore}</span></span>
+                        )}
+                      </div>
+                      {p.comment && <p className="text-sm whitespace-pre-wrap leading-relaxed">{p.comment}</p>}
+                      {p.rubric_scores.length > 0 && (
+                        <div className="space-y-1 pt-1.5 border-t">
+                          {rubricCriteria.map(c => {
+                            const rs = p.rubric_scores.find(r => r.criteria_id === c.id);
+                            if (!rs) return null;
+                            return (
+                              <div key={c.id} className="flex items-center justify-between text-xs">
+                                <span className="text-muted-foreground">{c.label}</span>
+                                <span>{rs.level_label ?? rs.score} · {rs.score}/{c.max_score}</span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {/* ── Section 6: Individual Contributions ────────────── */}
+            <Separator />
+            <div className="space-y-3">
+              <Label className="text-sm font-semibold flex items-center gap-1.5">
+                <Users className="w-4 h-4 text-muted-foreground" />
+                Individual Contributions
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Adjust a member&apos;s grade up or down from the group score. Adjustments show in the grade book.
+              </p>
+              <SubmissionContributions
+                endpoint={`/api/admin/case-studies/${caseStudyId}/submissions/${submissionId}/contributions`}
+              />
+            </div>
+
+            {/* ── Section 7: Similarity ──────────────────────────── */}
+            {similarityMatches.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <Label className="text-sm font-semibold flex items-center gap-1.5">
+                    <ScanSearch className="w-4 h-4 text-muted-foreground" />
+                    Similarity
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Share of both submissions covered by identical passages. Worth a look, not proof of copying.
+                  </p>
+                  <SimilarityMatches matches={similarityMatches} subgroupName={subgroupName} />
+                </div>
+              </>
+            )}
           </div>
         </SheetContent>
       </Sheet>
 
+      <AnnotatedPdfViewer
+        attachment={annotatingAttachment}
+        onClose={() => setAnnotatingAttachment(null)}
+        signedUrlEndpoint={`/api/admin/resources/signed-url?path=${encodeURIComponent(annotatingAttachment?.file_path ?? '')}`}
+        annotationsEndpoint={`/api/admin/case-studies/${caseStudyId}/submissions/${submissionId}/annotations`}
+        canDelete={() => true}
+      />
+
       {/* Override Confirmation */}
       <AlertDialog open={overrideConfirmOpen} onOpenChange={setOverrideConfirmOpen}>
         <AlertDialogContent>
@@ -0,0 +1,348 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { ArrowLeft, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import type { RubricLevel, RubricTemplate } from '@/types';
+
+interface RubricTemplateLibraryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after any template is created, edited or deleted */
+  onChanged?: () => void;
+}
+
+interface CriterionDraft {
+  label: string;
+  description: string;
+  weight: string;
+  levels: Array<{ label: string; description: string; points: string }>;
+}
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  description: string;
+  criteria: CriterionDraft[];
+}
+
+const DEFAULT_LEVELS: RubricLevel[] = [
+  { label: 'Exceeds', description: null, points: 4 },
+  { label: 'Meets', description: null, points: 3 },
+  { label: 'Approaching', description: null, points: 2 },
+  { label: 'Below', description: null, points: 1 },
+];
+
+function newCriterion(): CriterionDraft {
+  return {
+    label: '',
+    description: '',
+    weight: '1',
+    levels: DEFAULT_LEVELS.map(l => ({ label: l.label, description: '', points: String(l.points) })),
+  };
+}
+
+function toDraft(template: RubricTemplate): TemplateDraft {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description ?? '',
+    criteria: (template.criteria || []).map(c => ({
+      label: c.label,
+      description: c.description ?? '',
+      weight: String(c.weight),
+      levels: c.levels.map(l => ({ label: l.label, description: l.description ?? '', points: String(l.points) })),
+    })),
+  };
+}
+
+export function RubricTemplateLibrary({ open, onOpenChange, onChanged }: RubricTemplateLibraryProps) {
+  const [templates, setTemplates] = useState<RubricTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/admin/rubric-templates');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setTemplates(data.templates || []);
+    } catch {
+      toast.error('Failed to load rubric templates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) fetchTemplates();
+  }, [open, fetchTemplates]);
+
+  const updateCriterion = (index: number, patch: Partial<CriterionDraft>) => {
+    setDraft(d => d && { ...d, criteria: d.criteria.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+  };
+
+  const updateLevel = (ci: number, li: number, patch: Partial<CriterionDraft['levels'][number]>) => {
+    setDraft(d => d && {
+      ...d,
+      criteria: d.criteria.map((c, i) => i === ci
+        ? { ...c, levels: c.levels.map((l, j) => (j === li ? { ...l, ...patch } : l)) }
+        : c),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const body = {
+        name: draft.name,
+        description: draft.description || null,
+        criteria: draft.criteria.map(c => ({
+          label: c.label,
+          description: c.description || null,
+          weight: Number(c.weight),
+          levels: c.levels.map(l => ({ label: l.label, description: l.description || null, points: Number(l.points) })),
+        })),
+      };
+      const res = await fetch(draft.id ? `/api/admin/rubric-templates/${draft.id}` : '/api/admin/rubric-templates', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save template');
+
+      toast.success(draft.id ? 'Template updated' : 'Template created');
+      setDraft(null);
+      fetchTemplates();
+      onChanged?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: RubricTemplate) => {
+    setDeletingId(template.id);
+    try {
+      const res = await fetch(`/api/admin/rubric-templates/${template.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete template');
+      toast.success('Template deleted');
+      fetchTemplates();
+      onChanged?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete template');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={v => { if (!v) setDraft(null); onOpenChange(v); }}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rubric Templates</DialogTitle>
+          <DialogDescription>
+            Reusable rubrics with weighted criteria and scoring levels. Attaching a template copies it onto a case study.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4">
+            <Button variant="ghost" size="sm" className="h-8 -ml-2" onClick={() => setDraft(null)}>
+              <ArrowLeft className="w-4 h-4 mr-1.5" />
+              Back to library
+            </Button>
+
+            <div className="grid gap-3">
+              <div>
+                <Label htmlFor="rubric-name">Name</Label>
+                <Input
+                  id="rubric-name"
+                  value={draft.name}
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Business case analysis"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rubric-description">Description</Label>
+                <Textarea
+                  id="rubric-description"
+                  value={draft.description}
+                  onChange={e => setDraft({ ...draft, description: e.target.value })}
+                  className="mt-1 min-h-[60px]"
+                />
+              </div>
+            </div>
+
+            {draft.criteria.map((c, ci) => (
+              <div key={ci} className="rounded-lg border p-3 space-y-3">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 grid grid-cols-[1fr_90px] gap-2">
+                    <Input
+                      value={c.label}
+                      onChange={e => updateCriterion(ci, { label: e.target.value })}
+                      placeholder="Criterion"
+                    />
+                    <Input
+                      type="number"
+                      min={0.1}
+                      step={0.5}
+                      value={c.weight}
+                      onChange={e => updateCriterion(ci, { weight: e.target.value })}
+                      aria-label="Weight"
+                      title="Weight"
+                    />
+                    <Input
+                      value={c.description}
+                      onChange={e => updateCriterion(ci, { description: e.target.value })}
+                      placeholder="What this criterion assesses (optional)"
+                      className="col-span-2"
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-9 w-9 shrink-0"
+                    onClick={() => setDraft({ ...draft, criteria: draft.criteria.filter((_, i) => i !== ci) })}
+                    aria-label="Remove criterion"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <div className="space-y-1.5">
+                  {c.levels.map((l, li) => (
+                    <div key={li} className="grid grid-cols-[120px_1fr_70px_32px] gap-2">
+                      <Input
+                        value={l.label}
+                        onChange={e => updateLevel(ci, li, { label: e.target.value })}
+                        placeholder="Level"
+                        className="h-8 text-xs"
+                      />
+                      <Input
+                        value={l.description}
+                        onChange={e => updateLevel(ci, li, { description: e.target.value })}
+                        placeholder="Descriptor"
+                        className="h-8 text-xs"
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        value={l.points}
+                        onChange={e => updateLevel(ci, li, { points: e.target.value })}
+                        aria-label="Points"
+                        className="h-8 text-xs"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => updateCriterion(ci, { levels: c.levels.filter((_, j) => j !== li) })}
+                        aria-label="Remove level"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => updateCriterion(ci, { levels: [...c.levels, { label: '', description: '', points: '0' }] })}
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    Level
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, criteria: [...draft.criteria, newCriterion()] })}
+              >
+                <Plus className="w-4 h-4 mr-1.5" />
+                Add Criterion
+              </Button>
+              <Button onClick={handleSave} disabled={saving || !draft.name.trim() || draft.criteria.length === 0}>
+                {saving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+                {draft.id ? 'Save Template' : 'Create Template'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setDraft({ name: '', description: '', criteria: [newCriterion()] })}
+            >
+              <Plus className="w-4 h-4 mr-1.5" />
+              New Template
+            </Button>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">No rubric templates yet</p>
+            ) : (
+              templates.map(t => (
+                <div key={t.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium text-sm">{t.name}</p>
+                    {t.description && <p className="text-xs text-muted-foreground">{t.description}</p>}
+                    <div className="flex flex-wrap gap-1">
+                      {(t.criteria || []).map(c => (
+                        <Badge key={c.id} variant="secondary" className="text-[10px]">
+                          {c.label} ×{c.weight}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDraft(toDraft(t))} aria-label="Edit template">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => handleDelete(t)}
+                      disabled={deletingId === t.id}
+                      aria-label="Delete template"
+                    >
+                      {deletingId === t.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
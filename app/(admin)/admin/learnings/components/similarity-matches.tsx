@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronRight, Link2 } from 'lucide-react';
+import type { PassageExcerpt, SimilarityMatch } from '@/types';
+
+interface SimilarityMatchesProps {
+  /** This submission's flagged matches, highest score first */
+  matches: SimilarityMatch[];
+  subgroupName: string;
+}
+
+function Excerpt({ excerpt }: { excerpt: PassageExcerpt }) {
+  return (
+    <p className="text-xs leading-relaxed text-muted-foreground whitespace-pre-wrap break-words">
+      {excerpt.before && <>…{excerpt.before}</>}
+      <mark className="rounded-sm bg-amber-200 px-0.5 text-foreground dark:bg-amber-500/40">{excerpt.match}</mark>
+      {excerpt.after && <>{excerpt.after}…</>}
+    </p>
+  );
+}
+
+export function SimilarityMatches({ matches, subgroupName }: SimilarityMatchesProps) {
+  const [expanded, setExpanded] = useState<string | null>(matches[0]?.pair_id ?? null);
+
+  return (
+    <div className="space-y-2">
+      {matches.map(m => {
+        const open = expanded === m.pair_id;
+        const matchedName = m.matched_subgroup_name ?? 'Subgroup';
+        return (
+          <div key={m.pair_id} className="rounded-lg border bg-muted/30">
+            <Button
+              variant="ghost"
+              className="h-auto w-full justify-between px-3 py-2 text-sm"
+              onClick={() => setExpanded(open ? null : m.pair_id)}
+            >
+              <span className="flex items-center gap-1.5 min-w-0">
+                {open ? <ChevronDown className="w-3.5 h-3.5 shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 shrink-0" />}
+                <span className="truncate">{matchedName}</span>
+                {m.cross_cohort && (
+                  <Badge variant="outline" className="text-[10px]">{m.matched_cohort_name ?? 'Prior cohort'}</Badge>
+                )}
+              </span>
+              <span className="font-semibold text-amber-600 dark:text-amber-400">{Math.round(m.score * 100)}%</span>
+            </Button>
+
+            {open && (
+              <div className="space-y-3 border-t px-3 py-3">
+                {m.shared_links.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium">Same links submitted</p>
+                    {m.shared_links.map(link => (
+                      <p key={link} className="flex items-center gap-1.5 text-xs text-muted-foreground truncate">
+                        <Link2 className="w-3 h-3 shrink-0" />
+                        {link}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {m.passages.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No matching passages.</p>
+                ) : (
+                  m.passages.map((p, i) => (
+                    <div key={i} className="grid grid-cols-2 gap-3 rounded-md border bg-background p-2.5">
+                      <div className="space-y-1 min-w-0">
+                        <p className="text-[11px] font-medium uppercase tracking-wide text-muted-foreground">{subgroupName}</p>
+                        <Excerpt excerpt={p.a} />
+                      </div>
+                      <div className="space-y-1 min-w-0">
+                        <p className="text-[11px] font-medium uppercase tracking-wide text-muted-foreground">{matchedName}</p>
+                        <Excerpt excerpt={p.b} />
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import type { CaseStudy, SimilarityMatch } from '@/types';
+
+interface SimilarityPanelProps {
+  caseStudy: CaseStudy;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after a check runs so rows pick up the new matches */
+  onChanged: () => void;
+}
+
+export function SimilarityPanel({ caseStudy, open, onOpenChange, onChanged }: SimilarityPanelProps) {
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [threshold, setThreshold] = useState('');
+  const [checkedAt, setCheckedAt] = useState<string | null>(null);
+  const [flaggedPairs, setFlaggedPairs] = useState(0);
+  const [crossCohortPairs, setCrossCohortPairs] = useState(0);
+
+  const fetchSimilarity = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/similarity`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      const pairs = new Map<string, SimilarityMatch>();
+      for (const list of Object.values(data.matches as Record<string, SimilarityMatch[]>)) {
+        for (const m of list) pairs.set(m.pair_id, m);
+      }
+      setThreshold(String(Math.round(data.threshold * 100)));
+      setCheckedAt(data.checked_at);
+      setFlaggedPairs(pairs.size);
+      setCrossCohortPairs([...pairs.values()].filter(m => m.cross_cohort).length);
+    } catch {
+      toast.error('Failed to load similarity results');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseStudy.id]);
+
+  useEffect(() => {
+    if (open) fetchSimilarity();
+  }, [open, fetchSimilarity]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/similarity`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ threshold: Number(threshold) / 100 }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Similarity check failed');
+      toast.success(
+        `Checked ${data.checked} submission${data.checked !== 1 ? 's' : ''}` +
+          (data.compared_prior > 0 ? ` against each other and ${data.compared_prior} from prior cohorts` : '') +
+          ` — ${data.flagged} pair${data.flagged !== 1 ? 's' : ''} flagged`
+      );
+      fetchSimilarity();
+      onChanged();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Similarity check failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const thresholdValid = Number(threshold) > 0 && Number(threshold) <= 100;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Similarity Check — {caseStudy.title}</DialogTitle>
+          <DialogDescription>
+            Compares submitted files and links with each other and with prior cohorts&apos; submissions to the same case.
+            Text from the problem statement is ignored. Files never leave the app.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="similarity-threshold" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                Flag pairs at or above (%)
+              </Label>
+              <Input
+                id="similarity-threshold"
+                type="number"
+                min={1}
+                max={100}
+                value={threshold}
+                onChange={e => setThreshold(e.target.value)}
+                className="mt-1.5"
+              />
+            </div>
+
+            <div className="rounded-lg border bg-muted/30 px-3 py-2 text-sm space-y-1">
+              {checkedAt ? (
+                <>
+                  <p className="font-medium">
+                    {flaggedPairs} pair{flaggedPairs !== 1 ? 's' : ''} flagged
+                    {crossCohortPairs > 0 && `, ${crossCohortPairs} with prior cohorts`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Last checked {new Date(checkedAt).toLocaleString('en-IN', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}.
+                    Matched passages are in each submission&apos;s review form.
+                  </p>
+                </>
+              ) : (
+                <p className="text-muted-foreground">Not checked yet.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={handleRun} disabled={running || loading || !thresholdValid}>
+            {running && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            {checkedAt ? 'Run Again' : 'Run Check'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
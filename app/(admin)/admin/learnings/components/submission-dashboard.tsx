@@ -20,6 +20,13 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
 import {
   Eye,
@@ -31,10 +38,26 @@ import {
   Calendar as CalendarIcon,
   Trophy,
   Users,
+  Scale,
+  Lock,
+  LockOpen,
+  MessageSquareText,
+  Hourglass,
+  TimerOff,
+  Download,
+  ScanSearch,
+  BarChart3,
 } from 'lucide-react';
 import { CountdownTimer } from '@/components/case-studies/countdown-timer';
 import { ReviewForm } from './review-form';
-import type { CaseStudy } from '@/types';
+import { CalibrationPanel } from './calibration-panel';
+import { PeerReviewPanel } from './peer-review-panel';
+import { ExtensionPanel } from './extension-panel';
+import { LatePolicyPanel } from './late-policy-panel';
+import { SimilarityPanel } from './similarity-panel';
+import { CaseStudyAnalyticsPanel } from './case-study-analytics-panel';
+import { summarizePeerReviews } from '@/lib/services/peer-review';
+import type { CaseStudy, CaseStudyPeerReview, RubricCriteria, SimilarityMatch } from '@/types';
 
 interface SubgroupSubmission {
   subgroup: { id: string; name: string };
@@ -44,6 +67,10 @@ interface SubgroupSubmission {
     visibility: string;
     submitted_at: string | null;
     is_late: boolean;
+    late_minutes: number;
+    late_penalty_override: number | null;
+    late_penalty_override_reason: string | null;
+    feedback_notified_at: string | null;
     submitted_by_name: string | null;
     attachment_count: number;
     link_count: number;
@@ -51,9 +78,16 @@ interface SubgroupSubmission {
       id: string;
       reviewer_role: string;
       score: number | null;
+      late_penalty: number;
+      adjusted_score: number | null;
       reviewer_name: string | null;
       overridden: boolean;
+      comment?: string;
+      submission_version_id?: string | null;
+      rubric_scores?: Array<{ criteria_id: string; score: number; level_label: string | null; comment: string | null }>;
     }>;
+    peer_reviews?: CaseStudyPeerReview[];
+    similarity_matches?: SimilarityMatch[];
   } | null;
 }
 
@@ -77,6 +111,7 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
   const [submissions, setSubmissions] = useState<SubgroupSubmission[]>([]);
   const [loading, setLoading] = useState(true);
   const [csInfo, setCsInfo] = useState<{ max_score: number; due_date: string | null } | null>(null);
+  const [rubricCriteria, setRubricCriteria] = useState<RubricCriteria[]>([]);
 
   // Review form state
   const [reviewSheetOpen, setReviewSheetOpen] = useState(false);
@@ -89,7 +124,21 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
   const [extendOpen, setExtendOpen] = useState(false);
   const [extendDate, setExtendDate] = useState('');
   const [extendSubgroupId, setExtendSubgroupId] = useState<string | null>(null);
+  // 'all' or a mentor id, when not extending a single subgroup
+  const [extendTarget, setExtendTarget] = useState('all');
+  const [extendReason, setExtendReason] = useState('');
   const [extending, setExtending] = useState(false);
+  const [extensionsOpen, setExtensionsOpen] = useState(false);
+  const [latePolicyOpen, setLatePolicyOpen] = useState(false);
+  const [similarityOpen, setSimilarityOpen] = useState(false);
+  const [analyticsOpen, setAnalyticsOpen] = useState(false);
+
+  // Calibration panel
+  const [calibrationOpen, setCalibrationOpen] = useState(false);
+
+  // Peer review panel + closing submissions
+  const [peerReviewOpen, setPeerReviewOpen] = useState(false);
+  const [togglingClosed, setTogglingClosed] = useState(false);
 
   // Bulk publish confirm
   const [bulkPublishTarget, setBulkPublishTarget] = useState<string>('');
@@ -103,6 +152,7 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
       if (!res.ok) throw new Error(data.error);
       setSubmissions(data.submissions || []);
       setCsInfo(data.case_study || null);
+      setRubricCriteria(data.rubric_criteria || []);
     } catch {
       toast.error('Failed to load submissions');
     } finally {
@@ -125,7 +175,7 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data.error);
-      toast.success(`Published to ${target}`);
+      toast.success(data.notified ? `Published to ${target}, feedback sent to students` : `Published to ${target}`);
       fetchSubmissions();
     } catch (err) {
       toast.error(err instanceof Error ? err.message : 'Failed to publish');
@@ -145,15 +195,18 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data.error);
-      const { updated, total } = data;
+      const { updated, total, blocked, notified } = data;
       const skipped = (total || 0) - (updated || 0);
       if (updated === 0) {
-        toast.info('No submissions eligible for this transition');
+        toast.info(data.message || 'No submissions eligible for this transition');
+      } else if (blocked > 0) {
+        toast.warning(`Published ${updated}/${total}. ${blocked} held back for calibration adjudication.`);
       } else if (skipped > 0) {
         toast.success(`Published ${updated}/${total}. ${skipped} skipped (not at the right stage).`);
       } else {
         toast.success(`All ${updated} submissions published to ${bulkPublishTarget}`);
       }
+      if (notified > 0) toast.info(`Feedback sent to ${notified} subgroup${notified !== 1 ? 's' : ''}`);
       setBulkPublishOpen(false);
       fetchSubmissions();
     } catch (err) {
@@ -168,8 +221,12 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
     if (!extendDate) return;
     setExtending(true);
     try {
-      const body: Record<string, unknown> = { due_date: new Date(extendDate).toISOString() };
+      const body: Record<string, unknown> = {
+        due_date: new Date(extendDate).toISOString(),
+        reason: extendReason || null,
+      };
       if (extendSubgroupId) body.subgroup_id = extendSubgroupId;
+      else if (extendTarget !== 'all') body.mentor_id = extendTarget;
 
       const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/extend-deadline`, {
         method: 'PUT',
@@ -189,6 +246,41 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
     }
   };
 
+  const openExtend = (subgroupId: string | null) => {
+    setExtendSubgroupId(subgroupId);
+    setExtendTarget('all');
+    setExtendDate('');
+    setExtendReason('');
+    setExtendOpen(true);
+  };
+
+  // Mentors across subgroups, for bulk extensions
+  const mentorOptions = [...new Map(submissions.flatMap(s => s.mentors).map(m => [m.id, m])).values()];
+
+  // Close / reopen submissions (closing assigns peer reviews when enabled)
+  const handleToggleSubmissions = async () => {
+    setTogglingClosed(true);
+    try {
+      const res = await fetch(`/api/admin/case-studies/${caseStudy.id}/close-submissions`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ closed: !caseStudy.submissions_closed }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      if (data.peer_reviews_assigned > 0) {
+        toast.success(`Submissions closed. ${data.peer_reviews_assigned} peer reviews assigned.`);
+      } else {
+        toast.success(data.submissions_closed ? 'Submissions closed' : 'Submissions reopened');
+      }
+      onRefresh();
+    } catch {
+      toast.error('Failed to update submissions');
+    } finally {
+      setTogglingClosed(false);
+    }
+  };
+
   // Toggle leaderboard
   const handleToggleLeaderboard = async () => {
     try {
@@ -205,6 +297,21 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
     }
   };
 
+  const handleToggleContributionSurvey = async () => {
+    try {
+      const res = await fetch('/api/admin/case-studies', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: caseStudy.id, contribution_survey_enabled: !caseStudy.contribution_survey_enabled }),
+      });
+      if (!res.ok) throw new Error('Failed');
+      toast.success(caseStudy.contribution_survey_enabled ? 'Contribution survey turned off' : 'Contribution survey turned on');
+      onRefresh();
+    } catch {
+      toast.error('Failed to toggle contribution survey');
+    }
+  };
+
   // Counts
   const submittedCount = submissions.filter(s => s.submission && s.submission.visibility !== 'draft').length;
   const reviewedCount = submissions.filter(s => {
@@ -257,12 +364,98 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
                 size="sm"
                 variant="outline"
                 className="h-8 text-xs"
-                onClick={() => { setExtendSubgroupId(null); setExtendDate(''); setExtendOpen(true); }}
+                onClick={() => openExtend(null)}
               >
                 <CalendarIcon className="w-3.5 h-3.5 mr-1.5" />
                 Extend Deadline
               </Button>
 
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 text-xs"
+                onClick={() => setExtensionsOpen(true)}
+              >
+                <Hourglass className="w-3.5 h-3.5 mr-1.5" />
+                Extensions
+              </Button>
+
+              <Button
+                size="sm"
+                variant={caseStudy.late_policy !== 'flag' ? 'default' : 'outline'}
+                className="h-8 text-xs"
+                onClick={() => setLatePolicyOpen(true)}
+              >
+                <TimerOff className="w-3.5 h-3.5 mr-1.5" />
+                Late Policy
+              </Button>
+
+              <Button
+                size="sm"
+                variant={caseStudy.calibration_mode ? 'default' : 'outline'}
+                className="h-8 text-xs"
+                onClick={() => setCalibrationOpen(true)}
+              >
+                <Scale className="w-3.5 h-3.5 mr-1.5" />
+                Calibration
+              </Button>
+
+              <Button
+                size="sm"
+                variant={caseStudy.peer_review_enabled ? 'default' : 'outline'}
+                className="h-8 text-xs"
+                onClick={() => setPeerReviewOpen(true)}
+              >
+                <MessageSquareText className="w-3.5 h-3.5 mr-1.5" />
+                Peer Review
+              </Button>
+
+              <Button
+                size="sm"
+                variant={caseStudy.contribution_survey_enabled ? 'default' : 'outline'}
+                className="h-8 text-xs"
+                onClick={handleToggleContributionSurvey}
+                title="Let students rate their teammates' contributions after submitting"
+              >
+                <Users className="w-3.5 h-3.5 mr-1.5" />
+                Contribution Survey
+              </Button>
+
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 text-xs"
+                onClick={() => setSimilarityOpen(true)}
+              >
+                <ScanSearch className="w-3.5 h-3.5 mr-1.5" />
+                Similarity
+              </Button>
+
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 text-xs"
+                onClick={() => setAnalyticsOpen(true)}
+              >
+                <BarChart3 className="w-3.5 h-3.5 mr-1.5" />
+                Analytics
+              </Button>
+
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 text-xs"
+                onClick={handleToggleSubmissions}
+                disabled={togglingClosed}
+              >
+                {caseStudy.submissions_closed ? (
+                  <LockOpen className="w-3.5 h-3.5 mr-1.5" />
+                ) : (
+                  <Lock className="w-3.5 h-3.5 mr-1.5" />
+                )}
+                {caseStudy.submissions_closed ? 'Reopen Submissions' : 'Close Submissions'}
+              </Button>
+
               <div className="w-px h-5 bg-border mx-1" />
 
               {(['mentor', 'subgroup', 'cohort'] as const).map(target => (
@@ -289,6 +482,13 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
                 <Trophy className="w-3.5 h-3.5 mr-1.5" />
                 {caseStudy.leaderboard_published ? 'Hide Leaderboard' : 'Publish Leaderboard'}
               </Button>
+
+              <Button size="sm" variant="outline" className="h-8 text-xs" asChild>
+                <a href={`/api/admin/case-studies/${caseStudy.id}/export`} download>
+                  <Download className="w-3.5 h-3.5 mr-1.5" />
+                  Export CSV
+                </a>
+              </Button>
             </div>
 
             {/* Submissions list */}
@@ -305,6 +505,8 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
                   const adminReview = sg.submission?.reviews?.find(r => r.reviewer_role === 'admin');
                   const mentorReview = sg.submission?.reviews?.find(r => r.reviewer_role === 'mentor');
                   const hasSubmission = sg.submission && vis !== 'draft';
+                  const peer = summarizePeerReviews(sg.submission?.peer_reviews ?? []);
+                  const topMatch = sg.submission?.similarity_matches?.[0];
 
                   return (
                     <div key={sg.subgroup.id} className={`rounded-lg border overflow-hidden ${hasSubmission ? 'bg-card' : 'bg-card/50 opacity-75'}`}>
@@ -320,6 +522,24 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
                               {sg.submission?.is_late && (
                                 <Badge variant="outline" className="text-[10px] text-amber-600 border-amber-300 dark:text-amber-400 dark:border-amber-700">Late</Badge>
                               )}
+                              {topMatch && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-[10px] text-red-600 border-red-300 dark:text-red-400 dark:border-red-700"
+                                  title={`Most similar to ${topMatch.matched_subgroup_name ?? 'another subgroup'}${topMatch.cross_cohort ? ` (${topMatch.matched_cohort_name ?? 'prior cohort'})` : ''}`}
+                                >
+                                  Similar {Math.round(topMatch.score * 100)}%
+                                </Badge>
+                              )}
+                              {sg.submission?.feedback_notified_at && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-[10px] text-emerald-600 border-emerald-300 dark:text-emerald-400 dark:border-emerald-700"
+                                  title={`Feedback digest sent ${new Date(sg.submission.feedback_notified_at).toLocaleDateString('en-IN', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`}
+                                >
+                                  Feedback sent
+                                </Badge>
+                              )}
                             </div>
                             {sg.mentors.length > 0 && (
                               <p className="text-xs text-muted-foreground truncate">
@@ -342,7 +562,17 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
                           <div className="flex items-center gap-3 text-xs text-muted-foreground">
                             {adminReview?.score !== undefined && adminReview?.score !== null && (
                               <span className="font-semibold text-foreground text-sm">
-                                {adminReview.score}<span className="text-muted-foreground font-normal">/{csInfo?.max_score ?? 100}</span>
+                                {adminReview.adjusted_score ?? adminReview.score}<span className="text-muted-foreground font-normal">/{csInfo?.max_score ?? 100}</span>
+                              </span>
+                            )}
+                            {adminReview && Number(adminReview.late_penalty) > 0 && (
+                              <span className="text-amber-600 dark:text-amber-400" title={`Raw score ${adminReview.score}`}>
+                                −{Number(adminReview.late_penalty)} late
+                              </span>
+                            )}
+                            {peer.meanScore !== null && (
+                              <span title={`${peer.submitted} of ${peer.assigned} peer reviews in`}>
+                                Peer {peer.meanScore}
                               </span>
                             )}
                             {sg.submission?.submitted_at && (
@@ -396,11 +626,7 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
                             size="sm"
                             variant="ghost"
                             className="h-8 text-xs"
-                            onClick={() => {
-                              setExtendSubgroupId(sg.subgroup.id);
-                              setExtendDate('');
-                              setExtendOpen(true);
-                            }}
+                            onClick={() => openExtend(sg.subgroup.id)}
                           >
                             <Clock className="w-3 h-3 mr-1" />
                             Extend
@@ -425,8 +651,17 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
           submissionId={reviewSubmission.submission.id}
           subgroupName={reviewSubmission.subgroup.name}
           maxScore={caseStudy.max_score}
+          rubricCriteria={rubricCriteria}
           existingReview={reviewSubmission.submission.reviews?.find(r => r.reviewer_role === 'admin') ?? null}
           mentorReview={reviewSubmission.submission.reviews?.find(r => r.reviewer_role === 'mentor') ?? null}
+          blind={caseStudy.calibration_mode}
+          peerReviews={reviewSubmission.submission.peer_reviews ?? []}
+          similarityMatches={reviewSubmission.submission.similarity_matches ?? []}
+          lateness={reviewSubmission.submission.is_late ? {
+            lateMinutes: reviewSubmission.submission.late_minutes,
+            override: reviewSubmission.submission.late_penalty_override,
+            overrideReason: reviewSubmission.submission.late_penalty_override_reason,
+          } : null}
           onSaved={() => {
             setReviewSheetOpen(false);
             fetchSubmissions();
@@ -434,22 +669,96 @@ export function SubmissionDashboard({ caseStudy, open, onClose, onRefresh }: Sub
         />
       )}
 
+      <CalibrationPanel
+        caseStudy={caseStudy}
+        open={calibrationOpen}
+        onOpenChange={setCalibrationOpen}
+        onChanged={() => {
+          fetchSubmissions();
+          onRefresh();
+        }}
+      />
+
+      <PeerReviewPanel
+        caseStudy={caseStudy}
+        open={peerReviewOpen}
+        onOpenChange={setPeerReviewOpen}
+        onChanged={() => {
+          fetchSubmissions();
+          onRefresh();
+        }}
+      />
+
+      <ExtensionPanel
+        caseStudy={caseStudy}
+        open={extensionsOpen}
+        onOpenChange={setExtensionsOpen}
+        onChanged={() => {
+          fetchSubmissions();
+          onRefresh();
+        }}
+      />
+
+      <LatePolicyPanel
+        caseStudy={caseStudy}
+        open={latePolicyOpen}
+        onOpenChange={setLatePolicyOpen}
+        onChanged={() => {
+          fetchSubmissions();
+          onRefresh();
+        }}
+      />
+
+      <SimilarityPanel
+        caseStudy={caseStudy}
+        open={similarityOpen}
+        onOpenChange={setSimilarityOpen}
+        onChanged={() => {
+          fetchSubmissions();
+          onRefresh();
+        }}
+      />
+
+      <CaseStudyAnalyticsPanel
+        caseStudy={caseStudy}
+        open={analyticsOpen}
+        onOpenChange={setAnalyticsOpen}
+      />
+
       {/* Extend Deadline Dialog */}
       <AlertDialog open={extendOpen} onOpenChange={setExtendOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>
-              Extend Deadline {extendSubgroupId ? '(per subgroup)' : '(all subgroups)'}
+              Extend Deadline {extendSubgroupId ? '(per subgroup)' : extendTarget === 'all' ? '(all subgroups)' : "(mentor's subgroups)"}
             </AlertDialogTitle>
             <AlertDialogDescription>
               Set a new deadline. {!extendSubgroupId && 'Already reviewed submissions will not be affected.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {!extendSubgroupId && mentorOptions.length > 0 && (
+            <Select value={extendTarget} onValueChange={setExtendTarget}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All subgroups</SelectItem>
+                {mentorOptions.map(m => (
+                  <SelectItem key={m.id} value={m.id}>Subgroups mentored by {m.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <Input
             type="datetime-local"
             value={extendDate}
             onChange={e => setExtendDate(e.target.value)}
           />
+          <Input
+            placeholder="Reason (recorded in the extension log)"
+            value={extendReason}
+            onChange={e => setExtendReason(e.target.value)}
+          />
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction onClick={handleExtendDeadline} disabled={extending || !extendDate}>
@@ -28,8 +28,10 @@ import {
   Trash2,
   Globe,
   Info,
+  Table2,
+  Copy,
 } from 'lucide-react';
-import type { Cohort, LearningModule, ModuleResource, LearningModuleWithResources, CaseStudy } from '@/types';
+import type { Cohort, LearningModule, ModuleResource, LearningModuleWithResources, CaseStudy, Assignment } from '@/types';
 import { ResourcePreviewModal } from '@/components/learnings';
 
 import { GLOBAL_LIBRARY_ID } from './utils';
@@ -42,6 +44,16 @@ import type { CaseStudyFormData, PendingSolution } from './components/case-study
 import { ResourceSection } from './components/resource-section';
 import { CaseStudySection } from './components/case-study-section';
 import { SubmissionDashboard } from './components/submission-dashboard';
+import { CaseStudyRubricDialog } from './components/case-study-rubric-dialog';
+import { GradeBookDialog } from './components/grade-book-dialog';
+import { CaseStudyCloneDialog } from './components/case-study-clone-dialog';
+import { AssignmentSection } from './components/assignment-section';
+import { AssignmentFormDialog } from './components/assignment-form-dialog';
+import type { AssignmentFormData } from './components/assignment-form-dialog';
+import { AssignmentGradingDialog } from '@/components/assignments/assignment-grading-dialog';
+import { QuizSection } from './components/quiz-section';
+import { QuizEditorDialog } from './components/quiz-editor-dialog';
+import { QuizAnalysisDialog } from './components/quiz-analysis-dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { MotionContainer, MotionItem, MotionFadeIn } from '@/components/ui/motion';
 import { PageHeader } from '@/components/ui/page-header';
@@ -49,6 +61,7 @@ import { PageHeader } from '@/components/ui/page-header';
 export default function LearningsPage() {
   const [modules, setModules] = useState<LearningModuleWithResources[]>([]);
   const [caseStudies, setCaseStudies] = useState<CaseStudy[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [cohorts, setCohorts] = useState<Cohort[]>([]);
   const [selectedCohort, setSelectedCohort] = useState<string>('');
   const [selectedWeek, setSelectedWeek] = useState<string>('');
@@ -60,7 +73,9 @@ export default function LearningsPage() {
     recordings: true,
     slides: true,
     documents: true,
+    quizzes: true,
     caseStudies: true,
+    assignments: true,
   });
 
   // Dialog visibility
@@ -76,6 +91,14 @@ export default function LearningsPage() {
   const [showCaseStudyForm, setShowCaseStudyForm] = useState(false);
   const [editingCaseStudy, setEditingCaseStudy] = useState<CaseStudy | null>(null);
 
+  const [showAssignmentForm, setShowAssignmentForm] = useState(false);
+  const [editingAssignment, setEditingAssignment] = useState<Assignment | null>(null);
+  const [gradingAssignment, setGradingAssignment] = useState<Assignment | null>(null);
+
+  // Quiz editor: null = closed, { resourceId: null } = new quiz
+  const [quizEditor, setQuizEditor] = useState<{ resourceId: string | null } | null>(null);
+  const [analysisQuiz, setAnalysisQuiz] = useState<ModuleResource | null>(null);
+
   // Shared delete confirmation dialog
   const [deleteTarget, setDeleteTarget] = useState<{ type: string; id: string; title: string } | null>(null);
 
@@ -86,6 +109,13 @@ export default function LearningsPage() {
   // Submission dashboard
   const [submissionDashboardCs, setSubmissionDashboardCs] = useState<CaseStudy | null>(null);
 
+  // Rubric
+  const [rubricCs, setRubricCs] = useState<CaseStudy | null>(null);
+
+  // Grade book
+  const [gradeBookOpen, setGradeBookOpen] = useState(false);
+  const [cloneOpen, setCloneOpen] = useState(false);
+
   const hasFetchedCohortsRef = useRef(false);
 
   // --- Data fetching ---
@@ -164,6 +194,18 @@ export default function LearningsPage() {
     }
   }, [selectedCohort]);
 
+  const fetchAssignments = useCallback(async () => {
+    if (!selectedCohort || selectedCohort === GLOBAL_LIBRARY_ID) return;
+
+    try {
+      const response = await fetch(`/api/admin/assignments?cohort_id=${selectedCohort}`);
+      const data = await response.json();
+      setAssignments(data.assignments || []);
+    } catch (error) {
+      console.error('Error fetching assignments:', error);
+    }
+  }, [selectedCohort]);
+
   useEffect(() => {
     fetchCohorts();
   }, [fetchCohorts]);
@@ -171,9 +213,9 @@ export default function LearningsPage() {
   useEffect(() => {
     if (selectedCohort) {
       setLoading(true);
-      Promise.all([fetchModules(), fetchCaseStudies(), fetchCohortStats()]).finally(() => setLoading(false));
+      Promise.all([fetchModules(), fetchCaseStudies(), fetchAssignments(), fetchCohortStats()]).finally(() => setLoading(false));
     }
-  }, [selectedCohort, fetchModules, fetchCaseStudies, fetchCohortStats]);
+  }, [selectedCohort, fetchModules, fetchCaseStudies, fetchAssignments, fetchCohortStats]);
 
   // Sync submission dashboard with fresh case study data
   useEffect(() => {
@@ -193,12 +235,14 @@ export default function LearningsPage() {
   );
   const currentWeekModule = useMemo(() => modules.find(m => m.week_number?.toString() === selectedWeek), [modules, selectedWeek]);
   const weekResources = currentWeekModule?.resources || [];
-  const { recordings, slides, documents } = useMemo(() => ({
+  const { recordings, slides, documents, quizzes } = useMemo(() => ({
     recordings: weekResources.filter(r => r.content_type === 'video'),
     slides: weekResources.filter(r => r.content_type === 'slides'),
     documents: weekResources.filter(r => r.content_type === 'document'),
+    quizzes: weekResources.filter(r => r.content_type === 'quiz'),
   }), [weekResources]);
   const weekCaseStudies = useMemo(() => caseStudies.filter(cs => cs.week_number?.toString() === selectedWeek), [caseStudies, selectedWeek]);
+  const weekAssignments = useMemo(() => assignments.filter(a => a.week_number?.toString() === selectedWeek), [assignments, selectedWeek]);
 
   // --- Module CRUD ---
 
@@ -384,6 +428,49 @@ export default function LearningsPage() {
     }
   };
 
+  const handleSaveAssignment = async (data: AssignmentFormData) => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/admin/assignments', {
+        method: editingAssignment ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(editingAssignment
+            ? { id: editingAssignment.id, submissions_closed: data.submissions_closed }
+            : { cohort_id: selectedCohort, week_number: parseInt(selectedWeek) }),
+          title: data.title,
+          description: data.description,
+          due_date: data.due_date || null,
+          grace_period_minutes: data.grace_period_minutes,
+          max_score: data.max_score,
+        }),
+      });
+      if (!response.ok) throw new Error('Failed to save assignment');
+      toast.success(editingAssignment ? 'Assignment updated' : 'Assignment created');
+      setShowAssignmentForm(false);
+      setEditingAssignment(null);
+      fetchAssignments();
+    } catch (error) {
+      console.error('Error saving assignment:', error);
+      toast.error(editingAssignment ? 'Failed to update assignment' : 'Failed to create assignment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteAssignment = async (assignmentId: string) => {
+    try {
+      const response = await fetch(`/api/admin/assignments?id=${assignmentId}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete assignment');
+      const result = await response.json();
+      toast.success(result.archived ? 'Assignment archived' : 'Assignment deleted');
+      fetchAssignments();
+    } catch (error) {
+      console.error('Error deleting assignment:', error);
+      toast.error('Failed to delete assignment');
+    }
+  };
+
   const toggleSolutionVisibility = async (caseStudy: CaseStudy) => {
     try {
       const response = await fetch('/api/admin/case-studies', {
@@ -434,6 +521,10 @@ export default function LearningsPage() {
   };
 
   const openEditResource = (resource: ModuleResource) => {
+    if (resource.content_type === 'quiz') {
+      setQuizEditor({ resourceId: resource.id });
+      return;
+    }
     setEditingResource(resource);
     setTargetModuleId(resource.module_id || '');
     setResourceInitialData({
@@ -461,6 +552,15 @@ export default function LearningsPage() {
     setShowCaseStudyForm(true);
   };
 
+  const openAddAssignment = () => {
+    if (!selectedWeek) {
+      toast.error('Please select a week first');
+      return;
+    }
+    setEditingAssignment(null);
+    setShowAssignmentForm(true);
+  };
+
   const toggleSection = (section: string) => {
     setExpandedSections(prev => ({ ...prev, [section]: !prev[section] }));
   };
@@ -480,27 +580,49 @@ export default function LearningsPage() {
           : 'Create and manage course content'
         }
         action={
-          <Select value={selectedCohort} onValueChange={(value) => { setSelectedCohort(value); setSelectedWeek(''); }}>
-            <SelectTrigger className="w-[220px] h-11 font-medium border-2 dark:border-gray-700 dark:bg-gray-900 dark:text-white">
-              <SelectValue placeholder="Select cohort" />
-            </SelectTrigger>
-            <SelectContent className="dark:bg-gray-900 dark:border-gray-700">
-              <SelectItem value={GLOBAL_LIBRARY_ID} className="dark:text-white dark:focus:bg-gray-800">
-                <div className="flex items-center gap-2">
-                  <Globe className="w-4 h-4 text-purple-600 dark:text-purple-400" />
-                  <span className="font-medium">Global Library</span>
-                </div>
-              </SelectItem>
-              {cohorts.length > 0 && (
-                <div className="border-t my-1 dark:border-gray-700" />
-              )}
-              {cohorts.map((cohort) => (
-                <SelectItem key={cohort.id} value={cohort.id} className="dark:text-white dark:focus:bg-gray-800">
-                  {cohort.name}
+          <div className="flex items-center gap-2">
+            {selectedCohort && selectedCohort !== GLOBAL_LIBRARY_ID && (
+              <Button
+                variant="outline"
+                onClick={() => setGradeBookOpen(true)}
+                className="h-11 border-2 dark:border-gray-700 dark:bg-gray-900 dark:text-white dark:hover:bg-gray-800"
+              >
+                <Table2 className="w-4 h-4 mr-1.5" />
+                Grade Book
+              </Button>
+            )}
+            {selectedCohort && selectedCohort !== GLOBAL_LIBRARY_ID && (
+              <Button
+                variant="outline"
+                onClick={() => setCloneOpen(true)}
+                className="h-11 border-2 dark:border-gray-700 dark:bg-gray-900 dark:text-white dark:hover:bg-gray-800"
+              >
+                <Copy className="w-4 h-4 mr-1.5" />
+                Clone Case Studies
+              </Button>
+            )}
+            <Select value={selectedCohort} onValueChange={(value) => { setSelectedCohort(value); setSelectedWeek(''); }}>
+              <SelectTrigger className="w-[220px] h-11 font-medium border-2 dark:border-gray-700 dark:bg-gray-900 dark:text-white">
+                <SelectValue placeholder="Select cohort" />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-900 dark:border-gray-700">
+                <SelectItem value={GLOBAL_LIBRARY_ID} className="dark:text-white dark:focus:bg-gray-800">
+                  <div className="flex items-center gap-2">
+                    <Globe className="w-4 h-4 text-purple-600 dark:text-purple-400" />
+                    <span className="font-medium">Global Library</span>
+                  </div>
                 </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+                {cohorts.length > 0 && (
+                  <div className="border-t my-1 dark:border-gray-700" />
+                )}
+                {cohorts.map((cohort) => (
+                  <SelectItem key={cohort.id} value={cohort.id} className="dark:text-white dark:focus:bg-gray-800">
+                    {cohort.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         }
       />
 
@@ -660,6 +782,19 @@ export default function LearningsPage() {
             }}
           />
 
+          <QuizSection
+            expanded={expandedSections.quizzes}
+            onToggle={() => toggleSection('quizzes')}
+            quizzes={quizzes}
+            onAdd={() => setQuizEditor({ resourceId: null })}
+            onEdit={(quiz) => setQuizEditor({ resourceId: quiz.id })}
+            onDelete={(resourceId) => {
+              const quiz = quizzes.find(q => q.id === resourceId);
+              setDeleteTarget({ type: 'resource', id: resourceId, title: quiz?.title || 'this quiz' });
+            }}
+            onViewAnalysis={setAnalysisQuiz}
+          />
+
           <CaseStudySection
             expanded={expandedSections.caseStudies}
             onToggle={() => toggleSection('caseStudies')}
@@ -686,6 +821,7 @@ export default function LearningsPage() {
               }
             }}
             onViewSubmissions={(cs) => setSubmissionDashboardCs(cs)}
+            onManageRubric={(cs) => setRubricCs(cs)}
             onPreviewSolution={async (cs) => {
               if (!cs.solutions || cs.solutions.length === 0) return;
               const firstSolution = cs.solutions[0];
@@ -702,6 +838,24 @@ export default function LearningsPage() {
               }
             }}
           />
+
+          {selectedCohort !== GLOBAL_LIBRARY_ID && (
+            <AssignmentSection
+              expanded={expandedSections.assignments}
+              onToggle={() => toggleSection('assignments')}
+              assignments={weekAssignments}
+              onAdd={openAddAssignment}
+              onEdit={(assignment) => {
+                setEditingAssignment(assignment);
+                setShowAssignmentForm(true);
+              }}
+              onDelete={(assignmentId) => {
+                const assignment = weekAssignments.find(a => a.id === assignmentId);
+                setDeleteTarget({ type: 'assignment', id: assignmentId, title: assignment?.title || 'this assignment' });
+              }}
+              onViewSubmissions={setGradingAssignment}
+            />
+          )}
         </div>
       )}
       </MotionFadeIn>
@@ -748,6 +902,41 @@ export default function LearningsPage() {
         cohortId={selectedCohort}
       />
 
+      {/* Assignment Form Dialog */}
+      <AssignmentFormDialog
+        open={showAssignmentForm}
+        onOpenChange={(open) => {
+          setShowAssignmentForm(open);
+          if (!open) { setEditingAssignment(null); }
+        }}
+        editingAssignment={editingAssignment}
+        onSave={handleSaveAssignment}
+        saving={saving}
+      />
+
+      {/* Assignment Submissions & Grading */}
+      <AssignmentGradingDialog
+        assignment={gradingAssignment}
+        apiBase="/api/admin/assignments"
+        onOpenChange={(open) => !open && setGradingAssignment(null)}
+        onGraded={fetchAssignments}
+      />
+
+      {/* Quiz Editor & Item Analysis */}
+      {currentWeekModule && (
+        <QuizEditorDialog
+          open={!!quizEditor}
+          onOpenChange={(open) => !open && setQuizEditor(null)}
+          moduleId={currentWeekModule.id}
+          resourceId={quizEditor?.resourceId ?? null}
+          onSaved={fetchModules}
+        />
+      )}
+      <QuizAnalysisDialog
+        quiz={analysisQuiz}
+        onOpenChange={(open) => !open && setAnalysisQuiz(null)}
+      />
+
       {/* Resource Preview Modal */}
       <ResourcePreviewModal
         resource={previewResource}
@@ -787,7 +976,7 @@ export default function LearningsPage() {
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>
-              Delete {deleteTarget?.type === 'week' ? 'Week' : deleteTarget?.type === 'resource' ? 'Resource' : 'Case Study'}?
+              Delete {deleteTarget?.type === 'week' ? 'Week' : deleteTarget?.type === 'resource' ? 'Resource' : deleteTarget?.type === 'assignment' ? 'Assignment' : 'Case Study'}?
             </AlertDialogTitle>
             <AlertDialogDescription>
               {deleteTarget?.type === 'week'
@@ -808,6 +997,8 @@ export default function LearningsPage() {
                   await handleDeleteModule(deleteTarget.id);
                 } else if (deleteTarget.type === 'resource') {
                   await handleDeleteResource(deleteTarget.id);
+                } else if (deleteTarget.type === 'assignment') {
+                  await handleDeleteAssignment(deleteTarget.id);
                 } else {
                   await handleDeleteCaseStudy(deleteTarget.id);
                 }
@@ -829,6 +1020,31 @@ export default function LearningsPage() {
           onRefresh={() => fetchCaseStudies()}
         />
       )}
+
+      {/* Case Study Rubric */}
+      <CaseStudyRubricDialog
+        caseStudy={rubricCs}
+        onOpenChange={(open) => !open && setRubricCs(null)}
+      />
+
+      {selectedCohort && selectedCohort !== GLOBAL_LIBRARY_ID && (
+        <GradeBookDialog
+          cohortId={selectedCohort}
+          cohortName={cohorts.find(c => c.id === selectedCohort)?.name ?? 'Cohort'}
+          open={gradeBookOpen}
+          onOpenChange={setGradeBookOpen}
+        />
+      )}
+
+      {cohorts.some(c => c.id === selectedCohort) && (
+        <CaseStudyCloneDialog
+          targetCohort={cohorts.find(c => c.id === selectedCohort)!}
+          cohorts={cohorts}
+          open={cloneOpen}
+          onOpenChange={setCloneOpen}
+          onCloned={fetchCaseStudies}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,219 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from 'sonner';
+import { Activity } from 'lucide-react';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { AttendanceTimeline } from '@/lib/services/attendance-timeline';
+
+interface TimelineResponse {
+  session: { id: string; title: string; scheduledAt: string };
+  origin: string;
+  effectiveEndMinutes: number | null;
+  formalEndMinutes: number | null;
+  cliffDetected: boolean;
+  timeline: AttendanceTimeline;
+}
+
+interface AttendanceTimelineDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string | null;
+  sessionTitle: string;
+}
+
+const axisTick = { fill: 'var(--muted-foreground)', fontSize: 11 };
+
+export function AttendanceTimelineDialog({ open, onOpenChange, sessionId, sessionTitle }: AttendanceTimelineDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [data, setData] = useState<TimelineResponse | null>(null);
+
+  const fetchTimeline = useCallback(async () => {
+    if (!sessionId) return;
+    setLoading(true);
+    setData(null);
+    try {
+      const res = await fetch(`/api/admin/sessions/${sessionId}/timeline`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Failed to load timeline');
+      setData(body);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load timeline');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (open && sessionId) {
+      fetchTimeline();
+    }
+  }, [open, sessionId, fetchTimeline]);
+
+  const flowData = useMemo(
+    () => (data?.timeline.minutes || []).map((m) => ({ minute: m.minute, joins: m.joins, departures: -m.departures })),
+    [data],
+  );
+
+  const timeline = data?.timeline;
+  const total = Math.max(timeline?.totalMinutes || 0, 1);
+  // An admin override wins over the detected end, same as the calculator
+  const endMarker = data?.formalEndMinutes ?? data?.effectiveEndMinutes ?? null;
+  const endLabel = data?.formalEndMinutes != null ? 'Formal end' : 'Detected end';
+
+  const marker = endMarker != null && (
+    <ReferenceLine
+      x={endMarker}
+      stroke="var(--primary)"
+      strokeDasharray="4 4"
+      label={{ value: `${endLabel} ${endMarker}m`, position: 'insideTopRight', fill: 'var(--primary)', fontSize: 11 }}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Activity className="w-5 h-5" />
+            Attendance Timeline
+          </DialogTitle>
+          <DialogDescription>
+            {sessionTitle}
+            {data && ' · minutes from scheduled start'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !data || !timeline ? (
+          <div className="space-y-3">
+            <Skeleton className="h-[200px] w-full rounded-lg" />
+            <Skeleton className="h-[120px] w-full rounded-lg" />
+          </div>
+        ) : timeline.lanes.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-12 text-center">No attendance segments recorded for this session</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="secondary">{timeline.lanes.length} attendees</Badge>
+              {timeline.peak && (
+                <Badge variant="outline">Peak {timeline.peak.present} at {timeline.peak.minute}m</Badge>
+              )}
+              {data.cliffDetected ? (
+                <Badge variant="outline" className="border-primary/30 text-primary">
+                  Cliff detected at {data.effectiveEndMinutes}m
+                </Badge>
+              ) : (
+                <Badge variant="outline">No cliff detected</Badge>
+              )}
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">In the room</p>
+              <ResponsiveContainer width="100%" height={200}>
+                <AreaChart data={timeline.minutes} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                  <defs>
+                    <linearGradient id="timelinePresentGradient" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="var(--primary)" stopOpacity={0.3} />
+                      <stop offset="95%" stopColor="var(--primary)" stopOpacity={0} />
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="minute" type="number" domain={[0, total]} tick={axisTick} tickFormatter={(v) => `${v}m`} />
+                  <YAxis allowDecimals={false} tick={axisTick} />
+                  <Tooltip
+                    content={({ active, payload }) => {
+                      if (!active || !payload?.[0]) return null;
+                      const m = payload[0].payload;
+                      return (
+                        <div className="bg-popover border rounded-lg px-3 py-2 shadow-md text-xs">
+                          <p className="font-medium">Minute {m.minute}</p>
+                          <p>{m.present} present · +{m.joins} / -{m.departures}</p>
+                        </div>
+                      );
+                    }}
+                  />
+                  <Area
+                    type="stepAfter"
+                    dataKey="present"
+                    stroke="var(--primary)"
+                    strokeWidth={2}
+                    fill="url(#timelinePresentGradient)"
+                    isAnimationActive={false}
+                  />
+                  {marker}
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Joins and departures per minute</p>
+              <ResponsiveContainer width="100%" height={120}>
+                <BarChart data={flowData} stackOffset="sign" margin={{ top: 0, right: 10, left: -20, bottom: 0 }}>
+                  <XAxis dataKey="minute" type="number" domain={[0, total]} tick={axisTick} tickFormatter={(v) => `${v}m`} />
+                  <YAxis allowDecimals={false} tick={axisTick} tickFormatter={(v) => `${Math.abs(v)}`} />
+                  <ReferenceLine y={0} className="stroke-muted" />
+                  <Bar dataKey="joins" stackId="flow" fill="rgb(16 185 129)" isAnimationActive={false} />
+                  <Bar dataKey="departures" stackId="flow" fill="var(--muted-foreground)" isAnimationActive={false} />
+                  {marker}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Per attendee</p>
+              <div className="max-h-[320px] overflow-y-auto space-y-1 pr-1">
+                {timeline.lanes.map((lane, i) => (
+                  <div key={lane.userId ?? `guest-${i}`} className="flex items-center gap-2">
+                    <span className="text-xs w-40 truncate shrink-0" title={lane.email ?? undefined}>
+                      {lane.name}
+                      {!lane.userId && <span className="text-muted-foreground"> (unmatched)</span>}
+                    </span>
+                    <div className="relative flex-1 h-3 rounded-sm bg-muted/40">
+                      {lane.segments.map((s, j) => (
+                        <div
+                          key={j}
+                          className="absolute inset-y-0 rounded-sm bg-primary/70"
+                          style={{ left: `${(s.start / total) * 100}%`, width: `${((s.end - s.start) / total) * 100}%` }}
+                          title={`${s.start}m – ${s.end}m`}
+                        />
+                      ))}
+                      {endMarker != null && (
+                        <div
+                          className="absolute inset-y-0 border-l border-dashed border-primary"
+                          style={{ left: `${Math.min(endMarker / total, 1) * 100}%` }}
+                        />
+                      )}
+                    </div>
+                    <span className="text-[10px] text-muted-foreground w-12 text-right tabular-nums shrink-0">
+                      {Math.round(lane.attendedMinutes)}m
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -54,6 +54,7 @@ import {
   X,
   CalendarPlus,
   Link2,
+  Activity,
 } from 'lucide-react';
 import { PageHeader } from '@/components/ui/page-header';
 import { useSearchParams } from 'next/navigation';
@@ -63,6 +64,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { MotionContainer, MotionItem, MotionFadeIn } from '@/components/ui/motion';
 import { RsvpListDialog } from './components/rsvp-list-dialog';
+import { AttendanceTimelineDialog } from './components/attendance-timeline-dialog';
 
 interface SessionWithStats extends Session {
   cohort?: Cohort;
@@ -97,6 +99,8 @@ export default function SessionsPage() {
   const [rsvpSessionId, setRsvpSessionId] = useState<string | null>(null);
   const [rsvpSessionTitle, setRsvpSessionTitle] = useState('');
 
+  const [timelineSession, setTimelineSession] = useState<{ id: string; title: string } | null>(null);
+
   const [deleteSessionId, setDeleteSessionId] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [editingSession, setEditingSession] = useState<SessionWithStats | null>(null);
@@ -534,6 +538,12 @@ export default function SessionsPage() {
                               <Pencil className="w-4 h-4 mr-2" />
                               Edit
                             </DropdownMenuItem>
+                            {isPast(parseISO(session.scheduled_at)) && (
+                              <DropdownMenuItem onClick={() => setTimelineSession({ id: session.id, title: session.title })}>
+                                <Activity className="w-4 h-4 mr-2" />
+                                Attendance timeline
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuItem
                               onClick={() => setDeleteSessionId(session.id)}
                               className="text-destructive focus:text-destructive"
@@ -849,6 +859,13 @@ export default function SessionsPage() {
         sessionId={rsvpSessionId}
         sessionTitle={rsvpSessionTitle}
       />
+
+      <AttendanceTimelineDialog
+        open={!!timelineSession}
+        onOpenChange={(open) => { if (!open) setTimelineSession(null); }}
+        sessionId={timelineSession?.id ?? null}
+        sessionTitle={timelineSession?.title ?? ''}
+      />
     </div>
   );
 }
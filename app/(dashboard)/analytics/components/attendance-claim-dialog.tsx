@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2, Paperclip, X } from 'lucide-react';
+import { format } from 'date-fns';
+import type { AttendanceClaimReason } from '@/types';
+
+const REASON_LABELS: Record<AttendanceClaimReason, string> = {
+  unaliased_email: 'I joined from a different email',
+  dropped_connection: 'My connection dropped',
+  cliff_misapplied: 'The session end time was applied wrongly',
+  other: 'Something else',
+};
+
+const MAX_FILES = 5;
+
+interface AttendanceClaimDialogProps {
+  session: { sessionId: string; title: string; date: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+export function AttendanceClaimDialog({ session, open, onOpenChange, onSubmitted }: AttendanceClaimDialogProps) {
+  const [reason, setReason] = useState<AttendanceClaimReason>('unaliased_email');
+  const [alternateEmail, setAlternateEmail] = useState('');
+  const [joinTime, setJoinTime] = useState('');
+  const [leaveTime, setLeaveTime] = useState('');
+  const [description, setDescription] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const resetForm = () => {
+    setReason('unaliased_email');
+    setAlternateEmail('');
+    setJoinTime('');
+    setLeaveTime('');
+    setDescription('');
+    setFiles([]);
+  };
+
+  const uploadEvidence = async (file: File): Promise<string> => {
+    const urlRes = await fetch('/api/attendance/claims/upload-url', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filename: file.name, fileSize: file.size, contentType: file.type }),
+    });
+    const urlData = await urlRes.json();
+    if (!urlRes.ok) throw new Error(urlData.error || 'Failed to upload evidence');
+
+    const uploadRes = await fetch(urlData.uploadUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': file.type },
+      body: file,
+    });
+    if (!uploadRes.ok) throw new Error(`Failed to upload ${file.name}`);
+
+    return urlData.filePath;
+  };
+
+  const handleSubmit = async () => {
+    if (!session) return;
+
+    if (reason === 'unaliased_email' && !alternateEmail.trim()) {
+      toast.error('Enter the email you joined Zoom with');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const evidencePaths: string[] = [];
+      for (const file of files) {
+        evidencePaths.push(await uploadEvidence(file));
+      }
+
+      const res = await fetch('/api/attendance/claims', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          session_id: session.sessionId,
+          reason,
+          description: description.trim() || null,
+          alternate_email: alternateEmail.trim() || null,
+          claimed_join_time: joinTime ? new Date(joinTime).toISOString() : null,
+          claimed_leave_time: leaveTime ? new Date(leaveTime).toISOString() : null,
+          evidence_paths: evidencePaths,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to submit claim');
+
+      toast.success('Claim submitted. An admin will review it shortly.');
+      resetForm();
+      onOpenChange(false);
+      onSubmitted();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit claim');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!submitting) onOpenChange(next); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Dispute Attendance</DialogTitle>
+          {session && (
+            <DialogDescription>
+              {session.title} · {format(new Date(session.date), 'MMM d, yyyy')}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>What happened?</Label>
+            <Select value={reason} onValueChange={(v) => setReason(v as AttendanceClaimReason)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REASON_LABELS) as AttendanceClaimReason[]).map((key) => (
+                  <SelectItem key={key} value={key}>{REASON_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="claim-email">
+              Email used in Zoom{reason === 'unaliased_email' ? '' : ' (optional)'}
+            </Label>
+            <Input
+              id="claim-email"
+              type="email"
+              placeholder="personal@example.com"
+              value={alternateEmail}
+              onChange={(e) => setAlternateEmail(e.target.value)}
+            />
+          </div>
+
+          {reason !== 'unaliased_email' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="claim-join">Joined at</Label>
+                <Input id="claim-join" type="datetime-local" value={joinTime} onChange={(e) => setJoinTime(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="claim-leave">Left at</Label>
+                <Input id="claim-leave" type="datetime-local" value={leaveTime} onChange={(e) => setLeaveTime(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="claim-description">Details</Label>
+            <Textarea
+              id="claim-description"
+              rows={3}
+              placeholder="Anything that helps us verify your attendance"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Screenshots (optional)</Label>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/webp,application/pdf"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const selected = Array.from(e.target.files || []);
+                setFiles((prev) => [...prev, ...selected].slice(0, MAX_FILES));
+                e.target.value = '';
+              }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={files.length >= MAX_FILES}
+            >
+              <Paperclip className="w-4 h-4 mr-1.5" />
+              Attach files
+            </Button>
+            {files.length > 0 && (
+              <ul className="space-y-1">
+                {files.map((file, i) => (
+                  <li key={`${file.name}-${i}`} className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span className="truncate">{file.name}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      aria-label={`Remove ${file.name}`}
+                      onClick={() => setFiles((prev) => prev.filter((_, idx) => idx !== i))}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            Submit Claim
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -40,6 +40,9 @@ import {
   BarChart3,
   Trophy,
   RefreshCw,
+  Flag,
+  ShieldCheck,
+  FileText,
 } from 'lucide-react';
 import { PageHeader } from '@/components/ui/page-header';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -52,6 +55,10 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { AttendanceClaimDialog } from './components/attendance-claim-dialog';
+import { ExcuseRequestDialog, type ExcusePayload } from '@/components/attendance/excuse-request-dialog';
+import type { AttendanceClaimStatus, AttendanceEligibilityStatus, AttendanceExcuseStatus } from '@/types';
 
 // ─── Types ───
 
@@ -64,9 +71,24 @@ interface AttendanceSession {
   percentage: number;
   durationAttended: number;
   joinCount: number;
+  outcome?: 'present' | 'absent' | 'excused';
   segments: { join: string; leave: string; duration: number }[];
 }
 
+interface SessionClaim {
+  id: string;
+  session_id: string;
+  status: AttendanceClaimStatus;
+  resolution_note: string | null;
+}
+
+interface SessionExcuse {
+  id: string;
+  session_id: string;
+  status: AttendanceExcuseStatus;
+  review_note: string | null;
+}
+
 interface AttendanceStats {
   overallPercentage: number;
   sessionsAttended: number;
@@ -74,6 +96,16 @@ interface AttendanceStats {
   totalHours: number;
 }
 
+interface AttendanceEligibility {
+  status: AttendanceEligibilityStatus;
+  sessionsPresent: number;
+  sessionsMissed: number;
+  sessionsExcused: number;
+  remainingAbsences: number;
+  maxMissedSessions: number;
+  minSessionPercentage: number;
+}
+
 interface MentorStudent {
   userId: string;
   name: string;
@@ -82,6 +114,12 @@ interface MentorStudent {
   sessionsAttended: number;
   sessionsTotal: number;
   avgPercentage: number;
+  punctuality?: {
+    sessionsMeasured: number;
+    lateCount: number;
+    avgMinutesLate: number;
+    earlyLeaveCount: number;
+  };
   sessions: AttendanceSession[];
 }
 
@@ -147,7 +185,37 @@ function AnimatedNumber({ value, suffix = '' }: { value: number; suffix?: string
 
 // ─── Session Card (shared between student and mentor views) ───
 
-function SessionCard({ session }: { session: AttendanceSession }) {
+const CLAIM_STATUS_LABELS: Record<AttendanceClaimStatus, string> = {
+  pending: 'Claim under review',
+  approved: 'Claim approved',
+  rejected: 'Claim rejected',
+  withdrawn: 'Claim withdrawn',
+};
+
+const EXCUSE_STATUS_LABELS: Record<AttendanceExcuseStatus, string> = {
+  pending: 'Excuse under review',
+  approved: 'Excuse approved',
+  rejected: 'Excuse rejected',
+  withdrawn: 'Excuse withdrawn',
+};
+
+function SessionCard({
+  session,
+  claim,
+  onDispute,
+  excuse,
+  onRequestExcuse,
+}: {
+  session: AttendanceSession;
+  claim?: SessionClaim;
+  onDispute?: () => void;
+  excuse?: SessionExcuse;
+  onRequestExcuse?: () => void;
+}) {
+  // Excuses only make sense for sessions that did not count as present
+  const canRequestExcuse = onRequestExcuse && session.outcome === 'absent'
+    && excuse?.status !== 'pending' && excuse?.status !== 'approved';
+
   const [open, setOpen] = useState(false);
 
   return (
@@ -178,7 +246,9 @@ function SessionCard({ session }: { session: AttendanceSession }) {
               </div>
             </div>
             <div className="flex items-center gap-2">
-              {session.attended ? getAttendanceBadge(session.percentage) : (
+              {session.outcome === 'excused' ? (
+                <Badge variant="outline" className="bg-blue-500/10 text-blue-500 border-blue-200">Excused</Badge>
+              ) : session.attended ? getAttendanceBadge(session.percentage) : (
                 <Badge variant="outline" className="bg-gray-500/10 text-gray-500 border-gray-200">Absent</Badge>
               )}
               <ChevronDown className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} />
@@ -211,6 +281,42 @@ function SessionCard({ session }: { session: AttendanceSession }) {
                   ) : (
                     <p className="mt-3 text-sm text-muted-foreground">No segment data available</p>
                   )}
+                  {(excuse || canRequestExcuse) && (
+                    <div className="mt-3 flex items-center justify-between gap-2">
+                      {excuse ? (
+                        <div className="text-sm">
+                          <Badge variant="outline">{EXCUSE_STATUS_LABELS[excuse.status]}</Badge>
+                          {excuse.review_note && (
+                            <p className="mt-1 text-xs text-muted-foreground">{excuse.review_note}</p>
+                          )}
+                        </div>
+                      ) : <span />}
+                      {canRequestExcuse && (
+                        <Button variant="outline" size="sm" onClick={onRequestExcuse}>
+                          <FileText className="w-3.5 h-3.5 mr-1.5" />
+                          Request excuse
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {(claim || onDispute) && (
+                    <div className="mt-3 flex items-center justify-between gap-2">
+                      {claim ? (
+                        <div className="text-sm">
+                          <Badge variant="outline">{CLAIM_STATUS_LABELS[claim.status]}</Badge>
+                          {claim.resolution_note && (
+                            <p className="mt-1 text-xs text-muted-foreground">{claim.resolution_note}</p>
+                          )}
+                        </div>
+                      ) : <span />}
+                      {onDispute && claim?.status !== 'pending' && (
+                        <Button variant="outline" size="sm" onClick={onDispute}>
+                          <Flag className="w-3.5 h-3.5 mr-1.5" />
+                          Dispute attendance
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </div>
               </motion.div>
             </CollapsibleContent>
@@ -227,6 +333,7 @@ function StudentView() {
   const { user, activeCohortId } = useUserContext();
   const [attendance, setAttendance] = useState<AttendanceSession[]>([]);
   const [stats, setStats] = useState<AttendanceStats | null>(null);
+  const [eligibility, setEligibility] = useState<AttendanceEligibility | null>(null);
   const [loading, setLoading] = useState(true);
   const [fetchError, setFetchError] = useState(false);
 
@@ -237,6 +344,68 @@ function StudentView() {
   const [cohortAvg, setCohortAvg] = useState<number>(0);
   const [leaderboardLoading, setLeaderboardLoading] = useState(true);
 
+  // Attendance claims state
+  const [claimsBySession, setClaimsBySession] = useState<Record<string, SessionClaim>>({});
+  const [disputeSession, setDisputeSession] = useState<AttendanceSession | null>(null);
+
+  // Excused absence requests state
+  const [excusesBySession, setExcusesBySession] = useState<Record<string, SessionExcuse>>({});
+  const [excuseSession, setExcuseSession] = useState<AttendanceSession | null>(null);
+
+  const fetchExcuses = useCallback(async () => {
+    try {
+      const res = await fetch('/api/attendance/excuses');
+      if (!res.ok) return;
+      const data = await res.json();
+      // Newest first — keep the latest per session
+      const bySession: Record<string, SessionExcuse> = {};
+      for (const excuse of (data.requests || []) as SessionExcuse[]) {
+        if (!bySession[excuse.session_id]) bySession[excuse.session_id] = excuse;
+      }
+      setExcusesBySession(bySession);
+    } catch {
+      // Excuses are non-critical — silently degrade
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchExcuses();
+  }, [fetchExcuses]);
+
+  const submitExcuse = async (excuse: ExcusePayload) => {
+    if (!excuseSession) return;
+    const res = await fetch('/api/attendance/excuses', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ session_id: excuseSession.sessionId, ...excuse }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to submit request');
+
+    toast.success('Excuse requested. Your mentor will review it.');
+    fetchExcuses();
+  };
+
+  const fetchClaims = useCallback(async () => {
+    try {
+      const res = await fetch('/api/attendance/claims');
+      if (!res.ok) return;
+      const data = await res.json();
+      // Claims are newest first — keep the latest per session
+      const bySession: Record<string, SessionClaim> = {};
+      for (const claim of (data.claims || []) as SessionClaim[]) {
+        if (!bySession[claim.session_id]) bySession[claim.session_id] = claim;
+      }
+      setClaimsBySession(bySession);
+    } catch {
+      // Claims are non-critical — silently degrade
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchClaims();
+  }, [fetchClaims]);
+
   const fetchAttendance = useCallback(async () => {
     setLoading(true);
     setFetchError(false);
@@ -247,6 +416,7 @@ function StudentView() {
         const data = await res.json();
         setAttendance(data.attendance || []);
         setStats(data.stats);
+        setEligibility(data.eligibility || null);
       } else {
         setFetchError(true);
       }
@@ -427,6 +597,50 @@ function StudentView() {
         </motion.div>
       </div>
 
+      {/* Eligibility under the cohort attendance policy */}
+      {eligibility && (
+        <Card
+          aria-label={`Attendance eligibility: ${eligibility.status}`}
+          className={
+            eligibility.status === 'ineligible'
+              ? 'border-red-500/50'
+              : eligibility.status === 'at_risk'
+              ? 'border-yellow-500/50'
+              : undefined
+          }
+        >
+          <CardContent className="p-4 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              {eligibility.status === 'eligible' ? (
+                <ShieldCheck className="w-5 h-5 text-green-500" />
+              ) : (
+                <AlertTriangle className={`w-5 h-5 ${eligibility.status === 'ineligible' ? 'text-red-500' : 'text-yellow-500'}`} />
+              )}
+              <div>
+                <p className="text-sm font-medium">
+                  {eligibility.status === 'ineligible'
+                    ? 'Not eligible — too many missed sessions'
+                    : eligibility.status === 'at_risk'
+                    ? 'At risk — one more missed session makes you ineligible'
+                    : 'On track for completion'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  A session counts when you attend at least {eligibility.minSessionPercentage}% of it
+                </p>
+              </div>
+            </div>
+            <div className="text-right text-sm">
+              <p className="font-medium">
+                {eligibility.sessionsMissed} / {eligibility.maxMissedSessions} absences used
+              </p>
+              {eligibility.sessionsExcused > 0 && (
+                <p className="text-xs text-muted-foreground">{eligibility.sessionsExcused} excused</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Chart */}
       {chartData.length > 1 && (
         <motion.div
@@ -502,12 +716,32 @@ function StudentView() {
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: 0.05 * i }}
             >
-              <SessionCard session={session} />
+              <SessionCard
+                session={session}
+                claim={claimsBySession[session.sessionId]}
+                onDispute={() => setDisputeSession(session)}
+                excuse={excusesBySession[session.sessionId]}
+                onRequestExcuse={() => setExcuseSession(session)}
+              />
             </motion.div>
           ))}
         </div>
       </div>
 
+      <AttendanceClaimDialog
+        session={disputeSession}
+        open={!!disputeSession}
+        onOpenChange={(open) => { if (!open) setDisputeSession(null); }}
+        onSubmitted={fetchClaims}
+      />
+
+      <ExcuseRequestDialog
+        session={excuseSession && { id: excuseSession.sessionId, title: excuseSession.title, date: excuseSession.date }}
+        open={!!excuseSession}
+        onOpenChange={(open) => { if (!open) setExcuseSession(null); }}
+        onSubmit={submitExcuse}
+      />
+
       {/* Cohort Leaderboard */}
       <motion.div
         initial={{ opacity: 0, y: 8 }}
@@ -779,6 +1013,7 @@ function MentorView() {
                 <TableHead>Student</TableHead>
                 <TableHead>Overall</TableHead>
                 <TableHead>Sessions</TableHead>
+                <TableHead>Late joins</TableHead>
                 <TableHead></TableHead>
               </TableRow>
             </TableHeader>
@@ -814,6 +1049,18 @@ function MentorView() {
                       <TableCell className="text-sm">
                         {student.sessionsAttended} / {student.sessionsTotal}
                       </TableCell>
+                      <TableCell className="text-sm">
+                        {student.punctuality && student.punctuality.sessionsMeasured > 0 ? (
+                          <span
+                            className={student.punctuality.lateCount >= 3 ? 'text-amber-600 dark:text-amber-400 font-medium' : ''}
+                            title={`Avg ${student.punctuality.avgMinutesLate} min late · left early ${student.punctuality.earlyLeaveCount}×`}
+                          >
+                            {student.punctuality.lateCount} / {student.punctuality.sessionsMeasured}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Button variant="ghost" size="icon" className="h-8 w-8">
                           <ChevronDown
@@ -826,7 +1073,7 @@ function MentorView() {
                     </TableRow>
                     {isExpanded && (
                       <tr>
-                        <td colSpan={4} className="p-0">
+                        <td colSpan={5} className="p-0">
                           <motion.div
                             initial={{ height: 0, opacity: 0 }}
                             animate={{ height: 'auto', opacity: 1 }}
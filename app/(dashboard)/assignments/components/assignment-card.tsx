@@ -0,0 +1,114 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CountdownTimer } from '@/components/case-studies/countdown-timer';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Clock,
+  ExternalLink,
+  FileText,
+  Lock,
+  Star,
+  Upload,
+} from 'lucide-react';
+import type { AssignmentStudentStatus, StudentAssignment } from '@/types';
+
+const STATUS_CONFIG: Record<AssignmentStudentStatus, { label: string; icon: React.ElementType; className: string }> = {
+  not_submitted: { label: 'Not submitted', icon: Clock, className: 'text-muted-foreground' },
+  missing: { label: 'Missing', icon: AlertTriangle, className: 'text-red-600 dark:text-red-400' },
+  submitted: { label: 'Submitted', icon: CheckCircle2, className: 'text-emerald-600 dark:text-emerald-400' },
+  graded: { label: 'Graded', icon: Star, className: 'text-amber-600 dark:text-amber-400' },
+};
+
+interface AssignmentCardProps {
+  assignment: StudentAssignment;
+  onSubmit: (assignment: StudentAssignment) => void;
+  onOpenSubmission: (assignment: StudentAssignment) => void;
+}
+
+export function AssignmentCard({ assignment, onSubmit, onOpenSubmission }: AssignmentCardProps) {
+  const status = assignment.student_status;
+  const statusConfig = STATUS_CONFIG[status];
+  const StatusIcon = statusConfig.icon;
+  const submission = assignment.submission;
+
+  return (
+    <div className="rounded-xl border bg-card overflow-hidden hover:border-primary/20 transition-colors">
+      <div className="p-5 pb-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1 min-w-0">
+            <h3 className="text-base font-semibold leading-tight">{assignment.title}</h3>
+            {assignment.description && (
+              <p className="text-sm text-muted-foreground mt-1.5 leading-relaxed whitespace-pre-line">{assignment.description}</p>
+            )}
+          </div>
+
+          <div className="shrink-0">
+            {assignment.can_submit ? (
+              <Button onClick={() => onSubmit(assignment)} className="h-10 px-5">
+                <Upload className="w-4 h-4 mr-1.5" />
+                {submission ? 'Replace' : 'Submit'}
+              </Button>
+            ) : status === 'submitted' ? (
+              <Button variant="outline" disabled className="h-10 px-5">
+                <Lock className="w-4 h-4 mr-1.5" />
+                Locked
+              </Button>
+            ) : null}
+          </div>
+        </div>
+
+        {status === 'graded' && submission && (
+          <div className="mt-4 rounded-lg border bg-muted/30 p-4 space-y-1.5">
+            <div className="flex items-baseline gap-1">
+              <span className="text-2xl font-semibold tabular-nums">{submission.grade}</span>
+              <span className="text-sm text-muted-foreground">/ {assignment.max_score}</span>
+              {submission.graded_by_name && (
+                <span className="text-xs text-muted-foreground ml-auto">Graded by {submission.graded_by_name}</span>
+              )}
+            </div>
+            {submission.feedback && (
+              <p className="text-sm leading-relaxed whitespace-pre-line">{submission.feedback}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="px-5 py-3 bg-muted/30 border-t flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-4 flex-wrap">
+          <div className="flex items-center gap-1.5">
+            <StatusIcon className={`w-4 h-4 ${statusConfig.className}`} />
+            <span className={`text-sm font-medium ${statusConfig.className}`}>{statusConfig.label}</span>
+            {submission?.is_late && (
+              <Badge variant="outline" className="text-[10px] ml-1 text-amber-600 border-amber-300 dark:text-amber-400 dark:border-amber-700">Late</Badge>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            {status === 'not_submitted' && (
+              <CountdownTimer deadline={assignment.due_date} graceMinutes={assignment.grace_period_minutes} />
+            )}
+            {assignment.due_date && (
+              <span className="text-xs">
+                Due: {new Date(assignment.due_date).toLocaleDateString('en-IN', { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {submission && submission.status !== 'draft' && (
+          <Button variant="ghost" size="sm" onClick={() => onOpenSubmission(assignment)} className="h-8 text-xs">
+            {submission.google_drive_url ? (
+              <ExternalLink className="w-3.5 h-3.5 mr-1.5" />
+            ) : (
+              <FileText className="w-3.5 h-3.5 mr-1.5" />
+            )}
+            {submission.file_name || 'Your link'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
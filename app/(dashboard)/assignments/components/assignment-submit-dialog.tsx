@@ -0,0 +1,187 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from 'sonner';
+import { Link2, Loader2, Upload } from 'lucide-react';
+import { ASSIGNMENT_FILE_TYPES, MAX_ASSIGNMENT_FILE_SIZE, isValidSubmissionLink } from '@/lib/services/assignments';
+import type { StudentAssignment } from '@/types';
+
+interface AssignmentSubmitDialogProps {
+  assignment: StudentAssignment | null;
+  cohortId: string;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+export function AssignmentSubmitDialog({ assignment, cohortId, onOpenChange, onSubmitted }: AssignmentSubmitDialogProps) {
+  const [mode, setMode] = useState<'file' | 'link'>('file');
+  const [file, setFile] = useState<File | null>(null);
+  const [link, setLink] = useState('');
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!assignment) return;
+    setMode(assignment.submission?.google_drive_url ? 'link' : 'file');
+    setLink(assignment.submission?.google_drive_url ?? '');
+    setFile(null);
+    setUploadProgress(0);
+  }, [assignment]);
+
+  const pickFile = (picked: File | null) => {
+    if (picked && !ASSIGNMENT_FILE_TYPES.includes(picked.type)) {
+      toast.error('Allowed: PDF, DOC, DOCX, XLS, XLSX, PPT, PPTX');
+      return;
+    }
+    if (picked && picked.size > MAX_ASSIGNMENT_FILE_SIZE) {
+      toast.error(`Maximum file size is ${MAX_ASSIGNMENT_FILE_SIZE / 1024 / 1024}MB`);
+      return;
+    }
+    setFile(picked);
+  };
+
+  const uploadFile = async (picked: File) => {
+    const urlRes = await fetch('/api/assignments/submissions/upload-url', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filename: picked.name, fileSize: picked.size, contentType: picked.type, cohortId }),
+    });
+    const urlData = await urlRes.json();
+    if (!urlRes.ok) throw new Error(urlData.error);
+
+    // XHR for progress, with the same retry/backoff as case study uploads
+    for (let attempt = 0; attempt < 3; attempt++) {
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const xhr = new XMLHttpRequest();
+          xhr.upload.onprogress = (e) => {
+            if (e.lengthComputable) setUploadProgress(Math.round((e.loaded / e.total) * 100));
+          };
+          xhr.onload = () => xhr.status >= 200 && xhr.status < 300 ? resolve() : reject(new Error('Upload failed'));
+          xhr.onerror = () => reject(new Error('Upload failed'));
+          xhr.open('PUT', urlData.uploadUrl);
+          xhr.setRequestHeader('Content-Type', picked.type);
+          xhr.send(picked);
+        });
+        return urlData.filePath as string;
+      } catch (err) {
+        if (attempt === 2) throw err;
+        setUploadProgress(0);
+        await new Promise(r => setTimeout(r, 1000 * Math.pow(2, attempt)));
+      }
+    }
+    throw new Error('Upload failed');
+  };
+
+  const handleSubmit = async () => {
+    if (!assignment) return;
+    setSubmitting(true);
+    try {
+      const body = mode === 'file' && file
+        ? {
+            assignment_id: assignment.id,
+            file_path: await uploadFile(file),
+            file_name: file.name,
+            file_size: file.size,
+            file_type: file.type,
+          }
+        : { assignment_id: assignment.id, link: link.trim() };
+
+      const res = await fetch('/api/assignments/submissions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to submit');
+
+      toast.success(data.submission?.is_late ? 'Submitted (late)' : 'Submitted');
+      onSubmitted();
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to submit');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const ready = mode === 'file' ? !!file : isValidSubmissionLink(link);
+
+  return (
+    <Dialog open={!!assignment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{assignment?.submission ? 'Replace submission' : 'Submit assignment'}</DialogTitle>
+          <DialogDescription>
+            {assignment?.title}
+            {assignment?.submission && ' — this replaces what you handed in before.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={v => setMode(v as 'file' | 'link')}>
+          <TabsList className="w-full">
+            <TabsTrigger value="file" className="flex-1">
+              <Upload className="w-4 h-4 mr-1.5" />
+              Upload file
+            </TabsTrigger>
+            <TabsTrigger value="link" className="flex-1">
+              <Link2 className="w-4 h-4 mr-1.5" />
+              Share link
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {mode === 'file' ? (
+          <div className="space-y-2">
+            <Label htmlFor="assignment-file">File</Label>
+            <Input
+              id="assignment-file"
+              type="file"
+              accept={ASSIGNMENT_FILE_TYPES.join(',')}
+              onChange={e => pickFile(e.target.files?.[0] ?? null)}
+              disabled={submitting}
+            />
+            <p className="text-xs text-muted-foreground">PDF, Word, Excel or PowerPoint, up to 100MB</p>
+            {submitting && uploadProgress > 0 && <Progress value={uploadProgress} className="h-1.5" />}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="assignment-link">Link</Label>
+            <Input
+              id="assignment-link"
+              type="url"
+              placeholder="https://docs.google.com/..."
+              value={link}
+              onChange={e => setLink(e.target.value)}
+              disabled={submitting}
+            />
+            <p className="text-xs text-muted-foreground">Make sure your mentor can open it</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!ready || submitting}>
+            {submitting && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            Submit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
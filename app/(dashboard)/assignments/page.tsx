@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useUserContext } from '@/contexts/user-context';
+import { PageHeader } from '@/components/ui/page-header';
+import { EmptyState } from '@/components/ui/empty-state';
+import { toast } from 'sonner';
+import { AlertTriangle, Loader2, NotebookPen, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { StudentAssignment } from '@/types';
+import { AssignmentCard } from './components/assignment-card';
+import { AssignmentSubmitDialog } from './components/assignment-submit-dialog';
+
+export default function AssignmentsPage() {
+  const { activeCohortId } = useUserContext();
+  const [assignments, setAssignments] = useState<StudentAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fetchError, setFetchError] = useState(false);
+  const [submitting, setSubmitting] = useState<StudentAssignment | null>(null);
+
+  const fetchData = useCallback(async (signal?: AbortSignal) => {
+    if (!activeCohortId) return;
+    setLoading(true);
+    setFetchError(false);
+    try {
+      const res = await fetch(`/api/assignments?cohort_id=${activeCohortId}`, { signal });
+      if (signal?.aborted) return;
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setAssignments(data.assignments || []);
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return;
+      setFetchError(true);
+      toast.error('Failed to load assignments');
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  }, [activeCohortId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchData(controller.signal);
+    return () => controller.abort();
+  }, [fetchData]);
+
+  const openSubmission = async (assignment: StudentAssignment) => {
+    const submission = assignment.submission;
+    if (!submission) return;
+    if (submission.google_drive_url) {
+      window.open(submission.google_drive_url, '_blank', 'noopener,noreferrer');
+      return;
+    }
+    try {
+      const res = await fetch(`/api/assignments/submissions/${submission.id}/signed-url`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      window.open(data.signedUrl, '_blank', 'noopener,noreferrer');
+    } catch {
+      toast.error('Failed to open your submission');
+    }
+  };
+
+  const grouped = assignments.reduce<Record<number, StudentAssignment[]>>((acc, a) => {
+    if (!acc[a.week_number]) acc[a.week_number] = [];
+    acc[a.week_number].push(a);
+    return acc;
+  }, {});
+  const weekNumbers = Object.keys(grouped).map(Number).sort((a, b) => a - b);
+
+  if (fetchError && assignments.length === 0) {
+    return (
+      <div className="p-6">
+        <PageHeader title="Assignments" />
+        <div className="text-center py-16 text-muted-foreground">
+          <AlertTriangle className="w-16 h-16 mx-auto mb-4 opacity-50 text-destructive" />
+          <p className="text-xl font-medium text-foreground">Failed to load assignments</p>
+          <p className="text-sm mt-1">Check your connection and try again</p>
+          <Button variant="outline" className="mt-4" onClick={() => fetchData()}>
+            <RefreshCw className="w-4 h-4 mr-1.5" />
+            Try again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const graded = assignments.filter(a => a.student_status === 'graded').length;
+
+  return (
+    <div className="p-6 space-y-6">
+      <PageHeader
+        title="Assignments"
+        description={assignments.length ? `${graded} of ${assignments.length} graded` : 'Individual weekly homework'}
+      />
+
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : assignments.length === 0 ? (
+        <EmptyState
+          icon={NotebookPen}
+          title="No assignments yet"
+          description="Assignments will appear here when your instructor sets them."
+        />
+      ) : (
+        <div className="space-y-10">
+          {weekNumbers.map(week => (
+            <section key={week}>
+              <div className="flex items-center gap-3 mb-4">
+                <h2 className="text-base font-semibold tracking-tight">Week {week}</h2>
+                <div className="flex-1 h-px bg-border" />
+              </div>
+              <div className="grid gap-4">
+                {grouped[week].map(a => (
+                  <AssignmentCard
+                    key={a.id}
+                    assignment={a}
+                    onSubmit={setSubmitting}
+                    onOpenSubmission={openSubmission}
+                  />
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+
+      <AssignmentSubmitDialog
+        assignment={submitting}
+        cohortId={activeCohortId || ''}
+        onOpenChange={open => !open && setSubmitting(null)}
+        onSubmitted={fetchData}
+      />
+    </div>
+  );
+}
@@ -50,6 +50,7 @@ import {
 import { formatInTimeZone } from 'date-fns-tz';
 import { cn } from '@/lib/utils';
 import { MotionContainer, MotionItem, MotionFadeIn } from '@/components/ui/motion';
+import { ExcuseRequestDialog, type ExcusePayload } from '@/components/attendance/excuse-request-dialog';
 import type { Session, Rsvp } from '@/types';
 
 interface SessionWithRsvp extends Session {
@@ -67,6 +68,7 @@ export default function CalendarPage() {
   const [fetchError, setFetchError] = useState(false);
   const [timezoneMode, setTimezoneMode] = useState<TimezoneMode>('ist');
   const [rsvpLoading, setRsvpLoading] = useState(false);
+  const [excuseOpen, setExcuseOpen] = useState(false);
 
   // Get browser's local timezone
   const localTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
@@ -135,7 +137,7 @@ export default function CalendarPage() {
     }
   }, [userLoading, fetchSessions]);
 
-  const handleRsvp = async (response: 'yes' | 'no') => {
+  const handleRsvp = async (response: 'yes' | 'no', excuse?: ExcusePayload) => {
     if (!selectedSession || !profile) return;
 
     setRsvpLoading(true);
@@ -147,6 +149,7 @@ export default function CalendarPage() {
         body: JSON.stringify({
           response,
           reminder_enabled: selectedSession.user_rsvp?.reminder_enabled ?? true,
+          excuse,
         }),
       });
 
@@ -167,7 +170,13 @@ export default function CalendarPage() {
         prev ? { ...prev, user_rsvp: rsvp } : null
       );
 
-      toast.success(response === 'yes' ? "You're in! See you there." : 'RSVP updated');
+      if (data.excuseError) {
+        toast.error(`RSVP updated, but the excuse request failed: ${data.excuseError}`);
+      } else if (data.excuse) {
+        toast.success('RSVP updated. Your excuse request was sent to your mentor.');
+      } else {
+        toast.success(response === 'yes' ? "You're in! See you there." : 'RSVP updated');
+      }
     } catch (error) {
       console.error('Error updating RSVP:', error);
       toast.error('Failed to update RSVP');
@@ -535,7 +544,14 @@ export default function CalendarPage() {
                       'flex-1 gap-2 h-11',
                       selectedSession.user_rsvp?.response === 'no' && 'bg-red-600 hover:bg-red-700 border-red-600'
                     )}
-                    onClick={() => handleRsvp('no')}
+                    onClick={() => {
+                      // Students can attach an excused-absence request to a "no"
+                      if (!isAdmin && selectedSession.counts_for_students) {
+                        setExcuseOpen(true);
+                      } else {
+                        handleRsvp('no');
+                      }
+                    }}
                     disabled={rsvpLoading}
                   >
                     <X className="w-4 h-4" />
@@ -582,6 +598,17 @@ export default function CalendarPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <ExcuseRequestDialog
+        session={selectedSession && { id: selectedSession.id, title: selectedSession.title, date: selectedSession.scheduled_at }}
+        open={excuseOpen}
+        onOpenChange={setExcuseOpen}
+        onSubmit={(excuse) => handleRsvp('no', excuse)}
+        onSkip={() => {
+          setExcuseOpen(false);
+          handleRsvp('no');
+        }}
+      />
     </div>
   );
 }
@@ -12,6 +12,8 @@ import {
   Clock,
   Star,
   Trophy,
+  Hourglass,
+  Users,
 } from 'lucide-react';
 import { canUpload, getEffectiveDeadline } from '@/lib/services/case-study-deadline';
 import type { StudentSubmissionStatus } from '@/types';
@@ -30,6 +32,8 @@ interface CaseStudyCardProps {
   onViewProblem: (cs: CaseStudyWithSubmission) => void;
   onViewFeedback: (cs: CaseStudyWithSubmission) => void;
   onViewLeaderboard: (cs: CaseStudyWithSubmission) => void;
+  onRequestExtension: (cs: CaseStudyWithSubmission) => void;
+  onRateContributions: (cs: CaseStudyWithSubmission) => void;
 }
 
 export function CaseStudyCard({
@@ -38,18 +42,25 @@ export function CaseStudyCard({
   onViewProblem,
   onViewFeedback,
   onViewLeaderboard,
+  onRequestExtension,
+  onRateContributions,
 }: CaseStudyCardProps) {
   const status = cs.submission?.student_status ?? 'not_submitted';
   const statusConfig = STATUS_CONFIG[status];
   const StatusIcon = statusConfig.icon;
   const canEdit = canUpload(
-    cs.submission ? { deadline_override: cs.submission.deadline_override, visibility: cs.submission.visibility } : null,
+    {
+      deadline_override: cs.submission?.deadline_override ?? null,
+      student_deadline_override: cs.student_deadline_override,
+      visibility: cs.submission?.visibility ?? 'draft',
+    },
     cs
   );
   const deadline = getEffectiveDeadline(
-    cs.submission ? { deadline_override: cs.submission.deadline_override } : null,
+    { deadline_override: cs.submission?.deadline_override ?? null, student_deadline_override: cs.student_deadline_override },
     cs
   );
+  const pendingExtension = cs.extension_request?.status === 'pending';
 
   return (
     <div className="rounded-xl border bg-card overflow-hidden hover:border-primary/20 transition-colors">
@@ -120,6 +131,7 @@ export function CaseStudyCard({
                 deadline={cs.due_date}
                 graceMinutes={cs.grace_period_minutes}
                 deadlineOverride={cs.submission?.deadline_override}
+                studentDeadlineOverride={cs.student_deadline_override}
               />
             )}
             {deadline && (
@@ -164,6 +176,35 @@ export function CaseStudyCard({
             </Button>
           )}
 
+          {pendingExtension ? (
+            <Badge variant="outline" className="h-8 text-xs text-amber-600 border-amber-300 dark:text-amber-400 dark:border-amber-700">
+              <Hourglass className="w-3.5 h-3.5 mr-1" />
+              Extension requested
+            </Badge>
+          ) : canEdit && deadline && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onRequestExtension(cs)}
+              className="h-8 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <Hourglass className="w-3.5 h-3.5 mr-1" />
+              Request Extension
+            </Button>
+          )}
+
+          {cs.contribution_survey_enabled && cs.submission?.submitted_at && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onRateContributions(cs)}
+              className="h-8 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <Users className="w-3.5 h-3.5 mr-1" />
+              Rate Teammates
+            </Button>
+          )}
+
           {cs.leaderboard_published && (
             <Button
               size="sm"
@@ -0,0 +1,161 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { Loader2, Star } from 'lucide-react';
+import type { CaseStudyWithSubmission } from './submission-panel';
+
+interface ContributionSurveyDialogProps {
+  caseStudy: CaseStudyWithSubmission | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface SurveyMember {
+  id: string;
+  full_name: string | null;
+}
+
+interface Answer {
+  rating: number;
+  comment: string;
+}
+
+const RATING_LABELS = ['', 'Very little', 'Less than others', 'Fair share', 'More than others', 'Carried the work'];
+
+export function ContributionSurveyDialog({ caseStudy, open, onOpenChange }: ContributionSurveyDialogProps) {
+  const submissionId = caseStudy?.submission?.id ?? null;
+  const [members, setMembers] = useState<SurveyMember[]>([]);
+  const [answers, setAnswers] = useState<Record<string, Answer>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSurvey = useCallback(async () => {
+    if (!submissionId) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/case-studies/submissions/${submissionId}/contributions`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setMembers(data.survey.members);
+      setAnswers(Object.fromEntries(
+        (data.survey.ratings as { ratee_id: string; rating: number; comment: string | null }[])
+          .map(r => [r.ratee_id, { rating: r.rating, comment: r.comment ?? '' }])
+      ));
+    } catch {
+      toast.error('Failed to load survey');
+    } finally {
+      setLoading(false);
+    }
+  }, [submissionId]);
+
+  useEffect(() => {
+    if (open) fetchSurvey();
+  }, [open, fetchSurvey]);
+
+  const setAnswer = (memberId: string, patch: Partial<Answer>) => {
+    setAnswers(prev => ({ ...prev, [memberId]: { ...(prev[memberId] ?? { rating: 0, comment: '' }), ...patch } }));
+  };
+
+  const complete = members.length > 0 && members.every(m => (answers[m.id]?.rating ?? 0) > 0);
+
+  const handleSubmit = async () => {
+    if (!submissionId || !complete) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/case-studies/submissions/${submissionId}/contributions`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ratings: members.map(m => ({
+            ratee_id: m.id,
+            rating: answers[m.id].rating,
+            comment: answers[m.id].comment.trim() || undefined,
+          })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save ratings');
+      toast.success('Thanks — your ratings are saved');
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save ratings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Rate Contributions</DialogTitle>
+          <DialogDescription>
+            {caseStudy?.title}. How much did each teammate contribute? Ratings are private and help mentors grade individually.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : members.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No teammates to rate</p>
+        ) : (
+          <div className="space-y-4">
+            {members.map(m => {
+              const answer = answers[m.id];
+              const rating = answer?.rating ?? 0;
+              return (
+                <div key={m.id} className="space-y-1.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium truncate">{m.full_name ?? 'Teammate'}</span>
+                    <div className="flex items-center gap-0.5">
+                      {[1, 2, 3, 4, 5].map(value => (
+                        <button
+                          key={value}
+                          type="button"
+                          aria-label={`${value} — ${RATING_LABELS[value]}`}
+                          title={RATING_LABELS[value]}
+                          onClick={() => setAnswer(m.id, { rating: value })}
+                          className="p-0.5"
+                        >
+                          <Star className={`w-5 h-5 ${value <= rating ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground/40'}`} />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {rating > 0 && <p className="text-[11px] text-muted-foreground text-right">{RATING_LABELS[rating]}</p>}
+                  <Input
+                    placeholder="Comment (optional)"
+                    value={answer?.comment ?? ''}
+                    onChange={e => setAnswer(m.id, { comment: e.target.value })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving || !complete}>
+            {saving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            Save Ratings
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
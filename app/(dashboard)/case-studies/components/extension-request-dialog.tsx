@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import type { CaseStudyWithSubmission } from './submission-panel';
+
+interface ExtensionRequestDialogProps {
+  caseStudy: CaseStudyWithSubmission | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRequested: () => void;
+}
+
+export function ExtensionRequestDialog({ caseStudy, open, onOpenChange, onRequested }: ExtensionRequestDialogProps) {
+  const [dueDate, setDueDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [personal, setPersonal] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setDueDate('');
+      setReason('');
+      setPersonal(false);
+    }
+    onOpenChange(next);
+  };
+
+  const handleSubmit = async () => {
+    if (!caseStudy || !dueDate || !reason.trim()) return;
+    setSaving(true);
+    try {
+      const res = await fetch('/api/case-studies/extension-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          case_study_id: caseStudy.id,
+          requested_due_date: new Date(dueDate).toISOString(),
+          reason: reason.trim(),
+          personal,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to request extension');
+      toast.success('Extension requested');
+      handleOpenChange(false);
+      onRequested();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to request extension');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Request Extension</DialogTitle>
+          <DialogDescription>
+            {caseStudy?.title}. An admin will review your request; the deadline only changes once it is approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="extension-date" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+              New deadline
+            </Label>
+            <Input
+              id="extension-date"
+              type="datetime-local"
+              value={dueDate}
+              onChange={e => setDueDate(e.target.value)}
+              className="mt-1.5"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="extension-reason" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+              Reason
+            </Label>
+            <Textarea
+              id="extension-reason"
+              placeholder="Why do you need more time?"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              className="mt-1.5 min-h-[100px]"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="extension-personal" checked={personal} onCheckedChange={setPersonal} />
+            <Label htmlFor="extension-personal" className="text-sm">
+              Just for me (not my whole subgroup)
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving || !dueDate || !reason.trim()}>
+            {saving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            Send Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
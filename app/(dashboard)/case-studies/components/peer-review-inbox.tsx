@@ -0,0 +1,269 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { toast } from 'sonner';
+import { CheckCircle2, Clock, ExternalLink, FileText, Loader2, MessageSquareText } from 'lucide-react';
+import {
+  RubricGrader,
+  isRubricComplete,
+  picksFromScores,
+  picksToPayload,
+  type RubricPicks,
+} from '@/components/case-studies/rubric-grader';
+import type { PeerAttachment, PeerInboxItem } from '@/lib/services/peer-review';
+import type { RubricCriteria } from '@/types';
+
+interface PeerReviewInboxProps {
+  cohortId: string;
+}
+
+export function PeerReviewInbox({ cohortId }: PeerReviewInboxProps) {
+  const [assignments, setAssignments] = useState<PeerInboxItem[]>([]);
+  const [rubrics, setRubrics] = useState<Record<string, RubricCriteria[]>>({});
+
+  // Review sheet
+  const [selected, setSelected] = useState<PeerInboxItem | null>(null);
+  const [attachments, setAttachments] = useState<PeerAttachment[]>([]);
+  const [loadingAttachments, setLoadingAttachments] = useState(false);
+  const [picks, setPicks] = useState<RubricPicks>({});
+  const [score, setScore] = useState('');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchInbox = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/case-studies/peer-reviews?cohort_id=${cohortId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setAssignments(data.assignments || []);
+      setRubrics(data.rubrics || {});
+    } catch {
+      toast.error('Failed to load peer reviews');
+    }
+  }, [cohortId]);
+
+  useEffect(() => {
+    fetchInbox();
+  }, [fetchInbox]);
+
+  const openReview = async (item: PeerInboxItem) => {
+    setSelected(item);
+    setPicks(picksFromScores(item.rubric_scores));
+    setScore(item.score?.toString() ?? '');
+    setComment(item.comment ?? '');
+    setAttachments([]);
+    setLoadingAttachments(true);
+    try {
+      const res = await fetch(`/api/case-studies/peer-reviews/${item.id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setAttachments(data.attachments || []);
+    } catch {
+      toast.error('Failed to load submission');
+    } finally {
+      setLoadingAttachments(false);
+    }
+  };
+
+  const criteria = selected ? rubrics[selected.case_study.id] ?? [] : [];
+  const hasRubric = criteria.length > 0;
+
+  const handleSubmit = async () => {
+    if (!selected) return;
+
+    const grading: Record<string, unknown> = {};
+    if (hasRubric) {
+      if (!isRubricComplete(criteria, picks)) {
+        toast.error('Pick a level for every rubric criterion');
+        return;
+      }
+      grading.rubric_scores = picksToPayload(picks);
+    } else {
+      const scoreNum = parseInt(score);
+      if (isNaN(scoreNum) || scoreNum < 0 || scoreNum > selected.case_study.max_score) {
+        toast.error(`Score must be between 0 and ${selected.case_study.max_score}`);
+        return;
+      }
+      grading.score = scoreNum;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/case-studies/peer-reviews/${selected.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...grading, comment: comment || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to submit peer review');
+      toast.success('Peer review submitted');
+      setSelected(null);
+      fetchInbox();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to submit peer review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (assignments.length === 0) return null;
+
+  const pendingCount = assignments.filter(a => a.status === 'pending').length;
+
+  return (
+    <>
+      <section className="rounded-xl border bg-card p-5 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h2 className="text-base font-semibold tracking-tight flex items-center gap-2">
+              <MessageSquareText className="w-4 h-4 text-muted-foreground" />
+              Peer Reviews
+            </h2>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              Review other subgroups&apos; work anonymously. Your subgroup&apos;s name is never shown to them.
+            </p>
+          </div>
+          {pendingCount > 0 && (
+            <Badge variant="outline" className="text-amber-600 border-amber-300 dark:text-amber-400 dark:border-amber-700">
+              {pendingCount} to do
+            </Badge>
+          )}
+        </div>
+
+        <div className="divide-y rounded-lg border">
+          {assignments.map(item => (
+            <div key={item.id} className="flex items-center justify-between gap-3 px-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{item.case_study.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  Week {item.case_study.week_number} · {item.label}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {item.status === 'submitted' ? (
+                  <span className="flex items-center gap-1 text-xs text-emerald-600 dark:text-emerald-400">
+                    <CheckCircle2 className="w-3.5 h-3.5" />
+                    {item.score}/{item.case_study.max_score}
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Clock className="w-3.5 h-3.5" />
+                    Pending
+                  </span>
+                )}
+                <Button
+                  size="sm"
+                  variant={item.status === 'pending' ? 'default' : 'ghost'}
+                  className="h-8 text-xs"
+                  onClick={() => openReview(item)}
+                >
+                  {item.status === 'pending' ? 'Review' : 'Edit'}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <Sheet open={!!selected} onOpenChange={v => !v && setSelected(null)}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>{selected?.label} — {selected?.case_study.title}</SheetTitle>
+          </SheetHeader>
+
+          {selected && (
+            <div className="px-4 pb-6 space-y-5">
+              <div className="rounded-lg border bg-card p-4 space-y-3">
+                <Label className="text-sm font-semibold">Submission</Label>
+                {loadingAttachments ? (
+                  <div className="flex items-center justify-center py-4">
+                    <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : attachments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-2">No attachments found</p>
+                ) : (
+                  <div className="space-y-1.5">
+                    {attachments.map(att => (
+                      <a
+                        key={att.id}
+                        href={att.url ?? undefined}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-3 px-3 py-2.5 rounded-lg border bg-muted/30 hover:bg-accent/50 transition-colors"
+                      >
+                        {att.type === 'file' ? (
+                          <FileText className="w-4 h-4 text-blue-500 shrink-0" />
+                        ) : (
+                          <ExternalLink className="w-4 h-4 text-purple-500 shrink-0" />
+                        )}
+                        <span className="text-sm font-medium truncate">
+                          {att.type === 'file' ? att.file_name : att.link_label || att.link_url}
+                        </span>
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="rounded-lg border bg-card p-4 space-y-4">
+                {hasRubric ? (
+                  <RubricGrader
+                    criteria={criteria}
+                    maxScore={selected.case_study.max_score}
+                    value={picks}
+                    onChange={setPicks}
+                    disabled={saving}
+                  />
+                ) : (
+                  <div>
+                    <Label htmlFor="peer-score" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                      Score (out of {selected.case_study.max_score})
+                    </Label>
+                    <Input
+                      id="peer-score"
+                      type="number"
+                      min={0}
+                      max={selected.case_study.max_score}
+                      value={score}
+                      onChange={e => setScore(e.target.value)}
+                      className="mt-1.5 h-10"
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="peer-comment" className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                    Feedback
+                  </Label>
+                  <Textarea
+                    id="peer-comment"
+                    placeholder="What worked, what could be stronger..."
+                    value={comment}
+                    onChange={e => setComment(e.target.value)}
+                    className="mt-1.5 min-h-[120px]"
+                  />
+                </div>
+              </div>
+
+              <Button onClick={handleSubmit} disabled={saving} className="w-full h-11 font-semibold">
+                {saving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+                {selected.status === 'submitted' ? 'Update Peer Review' : 'Submit Peer Review'}
+              </Button>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
@@ -29,8 +29,11 @@ import {
   X,
   ExternalLink,
   Plus,
+  History,
 } from 'lucide-react';
-import type { CaseStudy, SubmissionAttachment, SubmissionVisibility, StudentSubmissionStatus } from '@/types';
+import { SubmissionVersionHistory } from '@/components/case-studies/submission-version-history';
+import type { SubmissionVersionWithChanges } from '@/lib/services/submission-versions';
+import type { CaseStudy, CaseStudyExtensionRequest, SubmissionAttachment, SubmissionVisibility, StudentSubmissionStatus } from '@/types';
 
 export interface CaseStudyWithSubmission extends CaseStudy {
   submission: {
@@ -44,6 +47,20 @@ export interface CaseStudyWithSubmission extends CaseStudy {
     attachment_count: number;
     link_count: number;
   } | null;
+  /** The student's personal deadline extension, if granted */
+  student_deadline_override: string | null;
+  /** Latest extension request covering this student */
+  extension_request: CaseStudyExtensionRequest | null;
+}
+
+/** SHA-256 hex digest of a file, or null where Web Crypto is unavailable (non-HTTPS). */
+async function hashFile(file: File): Promise<string | null> {
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  } catch {
+    return null;
+  }
 }
 
 interface SubmissionPanelProps {
@@ -77,6 +94,9 @@ export function SubmissionPanel({
   const [confirmSubmitOpen, setConfirmSubmitOpen] = useState(false);
   const [submitting, setSubmitting] = useState(false);
 
+  // Version history
+  const [versions, setVersions] = useState<SubmissionVersionWithChanges[]>([]);
+
   // Drag state
   const [isDragging, setIsDragging] = useState(false);
 
@@ -98,10 +118,23 @@ export function SubmissionPanel({
     }
   }, []);
 
+  const loadVersions = useCallback(async (submissionId: string) => {
+    try {
+      const res = await fetch(`/api/case-studies/submissions/${submissionId}/versions`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setVersions(data.versions || []);
+    } catch {
+      // Non-critical — the history section just stays hidden
+      setVersions([]);
+    }
+  }, []);
+
   // Reset state when panel opens/closes
   const handleOpenChange = (newOpen: boolean) => {
     if (!newOpen) {
       setAttachments([]);
+      setVersions([]);
       setLinkUrl('');
       setLinkLabel('');
       setRetryAttempt(0);
@@ -114,8 +147,9 @@ export function SubmissionPanel({
   const onSheetOpened = useCallback(() => {
     if (caseStudy?.submission?.id) {
       loadAttachments(caseStudy.submission.id);
+      loadVersions(caseStudy.submission.id);
     }
-  }, [caseStudy?.submission?.id, loadAttachments]);
+  }, [caseStudy?.submission?.id, loadAttachments, loadVersions]);
 
   // Upload a single file (reused by click and drag-drop)
   const uploadFile = async (file: File) => {
@@ -197,6 +231,7 @@ export function SubmissionPanel({
         }
       };
       await uploadWithRetry(urlData.uploadUrl);
+      const fileHash = await hashFile(file);
 
       // Save attachment metadata
       const attRes = await fetch('/api/case-studies/submissions/attachments', {
@@ -209,6 +244,7 @@ export function SubmissionPanel({
           file_name: file.name,
           file_size: file.size,
           file_type: file.type,
+          file_hash: fileHash,
         }),
       });
       const attData = await attRes.json();
@@ -512,6 +548,17 @@ export function SubmissionPanel({
               </div>
             )}
 
+            {/* Version history */}
+            {versions.length > 0 && (
+              <div className="rounded-lg border bg-card p-4 space-y-3">
+                <Label className="text-sm font-semibold flex items-center gap-1.5">
+                  <History className="w-4 h-4 text-muted-foreground" />
+                  Submission History
+                </Label>
+                <SubmissionVersionHistory versions={versions} />
+              </div>
+            )}
+
             {/* Submit */}
             <div className="pt-2 space-y-2">
               <Button
@@ -9,10 +9,13 @@ import { Leaderboard } from '@/components/case-studies/leaderboard';
 import { toast } from 'sonner';
 import { AlertTriangle, FileText, Loader2, Mail, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import type { CaseStudyReview } from '@/types';
+import type { CaseStudyAnnotation, CaseStudyReview } from '@/types';
 import { SubmissionPanel } from './components/submission-panel';
 import type { CaseStudyWithSubmission } from './components/submission-panel';
 import { CaseStudyCard } from './components/case-study-card';
+import { PeerReviewInbox } from './components/peer-review-inbox';
+import { ExtensionRequestDialog } from './components/extension-request-dialog';
+import { ContributionSurveyDialog } from './components/contribution-survey-dialog';
 
 export default function CaseStudiesPage() {
   const { activeCohortId } = useUserContext();
@@ -31,11 +34,16 @@ export default function CaseStudiesPage() {
   const [viewerCs, setViewerCs] = useState<CaseStudyWithSubmission | null>(null);
   const [viewerTab, setViewerTab] = useState<'problem' | 'submission' | 'feedback'>('problem');
   const [reviews, setReviews] = useState<CaseStudyReview[]>([]);
+  const [annotations, setAnnotations] = useState<CaseStudyAnnotation[]>([]);
 
   // Leaderboard
   const [leaderboardOpen, setLeaderboardOpen] = useState(false);
   const [leaderboardCs, setLeaderboardCs] = useState<CaseStudyWithSubmission | null>(null);
 
+  // Extension request
+  const [extensionCs, setExtensionCs] = useState<CaseStudyWithSubmission | null>(null);
+  const [surveyCs, setSurveyCs] = useState<CaseStudyWithSubmission | null>(null);
+
   const fetchData = useCallback(async (signal?: AbortSignal) => {
     if (!activeCohortId) return;
     setLoading(true);
@@ -76,22 +84,35 @@ export default function CaseStudiesPage() {
     setSubmissionSheetOpen(true);
   };
 
+  // Published reviews plus reviewers' PDF annotations
+  const fetchFeedback = async (submissionId: string) => {
+    const [reviewsRes, annotationsRes] = await Promise.all([
+      fetch(`/api/case-studies/submissions/${submissionId}/reviews`),
+      fetch(`/api/case-studies/submissions/${submissionId}/annotations`),
+    ]);
+    const reviewsData = await reviewsRes.json();
+    const annotationsData = annotationsRes.ok ? await annotationsRes.json() : {};
+    return {
+      reviews: (reviewsData.reviews || []) as CaseStudyReview[],
+      annotations: (annotationsData.annotations || []) as CaseStudyAnnotation[],
+    };
+  };
+
   // View problem (G2: also fetch reviews if feedback available, so viewer shows all tabs)
   const handleViewProblem = async (cs: CaseStudyWithSubmission) => {
-    let fetchedReviews: CaseStudyReview[] = [];
+    let feedback: { reviews: CaseStudyReview[]; annotations: CaseStudyAnnotation[] } = { reviews: [], annotations: [] };
 
     // If feedback is available, pre-fetch reviews so all tabs are populated
     if (cs.submission?.student_status === 'feedback_available' && cs.submission?.id) {
       try {
-        const res = await fetch(`/api/case-studies/submissions/${cs.submission.id}/reviews`);
-        const data = await res.json();
-        fetchedReviews = data.reviews || [];
+        feedback = await fetchFeedback(cs.submission.id);
       } catch {
         // Non-critical — problem tab still works
       }
     }
 
-    setReviews(fetchedReviews);
+    setReviews(feedback.reviews);
+    setAnnotations(feedback.annotations);
     setViewerCs(cs);
     setViewerTab('problem');
     setViewerOpen(true);
@@ -101,9 +122,9 @@ export default function CaseStudiesPage() {
   const handleViewFeedback = async (cs: CaseStudyWithSubmission) => {
     if (!cs.submission?.id) return;
     try {
-      const res = await fetch(`/api/case-studies/submissions/${cs.submission.id}/reviews`);
-      const data = await res.json();
-      setReviews(data.reviews || []);
+      const feedback = await fetchFeedback(cs.submission.id);
+      setReviews(feedback.reviews);
+      setAnnotations(feedback.annotations);
       setViewerCs(cs);
       setViewerTab('feedback');
       setViewerOpen(true);
@@ -169,6 +190,8 @@ export default function CaseStudiesPage() {
         description={subgroup ? `Submitting as ${subgroup.name}` : undefined}
       />
 
+      {activeCohortId && subgroup && <PeerReviewInbox cohortId={activeCohortId} />}
+
       {loading ? (
         <div className="flex items-center justify-center py-20">
           <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
@@ -196,6 +219,8 @@ export default function CaseStudiesPage() {
                     onViewProblem={handleViewProblem}
                     onViewFeedback={handleViewFeedback}
                     onViewLeaderboard={(cs) => { setLeaderboardCs(cs); setLeaderboardOpen(true); }}
+                    onRequestExtension={setExtensionCs}
+                    onRateContributions={setSurveyCs}
                   />
                 ))}
               </div>
@@ -213,6 +238,21 @@ export default function CaseStudiesPage() {
         onSubmissionChange={fetchData}
       />
 
+      {/* Extension Request */}
+      <ExtensionRequestDialog
+        caseStudy={extensionCs}
+        open={!!extensionCs}
+        onOpenChange={open => !open && setExtensionCs(null)}
+        onRequested={fetchData}
+      />
+
+      {/* Contribution Survey */}
+      <ContributionSurveyDialog
+        caseStudy={surveyCs}
+        open={!!surveyCs}
+        onOpenChange={open => !open && setSurveyCs(null)}
+      />
+
       {/* Viewer Modal */}
       {viewerCs && (
         <CaseStudyViewerModal
@@ -222,6 +262,8 @@ export default function CaseStudiesPage() {
           caseStudyId={viewerCs.id}
           problemFilePath={viewerCs.problem_file_path}
           reviews={reviews}
+          submissionId={viewerCs.submission?.id}
+          annotations={annotations}
           maxScore={viewerCs.max_score}
           defaultTab={viewerTab}
         />
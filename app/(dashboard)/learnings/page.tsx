@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useMemo } from 'react';
+import { useCallback, useEffect, useState, useMemo } from 'react';
 import { useUserContext } from '@/contexts/user-context';
 import { getClient } from '@/lib/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -36,13 +36,16 @@ import {
   Download,
   Youtube,
   RefreshCw,
+  ListChecks,
+  Target,
 } from 'lucide-react';
 import { PageHeader } from '@/components/ui/page-header';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { MotionFadeIn } from '@/components/ui/motion';
 import { isYouTubeUrl, getYouTubeEmbedUrl, getYouTubeWatchUrl } from '@/lib/utils/youtube-url';
-import type { LearningModule, ModuleResource, ModuleResourceType, CaseStudy, CaseStudySolution, ResourceProgress, ResourceFavorite } from '@/types';
+import { QuizPlayerDialog } from '@/components/learnings';
+import type { LearningModule, ModuleResource, ModuleResourceType, CaseStudy, CaseStudySolution, ResourceProgress, ResourceFavorite, QuizSummary } from '@/types';
 
 interface ModuleWithResources extends LearningModule {
   resources: ModuleResource[];
@@ -54,6 +57,7 @@ interface WeekContent {
   recordings: ModuleResource[];
   presentations: ModuleResource[];
   notes: ModuleResource[];
+  quizzes: ModuleResource[];
   caseStudies: CaseStudy[];
 }
 
@@ -75,6 +79,7 @@ function getContentIcon(type: ModuleResourceType, className?: string) {
     case 'video': return <Video className={iconClass} />;
     case 'slides': return <Presentation className={iconClass} />;
     case 'document': return <FileText className={iconClass} />;
+    case 'quiz': return <ListChecks className={iconClass} />;
     default: return <Link2 className={iconClass} />;
   }
 }
@@ -86,6 +91,7 @@ function getContentTypeLabel(type: ModuleResourceType): string {
     case 'slides': return 'Presentation';
     case 'document': return 'Document';
     case 'link': return 'Link';
+    case 'quiz': return 'Quiz';
     default: return 'Resource';
   }
 }
@@ -99,6 +105,8 @@ function getContentGradient(type: ModuleResourceType): { from: string; to: strin
       return { from: 'from-orange-500', to: 'to-orange-600', bg: 'bg-orange-500/10' };
     case 'document':
       return { from: 'from-blue-500', to: 'to-blue-600', bg: 'bg-blue-500/10' };
+    case 'quiz':
+      return { from: 'from-violet-500', to: 'to-violet-600', bg: 'bg-violet-500/10' };
     default:
       return { from: 'from-gray-500', to: 'to-gray-600', bg: 'bg-gray-500/10' };
   }
@@ -194,6 +202,11 @@ export default function LearningsPage() {
   const [iframeError, setIframeError] = useState(false);
   const [weekProgress, setWeekProgress] = useState<Record<number, { completed: number; total: number }>>({});
 
+  // Quizzes: the student's standing on each, and mastery per module
+  const [quizSummaries, setQuizSummaries] = useState<Record<string, QuizSummary>>({});
+  const [moduleMastery, setModuleMastery] = useState<Record<string, number>>({});
+  const [activeQuizId, setActiveQuizId] = useState<string | null>(null);
+
   // Global search state
   const [isSearching, setIsSearching] = useState(false);
   const [activeFilter, setActiveFilter] = useState<'all' | 'video' | 'slides' | 'document' | 'case_study'>('all');
@@ -408,6 +421,7 @@ export default function LearningsPage() {
         recordings: [],
         presentations: [],
         notes: [],
+        quizzes: [],
         caseStudies: [],
       };
     }
@@ -424,6 +438,9 @@ export default function LearningsPage() {
         case 'document':
           weekContent[week].notes.push(resource);
           break;
+        case 'quiz':
+          weekContent[week].quizzes.push(resource);
+          break;
       }
     });
   });
@@ -438,6 +455,7 @@ export default function LearningsPage() {
         recordings: [],
         presentations: [],
         notes: [],
+        quizzes: [],
         caseStudies: [],
       };
     }
@@ -786,7 +804,7 @@ export default function LearningsPage() {
     return modules
       .filter(m => m.week_number === currentWeek)
       .flatMap(m => m.resources)
-      .filter(r => r.id !== selectedResource.id);
+      .filter(r => r.id !== selectedResource.id && r.content_type !== 'quiz');
   }, [selectedResource, modules]);
 
   // Fetch tracking data on mount and when cohort changes
@@ -796,6 +814,34 @@ export default function LearningsPage() {
     }
   }, [userLoading, profile, activeCohortId]);
 
+  const fetchQuizSummaries = useCallback(async () => {
+    const moduleIds = modules.filter(m => m.resources.some(r => r.content_type === 'quiz')).map(m => m.id);
+    if (moduleIds.length === 0) return;
+    try {
+      const res = await fetch(`/api/learnings/quizzes?module_ids=${moduleIds.join(',')}`);
+      if (!res.ok) return;
+      const data: { quizzes: QuizSummary[]; mastery: Record<string, number> } = await res.json();
+      setQuizSummaries(Object.fromEntries(data.quizzes.map(q => [q.resource_id, q])));
+      setModuleMastery(data.mastery);
+    } catch (error) {
+      console.error('Error fetching quizzes:', error);
+    }
+  }, [modules]);
+
+  useEffect(() => {
+    if (modules.length > 0) {
+      fetchQuizSummaries();
+    }
+  }, [modules, fetchQuizSummaries]);
+
+  // Passing a quiz completes it server-side; mirror that locally
+  const handleQuizSubmitted = (quiz: QuizSummary) => {
+    fetchQuizSummaries();
+    if (quiz.passed && !completedResources.has(quiz.resource_id)) {
+      setCompletedResources(prev => new Set(prev).add(quiz.resource_id));
+    }
+  };
+
   // Recalculate week progress when modules or completed resources change
   useEffect(() => {
     if (modules.length > 0) {
@@ -889,7 +935,9 @@ export default function LearningsPage() {
   }, [selectedResource]);
 
   const handleResourceClick = async (resource: ModuleResource) => {
-    if (resource.content_type === 'link' && resource.external_url) {
+    if (resource.content_type === 'quiz') {
+      setActiveQuizId(resource.id);
+    } else if (resource.content_type === 'link' && resource.external_url) {
       window.open(resource.external_url, '_blank');
     } else {
       setSelectedResource(resource);
@@ -1260,6 +1308,88 @@ export default function LearningsPage() {
     );
   };
 
+  // Quizzes section: best score and attempts left per quiz
+  const QuizzesSection = ({ quizzes }: { quizzes: ModuleResource[] }) => {
+    const filtered = filterResources(quizzes);
+    if (quizzes.length === 0 && !searchQuery) return null;
+
+    return (
+      <div className="space-y-4">
+        {/* Section header */}
+        <div className="flex items-center gap-4 px-4">
+          <div className="w-11 h-11 rounded-xl bg-gradient-to-br from-violet-500 to-violet-600 flex items-center justify-center shadow-lg shadow-violet-500/20">
+            <ListChecks className="w-6 h-6 text-white" />
+          </div>
+          <h3 className="font-bold text-gray-900 dark:text-white text-xl">Quizzes</h3>
+          <Badge variant="secondary" className="ml-auto bg-violet-500/10 border border-violet-500/20 text-violet-400">
+            {filtered.length} {filtered.length === 1 ? 'quiz' : 'quizzes'}
+          </Badge>
+        </div>
+
+        {filtered.length === 0 ? (
+          <div className="rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-700 py-8">
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center">No quizzes found</p>
+          </div>
+        ) : (
+          <div className="grid gap-3">
+            {filtered.map((resource) => {
+              const summary = quizSummaries[resource.id];
+              const passed = summary?.passed || completedResources.has(resource.id);
+
+              return (
+                <button
+                  key={resource.id}
+                  onClick={() => handleResourceClick(resource)}
+                  className={cn(
+                    "relative w-full flex items-center gap-4 p-4 rounded-xl text-left transition-all duration-300 group",
+                    "border-2 bg-white dark:bg-gray-900/80 backdrop-blur-sm hover:shadow-lg hover:-translate-y-0.5 hover:shadow-violet-500/10",
+                    passed
+                      ? "border-green-500/30 bg-green-50/50 dark:bg-green-900/10"
+                      : "border-violet-500/20 hover:border-violet-500/40"
+                  )}
+                >
+                  <div className="w-11 h-11 rounded-xl bg-gradient-to-br from-violet-500 to-violet-600 flex items-center justify-center flex-shrink-0 shadow-lg shadow-violet-500/25 group-hover:scale-110 transition-transform duration-300">
+                    <ListChecks className="w-5 h-5 text-white" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <p className="font-semibold text-gray-900 dark:text-white truncate group-hover:text-violet-500 dark:group-hover:text-violet-400 transition-colors">
+                        {resource.title}
+                      </p>
+                      {passed && (
+                        <div className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-500/10 border border-green-500/20">
+                          <CheckCircle2 className="w-3 h-3 text-green-500" />
+                          <span className="text-xs font-medium text-green-500">Passed</span>
+                        </div>
+                      )}
+                    </div>
+                    {summary && (
+                      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-500 dark:text-gray-400">
+                        <span>{summary.question_count} question{summary.question_count !== 1 ? 's' : ''}</span>
+                        {summary.time_limit_minutes && (
+                          <span className="flex items-center gap-1">
+                            <Clock className="w-3.5 h-3.5" />
+                            {summary.time_limit_minutes} min
+                          </span>
+                        )}
+                        {summary.best_percent !== null && <span>Best {summary.best_percent}%</span>}
+                        {summary.attempts_remaining !== null && (
+                          <span>{summary.attempts_remaining} attempt{summary.attempts_remaining !== 1 ? 's' : ''} left</span>
+                        )}
+                        {summary.open_attempt_id && <span className="text-violet-500">In progress</span>}
+                      </div>
+                    )}
+                  </div>
+                  <ChevronRight className="w-5 h-5 text-gray-400 group-hover:text-violet-500 transition-colors" />
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -1722,6 +1852,7 @@ export default function LearningsPage() {
               const content = weekContent[week];
               const progress = weekProgress[week];
               const progressPercent = progress ? Math.round((progress.completed / progress.total) * 100) : 0;
+              const masteryModules = content.modules.filter(m => moduleMastery[m.id] !== undefined);
 
               return (
                 <TabsContent key={week} value={week.toString()} className="space-y-6 mt-6">
@@ -1737,25 +1868,39 @@ export default function LearningsPage() {
                         </p>
                       )}
                     </div>
-                    {progress && progress.total > 0 && (
-                      <div className="flex items-center gap-4 px-4 py-3 rounded-xl bg-white dark:bg-gray-900/80 border-2 border-teal-500/20 shadow-sm min-w-[200px]">
-                        <div className="flex-1 space-y-2">
-                          <div className="flex items-center justify-between text-xs">
-                            <span className="text-gray-500 dark:text-gray-400 font-medium">Progress</span>
-                            <span className="font-bold text-teal-600 dark:text-teal-400">{progressPercent}%</span>
+                    <div className="flex flex-wrap items-stretch gap-3">
+                      {progress && progress.total > 0 && (
+                        <div className="flex items-center gap-4 px-4 py-3 rounded-xl bg-white dark:bg-gray-900/80 border-2 border-teal-500/20 shadow-sm min-w-[200px]">
+                          <div className="flex-1 space-y-2">
+                            <div className="flex items-center justify-between text-xs">
+                              <span className="text-gray-500 dark:text-gray-400 font-medium">Progress</span>
+                              <span className="font-bold text-teal-600 dark:text-teal-400">{progressPercent}%</span>
+                            </div>
+                            <div className="w-full h-2 bg-gray-200 dark:bg-gray-800 rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-gradient-to-r from-teal-500 to-teal-400 rounded-full transition-all duration-500"
+                                style={{ width: `${progressPercent}%` }}
+                              />
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {progress.completed} of {progress.total} completed
+                            </p>
                           </div>
-                          <div className="w-full h-2 bg-gray-200 dark:bg-gray-800 rounded-full overflow-hidden">
-                            <div
-                              className="h-full bg-gradient-to-r from-teal-500 to-teal-400 rounded-full transition-all duration-500"
-                              style={{ width: `${progressPercent}%` }}
-                            />
+                        </div>
+                      )}
+                      {/* Quiz mastery: mean best score across each module's quizzes */}
+                      {masteryModules.map(m => (
+                        <div key={m.id} className="flex items-center gap-3 px-4 py-3 rounded-xl bg-white dark:bg-gray-900/80 border-2 border-violet-500/20 shadow-sm">
+                          <Target className="w-5 h-5 text-violet-500" />
+                          <div className="text-xs">
+                            <p className="text-gray-500 dark:text-gray-400 font-medium">
+                              {content.modules.length > 1 ? `Mastery · ${m.title}` : 'Quiz mastery'}
+                            </p>
+                            <p className="text-lg font-bold text-violet-600 dark:text-violet-400">{moduleMastery[m.id]}%</p>
                           </div>
-                          <p className="text-xs text-gray-500 dark:text-gray-400">
-                            {progress.completed} of {progress.total} completed
-                          </p>
                         </div>
-                      </div>
-                    )}
+                      ))}
+                    </div>
                   </div>
 
                   {/* Content Sections */}
@@ -1790,6 +1935,8 @@ export default function LearningsPage() {
                       gradientTo="to-blue-600"
                     />
 
+                    <QuizzesSection quizzes={content.quizzes} />
+
                     <CaseStudiesSection studies={content.caseStudies} />
                   </div>
 
@@ -1797,6 +1944,7 @@ export default function LearningsPage() {
                   {content.recordings.length === 0 &&
                    content.presentations.length === 0 &&
                    content.notes.length === 0 &&
+                   content.quizzes.length === 0 &&
                    content.caseStudies.length === 0 && (
                     <div className="flex flex-col items-center justify-center py-16 rounded-2xl border-2 border-dashed border-gray-300 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-900/30">
                       <div className="w-14 h-14 rounded-xl bg-gradient-to-br from-gray-400 to-gray-500 flex items-center justify-center mb-4 shadow-lg shadow-gray-500/20">
@@ -2184,6 +2332,13 @@ export default function LearningsPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Quiz Player */}
+      <QuizPlayerDialog
+        resourceId={activeQuizId}
+        onOpenChange={(open) => !open && setActiveQuizId(null)}
+        onSubmitted={handleQuizSubmitted}
+      />
+
       {/* Case Study Viewer Modal */}
       {selectedCaseStudy && (
         <Dialog open={!!selectedCaseStudy} onOpenChange={() => setSelectedCaseStudy(null)}>
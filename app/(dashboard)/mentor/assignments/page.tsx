@@ -0,0 +1,116 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useUserContext } from '@/contexts/user-context';
+import { PageHeader } from '@/components/ui/page-header';
+import { EmptyState } from '@/components/ui/empty-state';
+import { CountdownTimer } from '@/components/case-studies/countdown-timer';
+import { AssignmentGradingDialog } from '@/components/assignments/assignment-grading-dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { AlertTriangle, Loader2, NotebookPen, RefreshCw } from 'lucide-react';
+import type { Assignment } from '@/types';
+
+export default function MentorAssignmentsPage() {
+  const { activeCohortId } = useUserContext();
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [students, setStudents] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [fetchError, setFetchError] = useState(false);
+  const [grading, setGrading] = useState<Assignment | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!activeCohortId) return;
+    setLoading(true);
+    setFetchError(false);
+    try {
+      const res = await fetch(`/api/mentor/assignments?cohort_id=${activeCohortId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setAssignments(data.assignments || []);
+      setStudents(data.students ?? 0);
+    } catch {
+      setFetchError(true);
+      toast.error('Failed to load assignments');
+    } finally {
+      setLoading(false);
+    }
+  }, [activeCohortId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  if (fetchError && assignments.length === 0) {
+    return (
+      <div className="p-6">
+        <PageHeader title="Grade Homework" />
+        <div className="text-center py-16 text-muted-foreground">
+          <AlertTriangle className="w-16 h-16 mx-auto mb-4 opacity-50 text-destructive" />
+          <p className="text-xl font-medium text-foreground">Failed to load assignments</p>
+          <Button variant="outline" className="mt-4" onClick={fetchData}>
+            <RefreshCw className="w-4 h-4 mr-1.5" />
+            Try again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <PageHeader
+        title="Grade Homework"
+        description={`Individual assignments from the ${students} student${students !== 1 ? 's' : ''} in your subgroups`}
+      />
+
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : assignments.length === 0 ? (
+        <EmptyState
+          icon={NotebookPen}
+          title="No assignments yet"
+          description="Assignments set for this cohort will appear here."
+        />
+      ) : (
+        <div className="grid gap-3">
+          {assignments.map(a => {
+            const toGrade = (a.submission_count ?? 0) - (a.graded_count ?? 0);
+            return (
+              <div key={a.id} className="rounded-xl border bg-card p-5 flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="text-[11px]">Week {a.week_number}</Badge>
+                    <h3 className="text-base font-semibold truncate">{a.title}</h3>
+                  </div>
+                  <div className="mt-1.5 flex items-center gap-3 text-sm text-muted-foreground">
+                    <span>{a.submission_count ?? 0}/{students} submitted · {a.graded_count ?? 0} graded</span>
+                    <CountdownTimer deadline={a.due_date} graceMinutes={a.grace_period_minutes} />
+                  </div>
+                </div>
+                {toGrade > 0 && (
+                  <Badge variant="outline" className="text-amber-600 border-amber-300 dark:text-amber-400 dark:border-amber-700">
+                    {toGrade} to grade
+                  </Badge>
+                )}
+                <Button variant={toGrade > 0 ? 'default' : 'outline'} onClick={() => setGrading(a)} disabled={students === 0}>
+                  Grade
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <AssignmentGradingDialog
+        assignment={grading}
+        apiBase="/api/mentor/assignments"
+        onOpenChange={open => !open && setGrading(null)}
+        onGraded={fetchData}
+      />
+    </div>
+  );
+}
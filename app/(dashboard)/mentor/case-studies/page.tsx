@@ -5,6 +5,9 @@ import { useUserContext } from '@/contexts/user-context';
 import { PageHeader } from '@/components/ui/page-header';
 import { EmptyState } from '@/components/ui/empty-state';
 import { CountdownTimer } from '@/components/case-studies/countdown-timer';
+import { SubmissionVersionHistory } from '@/components/case-studies/submission-version-history';
+import { SubmissionContributions } from '@/components/case-studies/submission-contributions';
+import { AnnotatedPdfViewer } from '@/components/case-studies/annotated-pdf-viewer';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
@@ -29,8 +32,19 @@ import {
   Users,
   ExternalLink,
   Send,
+  EyeOff,
+  Highlighter,
 } from 'lucide-react';
-import type { CaseStudy } from '@/types';
+import {
+  RubricGrader,
+  isRubricComplete,
+  picksFromScores,
+  picksToPayload,
+  type RubricPicks,
+} from '@/components/case-studies/rubric-grader';
+import type { CaseStudy, RubricCriteria } from '@/types';
+import type { SubmissionVersionWithChanges } from '@/lib/services/submission-versions';
+import { isPdfAttachment } from '@/lib/services/annotations';
 
 interface SubgroupSubmissionInfo {
   subgroup_id: string;
@@ -55,7 +69,7 @@ interface MentorCaseStudy extends CaseStudy {
 }
 
 export default function MentorCaseStudiesPage() {
-  const { activeCohortId } = useUserContext();
+  const { activeCohortId, profile } = useUserContext();
   const [caseStudies, setCaseStudies] = useState<MentorCaseStudy[]>([]);
   const [loading, setLoading] = useState(true);
   const [fetchError, setFetchError] = useState(false);
@@ -63,6 +77,7 @@ export default function MentorCaseStudiesPage() {
   // Review sheet
   const [reviewOpen, setReviewOpen] = useState(false);
   const [reviewSubmission, setReviewSubmission] = useState<SubgroupSubmissionInfo | null>(null);
+  const [annotatingAttachment, setAnnotatingAttachment] = useState<{ id: string; file_name: string | null } | null>(null);
   const [reviewMaxScore, setReviewMaxScore] = useState(100);
 
   // Submission detail
@@ -72,7 +87,11 @@ export default function MentorCaseStudiesPage() {
   // Review form state
   const [score, setScore] = useState('');
   const [comment, setComment] = useState('');
+  const [rubricCriteria, setRubricCriteria] = useState<RubricCriteria[]>([]);
+  const [picks, setPicks] = useState<RubricPicks>({});
+  const [blind, setBlind] = useState(false);
   const [saving, setSaving] = useState(false);
+  const hasRubric = rubricCriteria.length > 0;
 
   const fetchData = useCallback(async () => {
     if (!activeCohortId) return;
@@ -106,6 +125,9 @@ export default function MentorCaseStudiesPage() {
     setReviewMaxScore(cs.max_score);
     setScore(sgSub.my_review?.score?.toString() ?? '');
     setComment(sgSub.my_review?.comment ?? '');
+    setRubricCriteria([]);
+    setPicks({});
+    setBlind(false);
     setReviewOpen(true);
 
     try {
@@ -113,6 +135,12 @@ export default function MentorCaseStudiesPage() {
       const data = await res.json();
       if (!res.ok) throw new Error(data.error);
       setDetailData(data.submission);
+      setRubricCriteria(data.rubric_criteria || []);
+      setBlind(!!data.blind);
+      const myReview = (data.submission.reviews || []).find(
+        (r: { id: string }) => r.id === sgSub.my_review?.id
+      );
+      setPicks(picksFromScores(myReview?.rubric_scores));
     } catch {
       toast.error('Failed to load submission details');
     } finally {
@@ -123,13 +151,24 @@ export default function MentorCaseStudiesPage() {
   // Save review
   const handleSaveReview = async () => {
     if (!reviewSubmission?.submission) return;
+    if (hasRubric && Object.keys(picks).length > 0 && !isRubricComplete(rubricCriteria, picks)) {
+      toast.error('Pick a level for every rubric criterion');
+      return;
+    }
     setSaving(true);
     try {
-      const scoreNum = score ? parseInt(score) : null;
-      if (scoreNum !== null && (isNaN(scoreNum) || scoreNum < 0 || scoreNum > reviewMaxScore)) {
-        toast.error(`Score must be between 0 and ${reviewMaxScore}`);
-        setSaving(false);
-        return;
+      // With a rubric the server computes the score from the picked levels
+      const grading: Record<string, unknown> = {};
+      if (hasRubric) {
+        if (Object.keys(picks).length > 0) grading.rubric_scores = picksToPayload(picks);
+      } else {
+        const scoreNum = score ? parseInt(score) : null;
+        if (scoreNum !== null && (isNaN(scoreNum) || scoreNum < 0 || scoreNum > reviewMaxScore)) {
+          toast.error(`Score must be between 0 and ${reviewMaxScore}`);
+          setSaving(false);
+          return;
+        }
+        grading.score = scoreNum;
       }
 
       const url = reviewSubmission.my_review
@@ -138,7 +177,7 @@ export default function MentorCaseStudiesPage() {
       const method = reviewSubmission.my_review ? 'PUT' : 'POST';
 
       const body: Record<string, unknown> = {
-        score: scoreNum,
+        ...grading,
         comment: comment || null,
       };
       if (!reviewSubmission.my_review) {
@@ -289,43 +328,70 @@ export default function MentorCaseStudiesPage() {
                   const isLink = att.type === 'link';
 
                   return (
-                    <button
-                      key={att.id as string}
-                      className="flex items-center gap-2 p-2 rounded-lg border bg-muted/50 hover:bg-muted/80 transition-colors w-full text-left group"
-                      onClick={async () => {
-                        if (isLink && att.link_url) {
-                          window.open(att.link_url as string, '_blank', 'noopener');
-                          return;
-                        }
-                        if (isFile) {
-                          try {
-                            const res = await fetch(
-                              `/api/mentor/case-studies/submissions/${reviewSubmission?.submission?.id}/signed-url?attachment_id=${att.id}`
-                            );
-                            const data = await res.json();
-                            if (!res.ok) throw new Error(data.error);
-                            if (data.signedUrl) {
-                              window.open(data.signedUrl, '_blank', 'noopener');
+                    <div key={att.id as string} className="flex items-center gap-1.5">
+                      <button
+                        className="flex items-center gap-2 p-2 rounded-lg border bg-muted/50 hover:bg-muted/80 transition-colors flex-1 min-w-0 text-left group"
+                        onClick={async () => {
+                          if (isLink && att.link_url) {
+                            window.open(att.link_url as string, '_blank', 'noopener');
+                            return;
+                          }
+                          if (isFile) {
+                            try {
+                              const res = await fetch(
+                                `/api/mentor/case-studies/submissions/${reviewSubmission?.submission?.id}/signed-url?attachment_id=${att.id}`
+                              );
+                              const data = await res.json();
+                              if (!res.ok) throw new Error(data.error);
+                              if (data.signedUrl) {
+                                window.open(data.signedUrl, '_blank', 'noopener');
+                              }
+                            } catch {
+                              toast.error('Failed to load file');
                             }
-                          } catch {
-                            toast.error('Failed to load file');
                           }
-                        }
-                      }}
-                    >
-                      {isFile ? (
-                        <FileText className="w-4 h-4 text-muted-foreground group-hover:text-primary shrink-0" />
-                      ) : (
-                        <ExternalLink className="w-4 h-4 text-muted-foreground group-hover:text-primary shrink-0" />
+                        }}
+                      >
+                        {isFile ? (
+                          <FileText className="w-4 h-4 text-muted-foreground group-hover:text-primary shrink-0" />
+                        ) : (
+                          <ExternalLink className="w-4 h-4 text-muted-foreground group-hover:text-primary shrink-0" />
+                        )}
+                        <span className="text-sm flex-1 min-w-0 truncate">
+                          {isFile ? att.file_name as string : (att.link_label as string || att.link_url as string)}
+                        </span>
+                        <ExternalLink className="w-3 h-3 text-muted-foreground opacity-0 group-hover:opacity-100 shrink-0" />
+                      </button>
+                      {isPdfAttachment({ type: att.type as string, file_type: (att.file_type as string | null) ?? null, file_name: (att.file_name as string | null) ?? null }) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-9 text-xs shrink-0"
+                          onClick={() => setAnnotatingAttachment({ id: att.id as string, file_name: att.file_name as string | null })}
+                        >
+                          <Highlighter className="w-3.5 h-3.5 mr-1" />
+                          Annotate
+                        </Button>
                       )}
-                      <span className="text-sm flex-1 min-w-0 truncate">
-                        {isFile ? att.file_name as string : (att.link_label as string || att.link_url as string)}
-                      </span>
-                      <ExternalLink className="w-3 h-3 text-muted-foreground opacity-0 group-hover:opacity-100 shrink-0" />
-                    </button>
+                    </div>
                   );
                 })}
 
+                {/* Version history */}
+                {Array.isArray(detailData.versions) && detailData.versions.length > 0 && (
+                  <div className="space-y-2 pt-2">
+                    <h3 className="text-sm font-medium">Submission History</h3>
+                    <SubmissionVersionHistory
+                      versions={detailData.versions as SubmissionVersionWithChanges[]}
+                      gradedVersionId={
+                        (Array.isArray(detailData.reviews) ? detailData.reviews : [])
+                          .find((r: Record<string, unknown>) => r.id === reviewSubmission?.my_review?.id)
+                          ?.submission_version_id as string | undefined
+                      }
+                    />
+                  </div>
+                )}
+
                 {/* Admin review (read-only) */}
                 {(Array.isArray(detailData.reviews) ? detailData.reviews : [])
                   .filter((r: Record<string, unknown>) => r.reviewer_role === 'admin')
@@ -334,12 +400,29 @@ export default function MentorCaseStudiesPage() {
                       <div className="flex items-center justify-between text-sm">
                         <span className="font-medium">Admin Review</span>
                         {r.score !== null && (
-                          <span className="font-bold">{r.score as number}/{reviewMaxScore}</span>
+                          <span className="font-bold">
+                            {Number(r.late_penalty) > 0 && (
+                              <span className="font-normal text-xs text-amber-600 dark:text-amber-400 mr-1.5">
+                                {r.score as number} − {Number(r.late_penalty)} late
+                              </span>
+                            )}
+                            {(r.adjusted_score ?? r.score) as number}/{reviewMaxScore}
+                          </span>
                         )}
                       </div>
                       {typeof r.comment === 'string' && r.comment && <p className="text-sm text-muted-foreground">{r.comment}</p>}
                     </div>
                   ))}
+
+                {/* Individual contributions */}
+                {reviewSubmission?.submission && (
+                  <div className="space-y-2 pt-2">
+                    <h3 className="text-sm font-medium">Individual Contributions</h3>
+                    <SubmissionContributions
+                      endpoint={`/api/mentor/case-studies/submissions/${reviewSubmission.submission.id}/contributions`}
+                    />
+                  </div>
+                )}
               </div>
             ) : null}
 
@@ -356,19 +439,43 @@ export default function MentorCaseStudiesPage() {
 
             <Separator />
 
+            {blind && (
+              <div className="flex items-center gap-2 p-3 rounded-lg border bg-muted/40">
+                <EyeOff className="w-4 h-4 text-muted-foreground shrink-0" />
+                <p className="text-sm text-muted-foreground">
+                  Calibration review: score independently. Other reviewers&apos; scores stay hidden until the admin adjudicates or publishes.
+                </p>
+              </div>
+            )}
+
             {/* Mentor review form */}
-            <div>
-              <Label className="text-sm font-medium">Your Score (out of {reviewMaxScore})</Label>
-              <Input
-                type="number"
-                min={0}
-                max={reviewMaxScore}
-                placeholder="Optional"
-                value={score}
-                onChange={e => setScore(e.target.value)}
-                className="mt-1"
-              />
-            </div>
+            {hasRubric ? (
+              <div>
+                <Label className="text-sm font-medium">Rubric</Label>
+                <div className="mt-2">
+                  <RubricGrader
+                    criteria={rubricCriteria}
+                    maxScore={reviewMaxScore}
+                    value={picks}
+                    onChange={setPicks}
+                    disabled={saving}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div>
+                <Label className="text-sm font-medium">Your Score (out of {reviewMaxScore})</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={reviewMaxScore}
+                  placeholder="Optional"
+                  value={score}
+                  onChange={e => setScore(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            )}
 
             <div>
               <Label className="text-sm font-medium">Your Comments</Label>
@@ -387,6 +494,16 @@ export default function MentorCaseStudiesPage() {
           </div>
         </SheetContent>
       </Sheet>
+
+      {reviewSubmission?.submission && (
+        <AnnotatedPdfViewer
+          attachment={annotatingAttachment}
+          onClose={() => setAnnotatingAttachment(null)}
+          signedUrlEndpoint={`/api/mentor/case-studies/submissions/${reviewSubmission.submission.id}/signed-url?attachment_id=${annotatingAttachment?.id}`}
+          annotationsEndpoint={`/api/mentor/case-studies/submissions/${reviewSubmission.submission.id}/annotations`}
+          canDelete={a => a.author_id === profile?.id}
+        />
+      )}
     </div>
   );
 }
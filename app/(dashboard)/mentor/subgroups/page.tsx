@@ -6,13 +6,15 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { PageLoader } from '@/components/ui/page-loader';
 import { ProfileDetailSheet } from '@/components/ui/profile-detail-sheet';
+import { ExcuseReviewQueue } from '@/components/attendance/excuse-review-queue';
+import { AtRiskStudents } from '@/components/attendance/at-risk-students';
 import { useUserContext } from '@/contexts/user-context';
 import { toast } from 'sonner';
 import { Users, AlertTriangle, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { PageHeader } from '@/components/ui/page-header';
 import { MotionFadeIn, MotionContainer, MotionItem } from '@/components/ui/motion';
-import type { Profile } from '@/types';
+import type { AtRiskFlag, Profile } from '@/types';
 
 interface MentorSubgroup {
   id: string;
@@ -28,6 +30,11 @@ export default function MentorSubgroupsPage() {
   const [loading, setLoading] = useState(true);
   const [fetchError, setFetchError] = useState(false);
   const [selectedProfile, setSelectedProfile] = useState<Profile | null>(null);
+  const [atRiskIds, setAtRiskIds] = useState<Set<string>>(new Set());
+
+  const handleAtRiskLoaded = useCallback((flags: AtRiskFlag[]) => {
+    setAtRiskIds(new Set(flags.map((f) => f.user_id)));
+  }, []);
 
   const fetchSubgroups = useCallback(async () => {
     setLoading(true);
@@ -118,10 +125,15 @@ export default function MentorSubgroupsPage() {
                         {m.user.full_name?.charAt(0) || '?'}
                       </AvatarFallback>
                     </Avatar>
-                    <div className="min-w-0">
+                    <div className="min-w-0 flex-1">
                       <p className="font-medium text-sm truncate">{m.user.full_name || m.user.email}</p>
                       <p className="text-xs text-muted-foreground truncate">{m.user.email}</p>
                     </div>
+                    {atRiskIds.has(m.user_id) && (
+                      <Badge variant="outline" className="shrink-0 border-amber-500/40 text-amber-600">
+                        At risk
+                      </Badge>
+                    )}
                   </button>
                 ))}
               </div>
@@ -132,6 +144,10 @@ export default function MentorSubgroupsPage() {
       ))}
       </MotionContainer>
 
+      <AtRiskStudents onLoaded={handleAtRiskLoaded} />
+
+      <ExcuseReviewQueue />
+
       <ProfileDetailSheet
         profile={selectedProfile}
         role="Student"
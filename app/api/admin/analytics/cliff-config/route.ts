@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { createAdminClient } from '@/lib/supabase/server';
+import { CLIFF_STRATEGIES, DEFAULT_CLIFF_CONFIG } from '@/lib/services/cliff-detector';
+import { isCliffStrategy } from '@/lib/services/cliff-config';
+
+/**
+ * GET: List cliff detection configs (global + per-cohort) and the built-in default.
+ */
+export async function GET() {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const supabase = await createAdminClient();
+    const { data: configs, error } = await supabase
+      .from('cliff_detection_configs')
+      .select('*, cohort:cohorts(id, name, tag)')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json({ configs: configs || [], defaults: DEFAULT_CLIFF_CONFIG, strategies: CLIFF_STRATEGIES });
+  } catch (error) {
+    console.error('[cliff-config] Error listing configs:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list cliff configs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT: Create or replace the config for a cohort (cohortId: null = global).
+ * Body: { cohortId, strategy, windowSizeMinutes?, minStartFraction?, stayerThresholdMinutes?, minSpikeRatio? }
+ */
+export async function PUT(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json();
+    const cohortId: string | null = body.cohortId || null;
+    const {
+      strategy,
+      windowSizeMinutes = DEFAULT_CLIFF_CONFIG.windowSizeMinutes,
+      minStartFraction = DEFAULT_CLIFF_CONFIG.minStartFraction,
+      stayerThresholdMinutes = DEFAULT_CLIFF_CONFIG.stayerThresholdMinutes,
+      minSpikeRatio = DEFAULT_CLIFF_CONFIG.minSpikeRatio,
+    } = body;
+
+    if (!isCliffStrategy(strategy)) {
+      return NextResponse.json({ error: `strategy must be one of: ${CLIFF_STRATEGIES.join(', ')}` }, { status: 400 });
+    }
+    if (!Number.isInteger(windowSizeMinutes) || windowSizeMinutes < 1 || windowSizeMinutes > 60) {
+      return NextResponse.json({ error: 'windowSizeMinutes must be an integer between 1 and 60' }, { status: 400 });
+    }
+    if (typeof minStartFraction !== 'number' || minStartFraction < 0 || minStartFraction >= 1) {
+      return NextResponse.json({ error: 'minStartFraction must be between 0 and 1' }, { status: 400 });
+    }
+    if (!Number.isInteger(stayerThresholdMinutes) || stayerThresholdMinutes < 0 || stayerThresholdMinutes > 30) {
+      return NextResponse.json({ error: 'stayerThresholdMinutes must be an integer between 0 and 30' }, { status: 400 });
+    }
+    if (typeof minSpikeRatio !== 'number' || minSpikeRatio <= 0 || minSpikeRatio > 20) {
+      return NextResponse.json({ error: 'minSpikeRatio must be greater than 0 and at most 20' }, { status: 400 });
+    }
+
+    const supabase = await createAdminClient();
+
+    const row = {
+      strategy,
+      window_size_minutes: windowSizeMinutes,
+      min_start_fraction: minStartFraction,
+      stayer_threshold_minutes: stayerThresholdMinutes,
+      min_spike_ratio: minSpikeRatio,
+      updated_by: auth.userId,
+    };
+
+    // Upsert by hand: onConflict cannot target the partial unique index for the global row
+    let existingQuery = supabase.from('cliff_detection_configs').select('id');
+    existingQuery = cohortId ? existingQuery.eq('cohort_id', cohortId) : existingQuery.is('cohort_id', null);
+    const { data: existing } = await existingQuery.maybeSingle();
+
+    const { data: config, error } = existing
+      ? await supabase.from('cliff_detection_configs').update(row).eq('id', existing.id).select().single()
+      : await supabase.from('cliff_detection_configs').insert({ ...row, cohort_id: cohortId }).select().single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ config });
+  } catch (error) {
+    console.error('[cliff-config] Error saving config:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save cliff config' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE: Remove a config (?id=...). Sessions fall back to the global row or built-in default.
+ */
+export async function DELETE(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const supabase = await createAdminClient();
+    const { error } = await supabase.from('cliff_detection_configs').delete().eq('id', id);
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[cliff-config] Error deleting config:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete cliff config' },
+      { status: 500 }
+    );
+  }
+}
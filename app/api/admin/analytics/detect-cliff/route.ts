@@ -2,12 +2,23 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
 import { createAdminClient } from '@/lib/supabase/server';
 import { ZoomService } from '@/lib/integrations/zoom';
-import { detectFormalEnd, type ResolvedParticipantInput } from '@/lib/services/cliff-detector';
+import {
+  CLIFF_STRATEGIES,
+  compareCliffStrategies,
+  detectFormalEnd,
+} from '@/lib/services/cliff-detector';
+import { fetchCliffInputs, isCliffStrategy, resolveCliffConfig } from '@/lib/services/cliff-config';
 
 /**
  * POST: Run cliff detection for a single session.
- * Fetches Zoom participant data, detects mass-departure "cliff",
+ * Fetches Zoom participant data, detects mass-departure "cliff" with the
+ * session's configured strategy (per-cohort, see cliff_detection_configs),
  * stores result on the session record, and returns the detection result.
+ *
+ * Body: { sessionId, zoomMeetingUuid, strategy?, compare? }
+ * - strategy: override the configured strategy for this run
+ * - compare:  dry run — return every strategy's result side by side without
+ *             storing anything
  */
 export async function POST(request: NextRequest) {
   const auth = await verifyAdmin();
@@ -17,7 +28,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { sessionId, zoomMeetingUuid } = body;
+    const { sessionId, zoomMeetingUuid, strategy, compare } = body;
 
     if (!sessionId || !zoomMeetingUuid) {
       return NextResponse.json(
@@ -26,64 +37,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (strategy !== undefined && !isCliffStrategy(strategy)) {
+      return NextResponse.json({ error: `strategy must be one of: ${CLIFF_STRATEGIES.join(', ')}` }, { status: 400 });
+    }
+
     const supabase = await createAdminClient();
     const zoomService = new ZoomService();
 
-    // Step 1: Fetch participants from Zoom
-    const participants = await zoomService.getPastMeetingParticipants(zoomMeetingUuid);
+    // Step 1: Fetch participants and meeting bounds from Zoom
+    const fetched = await fetchCliffInputs(zoomService, zoomMeetingUuid);
 
-    if (!participants || participants.length === 0) {
+    if (!fetched) {
       return NextResponse.json(
         { error: 'No participants found for this meeting' },
         { status: 404 }
       );
     }
 
-    // Step 2: Determine meeting start/end times
-    let meetingStart: string;
-    let meetingEnd: string;
-
-    try {
-      const details = await zoomService.getPastMeetingDetails(zoomMeetingUuid);
-      if (details?.start_time && details?.end_time) {
-        meetingStart = details.start_time;
-        meetingEnd = details.end_time;
-      } else {
-        throw new Error('Missing start_time or end_time from meeting details');
-      }
-    } catch {
-      // Fallback: derive from participant join/leave times
-      console.warn('[detect-cliff] Could not fetch meeting details, falling back to participant times');
-      const joinTimes = participants.map(p => new Date(p.join_time).getTime());
-      const leaveTimes = participants.map(p => new Date(p.leave_time).getTime());
-      meetingStart = new Date(Math.min(...joinTimes)).toISOString();
-      meetingEnd = new Date(Math.max(...leaveTimes)).toISOString();
-    }
-
-    // Step 3: Group participants by email
-    const groupedByEmail = new Map<string, { join_time: string; leave_time: string }[]>();
-
-    for (const p of participants) {
-      const key = (p.user_email || `__nomail__${p.id}`).toLowerCase().trim();
-      const segments = groupedByEmail.get(key) || [];
-      segments.push({ join_time: p.join_time, leave_time: p.leave_time });
-      groupedByEmail.set(key, segments);
-    }
+    const { inputs, meetingStart, meetingEnd } = fetched;
 
-    // Step 4: Convert to ResolvedParticipantInput[]
-    const resolvedParticipants: ResolvedParticipantInput[] = [];
+    // Step 2: Resolve tuning for this session's cohort
+    const resolved = await resolveCliffConfig(supabase, sessionId);
+    const config = strategy ? { ...resolved.config, strategy } : resolved.config;
 
-    for (const [email, segments] of groupedByEmail) {
-      resolvedParticipants.push({
-        userId: email.startsWith('__nomail__') ? null : email,
-        segments,
+    // Compare mode: side-by-side dry run, nothing persisted
+    if (compare) {
+      return NextResponse.json({
+        config,
+        configSource: resolved.source,
+        results: compareCliffStrategies(inputs, meetingStart, meetingEnd, config),
       });
     }
 
-    // Step 5: Run cliff detection
-    const result = detectFormalEnd(resolvedParticipants, meetingStart, meetingEnd);
+    // Step 3: Run cliff detection
+    const result = detectFormalEnd(inputs, meetingStart, meetingEnd, config);
 
-    // Step 6: Store result on the session record
+    // Step 4: Store result on the session record
     const { error: updateError } = await supabase
       .from('sessions')
       .update({ cliff_detection: result })
@@ -1,23 +1,58 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
 import { createAdminClient } from '@/lib/supabase/server';
 import { ZoomService } from '@/lib/integrations/zoom';
-import { detectFormalEnd, type ResolvedParticipantInput } from '@/lib/services/cliff-detector';
+import {
+  CLIFF_STRATEGIES,
+  compareCliffStrategies,
+  detectFormalEnd,
+  type CliffDetectionResult,
+  type CliffStrategy,
+} from '@/lib/services/cliff-detector';
+import {
+  fetchCliffInputs,
+  pickCliffConfig,
+  type CliffDetectionConfigRow,
+} from '@/lib/services/cliff-config';
+
+type StrategyOutcome = Pick<CliffDetectionResult, 'detected' | 'reason' | 'confidence' | 'effectiveEndMinutes' | 'studentsImpacted'>;
+
+function summarizeOutcome(result: CliffDetectionResult): StrategyOutcome {
+  return {
+    detected: result.detected,
+    reason: result.reason,
+    confidence: result.confidence,
+    effectiveEndMinutes: result.effectiveEndMinutes,
+    studentsImpacted: result.studentsImpacted,
+  };
+}
 
-export async function POST() {
+/**
+ * POST: Run cliff detection across every Zoom-linked session.
+ *
+ * Body (optional): { compare?: boolean }
+ * - default: detect with each session's configured strategy and store results,
+ *   skipping sessions whose cliff was already dismissed or applied
+ * - compare: dry run over all sessions (including dismissed/applied history),
+ *   returning every strategy's outcome side by side; nothing is stored
+ */
+export async function POST(request: NextRequest) {
   const auth = await verifyAdmin();
   if (!auth.authorized) {
     return NextResponse.json({ error: auth.error }, { status: auth.status });
   }
 
   try {
+    const body = await request.json().catch(() => ({}));
+    const compare = body?.compare === true;
+
     const supabase = await createAdminClient();
     const zoomService = new ZoomService();
 
     // Fetch all sessions that have zoom data
     const { data: sessions, error: sessionsError } = await supabase
       .from('sessions')
-      .select('id, title, zoom_meeting_id, actual_duration_minutes, duration_minutes, cliff_detection, formal_end_minutes')
+      .select('id, title, cohort_id, zoom_meeting_id, actual_duration_minutes, duration_minutes, cliff_detection, formal_end_minutes')
       .not('zoom_meeting_id', 'is', null)
       .order('scheduled_at', { ascending: false });
 
@@ -37,6 +72,19 @@ export async function POST() {
       .in('session_id', sessionIds)
       .order('created_at', { ascending: false });
 
+    // Batch-fetch cohort links and tuning so each session resolves its config locally
+    const [{ data: sessionCohorts }, { data: configRows }] = await Promise.all([
+      supabase.from('session_cohorts').select('session_id, cohort_id').in('session_id', sessionIds),
+      supabase.from('cliff_detection_configs').select('*'),
+    ]);
+
+    const cohortIdsBySession = new Map<string, string[]>();
+    for (const sc of sessionCohorts || []) {
+      const list = cohortIdsBySession.get(sc.session_id) || [];
+      list.push(sc.cohort_id);
+      cohortIdsBySession.set(sc.session_id, list);
+    }
+
     // Group by session_id, take latest per session
     const latestUuidBySession = new Map<string, string>();
     for (const log of allImportLogs || []) {
@@ -53,17 +101,19 @@ export async function POST() {
       effectiveEndMinutes?: number;
       actualDurationMinutes?: number;
       studentsImpacted?: number;
+      strategy?: CliffStrategy;
+      comparison?: Record<CliffStrategy, StrategyOutcome>;
       error?: string;
     }> = [];
 
     for (const session of sessions) {
-      // Skip already-dismissed or already-applied cliffs
+      // Skip already-dismissed or already-applied cliffs (compare mode reruns history)
       const cliffData = session.cliff_detection as Record<string, unknown> | null;
-      if (cliffData?.dismissed) {
+      if (!compare && cliffData?.dismissed) {
         results.push({ sessionId: session.id, title: session.title, status: 'skipped', error: 'Previously dismissed' });
         continue;
       }
-      if (cliffData?.appliedAt) {
+      if (!compare && cliffData?.appliedAt) {
         results.push({ sessionId: session.id, title: session.title, status: 'skipped', error: 'Already applied' });
         continue;
       }
@@ -76,66 +126,50 @@ export async function POST() {
           continue;
         }
 
-        // Fetch participants from Zoom
-        const participants = await zoomService.getPastMeetingParticipants(meetingUuid);
-        if (!participants || participants.length === 0) {
+        // Fetch participants and meeting bounds from Zoom
+        const fetched = await fetchCliffInputs(zoomService, meetingUuid);
+        if (!fetched) {
           results.push({ sessionId: session.id, title: session.title, status: 'skipped', error: 'No participant data (may be >6 months old)' });
           continue;
         }
 
-        // Get meeting times
-        let meetingStart: string;
-        let meetingEnd: string;
-        try {
-          const details = await zoomService.getPastMeetingDetails(meetingUuid);
-          if (details?.start_time && details?.end_time) {
-            meetingStart = details.start_time;
-            meetingEnd = details.end_time;
-          } else {
-            throw new Error('Missing times');
-          }
-        } catch {
-          // Fallback: derive from participant join/leave times
-          const joinTimes = participants.map(p => new Date(p.join_time).getTime());
-          const leaveTimes = participants.map(p => new Date(p.leave_time).getTime());
-          meetingStart = new Date(Math.min(...joinTimes)).toISOString();
-          meetingEnd = new Date(Math.max(...leaveTimes)).toISOString();
-        }
-
-        // Group participants by email
-        const emailGroups = new Map<string, { join_time: string; leave_time: string }[]>();
-        for (const p of participants) {
-          const email = (p.user_email || `__nomail__${p.id}`).toLowerCase().trim();
-          if (!emailGroups.has(email)) emailGroups.set(email, []);
-          emailGroups.get(email)!.push({ join_time: p.join_time, leave_time: p.leave_time });
-        }
-
-        const resolved: ResolvedParticipantInput[] = [];
-        for (const [email, segments] of emailGroups) {
-          resolved.push({ userId: email.startsWith('__nomail__') ? null : email, segments });
-        }
+        const { inputs, meetingStart, meetingEnd } = fetched;
+        const { config } = pickCliffConfig(
+          (configRows || []) as CliffDetectionConfigRow[],
+          [session.cohort_id, ...(cohortIdsBySession.get(session.id) || [])],
+        );
 
         // Run detection
-        const detection = detectFormalEnd(resolved, meetingStart, meetingEnd);
-
-        // Save result to session
-        await supabase
-          .from('sessions')
-          .update({ cliff_detection: detection })
-          .eq('id', session.id);
+        const detection = detectFormalEnd(inputs, meetingStart, meetingEnd, config);
+
+        let comparison: Record<CliffStrategy, StrategyOutcome> | undefined;
+        if (compare) {
+          const all = compareCliffStrategies(inputs, meetingStart, meetingEnd, config);
+          comparison = Object.fromEntries(
+            CLIFF_STRATEGIES.map((strategy) => [strategy, summarizeOutcome(all[strategy])]),
+          ) as Record<CliffStrategy, StrategyOutcome>;
+        } else {
+          // Save result to session
+          await supabase
+            .from('sessions')
+            .update({ cliff_detection: detection })
+            .eq('id', session.id);
+        }
 
         if (detection.detected) {
           results.push({
             sessionId: session.id,
             title: session.title,
             status: 'detected',
+            strategy: config.strategy,
             confidence: detection.confidence,
             effectiveEndMinutes: detection.effectiveEndMinutes,
             actualDurationMinutes: session.actual_duration_minutes || session.duration_minutes,
             studentsImpacted: detection.studentsImpacted,
+            comparison,
           });
         } else {
-          results.push({ sessionId: session.id, title: session.title, status: 'no_cliff' });
+          results.push({ sessionId: session.id, title: session.title, status: 'no_cliff', strategy: config.strategy, comparison });
         }
 
         // Rate limit: 200ms between sessions to respect Zoom API
@@ -163,6 +197,21 @@ export async function POST() {
       totalStudentsImpacted: detected.reduce((sum, r) => sum + (r.studentsImpacted || 0), 0),
     };
 
+    if (compare) {
+      const compared = results.filter((r) => r.comparison);
+      const byStrategy = Object.fromEntries(
+        CLIFF_STRATEGIES.map((strategy) => {
+          const outcomes = compared.map((r) => r.comparison![strategy]);
+          return [strategy, {
+            detected: outcomes.filter((o) => o.detected).length,
+            highConfidence: outcomes.filter((o) => o.confidence === 'high').length,
+            totalStudentsImpacted: outcomes.reduce((sum, o) => sum + (o.studentsImpacted || 0), 0),
+          }];
+        }),
+      );
+      return NextResponse.json({ summary: { ...summary, byStrategy }, results });
+    }
+
     return NextResponse.json({ summary, results });
   } catch (error) {
     console.error('[detect-cliffs-bulk] Error:', error instanceof Error ? error.message : error);
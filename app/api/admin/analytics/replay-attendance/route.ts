@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { replaySessionAttendance } from '@/lib/services/attendance-replay';
+import { listWebhookEvents } from '@/lib/services/zoom-webhook-events';
+
+/**
+ * GET: List stored Zoom webhook events for a session (audit trail).
+ * Query: ?sessionId=... or ?meetingUuid=...
+ */
+export async function GET(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId') || undefined;
+    const meetingUuid = searchParams.get('meetingUuid') || undefined;
+
+    if (!sessionId && !meetingUuid) {
+      return NextResponse.json(
+        { error: 'sessionId or meetingUuid is required' },
+        { status: 400 }
+      );
+    }
+
+    const events = await listWebhookEvents({ sessionId, meetingUuid });
+
+    return NextResponse.json({
+      events,
+      summary: {
+        total: events.length,
+        verified: events.filter((e) => e.signature_verified).length,
+        unverified: events.filter((e) => !e.signature_verified).length,
+      },
+    });
+  } catch (error) {
+    console.error('[replay-attendance] Error listing events:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list webhook events' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST: Rebuild attendance for a session from stored webhook events only.
+ * Body: { sessionId, zoomMeetingUuid? }
+ */
+export async function POST(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json();
+    const { sessionId, zoomMeetingUuid } = body;
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'sessionId is required' }, { status: 400 });
+    }
+
+    const result = await replaySessionAttendance(sessionId, zoomMeetingUuid || undefined);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[replay-attendance] Error:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to replay attendance' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
 import { createAdminClient } from '@/lib/supabase/server';
+import { DEFAULT_ATTENDANCE_POLICY } from '@/lib/services/attendance-policy';
+import { summarizePunctuality, type PunctualitySummary } from '@/lib/services/attendance-punctuality';
 
 /**
  * GET: Aggregated attendance analytics stats
@@ -44,7 +46,7 @@ export async function GET(request: NextRequest) {
     // Sessions that count for students
     let sessionsQuery = supabase
       .from('sessions')
-      .select('id, title, scheduled_at')
+      .select('id, title, scheduled_at, cohort_id')
       .eq('counts_for_students', true)
       .lt('scheduled_at', new Date().toISOString())
       .order('scheduled_at', { ascending: true });
@@ -60,6 +62,9 @@ export async function GET(request: NextRequest) {
     let avgAttendance = 0;
     let unmatchedCount = 0;
     const trendData: { sessionId: string; title: string; date: string; avgPercentage: number }[] = [];
+    const punctualityCohorts: (PunctualitySummary & { cohortId: string | null; cohortName: string; thresholdMinutes: number })[] = [];
+    const punctualityStudents: (PunctualitySummary & { userId: string; name: string; email: string; cohortId: string | null })[] = [];
+    let punctualityOverall: PunctualitySummary | null = null;
 
     if (countableSessions && countableSessions.length > 0) {
       const sessionIds = countableSessions.map((s) => s.id);
@@ -67,7 +72,7 @@ export async function GET(request: NextRequest) {
       // Get all attendance records for these sessions
       const { data: attendanceRecords } = await supabase
         .from('attendance')
-        .select('session_id, user_id, attendance_percentage')
+        .select('session_id, user_id, attendance_percentage, minutes_late, minutes_left_early, reconnect_count')
         .in('session_id', sessionIds);
 
       if (attendanceRecords && attendanceRecords.length > 0) {
@@ -103,6 +108,76 @@ export async function GET(request: NextRequest) {
             });
           }
         }
+
+        // Punctuality per cohort and per student within each cohort. Late and
+        // early leaves only count past the cohort's late-join grace.
+        const cohortBySession = new Map(countableSessions.map((s) => [s.id, s.cohort_id as string | null]));
+        const cohortIds = [...new Set(countableSessions.map((s) => s.cohort_id).filter(Boolean))] as string[];
+
+        const [{ data: policies }, { data: cohorts }] = cohortIds.length > 0
+          ? await Promise.all([
+              supabase.from('attendance_policies').select('cohort_id, late_join_grace_minutes').in('cohort_id', cohortIds),
+              supabase.from('cohorts').select('id, name').in('id', cohortIds),
+            ])
+          : [{ data: [] }, { data: [] }];
+
+        const graceByCohort = new Map((policies || []).map((p) => [p.cohort_id, p.late_join_grace_minutes as number]));
+        const cohortNames = new Map((cohorts || []).map((c) => [c.id, c.name as string]));
+        const thresholdFor = (cid: string | null): number =>
+          (cid ? graceByCohort.get(cid) : undefined) ?? DEFAULT_ATTENDANCE_POLICY.lateJoinGraceMinutes;
+
+        const recordsByCohort = new Map<string | null, typeof matchedRecords>();
+        const recordsByStudent = new Map<string, { cohortId: string | null; userId: string; records: typeof matchedRecords }>();
+        for (const r of matchedRecords) {
+          const cid = cohortBySession.get(r.session_id) ?? null;
+          const cohortRecords = recordsByCohort.get(cid) || [];
+          cohortRecords.push(r);
+          recordsByCohort.set(cid, cohortRecords);
+
+          const key = `${cid}:${r.user_id}`;
+          const entry = recordsByStudent.get(key) || { cohortId: cid, userId: r.user_id, records: [] as typeof matchedRecords };
+          entry.records.push(r);
+          recordsByStudent.set(key, entry);
+        }
+
+        for (const [cid, records] of recordsByCohort) {
+          const thresholdMinutes = thresholdFor(cid);
+          punctualityCohorts.push({
+            cohortId: cid,
+            cohortName: (cid && cohortNames.get(cid)) || 'No cohort',
+            thresholdMinutes,
+            ...summarizePunctuality(records, thresholdMinutes),
+          });
+        }
+
+        const studentUserIds = [...new Set(matchedRecords.map((r) => r.user_id))];
+        const { data: studentProfiles } = await supabase
+          .from('profiles')
+          .select('id, full_name, email')
+          .in('id', studentUserIds);
+        const profileMap = new Map((studentProfiles || []).map((p) => [p.id, p]));
+
+        for (const { cohortId: cid, userId, records } of recordsByStudent.values()) {
+          const summary = summarizePunctuality(records, thresholdFor(cid));
+          if (summary.sessionsMeasured === 0) continue;
+          const profile = profileMap.get(userId);
+          punctualityStudents.push({
+            userId,
+            name: profile?.full_name || 'Unknown',
+            email: profile?.email || '',
+            cohortId: cid,
+            ...summary,
+          });
+        }
+
+        // Chronic latecomers first
+        punctualityStudents.sort(
+          (a, b) => b.lateCount - a.lateCount || b.avgMinutesLate - a.avgMinutesLate
+        );
+
+        punctualityOverall = cohortId
+          ? summarizePunctuality(matchedRecords, thresholdFor(cohortId))
+          : null;
       }
     }
 
@@ -112,6 +187,11 @@ export async function GET(request: NextRequest) {
       sessionsCompleted,
       unmatchedCount,
       trendData,
+      punctuality: {
+        overall: punctualityOverall,
+        cohorts: punctualityCohorts,
+        students: punctualityStudents,
+      },
     });
   } catch (error) {
     console.error('Error fetching analytics stats:', error);
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
 import { createAdminClient } from '@/lib/supabase/server';
+import {
+  evaluateStudentEligibility,
+  loadAttendancePolicy,
+  loadExcusedSessions,
+} from '@/lib/services/attendance-policy';
 
 /**
  * GET: Per-student attendance data
@@ -79,12 +84,17 @@ export async function GET(request: NextRequest) {
       (profiles || []).map((p) => [p.id, p])
     );
 
-    // Get all attendance records for these sessions and students
-    const { data: attendanceRecords } = await supabase
-      .from('attendance')
-      .select('id, session_id, user_id, attendance_percentage, duration_seconds, join_time, leave_time')
-      .in('session_id', sessionIds)
-      .in('user_id', studentIds);
+    // Get all attendance records for these sessions and students, plus the
+    // cohort's attendance policy and excusals for eligibility
+    const [{ data: attendanceRecords }, { rules: policy }, excusedByUser] = await Promise.all([
+      supabase
+        .from('attendance')
+        .select('id, session_id, user_id, attendance_percentage, duration_seconds, join_time, leave_time')
+        .in('session_id', sessionIds)
+        .in('user_id', studentIds),
+      loadAttendancePolicy(supabase, cohortId),
+      loadExcusedSessions(supabase, sessionIds, studentIds),
+    ]);
 
     // Get segments for these attendance records
     const attendanceIds = (attendanceRecords || []).map((a) => a.id);
@@ -107,12 +117,23 @@ export async function GET(request: NextRequest) {
       const profile = profileMap.get(sid);
       const studentAttendance = (attendanceRecords || []).filter((a) => a.user_id === sid);
 
-      const sessionsAttended = studentAttendance.length;
-      const totalSessions = sessions.length;
+      const eligibility = evaluateStudentEligibility(
+        policy,
+        sessions,
+        studentAttendance,
+        excusedByUser.get(sid),
+      );
+
+      // Approved excused absences drop out of the denominator
+      const countedAttendance = studentAttendance.filter(
+        (a) => eligibility.outcomes[a.session_id] !== 'excused'
+      );
+      const sessionsAttended = countedAttendance.length;
+      const totalSessions = sessions.length - eligibility.sessionsExcused;
       const avgPercentage =
         totalSessions > 0
           ? Math.round(
-              (studentAttendance.reduce((sum, a) => sum + (a.attendance_percentage || 0), 0) /
+              (countedAttendance.reduce((sum, a) => sum + (a.attendance_percentage || 0), 0) /
                 totalSessions) *
                 100
             ) / 100
@@ -134,6 +155,7 @@ export async function GET(request: NextRequest) {
             : 0,
           totalDuration: session.actual_duration_minutes || session.duration_minutes,
           attended: !!attendance,
+          outcome: eligibility.outcomes[session.id],
           formalEndMinutes: session.formal_end_minutes || null,
           segments: attendanceSegments.map((seg) => ({
             join: seg.join_time,
@@ -149,8 +171,15 @@ export async function GET(request: NextRequest) {
         email: profile?.email || '',
         avatarUrl: profile?.avatar_url || null,
         sessionsAttended,
-        sessionsTotal: sessions.length,
+        sessionsTotal: totalSessions,
         avgPercentage,
+        eligibility: {
+          status: eligibility.status,
+          sessionsPresent: eligibility.sessionsPresent,
+          sessionsMissed: eligibility.sessionsMissed,
+          sessionsExcused: eligibility.sessionsExcused,
+          remainingAbsences: eligibility.remainingAbsences,
+        },
         sessions: sessionDetails,
       };
     });
@@ -0,0 +1,44 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { loadAssignmentRoster } from '@/lib/services/assignments';
+
+/**
+ * GET /api/admin/assignments/[id]/submissions
+ *
+ * Every student in the assignment's cohort with their submission, including
+ * those who have not submitted.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: assignmentId } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: assignment, error } = await adminClient
+      .from('assignments')
+      .select('*')
+      .eq('id', assignmentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!assignment) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 });
+    }
+
+    const result = await loadAssignmentRoster(adminClient, assignment);
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ assignment, roster: result.roster });
+  } catch (error) {
+    console.error('Error fetching assignment submissions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
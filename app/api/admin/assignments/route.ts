@@ -0,0 +1,197 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+
+// GET - List assignments with submission counts
+export async function GET(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const cohortId = searchParams.get('cohort_id');
+    const weekNumber = searchParams.get('week_number');
+
+    const adminClient = await createAdminClient();
+
+    let query = adminClient
+      .from('assignments')
+      .select('*, assignment_submissions(status)')
+      .order('week_number', { ascending: true })
+      .order('order_index', { ascending: true });
+
+    if (cohortId) {
+      query = query.eq('cohort_id', cohortId);
+    }
+
+    if (weekNumber) {
+      query = query.eq('week_number', parseInt(weekNumber));
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    const assignments = (data || []).map(row => {
+      const { assignment_submissions, ...assignment } = row as Record<string, unknown> & {
+        assignment_submissions?: { status: string }[];
+      };
+      const submissions = (assignment_submissions || []).filter(s => s.status !== 'draft');
+      return {
+        ...assignment,
+        submission_count: submissions.length,
+        graded_count: submissions.filter(s => s.status === 'graded').length,
+      };
+    });
+
+    return NextResponse.json({ assignments });
+  } catch (error) {
+    console.error('Error fetching assignments:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create assignment
+export async function POST(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json();
+    const { cohort_id, week_number, title, description, due_date, order_index } = body;
+
+    if (!cohort_id || !week_number || !title) {
+      return NextResponse.json(
+        { error: 'cohort_id, week_number, and title are required' },
+        { status: 400 }
+      );
+    }
+
+    const adminClient = await createAdminClient();
+
+    const { data: assignment, error } = await adminClient
+      .from('assignments')
+      .insert({
+        cohort_id,
+        week_number,
+        title,
+        description: description || null,
+        due_date: due_date || null,
+        order_index: order_index || 0,
+        max_score: body.max_score ?? 100,
+        grace_period_minutes: body.grace_period_minutes ?? 5,
+        created_by: auth.userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ assignment });
+  } catch (error) {
+    console.error('Error creating assignment:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Update assignment
+export async function PUT(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json();
+    const { id, ...updates } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'Assignment ID is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const updateData: Record<string, unknown> = {};
+
+    if (updates.title !== undefined) updateData.title = updates.title;
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.week_number !== undefined) updateData.week_number = updates.week_number;
+    if (updates.due_date !== undefined) updateData.due_date = updates.due_date;
+    if (updates.order_index !== undefined) updateData.order_index = updates.order_index;
+    if (updates.max_score !== undefined) updateData.max_score = updates.max_score;
+    if (updates.grace_period_minutes !== undefined) updateData.grace_period_minutes = updates.grace_period_minutes;
+    if (updates.submissions_closed !== undefined) updateData.submissions_closed = updates.submissions_closed;
+    if (updates.is_archived !== undefined) updateData.is_archived = updates.is_archived;
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
+    }
+    updateData.updated_at = new Date().toISOString();
+
+    const { data: assignment, error } = await adminClient
+      .from('assignments')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ assignment });
+  } catch (error) {
+    console.error('Error updating assignment:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Delete assignment, or archive it once students have submitted
+export async function DELETE(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'Assignment ID is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const { count: submissionCount } = await adminClient
+      .from('assignment_submissions')
+      .select('id', { count: 'exact', head: true })
+      .eq('assignment_id', id);
+
+    if (submissionCount && submissionCount > 0) {
+      const { error: archiveError } = await adminClient
+        .from('assignments')
+        .update({ is_archived: true, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (archiveError) throw archiveError;
+
+      return NextResponse.json({
+        success: true,
+        archived: true,
+        message: `Assignment archived (has ${submissionCount} submission(s))`,
+      });
+    }
+
+    const { error } = await adminClient.from('assignments').delete().eq('id', id);
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting assignment:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
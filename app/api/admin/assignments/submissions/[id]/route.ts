@@ -0,0 +1,52 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { gradeAssignmentSubmission } from '@/lib/services/assignments';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  forbidden: 403,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * PUT /api/admin/assignments/submissions/[id]
+ * Body: { grade: number, feedback?: string }
+ *
+ * Grades a student's submission, or changes an existing grade.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: submissionId } = await params;
+    const body = await request.json();
+    const adminClient = await createAdminClient();
+
+    const result = await gradeAssignmentSubmission(
+      adminClient,
+      submissionId,
+      { grade: body.grade, feedback: body.feedback },
+      auth.userId
+    );
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ submission: result.submission });
+  } catch (error) {
+    console.error('Error grading assignment submission:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
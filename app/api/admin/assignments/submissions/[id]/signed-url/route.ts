@@ -0,0 +1,46 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+
+/**
+ * GET /api/admin/assignments/submissions/[id]/signed-url
+ *
+ * Generates a 1-hour signed URL for a submitted assignment file.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: submissionId } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: submission } = await adminClient
+      .from('assignment_submissions')
+      .select('file_path')
+      .eq('id', submissionId)
+      .maybeSingle();
+
+    if (!submission?.file_path) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const { data: signedUrl, error: signedError } = await adminClient.storage
+      .from('resources')
+      .createSignedUrl(submission.file_path, 3600);
+
+    if (signedError || !signedUrl) {
+      return NextResponse.json({ error: 'Failed to generate signed URL' }, { status: 500 });
+    }
+
+    return NextResponse.json({ signedUrl: signedUrl.signedUrl });
+  } catch (error) {
+    console.error('Error generating assignment signed URL:', error);
+    return NextResponse.json({ error: 'Failed to generate signed URL' }, { status: 500 });
+  }
+}
@@ -2,8 +2,13 @@ import { createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { attendanceService } from '@/lib/services/attendance';
 import { verifyAdmin } from '@/lib/api/verify-admin';
+import {
+  buildParticipantSuggestions,
+  confirmParticipantMatches,
+  type ConfirmMatchInput,
+} from '@/lib/services/participant-suggestions';
 
-// GET - Get unmatched attendance emails or aliases for a user
+// GET - Get unmatched attendance emails, ranked match suggestions, or aliases for a user
 export async function GET(request: NextRequest) {
   const auth = await verifyAdmin();
   if (!auth.authorized) {
@@ -23,6 +28,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ aliases });
     }
 
+    // Ranked candidate profiles for every unmatched participant
+    if (action === 'suggestions') {
+      const suggestions = await buildParticipantSuggestions(adminClient);
+      return NextResponse.json({ suggestions });
+    }
+
     // Get all unmatched attendance emails
     if (action === 'unmatched') {
       const { data: unmatched } = await adminClient
@@ -67,7 +78,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Create email alias and re-match attendance
+// POST - Create email alias and re-match attendance, or bulk-confirm suggestions ({ matches })
 export async function POST(request: NextRequest) {
   const auth = await verifyAdmin();
   if (!auth.authorized) {
@@ -76,6 +87,23 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
+
+    // Bulk-confirm suggestions: link each participant, then recalculate affected sessions
+    if (Array.isArray(body.matches)) {
+      const matches = (body.matches as ConfirmMatchInput[]).filter(
+        (m) => m && typeof m.participant === 'string' && m.participant.trim() && typeof m.user_id === 'string' && m.user_id
+      );
+
+      if (matches.length === 0) {
+        return NextResponse.json({ error: 'matches must include participant and user_id' }, { status: 400 });
+      }
+
+      const adminClient = await createAdminClient();
+      const result = await confirmParticipantMatches(adminClient, auth.userId, matches);
+
+      return NextResponse.json({ success: true, ...result });
+    }
+
     const { user_id, alias_email } = body;
 
     if (!user_id || !alias_email) {
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { createAdminClient } from '@/lib/supabase/server';
+import { loadRiskThresholds, runAtRiskEvaluation } from '@/lib/services/at-risk';
+
+/**
+ * GET: At-risk thresholds for a cohort (?cohort_id=...).
+ * Returns the stored row (or null) and the effective rules, which fall back
+ * to DEFAULT_AT_RISK_RULES.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const cohortId = new URL(request.url).searchParams.get('cohort_id');
+    if (!cohortId) {
+      return NextResponse.json({ error: 'cohort_id is required' }, { status: 400 });
+    }
+
+    const supabase = await createAdminClient();
+    const { rules, thresholds } = await loadRiskThresholds(supabase, cohortId);
+
+    return NextResponse.json({ thresholds, rules });
+  } catch (error) {
+    console.error('[at-risk] Error loading thresholds:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load at-risk thresholds' },
+      { status: 500 }
+    );
+  }
+}
+
+function isOptionalPositiveInt(value: unknown) {
+  return value === null || (Number.isInteger(value) && (value as number) > 0);
+}
+
+function isOptionalPercentage(value: unknown) {
+  return value === null || (typeof value === 'number' && value >= 0 && value <= 100);
+}
+
+/**
+ * PUT: Create or replace a cohort's at-risk thresholds. Null disables a signal.
+ * Body: { cohortId, enabled, consecutiveAbsences, attendanceWindowSessions,
+ *         minAttendancePercentage, inactiveDays, minVideoCompletion, missedCaseStudies }
+ */
+export async function PUT(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json();
+    const {
+      cohortId,
+      enabled = true,
+      consecutiveAbsences = null,
+      attendanceWindowSessions,
+      minAttendancePercentage = null,
+      inactiveDays = null,
+      minVideoCompletion = null,
+      missedCaseStudies = null,
+    } = body;
+
+    if (!cohortId) {
+      return NextResponse.json({ error: 'cohortId is required' }, { status: 400 });
+    }
+    if (!Number.isInteger(attendanceWindowSessions) || attendanceWindowSessions < 1) {
+      return NextResponse.json({ error: 'attendanceWindowSessions must be a positive integer' }, { status: 400 });
+    }
+    if (![consecutiveAbsences, inactiveDays, missedCaseStudies].every(isOptionalPositiveInt)) {
+      return NextResponse.json(
+        { error: 'consecutiveAbsences, inactiveDays and missedCaseStudies must be positive integers or null' },
+        { status: 400 }
+      );
+    }
+    if (![minAttendancePercentage, minVideoCompletion].every(isOptionalPercentage)) {
+      return NextResponse.json(
+        { error: 'minAttendancePercentage and minVideoCompletion must be between 0 and 100 or null' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createAdminClient();
+    const { data: thresholds, error } = await supabase
+      .from('at_risk_thresholds')
+      .upsert(
+        {
+          cohort_id: cohortId,
+          enabled: Boolean(enabled),
+          consecutive_absences: consecutiveAbsences,
+          attendance_window_sessions: attendanceWindowSessions,
+          min_attendance_percentage: minAttendancePercentage,
+          inactive_days: inactiveDays,
+          min_video_completion: minVideoCompletion,
+          missed_case_studies: missedCaseStudies,
+          updated_by: auth.userId,
+        },
+        { onConflict: 'cohort_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ thresholds });
+  } catch (error) {
+    console.error('[at-risk] Error saving thresholds:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save at-risk thresholds' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST: Evaluate a cohort now instead of waiting for the daily cron.
+ * Body: { cohortId }
+ */
+export async function POST(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { cohortId } = await request.json();
+    if (!cohortId) {
+      return NextResponse.json({ error: 'cohortId is required' }, { status: 400 });
+    }
+
+    const supabase = await createAdminClient();
+    const result = await runAtRiskEvaluation(supabase, { cohortId });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[at-risk] Error evaluating cohort:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to evaluate at-risk students' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { adjudicateClaim, CLAIM_EVIDENCE_BUCKET } from '@/lib/services/attendance-claims';
+
+const EVIDENCE_URL_TTL_SECONDS = 300;
+
+// GET - Claim detail with audit trail and signed evidence URLs
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: claim } = await adminClient
+      .from('attendance_claims')
+      .select('*, session:sessions(id, title, scheduled_at), user:profiles!attendance_claims_user_id_fkey(id, full_name, email)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!claim) {
+      return NextResponse.json({ error: 'Claim not found' }, { status: 404 });
+    }
+
+    const [{ data: events }, { data: attendance }] = await Promise.all([
+      adminClient
+        .from('attendance_claim_events')
+        .select('*, actor:profiles(full_name, email)')
+        .eq('claim_id', id)
+        .order('created_at', { ascending: true }),
+      adminClient
+        .from('attendance')
+        .select('id, attendance_percentage, duration_seconds, join_time, leave_time, attendance_segments(join_time, leave_time, duration_seconds)')
+        .eq('session_id', claim.session_id)
+        .eq('user_id', claim.user_id)
+        .maybeSingle(),
+    ]);
+
+    const evidence = await Promise.all(
+      (claim.evidence_paths || []).map(async (path: string) => {
+        const { data } = await adminClient.storage
+          .from(CLAIM_EVIDENCE_BUCKET)
+          .createSignedUrl(path, EVIDENCE_URL_TTL_SECONDS);
+        return { path, url: data?.signedUrl || null };
+      })
+    );
+
+    return NextResponse.json({ claim, events: events || [], attendance: attendance || null, evidence });
+  } catch (error) {
+    console.error('Error fetching attendance claim:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH - Approve or reject a claim
+// Body: { decision: 'approve' | 'reject', resolution?, alias_email?, join_time?, leave_time?, note? }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { decision, resolution, alias_email, join_time, leave_time, note } = body;
+
+    if (decision !== 'approve' && decision !== 'reject') {
+      return NextResponse.json({ error: 'decision must be "approve" or "reject"' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const result = await adjudicateClaim(adminClient, {
+      claimId: id,
+      adminId: auth.userId,
+      decision,
+      resolution,
+      aliasEmail: alias_email,
+      joinTime: join_time,
+      leaveTime: leave_time,
+      note,
+    });
+
+    if (!result.ok) {
+      const status =
+        result.error.stage === 'not_found' ? 404
+        : result.error.stage === 'not_pending' ? 409
+        : result.error.stage === 'update' || result.error.stage === 'override' ? 500
+        : 400;
+      return NextResponse.json({ error: result.error.message }, { status });
+    }
+
+    return NextResponse.json({ claim: result.claim, recalculation: result.recalculation });
+  } catch (error) {
+    console.error('Error adjudicating attendance claim:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
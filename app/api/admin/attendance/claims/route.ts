@@ -0,0 +1,63 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+
+const CLAIM_STATUSES = ['pending', 'approved', 'rejected', 'withdrawn', 'all'];
+
+// GET - Attendance claim review queue (default: pending, oldest first)
+export async function GET(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'pending';
+
+    if (!CLAIM_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status filter' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    let query = adminClient
+      .from('attendance_claims')
+      .select('*, session:sessions(id, title, scheduled_at), user:profiles!attendance_claims_user_id_fkey(id, full_name, email)')
+      .order('created_at', { ascending: status === 'pending' });
+
+    if (status !== 'all') {
+      query = query.eq('status', status);
+    }
+
+    const { data: claims, error } = await query;
+    if (error) throw error;
+
+    // Attach each student's current percentage for the disputed session
+    const sessionIds = [...new Set((claims || []).map((c) => c.session_id))];
+    const userIds = [...new Set((claims || []).map((c) => c.user_id))];
+
+    const { data: attendance } = sessionIds.length > 0
+      ? await adminClient
+          .from('attendance')
+          .select('session_id, user_id, attendance_percentage')
+          .in('session_id', sessionIds)
+          .in('user_id', userIds)
+      : { data: [] };
+
+    const percentageByKey = new Map<string, number | null>();
+    for (const a of attendance || []) {
+      percentageByKey.set(`${a.session_id}:${a.user_id}`, a.attendance_percentage);
+    }
+
+    const enriched = (claims || []).map((c) => ({
+      ...c,
+      current_percentage: percentageByKey.get(`${c.session_id}:${c.user_id}`) ?? null,
+    }));
+
+    return NextResponse.json({ claims: enriched });
+  } catch (error) {
+    console.error('Error fetching attendance claims:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
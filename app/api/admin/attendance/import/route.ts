@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { createAdminClient } from '@/lib/supabase/server';
+import { IMPORT_SOURCES, parseAttendanceFile } from '@/lib/services/attendance-file-parser';
+import {
+  applyAttendanceImport,
+  previewAttendanceImport,
+  resolveImportDuration,
+} from '@/lib/services/attendance-import';
+import type { AttendanceImportSource } from '@/types';
+
+const MAX_FILE_CHARS = 2 * 1024 * 1024;
+
+/**
+ * Parse and validate the request body shared by preview and apply.
+ * Body: { sessionId, csvContent, fileName?, source?, timezoneOffsetMinutes, durationMinutes? }
+ */
+async function prepareImport(request: NextRequest) {
+  const body = await request.json();
+  const { sessionId, csvContent, fileName, source, timezoneOffsetMinutes, durationMinutes } = body;
+
+  if (!sessionId || typeof csvContent !== 'string' || !csvContent.trim()) {
+    return { response: NextResponse.json({ error: 'sessionId and csvContent are required' }, { status: 400 }) };
+  }
+  if (csvContent.length > MAX_FILE_CHARS) {
+    return { response: NextResponse.json({ error: 'File is too large (max 2MB)' }, { status: 400 }) };
+  }
+  if (source && !IMPORT_SOURCES.includes(source)) {
+    return { response: NextResponse.json({ error: 'Invalid source' }, { status: 400 }) };
+  }
+  if (durationMinutes != null && (typeof durationMinutes !== 'number' || durationMinutes <= 0)) {
+    return { response: NextResponse.json({ error: 'durationMinutes must be a positive number' }, { status: 400 }) };
+  }
+
+  const supabase = await createAdminClient();
+
+  const { data: session } = await supabase
+    .from('sessions')
+    .select('id, scheduled_at')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (!session) {
+    return { response: NextResponse.json({ error: 'Session not found' }, { status: 404 }) };
+  }
+
+  const parsed = parseAttendanceFile(csvContent, {
+    source: (source as AttendanceImportSource) || undefined,
+    sessionDate: session.scheduled_at,
+    timezoneOffsetMinutes: Number(timezoneOffsetMinutes) || 0,
+  });
+
+  if (!parsed.ok) {
+    return { response: NextResponse.json({ error: parsed.error.message, stage: parsed.error.stage }, { status: 400 }) };
+  }
+
+  const duration = await resolveImportDuration(supabase, sessionId, parsed.participants, durationMinutes);
+  if (!duration) {
+    return { response: NextResponse.json({ error: 'Could not determine meeting duration from any source' }, { status: 400 }) };
+  }
+
+  return {
+    supabase,
+    sessionId: sessionId as string,
+    fileName: typeof fileName === 'string' ? fileName : null,
+    parsed,
+    duration,
+  };
+}
+
+/**
+ * POST: Preview an attendance file import.
+ * Runs the calculator pipeline without writing and returns what would be stored.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const prepared = await prepareImport(request);
+    if (prepared.response) return prepared.response;
+
+    const { supabase, sessionId, parsed, duration } = prepared;
+    const rows = await previewAttendanceImport(supabase, sessionId, parsed.participants, duration.minutes);
+
+    return NextResponse.json({
+      source: parsed.source,
+      durationMinutes: duration.minutes,
+      durationSource: duration.source,
+      rowsParsed: parsed.participants.length,
+      skipped: parsed.skipped,
+      rows,
+      summary: {
+        total: rows.length,
+        matched: rows.filter((r) => r.userId).length,
+        unmatched: rows.filter((r) => !r.userId).length,
+      },
+    });
+  } catch (error) {
+    console.error('[attendance-import] Error previewing import:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to preview import' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT: Apply an attendance file import.
+ * Replaces the session's attendance, same as a Zoom import.
+ */
+export async function PUT(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const prepared = await prepareImport(request);
+    if (prepared.response) return prepared.response;
+
+    const { supabase, sessionId, fileName, parsed, duration } = prepared;
+    const result = await applyAttendanceImport(supabase, {
+      sessionId,
+      source: parsed.source,
+      fileName,
+      participants: parsed.participants,
+      durationMinutes: duration.minutes,
+      importedBy: auth.userId,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error.message, stage: result.error.stage }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      importId: result.importId,
+      imported: result.imported,
+      unmatched: result.unmatched,
+      durationMinutes: duration.minutes,
+    });
+  } catch (error) {
+    console.error('[attendance-import] Error applying import:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to apply import' },
+      { status: 500 }
+    );
+  }
+}
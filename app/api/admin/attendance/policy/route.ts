@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { createAdminClient } from '@/lib/supabase/server';
+import { loadAttendancePolicy } from '@/lib/services/attendance-policy';
+
+/**
+ * GET: Attendance policy for a cohort (?cohort_id=...).
+ * Returns the stored row (or null) and the effective rules, which fall back
+ * to DEFAULT_ATTENDANCE_POLICY.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const cohortId = new URL(request.url).searchParams.get('cohort_id');
+    if (!cohortId) {
+      return NextResponse.json({ error: 'cohort_id is required' }, { status: 400 });
+    }
+
+    const supabase = await createAdminClient();
+    const { rules, policy } = await loadAttendancePolicy(supabase, cohortId);
+
+    return NextResponse.json({ policy, rules });
+  } catch (error) {
+    console.error('[attendance-policy] Error loading policy:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load attendance policy' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT: Create or replace a cohort's attendance policy.
+ * Body: { cohortId, minSessionPercentage, lateJoinGraceMinutes, maxMissedSessions,
+ *         excusedAbsencesAllowed, gateCertificates }
+ */
+export async function PUT(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json();
+    const {
+      cohortId,
+      minSessionPercentage,
+      lateJoinGraceMinutes,
+      maxMissedSessions,
+      excusedAbsencesAllowed = true,
+      gateCertificates = false,
+    } = body;
+
+    if (!cohortId) {
+      return NextResponse.json({ error: 'cohortId is required' }, { status: 400 });
+    }
+    if (typeof minSessionPercentage !== 'number' || minSessionPercentage < 0 || minSessionPercentage > 100) {
+      return NextResponse.json({ error: 'minSessionPercentage must be between 0 and 100' }, { status: 400 });
+    }
+    if (!Number.isInteger(lateJoinGraceMinutes) || lateJoinGraceMinutes < 0 || lateJoinGraceMinutes > 60) {
+      return NextResponse.json({ error: 'lateJoinGraceMinutes must be an integer between 0 and 60' }, { status: 400 });
+    }
+    if (!Number.isInteger(maxMissedSessions) || maxMissedSessions < 0) {
+      return NextResponse.json({ error: 'maxMissedSessions must be a non-negative integer' }, { status: 400 });
+    }
+
+    const supabase = await createAdminClient();
+    const { data: policy, error } = await supabase
+      .from('attendance_policies')
+      .upsert(
+        {
+          cohort_id: cohortId,
+          min_session_percentage: minSessionPercentage,
+          late_join_grace_minutes: lateJoinGraceMinutes,
+          max_missed_sessions: maxMissedSessions,
+          excused_absences_allowed: Boolean(excusedAbsencesAllowed),
+          gate_certificates: Boolean(gateCertificates),
+          updated_by: auth.userId,
+        },
+        { onConflict: 'cohort_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error('[attendance-policy] Error saving policy:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save attendance policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { getCaseStudyAnalytics } from '@/lib/services/case-study-analytics';
+
+const STAGE_STATUS: Record<string, number> = {
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * GET /api/admin/case-studies/[id]/analytics
+ *
+ * Funnel, submission timing, score distributions and reviewer turnaround for
+ * the case study. `analytics[0]` is this case study; the rest are the same
+ * case study in other cohorts, for comparison.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await getCaseStudyAnalytics(adminClient, caseStudyId);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ analytics: result.analytics });
+  } catch (error) {
+    console.error('Error fetching case study analytics:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { adjudicateSubmission } from '@/lib/services/review-calibration';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * POST /api/admin/case-studies/[id]/calibration/adjudicate
+ *
+ * Resolve a reviewer disagreement. The adjudicating admin's own review is the
+ * final score; this records who decided and why, and unblocks publishing.
+ * Body: { submission_id, note? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const { submission_id, note } = await request.json();
+
+    if (!submission_id) {
+      return NextResponse.json({ error: 'submission_id is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+    const result = await adjudicateSubmission(adminClient, {
+      caseStudyId,
+      submissionId: submission_id,
+      adjudicatorId: auth.userId,
+      note: typeof note === 'string' && note.trim() ? note.trim() : null,
+    });
+
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json({ error: result.error.message }, { status: STAGE_STATUS[result.error.stage] });
+    }
+
+    return NextResponse.json({ success: true, adjudicated_at: result.adjudicatedAt });
+  } catch (error) {
+    console.error('Error adjudicating submission:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { getCaseStudyCalibration } from '@/lib/services/review-calibration';
+
+/**
+ * GET /api/admin/case-studies/[id]/calibration
+ *
+ * Calibration settings plus per-submission reviewer agreement (score spread,
+ * per-criterion variance, disagreement flag), most disputed first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await getCaseStudyCalibration(adminClient, caseStudyId);
+    if (!result.ok) {
+      if (result.error.stage === 'not_found') {
+        return NextResponse.json({ error: result.error.message }, { status: 404 });
+      }
+      throw new Error(result.error.message);
+    }
+
+    return NextResponse.json({ settings: result.settings, submissions: result.submissions });
+  } catch (error) {
+    console.error('Error fetching calibration:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/admin/case-studies/[id]/calibration
+ *
+ * Body: { calibration_mode?: boolean, calibration_threshold?: number (0-100) }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const { calibration_mode, calibration_threshold } = await request.json();
+
+    const updateData: Record<string, unknown> = {};
+    if (calibration_mode !== undefined) {
+      if (typeof calibration_mode !== 'boolean') {
+        return NextResponse.json({ error: 'calibration_mode must be a boolean' }, { status: 400 });
+      }
+      updateData.calibration_mode = calibration_mode;
+    }
+    if (calibration_threshold !== undefined) {
+      if (typeof calibration_threshold !== 'number' || calibration_threshold < 0 || calibration_threshold > 100) {
+        return NextResponse.json({ error: 'calibration_threshold must be between 0 and 100' }, { status: 400 });
+      }
+      updateData.calibration_threshold = calibration_threshold;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+    const { data: caseStudy, error } = await adminClient
+      .from('case_studies')
+      .update(updateData)
+      .eq('id', caseStudyId)
+      .select('id, calibration_mode, calibration_threshold')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!caseStudy) {
+      return NextResponse.json({ error: 'Case study not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ caseStudy });
+  } catch (error) {
+    console.error('Error updating calibration settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
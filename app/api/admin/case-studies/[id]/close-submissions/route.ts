@@ -1,12 +1,16 @@
 import { createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
+import { assignPeerReviews } from '@/lib/services/peer-review';
 
 /**
  * PUT /api/admin/case-studies/[id]/close-submissions
  *
  * Manually close/reopen submissions for open-ended case studies.
  * Body: { closed: boolean }
+ *
+ * Closing a case study with peer review enabled assigns the peer reviews
+ * (first close only); the response carries how many were created.
  */
 export async function PUT(
   request: NextRequest,
@@ -28,14 +32,30 @@ export async function PUT(
 
     const adminClient = await createAdminClient();
 
-    const { error } = await adminClient
+    const { data: caseStudy, error } = await adminClient
       .from('case_studies')
       .update({ submissions_closed: closed })
-      .eq('id', caseStudyId);
+      .eq('id', caseStudyId)
+      .select('peer_review_enabled')
+      .maybeSingle();
 
     if (error) throw error;
 
-    return NextResponse.json({ success: true, submissions_closed: closed });
+    let peerReviewsAssigned = 0;
+    if (closed && caseStudy?.peer_review_enabled) {
+      const result = await assignPeerReviews(adminClient, caseStudyId);
+      if (result.ok) {
+        peerReviewsAssigned = result.created;
+      } else if (result.error.stage === 'database') {
+        throw new Error(result.error.message);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      submissions_closed: closed,
+      peer_reviews_assigned: peerReviewsAssigned,
+    });
   } catch (error) {
     console.error('Error toggling submissions:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
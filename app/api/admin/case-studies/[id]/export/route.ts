@@ -0,0 +1,114 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+
+/**
+ * GET /api/admin/case-studies/[id]/export
+ *
+ * Scores for every subgroup as CSV: raw score, late penalty and adjusted
+ * score for the admin and mentor reviews, plus lateness and any override.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: caseStudy } = await adminClient
+      .from('case_studies')
+      .select('id, cohort_id, title, max_score')
+      .eq('id', caseStudyId)
+      .maybeSingle();
+
+    if (!caseStudy) {
+      return NextResponse.json({ error: 'Case study not found' }, { status: 404 });
+    }
+
+    const [{ data: subgroups }, { data: submissions }] = await Promise.all([
+      adminClient
+        .from('subgroups')
+        .select('id, name')
+        .eq('cohort_id', caseStudy.cohort_id)
+        .order('name'),
+      adminClient
+        .from('case_study_submissions')
+        .select('id, subgroup_id, visibility, submitted_at, is_late, late_minutes, late_penalty_override, late_penalty_override_reason')
+        .eq('case_study_id', caseStudyId),
+    ]);
+
+    const subIds = (submissions || []).map(s => s.id);
+    const { data: reviews } = subIds.length
+      ? await adminClient
+          .from('case_study_reviews')
+          .select('submission_id, reviewer_role, score, late_penalty, adjusted_score')
+          .in('submission_id', subIds)
+      : { data: [] };
+
+    const reviewFor = (submissionId: string, role: 'admin' | 'mentor') =>
+      (reviews || []).find(r => r.submission_id === submissionId && r.reviewer_role === role);
+    const bySubgroup = new Map((submissions || []).map(s => [s.subgroup_id as string, s]));
+
+    const headers = [
+      'Subgroup',
+      'Status',
+      'Submitted At',
+      'Late',
+      'Minutes Late',
+      'Admin Raw Score',
+      'Admin Late Penalty',
+      'Admin Adjusted Score',
+      'Mentor Raw Score',
+      'Mentor Late Penalty',
+      'Mentor Adjusted Score',
+      'Penalty Override',
+      'Override Reason',
+      'Max Score',
+    ];
+
+    let csv = headers.join(',') + '\n';
+
+    for (const sg of subgroups || []) {
+      const sub = bySubgroup.get(sg.id);
+      const admin = sub ? reviewFor(sub.id, 'admin') : undefined;
+      const mentor = sub ? reviewFor(sub.id, 'mentor') : undefined;
+      const row = [
+        sg.name,
+        sub?.visibility ?? 'not_submitted',
+        sub?.submitted_at ?? '',
+        sub?.is_late ? 'yes' : 'no',
+        sub?.late_minutes ?? 0,
+        admin?.score ?? '',
+        admin ? admin.late_penalty : '',
+        admin?.adjusted_score ?? '',
+        mentor?.score ?? '',
+        mentor ? mentor.late_penalty : '',
+        mentor?.adjusted_score ?? '',
+        sub?.late_penalty_override ?? '',
+        sub?.late_penalty_override_reason ?? '',
+        caseStudy.max_score,
+      ];
+
+      csv += row.map(field => `"${String(field).replace(/"/g, '""')}"`).join(',') + '\n';
+    }
+
+    const slug = caseStudy.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'case-study';
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${slug}-scores-${new Date().toISOString().split('T')[0]}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting case study scores:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,15 +1,60 @@
 import { createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
+import { getMentorSubgroupIds, grantExtension, listExtensionLog } from '@/lib/services/deadline-extensions';
+import type { ExtensionScope } from '@/types';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  conflict: 409,
+  database: 500,
+};
+
+/**
+ * GET /api/admin/case-studies/[id]/extend-deadline
+ *
+ * Extension log for the case study: every grant, newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await listExtensionLog(adminClient, caseStudyId);
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ log: result.log });
+  } catch (error) {
+    console.error('Error fetching extension log:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
 
 /**
  * PUT /api/admin/case-studies/[id]/extend-deadline
  *
- * Extend deadline at cohort level OR per-subgroup.
- * Body: { due_date: ISO string, subgroup_id?: UUID }
+ * Extend the deadline for the cohort, some subgroups, or one student.
+ * Body: {
+ *   due_date: ISO string,
+ *   reason?: string,
+ *   subgroup_id?: UUID,          // one subgroup
+ *   subgroup_ids?: UUID[],       // several subgroups
+ *   mentor_id?: UUID,            // every subgroup this mentor looks after
+ *   student_id?: UUID,           // one student (personal extension)
+ * }
  *
- * If subgroup_id provided: sets deadline_override on that submission.
- * If not: updates the case study's due_date for all subgroups.
+ * With no target the case study's due_date moves for all subgroups.
+ * Subgroup targets set deadline_override on their submissions.
+ * Every grant is written to the extension log.
  */
 export async function PUT(
   request: NextRequest,
@@ -23,7 +68,7 @@ export async function PUT(
   try {
     const { id: caseStudyId } = await params;
     const body = await request.json();
-    const { due_date, subgroup_id } = body;
+    const { due_date, reason, subgroup_id, subgroup_ids, mentor_id, student_id } = body;
 
     if (!due_date) {
       return NextResponse.json({ error: 'due_date is required' }, { status: 400 });
@@ -35,94 +80,69 @@ export async function PUT(
       return NextResponse.json({ error: 'Invalid date format for due_date' }, { status: 400 });
     }
 
+    if (subgroup_ids !== undefined && (!Array.isArray(subgroup_ids) || subgroup_ids.some(id => typeof id !== 'string'))) {
+      return NextResponse.json({ error: 'subgroup_ids must be an array of ids' }, { status: 400 });
+    }
+
     const adminClient = await createAdminClient();
 
-    if (subgroup_id) {
-      // Verify subgroup exists and belongs to this case study's cohort
-      const { data: cs } = await adminClient
-        .from('case_studies')
-        .select('cohort_id')
-        .eq('id', caseStudyId)
-        .single();
-      if (cs) {
-        const { data: sg } = await adminClient
-          .from('subgroups')
-          .select('id')
-          .eq('id', subgroup_id)
-          .eq('cohort_id', cs.cohort_id)
-          .maybeSingle();
-        if (!sg) {
-          return NextResponse.json({ error: 'Subgroup not found in this cohort' }, { status: 404 });
-        }
-      }
-      // Per-subgroup extension
-      const { data: submission } = await adminClient
-        .from('case_study_submissions')
-        .select('id, visibility')
-        .eq('case_study_id', caseStudyId)
-        .eq('subgroup_id', subgroup_id)
-        .maybeSingle();
-
-      if (submission) {
-        // Only extend if not already reviewed
-        const reviewed = ['admin_reviewed', 'mentor_visible', 'subgroup_published', 'cohort_published'];
-        const alreadyReviewed = reviewed.includes(submission.visibility);
-
-        await adminClient
-          .from('case_study_submissions')
-          .update({
-            deadline_override: due_date,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', submission.id);
-
-        return NextResponse.json({
-          success: true,
-          already_reviewed: alreadyReviewed,
-          message: alreadyReviewed
-            ? 'Deadline extended, but this submission is already reviewed'
-            : 'Deadline extended for subgroup',
-        });
-      } else {
-        // Create a draft submission with the override
-        await adminClient
-          .from('case_study_submissions')
-          .insert({
-            case_study_id: caseStudyId,
-            subgroup_id,
-            deadline_override: due_date,
-            visibility: 'draft',
-          });
-
-        return NextResponse.json({ success: true, message: 'Deadline set for subgroup' });
+    let scope: ExtensionScope = 'cohort';
+    let subgroupIds: string[] | undefined;
+    if (student_id) {
+      scope = 'student';
+    } else if (mentor_id) {
+      scope = 'subgroup';
+      subgroupIds = await getMentorSubgroupIds(adminClient, caseStudyId, mentor_id);
+      if (subgroupIds.length === 0) {
+        return NextResponse.json({ error: 'Mentor has no subgroups in this cohort' }, { status: 404 });
       }
+    } else if (subgroup_id || subgroup_ids) {
+      scope = 'subgroup';
+      subgroupIds = subgroup_id ? [subgroup_id] : subgroup_ids;
+    }
+
+    const result = await grantExtension(adminClient, {
+      caseStudyId,
+      scope,
+      subgroupIds,
+      studentId: student_id,
+      dueDate: parsedDate.toISOString(),
+      reason: typeof reason === 'string' ? reason.trim() : null,
+      grantedBy: auth.userId,
+    });
+
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    let message: string;
+    if (scope === 'cohort') {
+      message = result.alreadyReviewed > 0
+        ? `Deadline extended. ${result.alreadyReviewed} submission(s) already reviewed — extension only affects unreviewed.`
+        : 'Deadline extended for all subgroups';
+    } else if (scope === 'student') {
+      message = result.alreadyReviewed > 0
+        ? 'Deadline extended, but this submission is already reviewed'
+        : 'Deadline extended for student';
+    } else if (result.granted === 1) {
+      message = result.alreadyReviewed > 0
+        ? 'Deadline extended, but this submission is already reviewed'
+        : 'Deadline extended for subgroup';
     } else {
-      // Cohort-level extension — update case study due_date
-      // First check how many are already reviewed
-      const { data: submissions } = await adminClient
-        .from('case_study_submissions')
-        .select('id, visibility')
-        .eq('case_study_id', caseStudyId);
-
-      const reviewed = ['admin_reviewed', 'mentor_visible', 'subgroup_published', 'cohort_published'];
-      const reviewedCount = (submissions || []).filter(s => reviewed.includes(s.visibility)).length;
-
-      const { error } = await adminClient
-        .from('case_studies')
-        .update({ due_date })
-        .eq('id', caseStudyId);
-
-      if (error) throw error;
-
-      return NextResponse.json({
-        success: true,
-        reviewed_count: reviewedCount,
-        total_submissions: (submissions || []).length,
-        message: reviewedCount > 0
-          ? `Deadline extended. ${reviewedCount} submission(s) already reviewed — extension only affects unreviewed.`
-          : 'Deadline extended for all subgroups',
-      });
+      message = `Deadline extended for ${result.granted} subgroups`;
     }
+
+    return NextResponse.json({
+      success: true,
+      scope,
+      granted: result.granted,
+      already_reviewed: result.alreadyReviewed,
+      message,
+    });
   } catch (error) {
     console.error('Error extending deadline:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,94 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { recomputeAdjustedScores, validateLatePolicy } from '@/lib/services/late-penalty';
+
+/**
+ * GET /api/admin/case-studies/[id]/late-policy
+ *
+ * The case study's late policy and grace period.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: policy } = await adminClient
+      .from('case_studies')
+      .select('id, grace_period_minutes, late_policy, late_penalty_points, late_penalty_percent, late_penalty_unit, late_penalty_cap_percent, late_zero_after_hours')
+      .eq('id', caseStudyId)
+      .maybeSingle();
+
+    if (!policy) {
+      return NextResponse.json({ error: 'Case study not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error('Error fetching late policy:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/admin/case-studies/[id]/late-policy
+ *
+ * Body: {
+ *   late_policy: 'flag' | 'fixed' | 'percent' | 'zero_after',
+ *   late_penalty_points?: number,                       // fixed
+ *   late_penalty_percent?: number, late_penalty_unit?: 'hour' | 'day',
+ *   late_penalty_cap_percent?: number,                  // percent
+ *   late_zero_after_hours?: number,                     // zero_after
+ * }
+ *
+ * Adjusted scores on existing reviews are recomputed straight away.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const body = await request.json();
+
+    const validated = validateLatePolicy(body);
+    if (!validated.ok) {
+      return NextResponse.json({ error: validated.message }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const { data: policy, error } = await adminClient
+      .from('case_studies')
+      .update(validated.policy)
+      .eq('id', caseStudyId)
+      .select('id, late_policy, late_penalty_points, late_penalty_percent, late_penalty_unit, late_penalty_cap_percent, late_zero_after_hours')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!policy) {
+      return NextResponse.json({ error: 'Case study not found' }, { status: 404 });
+    }
+
+    const recomputed = await recomputeAdjustedScores(adminClient, { caseStudyId });
+    if (!recomputed.ok) throw new Error(recomputed.error.message);
+
+    return NextResponse.json({ policy, reviews_updated: recomputed.updated });
+  } catch (error) {
+    console.error('Error updating late policy:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
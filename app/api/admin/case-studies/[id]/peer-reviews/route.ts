@@ -0,0 +1,144 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { assignPeerReviews, summarizePeerReviews } from '@/lib/services/peer-review';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  conflict: 409,
+  database: 500,
+};
+
+/**
+ * GET /api/admin/case-studies/[id]/peer-reviews
+ *
+ * Peer review settings and progress (assigned / submitted / mean peer score).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: caseStudy } = await adminClient
+      .from('case_studies')
+      .select('id, submissions_closed, peer_review_enabled, peer_reviews_per_subgroup')
+      .eq('id', caseStudyId)
+      .maybeSingle();
+
+    if (!caseStudy) {
+      return NextResponse.json({ error: 'Case study not found' }, { status: 404 });
+    }
+
+    const { data: reviews, error } = await adminClient
+      .from('case_study_peer_reviews')
+      .select('status, score')
+      .eq('case_study_id', caseStudyId);
+
+    if (error) throw error;
+
+    return NextResponse.json({ settings: caseStudy, summary: summarizePeerReviews(reviews || []) });
+  } catch (error) {
+    console.error('Error fetching peer reviews:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/admin/case-studies/[id]/peer-reviews
+ *
+ * Body: { peer_review_enabled?: boolean, peer_reviews_per_subgroup?: number (1-5) }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const { peer_review_enabled, peer_reviews_per_subgroup } = await request.json();
+
+    const updateData: Record<string, unknown> = {};
+    if (peer_review_enabled !== undefined) {
+      if (typeof peer_review_enabled !== 'boolean') {
+        return NextResponse.json({ error: 'peer_review_enabled must be a boolean' }, { status: 400 });
+      }
+      updateData.peer_review_enabled = peer_review_enabled;
+    }
+    if (peer_reviews_per_subgroup !== undefined) {
+      if (!Number.isInteger(peer_reviews_per_subgroup) || peer_reviews_per_subgroup < 1 || peer_reviews_per_subgroup > 5) {
+        return NextResponse.json({ error: 'peer_reviews_per_subgroup must be between 1 and 5' }, { status: 400 });
+      }
+      updateData.peer_reviews_per_subgroup = peer_reviews_per_subgroup;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+    const { data: caseStudy, error } = await adminClient
+      .from('case_studies')
+      .update(updateData)
+      .eq('id', caseStudyId)
+      .select('id, submissions_closed, peer_review_enabled, peer_reviews_per_subgroup')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!caseStudy) {
+      return NextResponse.json({ error: 'Case study not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ caseStudy });
+  } catch (error) {
+    console.error('Error updating peer review settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/case-studies/[id]/peer-reviews
+ *
+ * Assign peer reviews now. Normally this happens when submissions are closed;
+ * use it when peer review was switched on after closing.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await assignPeerReviews(adminClient, caseStudyId);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ created: result.created }, { status: 201 });
+  } catch (error) {
+    console.error('Error assigning peer reviews:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,6 +2,8 @@ import { createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
 import { isValidTransition } from '@/lib/services/case-study-deadline';
+import { getUnresolvedDisagreements } from '@/lib/services/review-calibration';
+import { queueFeedbackDigests } from '@/lib/services/feedback-digest';
 import type { SubmissionVisibility } from '@/types';
 
 const TARGET_MAP: Record<string, SubmissionVisibility> = {
@@ -15,6 +17,10 @@ const TARGET_MAP: Record<string, SubmissionVisibility> = {
  *
  * Publish ALL eligible submissions to a target at once.
  * Body: { target: 'mentor'|'subgroup'|'cohort' }
+ *
+ * Submissions awaiting calibration adjudication are skipped for student-facing
+ * targets and reported as `blocked`. Submissions newly published to students
+ * get their feedback digests; `notified` counts them.
  */
 export async function POST(
   request: NextRequest,
@@ -46,15 +52,24 @@ export async function POST(
     if (subError) throw subError;
 
     // Filter to only those that can validly transition
-    const eligible = (submissions || []).filter(s =>
+    const transitionable = (submissions || []).filter(s =>
       isValidTransition(s.visibility as SubmissionVisibility, targetVisibility)
     );
 
+    const unresolved = target === 'mentor'
+      ? new Set<string>()
+      : await getUnresolvedDisagreements(adminClient, caseStudyId);
+    const eligible = transitionable.filter(s => !unresolved.has(s.id));
+    const blocked = transitionable.length - eligible.length;
+
     if (!eligible.length) {
       return NextResponse.json({
         success: true,
         updated: 0,
-        message: 'No submissions eligible for this transition',
+        blocked,
+        message: blocked
+          ? `${blocked} submission(s) need calibration adjudication before publishing`
+          : 'No submissions eligible for this transition',
       });
     }
 
@@ -67,9 +82,15 @@ export async function POST(
 
     if (updateError) throw updateError;
 
+    const digests = target !== 'mentor'
+      ? await queueFeedbackDigests(adminClient, caseStudyId, eligibleIds)
+      : null;
+
     return NextResponse.json({
       success: true,
       updated: eligibleIds.length,
+      blocked,
+      notified: digests?.submissionsNotified ?? 0,
       total: (submissions || []).length,
     });
   } catch (error) {
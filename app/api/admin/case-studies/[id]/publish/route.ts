@@ -2,6 +2,8 @@ import { createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
 import { isValidTransition } from '@/lib/services/case-study-deadline';
+import { getUnresolvedDisagreements } from '@/lib/services/review-calibration';
+import { queueFeedbackDigests } from '@/lib/services/feedback-digest';
 import type { SubmissionVisibility } from '@/types';
 
 const TARGET_MAP: Record<string, SubmissionVisibility> = {
@@ -15,6 +17,12 @@ const TARGET_MAP: Record<string, SubmissionVisibility> = {
  *
  * Publish a submission to a target audience.
  * Body: { target: 'mentor'|'subgroup'|'cohort', subgroup_id?: UUID }
+ *
+ * In calibration mode, submissions with unadjudicated reviewer disagreement
+ * cannot be published to students.
+ *
+ * Publishing to students queues the subgroup's feedback digest for email and
+ * WhatsApp, once per submission; `notified` reports whether it was queued.
  */
 export async function POST(
   request: NextRequest,
@@ -60,6 +68,16 @@ export async function POST(
       );
     }
 
+    if (target !== 'mentor') {
+      const unresolved = await getUnresolvedDisagreements(adminClient, caseStudyId);
+      if (unresolved.has(submission.id)) {
+        return NextResponse.json(
+          { error: 'Reviewers disagree on this submission. Adjudicate it before publishing.' },
+          { status: 409 }
+        );
+      }
+    }
+
     const { error: updateError } = await adminClient
       .from('case_study_submissions')
       .update({ visibility: targetVisibility, updated_at: new Date().toISOString() })
@@ -67,7 +85,15 @@ export async function POST(
 
     if (updateError) throw updateError;
 
-    return NextResponse.json({ success: true, visibility: targetVisibility });
+    const digests = target !== 'mentor'
+      ? await queueFeedbackDigests(adminClient, caseStudyId, [submission.id])
+      : null;
+
+    return NextResponse.json({
+      success: true,
+      visibility: targetVisibility,
+      notified: (digests?.submissionsNotified ?? 0) > 0,
+    });
   } catch (error) {
     console.error('Error publishing submission:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
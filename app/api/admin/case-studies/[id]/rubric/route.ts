@@ -0,0 +1,121 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { attachRubricTemplate, detachRubric, getCaseStudyRubric } from '@/lib/services/rubric';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  conflict: 409,
+  database: 500,
+};
+
+/**
+ * GET /api/admin/case-studies/[id]/rubric
+ *
+ * The case study's rubric criteria and the template they came from.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: caseStudy } = await adminClient
+      .from('case_studies')
+      .select('id, max_score, rubric_template_id')
+      .eq('id', caseStudyId)
+      .maybeSingle();
+
+    if (!caseStudy) {
+      return NextResponse.json({ error: 'Case study not found' }, { status: 404 });
+    }
+
+    const criteria = await getCaseStudyRubric(adminClient, caseStudyId);
+    return NextResponse.json({
+      criteria,
+      rubric_template_id: caseStudy.rubric_template_id,
+      max_score: caseStudy.max_score,
+    });
+  } catch (error) {
+    console.error('Error fetching case study rubric:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/case-studies/[id]/rubric
+ *
+ * Attach a rubric template (copies its criteria onto the case study).
+ * Body: { template_id, force?: boolean }
+ * Returns 409 if existing rubric scores would be removed and force is not set.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const { template_id, force } = await request.json();
+
+    if (!template_id) {
+      return NextResponse.json({ error: 'template_id is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+    const result = await attachRubricTemplate(adminClient, caseStudyId, template_id, { force: force === true });
+
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ criteria: result.criteria, rubric_template_id: template_id });
+  } catch (error) {
+    console.error('Error attaching rubric template:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/case-studies/[id]/rubric
+ *
+ * Remove the rubric (and any rubric scores) so reviews use a typed score.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await detachRubric(adminClient, caseStudyId);
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing case study rubric:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
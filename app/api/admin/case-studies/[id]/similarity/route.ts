@@ -0,0 +1,95 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { loadSimilarityBySubmission, runSimilarityCheck } from '@/lib/services/similarity';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * GET /api/admin/case-studies/[id]/similarity
+ *
+ * Flagged pairs from the latest check, keyed by submission, with the
+ * case study's threshold and when the check last ran.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: caseStudy } = await adminClient
+      .from('case_studies')
+      .select('similarity_threshold, similarity_checked_at')
+      .eq('id', caseStudyId)
+      .maybeSingle();
+
+    if (!caseStudy) {
+      return NextResponse.json({ error: 'Case study not found' }, { status: 404 });
+    }
+
+    const matches = await loadSimilarityBySubmission(adminClient, caseStudyId);
+
+    return NextResponse.json({
+      threshold: Number(caseStudy.similarity_threshold),
+      checked_at: caseStudy.similarity_checked_at,
+      matches,
+    });
+  } catch (error) {
+    console.error('Error fetching similarity:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/case-studies/[id]/similarity
+ *
+ * Run the similarity check now: submitted work in this case study against
+ * each other and against prior cohorts' submissions to the same case.
+ * Body (optional): { threshold?: number } — saved as the new threshold.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const adminClient = await createAdminClient();
+
+    const result = await runSimilarityCheck(adminClient, caseStudyId, { threshold: body.threshold });
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      checked: result.checked,
+      compared_prior: result.comparedPrior,
+      flagged: result.flagged,
+      threshold: result.threshold,
+    });
+  } catch (error) {
+    console.error('Error running similarity check:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { deleteAnnotation, updateAnnotation } from '@/lib/services/annotations';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * PUT /api/admin/case-studies/[id]/submissions/[submissionId]/annotations/[annotationId]
+ *
+ * Edit one of the admin's own annotations.
+ * Body: { comment?: string, color?: string }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; submissionId: string; annotationId: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { submissionId, annotationId } = await params;
+    const { comment, color } = await request.json();
+    const adminClient = await createAdminClient();
+
+    const result = await updateAnnotation(adminClient, submissionId, annotationId, auth.userId, { comment, color });
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ annotation: result.annotation });
+  } catch (error) {
+    console.error('Error updating annotation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/case-studies/[id]/submissions/[submissionId]/annotations/[annotationId]
+ *
+ * Remove any reviewer's annotation.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; submissionId: string; annotationId: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { submissionId, annotationId } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await deleteAnnotation(adminClient, submissionId, annotationId, null);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting annotation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
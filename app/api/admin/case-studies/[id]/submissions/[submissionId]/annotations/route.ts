@@ -0,0 +1,100 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { createAnnotation, listAnnotations } from '@/lib/services/annotations';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  database: 500,
+};
+
+async function submissionInCaseStudy(caseStudyId: string, submissionId: string) {
+  const adminClient = await createAdminClient();
+  const { data: submission } = await adminClient
+    .from('case_study_submissions')
+    .select('id')
+    .eq('id', submissionId)
+    .eq('case_study_id', caseStudyId)
+    .maybeSingle();
+  return { adminClient, found: !!submission };
+}
+
+/**
+ * GET /api/admin/case-studies/[id]/submissions/[submissionId]/annotations?attachment_id=X
+ *
+ * All reviewers' annotations on a submission, optionally for one attachment.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; submissionId: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId, submissionId } = await params;
+    const attachmentId = new URL(request.url).searchParams.get('attachment_id');
+
+    const { adminClient, found } = await submissionInCaseStudy(caseStudyId, submissionId);
+    if (!found) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    const result = await listAnnotations(adminClient, submissionId, { attachmentId });
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ annotations: result.annotations });
+  } catch (error) {
+    console.error('Error fetching annotations:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/case-studies/[id]/submissions/[submissionId]/annotations
+ *
+ * Annotate a PDF attachment.
+ * Body: { attachment_id, page_number, kind: 'highlight' | 'pin' | 'comment',
+ *         x?, y?, width?, height?, comment?, color? }
+ * Positions are fractions (0-1) of the page.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; submissionId: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId, submissionId } = await params;
+    const { attachment_id, ...annotation } = await request.json();
+
+    const { adminClient, found } = await submissionInCaseStudy(caseStudyId, submissionId);
+    if (!found) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    const result = await createAnnotation(adminClient, submissionId, attachment_id, annotation, {
+      userId: auth.userId,
+      role: 'admin',
+    });
+
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ annotation: result.annotation }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating annotation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
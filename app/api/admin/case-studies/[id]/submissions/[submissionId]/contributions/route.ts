@@ -0,0 +1,120 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { getSubmissionContributions, setIndividualAdjustment } from '@/lib/services/contributions';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * GET /api/admin/case-studies/[id]/submissions/[submissionId]/contributions
+ *
+ * Per-member contributions for one submission: who added and removed
+ * attachments, peer survey results, suggested and applied adjustments.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; submissionId: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId, submissionId } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: submission } = await adminClient
+      .from('case_study_submissions')
+      .select('id')
+      .eq('id', submissionId)
+      .eq('case_study_id', caseStudyId)
+      .maybeSingle();
+
+    if (!submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    const result = await getSubmissionContributions(adminClient, submissionId, { includeGroupScore: true });
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ contributions: result.contributions });
+  } catch (error) {
+    console.error('Error fetching contributions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/admin/case-studies/[id]/submissions/[submissionId]/contributions
+ *
+ * Adjust one member's grade relative to the group score.
+ * Body: { student_id: string, points: number | null, reason?: string }
+ * points: null removes the adjustment.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; submissionId: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId, submissionId } = await params;
+    const body = await request.json();
+    const { student_id, points, reason } = body;
+
+    if (typeof student_id !== 'string') {
+      return NextResponse.json({ error: 'student_id is required' }, { status: 400 });
+    }
+    if (points !== null && typeof points !== 'number') {
+      return NextResponse.json({ error: 'points must be a number or null' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const { data: submission } = await adminClient
+      .from('case_study_submissions')
+      .select('id')
+      .eq('id', submissionId)
+      .eq('case_study_id', caseStudyId)
+      .maybeSingle();
+
+    if (!submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    const result = await setIndividualAdjustment(adminClient, submissionId, {
+      studentId: student_id,
+      points,
+      reason: typeof reason === 'string' ? reason : null,
+      userId: auth.userId,
+      role: 'admin',
+    });
+
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ adjustment: result.adjustment });
+  } catch (error) {
+    console.error('Error adjusting individual grade:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
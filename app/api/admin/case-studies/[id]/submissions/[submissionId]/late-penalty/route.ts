@@ -0,0 +1,70 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { setPenaltyOverride } from '@/lib/services/late-penalty';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * PUT /api/admin/case-studies/[id]/submissions/[submissionId]/late-penalty
+ *
+ * Override the late penalty for one submission.
+ * Body: { points: number | null, reason?: string }
+ * points replaces the policy's deduction (0 waives it); a reason is required.
+ * points: null removes the override and the policy applies again.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; submissionId: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id: caseStudyId, submissionId } = await params;
+    const body = await request.json();
+    const { points, reason } = body;
+
+    if (points !== null && typeof points !== 'number') {
+      return NextResponse.json({ error: 'points must be a number or null' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const { data: submission } = await adminClient
+      .from('case_study_submissions')
+      .select('id')
+      .eq('id', submissionId)
+      .eq('case_study_id', caseStudyId)
+      .maybeSingle();
+
+    if (!submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    const result = await setPenaltyOverride(adminClient, submissionId, {
+      points,
+      reason: typeof reason === 'string' ? reason : null,
+      userId: auth.userId,
+    });
+
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ success: true, reviews_updated: result.updated });
+  } catch (error) {
+    console.error('Error overriding late penalty:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { listSubmissionVersions } from '@/lib/services/submission-versions';
+
+/**
+ * GET /api/admin/case-studies/[id]/submissions/[submissionId]/versions
+ *
+ * Submission version history (newest first) with attachment diffs. Admin only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; submissionId: string }> }
+) {
+  try {
+    const auth = await verifyAdmin();
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const { id: caseStudyId, submissionId } = await params;
+    const adminClient = await createAdminClient();
+
+    // Verify submission belongs to this case study
+    const { data: submission } = await adminClient
+      .from('case_study_submissions')
+      .select('id')
+      .eq('id', submissionId)
+      .eq('case_study_id', caseStudyId)
+      .single();
+
+    if (!submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    const versions = await listSubmissionVersions(adminClient, submissionId);
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error fetching submission versions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
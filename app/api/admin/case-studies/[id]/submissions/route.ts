@@ -1,12 +1,16 @@
 import { createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
+import { getCaseStudyRubric, loadRubricScoresByReview } from '@/lib/services/rubric';
+import { loadPeerReviewsBySubmission } from '@/lib/services/peer-review';
+import { loadSimilarityBySubmission } from '@/lib/services/similarity';
 
 /**
  * GET /api/admin/case-studies/[id]/submissions
  *
  * Returns all subgroups' submissions for a case study with full status matrix.
- * Includes attachment counts, review scores, mentor info.
+ * Includes attachment counts, review scores (with rubric picks), peer reviews,
+ * similarity matches, mentor info and the case study's rubric criteria.
  */
 export async function GET(
   request: NextRequest,
@@ -24,7 +28,7 @@ export async function GET(
     // Fetch case study
     const { data: caseStudy, error: csError } = await adminClient
       .from('case_studies')
-      .select('id, cohort_id, max_score, due_date, grace_period_minutes')
+      .select('id, cohort_id, max_score, due_date, grace_period_minutes, similarity_threshold, similarity_checked_at')
       .eq('id', caseStudyId)
       .single();
 
@@ -40,7 +44,7 @@ export async function GET(
       .order('name');
 
     if (!subgroups?.length) {
-      return NextResponse.json({ submissions: [], subgroups: [] });
+      return NextResponse.json({ submissions: [], subgroups: [], rubric_criteria: [] });
     }
 
     // Fetch submissions for this case study
@@ -70,16 +74,25 @@ export async function GET(
         .select('*, reviewer:profiles!case_study_reviews_reviewer_id_fkey(full_name)')
         .in('submission_id', subIds);
 
+      const rubricByReview = await loadRubricScoresByReview(adminClient, (reviews || []).map(r => r.id));
+
       for (const r of reviews || []) {
         const { reviewer, ...rest } = r as Record<string, unknown> & {
           reviewer?: { full_name: string } | null;
         };
         const sid = rest.submission_id as string;
         if (!reviewMap[sid]) reviewMap[sid] = [];
-        reviewMap[sid].push({ ...rest, reviewer_name: reviewer?.full_name ?? null });
+        reviewMap[sid].push({
+          ...rest,
+          reviewer_name: reviewer?.full_name ?? null,
+          rubric_scores: rubricByReview[rest.id as string] ?? [],
+        });
       }
     }
 
+    const peerReviewMap = await loadPeerReviewsBySubmission(adminClient, subIds);
+    const similarityMap = await loadSimilarityBySubmission(adminClient, caseStudyId);
+
     // Fetch attachment counts (separate file and link counts)
     let fileCountMap: Record<string, number> = {};
     let linkCountMap: Record<string, number> = {};
@@ -127,15 +140,20 @@ export async function GET(
         submission: submission ? {
           ...submission,
           reviews: submissionId ? (reviewMap[submissionId] ?? []) : [],
+          peer_reviews: submissionId ? (peerReviewMap[submissionId] ?? []) : [],
+          similarity_matches: submissionId ? (similarityMap[submissionId] ?? []) : [],
           attachment_count: submissionId ? (fileCountMap[submissionId] ?? 0) : 0,
           link_count: submissionId ? (linkCountMap[submissionId] ?? 0) : 0,
         } : null,
       };
     });
 
+    const rubricCriteria = await getCaseStudyRubric(adminClient, caseStudyId);
+
     return NextResponse.json({
       submissions: matrix,
       case_study: caseStudy,
+      rubric_criteria: rubricCriteria,
     });
   } catch (error) {
     console.error('Error fetching submissions:', error);
@@ -0,0 +1,32 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { BIAS_TOLERANCE_PCT, getMentorCalibrationReport } from '@/lib/services/review-calibration';
+
+/**
+ * GET /api/admin/case-studies/calibration-report?cohort_id=X
+ *
+ * Per-mentor calibration across the cohort's case studies: how far each
+ * mentor's scores sit from the admin baseline on the same submissions.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const cohortId = request.nextUrl.searchParams.get('cohort_id');
+    if (!cohortId) {
+      return NextResponse.json({ error: 'cohort_id is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+    const mentors = await getMentorCalibrationReport(adminClient, cohortId);
+
+    return NextResponse.json({ mentors, tolerance_pct: BIAS_TOLERANCE_PCT });
+  } catch (error) {
+    console.error('Error building calibration report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
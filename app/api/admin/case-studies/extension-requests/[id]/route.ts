@@ -0,0 +1,60 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { decideExtensionRequest } from '@/lib/services/deadline-extensions';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  conflict: 409,
+  database: 500,
+};
+
+/**
+ * PUT /api/admin/case-studies/extension-requests/[id]
+ *
+ * Approve or reject a pending request.
+ * Body: { action: 'approve' | 'reject', due_date?: ISO string, note?: string }
+ * due_date overrides the requested date on approval.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { action, due_date, note } = body;
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json({ error: "action must be 'approve' or 'reject'" }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const result = await decideExtensionRequest(adminClient, id, {
+      approve: action === 'approve',
+      dueDate: due_date ?? null,
+      note: typeof note === 'string' ? note.trim() : null,
+      deciderId: auth.userId,
+    });
+
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ request: result.request });
+  } catch (error) {
+    console.error('Error deciding extension request:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
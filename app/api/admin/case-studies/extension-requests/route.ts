@@ -0,0 +1,44 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { listExtensionRequests } from '@/lib/services/deadline-extensions';
+import type { ExtensionRequestStatus } from '@/types';
+
+const STATUSES: ExtensionRequestStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * GET /api/admin/case-studies/extension-requests?status=pending&cohort_id=X&case_study_id=Y
+ *
+ * Extension request queue, newest first. All filters are optional.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const cohortId = searchParams.get('cohort_id');
+    const caseStudyId = searchParams.get('case_study_id');
+
+    if (status && !STATUSES.includes(status as ExtensionRequestStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const result = await listExtensionRequests(adminClient, {
+      status: (status as ExtensionRequestStatus | null) ?? undefined,
+      cohortId: cohortId ?? undefined,
+      caseStudyId: caseStudyId ?? undefined,
+    });
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ requests: result.requests });
+  } catch (error) {
+    console.error('Error fetching extension requests:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { getCohortGradeBook, syncRankingScores } from '@/lib/services/grade-book';
+
+/**
+ * GET /api/admin/case-studies/grade-book?cohort_id=X
+ *
+ * The cohort's grade book: subgroups and students by case studies, with
+ * final score, late penalty, reviewer and status per cell.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const cohortId = new URL(request.url).searchParams.get('cohort_id');
+    if (!cohortId) {
+      return NextResponse.json({ error: 'cohort_id is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const result = await getCohortGradeBook(adminClient, cohortId);
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ grade_book: result.gradeBook });
+  } catch (error) {
+    console.error('Error fetching grade book:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/case-studies/grade-book
+ *
+ * Body: { cohort_id: string }
+ * Recompute the grade book and write each student's case_study_score into
+ * rankings.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { cohort_id: cohortId } = await request.json();
+    if (!cohortId || typeof cohortId !== 'string') {
+      return NextResponse.json({ error: 'cohort_id is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const result = await getCohortGradeBook(adminClient, cohortId);
+    if (!result.ok) throw new Error(result.error.message);
+
+    const synced = await syncRankingScores(adminClient, result.gradeBook);
+    if (!synced.ok) throw new Error(synced.error.message);
+
+    return NextResponse.json({ grade_book: result.gradeBook, rankings_updated: synced.updated });
+  } catch (error) {
+    console.error('Error syncing case study scores:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
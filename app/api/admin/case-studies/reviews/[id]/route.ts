@@ -1,12 +1,15 @@
 import { createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
+import { prepareReviewScore, saveRubricScores } from '@/lib/services/rubric';
+import { getLatestVersionId } from '@/lib/services/submission-versions';
+import { getPenaltyFields } from '@/lib/services/late-penalty';
 
 /**
  * PUT /api/admin/case-studies/reviews/[id]
  *
  * Edit an admin review (even after publish — supports re-grading).
- * Body: { score?, comment?, rubric_scores?: { criteria_id, score, comment? }[] }
+ * Body: { score?, comment?, rubric_scores?: { criteria_id, level_label?, score?, comment? }[] }
  */
 export async function PUT(
   request: NextRequest,
@@ -24,40 +27,51 @@ export async function PUT(
 
     const adminClient = await createAdminClient();
 
+    const { data: existing } = await adminClient
+      .from('case_study_reviews')
+      .select('id, submission_id, submission:case_study_submissions(case_study_id)')
+      .eq('id', reviewId)
+      .eq('reviewer_role', 'admin')
+      .maybeSingle();
+
+    const submission = existing?.submission as unknown as { case_study_id: string } | null;
+    if (!existing || !submission) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+    }
+
+    const prepared = await prepareReviewScore(adminClient, submission.case_study_id, {
+      score,
+      rubricScores: rubric_scores,
+    });
+    if (!prepared.ok) {
+      return NextResponse.json({ error: prepared.error.message }, { status: 400 });
+    }
+
     // Update review
     const updateData: Record<string, unknown> = {
       updated_at: new Date().toISOString(),
+      submission_version_id: await getLatestVersionId(adminClient, existing.submission_id),
     };
-    if (score !== undefined) updateData.score = score;
+    if (prepared.score !== undefined) {
+      updateData.score = prepared.score;
+      Object.assign(updateData, await getPenaltyFields(adminClient, existing.submission_id, prepared.score));
+    }
     if (comment !== undefined) updateData.comment = comment;
 
     const { data: review, error } = await adminClient
       .from('case_study_reviews')
       .update(updateData)
       .eq('id', reviewId)
-      .eq('reviewer_role', 'admin')
       .select()
       .single();
 
     if (error) throw error;
 
-    // Update rubric scores if provided
-    if (rubric_scores?.length && review) {
-      await adminClient
-        .from('case_study_rubric_scores')
-        .delete()
-        .eq('review_id', review.id);
-
-      const rubricRows = rubric_scores.map((rs: { criteria_id: string; score: number; comment?: string }) => ({
-        review_id: review.id,
-        criteria_id: rs.criteria_id,
-        score: rs.score,
-        comment: rs.comment ?? null,
-      }));
-
-      await adminClient
-        .from('case_study_rubric_scores')
-        .insert(rubricRows);
+    if (prepared.rows && review) {
+      const { error: rubricError } = await saveRubricScores(adminClient, review.id, prepared.rows);
+      if (rubricError) {
+        console.error('Error saving rubric scores:', rubricError);
+      }
     }
 
     return NextResponse.json({ review });
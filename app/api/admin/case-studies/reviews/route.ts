@@ -1,12 +1,16 @@
 import { createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
+import { prepareReviewScore, saveRubricScores } from '@/lib/services/rubric';
+import { getLatestVersionId } from '@/lib/services/submission-versions';
+import { getPenaltyFields } from '@/lib/services/late-penalty';
 
 /**
  * POST /api/admin/case-studies/reviews
  *
  * Submit an admin review for a submission.
- * Body: { submission_id, score?, comment?, rubric_scores?: { criteria_id, score, comment? }[] }
+ * Body: { submission_id, score?, comment?, rubric_scores?: { criteria_id, level_label?, score?, comment? }[] }
+ * When the case study has a rubric, the score is computed from rubric_scores.
  */
 export async function POST(request: NextRequest) {
   const auth = await verifyAdmin();
@@ -39,17 +43,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Cannot review a draft submission. Students must submit first.' }, { status: 400 });
     }
 
-    // Validate score range against case study max_score
-    if (score !== undefined && score !== null) {
-      const { data: cs } = await adminClient
-        .from('case_studies')
-        .select('max_score')
-        .eq('id', submission.case_study_id)
-        .single();
-      const maxScore = cs?.max_score ?? 100;
-      if (typeof score !== 'number' || score < 0 || score > maxScore) {
-        return NextResponse.json({ error: `Score must be between 0 and ${maxScore}` }, { status: 400 });
-      }
+    const prepared = await prepareReviewScore(adminClient, submission.case_study_id, {
+      score,
+      rubricScores: rubric_scores,
+    });
+    if (!prepared.ok) {
+      return NextResponse.json({ error: prepared.error.message }, { status: 400 });
     }
 
     // Upsert review (unique on submission_id + reviewer_id)
@@ -60,8 +59,10 @@ export async function POST(request: NextRequest) {
           submission_id,
           reviewer_id: auth.userId,
           reviewer_role: 'admin',
-          score: score ?? null,
+          score: prepared.score ?? null,
+          ...(await getPenaltyFields(adminClient, submission_id, prepared.score ?? null)),
           comment: comment ?? null,
+          submission_version_id: await getLatestVersionId(adminClient, submission_id),
           updated_at: new Date().toISOString(),
         },
         { onConflict: 'submission_id,reviewer_id' }
@@ -71,26 +72,8 @@ export async function POST(request: NextRequest) {
 
     if (revError) throw revError;
 
-    // Save rubric scores if provided
-    if (rubric_scores?.length && review) {
-      // Delete existing rubric scores for this review
-      await adminClient
-        .from('case_study_rubric_scores')
-        .delete()
-        .eq('review_id', review.id);
-
-      // Insert new rubric scores
-      const rubricRows = rubric_scores.map((rs: { criteria_id: string; score: number; comment?: string }) => ({
-        review_id: review.id,
-        criteria_id: rs.criteria_id,
-        score: rs.score,
-        comment: rs.comment ?? null,
-      }));
-
-      const { error: rubricError } = await adminClient
-        .from('case_study_rubric_scores')
-        .insert(rubricRows);
-
+    if (prepared.rows && review) {
+      const { error: rubricError } = await saveRubricScores(adminClient, review.id, prepared.rows);
       if (rubricError) {
         console.error('Error saving rubric scores:', rubricError);
       }
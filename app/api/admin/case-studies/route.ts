@@ -1,6 +1,7 @@
 import { createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdmin } from '@/lib/api/verify-admin';
+import { recomputeLateness } from '@/lib/services/late-penalty';
 
 // GET - List case studies with solutions
 export async function GET(request: NextRequest) {
@@ -171,6 +172,7 @@ export async function PUT(request: NextRequest) {
     if (updates.submissions_closed !== undefined) updateData.submissions_closed = updates.submissions_closed;
     if (updates.is_archived !== undefined) updateData.is_archived = updates.is_archived;
     if (updates.leaderboard_published !== undefined) updateData.leaderboard_published = updates.leaderboard_published;
+    if (updates.contribution_survey_enabled !== undefined) updateData.contribution_survey_enabled = updates.contribution_survey_enabled;
 
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
@@ -185,6 +187,12 @@ export async function PUT(request: NextRequest) {
 
     if (error) throw error;
 
+    // A moved due date changes which submissions were late
+    if (updates.due_date !== undefined) {
+      const relabelled = await recomputeLateness(adminClient, id);
+      if (!relabelled.ok) throw new Error(relabelled.error.message);
+    }
+
     return NextResponse.json({ caseStudy });
   } catch (error) {
     console.error('Error updating case study:', error);
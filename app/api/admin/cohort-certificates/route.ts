@@ -2,7 +2,7 @@ import { createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { verifyAdmin } from '@/lib/api/verify-admin';
-import { replaceCertificate } from '@/lib/services/certificates';
+import { checkCertificateEligibility, replaceCertificate } from '@/lib/services/certificates';
 
 const uuidSchema = z.string().uuid();
 
@@ -13,10 +13,12 @@ const uuidSchema = z.string().uuid();
  * single user. Thin HTTP wrapper over `lib/services/certificates.ts#replaceCertificate`
  * — all validation, storage, DB upsert, and MIME-switch cleanup live there.
  *
- * Form fields: `user_id`, `cohort_id`, `file`.
+ * Form fields: `user_id`, `cohort_id`, `file`, optional `override` ('true'
+ * skips the attendance-policy gate).
  *
  * Error mapping (discriminated-union stages from the service):
  *   - `validate`        → 400 (with reason in body)
+ *   - `ineligible`      → 409 (with eligibility in body)
  *   - `storage_upload`  → 500
  *   - `db_upsert`       → 500
  *   - `rollback`        → 500
@@ -32,6 +34,7 @@ export async function POST(request: NextRequest) {
     const userId = formData.get('user_id');
     const cohortId = formData.get('cohort_id');
     const file = formData.get('file');
+    const override = formData.get('override') === 'true';
 
     if (typeof userId !== 'string' || !userId) {
       return NextResponse.json(
@@ -95,6 +98,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Attendance policy gate — only blocks when the cohort's policy enables it
+    if (!override) {
+      const eligibility = await checkCertificateEligibility(adminClient, userId, cohortId);
+      if (!eligibility.ok) {
+        if (eligibility.error.stage === 'ineligible') {
+          return NextResponse.json(
+            {
+              error: eligibility.error.message,
+              stage: 'ineligible',
+              eligibility: eligibility.error.eligibility,
+            },
+            { status: 409 }
+          );
+        }
+        return NextResponse.json(
+          { error: eligibility.error.message, stage: eligibility.error.stage },
+          { status: 500 }
+        );
+      }
+    }
+
     const result = await replaceCertificate(adminClient, {
       userId,
       cohortId,
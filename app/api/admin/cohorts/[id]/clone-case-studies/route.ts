@@ -0,0 +1,76 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { cloneCaseStudies } from '@/lib/services/case-study-clone';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  database: 500,
+};
+
+const cloneSchema = z.object({
+  source_cohort_id: z.string().uuid(),
+  case_study_ids: z.array(z.string().uuid()).optional().nullable(),
+  week_offset: z.number().int().min(-52).max(52).optional(),
+});
+
+/**
+ * POST /api/admin/cohorts/[id]/clone-case-studies
+ * Copy case studies from another cohort into this one, with their problem
+ * files, rubric criteria and solutions. Due dates move with the cohort's
+ * start_date.
+ *
+ * Request body:
+ * - source_cohort_id: UUID of the cohort to copy from
+ * - case_study_ids: Optional array of case study IDs (null = all non-archived)
+ * - week_offset: Optional weeks added to week numbers and due dates (default 0)
+ *
+ * Response:
+ * - copied: What was created, with counts and notes on anything left out
+ * - skipped: Case studies not copied, with the reason
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: cohortId } = await params;
+
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await req.json();
+    const validation = cloneSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { source_cohort_id, case_study_ids, week_offset } = validation.data;
+    const adminClient = await createAdminClient();
+
+    const result = await cloneCaseStudies(adminClient, source_cohort_id, cohortId, {
+      caseStudyIds: case_study_ids,
+      weekOffset: week_offset,
+    });
+
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json(result.report);
+  } catch (error) {
+    console.error('Error cloning case studies:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { getQuizItemAnalysis } from '@/lib/services/quizzes';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  forbidden: 403,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * GET /api/admin/quizzes/[resourceId]/analysis
+ *
+ * Per-question difficulty, discrimination and option counts, from each
+ * student's first submitted attempt.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ resourceId: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { resourceId } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await getQuizItemAnalysis(adminClient, resourceId);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ analysis: result.analysis });
+  } catch (error) {
+    console.error('Error fetching quiz analysis:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
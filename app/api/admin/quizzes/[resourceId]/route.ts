@@ -0,0 +1,86 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { loadQuiz, toQuizInput, updateQuiz } from '@/lib/services/quizzes';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  forbidden: 403,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * GET /api/admin/quizzes/[resourceId]
+ *
+ * The quiz resource with its settings and questions, answer key included.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ resourceId: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { resourceId } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await loadQuiz(adminClient, resourceId);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({
+      resource: result.resource,
+      settings: result.settings,
+      questions: result.questions,
+    });
+  } catch (error) {
+    console.error('Error fetching quiz:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/admin/quizzes/[resourceId]
+ * Body: { title, settings, questions }
+ *
+ * Replaces the quiz's settings and question list. Submitted attempts keep
+ * the scores they were given.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ resourceId: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { resourceId } = await params;
+    const body = await request.json();
+    const adminClient = await createAdminClient();
+
+    const result = await updateQuiz(adminClient, resourceId, toQuizInput(body));
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ resourceId: result.resourceId });
+  } catch (error) {
+    console.error('Error updating quiz:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
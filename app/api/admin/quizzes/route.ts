@@ -0,0 +1,48 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { createQuiz, toQuizInput } from '@/lib/services/quizzes';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  forbidden: 403,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * POST /api/admin/quizzes
+ * Body: { module_id, title, settings, questions }
+ *
+ * Creates a quiz resource in a module along with its settings and questions.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json();
+
+    if (!body.module_id) {
+      return NextResponse.json({ error: 'module_id is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const result = await createQuiz(adminClient, body.module_id, toQuizInput(body));
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ resourceId: result.resourceId });
+  } catch (error) {
+    console.error('Error creating quiz:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
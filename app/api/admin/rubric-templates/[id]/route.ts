@@ -0,0 +1,81 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { saveRubricTemplate, validateRubricCriteria } from '@/lib/services/rubric';
+
+/**
+ * PUT /api/admin/rubric-templates/[id]
+ *
+ * Replace a template's name, description and criteria. Case studies that
+ * already attached it keep their copied rubric.
+ * Body: same as POST /api/admin/rubric-templates
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const validated = validateRubricCriteria(body.criteria);
+    if (!validated.ok) {
+      return NextResponse.json({ error: validated.error.message }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+    const result = await saveRubricTemplate(adminClient, {
+      id,
+      name,
+      description: body.description?.trim() || null,
+      criteria: validated.criteria,
+      userId: auth.userId,
+    });
+    if (!result.ok) {
+      if (result.error.stage === 'not_found') {
+        return NextResponse.json({ error: result.error.message }, { status: 404 });
+      }
+      throw new Error(result.error.message);
+    }
+
+    return NextResponse.json({ id: result.templateId });
+  } catch (error) {
+    console.error('Error updating rubric template:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/rubric-templates/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id } = await params;
+    const adminClient = await createAdminClient();
+
+    const { error } = await adminClient.from('rubric_templates').delete().eq('id', id);
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting rubric template:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
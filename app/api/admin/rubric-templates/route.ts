@@ -0,0 +1,67 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { listRubricTemplates, saveRubricTemplate, validateRubricCriteria } from '@/lib/services/rubric';
+
+/**
+ * GET /api/admin/rubric-templates
+ *
+ * Rubric template library with criteria and levels.
+ */
+export async function GET() {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const adminClient = await createAdminClient();
+    const result = await listRubricTemplates(adminClient);
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ templates: result.templates });
+  } catch (error) {
+    console.error('Error fetching rubric templates:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/rubric-templates
+ *
+ * Create a rubric template.
+ * Body: { name, description?, criteria: { label, description?, weight, levels: { label, description?, points }[] }[] }
+ */
+export async function POST(request: NextRequest) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const validated = validateRubricCriteria(body.criteria);
+    if (!validated.ok) {
+      return NextResponse.json({ error: validated.error.message }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+    const result = await saveRubricTemplate(adminClient, {
+      name,
+      description: body.description?.trim() || null,
+      criteria: validated.criteria,
+      userId: auth.userId,
+    });
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ id: result.templateId }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating rubric template:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdmin } from '@/lib/api/verify-admin';
+import { getSessionTimeline } from '@/lib/services/attendance-timeline';
+
+// GET - Minute-by-minute attendance timeline for a session, with the cliff effective end
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await verifyAdmin();
+  if (!auth.authorized) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { id } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await getSessionTimeline(adminClient, id);
+    if (!result.ok) {
+      const status = { session: 404, attendance: 500 }[result.error.stage];
+      return NextResponse.json({ error: result.error.message }, { status });
+    }
+
+    return NextResponse.json({
+      session: result.session,
+      origin: result.origin,
+      effectiveEndMinutes: result.effectiveEndMinutes,
+      formalEndMinutes: result.formalEndMinutes,
+      cliffDetected: result.cliffDetected,
+      timeline: result.timeline,
+    });
+  } catch (error) {
+    console.error('Error building attendance timeline:', error);
+    return NextResponse.json({ error: 'Failed to build attendance timeline' }, { status: 500 });
+  }
+}
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createAdminClient } from '@/lib/supabase/server';
+import {
+  evaluateStudentEligibility,
+  loadAttendancePolicy,
+  loadExcusedSessions,
+} from '@/lib/services/attendance-policy';
+import { summarizePunctuality } from '@/lib/services/attendance-punctuality';
 
 /**
  * GET: Attendance data for the authenticated user.
@@ -114,6 +120,18 @@ async function getStudentOwnAttendance(supabase: any, userId: string, cohortId:
     segmentsByAttendanceId.set(seg.attendance_id, existing);
   }
 
+  // Eligibility under the cohort's attendance policy
+  const [{ rules: policy }, excusedByUser] = await Promise.all([
+    loadAttendancePolicy(supabase, cohortId),
+    loadExcusedSessions(supabase, sessionIds, [userId]),
+  ]);
+  const eligibility = evaluateStudentEligibility(
+    policy,
+    sessions,
+    attendanceRecords || [],
+    excusedByUser.get(userId),
+  );
+
   // Build attendance data
   const attendance = sessions.map((session: { id: string; title: string; scheduled_at: string; actual_duration_minutes: number | null; duration_minutes: number; formal_end_minutes: number | null }) => {
     const record = attendanceRecords?.find((a: { session_id: string }) => a.session_id === session.id);
@@ -125,6 +143,7 @@ async function getStudentOwnAttendance(supabase: any, userId: string, cohortId:
       date: session.scheduled_at,
       totalDuration: session.formal_end_minutes || session.actual_duration_minutes || session.duration_minutes,
       attended: !!record,
+      outcome: eligibility.outcomes[session.id],
       percentage: record?.attendance_percentage || 0,
       durationAttended: record?.duration_seconds
         ? Math.min(
@@ -141,9 +160,11 @@ async function getStudentOwnAttendance(supabase: any, userId: string, cohortId:
     };
   });
 
-  // Calculate stats
-  const attendedSessions = attendance.filter((a: { attended: boolean }) => a.attended);
-  const totalSessions = sessions.length;
+  // Calculate stats — approved excused absences drop out of the denominator
+  const attendedSessions = attendance.filter(
+    (a: { attended: boolean; outcome: string }) => a.attended && a.outcome !== 'excused'
+  );
+  const totalSessions = sessions.length - eligibility.sessionsExcused;
   const avgPercentage =
     totalSessions > 0
       ? Math.round(
@@ -161,11 +182,24 @@ async function getStudentOwnAttendance(supabase: any, userId: string, cohortId:
   const stats = {
     overallPercentage: avgPercentage,
     sessionsAttended: attendedSessions.length,
-    sessionsTotal: sessions.length,
+    sessionsTotal: totalSessions,
     totalHours: Math.round((totalMinutes / 60) * 10) / 10,
   };
 
-  return NextResponse.json({ attendance, stats, sessions });
+  return NextResponse.json({
+    attendance,
+    stats,
+    sessions,
+    eligibility: {
+      status: eligibility.status,
+      sessionsPresent: eligibility.sessionsPresent,
+      sessionsMissed: eligibility.sessionsMissed,
+      sessionsExcused: eligibility.sessionsExcused,
+      remainingAbsences: eligibility.remainingAbsences,
+      maxMissedSessions: policy.maxMissedSessions,
+      minSessionPercentage: policy.minSessionPercentage,
+    },
+  });
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -212,12 +246,15 @@ async function getMentorTeamAttendance(supabase: any, cohortId: string | null) {
     (profiles || []).map((p: { id: string; full_name: string; email: string; avatar_url: string | null }) => [p.id, p])
   );
 
-  // Get all attendance records
-  const { data: attendanceRecords } = await supabase
-    .from('attendance')
-    .select('id, session_id, user_id, attendance_percentage, duration_seconds, join_time, leave_time')
-    .in('session_id', sessionIds)
-    .in('user_id', studentIds);
+  // Get all attendance records, plus the cohort's grace period for punctuality
+  const [{ data: attendanceRecords }, { rules: policy }] = await Promise.all([
+    supabase
+      .from('attendance')
+      .select('id, session_id, user_id, attendance_percentage, duration_seconds, join_time, leave_time, minutes_late, minutes_left_early, reconnect_count')
+      .in('session_id', sessionIds)
+      .in('user_id', studentIds),
+    loadAttendancePolicy(supabase, cohortId),
+  ]);
 
   // Get segments
   const attendanceIds = (attendanceRecords || []).map((a: { id: string }) => a.id);
@@ -284,6 +321,7 @@ async function getMentorTeamAttendance(supabase: any, cohortId: string | null) {
       sessionsAttended,
       sessionsTotal: sessions.length,
       avgPercentage,
+      punctuality: summarizePunctuality(studentAttendance, policy.lateJoinGraceMinutes),
       sessions: sessionDetails,
     };
   });
@@ -0,0 +1,41 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { isCohortMember, listStudentAssignments } from '@/lib/services/assignments';
+
+/**
+ * GET /api/assignments?cohort_id=X
+ *
+ * The cohort's assignments with the student's own submission, status and
+ * whether they can still submit.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const cohortId = searchParams.get('cohort_id');
+
+    if (!cohortId) {
+      return NextResponse.json({ error: 'cohort_id is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    if (!(await isCohortMember(adminClient, user.id, cohortId))) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const result = await listStudentAssignments(adminClient, cohortId, user.id);
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ assignments: result.assignments });
+  } catch (error) {
+    console.error('Error fetching assignments:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/assignments/submissions/[id]/signed-url
+ *
+ * Generates a 1-hour signed URL for the student's own submitted file.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: submission } = await adminClient
+      .from('assignment_submissions')
+      .select('user_id, file_path')
+      .eq('id', submissionId)
+      .maybeSingle();
+
+    if (!submission || submission.user_id !== user.id) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    if (!submission.file_path) {
+      return NextResponse.json({ error: 'No file for this submission' }, { status: 404 });
+    }
+
+    const { data: signedUrl, error: signedError } = await adminClient.storage
+      .from('resources')
+      .createSignedUrl(submission.file_path, 3600);
+
+    if (signedError || !signedUrl) {
+      return NextResponse.json({ error: 'Failed to generate signed URL' }, { status: 500 });
+    }
+
+    return NextResponse.json({ signedUrl: signedUrl.signedUrl });
+  } catch (error) {
+    console.error('Error generating assignment signed URL:', error);
+    return NextResponse.json({ error: 'Failed to generate signed URL' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { submitAssignment } from '@/lib/services/assignments';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  forbidden: 403,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * POST /api/assignments/submissions
+ * Body: { assignment_id, file_path, file_name, file_size, file_type }
+ *    or { assignment_id, link }
+ *
+ * Hands in the student's work, replacing any earlier submission while the
+ * assignment is still open and ungraded.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    if (!body.assignment_id) {
+      return NextResponse.json({ error: 'assignment_id is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const result = await submitAssignment(adminClient, {
+      assignmentId: body.assignment_id,
+      userId: user.id,
+      file: body.file_path
+        ? { path: body.file_path, name: body.file_name, size: body.file_size, type: body.file_type }
+        : null,
+      link: body.link ?? null,
+    });
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ submission: result.submission });
+  } catch (error) {
+    console.error('Error submitting assignment:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ASSIGNMENT_FILE_TYPES,
+  MAX_ASSIGNMENT_FILE_SIZE,
+  assignmentFilePath,
+  isCohortMember,
+} from '@/lib/services/assignments';
+
+export const maxDuration = 30;
+export const dynamic = 'force-dynamic';
+
+const SIGNED_URL_EXPIRY = 600; // 10 minutes
+
+/**
+ * POST /api/assignments/submissions/upload-url
+ *
+ * Get a signed upload URL for an assignment file. The path is inside the
+ * student's own folder, which is what POST /api/assignments/submissions
+ * checks before accepting it.
+ *
+ * Body: { filename, fileSize, contentType, cohortId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { filename, fileSize, contentType, cohortId } = body;
+
+    if (!filename || !fileSize || !contentType || !cohortId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: filename, fileSize, contentType, cohortId' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof fileSize !== 'number' || fileSize <= 0 || fileSize > MAX_ASSIGNMENT_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `Invalid file size. Maximum is ${MAX_ASSIGNMENT_FILE_SIZE / 1024 / 1024}MB` },
+        { status: 400 }
+      );
+    }
+
+    if (!ASSIGNMENT_FILE_TYPES.includes(contentType)) {
+      return NextResponse.json(
+        { error: 'Invalid file type. Allowed: PDF, DOC, DOCX, XLS, XLSX, PPT, PPTX' },
+        { status: 400 }
+      );
+    }
+
+    const adminClient = await createAdminClient();
+
+    if (!(await isCohortMember(adminClient, user.id, cohortId))) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { data, error } = await adminClient.storage
+      .from('resources')
+      .createSignedUploadUrl(assignmentFilePath(cohortId, user.id, filename));
+
+    if (error || !data) {
+      console.error('[Assignment Upload URL] Failed:', error);
+      return NextResponse.json({ error: 'Failed to generate upload URL' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      uploadUrl: data.signedUrl,
+      token: data.token,
+      filePath: data.path,
+      expiresAt: new Date(Date.now() + SIGNED_URL_EXPIRY * 1000).toISOString(),
+    });
+  } catch (error) {
+    console.error('[Assignment Upload URL] Error:', error);
+    return NextResponse.json({ error: 'Failed to generate upload URL' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { canAdmin } from '@/lib/auth/policy';
+import { isSubgroupMentorOf } from '@/lib/services/attendance-excuses';
+
+/**
+ * PATCH /api/attendance/at-risk/[id]
+ *
+ * Acknowledge an open flag once the mentor has followed up. The flag stays
+ * active until the evaluator finds the student back under every threshold.
+ * Body: { note? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const note = typeof body.note === 'string' ? body.note.trim() : '';
+
+    const adminClient = await createAdminClient();
+
+    const { data: flag } = await adminClient
+      .from('at_risk_flags')
+      .select('id, user_id, status')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!flag) {
+      return NextResponse.json({ error: 'Flag not found' }, { status: 404 });
+    }
+
+    const adminCheck = await canAdmin({ profile: { id: user.id, email: user.email ?? null }, role: null }, adminClient);
+    if (!adminCheck.allowed && !(await isSubgroupMentorOf(adminClient, user.id, flag.user_id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (flag.status !== 'open') {
+      return NextResponse.json({ error: `Flag is already ${flag.status}` }, { status: 409 });
+    }
+
+    const { data: updated, error } = await adminClient
+      .from('at_risk_flags')
+      .update({
+        status: 'acknowledged',
+        acknowledged_by: user.id,
+        acknowledged_at: new Date().toISOString(),
+        acknowledgement_note: note || null,
+      })
+      .eq('id', id)
+      .eq('status', 'open')
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!updated) {
+      return NextResponse.json({ error: 'Flag was updated by someone else' }, { status: 409 });
+    }
+
+    return NextResponse.json({ flag: updated });
+  } catch (error) {
+    console.error('Error acknowledging at-risk flag:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { canAdmin } from '@/lib/auth/policy';
+import { getMentoredStudentIds } from '@/lib/services/attendance-excuses';
+
+/**
+ * GET /api/attendance/at-risk?cohort_id=...
+ *
+ * Active at-risk flags the current user can see: every flag for admins,
+ * flags on students in their subgroups for mentors.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const cohortId = new URL(request.url).searchParams.get('cohort_id');
+    const adminClient = await createAdminClient();
+
+    const adminCheck = await canAdmin({ profile: { id: user.id, email: user.email ?? null }, role: null }, adminClient);
+    const studentIds = adminCheck.allowed ? null : await getMentoredStudentIds(adminClient, user.id);
+
+    if (studentIds && studentIds.length === 0) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let query = adminClient
+      .from('at_risk_flags')
+      .select('*, user:profiles!at_risk_flags_user_id_fkey(id, full_name, email, avatar_url)')
+      .in('status', ['open', 'acknowledged'])
+      .order('first_flagged_at', { ascending: false })
+      .limit(500);
+
+    if (cohortId) query = query.eq('cohort_id', cohortId);
+    if (studentIds) query = query.in('user_id', studentIds);
+
+    const { data: flags, error } = await query;
+    if (error) throw error;
+
+    return NextResponse.json({ flags: flags || [] });
+  } catch (error) {
+    console.error('Error fetching at-risk flags:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
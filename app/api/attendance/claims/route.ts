@@ -0,0 +1,220 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CLAIM_REASONS,
+  MAX_CLAIM_EVIDENCE_FILES,
+  claimEvidencePrefix,
+  isValidEmail,
+  recordClaimEvent,
+} from '@/lib/services/attendance-claims';
+import type { AttendanceClaimReason } from '@/types';
+
+/**
+ * GET /api/attendance/claims
+ *
+ * List the current student's attendance claims (newest first).
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const adminClient = await createAdminClient();
+
+    const { data: claims, error } = await adminClient
+      .from('attendance_claims')
+      .select('id, session_id, reason, description, alternate_email, claimed_join_time, claimed_leave_time, status, resolution, resolution_note, reviewed_at, created_at, session:sessions(id, title, scheduled_at)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return NextResponse.json({ claims: claims || [] });
+  } catch (error) {
+    console.error('Error fetching attendance claims:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/attendance/claims
+ *
+ * File an attendance claim against a session.
+ * Body: { session_id, reason, description?, alternate_email?, claimed_join_time?, claimed_leave_time?, evidence_paths? }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const {
+      session_id,
+      reason,
+      description,
+      alternate_email,
+      claimed_join_time,
+      claimed_leave_time,
+      evidence_paths,
+    } = body;
+
+    if (!session_id || !reason) {
+      return NextResponse.json({ error: 'session_id and reason are required' }, { status: 400 });
+    }
+
+    if (!CLAIM_REASONS.includes(reason as AttendanceClaimReason)) {
+      return NextResponse.json({ error: `reason must be one of: ${CLAIM_REASONS.join(', ')}` }, { status: 400 });
+    }
+
+    if (reason === 'unaliased_email' && (!alternate_email || !isValidEmail(alternate_email))) {
+      return NextResponse.json({ error: 'A valid alternate_email is required for this reason' }, { status: 400 });
+    }
+
+    if (alternate_email && !isValidEmail(alternate_email)) {
+      return NextResponse.json({ error: 'Invalid alternate_email' }, { status: 400 });
+    }
+
+    const joinMs = claimed_join_time ? new Date(claimed_join_time).getTime() : null;
+    const leaveMs = claimed_leave_time ? new Date(claimed_leave_time).getTime() : null;
+    if ((joinMs !== null && Number.isNaN(joinMs)) || (leaveMs !== null && Number.isNaN(leaveMs))) {
+      return NextResponse.json({ error: 'Invalid claimed join/leave time' }, { status: 400 });
+    }
+    if (joinMs !== null && leaveMs !== null && leaveMs <= joinMs) {
+      return NextResponse.json({ error: 'claimed_leave_time must be after claimed_join_time' }, { status: 400 });
+    }
+
+    // Evidence must be files this student uploaded via the claims upload-url route
+    const evidence: string[] = Array.isArray(evidence_paths) ? evidence_paths : [];
+    if (evidence.length > MAX_CLAIM_EVIDENCE_FILES) {
+      return NextResponse.json({ error: `At most ${MAX_CLAIM_EVIDENCE_FILES} evidence files allowed` }, { status: 400 });
+    }
+    const prefix = claimEvidencePrefix(user.id);
+    if (evidence.some((p) => typeof p !== 'string' || !p.startsWith(prefix) || p.includes('..'))) {
+      return NextResponse.json({ error: 'Invalid evidence path' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    // Session must exist, count for students, and already have happened
+    const { data: session } = await adminClient
+      .from('sessions')
+      .select('id, cohort_id, scheduled_at, counts_for_students')
+      .eq('id', session_id)
+      .single();
+
+    if (!session || !session.counts_for_students) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (new Date(session.scheduled_at).getTime() > Date.now()) {
+      return NextResponse.json({ error: 'Cannot dispute attendance for a session that has not happened yet' }, { status: 400 });
+    }
+
+    // Student must belong to one of the session's cohorts
+    const { data: sessionCohorts } = await adminClient
+      .from('session_cohorts')
+      .select('cohort_id')
+      .eq('session_id', session_id);
+
+    const cohortIds = new Set<string>((sessionCohorts || []).map((sc: { cohort_id: string }) => sc.cohort_id));
+    if (session.cohort_id) cohortIds.add(session.cohort_id);
+
+    const { data: membership } = cohortIds.size > 0
+      ? await adminClient
+          .from('user_role_assignments')
+          .select('id')
+          .eq('user_id', user.id)
+          .eq('role', 'student')
+          .in('cohort_id', Array.from(cohortIds))
+          .limit(1)
+          .maybeSingle()
+      : { data: null };
+
+    if (!membership) {
+      return NextResponse.json({ error: 'You are not enrolled in this session\'s cohort' }, { status: 403 });
+    }
+
+    const { data: claim, error: insertError } = await adminClient
+      .from('attendance_claims')
+      .insert({
+        session_id,
+        user_id: user.id,
+        reason,
+        description: description?.trim() || null,
+        alternate_email: alternate_email ? alternate_email.trim().toLowerCase() : null,
+        claimed_join_time: joinMs !== null ? new Date(joinMs).toISOString() : null,
+        claimed_leave_time: leaveMs !== null ? new Date(leaveMs).toISOString() : null,
+        evidence_paths: evidence,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return NextResponse.json({ error: 'You already have a pending claim for this session' }, { status: 409 });
+      }
+      throw insertError;
+    }
+
+    await recordClaimEvent(adminClient, claim.id, user.id, 'submitted', { reason });
+
+    return NextResponse.json({ claim }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating attendance claim:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/attendance/claims?id=...
+ *
+ * Withdraw one of the current student's pending claims.
+ */
+export async function DELETE(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const claimId = searchParams.get('id');
+
+    if (!claimId) {
+      return NextResponse.json({ error: 'Claim ID is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const { data: claim, error } = await adminClient
+      .from('attendance_claims')
+      .update({ status: 'withdrawn' })
+      .eq('id', claimId)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!claim) {
+      return NextResponse.json({ error: 'Pending claim not found' }, { status: 404 });
+    }
+
+    await recordClaimEvent(adminClient, claim.id, user.id, 'withdrawn');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error withdrawing attendance claim:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
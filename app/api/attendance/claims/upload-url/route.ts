@@ -0,0 +1,84 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { CLAIM_EVIDENCE_BUCKET, claimEvidencePrefix } from '@/lib/services/attendance-claims';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const SIGNED_URL_EXPIRY = 600; // 10 minutes
+
+const ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'application/pdf',
+];
+
+/**
+ * POST /api/attendance/claims/upload-url
+ *
+ * Get a signed upload URL for attendance claim evidence (join screenshots).
+ * Files land under attendance-claims/{userId}/ so the claim route can verify
+ * ownership of every evidence path.
+ *
+ * Body: { filename, fileSize, contentType }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { filename, fileSize, contentType } = body;
+
+    if (!filename || !fileSize || !contentType) {
+      return NextResponse.json(
+        { error: 'Missing required fields: filename, fileSize, contentType' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof fileSize !== 'number' || fileSize <= 0 || fileSize > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `Invalid file size. Maximum is ${MAX_FILE_SIZE / 1024 / 1024}MB` },
+        { status: 400 }
+      );
+    }
+
+    if (!ALLOWED_TYPES.includes(contentType)) {
+      return NextResponse.json(
+        { error: 'Invalid file type. Allowed: PNG, JPEG, WEBP, PDF' },
+        { status: 400 }
+      );
+    }
+
+    const adminClient = await createAdminClient();
+
+    const timestamp = Date.now();
+    const sanitizedName = filename.replace(/[^a-zA-Z0-9.-]/g, '_');
+    const filePath = `${claimEvidencePrefix(user.id)}${timestamp}_${sanitizedName}`;
+
+    const { data, error } = await adminClient.storage
+      .from(CLAIM_EVIDENCE_BUCKET)
+      .createSignedUploadUrl(filePath);
+
+    if (error || !data) {
+      console.error('[Claim Evidence Upload URL] Failed:', error);
+      return NextResponse.json({ error: 'Failed to generate upload URL' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      uploadUrl: data.signedUrl,
+      token: data.token,
+      filePath: data.path,
+      expiresAt: new Date(Date.now() + SIGNED_URL_EXPIRY * 1000).toISOString(),
+    });
+  } catch (error) {
+    console.error('[Claim Evidence Upload URL] Error:', error);
+    return NextResponse.json({ error: 'Failed to generate upload URL' }, { status: 500 });
+  }
+}
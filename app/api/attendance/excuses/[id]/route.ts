@@ -0,0 +1,114 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { canAdmin } from '@/lib/auth/policy';
+import {
+  EXCUSE_ATTACHMENT_BUCKET,
+  isSubgroupMentorOf,
+  reviewExcuseRequest,
+} from '@/lib/services/attendance-excuses';
+
+/**
+ * Admins review any request; mentors only those from their subgroup students.
+ * Returns the request row when allowed, otherwise the error response.
+ */
+async function authorizeReviewer(requestId: string) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const adminClient = await createAdminClient();
+
+  const { data: excuse } = await adminClient
+    .from('attendance_excuse_requests')
+    .select('id, user_id, attachment_path')
+    .eq('id', requestId)
+    .maybeSingle();
+
+  if (!excuse) {
+    return { response: NextResponse.json({ error: 'Excuse request not found' }, { status: 404 }) };
+  }
+
+  const adminCheck = await canAdmin({ profile: { id: user.id, email: user.email ?? null }, role: null }, adminClient);
+  if (!adminCheck.allowed && !(await isSubgroupMentorOf(adminClient, user.id, excuse.user_id))) {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+
+  return { user, adminClient, excuse };
+}
+
+/**
+ * GET /api/attendance/excuses/[id]
+ *
+ * Short-lived signed URL for the request's attachment (reviewers only).
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authorizeReviewer(id);
+    if (auth.response) return auth.response;
+
+    if (!auth.excuse.attachment_path) {
+      return NextResponse.json({ error: 'No attachment' }, { status: 404 });
+    }
+
+    const { data, error } = await auth.adminClient.storage
+      .from(EXCUSE_ATTACHMENT_BUCKET)
+      .createSignedUrl(auth.excuse.attachment_path, 300);
+
+    if (error || !data) {
+      return NextResponse.json({ error: 'Failed to sign attachment URL' }, { status: 500 });
+    }
+
+    return NextResponse.json({ url: data.signedUrl });
+  } catch (error) {
+    console.error('Error signing excuse attachment:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/attendance/excuses/[id]
+ *
+ * Approve or reject a pending request.
+ * Body: { decision: 'approve' | 'reject', note? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { decision, note } = body;
+
+    if (decision !== 'approve' && decision !== 'reject') {
+      return NextResponse.json({ error: 'decision must be "approve" or "reject"' }, { status: 400 });
+    }
+
+    const auth = await authorizeReviewer(id);
+    if (auth.response) return auth.response;
+
+    const result = await reviewExcuseRequest(auth.adminClient, {
+      requestId: id,
+      reviewerId: auth.user.id,
+      decision,
+      note,
+    });
+
+    if (!result.ok) {
+      const status = { not_found: 404, not_pending: 409, excusal: 500, update: 500 }[result.error.stage];
+      return NextResponse.json({ error: result.error.message, stage: result.error.stage }, { status });
+    }
+
+    return NextResponse.json({ request: result.request });
+  } catch (error) {
+    console.error('Error reviewing excuse request:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { canAdmin } from '@/lib/auth/policy';
+import { getMentoredStudentIds } from '@/lib/services/attendance-excuses';
+
+const STATUSES = ['pending', 'approved', 'rejected', 'withdrawn'];
+
+/**
+ * GET /api/attendance/excuses/review?status=pending
+ *
+ * Excuse requests the current user can review: every request for admins,
+ * requests from students in their subgroups for mentors.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const status = new URL(request.url).searchParams.get('status') || 'pending';
+    if (status !== 'all' && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status filter' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const adminCheck = await canAdmin({ profile: { id: user.id, email: user.email ?? null }, role: null }, adminClient);
+    const studentIds = adminCheck.allowed ? null : await getMentoredStudentIds(adminClient, user.id);
+
+    if (studentIds && studentIds.length === 0) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let query = adminClient
+      .from('attendance_excuse_requests')
+      .select('*, session:sessions(id, title, scheduled_at), student:profiles!attendance_excuse_requests_user_id_fkey(id, full_name, email, avatar_url)')
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (status !== 'all') query = query.eq('status', status);
+    if (studentIds) query = query.in('user_id', studentIds);
+
+    const { data: requests, error } = await query;
+    if (error) throw error;
+
+    return NextResponse.json({ requests: requests || [], scope: adminCheck.allowed ? 'admin' : 'mentor' });
+  } catch (error) {
+    console.error('Error fetching excuse requests for review:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
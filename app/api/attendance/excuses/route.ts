@@ -0,0 +1,129 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { createExcuseRequest } from '@/lib/services/attendance-excuses';
+
+/**
+ * GET /api/attendance/excuses
+ *
+ * List the current student's excused-absence requests (newest first).
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const adminClient = await createAdminClient();
+
+    const { data: requests, error } = await adminClient
+      .from('attendance_excuse_requests')
+      .select('id, session_id, reason_category, details, attachment_path, status, review_note, reviewed_at, created_at, session:sessions(id, title, scheduled_at)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return NextResponse.json({ requests: requests || [] });
+  } catch (error) {
+    console.error('Error fetching excuse requests:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/attendance/excuses
+ *
+ * Request an excused absence for a session. Works before the session (also
+ * records an RSVP "no") or after it.
+ * Body: { session_id, reason_category, details?, attachment_path? }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { session_id, reason_category, details, attachment_path } = body;
+
+    if (!session_id || !reason_category) {
+      return NextResponse.json({ error: 'session_id and reason_category are required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+    const result = await createExcuseRequest(adminClient, {
+      userId: user.id,
+      sessionId: session_id,
+      category: reason_category,
+      details,
+      attachmentPath: attachment_path,
+    });
+
+    if (!result.ok) {
+      const status = {
+        validate: 400,
+        not_found: 404,
+        not_member: 403,
+        duplicate: 409,
+        insert: 500,
+      }[result.error.stage];
+      return NextResponse.json({ error: result.error.message }, { status });
+    }
+
+    return NextResponse.json(
+      { request: result.request, mentorsNotified: result.mentorsNotified },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating excuse request:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/attendance/excuses?id=...
+ *
+ * Withdraw one of the current student's pending requests.
+ */
+export async function DELETE(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const requestId = new URL(request.url).searchParams.get('id');
+    if (!requestId) {
+      return NextResponse.json({ error: 'Request ID is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const { data: updated, error } = await adminClient
+      .from('attendance_excuse_requests')
+      .update({ status: 'withdrawn' })
+      .eq('id', requestId)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!updated) {
+      return NextResponse.json({ error: 'Pending request not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error withdrawing excuse request:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,11 +1,14 @@
 /**
  * Zoom Webhook Endpoint
- * Handles attendance tracking via Zoom webhooks
+ * Handles attendance tracking via Zoom webhooks.
+ * Every delivery (verified or not) is appended to zoom_webhook_events before
+ * processing so attendance can later be replayed from what Zoom actually sent.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { zoomService } from '@/lib/integrations/zoom';
 import { attendanceService } from '@/lib/services/attendance';
+import { storeWebhookEvent } from '@/lib/services/zoom-webhook-events';
 
 export async function POST(request: NextRequest) {
   try {
@@ -37,6 +40,7 @@ export async function POST(request: NextRequest) {
     // Verify webhook signature for all other events
     if (!zoomService.verifyWebhookSignature(body, signature, timestamp)) {
       console.error('Invalid Zoom webhook signature');
+      await storeWebhookEvent(body, event, false, null);
       return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
     }
 
@@ -47,6 +51,9 @@ export async function POST(request: NextRequest) {
     // Find the session associated with this meeting
     const session = await attendanceService.findSessionByMeetingId(meetingId);
 
+    // Persist the raw event (also for untracked meetings — they may be linked later)
+    await storeWebhookEvent(body, event, true, session?.id ?? null);
+
     if (!session) {
       // Meeting not tracked in our system, ignore
       console.log(`Meeting ${meetingId} not found in sessions, ignoring webhook`);
@@ -4,7 +4,8 @@ import { NextRequest, NextResponse } from 'next/server';
 /**
  * GET /api/case-studies/[id]/leaderboard
  *
- * Returns ranked subgroups by admin score for a case study.
+ * Returns ranked subgroups by admin score for a case study, after late
+ * penalties. The raw score and penalty are included alongside.
  * Only accessible when leaderboard_published = true.
  */
 export async function GET(
@@ -74,13 +75,17 @@ export async function GET(
     // Get admin reviews
     const { data: reviews } = await adminClient
       .from('case_study_reviews')
-      .select('submission_id, score')
+      .select('submission_id, score, late_penalty, adjusted_score')
       .in('submission_id', subIds)
       .eq('reviewer_role', 'admin');
 
-    const scoreMap: Record<string, number | null> = {};
+    const scoreMap: Record<string, { raw: number | null; penalty: number; adjusted: number | null }> = {};
     for (const r of reviews || []) {
-      scoreMap[r.submission_id] = r.score;
+      scoreMap[r.submission_id] = {
+        raw: r.score,
+        penalty: Number(r.late_penalty ?? 0),
+        adjusted: r.adjusted_score ?? r.score,
+      };
     }
 
     // Build and sort leaderboard
@@ -91,7 +96,9 @@ export async function GET(
         return {
           subgroup_id: raw.subgroup_id as string,
           subgroup_name: subgroupData?.name ?? 'Unknown',
-          score: scoreMap[raw.id as string] ?? null,
+          score: scoreMap[raw.id as string]?.adjusted ?? null,
+          raw_score: scoreMap[raw.id as string]?.raw ?? null,
+          late_penalty: scoreMap[raw.id as string]?.penalty ?? 0,
           is_late: raw.is_late as boolean,
         };
       })
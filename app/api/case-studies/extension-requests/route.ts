@@ -0,0 +1,65 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { requestExtension } from '@/lib/services/deadline-extensions';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  conflict: 409,
+  database: 500,
+};
+
+/**
+ * POST /api/case-studies/extension-requests
+ *
+ * Ask for a deadline extension. Goes to the admin approval queue.
+ * Body: {
+ *   case_study_id: UUID,
+ *   requested_due_date: ISO string,
+ *   reason: string,
+ *   personal?: boolean   // true = just me, false (default) = my whole subgroup
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { case_study_id, requested_due_date, reason, personal } = body;
+
+    if (!case_study_id || !requested_due_date || typeof reason !== 'string') {
+      return NextResponse.json(
+        { error: 'case_study_id, requested_due_date and reason are required' },
+        { status: 400 }
+      );
+    }
+
+    const adminClient = await createAdminClient();
+
+    const result = await requestExtension(adminClient, {
+      caseStudyId: case_study_id,
+      userId: user.id,
+      personal: personal === true,
+      requestedDueDate: requested_due_date,
+      reason,
+    });
+
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ request: result.request }, { status: 201 });
+  } catch (error) {
+    console.error('Error requesting extension:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
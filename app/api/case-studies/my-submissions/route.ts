@@ -1,6 +1,7 @@
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { toStudentStatus } from '@/lib/services/case-study-deadline';
+import { getStudentDeadlineOverrides, listStudentExtensionRequests } from '@/lib/services/deadline-extensions';
 import type { SubmissionVisibility } from '@/types';
 
 /**
@@ -8,6 +9,8 @@ import type { SubmissionVisibility } from '@/types';
  *
  * Returns all case studies for the cohort + the student's subgroup submission for each.
  * Visibility is mapped to student-friendly status (no internal states leaked).
+ * Each case study also carries the student's personal deadline extension, if
+ * any, and their latest extension request.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -100,10 +103,24 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    const csIds = caseStudies.map(cs => cs.id);
+    const [studentDeadlines, extensionRequests] = await Promise.all([
+      getStudentDeadlineOverrides(adminClient, user.id, csIds),
+      subgroupId ? listStudentExtensionRequests(adminClient, user.id, subgroupId, csIds) : Promise.resolve([]),
+    ]);
+
+    // Newest first, so the first request seen per case study is the latest
+    const latestRequestByCs: Record<string, (typeof extensionRequests)[number]> = {};
+    for (const req of extensionRequests) {
+      if (!latestRequestByCs[req.case_study_id]) latestRequestByCs[req.case_study_id] = req;
+    }
+
     // Enrich case studies with submission info
     const enriched = caseStudies.map(cs => ({
       ...cs,
       submission: submissionsByCs[cs.id] ?? null,
+      student_deadline_override: studentDeadlines[cs.id] ?? null,
+      extension_request: latestRequestByCs[cs.id] ?? null,
     }));
 
     return NextResponse.json({
@@ -0,0 +1,96 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getPeerSubmission, resolvePeerReviewer, submitPeerReview } from '@/lib/services/peer-review';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  conflict: 409,
+  database: 500,
+};
+
+/**
+ * GET /api/case-studies/peer-reviews/[id]
+ *
+ * Attachments of the submission to peer-review, with signed URLs for files.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: assignmentId } = await params;
+    const adminClient = await createAdminClient();
+
+    const subgroupId = await resolvePeerReviewer(adminClient, assignmentId, user.id);
+    if (!subgroupId) {
+      return NextResponse.json({ error: 'Peer review not found' }, { status: 404 });
+    }
+
+    const result = await getPeerSubmission(adminClient, assignmentId, subgroupId);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json({ error: result.error.message }, { status: STAGE_STATUS[result.error.stage] });
+    }
+
+    return NextResponse.json({ attachments: result.attachments });
+  } catch (error) {
+    console.error('Error fetching peer submission:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/case-studies/peer-reviews/[id]
+ *
+ * Submit (or resubmit) the subgroup's peer review.
+ * Body: { rubric_scores?: [{ criteria_id, level_label, comment? }], score?: number, comment?: string }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: assignmentId } = await params;
+    const { rubric_scores, score, comment } = await request.json();
+    const adminClient = await createAdminClient();
+
+    const subgroupId = await resolvePeerReviewer(adminClient, assignmentId, user.id);
+    if (!subgroupId) {
+      return NextResponse.json({ error: 'Peer review not found' }, { status: 404 });
+    }
+
+    const result = await submitPeerReview(adminClient, {
+      assignmentId,
+      subgroupId,
+      userId: user.id,
+      score,
+      rubricScores: rubric_scores,
+      comment,
+    });
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json({ error: result.error.message }, { status: STAGE_STATUS[result.error.stage] });
+    }
+
+    const { status, score: savedScore, submitted_at } = result.review;
+    return NextResponse.json({ review: { id: assignmentId, status, score: savedScore, submitted_at } });
+  } catch (error) {
+    console.error('Error submitting peer review:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
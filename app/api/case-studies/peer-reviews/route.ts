@@ -0,0 +1,49 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getPeerInbox } from '@/lib/services/peer-review';
+
+/**
+ * GET /api/case-studies/peer-reviews?cohort_id=X
+ *
+ * The student's subgroup peer review inbox for the cohort. Submissions are
+ * labelled "Submission A", "Submission B", … — never by subgroup.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const cohortId = searchParams.get('cohort_id');
+
+    if (!cohortId) {
+      return NextResponse.json({ error: 'cohort_id is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const { data: memberships } = await adminClient
+      .from('subgroup_members')
+      .select('subgroup_id, subgroup:subgroups!inner(cohort_id)')
+      .eq('user_id', user.id)
+      .eq('subgroup.cohort_id', cohortId)
+      .limit(1);
+
+    const subgroupId = memberships?.[0]?.subgroup_id;
+    if (!subgroupId) {
+      return NextResponse.json({ assignments: [], rubrics: {} });
+    }
+
+    const result = await getPeerInbox(adminClient, subgroupId, cohortId);
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ assignments: result.items, rubrics: result.rubrics });
+  } catch (error) {
+    console.error('Error fetching peer reviews:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { annotationsPublished, listAnnotations } from '@/lib/services/annotations';
+
+/**
+ * GET /api/case-studies/submissions/[id]/annotations?attachment_id=X
+ *
+ * Reviewer annotations on the subgroup's PDFs (student-facing).
+ * Only returned once the submission is at least subgroup_published.
+ * Annotations by a mentor whose review was overridden are excluded.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const attachmentId = new URL(request.url).searchParams.get('attachment_id');
+    const adminClient = await createAdminClient();
+
+    const { data: submission, error: subError } = await adminClient
+      .from('case_study_submissions')
+      .select('id, subgroup_id, visibility')
+      .eq('id', submissionId)
+      .single();
+
+    if (subError || !submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    // Verify user is in this subgroup
+    const { data: memberCheck } = await adminClient
+      .from('subgroup_members')
+      .select('id')
+      .eq('subgroup_id', submission.subgroup_id)
+      .eq('user_id', user.id)
+      .limit(1)
+      .maybeSingle();
+
+    if (!memberCheck) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (!annotationsPublished(submission.visibility)) {
+      return NextResponse.json({ annotations: [], message: 'Annotations not yet published' });
+    }
+
+    const result = await listAnnotations(adminClient, submissionId, { attachmentId, forStudents: true });
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ annotations: result.annotations });
+  } catch (error) {
+    console.error('Error fetching annotations:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
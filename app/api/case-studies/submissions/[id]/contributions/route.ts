@@ -0,0 +1,93 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getContributionSurvey, saveContributionRatings } from '@/lib/services/contributions';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  conflict: 409,
+  database: 500,
+};
+
+/**
+ * GET /api/case-studies/submissions/[id]/contributions
+ *
+ * The caller's contribution survey for their subgroup's submission: the
+ * other members and the ratings the caller has given so far.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await getContributionSurvey(adminClient, submissionId, user.id);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({
+      survey: {
+        enabled: result.enabled,
+        submitted: result.submitted,
+        members: result.members,
+        ratings: result.ratings,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching contribution survey:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/case-studies/submissions/[id]/contributions
+ *
+ * Rate the other members of the subgroup once the submission is in.
+ * Body: { ratings: { ratee_id: string, rating: 1-5, comment?: string }[] }
+ * Ratings can be revised; each member is rated at most once per submission.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const body = await request.json();
+    const adminClient = await createAdminClient();
+
+    const result = await saveContributionRatings(adminClient, submissionId, user.id, body.ratings);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ success: true, saved: result.saved });
+  } catch (error) {
+    console.error('Error saving contribution ratings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -56,7 +56,7 @@ export async function GET(
     // Fetch reviews (exclude overridden mentor reviews)
     const { data: reviews, error: revError } = await adminClient
       .from('case_study_reviews')
-      .select('id, reviewer_role, score, comment, created_at, updated_at, overridden, reviewer:profiles!case_study_reviews_reviewer_id_fkey(full_name)')
+      .select('id, reviewer_role, score, late_penalty, adjusted_score, comment, created_at, updated_at, overridden, reviewer:profiles!case_study_reviews_reviewer_id_fkey(full_name)')
       .eq('submission_id', submissionId)
       .order('created_at', { ascending: true });
 
@@ -74,6 +74,8 @@ export async function GET(
           submission_id: raw.submission_id,
           reviewer_role: raw.reviewer_role,
           score: raw.score,
+          late_penalty: raw.late_penalty,
+          adjusted_score: raw.adjusted_score,
           comment: raw.comment,
           created_at: raw.created_at,
           updated_at: raw.updated_at,
@@ -101,6 +103,7 @@ export async function GET(
           review_id: raw.review_id,
           criteria_id: raw.criteria_id,
           score: raw.score,
+          level_label: raw.level_label ?? null,
           comment: raw.comment,
           criteria_label: criteriaData?.label ?? null,
           criteria_max_score: criteriaData?.max_score ?? null,
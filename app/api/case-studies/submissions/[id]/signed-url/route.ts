@@ -0,0 +1,86 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/case-studies/submissions/[id]/signed-url?attachment_id=X
+ *
+ * Generates a signed URL for one of the subgroup's own attachment files.
+ * Only accessible to subgroup members.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const attachmentId = new URL(request.url).searchParams.get('attachment_id');
+
+    if (!attachmentId) {
+      return NextResponse.json(
+        { error: 'attachment_id query param is required' },
+        { status: 400 }
+      );
+    }
+
+    const adminClient = await createAdminClient();
+
+    const { data: submission, error: subError } = await adminClient
+      .from('case_study_submissions')
+      .select('id, subgroup_id')
+      .eq('id', submissionId)
+      .single();
+
+    if (subError || !submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    // Verify user is a member of this subgroup
+    const { data: membership } = await adminClient
+      .from('subgroup_members')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('subgroup_id', submission.subgroup_id)
+      .limit(1)
+      .maybeSingle();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    // Fetch attachment — validate it belongs to this submission (prevents IDOR)
+    const { data: attachment, error: attError } = await adminClient
+      .from('case_study_submission_attachments')
+      .select('id, file_path, type')
+      .eq('id', attachmentId)
+      .eq('submission_id', submissionId)
+      .single();
+
+    if (attError || !attachment || attachment.type !== 'file' || !attachment.file_path) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    // Generate 1-hour signed URL
+    const { data: signedUrl, error: signedError } = await adminClient.storage
+      .from('resources')
+      .createSignedUrl(attachment.file_path, 3600);
+
+    if (signedError || !signedUrl) {
+      return NextResponse.json({ error: 'Failed to generate signed URL' }, { status: 500 });
+    }
+
+    return NextResponse.json({ signedUrl: signedUrl.signedUrl });
+  } catch (error) {
+    console.error('Error generating attachment signed URL:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate signed URL' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { listSubmissionVersions } from '@/lib/services/submission-versions';
+
+/**
+ * GET /api/case-studies/submissions/[id]/versions
+ *
+ * Timeline of the subgroup's submitted versions, newest first, with what
+ * changed in each and who changed it. Only accessible to subgroup members.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: submission, error: subError } = await adminClient
+      .from('case_study_submissions')
+      .select('id, subgroup_id')
+      .eq('id', submissionId)
+      .single();
+
+    if (subError || !submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    // Verify user is a member of this subgroup
+    const { data: membership } = await adminClient
+      .from('subgroup_members')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('subgroup_id', submission.subgroup_id)
+      .limit(1)
+      .maybeSingle();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const versions = await listSubmissionVersions(adminClient, submissionId);
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error fetching submission versions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,12 +1,17 @@
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { canUpload } from '@/lib/services/case-study-deadline';
+import { getStudentDeadlineOverride } from '@/lib/services/deadline-extensions';
+import { isFileInVersionHistory } from '@/lib/services/submission-versions';
+import { recordAttachmentEvent } from '@/lib/services/contributions';
 
 /**
  * DELETE /api/case-studies/submissions/attachments/[id]
  *
  * Remove an attachment from a submission (before deadline).
- * Also cleans up the file from Supabase Storage.
+ * Also cleans up the file from Supabase Storage, unless a submitted version
+ * still references it. The removal (and who uploaded the attachment) stays in
+ * the attachment history.
  * If this was the last attachment, auto-reverts submission to draft.
  */
 export async function DELETE(
@@ -27,7 +32,7 @@ export async function DELETE(
     // Fetch attachment + submission + case study
     const { data: attachment, error: attError } = await adminClient
       .from('case_study_submission_attachments')
-      .select('id, submission_id, type, file_path')
+      .select('id, submission_id, type, file_path, file_name, link_url, link_label, uploaded_by')
       .eq('id', attachmentId)
       .single();
 
@@ -64,12 +69,17 @@ export async function DELETE(
       .eq('id', submission.case_study_id)
       .single();
 
-    if (!caseStudy || !canUpload(submission, caseStudy)) {
+    const studentDeadline = await getStudentDeadlineOverride(adminClient, submission.case_study_id, user.id);
+    if (!caseStudy || !canUpload({ ...submission, student_deadline_override: studentDeadline }, caseStudy)) {
       return NextResponse.json({ error: 'Cannot modify submission after deadline' }, { status: 403 });
     }
 
-    // Delete from storage if it's a file
-    if (attachment.type === 'file' && attachment.file_path) {
+    // Delete from storage if it's a file that no version snapshot points at
+    if (
+      attachment.type === 'file' &&
+      attachment.file_path &&
+      !(await isFileInVersionHistory(adminClient, submission.id, attachment.file_path))
+    ) {
       await adminClient.storage
         .from('resources')
         .remove([attachment.file_path]);
@@ -83,6 +93,16 @@ export async function DELETE(
 
     if (deleteError) throw deleteError;
 
+    await recordAttachmentEvent(adminClient, {
+      submissionId: submission.id,
+      attachmentId,
+      action: 'removed',
+      type: attachment.type,
+      label: attachment.file_name ?? attachment.link_label ?? attachment.link_url,
+      uploadedBy: attachment.uploaded_by,
+      actorId: user.id,
+    });
+
     // Check remaining attachments — if 0, revert to draft
     const { count } = await adminClient
       .from('case_study_submission_attachments')
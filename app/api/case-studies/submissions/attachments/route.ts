@@ -1,13 +1,17 @@
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { canUpload } from '@/lib/services/case-study-deadline';
+import { getStudentDeadlineOverride } from '@/lib/services/deadline-extensions';
+import { recordAttachmentEvent } from '@/lib/services/contributions';
 
 /**
  * POST /api/case-studies/submissions/attachments
  *
  * Add a file or link attachment to a submission.
- * Body for file: { submission_id, type: 'file', file_path, file_name, file_size, file_type }
+ * Body for file: { submission_id, type: 'file', file_path, file_name, file_size, file_type, file_hash? }
+ * file_hash is the SHA-256 hex digest computed by the browser before upload.
  * Body for link: { submission_id, type: 'link', link_url, link_label }
+ * Recorded in the attachment history for contribution tracking.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -61,7 +65,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Case study not found' }, { status: 404 });
     }
 
-    if (!canUpload(submission, caseStudy)) {
+    const studentDeadline = await getStudentDeadlineOverride(adminClient, submission.case_study_id, user.id);
+    if (!canUpload({ ...submission, student_deadline_override: studentDeadline }, caseStudy)) {
       return NextResponse.json({ error: 'Cannot modify submission after deadline' }, { status: 403 });
     }
 
@@ -73,14 +78,18 @@ export async function POST(request: NextRequest) {
     };
 
     if (type === 'file') {
-      const { file_path, file_name, file_size, file_type } = body;
+      const { file_path, file_name, file_size, file_type, file_hash } = body;
       if (!file_path || !file_name) {
         return NextResponse.json({ error: 'file_path and file_name are required for file attachments' }, { status: 400 });
       }
+      if (file_hash != null && (typeof file_hash !== 'string' || !/^[a-f0-9]{64}$/i.test(file_hash))) {
+        return NextResponse.json({ error: 'file_hash must be a SHA-256 hex digest' }, { status: 400 });
+      }
       attachmentData.file_path = file_path;
       attachmentData.file_name = file_name;
       attachmentData.file_size = file_size ?? null;
       attachmentData.file_type = file_type ?? null;
+      attachmentData.file_hash = file_hash ? file_hash.toLowerCase() : null;
     } else {
       const { link_url, link_label } = body;
       if (!link_url) {
@@ -107,6 +116,16 @@ export async function POST(request: NextRequest) {
 
     if (insertError) throw insertError;
 
+    await recordAttachmentEvent(adminClient, {
+      submissionId: submission_id,
+      attachmentId: attachment.id,
+      action: 'added',
+      type,
+      label: attachment.file_name ?? attachment.link_label ?? attachment.link_url,
+      uploadedBy: user.id,
+      actorId: user.id,
+    });
+
     // Update submission timestamp
     await adminClient
       .from('case_study_submissions')
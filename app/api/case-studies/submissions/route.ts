@@ -1,12 +1,18 @@
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
-import { canUpload, isLate } from '@/lib/services/case-study-deadline';
+import { canUpload } from '@/lib/services/case-study-deadline';
+import { getStudentDeadlineOverride } from '@/lib/services/deadline-extensions';
+import { latenessAt } from '@/lib/services/late-penalty';
+import { createSubmissionVersion } from '@/lib/services/submission-versions';
 
 /**
  * POST /api/case-studies/submissions
  *
  * Upsert a submission for the student's subgroup on a case study.
  * Creates the submission row if it doesn't exist, or updates it.
+ * Each submit snapshots the current attachments as a new version (when they
+ * changed); submitted_at follows the latest version and is_late is judged
+ * from it against the current deadline.
  * Body: { case_study_id }
  */
 export async function POST(request: NextRequest) {
@@ -59,14 +65,43 @@ export async function POST(request: NextRequest) {
       .eq('subgroup_id', subgroupId)
       .maybeSingle();
 
-    // Check deadline
-    const submissionForDeadline = existing ?? { deadline_override: null, visibility: 'draft' as const };
+    // Check deadline (a personal extension can push it later for this student)
+    const studentDeadline = await getStudentDeadlineOverride(adminClient, case_study_id, user.id);
+    const submissionForDeadline = {
+      ...(existing ?? { deadline_override: null, visibility: 'draft' as const }),
+      student_deadline_override: studentDeadline,
+    };
     if (!canUpload(submissionForDeadline, caseStudy)) {
       return NextResponse.json({ error: 'Submissions are closed or the deadline has passed' }, { status: 403 });
     }
 
     const now = new Date();
-    const late = isLate(submissionForDeadline, caseStudy, now);
+
+    // Snapshot the attachment set (a brand-new submission has none yet)
+    let version = null;
+    if (existing) {
+      const snapshot = await createSubmissionVersion(adminClient, {
+        submission: { ...existing, student_deadline_override: studentDeadline },
+        caseStudy,
+        userId: user.id,
+        now,
+      });
+      if (!snapshot.ok) throw new Error(snapshot.error.message);
+      version = snapshot.version;
+    }
+
+    // Lateness follows the latest version's hand-in time, judged against the
+    // deadline in force now (an extension since then may have lifted it)
+    const submittedBy = version?.submitted_by ?? user.id;
+    const submittedAt = version?.submitted_at ? new Date(version.submitted_at) : now;
+    const submitterDeadline = submittedBy === user.id
+      ? studentDeadline
+      : await getStudentDeadlineOverride(adminClient, case_study_id, submittedBy);
+    const lateness = latenessAt(
+      { deadline_override: existing?.deadline_override ?? null, student_deadline_override: submitterDeadline },
+      caseStudy,
+      submittedAt,
+    );
 
     // Upsert submission (atomic — prevents race condition on concurrent requests)
     const { data: submission, error: upsertError } = await adminClient
@@ -75,9 +110,9 @@ export async function POST(request: NextRequest) {
         {
           case_study_id,
           subgroup_id: subgroupId,
-          submitted_by: user.id,
-          submitted_at: now.toISOString(),
-          is_late: late,
+          submitted_by: submittedBy,
+          submitted_at: submittedAt.toISOString(),
+          ...lateness,
           visibility: 'submitted',
         },
         { onConflict: 'case_study_id,subgroup_id' }
@@ -86,7 +121,7 @@ export async function POST(request: NextRequest) {
       .single();
 
     if (upsertError) throw upsertError;
-    return NextResponse.json({ submission }, { status: 201 });
+    return NextResponse.json({ submission, version }, { status: 201 });
   } catch (error) {
     console.error('Error upserting submission:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { runAtRiskEvaluation } from '@/lib/services/at-risk';
+
+// GET - Evaluate at-risk thresholds for active cohorts and queue mentor digests (Vercel Cron, daily)
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = await createAdminClient();
+    const result = await runAtRiskEvaluation(supabase);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[at-risk cron] Error:', error instanceof Error ? error.message : error);
+    return NextResponse.json({ error: 'Failed to evaluate at-risk students' }, { status: 500 });
+  }
+}
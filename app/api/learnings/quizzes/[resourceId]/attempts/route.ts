@@ -0,0 +1,46 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { startQuizAttempt } from '@/lib/services/quizzes';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  forbidden: 403,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * POST /api/learnings/quizzes/[resourceId]/attempts
+ *
+ * Starts a new attempt, or returns the one the student already has open.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ resourceId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { resourceId } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await startQuizAttempt(adminClient, resourceId, user.id);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ attempt: result.attempt, questions: result.questions });
+  } catch (error) {
+    console.error('Error starting quiz attempt:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuizDetail } from '@/lib/services/quizzes';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  forbidden: 403,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * GET /api/learnings/quizzes/[resourceId]
+ *
+ * The student's progress on a quiz, the attempt they have open (if any) and
+ * a review of their latest submitted attempt. Correct answers are only
+ * included once the quiz allows revealing them.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ resourceId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { resourceId } = await params;
+    const adminClient = await createAdminClient();
+
+    const result = await getQuizDetail(adminClient, resourceId, user.id);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json(result.detail);
+  } catch (error) {
+    console.error('Error fetching quiz:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { saveAttemptAnswers } from '@/lib/services/quizzes';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  forbidden: 403,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * PATCH /api/learnings/quizzes/attempts/[id]
+ * Body: { answers: { [question_id]: { option_ids?, value?, text? } } }
+ *
+ * Autosaves the answers on an open attempt.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const adminClient = await createAdminClient();
+
+    const result = await saveAttemptAnswers(adminClient, id, user.id, body.answers);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ saved_at: result.saved_at });
+  } catch (error) {
+    console.error('Error saving quiz answers:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { listQuizSummaries } from '@/lib/services/quizzes';
+
+/**
+ * GET /api/learnings/quizzes?module_ids=a,b,c
+ *
+ * Quizzes in the given modules with the student's attempts and best score,
+ * plus a mastery percentage for each module that has quizzes.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const moduleIds = (searchParams.get('module_ids') || '').split(',').filter(Boolean);
+
+    if (moduleIds.length === 0) {
+      return NextResponse.json({ quizzes: [], mastery: {} });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const result = await listQuizSummaries(adminClient, user.id, moduleIds);
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ quizzes: result.quizzes, mastery: result.mastery });
+  } catch (error) {
+    console.error('Error fetching quizzes:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
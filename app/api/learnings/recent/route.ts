@@ -36,9 +36,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to fetch recent activity' }, { status: 500 });
     }
 
-    // Filter by cohort if provided
-    let filteredProgress = progressData || [];
+    // Quizzes are taken, not resumed, so they stay out of "continue where you left off"
+    let filteredProgress = (progressData || []).filter(p => p.module_resources?.content_type !== 'quiz');
 
+    // Filter by cohort if provided
     if (cohort_id) {
       filteredProgress = filteredProgress.filter(p => {
         const module = p.module_resources?.learning_modules;
@@ -0,0 +1,49 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getMentorStudentIds, loadAssignmentRoster } from '@/lib/services/assignments';
+
+/**
+ * GET /api/mentor/assignments/[id]/submissions
+ *
+ * The mentor's students with their submission for one assignment.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: assignmentId } = await params;
+    const adminClient = await createAdminClient();
+
+    const { data: assignment, error } = await adminClient
+      .from('assignments')
+      .select('*')
+      .eq('id', assignmentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!assignment) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 });
+    }
+
+    const studentIds = await getMentorStudentIds(adminClient, user.id, assignment.cohort_id);
+    if (studentIds.size === 0) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const result = await loadAssignmentRoster(adminClient, assignment, studentIds);
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ assignment, roster: result.roster });
+  } catch (error) {
+    console.error('Error fetching mentor assignment submissions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
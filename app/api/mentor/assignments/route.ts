@@ -0,0 +1,91 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getMentorStudentIds } from '@/lib/services/assignments';
+
+/**
+ * GET /api/mentor/assignments?cohort_id=X
+ *
+ * The cohort's assignments with how many of the mentor's students have
+ * submitted and how many of those are graded.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const cohortId = searchParams.get('cohort_id');
+
+    if (!cohortId) {
+      return NextResponse.json({ error: 'cohort_id is required' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    // Verify user is a mentor for this specific cohort
+    const { data: mentorRole } = await adminClient
+      .from('user_role_assignments')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('role', 'mentor')
+      .eq('cohort_id', cohortId)
+      .limit(1)
+      .maybeSingle();
+
+    if (!mentorRole) {
+      // Fallback: legacy role, still limited to the mentor's subgroups below
+      const { data: profile } = await adminClient
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (profile?.role !== 'mentor') {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    const studentIds = await getMentorStudentIds(adminClient, user.id, cohortId);
+
+    const { data: assignments, error } = await adminClient
+      .from('assignments')
+      .select('*')
+      .eq('cohort_id', cohortId)
+      .eq('is_archived', false)
+      .order('week_number', { ascending: true })
+      .order('order_index', { ascending: true });
+
+    if (error) throw error;
+
+    const ids = (assignments || []).map(a => a.id);
+    const { data: submissions, error: subError } = ids.length && studentIds.size
+      ? await adminClient
+          .from('assignment_submissions')
+          .select('assignment_id, status')
+          .in('assignment_id', ids)
+          .in('user_id', [...studentIds])
+          .neq('status', 'draft')
+      : { data: [], error: null };
+
+    if (subError) throw subError;
+
+    return NextResponse.json({
+      students: studentIds.size,
+      assignments: (assignments || []).map(a => {
+        const own = (submissions || []).filter(s => s.assignment_id === a.id);
+        return {
+          ...a,
+          submission_count: own.length,
+          graded_count: own.filter(s => s.status === 'graded').length,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Error fetching mentor assignments:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
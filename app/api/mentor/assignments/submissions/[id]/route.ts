@@ -0,0 +1,59 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAssignmentMentor } from '@/lib/api/verify-assignment-mentor';
+import { gradeAssignmentSubmission } from '@/lib/services/assignments';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  forbidden: 403,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * PUT /api/mentor/assignments/submissions/[id]
+ * Body: { grade: number, feedback?: string }
+ *
+ * Grades a submission from one of the mentor's students.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const body = await request.json();
+    const adminClient = await createAdminClient();
+
+    const access = await verifyAssignmentMentor(adminClient, submissionId, user.id);
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const result = await gradeAssignmentSubmission(
+      adminClient,
+      submissionId,
+      { grade: body.grade, feedback: body.feedback },
+      user.id
+    );
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ submission: result.submission });
+  } catch (error) {
+    console.error('Error grading assignment submission:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAssignmentMentor } from '@/lib/api/verify-assignment-mentor';
+
+/**
+ * GET /api/mentor/assignments/submissions/[id]/signed-url
+ *
+ * Generates a 1-hour signed URL for a submitted file from one of the
+ * mentor's students.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const adminClient = await createAdminClient();
+
+    const access = await verifyAssignmentMentor(adminClient, submissionId, user.id);
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    if (!access.filePath) {
+      return NextResponse.json({ error: 'No file for this submission' }, { status: 404 });
+    }
+
+    const { data: signedUrl, error: signedError } = await adminClient.storage
+      .from('resources')
+      .createSignedUrl(access.filePath, 3600);
+
+    if (signedError || !signedUrl) {
+      return NextResponse.json({ error: 'Failed to generate signed URL' }, { status: 500 });
+    }
+
+    return NextResponse.json({ signedUrl: signedUrl.signedUrl });
+  } catch (error) {
+    console.error('Error generating mentor assignment signed URL:', error);
+    return NextResponse.json({ error: 'Failed to generate signed URL' }, { status: 500 });
+  }
+}
@@ -1,11 +1,14 @@
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { prepareReviewScore, saveRubricScores } from '@/lib/services/rubric';
+import { getLatestVersionId } from '@/lib/services/submission-versions';
+import { getPenaltyFields } from '@/lib/services/late-penalty';
 
 /**
  * PUT /api/mentor/case-studies/reviews/[id]
  *
  * Edit own mentor review (until subgroup_published).
- * Body: { score?, comment? }
+ * Body: { score?, comment?, rubric_scores?: { criteria_id, level_label?, score?, comment? }[] }
  */
 export async function PUT(
   request: NextRequest,
@@ -21,7 +24,7 @@ export async function PUT(
 
     const { id: reviewId } = await params;
     const body = await request.json();
-    const { score, comment } = body;
+    const { score, comment, rubric_scores } = body;
 
     const adminClient = await createAdminClient();
 
@@ -47,27 +50,30 @@ export async function PUT(
       .eq('id', review.submission_id)
       .single();
 
-    if (submission && ['subgroup_published', 'cohort_published'].includes(submission.visibility)) {
+    if (!submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+    }
+
+    if (['subgroup_published', 'cohort_published'].includes(submission.visibility)) {
       return NextResponse.json({ error: 'Cannot edit review after publication' }, { status: 403 });
     }
 
-    // Validate score range against case study max_score
-    if (score !== undefined && score !== null && submission) {
-      const { data: cs } = await adminClient
-        .from('case_studies')
-        .select('max_score')
-        .eq('id', submission.case_study_id)
-        .single();
-      const maxScore = cs?.max_score ?? 100;
-      if (typeof score !== 'number' || score < 0 || score > maxScore) {
-        return NextResponse.json({ error: `Score must be between 0 and ${maxScore}` }, { status: 400 });
-      }
+    const prepared = await prepareReviewScore(adminClient, submission.case_study_id, {
+      score,
+      rubricScores: rubric_scores,
+    });
+    if (!prepared.ok) {
+      return NextResponse.json({ error: prepared.error.message }, { status: 400 });
     }
 
     const updateData: Record<string, unknown> = {
       updated_at: new Date().toISOString(),
+      submission_version_id: await getLatestVersionId(adminClient, review.submission_id),
     };
-    if (score !== undefined) updateData.score = score;
+    if (prepared.score !== undefined) {
+      updateData.score = prepared.score;
+      Object.assign(updateData, await getPenaltyFields(adminClient, review.submission_id, prepared.score));
+    }
     if (comment !== undefined) updateData.comment = comment;
 
     const { data: updated, error: updateError } = await adminClient
@@ -79,6 +85,13 @@ export async function PUT(
 
     if (updateError) throw updateError;
 
+    if (prepared.rows) {
+      const { error: rubricError } = await saveRubricScores(adminClient, reviewId, prepared.rows);
+      if (rubricError) {
+        console.error('Error saving rubric scores:', rubricError);
+      }
+    }
+
     return NextResponse.json({ review: updated });
   } catch (error) {
     console.error('Error updating mentor review:', error);
@@ -1,11 +1,16 @@
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { prepareReviewScore, saveRubricScores } from '@/lib/services/rubric';
+import { getLatestVersionId } from '@/lib/services/submission-versions';
+import { getPenaltyFields } from '@/lib/services/late-penalty';
+import { mentorCanReview } from '@/lib/services/review-calibration';
 
 /**
  * POST /api/mentor/case-studies/reviews
  *
  * Submit a mentor review for a submission.
- * Body: { submission_id, score?, comment? }
+ * Body: { submission_id, score?, comment?, rubric_scores?: { criteria_id, level_label?, score?, comment? }[] }
+ * When the case study has a rubric, the score is computed from rubric_scores.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -17,7 +22,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { submission_id, score, comment } = body;
+    const { submission_id, score, comment, rubric_scores } = body;
 
     if (!submission_id) {
       return NextResponse.json({ error: 'submission_id is required' }, { status: 400 });
@@ -49,9 +54,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'You are not assigned to this subgroup' }, { status: 403 });
     }
 
-    // Check visibility (must be at least mentor_visible)
-    const mentorVisible = ['mentor_visible', 'subgroup_published', 'cohort_published'];
-    if (!mentorVisible.includes(submission.visibility)) {
+    const { data: caseStudy } = await adminClient
+      .from('case_studies')
+      .select('calibration_mode')
+      .eq('id', submission.case_study_id)
+      .single();
+
+    // Check visibility (must be at least mentor_visible, or submitted in calibration mode)
+    if (!mentorCanReview(submission.visibility, !!caseStudy?.calibration_mode)) {
       return NextResponse.json({ error: 'Submission not yet visible to mentors' }, { status: 403 });
     }
 
@@ -60,17 +70,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Cannot create or edit review after submission is published to students' }, { status: 403 });
     }
 
-    // Validate score range
-    if (score !== undefined && score !== null) {
-      const { data: cs } = await adminClient
-        .from('case_studies')
-        .select('max_score')
-        .eq('id', submission.case_study_id)
-        .single();
-      const maxScore = cs?.max_score ?? 100;
-      if (typeof score !== 'number' || score < 0 || score > maxScore) {
-        return NextResponse.json({ error: `Score must be between 0 and ${maxScore}` }, { status: 400 });
-      }
+    const prepared = await prepareReviewScore(adminClient, submission.case_study_id, {
+      score,
+      rubricScores: rubric_scores,
+    });
+    if (!prepared.ok) {
+      return NextResponse.json({ error: prepared.error.message }, { status: 400 });
     }
 
     // Upsert mentor review
@@ -81,8 +86,10 @@ export async function POST(request: NextRequest) {
           submission_id,
           reviewer_id: user.id,
           reviewer_role: 'mentor',
-          score: score ?? null,
+          score: prepared.score ?? null,
+          ...(await getPenaltyFields(adminClient, submission_id, prepared.score ?? null)),
           comment: comment ?? null,
+          submission_version_id: await getLatestVersionId(adminClient, submission_id),
           updated_at: new Date().toISOString(),
         },
         { onConflict: 'submission_id,reviewer_id' }
@@ -92,6 +99,13 @@ export async function POST(request: NextRequest) {
 
     if (revError) throw revError;
 
+    if (prepared.rows && review) {
+      const { error: rubricError } = await saveRubricScores(adminClient, review.id, prepared.rows);
+      if (rubricError) {
+        console.error('Error saving rubric scores:', rubricError);
+      }
+    }
+
     return NextResponse.json({ review });
   } catch (error) {
     console.error('Error saving mentor review:', error);
@@ -1,11 +1,13 @@
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { mentorCanReview } from '@/lib/services/review-calibration';
 
 /**
  * GET /api/mentor/case-studies?cohort_id=X
  *
  * All case studies for a cohort + assigned subgroups' submission status.
- * Mentor can only see submissions that are >= mentor_visible.
+ * Mentor can only see submissions that are >= mentor_visible, or any submitted
+ * one when the case study is in calibration mode.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -88,6 +90,8 @@ export async function GET(request: NextRequest) {
       .in('subgroup_id', subgroupIds)
       .in('case_study_id', csIds);
 
+    const calibrationById = new Map(caseStudies.map(cs => [cs.id, !!cs.calibration_mode]));
+
     // Build lookup: cs_id -> subgroup_id -> submission
     const subByCsAndSg: Record<string, Record<string, Record<string, unknown>>> = {};
     for (const s of submissions || []) {
@@ -98,8 +102,6 @@ export async function GET(request: NextRequest) {
       const sgId = rest.subgroup_id as string;
       if (!subByCsAndSg[csId]) subByCsAndSg[csId] = {};
 
-      // Only show if mentor_visible or later
-      const mentorVisible = ['mentor_visible', 'subgroup_published', 'cohort_published'];
       const vis = rest.visibility as string;
 
       subByCsAndSg[csId][sgId] = {
@@ -108,8 +110,7 @@ export async function GET(request: NextRequest) {
         submitted_at: rest.submitted_at,
         is_late: rest.is_late,
         submitted_by_name: submitted_by_profile?.full_name ?? null,
-        // Mentor can only see details if visibility >= mentor_visible
-        can_review: mentorVisible.includes(vis),
+        can_review: mentorCanReview(vis, calibrationById.get(csId) ?? false),
       };
     }
 
@@ -0,0 +1,94 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySubmissionMentor } from '@/lib/api/verify-submission-mentor';
+import { deleteAnnotation, updateAnnotation } from '@/lib/services/annotations';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * PUT /api/mentor/case-studies/submissions/[id]/annotations/[annotationId]
+ *
+ * Edit one of the mentor's own annotations.
+ * Body: { comment?: string, color?: string }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; annotationId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId, annotationId } = await params;
+    const { comment, color } = await request.json();
+    const adminClient = await createAdminClient();
+
+    const access = await verifySubmissionMentor(adminClient, submissionId, user.id);
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const result = await updateAnnotation(adminClient, submissionId, annotationId, user.id, { comment, color });
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ annotation: result.annotation });
+  } catch (error) {
+    console.error('Error updating annotation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/mentor/case-studies/submissions/[id]/annotations/[annotationId]
+ *
+ * Remove one of the mentor's own annotations.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; annotationId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId, annotationId } = await params;
+    const adminClient = await createAdminClient();
+
+    const access = await verifySubmissionMentor(adminClient, submissionId, user.id);
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const result = await deleteAnnotation(adminClient, submissionId, annotationId, user.id);
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting annotation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
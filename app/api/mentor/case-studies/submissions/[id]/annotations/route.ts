@@ -0,0 +1,98 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySubmissionMentor } from '@/lib/api/verify-submission-mentor';
+import { createAnnotation, listAnnotations } from '@/lib/services/annotations';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  database: 500,
+};
+
+/**
+ * GET /api/mentor/case-studies/submissions/[id]/annotations?attachment_id=X
+ *
+ * Annotations on a mentored subgroup's submission. During blind calibration
+ * only the mentor's own annotations are returned.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const attachmentId = new URL(request.url).searchParams.get('attachment_id');
+    const adminClient = await createAdminClient();
+
+    const access = await verifySubmissionMentor(adminClient, submissionId, user.id);
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const result = await listAnnotations(adminClient, submissionId, {
+      attachmentId,
+      authorId: access.blind ? user.id : undefined,
+    });
+    if (!result.ok) throw new Error(result.error.message);
+
+    return NextResponse.json({ annotations: result.annotations });
+  } catch (error) {
+    console.error('Error fetching annotations:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/mentor/case-studies/submissions/[id]/annotations
+ *
+ * Annotate a PDF attachment.
+ * Body: { attachment_id, page_number, kind: 'highlight' | 'pin' | 'comment',
+ *         x?, y?, width?, height?, comment?, color? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const { attachment_id, ...annotation } = await request.json();
+    const adminClient = await createAdminClient();
+
+    const access = await verifySubmissionMentor(adminClient, submissionId, user.id);
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const result = await createAnnotation(adminClient, submissionId, attachment_id, annotation, {
+      userId: user.id,
+      role: 'mentor',
+    });
+
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ annotation: result.annotation }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating annotation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySubmissionMentor } from '@/lib/api/verify-submission-mentor';
+import { getSubmissionContributions, setIndividualAdjustment } from '@/lib/services/contributions';
+
+const STAGE_STATUS: Record<string, number> = {
+  validation: 400,
+  not_found: 404,
+  conflict: 409,
+  database: 500,
+};
+
+/**
+ * GET /api/mentor/case-studies/submissions/[id]/contributions
+ *
+ * Per-member contributions for a mentored subgroup's submission: attachment
+ * history, peer survey results and individual adjustments. The group score
+ * and suggested adjustments are withheld during blind calibration.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const adminClient = await createAdminClient();
+
+    const access = await verifySubmissionMentor(adminClient, submissionId, user.id);
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const result = await getSubmissionContributions(adminClient, submissionId, { includeGroupScore: !access.blind });
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ contributions: result.contributions });
+  } catch (error) {
+    console.error('Error fetching contributions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/mentor/case-studies/submissions/[id]/contributions
+ *
+ * Adjust one member's grade relative to the group score.
+ * Body: { student_id: string, points: number | null, reason?: string }
+ * points: null removes the adjustment.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: submissionId } = await params;
+    const body = await request.json();
+    const { student_id, points, reason } = body;
+
+    if (typeof student_id !== 'string') {
+      return NextResponse.json({ error: 'student_id is required' }, { status: 400 });
+    }
+    if (points !== null && typeof points !== 'number') {
+      return NextResponse.json({ error: 'points must be a number or null' }, { status: 400 });
+    }
+
+    const adminClient = await createAdminClient();
+
+    const access = await verifySubmissionMentor(adminClient, submissionId, user.id);
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const result = await setIndividualAdjustment(adminClient, submissionId, {
+      studentId: student_id,
+      points,
+      reason: typeof reason === 'string' ? reason : null,
+      userId: user.id,
+      role: 'mentor',
+    });
+
+    if (!result.ok) {
+      if (result.error.stage === 'database') throw new Error(result.error.message);
+      return NextResponse.json(
+        { error: result.error.message, stage: result.error.stage },
+        { status: STAGE_STATUS[result.error.stage] }
+      );
+    }
+
+    return NextResponse.json({ adjustment: result.adjustment });
+  } catch (error) {
+    console.error('Error adjusting individual grade:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,11 +1,17 @@
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { getCaseStudyRubric, loadRubricScoresByReview } from '@/lib/services/rubric';
+import { isReviewBlind, mentorCanReview } from '@/lib/services/review-calibration';
+import { listSubmissionVersions } from '@/lib/services/submission-versions';
 
 /**
  * GET /api/mentor/case-studies/submissions/[id]
  *
- * Submission details for a mentor. Only accessible if visibility >= mentor_visible.
- * Returns submission + attachments + admin review (read-only).
+ * Submission details for a mentor. Only accessible if visibility >= mentor_visible
+ * (or once submitted, in calibration mode).
+ * Returns submission + attachments + admin review (read-only), plus the
+ * case study's rubric criteria for grading and the submission's version
+ * history. During blind calibration only the mentor's own review is returned.
  */
 export async function GET(
   request: NextRequest,
@@ -46,9 +52,15 @@ export async function GET(
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
+    const { data: caseStudy } = await adminClient
+      .from('case_studies')
+      .select('calibration_mode')
+      .eq('id', submission.case_study_id)
+      .single();
+    const calibrationMode = !!caseStudy?.calibration_mode;
+
     // Check visibility
-    const mentorVisible = ['mentor_visible', 'subgroup_published', 'cohort_published'];
-    if (!mentorVisible.includes(submission.visibility)) {
+    if (!mentorCanReview(submission.visibility, calibrationMode)) {
       return NextResponse.json({ error: 'Submission not yet visible to mentors' }, { status: 403 });
     }
 
@@ -73,19 +85,36 @@ export async function GET(
       .eq('submission_id', submissionId)
       .order('created_at', { ascending: true });
 
-    const mappedReviews = (reviews || []).map(r => {
-      const { reviewer, ...rest } = r as Record<string, unknown> & {
-        reviewer?: { full_name: string } | null;
-      };
-      return { ...rest, reviewer_name: reviewer?.full_name ?? null };
-    });
+    const [rubricByReview, rubricCriteria, versions] = await Promise.all([
+      loadRubricScoresByReview(adminClient, (reviews || []).map(r => r.id)),
+      getCaseStudyRubric(adminClient, submission.case_study_id),
+      listSubmissionVersions(adminClient, submissionId),
+    ]);
+
+    const blind = isReviewBlind(calibrationMode, submission);
+
+    const mappedReviews = (reviews || [])
+      .filter(r => !blind || r.reviewer_id === user.id)
+      .map(r => {
+        const { reviewer, ...rest } = r as Record<string, unknown> & {
+          reviewer?: { full_name: string } | null;
+        };
+        return {
+          ...rest,
+          reviewer_name: reviewer?.full_name ?? null,
+          rubric_scores: rubricByReview[rest.id as string] ?? [],
+        };
+      });
 
     return NextResponse.json({
       submission: {
         ...submission,
         attachments: mappedAttachments,
         reviews: mappedReviews,
+        versions,
       },
+      rubric_criteria: rubricCriteria,
+      blind,
     });
   } catch (error) {
     console.error('Error fetching submission details:', error);
@@ -1,12 +1,14 @@
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { verifySubmissionMentor } from '@/lib/api/verify-submission-mentor';
 
 /**
  * GET /api/mentor/case-studies/submissions/[id]/signed-url?attachment_id=X
  *
  * Generates a signed URL for a submission attachment file.
  * Only accessible by mentors assigned to the submission's subgroup.
- * Submission visibility must be mentor_visible or higher.
+ * Submission visibility must be mentor_visible or higher (or submitted, in
+ * calibration mode).
  */
 export async function GET(
   request: NextRequest,
@@ -33,37 +35,9 @@ export async function GET(
 
     const adminClient = await createAdminClient();
 
-    // Fetch submission
-    const { data: submission, error: subError } = await adminClient
-      .from('case_study_submissions')
-      .select('id, subgroup_id, visibility')
-      .eq('id', submissionId)
-      .single();
-
-    if (subError || !submission) {
-      return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
-    }
-
-    // Verify mentor is assigned to this subgroup
-    const { data: mentorCheck } = await adminClient
-      .from('subgroup_mentors')
-      .select('id')
-      .eq('subgroup_id', submission.subgroup_id)
-      .eq('user_id', user.id)
-      .limit(1)
-      .maybeSingle();
-
-    if (!mentorCheck) {
-      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
-    }
-
-    // Check visibility — must be mentor_visible or higher
-    const mentorVisible = ['mentor_visible', 'subgroup_published', 'cohort_published'];
-    if (!mentorVisible.includes(submission.visibility)) {
-      return NextResponse.json(
-        { error: 'Submission not yet visible to mentors' },
-        { status: 403 }
-      );
+    const access = await verifySubmissionMentor(adminClient, submissionId, user.id);
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
     }
 
     // Fetch attachment — validate it belongs to this submission (prevents IDOR)
@@ -1,6 +1,13 @@
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { createExcuseRequest } from '@/lib/services/attendance-excuses';
 
+/**
+ * POST /api/sessions/[id]/rsvp
+ * Body: { response: 'yes' | 'no', reminder_enabled?, excuse? }
+ * With response 'no', an optional `excuse: { reason_category, details?, attachment_path? }`
+ * also files an excused-absence request for the session.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -17,7 +24,7 @@ export async function POST(
 
   try {
     const body = await request.json();
-    const { response, reminder_enabled } = body;
+    const { response, reminder_enabled, excuse } = body;
 
     if (!response || !['yes', 'no'].includes(response)) {
       return NextResponse.json(
@@ -59,6 +66,24 @@ export async function POST(
 
     if (rsvpError) throw rsvpError;
 
+    if (response === 'no' && excuse?.reason_category) {
+      const result = await createExcuseRequest(adminClient, {
+        userId: user.id,
+        sessionId,
+        category: excuse.reason_category,
+        details: excuse.details,
+        attachmentPath: excuse.attachment_path,
+      });
+
+      // The RSVP itself is saved; surface the excuse failure alongside it
+      return NextResponse.json({
+        message: 'RSVP updated successfully',
+        rsvp,
+        excuse: result.ok ? result.request : null,
+        excuseError: result.ok ? null : result.error.message,
+      });
+    }
+
     return NextResponse.json({
       message: 'RSVP updated successfully',
       rsvp,
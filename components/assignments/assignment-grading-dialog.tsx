@@ -0,0 +1,211 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from 'sonner';
+import { ExternalLink, FileText, Loader2, NotebookPen } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Assignment, AssignmentRosterRow, AssignmentStudentStatus } from '@/types';
+
+interface AssignmentGradingDialogProps {
+  assignment: Assignment | null;
+  /** `/api/admin/assignments` or `/api/mentor/assignments` */
+  apiBase: string;
+  onOpenChange: (open: boolean) => void;
+  onGraded?: () => void;
+}
+
+export const ASSIGNMENT_STATUS_STYLES: Record<AssignmentStudentStatus, { label: string; className: string }> = {
+  not_submitted: { label: 'Not submitted', className: 'text-muted-foreground' },
+  missing: { label: 'Missing', className: 'border-red-300 text-red-600 dark:text-red-400' },
+  submitted: { label: 'To grade', className: 'border-amber-300 text-amber-600 dark:text-amber-400' },
+  graded: { label: 'Graded', className: 'border-emerald-300 text-emerald-600 dark:text-emerald-400' },
+};
+
+function GradeRow({
+  row,
+  assignment,
+  apiBase,
+  onSaved,
+}: {
+  row: AssignmentRosterRow;
+  assignment: Assignment;
+  apiBase: string;
+  onSaved: () => void;
+}) {
+  const submission = row.submission;
+  const [grade, setGrade] = useState(submission?.grade?.toString() ?? '');
+  const [feedback, setFeedback] = useState(submission?.feedback ?? '');
+  const [saving, setSaving] = useState(false);
+  const style = ASSIGNMENT_STATUS_STYLES[row.student_status];
+
+  const openFile = async () => {
+    if (!submission) return;
+    if (submission.google_drive_url) {
+      window.open(submission.google_drive_url, '_blank', 'noopener,noreferrer');
+      return;
+    }
+    try {
+      const res = await fetch(`${apiBase}/submissions/${submission.id}/signed-url`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to open file');
+      window.open(data.signedUrl, '_blank', 'noopener,noreferrer');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to open file');
+    }
+  };
+
+  const save = async () => {
+    if (!submission) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`${apiBase}/submissions/${submission.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grade: Number(grade), feedback }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save grade');
+      toast.success(`Graded ${row.full_name || row.email}`);
+      onSaved();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save grade');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="px-3 py-3 space-y-2">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{row.full_name || row.email}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {[row.subgroup_name, submission && submission.status !== 'draft'
+              ? `Submitted ${format(new Date(submission.submitted_at), 'MMM d, h:mm a')}`
+              : null].filter(Boolean).join(' · ')}
+          </p>
+        </div>
+        {submission?.is_late && (
+          <Badge variant="outline" className="text-[10px] border-amber-300 text-amber-600 dark:text-amber-400">
+            {submission.late_minutes}m late
+          </Badge>
+        )}
+        <Badge variant="outline" className={`text-[10px] ${style.className}`}>{style.label}</Badge>
+        {submission && submission.status !== 'draft' && (
+          <Button size="sm" variant="ghost" onClick={openFile} className="h-7 px-2">
+            {submission.google_drive_url ? <ExternalLink className="w-3.5 h-3.5" /> : <FileText className="w-3.5 h-3.5" />}
+          </Button>
+        )}
+      </div>
+      {submission && submission.status !== 'draft' && (
+        <div className="flex items-start gap-2">
+          <div className="flex items-center gap-1 shrink-0">
+            <Input
+              type="number"
+              min={0}
+              max={assignment.max_score}
+              step="0.5"
+              value={grade}
+              onChange={e => setGrade(e.target.value)}
+              className="h-8 w-20 text-sm"
+              aria-label="Grade"
+            />
+            <span className="text-xs text-muted-foreground">/{assignment.max_score}</span>
+          </div>
+          <Textarea
+            value={feedback}
+            onChange={e => setFeedback(e.target.value)}
+            placeholder="Feedback for the student"
+            className="min-h-8 h-8 text-sm resize-y"
+          />
+          <Button size="sm" onClick={save} disabled={saving || grade === ''} className="h-8 shrink-0">
+            {saving && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+            {submission.status === 'graded' ? 'Update' : 'Save'}
+          </Button>
+        </div>
+      )}
+      {submission?.status === 'graded' && submission.graded_by_name && (
+        <p className="text-[11px] text-muted-foreground">Graded by {submission.graded_by_name}</p>
+      )}
+    </div>
+  );
+}
+
+export function AssignmentGradingDialog({ assignment, apiBase, onOpenChange, onGraded }: AssignmentGradingDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [roster, setRoster] = useState<AssignmentRosterRow[]>([]);
+
+  const fetchRoster = useCallback(async () => {
+    if (!assignment) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`${apiBase}/${assignment.id}/submissions`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load submissions');
+      setRoster(data.roster);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load submissions');
+    } finally {
+      setLoading(false);
+    }
+  }, [assignment, apiBase]);
+
+  useEffect(() => {
+    fetchRoster();
+  }, [fetchRoster]);
+
+  const submitted = roster.filter(r => r.student_status === 'submitted' || r.student_status === 'graded').length;
+  const graded = roster.filter(r => r.student_status === 'graded').length;
+
+  return (
+    <Dialog open={!!assignment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <NotebookPen className="w-5 h-5" />
+            {assignment?.title}
+          </DialogTitle>
+          <DialogDescription>
+            {submitted} of {roster.length} submitted · {graded} graded
+            {assignment?.due_date && ` · Due ${format(new Date(assignment.due_date), 'MMM d, yyyy h:mm a')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && roster.length === 0 ? (
+          <div className="space-y-2">
+            <Skeleton className="h-14 w-full rounded-lg" />
+            <Skeleton className="h-14 w-full rounded-lg" />
+          </div>
+        ) : roster.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No students to grade</p>
+        ) : (
+          assignment && (
+            <div className="rounded-lg border divide-y">
+              {roster.map(row => (
+                <GradeRow
+                  key={`${row.user_id}:${row.submission?.updated_at ?? ''}`}
+                  row={row}
+                  assignment={assignment}
+                  apiBase={apiBase}
+                  onSaved={() => { fetchRoster(); onGraded?.(); }}
+                />
+              ))}
+            </div>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import type { AtRiskFlag } from '@/types';
+
+/**
+ * Students currently flagged by the at-risk evaluator. The API scopes the
+ * list: admins see every flag, mentors only their subgroup students.
+ * `onLoaded` lets the parent mark flagged students elsewhere on the page.
+ */
+export function AtRiskStudents({ onLoaded }: { onLoaded?: (flags: AtRiskFlag[]) => void }) {
+  const [flags, setFlags] = useState<AtRiskFlag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [forbidden, setForbidden] = useState(false);
+  const [selected, setSelected] = useState<AtRiskFlag | null>(null);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchFlags = useCallback(async () => {
+    try {
+      const res = await fetch('/api/attendance/at-risk');
+      if (res.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to fetch at-risk students');
+      setFlags(data.flags || []);
+      onLoaded?.(data.flags || []);
+    } catch (error) {
+      console.error('Error fetching at-risk students:', error);
+      toast.error('Failed to fetch at-risk students');
+    } finally {
+      setLoading(false);
+    }
+  }, [onLoaded]);
+
+  useEffect(() => {
+    fetchFlags();
+  }, [fetchFlags]);
+
+  const acknowledge = async () => {
+    if (!selected) return;
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/attendance/at-risk/${selected.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note: note.trim() || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to acknowledge');
+
+      toast.success('Marked as followed up');
+      setSelected(null);
+      setNote('');
+      fetchFlags();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to acknowledge');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (forbidden) return null;
+
+  const openCount = flags.filter((f) => f.status === 'open').length;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            At-Risk Students
+            {openCount > 0 && <Badge variant="secondary">{openCount}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Flags clear on their own once the student is back under every threshold
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : flags.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <CheckCircle className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p className="text-lg font-medium">No students at risk</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Reasons</TableHead>
+                  <TableHead>Flagged</TableHead>
+                  <TableHead className="w-[140px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {flags.map((flag) => (
+                  <TableRow key={flag.id}>
+                    <TableCell>
+                      <p className="font-medium">{flag.user?.full_name || 'Unknown'}</p>
+                      <p className="text-xs text-muted-foreground">{flag.user?.email}</p>
+                    </TableCell>
+                    <TableCell>
+                      <ul className="text-sm space-y-0.5">
+                        {flag.reasons.map((r) => (
+                          <li key={r.code}>{r.message}</li>
+                        ))}
+                      </ul>
+                    </TableCell>
+                    <TableCell>{format(new Date(flag.first_flagged_at), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>
+                      {flag.status === 'acknowledged' ? (
+                        <Badge variant="outline">Followed up</Badge>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => { setSelected(flag); setNote(''); }}>
+                          Acknowledge
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => { if (!open && !submitting) setSelected(null); }}>
+        <DialogContent className="sm:max-w-lg">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Follow up with {selected.user?.full_name || 'student'}</DialogTitle>
+                <DialogDescription>
+                  Flagged {format(new Date(selected.first_flagged_at), 'MMM d, yyyy')}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-2">
+                <Label htmlFor="at-risk-note">What did you do? (optional)</Label>
+                <Textarea
+                  id="at-risk-note"
+                  rows={2}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button onClick={acknowledge} disabled={submitting}>
+                  {submitting && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+                  Mark as followed up
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
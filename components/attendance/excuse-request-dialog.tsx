@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2, Paperclip, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { EXCUSE_CATEGORIES, EXCUSE_CATEGORY_LABELS } from '@/lib/services/attendance-excuses';
+import type { AttendanceExcuseCategory } from '@/types';
+
+export interface ExcusePayload {
+  reason_category: AttendanceExcuseCategory;
+  details: string | null;
+  attachment_path: string | null;
+}
+
+interface ExcuseRequestDialogProps {
+  session: { id: string; title: string; date: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Sends the request; throw to keep the dialog open with the error toasted */
+  onSubmit: (excuse: ExcusePayload) => Promise<void>;
+  /** Optional secondary action, e.g. RSVP "no" without requesting an excuse */
+  onSkip?: () => void;
+}
+
+export function ExcuseRequestDialog({ session, open, onOpenChange, onSubmit, onSkip }: ExcuseRequestDialogProps) {
+  const [category, setCategory] = useState<AttendanceExcuseCategory>('illness');
+  const [details, setDetails] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const resetForm = () => {
+    setCategory('illness');
+    setDetails('');
+    setFile(null);
+  };
+
+  const uploadAttachment = async (attachment: File): Promise<string> => {
+    const urlRes = await fetch('/api/attendance/excuses/upload-url', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filename: attachment.name, fileSize: attachment.size, contentType: attachment.type }),
+    });
+    const urlData = await urlRes.json();
+    if (!urlRes.ok) throw new Error(urlData.error || 'Failed to upload attachment');
+
+    const uploadRes = await fetch(urlData.uploadUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': attachment.type },
+      body: attachment,
+    });
+    if (!uploadRes.ok) throw new Error(`Failed to upload ${attachment.name}`);
+
+    return urlData.filePath;
+  };
+
+  const handleSubmit = async () => {
+    if (!session) return;
+
+    setSubmitting(true);
+    try {
+      const attachmentPath = file ? await uploadAttachment(file) : null;
+      await onSubmit({
+        reason_category: category,
+        details: details.trim() || null,
+        attachment_path: attachmentPath,
+      });
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!submitting) onOpenChange(next); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request Excused Absence</DialogTitle>
+          {session && (
+            <DialogDescription>
+              {session.title} · {format(new Date(session.date), 'MMM d, yyyy')}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={category} onValueChange={(v) => setCategory(v as AttendanceExcuseCategory)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXCUSE_CATEGORIES.map((key) => (
+                  <SelectItem key={key} value={key}>{EXCUSE_CATEGORY_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="excuse-details">Details</Label>
+            <Textarea
+              id="excuse-details"
+              rows={3}
+              placeholder="Anything your mentor should know"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Supporting document (optional)</Label>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/webp,application/pdf"
+              className="hidden"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                e.target.value = '';
+              }}
+            />
+            {file ? (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span className="truncate">{file.name}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  aria-label={`Remove ${file.name}`}
+                  onClick={() => setFile(null)}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ) : (
+              <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Paperclip className="w-4 h-4 mr-1.5" />
+                Attach file
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          {onSkip ? (
+            <Button variant="outline" onClick={onSkip} disabled={submitting}>
+              Skip
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+          )}
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            Submit Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
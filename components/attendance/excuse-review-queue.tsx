@@ -0,0 +1,226 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CalendarX, Loader2, Paperclip, Inbox } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { EXCUSE_CATEGORY_LABELS } from '@/lib/services/attendance-excuses';
+import type { AttendanceExcuseRequest } from '@/types';
+
+type ReviewableExcuse = AttendanceExcuseRequest & {
+  session?: { id: string; title: string; scheduled_at: string } | null;
+  student?: { id: string; full_name: string | null; email: string } | null;
+};
+
+/**
+ * Pending excused-absence requests for the current reviewer. The API scopes
+ * the list: admins see every request, mentors only their subgroup students.
+ */
+export function ExcuseReviewQueue() {
+  const [requests, setRequests] = useState<ReviewableExcuse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [forbidden, setForbidden] = useState(false);
+  const [selected, setSelected] = useState<ReviewableExcuse | null>(null);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const res = await fetch('/api/attendance/excuses/review?status=pending');
+      if (res.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to fetch excuse requests');
+      setRequests(data.requests || []);
+    } catch (error) {
+      console.error('Error fetching excuse requests:', error);
+      toast.error('Failed to fetch excuse requests');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const openAttachment = async (requestId: string) => {
+    try {
+      const res = await fetch(`/api/attendance/excuses/${requestId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to open attachment');
+      window.open(data.url, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open attachment');
+    }
+  };
+
+  const review = async (decision: 'approve' | 'reject') => {
+    if (!selected) return;
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/attendance/excuses/${selected.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note: note.trim() || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to review request');
+
+      toast.success(decision === 'approve' ? 'Absence excused' : 'Request rejected');
+      setSelected(null);
+      setNote('');
+      fetchRequests();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Mentors without subgroups have nothing to review
+  if (forbidden) return null;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarX className="w-5 h-5" />
+            Excused Absence Requests
+            {requests.length > 0 && <Badge variant="secondary">{requests.length}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Approved absences are left out of the student&apos;s attendance percentage
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : requests.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Inbox className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p className="text-lg font-medium">No pending requests</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell>
+                      <p className="font-medium">{request.student?.full_name || 'Unknown'}</p>
+                      <p className="text-xs text-muted-foreground">{request.student?.email}</p>
+                    </TableCell>
+                    <TableCell>
+                      <p>{request.session?.title || 'Unknown session'}</p>
+                      {request.session?.scheduled_at && (
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(request.session.scheduled_at), 'MMM d, yyyy')}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{EXCUSE_CATEGORY_LABELS[request.reason_category]}</Badge>
+                    </TableCell>
+                    <TableCell>{format(new Date(request.created_at), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => { setSelected(request); setNote(''); }}>
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => { if (!open && !submitting) setSelected(null); }}>
+        <DialogContent className="sm:max-w-lg">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.student?.full_name || 'Student'} — {EXCUSE_CATEGORY_LABELS[selected.reason_category]}</DialogTitle>
+                <DialogDescription>
+                  {selected.session?.title}
+                  {selected.session?.scheduled_at && ` · ${format(new Date(selected.session.scheduled_at), 'MMM d, yyyy h:mm a')}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {selected.details ? (
+                  <p className="text-sm whitespace-pre-wrap">{selected.details}</p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No details provided</p>
+                )}
+
+                {selected.attachment_path && (
+                  <Button variant="outline" size="sm" onClick={() => openAttachment(selected.id)}>
+                    <Paperclip className="w-4 h-4 mr-1.5" />
+                    View attachment
+                  </Button>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="excuse-review-note">Note to student (optional)</Label>
+                  <Textarea
+                    id="excuse-review-note"
+                    rows={2}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => review('reject')} disabled={submitting}>
+                  Reject
+                </Button>
+                <Button onClick={() => review('approve')} disabled={submitting}>
+                  {submitting && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+                  Approve
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PDFViewer } from '@/components/resources/pdf-viewer';
+import { toast } from 'sonner';
+import type { AnnotationInput } from '@/lib/services/annotations';
+import type { CaseStudyAnnotation } from '@/types';
+
+interface AnnotatedPdfViewerProps {
+  /** The PDF attachment to open; null keeps the viewer closed */
+  attachment: { id: string; file_name: string | null } | null;
+  onClose: () => void;
+  /** Returns { signedUrl } for the attachment */
+  signedUrlEndpoint: string;
+  /** Annotations collection for the viewer's role (GET, and POST / DELETE unless read-only) */
+  annotationsEndpoint: string;
+  readOnly?: boolean;
+  /** Which annotations the viewer may delete */
+  canDelete?: (annotation: CaseStudyAnnotation) => boolean;
+}
+
+export function AnnotatedPdfViewer({
+  attachment,
+  onClose,
+  signedUrlEndpoint,
+  annotationsEndpoint,
+  readOnly = false,
+  canDelete,
+}: AnnotatedPdfViewerProps) {
+  const attachmentId = attachment?.id ?? null;
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [annotations, setAnnotations] = useState<CaseStudyAnnotation[]>([]);
+
+  // Callers often pass an inline onClose; keep it out of the loader's deps
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  const fetchViewer = useCallback(async () => {
+    if (!attachmentId) return;
+    setFileUrl(null);
+    try {
+      const [urlRes, annotationsRes] = await Promise.all([
+        fetch(signedUrlEndpoint),
+        fetch(`${annotationsEndpoint}?attachment_id=${attachmentId}`),
+      ]);
+      const urlData = await urlRes.json();
+      const annotationsData = await annotationsRes.json();
+      if (!urlRes.ok || !urlData.signedUrl) throw new Error(urlData.error || 'Failed to get URL');
+      setAnnotations(annotationsRes.ok ? annotationsData.annotations || [] : []);
+      setFileUrl(urlData.signedUrl);
+    } catch {
+      toast.error('Failed to open file');
+      onCloseRef.current();
+    }
+  }, [attachmentId, signedUrlEndpoint, annotationsEndpoint]);
+
+  useEffect(() => {
+    fetchViewer();
+  }, [fetchViewer]);
+
+  const handleAnnotate = async (input: AnnotationInput) => {
+    const res = await fetch(annotationsEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ attachment_id: attachmentId, ...input }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to save annotation');
+    setAnnotations(prev => [...prev, data.annotation]);
+  };
+
+  const handleDelete = async (annotation: CaseStudyAnnotation) => {
+    try {
+      const res = await fetch(`${annotationsEndpoint}/${annotation.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed');
+      setAnnotations(prev => prev.filter(a => a.id !== annotation.id));
+    } catch {
+      toast.error('Failed to delete annotation');
+    }
+  };
+
+  if (!attachment || !fileUrl) return null;
+
+  return (
+    <PDFViewer
+      key={attachment.id}
+      fileUrl={fileUrl}
+      fileName={attachment.file_name ?? 'Submission'}
+      isOpen
+      onClose={onClose}
+      annotations={annotations}
+      onAnnotate={readOnly ? undefined : handleAnnotate}
+      onDeleteAnnotation={readOnly ? undefined : handleDelete}
+      canDeleteAnnotation={canDelete}
+    />
+  );
+}
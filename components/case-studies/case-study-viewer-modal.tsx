@@ -8,8 +8,10 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Loader2, FileText, ExternalLink } from 'lucide-react';
-import type { SubmissionAttachment, CaseStudyReview } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Loader2, FileText, ExternalLink, Highlighter } from 'lucide-react';
+import { AnnotatedPdfViewer } from '@/components/case-studies/annotated-pdf-viewer';
+import type { SubmissionAttachment, CaseStudyAnnotation, CaseStudyReview } from '@/types';
 
 interface CaseStudyViewerModalProps {
   open: boolean;
@@ -19,6 +21,9 @@ interface CaseStudyViewerModalProps {
   problemFilePath: string | null;
   attachments?: SubmissionAttachment[];
   reviews?: CaseStudyReview[];
+  /** Enables viewing reviewers' PDF annotations in the feedback tab */
+  submissionId?: string;
+  annotations?: CaseStudyAnnotation[];
   maxScore?: number;
   defaultTab?: 'problem' | 'submission' | 'feedback';
 }
@@ -31,11 +36,14 @@ export function CaseStudyViewerModal({
   problemFilePath,
   attachments = [],
   reviews = [],
+  submissionId,
+  annotations = [],
   maxScore = 100,
   defaultTab = 'problem',
 }: CaseStudyViewerModalProps) {
   const [problemUrl, setProblemUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [annotatedFile, setAnnotatedFile] = useState<{ id: string; file_name: string | null } | null>(null);
 
   useEffect(() => {
     if (!open || !problemFilePath) return;
@@ -51,6 +59,14 @@ export function CaseStudyViewerModal({
   const fileAttachments = attachments.filter(a => a.type === 'file');
   const linkAttachments = attachments.filter(a => a.type === 'link');
 
+  // One entry per annotated PDF, in first-annotated order
+  const annotatedFiles = annotations.reduce<{ id: string; file_name: string | null; count: number }[]>((acc, a) => {
+    const entry = acc.find(f => f.id === a.attachment_id);
+    if (entry) entry.count++;
+    else acc.push({ id: a.attachment_id, file_name: a.file_name ?? null, count: 1 });
+    return acc;
+  }, []);
+
   return (
     <Dialog open={open} onOpenChange={v => !v && onClose()}>
       <DialogContent className="max-w-[95vw] sm:max-w-[95vw] h-[90vh] flex flex-col p-0">
@@ -150,9 +166,16 @@ export function CaseStudyViewerModal({
                       )}
                     </div>
                     {review.score !== null && (
-                      <span className="text-lg font-bold">
-                        {review.score}<span className="text-sm text-muted-foreground font-normal">/{maxScore}</span>
-                      </span>
+                      <div className="text-right">
+                        <span className="text-lg font-bold">
+                          {review.adjusted_score ?? review.score}<span className="text-sm text-muted-foreground font-normal">/{maxScore}</span>
+                        </span>
+                        {review.late_penalty > 0 && (
+                          <p className="text-xs text-amber-600 dark:text-amber-400">
+                            {review.score} − {review.late_penalty} late penalty
+                          </p>
+                        )}
+                      </div>
                     )}
                   </div>
                   {review.comment && (
@@ -162,19 +185,52 @@ export function CaseStudyViewerModal({
                     <div className="space-y-2 pt-2 border-t">
                       <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Rubric Breakdown</p>
                       {review.rubric_scores.map(rs => (
-                        <div key={rs.id} className="flex items-center justify-between text-sm">
-                          <span>{rs.criteria_label}</span>
-                          <span className="font-medium">{rs.score}/{rs.criteria_max_score}</span>
+                        <div key={rs.id} className="text-sm">
+                          <div className="flex items-center justify-between">
+                            <span>{rs.criteria_label}</span>
+                            <span className="font-medium">
+                              {rs.level_label && <span className="text-muted-foreground font-normal mr-1.5">{rs.level_label}</span>}
+                              {rs.score}/{rs.criteria_max_score}
+                            </span>
+                          </div>
+                          {rs.comment && <p className="text-xs text-muted-foreground mt-0.5">{rs.comment}</p>}
                         </div>
                       ))}
                     </div>
                   )}
                 </div>
               ))}
+              {submissionId && annotatedFiles.length > 0 && (
+                <div className="p-4 rounded-lg border bg-card space-y-2">
+                  <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Annotated Files</p>
+                  {annotatedFiles.map(f => (
+                    <div key={f.id} className="flex items-center gap-3">
+                      <Highlighter className="w-4 h-4 text-amber-500 shrink-0" />
+                      <span className="text-sm flex-1 min-w-0 truncate">{f.file_name ?? 'Submission file'}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {f.count} annotation{f.count === 1 ? '' : 's'}
+                      </span>
+                      <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setAnnotatedFile(f)}>
+                        View
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
             </TabsContent>
           )}
         </Tabs>
       </DialogContent>
+
+      {submissionId && (
+        <AnnotatedPdfViewer
+          attachment={annotatedFile}
+          onClose={() => setAnnotatedFile(null)}
+          signedUrlEndpoint={`/api/case-studies/submissions/${submissionId}/signed-url?attachment_id=${annotatedFile?.id}`}
+          annotationsEndpoint={`/api/case-studies/submissions/${submissionId}/annotations`}
+          readOnly
+        />
+      )}
     </Dialog>
   );
 }
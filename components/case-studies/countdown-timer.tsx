@@ -3,16 +3,18 @@
 import { useState, useEffect } from 'react';
 import { cn } from '@/lib/utils';
 import { Clock, AlertTriangle } from 'lucide-react';
-import { formatTimeRemaining, getDeadlineUrgency } from '@/lib/services/case-study-deadline';
+import { formatTimeRemaining, getDeadlineUrgency, getEffectiveDeadline } from '@/lib/services/case-study-deadline';
 
 interface CountdownTimerProps {
   deadline: string | null;
   graceMinutes: number;
   deadlineOverride?: string | null;
+  /** The viewing student's personal extension, if any */
+  studentDeadlineOverride?: string | null;
   className?: string;
 }
 
-export function CountdownTimer({ deadline, graceMinutes, deadlineOverride, className }: CountdownTimerProps) {
+export function CountdownTimer({ deadline, graceMinutes, deadlineOverride, studentDeadlineOverride, className }: CountdownTimerProps) {
   const [now, setNow] = useState(() => new Date());
 
   useEffect(() => {
@@ -28,7 +30,11 @@ export function CountdownTimer({ deadline, graceMinutes, deadlineOverride, class
     );
   }
 
-  const effectiveDeadline = deadlineOverride ? new Date(deadlineOverride) : new Date(deadline!);
+  const effectiveDeadline = getEffectiveDeadline(
+    { deadline_override: deadlineOverride ?? null, student_deadline_override: studentDeadlineOverride },
+    { due_date: deadline },
+  )!;
+  const isExtended = !!deadline && effectiveDeadline.getTime() !== new Date(deadline).getTime();
   const graceDeadline = new Date(effectiveDeadline.getTime() + graceMinutes * 60 * 1000);
   const urgency = getDeadlineUrgency(effectiveDeadline, now);
   const isInGrace = now > effectiveDeadline && now <= graceDeadline;
@@ -65,6 +71,7 @@ export function CountdownTimer({ deadline, graceMinutes, deadlineOverride, class
     )}>
       <Clock className="w-3.5 h-3.5" />
       {timeStr}
+      {isExtended && <span className="text-xs font-normal text-muted-foreground">(extended)</span>}
     </span>
   );
 }
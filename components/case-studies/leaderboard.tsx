@@ -15,7 +15,10 @@ interface LeaderboardEntry {
   rank: number;
   subgroup_id: string;
   subgroup_name: string;
+  /** After late penalty */
   score: number | null;
+  raw_score: number | null;
+  late_penalty: number;
   is_late: boolean;
 }
 
@@ -110,9 +113,16 @@ export function Leaderboard({
                   </div>
                   <div className="text-right shrink-0">
                     {entry.score !== null ? (
-                      <span className="font-bold text-sm">
-                        {entry.score}<span className="text-muted-foreground font-normal">/{maxScore}</span>
-                      </span>
+                      <>
+                        <span className="font-bold text-sm">
+                          {entry.score}<span className="text-muted-foreground font-normal">/{maxScore}</span>
+                        </span>
+                        {entry.late_penalty > 0 && (
+                          <p className="text-[11px] text-amber-600 dark:text-amber-400">
+                            {entry.raw_score} − {entry.late_penalty} late
+                          </p>
+                        )}
+                      </>
                     ) : (
                       <span className="text-xs text-muted-foreground">N/A</span>
                     )}
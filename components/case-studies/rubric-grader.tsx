@@ -0,0 +1,127 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { computeRubricScore, type RubricScoreInput } from '@/lib/services/rubric';
+import type { RubricCriteria } from '@/types';
+
+export interface RubricPick {
+  level_label: string;
+  comment: string;
+}
+
+export type RubricPicks = Record<string, RubricPick>;
+
+interface RubricGraderProps {
+  criteria: RubricCriteria[];
+  maxScore: number;
+  value: RubricPicks;
+  onChange: (value: RubricPicks) => void;
+  disabled?: boolean;
+}
+
+/** Seed picks from stored rubric scores (level_label + comment per criterion). */
+export function picksFromScores(
+  scores: Array<{ criteria_id: string; level_label: string | null; comment: string | null }> | undefined,
+): RubricPicks {
+  const picks: RubricPicks = {};
+  for (const s of scores || []) {
+    if (s.level_label) picks[s.criteria_id] = { level_label: s.level_label, comment: s.comment ?? '' };
+  }
+  return picks;
+}
+
+export function picksToPayload(picks: RubricPicks): RubricScoreInput[] {
+  return Object.entries(picks).map(([criteriaId, pick]) => ({
+    criteria_id: criteriaId,
+    level_label: pick.level_label,
+    comment: pick.comment.trim() || null,
+  }));
+}
+
+export function isRubricComplete(criteria: RubricCriteria[], picks: RubricPicks): boolean {
+  return criteria.every((c) => !!picks[c.id]);
+}
+
+export function RubricGrader({ criteria, maxScore, value, onChange, disabled }: RubricGraderProps) {
+  const points: Record<string, number> = {};
+  for (const c of criteria) {
+    const level = c.levels.find((l) => l.label === value[c.id]?.level_label);
+    if (level) points[c.id] = level.points;
+  }
+  const graded = criteria.filter((c) => points[c.id] !== undefined).length;
+  const total = computeRubricScore(criteria, points, maxScore);
+  const showWeights = criteria.some((c) => c.weight !== criteria[0]?.weight);
+
+  const pick = (criteriaId: string, levelLabel: string) => {
+    onChange({ ...value, [criteriaId]: { level_label: levelLabel, comment: value[criteriaId]?.comment ?? '' } });
+  };
+
+  return (
+    <div className="space-y-4">
+      {criteria.map((c) => (
+        <div key={c.id} className="space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium">{c.label}</p>
+              {c.description && <p className="text-xs text-muted-foreground">{c.description}</p>}
+            </div>
+            {showWeights && (
+              <Badge variant="outline" className="text-[10px] shrink-0">×{c.weight}</Badge>
+            )}
+          </div>
+
+          <div className="grid gap-1.5" style={{ gridTemplateColumns: `repeat(${Math.min(c.levels.length, 4)}, minmax(0, 1fr))` }}>
+            {c.levels.map((level) => {
+              const selected = value[c.id]?.level_label === level.label;
+              return (
+                <button
+                  key={level.label}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => pick(c.id, level.label)}
+                  aria-pressed={selected}
+                  className={cn(
+                    'rounded-md border px-2 py-1.5 text-left transition-colors disabled:opacity-60',
+                    selected
+                      ? 'border-primary bg-primary/10 ring-1 ring-primary'
+                      : 'hover:border-primary/40 hover:bg-muted/50'
+                  )}
+                >
+                  <span className="flex items-center justify-between gap-1 text-xs font-medium">
+                    <span className="truncate">{level.label}</span>
+                    <span className="text-muted-foreground tabular-nums">{level.points}</span>
+                  </span>
+                  {level.description && (
+                    <span className="block text-[11px] leading-snug text-muted-foreground mt-0.5">{level.description}</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          {value[c.id] && (
+            <Input
+              placeholder="Comment on this criterion (optional)"
+              value={value[c.id].comment}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...value, [c.id]: { ...value[c.id], comment: e.target.value } })}
+              className="h-8 text-xs"
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between rounded-md bg-muted/50 px-3 py-2 text-sm">
+        <span className="text-muted-foreground">
+          {graded}/{criteria.length} criteria graded
+        </span>
+        <span className="font-semibold tabular-nums">
+          {graded === criteria.length ? total : '–'}
+          <span className="text-muted-foreground font-normal">/{maxScore}</span>
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { FileText, Link2, Loader2, Minus, Plus, Star } from 'lucide-react';
+import type { MemberContribution, SubmissionContributions as Contributions } from '@/types';
+
+interface SubmissionContributionsProps {
+  /** Contributions endpoint for the viewer's role (GET to load, PUT to adjust) */
+  endpoint: string;
+  /** Called after an adjustment is saved or cleared */
+  onChanged?: () => void;
+}
+
+interface Draft {
+  points: string;
+  reason: string;
+}
+
+function formatPoints(points: number): string {
+  return points > 0 ? `+${points}` : `${points}`;
+}
+
+export function SubmissionContributions({ endpoint, onChanged }: SubmissionContributionsProps) {
+  const [contributions, setContributions] = useState<Contributions | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const fetchContributions = useCallback(async () => {
+    try {
+      const res = await fetch(endpoint);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      const loaded = data.contributions as Contributions;
+      setContributions(loaded);
+      setDrafts(Object.fromEntries(loaded.members.map(m => [
+        m.user_id,
+        { points: m.adjustment?.adjustment.toString() ?? '', reason: m.adjustment?.reason ?? '' },
+      ])));
+    } catch {
+      toast.error('Failed to load contributions');
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    fetchContributions();
+  }, [fetchContributions]);
+
+  const handleSave = async (member: MemberContribution, clear: boolean) => {
+    const draft = drafts[member.user_id];
+    setSavingId(member.user_id);
+    try {
+      const res = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          student_id: member.user_id,
+          points: clear ? null : Number(draft.points),
+          reason: clear ? null : draft.reason.trim(),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed');
+      toast.success(clear ? 'Adjustment removed' : 'Adjustment saved');
+      await fetchContributions();
+      onChanged?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save adjustment');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const setDraft = (userId: string, patch: Partial<Draft>) => {
+    setDrafts(prev => ({ ...prev, [userId]: { ...prev[userId], ...patch } }));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!contributions) return null;
+
+  const { members, events, group_score: groupScore, max_score: maxScore } = contributions;
+  const ratedCount = members.filter(m => m.has_rated).length;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {groupScore !== null ? <>Group score <span className="font-semibold text-foreground">{groupScore}</span>/{maxScore}</> : 'Group score not available yet'}
+        {contributions.survey_enabled && <> · survey {ratedCount}/{members.length} responded</>}
+      </p>
+
+      {members.map(m => {
+        const draft = drafts[m.user_id] ?? { points: '', reason: '' };
+        const saving = savingId === m.user_id;
+        return (
+          <div key={m.user_id} className="rounded-lg border bg-card p-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{m.full_name ?? 'Member'}</span>
+              {m.adjustment && (
+                <Badge variant="outline" className="text-[10px]">
+                  {formatPoints(m.adjustment.adjustment)} pts
+                </Badge>
+              )}
+              {contributions.survey_enabled && !m.has_rated && (
+                <Badge variant="secondary" className="text-[10px]">Survey pending</Badge>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><FileText className="w-3 h-3" />{m.files_added} file{m.files_added === 1 ? '' : 's'}</span>
+              <span className="flex items-center gap-1"><Link2 className="w-3 h-3" />{m.links_added} link{m.links_added === 1 ? '' : 's'}</span>
+              {m.items_removed > 0 && <span>{m.items_removed} removed</span>}
+              {m.mean_rating !== null && (
+                <span className="flex items-center gap-1">
+                  <Star className="w-3 h-3 text-amber-500" />
+                  {m.mean_rating} from {m.ratings_received}
+                  {m.contribution_factor !== null && <> · ×{m.contribution_factor}</>}
+                </span>
+              )}
+            </div>
+
+            {m.adjustment && (
+              <p className="text-xs text-muted-foreground">
+                &ldquo;{m.adjustment.reason}&rdquo;
+                {m.adjustment.adjusted_by_name && <> — {m.adjustment.adjusted_by_name} ({m.adjustment.adjusted_by_role})</>}
+              </p>
+            )}
+
+            <div className="grid grid-cols-[90px_1fr] gap-2">
+              <Input
+                type="number"
+                placeholder="± Points"
+                value={draft.points}
+                onChange={e => setDraft(m.user_id, { points: e.target.value })}
+                className="h-8 text-xs"
+              />
+              <Input
+                placeholder="Reason (required)"
+                value={draft.reason}
+                onChange={e => setDraft(m.user_id, { reason: e.target.value })}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 text-xs"
+                onClick={() => handleSave(m, false)}
+                disabled={saving || draft.points === '' || !draft.reason.trim()}
+              >
+                {saving && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                Adjust Grade
+              </Button>
+              {m.suggested_adjustment !== null && m.suggested_adjustment !== 0 && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 text-xs"
+                  onClick={() => setDraft(m.user_id, {
+                    points: m.suggested_adjustment!.toString(),
+                    reason: draft.reason || `Peer contribution rating ×${m.contribution_factor}`,
+                  })}
+                  disabled={saving}
+                >
+                  Suggest {formatPoints(m.suggested_adjustment)}
+                </Button>
+              )}
+              {m.adjustment && (
+                <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => handleSave(m, true)} disabled={saving}>
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {events.length > 0 && (
+        <div className="space-y-1.5">
+          <button
+            type="button"
+            className="text-xs font-medium text-muted-foreground hover:text-foreground"
+            onClick={() => setShowHistory(v => !v)}
+          >
+            {showHistory ? 'Hide' : 'Show'} attachment history ({events.length})
+          </button>
+          {showHistory && (
+            <ul className="space-y-1">
+              {events.map(e => {
+                const ActionIcon = e.action === 'added' ? Plus : Minus;
+                const TypeIcon = e.type === 'file' ? FileText : Link2;
+                return (
+                  <li key={e.id} className="flex items-center gap-1.5 text-xs">
+                    <ActionIcon className={`w-3 h-3 shrink-0 ${e.action === 'added' ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`} />
+                    <TypeIcon className="w-3 h-3 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{e.label ?? 'Attachment'}</span>
+                    <span className="text-muted-foreground shrink-0">
+                      · {e.action === 'added' ? e.uploaded_by_name : e.actor_name} ·{' '}
+                      {new Date(e.created_at).toLocaleString('en-IN', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
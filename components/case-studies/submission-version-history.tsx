@@ -0,0 +1,74 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { FileText, Link2, Minus, Plus, RefreshCw } from 'lucide-react';
+import type { AttachmentChange, SubmissionVersionWithChanges } from '@/lib/services/submission-versions';
+
+interface SubmissionVersionHistoryProps {
+  /** Newest first, as returned by the versions endpoints */
+  versions: SubmissionVersionWithChanges[];
+  /** Highlight the version a review was graded against */
+  gradedVersionId?: string | null;
+}
+
+const CHANGE_STYLES: Record<AttachmentChange['kind'], { icon: React.ElementType; label: string; className: string }> = {
+  added: { icon: Plus, label: 'Added', className: 'text-emerald-600 dark:text-emerald-400' },
+  changed: { icon: RefreshCw, label: 'Replaced', className: 'text-blue-600 dark:text-blue-400' },
+  removed: { icon: Minus, label: 'Removed', className: 'text-red-600 dark:text-red-400' },
+};
+
+function shortHash(change: AttachmentChange): string | null {
+  const hash = change.after?.file_hash ?? change.before?.file_hash;
+  return hash ? hash.slice(0, 8) : null;
+}
+
+export function SubmissionVersionHistory({ versions, gradedVersionId }: SubmissionVersionHistoryProps) {
+  if (versions.length === 0) {
+    return <p className="text-sm text-muted-foreground py-2">No submitted versions yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l ml-2 space-y-4">
+      {versions.map((v, i) => (
+        <li key={v.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border bg-background" />
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-semibold">Version {v.version_number}</span>
+            {i === 0 && <Badge variant="secondary" className="text-[10px]">Latest</Badge>}
+            {v.is_late && (
+              <Badge variant="outline" className="text-[10px] text-amber-600 border-amber-300 dark:text-amber-400 dark:border-amber-700">Late</Badge>
+            )}
+            {gradedVersionId === v.id && (
+              <Badge variant="outline" className="text-[10px] text-blue-600 border-blue-300 dark:text-blue-400 dark:border-blue-700">Graded</Badge>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {new Date(v.submitted_at).toLocaleString('en-IN', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            {v.submitted_by_name && <> · submitted by {v.submitted_by_name}</>}
+            {' · '}{v.attachments.length} attachment{v.attachments.length === 1 ? '' : 's'}
+          </p>
+
+          {v.changes.length > 0 && (
+            <ul className="mt-1.5 space-y-1">
+              {v.changes.map((c, j) => {
+                const style = CHANGE_STYLES[c.kind];
+                const ChangeIcon = style.icon;
+                const TypeIcon = c.type === 'file' ? FileText : Link2;
+                const hash = c.type === 'file' ? shortHash(c) : null;
+                return (
+                  <li key={`${v.id}-${j}`} className="flex items-center gap-1.5 text-xs" title={style.label}>
+                    <ChangeIcon className={`w-3 h-3 shrink-0 ${style.className}`} />
+                    <TypeIcon className="w-3 h-3 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{c.label}</span>
+                    {hash && <code className="text-[10px] text-muted-foreground">{hash}</code>}
+                    {c.changed_by_name && <span className="text-muted-foreground shrink-0">· {c.changed_by_name}</span>}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -22,6 +22,7 @@ import {
   User,
   Settings,
   LogOut,
+  NotebookPen,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -55,12 +56,14 @@ const navItems: NavItem[] = [
   { label: 'Calendar', href: '/calendar', icon: Calendar },
   { label: 'My Learnings', href: '/learnings', icon: BookOpen },
   { label: 'Case Studies', href: '/case-studies', icon: FileText },
+  { label: 'Assignments', href: '/assignments', icon: NotebookPen },
   { label: 'Resources', href: '/resources', icon: FolderOpen },
   { label: 'Invoices', href: '/invoices', icon: Receipt },
   { label: 'Analytics', href: '/analytics', icon: BarChart3 },
   { label: 'My Subgroup', href: '/my-subgroup', icon: Users },
   { label: 'My Subgroups', href: '/mentor/subgroups', icon: Users, roles: ['mentor'] },
   { label: 'Review Cases', href: '/mentor/case-studies', icon: FileText, roles: ['mentor'] },
+  { label: 'Grade Homework', href: '/mentor/assignments', icon: NotebookPen, roles: ['mentor'] },
   { label: 'Give Feedback', href: '/mentor/feedback', icon: MessageSquare, roles: ['mentor'] },
   { label: 'Team', href: '/team', icon: Users, roles: ['admin', 'company_user', 'mentor'] },
   { label: 'Attendance', href: '/attendance', icon: BarChart3, roles: ['admin', 'company_user', 'mentor'] },
@@ -0,0 +1,424 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from 'sonner';
+import { CheckCircle2, Clock, ListChecks, Loader2, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { QuizDetail } from '@/lib/services/quizzes';
+import type { QuizAnswer, QuizAttempt, QuizQuestionForStudent, QuizReviewItem, QuizSummary } from '@/types';
+
+export interface QuizPlayerDialogProps {
+  /** Quiz resource to open, or null when closed */
+  resourceId: string | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called after an attempt is submitted, with the student's updated standing */
+  onSubmitted: (quiz: QuizSummary) => void;
+}
+
+type Answers = Record<string, QuizAnswer>;
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+function formatRemaining(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function QuestionInput({
+  question,
+  answer,
+  onChange,
+}: {
+  question: QuizQuestionForStudent;
+  answer: QuizAnswer | undefined;
+  onChange: (answer: QuizAnswer) => void;
+}) {
+  const chosen = answer?.option_ids ?? [];
+
+  switch (question.type) {
+    case 'single_choice':
+      return (
+        <div className="space-y-2">
+          {question.options.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => onChange({ option_ids: [option.id] })}
+              className={cn(
+                'w-full flex items-center gap-3 rounded-lg border-2 px-4 py-2.5 text-left text-sm transition-colors',
+                chosen.includes(option.id)
+                  ? 'border-violet-500 bg-violet-500/10'
+                  : 'border-gray-200 dark:border-gray-700 hover:border-violet-500/40'
+              )}
+            >
+              <span className={cn(
+                'w-4 h-4 rounded-full border-2 flex-shrink-0',
+                chosen.includes(option.id) ? 'border-violet-500 bg-violet-500' : 'border-gray-400'
+              )} />
+              {option.text}
+            </button>
+          ))}
+        </div>
+      );
+    case 'multi_select':
+      return (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Select all that apply</p>
+          {question.options.map(option => (
+            <label
+              key={option.id}
+              className={cn(
+                'flex items-center gap-3 rounded-lg border-2 px-4 py-2.5 text-sm cursor-pointer transition-colors',
+                chosen.includes(option.id)
+                  ? 'border-violet-500 bg-violet-500/10'
+                  : 'border-gray-200 dark:border-gray-700 hover:border-violet-500/40'
+              )}
+            >
+              <Checkbox
+                checked={chosen.includes(option.id)}
+                onCheckedChange={(checked) => onChange({
+                  option_ids: checked ? [...chosen, option.id] : chosen.filter(id => id !== option.id),
+                })}
+              />
+              {option.text}
+            </label>
+          ))}
+        </div>
+      );
+    case 'numeric':
+      return (
+        <Input
+          type="number"
+          step="any"
+          placeholder="Your answer"
+          value={answer?.value ?? ''}
+          onChange={(e) => onChange({ value: e.target.value === '' ? null : Number(e.target.value) })}
+          className="max-w-xs"
+        />
+      );
+    case 'short_text':
+      return (
+        <Input
+          placeholder="Your answer"
+          value={answer?.text ?? ''}
+          onChange={(e) => onChange({ text: e.target.value })}
+          maxLength={1000}
+        />
+      );
+  }
+}
+
+function describeAnswer(item: QuizReviewItem, answer: QuizAnswer | null | undefined): string {
+  if (!answer) return 'No answer';
+  if (item.type === 'numeric') return answer.value === null || answer.value === undefined ? 'No answer' : String(answer.value);
+  if (item.type === 'short_text') return answer.text?.trim() || 'No answer';
+  const texts = item.options.filter(o => answer.option_ids?.includes(o.id)).map(o => o.text);
+  return texts.length ? texts.join(', ') : 'No answer';
+}
+
+function correctAnswer(item: QuizReviewItem): string | null {
+  if (item.correct_option_ids) {
+    return item.options.filter(o => item.correct_option_ids!.includes(o.id)).map(o => o.text).join(', ');
+  }
+  if (item.type === 'numeric' && item.numeric_answer !== undefined && item.numeric_answer !== null) {
+    return item.numeric_tolerance ? `${item.numeric_answer} (±${item.numeric_tolerance})` : String(item.numeric_answer);
+  }
+  if (item.accepted_answers?.length) return item.accepted_answers.join(' / ');
+  return null;
+}
+
+function ReviewList({ items }: { items: QuizReviewItem[] }) {
+  return (
+    <div className="space-y-3">
+      {items.map((item, i) => {
+        const correct = item.result?.correct;
+        const key = correctAnswer(item);
+        return (
+          <div key={item.id} className="rounded-lg border p-4 space-y-2">
+            <div className="flex items-start gap-2">
+              {correct
+                ? <CheckCircle2 className="w-5 h-5 text-green-500 flex-shrink-0" />
+                : <XCircle className="w-5 h-5 text-red-500 flex-shrink-0" />}
+              <p className="flex-1 text-sm font-medium whitespace-pre-line">{i + 1}. {item.prompt}</p>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {item.result?.points_awarded ?? 0}/{item.points}
+              </span>
+            </div>
+            <p className="text-sm text-muted-foreground pl-7">Your answer: {describeAnswer(item, item.answer)}</p>
+            {key !== null && !correct && (
+              <p className="text-sm text-green-600 dark:text-green-400 pl-7">Correct answer: {key}</p>
+            )}
+            {item.explanation && (
+              <p className="text-sm pl-7 text-gray-700 dark:text-gray-300">{item.explanation}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function QuizPlayerDialog({ resourceId, onOpenChange, onSubmitted }: QuizPlayerDialogProps) {
+  const [detail, setDetail] = useState<QuizDetail | null>(null);
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const [questions, setQuestions] = useState<QuizQuestionForStudent[]>([]);
+  const [answers, setAnswers] = useState<Answers>({});
+  const [starting, setStarting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const dirtyRef = useRef(false);
+  const submittedRef = useRef(false);
+
+  const fetchDetail = useCallback(async () => {
+    if (!resourceId) return;
+    try {
+      const res = await fetch(`/api/learnings/quizzes/${resourceId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setDetail(data);
+      if (data.open_attempt) {
+        setAttempt(data.open_attempt.attempt);
+        setQuestions(data.open_attempt.questions);
+        setAnswers(data.open_attempt.attempt.answers ?? {});
+        submittedRef.current = false;
+      }
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : 'Failed to load quiz');
+    }
+  }, [resourceId]);
+
+  useEffect(() => {
+    fetchDetail();
+  }, [fetchDetail]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setDetail(null);
+      setAttempt(null);
+      setQuestions([]);
+      setAnswers({});
+    }
+    onOpenChange(open);
+  };
+
+  // Autosave shortly after the student stops changing answers
+  useEffect(() => {
+    if (!attempt || !dirtyRef.current) return;
+    const timer = setTimeout(async () => {
+      dirtyRef.current = false;
+      try {
+        await fetch(`/api/learnings/quizzes/attempts/${attempt.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ answers }),
+        });
+      } catch (error) {
+        console.error('Error autosaving quiz answers:', error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [answers, attempt]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!attempt || submittedRef.current) return;
+    submittedRef.current = true;
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/learnings/quizzes/attempts/${attempt.id}/submit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answers }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to submit quiz');
+
+      setDetail(prev => prev && {
+        ...prev,
+        quiz: data.quiz,
+        attempts: [...prev.attempts, data.attempt],
+        open_attempt: null,
+        review: data.review,
+      });
+      setAttempt(null);
+      onSubmitted(data.quiz);
+      if (data.attempt.passed) toast.success(`Passed with ${data.attempt.percent}%`);
+      else toast.info(`Scored ${data.attempt.percent}%`);
+    } catch (err) {
+      submittedRef.current = false;
+      toast.error(err instanceof Error ? err.message : 'Failed to submit quiz');
+    } finally {
+      setSubmitting(false);
+    }
+  }, [attempt, answers, onSubmitted]);
+
+  // Tick the countdown and submit automatically when time runs out
+  useEffect(() => {
+    if (!attempt?.expires_at) return;
+    const expiresAt = new Date(attempt.expires_at).getTime();
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= expiresAt) {
+        clearInterval(interval);
+        handleSubmit();
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [attempt, handleSubmit]);
+
+  const handleStart = async () => {
+    if (!resourceId) return;
+    setStarting(true);
+    try {
+      const res = await fetch(`/api/learnings/quizzes/${resourceId}/attempts`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to start quiz');
+      submittedRef.current = false;
+      setNow(Date.now());
+      setAttempt(data.attempt);
+      setQuestions(data.questions);
+      setAnswers(data.attempt.answers ?? {});
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to start quiz');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const setAnswer = (questionId: string, answer: QuizAnswer) => {
+    dirtyRef.current = true;
+    setAnswers(prev => ({ ...prev, [questionId]: answer }));
+  };
+
+  // A previous quiz's detail can linger for a moment while the next one loads
+  const current = detail?.quiz.resource_id === resourceId ? detail : null;
+  const quiz = current?.quiz;
+  const remainingMs = attempt?.expires_at ? new Date(attempt.expires_at).getTime() - now : null;
+  const answeredCount = questions.filter(q => {
+    const a = answers[q.id];
+    return a && ((a.option_ids?.length ?? 0) > 0 || (a.value !== undefined && a.value !== null) || !!a.text?.trim());
+  }).length;
+  const canStart = !!quiz && quiz.question_count > 0 && quiz.attempts_remaining !== 0;
+  const latest = current?.attempts[current.attempts.length - 1];
+
+  return (
+    <Dialog open={!!resourceId} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-lg bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center">
+              <ListChecks className="w-5 h-5 text-white" />
+            </div>
+            {quiz?.title ?? 'Quiz'}
+          </DialogTitle>
+          {quiz && (
+            <DialogDescription className="flex flex-wrap items-center gap-2 pt-1">
+              <span>{quiz.question_count} question{quiz.question_count !== 1 ? 's' : ''}</span>
+              <span>· Pass mark {quiz.pass_percent}%</span>
+              {quiz.time_limit_minutes && <span>· {quiz.time_limit_minutes} min</span>}
+              <span>
+                · {quiz.attempts_remaining === null ? 'Unlimited attempts' : `${quiz.attempts_remaining} attempt${quiz.attempts_remaining !== 1 ? 's' : ''} left`}
+              </span>
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {!current ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : attempt ? (
+          <div className="space-y-5">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{answeredCount} of {questions.length} answered</span>
+              {remainingMs !== null && (
+                <Badge variant="outline" className={cn('gap-1', remainingMs < 60_000 && 'text-red-600 border-red-300 dark:text-red-400')}>
+                  <Clock className="w-3.5 h-3.5" />
+                  {formatRemaining(remainingMs)}
+                </Badge>
+              )}
+            </div>
+            {questions.map((q, i) => (
+              <div key={q.id} className="space-y-3">
+                <div className="flex items-start gap-2">
+                  <p className="flex-1 font-medium whitespace-pre-line">{i + 1}. {q.prompt}</p>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">{q.points} pt{q.points !== 1 ? 's' : ''}</span>
+                </div>
+                <QuestionInput question={q} answer={answers[q.id]} onChange={(a) => setAnswer(q.id, a)} />
+              </div>
+            ))}
+            <div className="flex justify-end pt-2">
+              <Button onClick={handleSubmit} disabled={submitting} className="bg-violet-600 hover:bg-violet-700 text-white">
+                {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Submit
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {current.instructions && (
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{current.instructions}</p>
+            )}
+
+            {quiz && quiz.best_percent !== null && (
+              <div className={cn(
+                'flex items-center gap-3 rounded-lg border-2 p-4',
+                quiz.passed ? 'border-green-500/30 bg-green-500/5' : 'border-amber-500/30 bg-amber-500/5'
+              )}>
+                {quiz.passed
+                  ? <CheckCircle2 className="w-6 h-6 text-green-500" />
+                  : <XCircle className="w-6 h-6 text-amber-500" />}
+                <div className="text-sm">
+                  <p className="font-semibold">
+                    Best score {quiz.best_percent}%{quiz.passed ? ' — passed' : ''}
+                  </p>
+                  {latest && (
+                    <p className="text-muted-foreground">
+                      Last attempt: {latest.score}/{latest.max_score} ({latest.percent}%){latest.timed_out ? ' · time ran out' : ''}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {current.review && (
+              <>
+                {!current.review.some(item => item.correct_option_ids || item.accepted_answers || item.numeric_answer !== undefined)
+                  && current.show_answers && (
+                  <p className="text-xs text-muted-foreground">Correct answers appear once you pass or use your last attempt.</p>
+                )}
+                <ReviewList items={current.review} />
+              </>
+            )}
+
+            <div className="flex justify-end">
+              {canStart ? (
+                <Button onClick={handleStart} disabled={starting} className="bg-violet-600 hover:bg-violet-700 text-white">
+                  {starting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {current.attempts.length ? 'Try again' : 'Start quiz'}
+                </Button>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {quiz?.question_count === 0 ? 'This quiz has no questions yet' : 'No attempts left'}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,2 +1,4 @@
 export { ResourcePreviewModal } from './ResourcePreviewModal';
 export type { ResourcePreviewModalProps } from './ResourcePreviewModal';
+export { QuizPlayerDialog } from './QuizPlayerDialog';
+export type { QuizPlayerDialogProps } from './QuizPlayerDialog';
@@ -1,11 +1,27 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Document, Page, pdfjs } from 'react-pdf';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Download, X } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  ChevronLeft,
+  ChevronRight,
+  ZoomIn,
+  ZoomOut,
+  Download,
+  X,
+  Highlighter,
+  MapPin,
+  MessageSquare,
+  MousePointer2,
+  Trash2,
+  Loader2,
+} from 'lucide-react';
 import { toast } from 'sonner';
+import type { AnnotationInput } from '@/lib/services/annotations';
+import type { AnnotationKind, CaseStudyAnnotation } from '@/types';
 
 // Configure PDF.js worker - use unpkg as more reliable CDN
 pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
@@ -15,15 +31,63 @@ interface PDFViewerProps {
   fileName: string;
   isOpen: boolean;
   onClose: () => void;
+  /** Annotations drawn over the pages, with a list for the current page */
+  annotations?: CaseStudyAnnotation[];
+  /** Enables the annotation tools; should resolve once the annotation is saved */
+  onAnnotate?: (annotation: AnnotationInput) => Promise<void>;
+  onDeleteAnnotation?: (annotation: CaseStudyAnnotation) => Promise<void>;
+  canDeleteAnnotation?: (annotation: CaseStudyAnnotation) => boolean;
 }
 
-export function PDFViewer({ fileUrl, fileName, isOpen, onClose }: PDFViewerProps) {
+type AnnotationTool = 'select' | AnnotationKind;
+
+interface DraftAnnotation {
+  kind: AnnotationKind;
+  x: number | null;
+  y: number | null;
+  width: number | null;
+  height: number | null;
+}
+
+const HIGHLIGHT_COLORS = ['#fde047', '#86efac', '#93c5fd', '#f9a8d4'];
+
+const TOOLS: { tool: AnnotationTool; label: string; icon: React.ElementType }[] = [
+  { tool: 'select', label: 'Select', icon: MousePointer2 },
+  { tool: 'highlight', label: 'Highlight', icon: Highlighter },
+  { tool: 'pin', label: 'Pin', icon: MapPin },
+  { tool: 'comment', label: 'Page comment', icon: MessageSquare },
+];
+
+const clamp01 = (n: number) => Math.min(Math.max(n, 0), 1);
+
+export function PDFViewer({
+  fileUrl,
+  fileName,
+  isOpen,
+  onClose,
+  annotations,
+  onAnnotate,
+  onDeleteAnnotation,
+  canDeleteAnnotation,
+}: PDFViewerProps) {
   const [numPages, setNumPages] = useState<number>(0);
   const [pageNumber, setPageNumber] = useState<number>(1);
   const [scale, setScale] = useState<number>(1.0);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Annotation layer
+  const showAnnotations = annotations !== undefined;
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>('select');
+  const [color, setColor] = useState(HIGHLIGHT_COLORS[0]);
+  const [draft, setDraft] = useState<DraftAnnotation | null>(null);
+  const [draftComment, setDraftComment] = useState('');
+  const [savingDraft, setSavingDraft] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const pageAnnotations = (annotations ?? []).filter(a => a.page_number === pageNumber);
+
   const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages);
     setLoading(false);
@@ -39,10 +103,78 @@ export function PDFViewer({ fileUrl, fileName, isOpen, onClose }: PDFViewerProps
 
   const goToPrevPage = () => {
     setPageNumber((prev) => Math.max(prev - 1, 1));
+    setDraft(null);
   };
 
   const goToNextPage = () => {
     setPageNumber((prev) => Math.min(prev + 1, numPages));
+    setDraft(null);
+  };
+
+  const pointFromEvent = (e: React.MouseEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handleOverlayMouseDown = (e: React.MouseEvent) => {
+    if (tool !== 'highlight') return;
+    const point = pointFromEvent(e);
+    dragStart.current = point;
+    setDraft({ kind: 'highlight', x: point.x, y: point.y, width: 0, height: 0 });
+  };
+
+  const handleOverlayMouseMove = (e: React.MouseEvent) => {
+    if (!dragStart.current) return;
+    const start = dragStart.current;
+    const point = pointFromEvent(e);
+    setDraft({
+      kind: 'highlight',
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handleOverlayMouseUp = (e: React.MouseEvent) => {
+    if (tool === 'pin') {
+      const point = pointFromEvent(e);
+      setDraft({ kind: 'pin', x: point.x, y: point.y, width: null, height: null });
+      return;
+    }
+    if (!dragStart.current) return;
+    dragStart.current = null;
+    // A click without a drag is not a highlight
+    if (draft && ((draft.width ?? 0) < 0.01 || (draft.height ?? 0) < 0.01)) setDraft(null);
+  };
+
+  const selectTool = (next: AnnotationTool) => {
+    setTool(next);
+    // A page comment has no position, so it starts straight away
+    setDraft(next === 'comment' ? { kind: 'comment', x: null, y: null, width: null, height: null } : null);
+  };
+
+  const cancelDraft = () => {
+    setDraft(null);
+    setDraftComment('');
+  };
+
+  const saveDraft = async () => {
+    if (!draft || !onAnnotate) return;
+    setSavingDraft(true);
+    try {
+      await onAnnotate({
+        ...draft,
+        page_number: pageNumber,
+        comment: draftComment.trim() || null,
+        color: draft.kind === 'highlight' ? color : null,
+      });
+      cancelDraft();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save annotation');
+    } finally {
+      setSavingDraft(false);
+    }
   };
 
   const zoomIn = () => {
@@ -59,7 +191,7 @@ export function PDFViewer({ fileUrl, fileName, isOpen, onClose }: PDFViewerProps
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col p-0 overflow-hidden">
+      <DialogContent className={`${showAnnotations ? 'max-w-7xl' : 'max-w-5xl'} max-h-[90vh] flex flex-col p-0 overflow-hidden`}>
         <DialogHeader className="px-6 py-4 border-b">
           <div className="flex items-center justify-between">
             <DialogTitle className="text-lg font-semibold truncate pr-4">
@@ -112,61 +244,222 @@ export function PDFViewer({ fileUrl, fileName, isOpen, onClose }: PDFViewerProps
             </Button>
           </div>
 
+          {onAnnotate && (
+            <div className="flex items-center gap-1">
+              {TOOLS.map(t => {
+                const ToolIcon = t.icon;
+                return (
+                  <Button
+                    key={t.tool}
+                    variant={tool === t.tool ? 'default' : 'outline'}
+                    size="sm"
+                    title={t.label}
+                    onClick={() => selectTool(t.tool)}
+                  >
+                    <ToolIcon className="w-4 h-4" />
+                  </Button>
+                );
+              })}
+              {tool === 'highlight' && HIGHLIGHT_COLORS.map(c => (
+                <button
+                  key={c}
+                  type="button"
+                  title="Highlight colour"
+                  onClick={() => setColor(c)}
+                  className={`w-5 h-5 rounded-full border-2 ${color === c ? 'border-foreground' : 'border-transparent'}`}
+                  style={{ backgroundColor: c }}
+                />
+              ))}
+            </div>
+          )}
+
           <Button variant="outline" size="sm" onClick={handleDownload}>
             <Download className="w-4 h-4 mr-2" />
             Download
           </Button>
         </div>
 
-        {/* PDF Document */}
-        <div className="flex-1 overflow-auto bg-muted/20 flex items-start justify-center p-6">
-          {loading && !error && (
-            <div className="flex items-center justify-center h-full">
-              <div className="flex flex-col items-center gap-3">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
-                <p className="text-sm text-muted-foreground">Loading PDF...</p>
+        <div className="flex-1 flex min-h-0">
+          {/* PDF Document */}
+          <div className="flex-1 overflow-auto bg-muted/20 flex items-start justify-center p-6">
+            {loading && !error && (
+              <div className="flex items-center justify-center h-full">
+                <div className="flex flex-col items-center gap-3">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+                  <p className="text-sm text-muted-foreground">Loading PDF...</p>
+                </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {error && (
-            <div className="flex flex-col items-center justify-center h-full gap-4 max-w-md text-center">
-              <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center">
-                <X className="w-8 h-8 text-destructive" />
-              </div>
-              <div>
-                <h3 className="font-semibold mb-2">Failed to Load PDF</h3>
-                <p className="text-sm text-muted-foreground">{error}</p>
+            {error && (
+              <div className="flex flex-col items-center justify-center h-full gap-4 max-w-md text-center">
+                <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center">
+                  <X className="w-8 h-8 text-destructive" />
+                </div>
+                <div>
+                  <h3 className="font-semibold mb-2">Failed to Load PDF</h3>
+                  <p className="text-sm text-muted-foreground">{error}</p>
+                </div>
+                <Button onClick={handleDownload} variant="outline">
+                  <Download className="w-4 h-4 mr-2" />
+                  Download Instead
+                </Button>
               </div>
-              <Button onClick={handleDownload} variant="outline">
-                <Download className="w-4 h-4 mr-2" />
-                Download Instead
-              </Button>
-            </div>
-          )}
+            )}
 
-          {!error && (
-            <Document
-              file={{ url: fileUrl }}
-              onLoadSuccess={onDocumentLoadSuccess}
-              onLoadError={onDocumentLoadError}
-              loading=""
-              className="shadow-lg"
-              options={{
-                httpHeaders: {
-                  'Accept': 'application/pdf',
-                },
-                withCredentials: false,
-              }}
-            >
-              <Page
-                pageNumber={pageNumber}
-                scale={scale}
-                renderTextLayer={false}
-                renderAnnotationLayer={false}
+            {!error && (
+              <Document
+                file={{ url: fileUrl }}
+                onLoadSuccess={onDocumentLoadSuccess}
+                onLoadError={onDocumentLoadError}
+                loading=""
                 className="shadow-lg"
-              />
-            </Document>
+                options={{
+                  httpHeaders: {
+                    'Accept': 'application/pdf',
+                  },
+                  withCredentials: false,
+                }}
+              >
+                <div className="relative">
+                  <Page
+                    pageNumber={pageNumber}
+                    scale={scale}
+                    renderTextLayer={false}
+                    renderAnnotationLayer={false}
+                    className="shadow-lg"
+                  />
+                  {showAnnotations && (
+                    <div
+                      ref={overlayRef}
+                      className={`absolute inset-0 ${tool === 'highlight' || tool === 'pin' ? 'cursor-crosshair' : ''}`}
+                      onMouseDown={handleOverlayMouseDown}
+                      onMouseMove={handleOverlayMouseMove}
+                      onMouseUp={handleOverlayMouseUp}
+                    >
+                      {pageAnnotations.map((a, i) => a.kind === 'highlight' ? (
+                        <button
+                          key={a.id}
+                          type="button"
+                          title={a.comment ?? undefined}
+                          onClick={() => setSelectedId(a.id)}
+                          className={`absolute rounded-sm mix-blend-multiply ${selectedId === a.id ? 'ring-2 ring-primary' : ''}`}
+                          style={{
+                            left: `${a.x! * 100}%`,
+                            top: `${a.y! * 100}%`,
+                            width: `${a.width! * 100}%`,
+                            height: `${a.height! * 100}%`,
+                            backgroundColor: a.color ?? HIGHLIGHT_COLORS[0],
+                            opacity: 0.45,
+                          }}
+                        />
+                      ) : a.kind === 'pin' ? (
+                        <button
+                          key={a.id}
+                          type="button"
+                          title={a.comment ?? undefined}
+                          onClick={() => setSelectedId(a.id)}
+                          className={`absolute -translate-x-1/2 -translate-y-full w-6 h-6 rounded-full bg-primary text-primary-foreground text-[11px] font-semibold shadow ${selectedId === a.id ? 'ring-2 ring-offset-1 ring-primary' : ''}`}
+                          style={{ left: `${a.x! * 100}%`, top: `${a.y! * 100}%` }}
+                        >
+                          {i + 1}
+                        </button>
+                      ) : null)}
+                      {draft?.kind === 'highlight' && (
+                        <div
+                          className="absolute rounded-sm border border-dashed border-foreground/50"
+                          style={{
+                            left: `${draft.x! * 100}%`,
+                            top: `${draft.y! * 100}%`,
+                            width: `${(draft.width ?? 0) * 100}%`,
+                            height: `${(draft.height ?? 0) * 100}%`,
+                            backgroundColor: color,
+                            opacity: 0.45,
+                          }}
+                        />
+                      )}
+                      {draft?.kind === 'pin' && (
+                        <MapPin
+                          className="absolute -translate-x-1/2 -translate-y-full w-6 h-6 text-primary"
+                          style={{ left: `${draft.x! * 100}%`, top: `${draft.y! * 100}%` }}
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+              </Document>
+            )}
+          </div>
+
+          {/* Annotations for the current page */}
+          {showAnnotations && (
+            <aside className="w-72 shrink-0 border-l overflow-y-auto p-4 space-y-3">
+              <p className="text-sm font-semibold">Page {pageNumber} annotations</p>
+
+              {draft && (
+                <div className="rounded-lg border bg-card p-3 space-y-2">
+                  <p className="text-xs font-medium text-muted-foreground capitalize">
+                    New {draft.kind === 'comment' ? 'page comment' : draft.kind}
+                  </p>
+                  <Textarea
+                    autoFocus
+                    placeholder={draft.kind === 'highlight' ? 'Comment (optional)' : 'Comment'}
+                    value={draftComment}
+                    onChange={e => setDraftComment(e.target.value)}
+                    className="min-h-[80px] text-sm"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={saveDraft}
+                      disabled={savingDraft || (draft.kind !== 'highlight' && !draftComment.trim())}
+                    >
+                      {savingDraft && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+                      Save
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={cancelDraft} disabled={savingDraft}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {pageAnnotations.length === 0 && !draft && (
+                <p className="text-xs text-muted-foreground">
+                  {onAnnotate ? 'Drag to highlight, click to pin, or add a page comment.' : 'No annotations on this page'}
+                </p>
+              )}
+
+              {pageAnnotations.map((a, i) => (
+                <div
+                  key={a.id}
+                  onClick={() => setSelectedId(a.id)}
+                  className={`rounded-lg border p-3 space-y-1 cursor-pointer ${selectedId === a.id ? 'border-primary bg-primary/5' : 'bg-card'}`}
+                >
+                  <div className="flex items-center gap-1.5 text-xs">
+                    {a.kind === 'highlight' && (
+                      <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: a.color ?? HIGHLIGHT_COLORS[0] }} />
+                    )}
+                    {a.kind === 'pin' && <span className="font-semibold">#{i + 1}</span>}
+                    {a.kind === 'comment' && <MessageSquare className="w-3 h-3 shrink-0 text-muted-foreground" />}
+                    <span className="text-muted-foreground truncate flex-1">
+                      {a.author_name ?? 'Reviewer'} · <span className="capitalize">{a.author_role}</span>
+                    </span>
+                    {onDeleteAnnotation && canDeleteAnnotation?.(a) && (
+                      <button
+                        type="button"
+                        title="Delete annotation"
+                        className="text-muted-foreground hover:text-destructive"
+                        onClick={e => { e.stopPropagation(); onDeleteAnnotation(a); }}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                  {a.comment && <p className="text-sm whitespace-pre-wrap">{a.comment}</p>}
+                </div>
+              ))}
+            </aside>
           )}
         </div>
       </DialogContent>
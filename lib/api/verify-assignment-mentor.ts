@@ -0,0 +1,45 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getMentorStudentIds } from '@/lib/services/assignments';
+
+/**
+ * Result of mentor verification for one assignment submission.
+ * Discriminated union: check `authorized` to narrow the type.
+ */
+export type VerifyAssignmentMentorResult =
+  | { authorized: true; filePath: string | null }
+  | { authorized: false; error: string; status: number };
+
+/**
+ * Shared check for /api/mentor/assignments/submissions/[id]/* routes: the
+ * caller must mentor a subgroup of the assignment's cohort that the
+ * submitting student belongs to.
+ *
+ * Usage:
+ *   const access = await verifyAssignmentMentor(adminClient, submissionId, user.id);
+ *   if (!access.authorized) {
+ *     return NextResponse.json({ error: access.error }, { status: access.status });
+ *   }
+ */
+export async function verifyAssignmentMentor(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  userId: string,
+): Promise<VerifyAssignmentMentorResult> {
+  const { data: submission } = await adminClient
+    .from('assignment_submissions')
+    .select('id, user_id, file_path, assignment:assignments(cohort_id)')
+    .eq('id', submissionId)
+    .maybeSingle();
+
+  const assignment = submission?.assignment as unknown as { cohort_id: string } | null;
+  if (!submission?.user_id || !assignment) {
+    return { authorized: false, error: 'Submission not found', status: 404 };
+  }
+
+  const studentIds = await getMentorStudentIds(adminClient, userId, assignment.cohort_id);
+  if (!studentIds.has(submission.user_id)) {
+    return { authorized: false, error: 'Access denied', status: 403 };
+  }
+
+  return { authorized: true, filePath: submission.file_path };
+}
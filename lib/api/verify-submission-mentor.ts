@@ -0,0 +1,62 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isReviewBlind, mentorCanReview } from '@/lib/services/review-calibration';
+
+/**
+ * Result of mentor verification for one submission.
+ * Discriminated union: check `authorized` to narrow the type.
+ */
+export type VerifySubmissionMentorResult =
+  | { authorized: true; subgroupId: string; visibility: string; blind: boolean }
+  | { authorized: false; error: string; status: number };
+
+/**
+ * Shared check for /api/mentor/case-studies/submissions/[id]/* routes that
+ * act on a submission: the caller must mentor its subgroup and the
+ * submission must be open to mentors. `blind` is true while other
+ * reviewers' work stays hidden (calibration mode).
+ *
+ * Usage:
+ *   const access = await verifySubmissionMentor(adminClient, submissionId, user.id);
+ *   if (!access.authorized) {
+ *     return NextResponse.json({ error: access.error }, { status: access.status });
+ *   }
+ */
+export async function verifySubmissionMentor(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  userId: string,
+): Promise<VerifySubmissionMentorResult> {
+  const { data: submission } = await adminClient
+    .from('case_study_submissions')
+    .select('id, subgroup_id, visibility, adjudicated_at, case_study:case_studies(calibration_mode)')
+    .eq('id', submissionId)
+    .maybeSingle();
+
+  if (!submission) {
+    return { authorized: false, error: 'Submission not found', status: 404 };
+  }
+
+  const { data: mentorCheck } = await adminClient
+    .from('subgroup_mentors')
+    .select('id')
+    .eq('subgroup_id', submission.subgroup_id)
+    .eq('user_id', userId)
+    .limit(1)
+    .maybeSingle();
+
+  if (!mentorCheck) {
+    return { authorized: false, error: 'Access denied', status: 403 };
+  }
+
+  const calibrationMode = !!(submission.case_study as unknown as { calibration_mode: boolean } | null)?.calibration_mode;
+  if (!mentorCanReview(submission.visibility, calibrationMode)) {
+    return { authorized: false, error: 'Submission not yet visible to mentors', status: 403 };
+  }
+
+  return {
+    authorized: true,
+    subgroupId: submission.subgroup_id,
+    visibility: submission.visibility,
+    blind: isReviewBlind(calibrationMode, submission),
+  };
+}
@@ -77,6 +77,8 @@ export interface ZoomPastMeetingDetails {
   uuid: string;
   id: number;
   topic: string;
+  host_id?: string;
+  user_email?: string; // host's email
   start_time: string;
   end_time: string;
   duration: number; // scheduled duration in minutes
@@ -506,6 +508,11 @@ export class ZoomService {
       .update(message)
       .digest('hex')}`;
 
+    // timingSafeEqual throws on length mismatch — treat that as a failed check
+    if (signature.length !== expectedSignature.length) {
+      return false;
+    }
+
     return crypto.timingSafeEqual(
       Buffer.from(signature),
       Buffer.from(expectedSignature)
@@ -0,0 +1,82 @@
+/**
+ * Tests for PDF annotations: what a valid highlight, pin or page comment
+ * looks like, how it is stored, and which annotations students see.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  annotationsPublished,
+  isPdfAttachment,
+  toAnnotationFields,
+  validateAnnotation,
+  visibleToStudents,
+} from '@/lib/services/annotations';
+
+describe('validateAnnotation', () => {
+  it('accepts highlights, pins and page comments', () => {
+    expect(validateAnnotation({ kind: 'highlight', page_number: 2, x: 0.1, y: 0.2, width: 0.5, height: 0.05 })).toBeNull();
+    expect(validateAnnotation({ kind: 'pin', page_number: 1, x: 1, y: 0, comment: 'Cite this' })).toBeNull();
+    expect(validateAnnotation({ kind: 'comment', page_number: 3, comment: 'Strong summary', color: '#FDE047' })).toBeNull();
+  });
+
+  it('rejects bad kinds, pages and positions', () => {
+    expect(validateAnnotation({ kind: 'arrow', page_number: 1 })).toMatch(/kind must be/);
+    expect(validateAnnotation({ kind: 'comment', page_number: 0, comment: 'x' })).toMatch(/page_number/);
+    expect(validateAnnotation({ kind: 'comment', page_number: 1.5, comment: 'x' })).toMatch(/page_number/);
+    expect(validateAnnotation({ kind: 'pin', page_number: 1, x: 1.2, y: 0.5, comment: 'x' })).toMatch(/fractions/);
+    expect(validateAnnotation({ kind: 'highlight', page_number: 1, x: 0.1, y: 0.1, width: 0, height: 0.1 })).toMatch(/width and height/);
+    expect(validateAnnotation({ kind: 'highlight', page_number: 1, x: 0.8, y: 0.1, width: 0.5, height: 0.1 })).toMatch(/within the page/);
+  });
+
+  it('requires a comment on pins and page comments only', () => {
+    expect(validateAnnotation({ kind: 'pin', page_number: 1, x: 0.5, y: 0.5, comment: '  ' })).toMatch(/pin needs a comment/);
+    expect(validateAnnotation({ kind: 'comment', page_number: 1 })).toMatch(/comment needs a comment/);
+    expect(validateAnnotation({ kind: 'comment', page_number: 1, comment: 'x'.repeat(2001) })).toMatch(/limited/);
+    expect(validateAnnotation({ kind: 'comment', page_number: 1, comment: 'ok', color: 'yellow' })).toMatch(/hex/);
+  });
+});
+
+describe('toAnnotationFields', () => {
+  it('drops fields the kind does not use and trims the comment', () => {
+    expect(toAnnotationFields({ kind: 'comment', page_number: 2, x: 0.5, y: 0.5, width: 0.1, height: 0.1, comment: ' Nice ' })).toEqual({
+      page_number: 2, kind: 'comment', x: null, y: null, width: null, height: null, comment: 'Nice', color: null,
+    });
+    expect(toAnnotationFields({ kind: 'pin', page_number: 1, x: 0.3, y: 0.4, width: 0.2, height: 0.2, comment: 'Here' })).toMatchObject({
+      x: 0.3, y: 0.4, width: null, height: null,
+    });
+  });
+
+  it('trims a highlight that overshoots the page edge', () => {
+    const fields = toAnnotationFields({ kind: 'highlight', page_number: 1, x: 0.6, y: 0.9, width: 0.4005, height: 0.1, comment: '' });
+    expect(fields.width).toBeCloseTo(0.4);
+    expect(fields.comment).toBeNull();
+  });
+});
+
+describe('student visibility', () => {
+  it('publishes annotations with the reviews', () => {
+    expect(annotationsPublished('subgroup_published')).toBe(true);
+    expect(annotationsPublished('cohort_published')).toBe(true);
+    expect(annotationsPublished('mentor_visible')).toBe(false);
+    expect(annotationsPublished('admin_reviewed')).toBe(false);
+  });
+
+  it("hides annotations by mentors whose review was overridden", () => {
+    const annotations = [
+      { id: 'a', author_id: 'admin-1', author_role: 'admin' as const },
+      { id: 'b', author_id: 'mentor-1', author_role: 'mentor' as const },
+      { id: 'c', author_id: 'mentor-2', author_role: 'mentor' as const },
+    ];
+    expect(visibleToStudents(annotations, ['mentor-1']).map(a => a.id)).toEqual(['a', 'c']);
+  });
+});
+
+describe('isPdfAttachment', () => {
+  it('accepts uploaded PDFs by type or extension', () => {
+    expect(isPdfAttachment({ type: 'file', file_type: 'application/pdf', file_name: 'deck' })).toBe(true);
+    expect(isPdfAttachment({ type: 'file', file_type: null, file_name: 'Report.PDF' })).toBe(true);
+    expect(isPdfAttachment({ type: 'file', file_type: 'image/png', file_name: 'chart.png' })).toBe(false);
+    expect(isPdfAttachment({ type: 'link', file_type: null, file_name: null })).toBe(false);
+  });
+});
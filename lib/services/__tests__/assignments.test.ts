@@ -0,0 +1,106 @@
+/**
+ * Tests for individual assignments: when students can submit, the status
+ * they see, upload paths, link and grade validation.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  assignmentFileFolder,
+  assignmentFilePath,
+  assignmentStudentStatus,
+  canSubmitAssignment,
+  isAssignmentFilePath,
+  isValidSubmissionLink,
+  validateGrade,
+  type AssignmentDeadlineInput,
+} from '@/lib/services/assignments';
+
+const assignment: AssignmentDeadlineInput = {
+  due_date: '2026-03-10T12:00:00.000Z',
+  grace_period_minutes: 5,
+  is_archived: false,
+  submissions_closed: false,
+};
+
+const before = new Date('2026-03-10T11:00:00.000Z');
+const inGrace = new Date('2026-03-10T12:03:00.000Z');
+const after = new Date('2026-03-10T12:06:00.000Z');
+
+describe('canSubmitAssignment', () => {
+  it('allows submitting up to the end of the grace period', () => {
+    expect(canSubmitAssignment(assignment, null, before)).toBe(true);
+    expect(canSubmitAssignment(assignment, null, inGrace)).toBe(true);
+    expect(canSubmitAssignment(assignment, null, after)).toBe(false);
+  });
+
+  it('lets a student replace a submission until it is graded', () => {
+    expect(canSubmitAssignment(assignment, { status: 'submitted' }, before)).toBe(true);
+    expect(canSubmitAssignment(assignment, { status: 'graded' }, before)).toBe(false);
+  });
+
+  it('blocks archived and closed assignments', () => {
+    expect(canSubmitAssignment({ ...assignment, is_archived: true }, null, before)).toBe(false);
+    expect(canSubmitAssignment({ ...assignment, submissions_closed: true }, null, before)).toBe(false);
+  });
+
+  it('never closes an open-ended assignment on its own', () => {
+    expect(canSubmitAssignment({ ...assignment, due_date: null }, null, after)).toBe(true);
+  });
+});
+
+describe('assignmentStudentStatus', () => {
+  it('is not_submitted while open and missing once closed', () => {
+    expect(assignmentStudentStatus(assignment, null, before)).toBe('not_submitted');
+    expect(assignmentStudentStatus(assignment, null, after)).toBe('missing');
+    expect(assignmentStudentStatus({ ...assignment, submissions_closed: true }, null, before)).toBe('missing');
+  });
+
+  it('treats a leftover draft like no submission', () => {
+    expect(assignmentStudentStatus(assignment, { status: 'draft' }, after)).toBe('missing');
+  });
+
+  it('reports submitted and graded regardless of the deadline', () => {
+    expect(assignmentStudentStatus(assignment, { status: 'submitted' }, after)).toBe('submitted');
+    expect(assignmentStudentStatus(assignment, { status: 'graded' }, after)).toBe('graded');
+  });
+});
+
+describe('assignmentFilePath', () => {
+  it('stores uploads in the student folder with a sanitized name', () => {
+    const path = assignmentFilePath('cohort-1', 'user-1', 'My PRD (v2).pdf', 123);
+    expect(path).toBe('assignments/cohort-1/user-1/123_My_PRD__v2_.pdf');
+    expect(path.startsWith(assignmentFileFolder('cohort-1', 'user-1'))).toBe(true);
+  });
+
+  it("only accepts paths inside the student's own folder", () => {
+    expect(isAssignmentFilePath('assignments/cohort-1/user-1/123_prd.pdf', 'cohort-1', 'user-1')).toBe(true);
+    expect(isAssignmentFilePath('assignments/cohort-1/user-2/123_prd.pdf', 'cohort-1', 'user-1')).toBe(false);
+    expect(isAssignmentFilePath('assignments/cohort-1/user-1/../../other/secret.pdf', 'cohort-1', 'user-1')).toBe(false);
+  });
+});
+
+describe('isValidSubmissionLink', () => {
+  it('accepts http(s) URLs only', () => {
+    expect(isValidSubmissionLink('https://docs.google.com/document/d/abc')).toBe(true);
+    expect(isValidSubmissionLink('  http://example.com  ')).toBe(true);
+    expect(isValidSubmissionLink('javascript:alert(1)')).toBe(false);
+    expect(isValidSubmissionLink('docs.google.com/abc')).toBe(false);
+  });
+});
+
+describe('validateGrade', () => {
+  it('accepts grades from zero to the max score', () => {
+    expect(validateGrade(0, 10)).toBeNull();
+    expect(validateGrade(10, 10)).toBeNull();
+    expect(validateGrade(7.5, 10)).toBeNull();
+  });
+
+  it('rejects out-of-range, non-numeric and over-precise grades', () => {
+    expect(validateGrade(-1, 10)).toMatch(/between 0 and 10/);
+    expect(validateGrade(11, 10)).toMatch(/between 0 and 10/);
+    expect(validateGrade('8', 10)).toMatch(/number/);
+    expect(validateGrade(Number.NaN, 10)).toMatch(/number/);
+    expect(validateGrade(7.125, 10)).toMatch(/two decimal/);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for the at-risk evaluator: absence streaks around excused sessions,
+ * the recent-attendance window, inactivity, and disabled signals.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import { DEFAULT_AT_RISK_RULES, evaluateStudentRisk, type StudentRiskInput } from '@/lib/services/at-risk';
+import type { SessionOutcome } from '@/lib/services/attendance-policy';
+
+const NOW = new Date('2026-03-20T12:00:00Z');
+
+function input(
+  sessions: Array<[SessionOutcome, number]>,
+  overrides: Partial<StudentRiskInput> = {},
+): StudentRiskInput {
+  const outcomes: Record<string, SessionOutcome> = {};
+  const percentages: Record<string, number> = {};
+  sessions.forEach(([outcome, pct], i) => {
+    outcomes[`s${i}`] = outcome;
+    percentages[`s${i}`] = pct;
+  });
+  return {
+    sessionIds: sessions.map((_, i) => `s${i}`),
+    eligibility: { outcomes, percentages },
+    lastLoginAt: '2026-03-19T08:00:00Z',
+    accountCreatedAt: '2026-01-01T00:00:00Z',
+    videoCompletion: null,
+    missedCaseStudies: 0,
+    ...overrides,
+  };
+}
+
+const codes = (reasons: ReturnType<typeof evaluateStudentRisk>) => reasons.map((r) => r.code);
+
+describe('evaluateStudentRisk', () => {
+  it('returns no reasons for an engaged student', () => {
+    const reasons = evaluateStudentRisk(DEFAULT_AT_RISK_RULES, input([['present', 90], ['present', 80], ['present', 100]]), NOW);
+    expect(reasons).toEqual([]);
+  });
+
+  it('counts the trailing absence streak and skips excused sessions', () => {
+    const reasons = evaluateStudentRisk(
+      DEFAULT_AT_RISK_RULES,
+      input([['present', 90], ['absent', 0], ['excused', 0], ['absent', 10]]),
+      NOW,
+    );
+    expect(reasons[0]).toMatchObject({ code: 'consecutive_absences', value: 2, threshold: 2 });
+
+    const recovered = evaluateStudentRisk(
+      DEFAULT_AT_RISK_RULES,
+      input([['absent', 0], ['absent', 0], ['present', 90]]),
+      NOW,
+    );
+    expect(codes(recovered)).not.toContain('consecutive_absences');
+  });
+
+  it('only judges the attendance trend once the window is full', () => {
+    const rules = { ...DEFAULT_AT_RISK_RULES, consecutiveAbsences: null };
+
+    const full = evaluateStudentRisk(rules, input([['present', 100], ['absent', 40], ['present', 60], ['absent', 30]]), NOW);
+    expect(full).toEqual([
+      expect.objectContaining({ code: 'low_attendance_trend', value: 43.3, threshold: 50 }),
+    ]);
+
+    const short = evaluateStudentRisk(rules, input([['absent', 10], ['absent', 10]]), NOW);
+    expect(short).toEqual([]);
+  });
+
+  it('falls back to account age when no recent login exists', () => {
+    const never = evaluateStudentRisk(DEFAULT_AT_RISK_RULES, input([], { lastLoginAt: null }), NOW);
+    expect(never).toEqual([
+      expect.objectContaining({ code: 'inactive', value: null, message: 'No login in the last 7 days' }),
+    ]);
+
+    const newAccount = evaluateStudentRisk(
+      DEFAULT_AT_RISK_RULES,
+      input([], { lastLoginAt: null, accountCreatedAt: '2026-03-18T00:00:00Z' }),
+      NOW,
+    );
+    expect(newAccount).toEqual([]);
+  });
+
+  it('checks video completion and case studies only when enabled', () => {
+    const data = input([], { videoCompletion: 20, missedCaseStudies: 2 });
+
+    expect(codes(evaluateStudentRisk(DEFAULT_AT_RISK_RULES, data, NOW))).toEqual(['missed_case_studies']);
+    expect(
+      codes(evaluateStudentRisk({ ...DEFAULT_AT_RISK_RULES, minVideoCompletion: 40, missedCaseStudies: null }, data, NOW)),
+    ).toEqual(['low_video_completion']);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for `reviewExcuseRequest` — approving writes the linked excusal before
+ * flipping the request, and a failed status update rolls the excusal back so
+ * the attendance denominator never disagrees with the request state.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { reviewExcuseRequest } from '@/lib/services/attendance-excuses';
+
+type Result = { data?: unknown; error: unknown };
+
+interface Call {
+  table: string;
+  op: string;
+  payload?: unknown;
+}
+
+/**
+ * Minimal chainable query mock: every builder method returns the chain, and
+ * awaiting it (or calling maybeSingle/single) resolves to the canned result
+ * for `${table}.${op}`.
+ */
+function makeClient(results: Record<string, Result>) {
+  const calls: Call[] = [];
+
+  const client = {
+    from(table: string) {
+      let op = 'select';
+      const resolve = () => Promise.resolve(results[`${table}.${op}`] ?? { data: null, error: null });
+      const chain: Record<string, unknown> = {
+        select: () => chain,
+        eq: () => chain,
+        maybeSingle: resolve,
+        single: resolve,
+        then: (onFulfilled: (r: Result) => unknown) => resolve().then(onFulfilled),
+      };
+      for (const name of ['insert', 'update', 'upsert', 'delete']) {
+        chain[name] = (payload?: unknown) => {
+          op = name;
+          calls.push({ table, op, payload });
+          return chain;
+        };
+      }
+      return chain;
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, calls };
+}
+
+const pendingRequest = {
+  id: 'req-1',
+  session_id: 's1',
+  user_id: 'u1',
+  reason_category: 'illness',
+  details: null,
+  attachment_path: null,
+  status: 'pending',
+};
+
+describe('reviewExcuseRequest', () => {
+  it('records an excusal linked to the request on approval', async () => {
+    const { client, calls } = makeClient({
+      'attendance_excuse_requests.select': { data: pendingRequest, error: null },
+      'attendance_excuse_requests.update': { data: { ...pendingRequest, status: 'approved' }, error: null },
+    });
+
+    const result = await reviewExcuseRequest(client, {
+      requestId: 'req-1',
+      reviewerId: 'mentor-1',
+      decision: 'approve',
+      note: '  Get well soon ',
+    });
+
+    expect(result.ok).toBe(true);
+    const upsert = calls.find((c) => c.table === 'attendance_excusals' && c.op === 'upsert');
+    expect(upsert?.payload).toMatchObject({ session_id: 's1', user_id: 'u1', granted_by: 'mentor-1', request_id: 'req-1' });
+    const update = calls.find((c) => c.table === 'attendance_excuse_requests' && c.op === 'update');
+    expect(update?.payload).toMatchObject({ status: 'approved', reviewed_by: 'mentor-1', review_note: 'Get well soon' });
+  });
+
+  it('does not touch excusals on rejection', async () => {
+    const { client, calls } = makeClient({
+      'attendance_excuse_requests.select': { data: pendingRequest, error: null },
+      'attendance_excuse_requests.update': { data: { ...pendingRequest, status: 'rejected' }, error: null },
+    });
+
+    const result = await reviewExcuseRequest(client, { requestId: 'req-1', reviewerId: 'mentor-1', decision: 'reject' });
+
+    expect(result.ok).toBe(true);
+    expect(calls.some((c) => c.table === 'attendance_excusals')).toBe(false);
+  });
+
+  it('refuses to review a request that is no longer pending', async () => {
+    const { client, calls } = makeClient({
+      'attendance_excuse_requests.select': { data: { ...pendingRequest, status: 'withdrawn' }, error: null },
+    });
+
+    const result = await reviewExcuseRequest(client, { requestId: 'req-1', reviewerId: 'mentor-1', decision: 'approve' });
+
+    expect(result).toEqual({ ok: false, error: { stage: 'not_pending', message: 'Request is already withdrawn' } });
+    expect(calls).toHaveLength(0);
+  });
+
+  it('rolls the excusal back when the status update loses a race', async () => {
+    const { client, calls } = makeClient({
+      'attendance_excuse_requests.select': { data: pendingRequest, error: null },
+      'attendance_excuse_requests.update': { data: null, error: null },
+    });
+
+    const result = await reviewExcuseRequest(client, { requestId: 'req-1', reviewerId: 'mentor-1', decision: 'approve' });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.stage).toBe('update');
+    expect(calls.map((c) => `${c.table}.${c.op}`)).toEqual([
+      'attendance_excusals.upsert',
+      'attendance_excuse_requests.update',
+      'attendance_excusals.delete',
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for the offline attendance file parser: format detection, timestamp
+ * handling per source, skipped rows, and that the same attendance exported
+ * by different tools normalizes to the same merged segments.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  detectImportSource,
+  observedSpanMinutes,
+  parseAttendanceFile,
+  parseImportTimestamp,
+} from '@/lib/services/attendance-file-parser';
+import { groupParticipantsByEmail, mergeOverlappingSegments } from '@/lib/services/attendance-calculator';
+import type { ZoomPastParticipant } from '@/lib/integrations/zoom';
+
+const SESSION_DATE = '2026-03-10T04:30:00.000Z'; // 10:00 IST
+const IST = -330; // Date#getTimezoneOffset() in India
+
+const ZOOM_CSV = [
+  'Meeting ID,Topic,Start Time,End Time,User Email,Duration (Minutes),Participants',
+  '123 456 789,Weekly sync,03/10/2026 10:00:00 AM,03/10/2026 11:00:00 AM,host@x.com,60,2',
+  '',
+  'Name (Original Name),User Email,Join Time,Leave Time,Duration (Minutes),Guest',
+  'Asha,asha@x.com,03/10/2026 10:05:00 AM,03/10/2026 10:40:00 AM,35,No',
+  'Asha,ASHA@x.com,03/10/2026 10:45:00 AM,03/10/2026 11:00:00 AM,15,No',
+  'Guest Phone,,03/10/2026 10:00:00 AM,03/10/2026 10:30:00 AM,30,Yes',
+].join('\n');
+
+const MEET_CSV = [
+  'First name,Last name,Email,Duration,Time joined,Time exited',
+  'Asha,,asha@x.com,35 min,10:05 AM,10:40 AM',
+  'Asha,,asha@x.com,15 min,10:45 AM,11:00 AM',
+].join('\n');
+
+const ROSTER_CSV = [
+  'email,join,leave',
+  'asha@x.com,2026-03-10T04:35:00Z,2026-03-10T05:10:00Z',
+  'asha@x.com,2026-03-10 10:45,2026-03-10 11:00',
+].join('\n');
+
+const options = { sessionDate: SESSION_DATE, timezoneOffsetMinutes: IST };
+
+function mergedFor(participants: ZoomPastParticipant[], email: string) {
+  const group = groupParticipantsByEmail(participants).get(email) || [];
+  return mergeOverlappingSegments(
+    group.map((p) => ({ join_time: new Date(p.join_time), leave_time: new Date(p.leave_time) }))
+  ).map((s) => [s.join_time.toISOString(), s.leave_time.toISOString()]);
+}
+
+describe('detectImportSource', () => {
+  it('recognizes each supported header layout', () => {
+    expect(detectImportSource(['Name (Original Name)', 'User Email', 'Join Time', 'Leave Time'])).toBe('zoom_csv');
+    expect(detectImportSource(['First name', 'Last name', 'Email', 'Time joined', 'Time exited'])).toBe('google_meet_csv');
+    expect(detectImportSource(['email', 'join', 'leave'])).toBe('roster_csv');
+    expect(detectImportSource(['foo', 'bar'])).toBeNull();
+  });
+});
+
+describe('parseImportTimestamp', () => {
+  it('reads offset-less values in the uploader timezone and respects explicit offsets', () => {
+    expect(parseImportTimestamp('03/10/2026 02:15:00 PM', SESSION_DATE, IST)?.toISOString()).toBe('2026-03-10T08:45:00.000Z');
+    expect(parseImportTimestamp('2026-03-10 10:00', SESSION_DATE, IST)?.toISOString()).toBe('2026-03-10T04:30:00.000Z');
+    expect(parseImportTimestamp('2026-03-10T10:00:00+05:30', SESSION_DATE, 0)?.toISOString()).toBe('2026-03-10T04:30:00.000Z');
+  });
+
+  it('places time-only values on the session date', () => {
+    expect(parseImportTimestamp('12:30 AM', SESSION_DATE, IST)?.toISOString()).toBe('2026-03-09T19:00:00.000Z');
+    expect(parseImportTimestamp('not a time', SESSION_DATE, IST)).toBeNull();
+  });
+});
+
+describe('parseAttendanceFile', () => {
+  it('skips the Zoom meeting summary and keys email-less guests by name', () => {
+    const result = parseAttendanceFile(ZOOM_CSV, options);
+    if (!result.ok) throw new Error(result.error.message);
+
+    expect(result.source).toBe('zoom_csv');
+    expect(result.participants).toHaveLength(3);
+    expect(result.participants[1].user_email).toBe('asha@x.com');
+
+    const guest = result.participants[2];
+    expect(guest.user_email).toBe('');
+    expect(guest.id).toBe('name:guest phone');
+  });
+
+  it('normalizes the same attendance identically across sources', () => {
+    const parsed = [ZOOM_CSV, MEET_CSV, ROSTER_CSV].map((csv) => parseAttendanceFile(csv, options));
+    const merged = parsed.map((r) => {
+      if (!r.ok) throw new Error(r.error.message);
+      return mergedFor(r.participants, 'asha@x.com');
+    });
+
+    expect(merged[0]).toEqual([
+      ['2026-03-10T04:35:00.000Z', '2026-03-10T05:10:00.000Z'],
+      ['2026-03-10T05:15:00.000Z', '2026-03-10T05:30:00.000Z'],
+    ]);
+    expect(merged[1]).toEqual(merged[0]);
+    expect(merged[2]).toEqual(merged[0]);
+  });
+
+  it('reports unusable rows instead of failing the whole file', () => {
+    const result = parseAttendanceFile(
+      ['email,join,leave', 'a@x.com,2026-03-10 10:00,2026-03-10 09:00', 'b@x.com,yesterday,', 'c@x.com,2026-03-10 10:00,'].join('\n'),
+      options,
+    );
+    if (!result.ok) throw new Error(result.error.message);
+
+    expect(result.participants.map((p) => p.user_email)).toEqual(['c@x.com']);
+    expect(result.participants[0].leave_time).toBe('');
+    expect(result.skipped).toEqual([
+      { line: 2, reason: 'Leave time is before join time' },
+      { line: 3, reason: 'Unreadable join time "yesterday"' },
+    ]);
+  });
+
+  it('rejects files without a participant table', () => {
+    const result = parseAttendanceFile('foo,bar\n1,2', options);
+    expect(result).toEqual({
+      ok: false,
+      error: { stage: 'format', message: 'No participant table found (need a join time column and an email or name column)' },
+    });
+  });
+});
+
+describe('observedSpanMinutes', () => {
+  it('spans the earliest join to the latest leave', () => {
+    const result = parseAttendanceFile(ZOOM_CSV, options);
+    if (!result.ok) throw new Error(result.error.message);
+    expect(observedSpanMinutes(result.participants)).toBe(60);
+  });
+});
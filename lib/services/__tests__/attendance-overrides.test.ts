@@ -0,0 +1,68 @@
+/**
+ * Tests for `applySegmentOverrides` — the merge step that keeps admin-approved
+ * attendance claim segments alive across every recalculation.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  applySegmentOverrides,
+  mergeOverlappingSegments,
+  type ResolvedParticipant,
+} from '@/lib/services/attendance-calculator';
+
+function participant(userId: string, join: string, leave: string): ResolvedParticipant {
+  return {
+    userId,
+    email: `${userId}@x.com`,
+    displayName: userId,
+    segments: [{ join_time: new Date(join), leave_time: new Date(leave) }],
+  };
+}
+
+describe('applySegmentOverrides', () => {
+  it('appends override segments to a user Zoom already matched', () => {
+    const resolved = new Map([
+      ['u1', participant('u1', '2026-01-01T10:00:00.000Z', '2026-01-01T10:20:00.000Z')],
+    ]);
+
+    applySegmentOverrides(resolved, [
+      { user_id: 'u1', join_time: '2026-01-01T10:15:00.000Z', leave_time: '2026-01-01T11:00:00.000Z' },
+    ]);
+
+    const entry = resolved.get('u1')!;
+    expect(entry.segments).toHaveLength(2);
+    expect(entry.email).toBe('u1@x.com');
+
+    // Overlap with the Zoom segment collapses once merged
+    const merged = mergeOverlappingSegments(entry.segments);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].leave_time.toISOString()).toBe('2026-01-01T11:00:00.000Z');
+  });
+
+  it('creates an entry for a user with no Zoom record', () => {
+    const resolved = new Map<string, ResolvedParticipant>();
+
+    applySegmentOverrides(resolved, [
+      { user_id: 'u2', join_time: '2026-01-01T10:00:00.000Z', leave_time: '2026-01-01T10:45:00.000Z' },
+    ]);
+
+    expect(resolved.get('u2')).toMatchObject({ userId: 'u2', email: '' });
+    expect(resolved.get('u2')!.segments).toHaveLength(1);
+  });
+
+  it('leaves unmatched Zoom entries untouched', () => {
+    const unmatched: ResolvedParticipant = {
+      userId: null,
+      email: 'stranger@x.com',
+      displayName: 'Stranger',
+      segments: [],
+    };
+    const resolved = new Map([['__unmatched__stranger@x.com', unmatched]]);
+
+    applySegmentOverrides(resolved, []);
+
+    expect(resolved.size).toBe(1);
+    expect(resolved.get('__unmatched__stranger@x.com')).toBe(unmatched);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Tests for the attendance policy evaluator (`evaluateStudentEligibility`).
+ *
+ * Pins the per-session present/absent/excused outcome (including late-join
+ * grace credit) and the eligible → at_risk → ineligible thresholds.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  evaluateStudentEligibility,
+  graceAdjustedPercentage,
+  type PolicySessionInput,
+} from '@/lib/services/attendance-policy';
+
+function session(id: string, duration = 60): PolicySessionInput {
+  return {
+    id,
+    scheduled_at: '2026-01-01T10:00:00.000Z',
+    duration_minutes: duration,
+    actual_duration_minutes: null,
+    formal_end_minutes: null,
+  };
+}
+
+function record(sessionId: string, percentage: number, joinMinute = 0) {
+  return {
+    session_id: sessionId,
+    attendance_percentage: percentage,
+    join_time: new Date(Date.UTC(2026, 0, 1, 10, joinMinute)).toISOString(),
+  };
+}
+
+const rules = { ...DEFAULT_ATTENDANCE_POLICY, maxMissedSessions: 1 };
+
+describe('graceAdjustedPercentage', () => {
+  it('credits late minutes up to the grace period', () => {
+    // 6 minutes late on a 60-minute session → +10%
+    expect(graceAdjustedPercentage(session('s1'), record('s1', 70, 6), 10)).toBeCloseTo(80);
+    // 30 minutes late, but only 10 are credited
+    expect(graceAdjustedPercentage(session('s1'), record('s1', 50, 30), 10)).toBeCloseTo(50 + 100 / 6);
+  });
+
+  it('leaves on-time joins untouched and caps at 100', () => {
+    expect(graceAdjustedPercentage(session('s1'), record('s1', 70, 0), 10)).toBe(70);
+    expect(graceAdjustedPercentage(session('s1'), record('s1', 95, 6), 10)).toBe(100);
+  });
+});
+
+describe('evaluateStudentEligibility', () => {
+  const sessions = [session('s1'), session('s2'), session('s3')];
+
+  it('counts a late joiner within grace as present', () => {
+    const result = evaluateStudentEligibility(rules, sessions, [
+      record('s1', 100),
+      record('s2', 68, 6),
+      record('s3', 90),
+    ]);
+
+    expect(result.outcomes).toEqual({ s1: 'present', s2: 'present', s3: 'present' });
+    expect(result.status).toBe('eligible');
+    expect(result.remainingAbsences).toBe(1);
+  });
+
+  it('treats low attendance and missing records as absences', () => {
+    const result = evaluateStudentEligibility(rules, sessions, [record('s1', 100), record('s2', 40)]);
+
+    expect(result.outcomes).toEqual({ s1: 'present', s2: 'absent', s3: 'absent' });
+    expect(result.sessionsMissed).toBe(2);
+    expect(result.status).toBe('ineligible');
+    expect(result.remainingAbsences).toBe(-1);
+  });
+
+  it('flags students who have used every allowed absence as at risk', () => {
+    const result = evaluateStudentEligibility(rules, sessions, [record('s1', 100), record('s2', 100)]);
+
+    expect(result.status).toBe('at_risk');
+    expect(result.remainingAbsences).toBe(0);
+  });
+
+  it('drops excused sessions from the denominator', () => {
+    const result = evaluateStudentEligibility(
+      rules,
+      sessions,
+      [record('s1', 100)],
+      new Set(['s2', 's3']),
+    );
+
+    expect(result.outcomes).toEqual({ s1: 'present', s2: 'excused', s3: 'excused' });
+    expect(result.sessionsCounted).toBe(1);
+    expect(result.adjustedPercentage).toBe(100);
+    expect(result.status).toBe('eligible');
+  });
+
+  it('ignores excusals when the policy disallows them', () => {
+    const result = evaluateStudentEligibility(
+      { ...rules, excusedAbsencesAllowed: false },
+      sessions,
+      [record('s1', 100)],
+      new Set(['s2', 's3']),
+    );
+
+    expect(result.sessionsExcused).toBe(0);
+    expect(result.status).toBe('ineligible');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for punctuality facts derived from merged attendance segments and
+ * their aggregation against the cohort's grace threshold.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import { mergeOverlappingSegments } from '@/lib/services/attendance-calculator';
+import { computePunctuality, summarizePunctuality } from '@/lib/services/attendance-punctuality';
+
+const SCHEDULED = new Date('2026-01-01T10:00:00.000Z');
+
+function seg(join: string, leave: string) {
+  return { join_time: new Date(`2026-01-01T${join}:00.000Z`), leave_time: new Date(`2026-01-01T${leave}:00.000Z`) };
+}
+
+describe('computePunctuality', () => {
+  it('measures lateness from scheduled_at and early leave from the effective end', () => {
+    const facts = computePunctuality([seg('10:12', '11:30')], SCHEDULED, 120);
+    expect(facts).toEqual({ minutesLate: 12, minutesLeftEarly: 30, reconnectCount: 0 });
+  });
+
+  it('clamps early joins and overstays to zero', () => {
+    const facts = computePunctuality([seg('09:55', '12:10')], SCHEDULED, 120);
+    expect(facts.minutesLate).toBe(0);
+    expect(facts.minutesLeftEarly).toBe(0);
+  });
+
+  it('counts gaps between merged segments as reconnects', () => {
+    // Overlapping devices collapse; only the real drop-outs remain
+    const merged = mergeOverlappingSegments([
+      seg('10:00', '10:30'),
+      seg('10:20', '10:40'),
+      seg('10:45', '11:00'),
+      seg('11:10', '12:00'),
+    ]);
+    expect(computePunctuality(merged, SCHEDULED, 120).reconnectCount).toBe(2);
+  });
+
+  it('leaves late/early unknown without a scheduled start', () => {
+    const facts = computePunctuality([seg('10:05', '11:00'), seg('11:05', '12:00')], null, 120);
+    expect(facts).toEqual({ minutesLate: null, minutesLeftEarly: null, reconnectCount: 1 });
+  });
+});
+
+describe('summarizePunctuality', () => {
+  it('counts late and early occurrences only past the threshold', () => {
+    const summary = summarizePunctuality(
+      [
+        { minutes_late: 5, minutes_left_early: 0, reconnect_count: 1 },
+        { minutes_late: 15, minutes_left_early: 20, reconnect_count: 0 },
+        { minutes_late: 10, minutes_left_early: 11, reconnect_count: 2 },
+      ],
+      10,
+    );
+
+    expect(summary).toEqual({
+      sessionsMeasured: 3,
+      lateCount: 1,
+      avgMinutesLate: 10,
+      earlyLeaveCount: 2,
+      avgMinutesLeftEarly: 10.3,
+      totalReconnects: 3,
+    });
+  });
+
+  it('skips legacy rows without punctuality facts', () => {
+    const summary = summarizePunctuality(
+      [
+        { minutes_late: null, minutes_left_early: null, reconnect_count: 0 },
+        { minutes_late: 30, minutes_left_early: 0, reconnect_count: 0 },
+      ],
+      10,
+    );
+    expect(summary.sessionsMeasured).toBe(1);
+    expect(summary.lateCount).toBe(1);
+    expect(summary.avgMinutesLate).toBe(30);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for the webhook replay fold (`replayWebhookEvents`).
+ *
+ * Pins the deterministic rebuild contract: given the same stored events in any
+ * order, replay produces the same participant rows — joins pair with leaves by
+ * participant key, meeting.ended closes open segments, lost joins fall back to
+ * the leave payload's join_time, and unpairable events are counted as ignored.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import { replayWebhookEvents } from '@/lib/services/attendance-replay';
+import type { ZoomWebhookEventRecord } from '@/types';
+
+let seq = 0;
+
+function makeEvent(
+  eventType: string,
+  at: string,
+  overrides: Partial<ZoomWebhookEventRecord> & { object?: Record<string, unknown> } = {},
+): ZoomWebhookEventRecord {
+  seq++;
+  const { object, ...rest } = overrides;
+  return {
+    id: `evt-${String(seq).padStart(4, '0')}`,
+    event_type: eventType,
+    meeting_id: '123',
+    meeting_uuid: 'uuid-1',
+    session_id: 'session-1',
+    participant_key: null,
+    participant_email: null,
+    participant_name: null,
+    event_ts: at,
+    payload: { event: eventType, payload: { object: object || {} } },
+    payload_hash: `hash-${seq}`,
+    signature_verified: true,
+    received_at: at,
+    ...rest,
+  };
+}
+
+function join(key: string, email: string, at: string) {
+  return makeEvent('meeting.participant_joined', at, {
+    participant_key: key,
+    participant_email: email,
+    participant_name: key,
+    object: { participant: { join_time: at } },
+  });
+}
+
+function leave(key: string, email: string, at: string, joinTime?: string) {
+  return makeEvent('meeting.participant_left', at, {
+    participant_key: key,
+    participant_email: email,
+    participant_name: key,
+    object: { participant: { leave_time: at, ...(joinTime && { join_time: joinTime }) } },
+  });
+}
+
+describe('replayWebhookEvents', () => {
+  it('pairs joins with leaves per participant key', () => {
+    const result = replayWebhookEvents([
+      join('p1', 'a@x.com', '2026-01-01T10:00:00.000Z'),
+      leave('p1', 'a@x.com', '2026-01-01T10:30:00.000Z'),
+      join('p1', 'a@x.com', '2026-01-01T10:35:00.000Z'),
+      leave('p1', 'a@x.com', '2026-01-01T11:00:00.000Z'),
+    ]);
+
+    expect(result.participants).toHaveLength(2);
+    expect(result.participants[0]).toMatchObject({
+      user_email: 'a@x.com',
+      join_time: '2026-01-01T10:00:00.000Z',
+      leave_time: '2026-01-01T10:30:00.000Z',
+      duration: 1800,
+    });
+    expect(result.participants[1].join_time).toBe('2026-01-01T10:35:00.000Z');
+    expect(result.eventsIgnored).toBe(0);
+  });
+
+  it('is independent of input order', () => {
+    const events = [
+      makeEvent('meeting.started', '2026-01-01T09:59:00.000Z', { object: { start_time: '2026-01-01T09:59:00.000Z' } }),
+      join('p1', 'a@x.com', '2026-01-01T10:00:00.000Z'),
+      join('p2', 'b@x.com', '2026-01-01T10:05:00.000Z'),
+      leave('p2', 'b@x.com', '2026-01-01T10:40:00.000Z'),
+      makeEvent('meeting.ended', '2026-01-01T11:00:00.000Z', { object: { end_time: '2026-01-01T11:00:00.000Z' } }),
+    ];
+
+    const forward = replayWebhookEvents(events);
+    const reversed = replayWebhookEvents([...events].reverse());
+
+    expect(reversed).toEqual(forward);
+    expect(forward.meetingStart).toBe('2026-01-01T09:59:00.000Z');
+    expect(forward.meetingEnd).toBe('2026-01-01T11:00:00.000Z');
+  });
+
+  it('closes open segments at meeting.ended', () => {
+    const result = replayWebhookEvents([
+      join('p1', 'a@x.com', '2026-01-01T10:00:00.000Z'),
+      makeEvent('meeting.ended', '2026-01-01T11:00:00.000Z', { object: { end_time: '2026-01-01T11:00:00.000Z' } }),
+    ]);
+
+    expect(result.participants).toHaveLength(1);
+    expect(result.participants[0].leave_time).toBe('2026-01-01T11:00:00.000Z');
+  });
+
+  it('closes open segments at the last seen event when the meeting never ended', () => {
+    const result = replayWebhookEvents([
+      join('p1', 'a@x.com', '2026-01-01T10:00:00.000Z'),
+      join('p2', 'b@x.com', '2026-01-01T10:10:00.000Z'),
+      leave('p2', 'b@x.com', '2026-01-01T10:50:00.000Z'),
+    ]);
+
+    const p1 = result.participants.find((p) => p.user_email === 'a@x.com');
+    expect(p1?.leave_time).toBe('2026-01-01T10:50:00.000Z');
+    expect(result.meetingEnd).toBeNull();
+  });
+
+  it('recovers a lost join from the leave payload join_time', () => {
+    const result = replayWebhookEvents([
+      leave('p1', 'a@x.com', '2026-01-01T10:45:00.000Z', '2026-01-01T10:05:00.000Z'),
+    ]);
+
+    expect(result.participants).toHaveLength(1);
+    expect(result.participants[0].join_time).toBe('2026-01-01T10:05:00.000Z');
+  });
+
+  it('ignores duplicate joins, unpairable leaves and unknown event types', () => {
+    const result = replayWebhookEvents([
+      join('p1', 'a@x.com', '2026-01-01T10:00:00.000Z'),
+      join('p1', 'a@x.com', '2026-01-01T10:01:00.000Z'),
+      leave('p9', 'z@x.com', '2026-01-01T10:02:00.000Z'),
+      makeEvent('meeting.sharing_started', '2026-01-01T10:03:00.000Z'),
+      leave('p1', 'a@x.com', '2026-01-01T10:30:00.000Z'),
+    ]);
+
+    expect(result.participants).toHaveLength(1);
+    expect(result.participants[0].join_time).toBe('2026-01-01T10:00:00.000Z');
+    expect(result.eventsApplied).toBe(2);
+    expect(result.eventsIgnored).toBe(3);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for the attendance timeline builder: per-minute presence counts each
+ * attendee once, joins/departures land in the right bucket, and lanes are
+ * ordered by first join.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import { buildAttendanceTimeline, type TimelineLaneInput } from '@/lib/services/attendance-timeline';
+
+const ORIGIN = new Date('2026-03-10T10:00:00Z');
+const at = (minute: number) => new Date(ORIGIN.getTime() + minute * 60000).toISOString();
+
+function lane(name: string, segments: Array<[number, number | null]>): TimelineLaneInput {
+  return {
+    userId: name,
+    name,
+    email: `${name}@x.com`,
+    segments: segments.map(([join, leave]) => ({ join_time: at(join), leave_time: leave == null ? null : at(leave) })),
+  };
+}
+
+describe('buildAttendanceTimeline', () => {
+  it('counts concurrent attendees and flows per minute', () => {
+    const timeline = buildAttendanceTimeline(
+      [lane('b', [[2, 5]]), lane('a', [[0, 3], [3.5, 6]])],
+      ORIGIN,
+    );
+
+    expect(timeline.totalMinutes).toBe(6);
+    expect(timeline.minutes.map((m) => m.present)).toEqual([1, 1, 2, 2, 2, 1]);
+    expect(timeline.minutes.map((m) => m.joins)).toEqual([1, 0, 1, 1, 0, 0]);
+    expect(timeline.minutes.map((m) => m.departures)).toEqual([0, 0, 0, 1, 0, 2]);
+    expect(timeline.peak).toEqual({ minute: 2, present: 2 });
+  });
+
+  it('orders lanes by first join and totals attended minutes', () => {
+    const timeline = buildAttendanceTimeline(
+      [lane('late', [[10, 20]]), lane('early', [[0, 4], [6, 20]])],
+      ORIGIN,
+    );
+
+    expect(timeline.lanes.map((l) => l.name)).toEqual(['early', 'late']);
+    expect(timeline.lanes[0].attendedMinutes).toBe(18);
+    expect(timeline.lanes[0].segments).toEqual([{ start: 0, end: 4 }, { start: 6, end: 20 }]);
+  });
+
+  it('clamps early joins to the origin and runs open segments to the last leave', () => {
+    const timeline = buildAttendanceTimeline(
+      [lane('host', [[-5, 30]]), lane('open', [[10, null]]), lane('empty', [])],
+      ORIGIN,
+    );
+
+    expect(timeline.lanes.map((l) => l.name)).toEqual(['host', 'open']);
+    expect(timeline.lanes[0].segments[0]).toEqual({ start: 0, end: 30 });
+    expect(timeline.lanes[1].segments[0]).toEqual({ start: 10, end: 30 });
+  });
+});
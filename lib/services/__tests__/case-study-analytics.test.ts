@@ -0,0 +1,169 @@
+/**
+ * Tests for case study analytics: funnel stages, deadline timing bins,
+ * score distributions from the grading review, and reviewer turnaround.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  buildCaseStudyAnalytics,
+  funnelStage,
+  percentile,
+  timingBin,
+  TIMING_BINS,
+  type AnalyticsInput,
+  type AnalyticsReviewInput,
+  type AnalyticsSubmissionInput,
+} from '@/lib/services/case-study-analytics';
+
+const DUE = '2026-03-10T18:30:00.000Z';
+
+function submission(id: string, overrides: Partial<AnalyticsSubmissionInput> = {}): AnalyticsSubmissionInput {
+  return {
+    id,
+    subgroup_id: `sg-${id}`,
+    visibility: 'submitted',
+    submitted_at: '2026-03-10T12:30:00.000Z',
+    deadline_override: null,
+    adjudicated_by: null,
+    ...overrides,
+  };
+}
+
+function review(id: string, submissionId: string, overrides: Partial<AnalyticsReviewInput> = {}): AnalyticsReviewInput {
+  return {
+    id,
+    submission_id: submissionId,
+    reviewer_id: `admin-${id}`,
+    reviewer_role: 'admin',
+    score: 80,
+    adjusted_score: null,
+    created_at: '2026-03-11T12:30:00.000Z',
+    updated_at: '2026-03-11T12:30:00.000Z',
+    ...overrides,
+  };
+}
+
+function input(overrides: Partial<AnalyticsInput>): AnalyticsInput {
+  return {
+    caseStudy: { id: 'cs', title: 'Market Entry', cohort_id: 'c1', cohort_name: 'Cohort 1', due_date: DUE, max_score: 100 },
+    subgroupIds: [],
+    submissions: [],
+    reviews: [],
+    criteria: [],
+    rubricScores: [],
+    ...overrides,
+  };
+}
+
+describe('funnelStage', () => {
+  it('places a submission at the furthest stage it reached', () => {
+    expect(funnelStage(null, [])).toBe('not_started');
+    expect(funnelStage({ visibility: 'draft', submitted_at: null }, [])).toBe('draft');
+    expect(funnelStage({ visibility: 'submitted', submitted_at: DUE }, [])).toBe('submitted');
+    expect(funnelStage({ visibility: 'submitted', submitted_at: DUE }, [{ score: null }])).toBe('submitted');
+    expect(funnelStage({ visibility: 'submitted', submitted_at: DUE }, [{ score: 5 }])).toBe('reviewed');
+    expect(funnelStage({ visibility: 'mentor_visible', submitted_at: DUE }, [])).toBe('reviewed');
+    expect(funnelStage({ visibility: 'cohort_published', submitted_at: DUE }, [])).toBe('published');
+  });
+});
+
+describe('timingBin', () => {
+  it('bins hours from the deadline with inclusive upper bounds', () => {
+    expect(TIMING_BINS[timingBin(-100)].label).toBe('3+ days early');
+    expect(TIMING_BINS[timingBin(-72)].label).toBe('3+ days early');
+    expect(TIMING_BINS[timingBin(-0.5)].label).toBe('Final hour');
+    expect(TIMING_BINS[timingBin(0.5)].label).toBe('Under 1h late');
+    expect(TIMING_BINS[timingBin(500)].label).toBe('1+ day late');
+  });
+});
+
+describe('percentile', () => {
+  it('uses nearest rank', () => {
+    expect(percentile([], 50)).toBeNull();
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2);
+    expect(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 90)).toBe(9);
+  });
+});
+
+describe('buildCaseStudyAnalytics', () => {
+  it('counts every subgroup in the funnel, including ones that never started', () => {
+    const analytics = buildCaseStudyAnalytics(
+      input({
+        subgroupIds: ['sg-a', 'sg-b', 'sg-c', 'sg-d'],
+        submissions: [
+          submission('a', { visibility: 'draft', submitted_at: null }),
+          submission('b'),
+          submission('c', { visibility: 'subgroup_published' }),
+        ],
+      }),
+    );
+    expect(analytics.subgroups).toBe(4);
+    expect(analytics.funnel.map(s => [s.stage, s.count, s.reached])).toEqual([
+      ['not_started', 1, 4],
+      ['draft', 1, 3],
+      ['submitted', 1, 2],
+      ['reviewed', 0, 1],
+      ['published', 1, 1],
+    ]);
+  });
+
+  it('measures timing against the subgroup deadline and skips drafts', () => {
+    const analytics = buildCaseStudyAnalytics(
+      input({
+        submissions: [
+          submission('a'),
+          submission('b', { submitted_at: '2026-03-10T20:30:00.000Z' }),
+          submission('c', { submitted_at: '2026-03-10T20:30:00.000Z', deadline_override: '2026-03-12T18:30:00.000Z' }),
+          submission('d', { visibility: 'draft', submitted_at: null }),
+        ],
+      }),
+    );
+    const counts = Object.fromEntries(analytics.timing.map(b => [b.label, b.count]));
+    expect(counts['6-24h early']).toBe(1);
+    expect(counts['1-24h late']).toBe(1);
+    expect(counts['1-3 days early']).toBe(1);
+    expect(analytics.median_hours_before_deadline).toBe(6);
+
+    expect(buildCaseStudyAnalytics(input({ caseStudy: { ...input({}).caseStudy, due_date: null }, submissions: [submission('a')] })).timing).toEqual([]);
+  });
+
+  it("scores from the adjudicator's review and its rubric scores", () => {
+    const analytics = buildCaseStudyAnalytics(
+      input({
+        submissions: [submission('a', { adjudicated_by: 'admin-r1' }), submission('b')],
+        reviews: [
+          review('r1', 'a', { score: 90 }),
+          review('r2', 'a', { score: 30, updated_at: '2026-03-12T00:00:00.000Z' }),
+          review('r3', 'b', { score: 50, adjusted_score: 45 }),
+        ],
+        criteria: [{ id: 'k1', label: 'Analysis', max_score: 50 }],
+        rubricScores: [
+          { review_id: 'r1', criteria_id: 'k1', score: 45 },
+          { review_id: 'r2', criteria_id: 'k1', score: 10 },
+          { review_id: 'r3', criteria_id: 'k1', score: 20 },
+        ],
+      }),
+    );
+    expect(analytics.scores.map(b => b.count)).toEqual([0, 0, 1, 0, 1]);
+    expect(analytics.criteria[0]).toMatchObject({ scored: 2, mean_percent: 65 });
+    expect(analytics.criteria[0].bins.map(b => b.count)).toEqual([0, 0, 1, 0, 1]);
+  });
+
+  it('reports turnaround per role, ignoring reviews of an earlier version', () => {
+    const analytics = buildCaseStudyAnalytics(
+      input({
+        submissions: [submission('a'), submission('b')],
+        reviews: [
+          review('r1', 'a'),
+          review('r2', 'b', { created_at: '2026-03-10T14:30:00.000Z' }),
+          review('r3', 'a', { reviewer_role: 'mentor', created_at: '2026-03-09T00:00:00.000Z' }),
+        ],
+      }),
+    );
+    expect(analytics.turnaround).toEqual([
+      { reviewer_role: 'admin', reviews: 2, median_hours: 2, p90_hours: 24 },
+      { reviewer_role: 'mentor', reviews: 0, median_hours: null, p90_hours: null },
+    ]);
+  });
+});
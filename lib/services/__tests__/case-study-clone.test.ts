@@ -0,0 +1,87 @@
+/**
+ * Tests for cloning case studies between cohorts: how weeks and due dates
+ * move to the target cohort's calendar, where copied files go, and how
+ * clones link back to their original.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import { clonedFilePath, lineageFilter, lineageRoot, shiftSchedule } from '@/lib/services/case-study-clone';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+describe('shiftSchedule', () => {
+  it('keeps the due date the same distance from the cohort start', () => {
+    const shifted = shiftSchedule(
+      { week_number: 3, end_week_number: 4, due_date: '2025-07-18T18:30:00.000Z' },
+      '2025-07-01',
+      '2026-02-10',
+      0,
+      NOW,
+    );
+    expect(shifted).toEqual({
+      week_number: 3,
+      end_week_number: 4,
+      due_date: '2026-02-27T18:30:00.000Z',
+      note: null,
+    });
+  });
+
+  it('applies a week offset to weeks and the due date', () => {
+    const shifted = shiftSchedule(
+      { week_number: 2, end_week_number: null, due_date: '2025-07-10T12:00:00.000Z' },
+      '2025-07-01',
+      '2026-02-10',
+      1,
+      NOW,
+    );
+    expect(shifted).toMatchObject({ week_number: 3, end_week_number: null, due_date: '2026-02-26T12:00:00.000Z' });
+  });
+
+  it('drops the due date when either cohort has no start date', () => {
+    const source = { week_number: 1, end_week_number: null, due_date: '2025-07-10T12:00:00.000Z' };
+    expect(shiftSchedule(source, null, '2026-02-10', 0, NOW)).toMatchObject({
+      due_date: null,
+      note: 'No due date: the source cohort has no start date',
+    });
+    expect(shiftSchedule(source, '2025-07-01', null, 0, NOW)?.note).toMatch(/target cohort/);
+  });
+
+  it('flags due dates that land in the past', () => {
+    const shifted = shiftSchedule(
+      { week_number: 1, end_week_number: null, due_date: '2025-07-10T12:00:00.000Z' },
+      '2025-07-01',
+      '2025-09-01',
+      0,
+      NOW,
+    );
+    expect(shifted?.note).toBe('Due date is in the past');
+  });
+
+  it('refuses to move a case study before week 1', () => {
+    expect(shiftSchedule({ week_number: 1, end_week_number: null, due_date: null }, null, null, -1, NOW)).toBeNull();
+    expect(shiftSchedule({ week_number: 2, end_week_number: null, due_date: null }, null, null, -1, NOW)).toEqual({
+      week_number: 1,
+      end_week_number: null,
+      due_date: null,
+      note: null,
+    });
+  });
+});
+
+describe('clonedFilePath', () => {
+  it("files the copy under the target cohort with a fresh timestamp", () => {
+    expect(clonedFilePath('cohort-a/1719800000000_Market_Entry.pdf', 'cohort-b', 1760000000000)).toBe(
+      'cohort-b/1760000000000_Market_Entry.pdf',
+    );
+    expect(clonedFilePath('global/brief.pdf', 'cohort-b', 1)).toBe('cohort-b/1_brief.pdf');
+  });
+});
+
+describe('lineage', () => {
+  it('links clones, and clones of clones, to the original', () => {
+    expect(lineageRoot({ id: 'orig', source_case_study_id: null })).toBe('orig');
+    expect(lineageRoot({ id: 'copy-2', source_case_study_id: 'orig' })).toBe('orig');
+    expect(lineageFilter({ id: 'copy-2', source_case_study_id: 'orig' })).toBe('id.eq.orig,source_case_study_id.eq.orig');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for cliff detection strategies (`detectFormalEnd`).
+ *
+ * Builds a synthetic 60-minute meeting: a few early leavers, a mass exodus
+ * at ~45 min, and some stayers. Pins that the default config keeps the
+ * original sliding-window behaviour, that tuning is honoured, and that each
+ * alternative strategy reports itself on the result.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  compareCliffStrategies,
+  DEFAULT_CLIFF_CONFIG,
+  detectFormalEnd,
+  toCliffInputs,
+  type ResolvedParticipantInput,
+} from '@/lib/services/cliff-detector';
+
+const START = '2026-01-01T10:00:00.000Z';
+const END = '2026-01-01T11:00:00.000Z';
+
+function at(minute: number): string {
+  return new Date(new Date(START).getTime() + minute * 60_000).toISOString();
+}
+
+function leaver(id: string, leaveMinute: number, isHost = false): ResolvedParticipantInput {
+  return { userId: id, isHost, segments: [{ join_time: at(0), leave_time: at(leaveMinute) }] };
+}
+
+function meetingWithCliff(hostLeaveMinute?: number): ResolvedParticipantInput[] {
+  const participants = [
+    leaver('early-1', 12),
+    leaver('early-2', 24),
+    leaver('early-3', 33),
+    ...Array.from({ length: 12 }, (_, i) => leaver(`cliff-${i}`, 45 + i * 0.4)),
+    ...Array.from({ length: 5 }, (_, i) => leaver(`stayer-${i}`, 60)),
+  ];
+  if (hostLeaveMinute !== undefined) {
+    participants.push(leaver('host', hostLeaveMinute, true));
+  }
+  return participants;
+}
+
+describe('detectFormalEnd', () => {
+  it('detects the exodus with the default sliding window', () => {
+    const result = detectFormalEnd(meetingWithCliff(), START, END);
+
+    expect(result.detected).toBe(true);
+    expect(result.strategy).toBe('sliding_window');
+    expect(result.effectiveEndMinutes).toBe(45);
+    expect(result.departuresInCliff).toBe(12);
+    expect(result.meetingEndStayers).toBe(5);
+  });
+
+  it('honours the configured start cutoff', () => {
+    const result = detectFormalEnd(meetingWithCliff(), START, END, {
+      ...DEFAULT_CLIFF_CONFIG,
+      minStartFraction: 0.9,
+    });
+
+    expect(result.detected).toBe(false);
+  });
+
+  it('honours the configured stayer threshold', () => {
+    // With a 15-minute threshold the whole exodus counts as staying,
+    // leaving only the three scattered early departures
+    const result = detectFormalEnd(meetingWithCliff(), START, END, {
+      ...DEFAULT_CLIFF_CONFIG,
+      stayerThresholdMinutes: 15,
+    });
+
+    expect(result.detected).toBe(false);
+    expect(result.reason).toBe('ABSOLUTE_COUNT_LOW');
+  });
+
+  it('finds the same cliff with change-point detection', () => {
+    const result = detectFormalEnd(meetingWithCliff(), START, END, {
+      ...DEFAULT_CLIFF_CONFIG,
+      strategy: 'change_point',
+    });
+
+    expect(result.detected).toBe(true);
+    expect(result.strategy).toBe('change_point');
+    expect(result.effectiveEndMinutes).toBe(45);
+  });
+
+  it('does not report a change point for an even trickle', () => {
+    const trickle = Array.from({ length: 12 }, (_, i) => leaver(`t-${i}`, 5 + i * 4.5));
+    const result = detectFormalEnd(trickle, START, END, {
+      ...DEFAULT_CLIFF_CONFIG,
+      strategy: 'change_point',
+    });
+
+    expect(result.detected).toBe(false);
+  });
+
+  it('anchors on the host leaving with the host_left strategy', () => {
+    const result = detectFormalEnd(meetingWithCliff(44), START, END, {
+      ...DEFAULT_CLIFF_CONFIG,
+      strategy: 'host_left',
+    });
+
+    expect(result.detected).toBe(true);
+    expect(result.strategy).toBe('host_left');
+    expect(result.effectiveEndMinutes).toBe(44);
+    expect(result.confidence).toBe('high');
+  });
+
+  it('explains why host_left could not fire', () => {
+    const config = { ...DEFAULT_CLIFF_CONFIG, strategy: 'host_left' as const };
+
+    expect(detectFormalEnd(meetingWithCliff(), START, END, config).reason).toBe('HOST_NOT_IDENTIFIED');
+    expect(detectFormalEnd(meetingWithCliff(60), START, END, config).reason).toBe('HOST_STAYED');
+    expect(detectFormalEnd(meetingWithCliff(10), START, END, config).reason).toBe('HOST_LEFT_EARLY');
+  });
+});
+
+describe('compareCliffStrategies', () => {
+  it('runs every strategy with the shared tuning', () => {
+    const results = compareCliffStrategies(meetingWithCliff(44), START, END);
+
+    expect(Object.keys(results).sort()).toEqual(['change_point', 'host_left', 'sliding_window']);
+    expect(results.sliding_window.strategy).toBe('sliding_window');
+    expect(results.host_left.effectiveEndMinutes).toBe(44);
+  });
+});
+
+describe('toCliffInputs', () => {
+  it('groups rows by email and flags the host', () => {
+    const inputs = toCliffInputs(
+      [
+        { id: 'h', user_email: 'Host@x.com', join_time: at(0), leave_time: at(40) },
+        { id: 'a1', user_email: 'a@x.com', join_time: at(0), leave_time: at(10) },
+        { id: 'a2', user_email: 'A@x.com', join_time: at(12), leave_time: at(50) },
+        { id: 'g', user_email: '', join_time: at(0), leave_time: at(30) },
+      ],
+      { email: 'host@x.com' },
+    );
+
+    expect(inputs).toHaveLength(3);
+    expect(inputs.find((i) => i.userId === 'a@x.com')?.segments).toHaveLength(2);
+    expect(inputs.find((i) => i.userId === 'host@x.com')?.isHost).toBe(true);
+    expect(inputs.find((i) => i.userId === null)).toBeDefined();
+  });
+});
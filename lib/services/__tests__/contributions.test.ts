@@ -0,0 +1,69 @@
+/**
+ * Tests for individual contributions: survey validation, contribution
+ * factors from peer ratings, and how adjustments move a student's score.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  computeContributionFactors,
+  individualScore,
+  suggestAdjustment,
+  validateRatings,
+} from '@/lib/services/contributions';
+
+const members = ['u-1', 'u-2', 'u-3'];
+
+describe('validateRatings', () => {
+  it('accepts whole ratings for other members', () => {
+    expect(validateRatings([{ ratee_id: 'u-2', rating: 4 }, { ratee_id: 'u-3', rating: 1 }], 'u-1', members)).toBeNull();
+  });
+
+  it('rejects self-ratings, outsiders, duplicates and out-of-range values', () => {
+    expect(validateRatings([], 'u-1', members)).toMatch(/non-empty/);
+    expect(validateRatings([{ ratee_id: 'u-1', rating: 5 }], 'u-1', members)).toMatch(/yourself/);
+    expect(validateRatings([{ ratee_id: 'u-9', rating: 5 }], 'u-1', members)).toMatch(/members of your subgroup/);
+    expect(validateRatings([{ ratee_id: 'u-2', rating: 4 }, { ratee_id: 'u-2', rating: 3 }], 'u-1', members)).toMatch(/once/);
+    expect(validateRatings([{ ratee_id: 'u-2', rating: 6 }], 'u-1', members)).toMatch(/1 to 5/);
+    expect(validateRatings([{ ratee_id: 'u-2', rating: 3.5 }], 'u-1', members)).toMatch(/1 to 5/);
+  });
+});
+
+describe('computeContributionFactors', () => {
+  it("compares each member's mean rating to the subgroup mean", () => {
+    const stats = computeContributionFactors(members, [
+      { ratee_id: 'u-1', rating: 5 },
+      { ratee_id: 'u-1', rating: 5 },
+      { ratee_id: 'u-2', rating: 4 },
+      { ratee_id: 'u-2', rating: 2 },
+      { ratee_id: 'u-3', rating: 3 },
+    ]);
+
+    // Means 5, 3, 3 → subgroup mean 11/3
+    expect(stats.get('u-1')).toEqual({ ratings_received: 2, mean_rating: 5, contribution_factor: 1.36 });
+    expect(stats.get('u-2')).toEqual({ ratings_received: 2, mean_rating: 3, contribution_factor: 0.82 });
+  });
+
+  it('leaves unrated members without a factor', () => {
+    const stats = computeContributionFactors(members, [{ ratee_id: 'u-1', rating: 4 }]);
+    expect(stats.get('u-1')?.contribution_factor).toBe(1);
+    expect(stats.get('u-2')).toEqual({ ratings_received: 0, mean_rating: null, contribution_factor: null });
+  });
+});
+
+describe('suggestAdjustment and individualScore', () => {
+  it('scales the group score by the factor within the max score', () => {
+    expect(suggestAdjustment(80, 0.75, 100)).toBe(-20);
+    expect(suggestAdjustment(80, 1.5, 100)).toBe(20);
+    expect(suggestAdjustment(80, null, 100)).toBeNull();
+    expect(suggestAdjustment(null, 1.2, 100)).toBeNull();
+  });
+
+  it('applies an adjustment to the group score', () => {
+    expect(individualScore(80, 10, 100)).toBe(90);
+    expect(individualScore(80, 30, 100)).toBe(100);
+    expect(individualScore(10, -25, 100)).toBe(0);
+    expect(individualScore(80, null, 100)).toBe(80);
+    expect(individualScore(null, 10, 100)).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for deadline extensions: how subgroup and per-student overrides
+ * combine into the effective deadline, and which requested dates are valid.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import { canUpload, getEffectiveDeadline, getEffectiveDeadlineWithGrace, isLate } from '@/lib/services/case-study-deadline';
+import { validateRequestedDeadline } from '@/lib/services/deadline-extensions';
+
+const caseStudy = {
+  due_date: '2026-03-01T12:00:00.000Z',
+  grace_period_minutes: 5,
+  is_archived: false,
+  submissions_closed: false,
+};
+
+describe('getEffectiveDeadline with extensions', () => {
+  it('uses the subgroup override over the case study due date', () => {
+    const deadline = getEffectiveDeadline({ deadline_override: '2026-03-03T12:00:00.000Z' }, caseStudy);
+    expect(deadline?.toISOString()).toBe('2026-03-03T12:00:00.000Z');
+  });
+
+  it('uses a personal extension when it is later than the subgroup deadline', () => {
+    const deadline = getEffectiveDeadline(
+      { deadline_override: '2026-03-03T12:00:00.000Z', student_deadline_override: '2026-03-05T12:00:00.000Z' },
+      caseStudy,
+    );
+    expect(deadline?.toISOString()).toBe('2026-03-05T12:00:00.000Z');
+  });
+
+  it('never lets a personal extension shorten the subgroup deadline', () => {
+    const deadline = getEffectiveDeadline(
+      { deadline_override: '2026-03-03T12:00:00.000Z', student_deadline_override: '2026-03-02T12:00:00.000Z' },
+      caseStudy,
+    );
+    expect(deadline?.toISOString()).toBe('2026-03-03T12:00:00.000Z');
+  });
+
+  it('applies grace, upload and lateness checks to the extended deadline', () => {
+    const subject = { deadline_override: null, student_deadline_override: '2026-03-02T12:00:00.000Z', visibility: 'draft' as const };
+    const afterDueDate = new Date('2026-03-02T10:00:00.000Z');
+
+    expect(getEffectiveDeadlineWithGrace(subject, caseStudy)?.toISOString()).toBe('2026-03-02T12:05:00.000Z');
+    expect(canUpload(subject, caseStudy, afterDueDate)).toBe(true);
+    expect(isLate(subject, caseStudy, afterDueDate)).toBe(false);
+    expect(canUpload({ ...subject, student_deadline_override: null }, caseStudy, afterDueDate)).toBe(false);
+  });
+});
+
+describe('validateRequestedDeadline', () => {
+  const now = new Date('2026-02-28T12:00:00.000Z');
+  const current = new Date(caseStudy.due_date);
+
+  it('accepts a future date past the current deadline', () => {
+    expect(validateRequestedDeadline(new Date('2026-03-02T12:00:00.000Z'), current, now)).toBeNull();
+  });
+
+  it('rejects dates that do not extend anything', () => {
+    expect(validateRequestedDeadline(new Date('2026-02-27T12:00:00.000Z'), current, now)).toMatch(/future/);
+    expect(validateRequestedDeadline(new Date('2026-03-01T11:00:00.000Z'), current, now)).toMatch(/later than/);
+    expect(validateRequestedDeadline(new Date('2026-03-02T12:00:00.000Z'), null, now)).toMatch(/no deadline/);
+    expect(validateRequestedDeadline(new Date('not a date'), current, now)).toMatch(/Invalid/);
+  });
+});
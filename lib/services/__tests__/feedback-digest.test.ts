@@ -0,0 +1,116 @@
+/**
+ * Tests for feedback digests: which review's score students see, ranking,
+ * and what the email and WhatsApp messages contain.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  buildFeedbackDigest,
+  rankByScore,
+  renderDigestEmail,
+  renderDigestWhatsApp,
+  type DigestReview,
+} from '@/lib/services/feedback-digest';
+
+function review(overrides: Partial<DigestReview>): DigestReview {
+  return {
+    reviewer_id: 'mentor-1',
+    reviewer_role: 'mentor',
+    reviewer_name: 'Asha',
+    score: 70,
+    adjusted_score: null,
+    late_penalty: 0,
+    comment: null,
+    overridden: false,
+    updated_at: '2026-03-01T10:00:00Z',
+    rubric_scores: [],
+    ...overrides,
+  };
+}
+
+const BASE = { caseStudyTitle: 'Market Entry', subgroupName: 'Team <Alpha>', maxScore: 100, adjudicatedBy: null, rank: null };
+
+describe('buildFeedbackDigest', () => {
+  it("uses the admin's adjusted score and rubric over the mentor's", () => {
+    const digest = buildFeedbackDigest({
+      ...BASE,
+      reviews: [
+        review({ score: 70, comment: 'Solid framing' }),
+        review({
+          reviewer_role: 'admin',
+          score: 80,
+          adjusted_score: 72,
+          late_penalty: 8,
+          comment: 'Good, but late',
+          rubric_scores: [{ label: 'Analysis', score: 40, max_score: 50, level_label: 'Strong', comment: null }],
+        }),
+      ],
+    });
+    expect(digest.score).toBe(72);
+    expect(digest.latePenalty).toBe(8);
+    expect(digest.rubric.map(r => r.label)).toEqual(['Analysis']);
+    expect(digest.comments).toEqual([
+      { reviewer: 'Mentor Asha', comment: 'Solid framing' },
+      { reviewer: 'Program team', comment: 'Good, but late' },
+    ]);
+  });
+
+  it("takes the adjudicator's score when admins disagreed", () => {
+    const admins = [
+      review({ reviewer_id: 'admin-1', reviewer_role: 'admin', score: 60, updated_at: '2026-03-02T10:00:00Z' }),
+      review({ reviewer_id: 'admin-2', reviewer_role: 'admin', score: 85 }),
+    ];
+    expect(buildFeedbackDigest({ ...BASE, reviews: admins }).score).toBe(60);
+    expect(buildFeedbackDigest({ ...BASE, reviews: admins, adjudicatedBy: 'admin-2' }).score).toBe(85);
+  });
+
+  it('hides overridden mentor reviews and falls back to the mentor score', () => {
+    const overridden = buildFeedbackDigest({
+      ...BASE,
+      reviews: [review({ overridden: true, comment: 'Hidden' }), review({ reviewer_role: 'admin', score: null, comment: '  ' })],
+    });
+    expect(overridden.score).toBeNull();
+    expect(overridden.comments).toEqual([]);
+
+    const mentorOnly = buildFeedbackDigest({ ...BASE, reviews: [review({ score: 65 })] });
+    expect(mentorOnly.score).toBe(65);
+  });
+});
+
+describe('rankByScore', () => {
+  it('shares ranks on ties, skips the next rank and leaves unscored entries out', () => {
+    const ranks = rankByScore(new Map([['a', 90], ['b', 80], ['c', 90], ['d', null], ['e', 70]]));
+    expect(ranks.get('a')).toEqual({ position: 1, of: 4 });
+    expect(ranks.get('c')).toEqual({ position: 1, of: 4 });
+    expect(ranks.get('b')).toEqual({ position: 3, of: 4 });
+    expect(ranks.get('e')).toEqual({ position: 4, of: 4 });
+    expect(ranks.has('d')).toBe(false);
+  });
+});
+
+describe('renderDigest', () => {
+  const digest = buildFeedbackDigest({
+    ...BASE,
+    rank: { position: 2, of: 9 },
+    reviews: [review({ reviewer_role: 'admin', score: 81, comment: 'Tight <b>recommendation</b>' })],
+  });
+
+  it('escapes names and comments in the email and includes the rank', () => {
+    const email = renderDigestEmail(digest, 'Ravi', 'https://app.test/case-studies');
+    expect(email.subject).toBe('Feedback is out: Market Entry');
+    expect(email.html).toContain('Team &lt;Alpha&gt;');
+    expect(email.html).toContain('Tight &lt;b&gt;recommendation&lt;/b&gt;');
+    expect(email.html).toContain('Rank 2 of 9');
+    expect(email.text).toContain('Score: 81/100');
+  });
+
+  it('keeps WhatsApp to the score, rank and link', () => {
+    const text = renderDigestWhatsApp(digest, null, 'https://app.test/case-studies');
+    expect(text).toBe(
+      'Hi there, feedback for Market Entry (Team <Alpha>) is out.\n' +
+        'Score: 81/100 · Rank 2 of 9\n' +
+        'Read it here: https://app.test/case-studies',
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Tests for the grade book: which review carries the grade, cell statuses,
+ * how students inherit subgroup grades, and the aggregated case study score.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  aggregateCaseStudyScore,
+  buildGradeBook,
+  gradeBookToRows,
+  type GradeBookInput,
+  type GradeBookReviewInput,
+} from '@/lib/services/grade-book';
+import { pickGradingReview } from '@/lib/services/review-calibration';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+const review = (overrides: Partial<GradeBookReviewInput>): GradeBookReviewInput => ({
+  submission_id: 'sub-1',
+  reviewer_id: 'admin-1',
+  reviewer_name: 'Asha',
+  score: 80,
+  late_penalty: 0,
+  adjusted_score: 80,
+  updated_at: '2026-03-05T00:00:00.000Z',
+  ...overrides,
+});
+
+const input: GradeBookInput = {
+  cohortId: 'cohort-1',
+  caseStudies: [
+    { id: 'cs-1', title: 'Pricing', week_number: 1, max_score: 100, due_date: '2026-03-01T12:00:00.000Z', grace_period_minutes: 5 },
+    { id: 'cs-2', title: 'Churn', week_number: 2, max_score: 50, due_date: '2026-03-08T12:00:00.000Z', grace_period_minutes: 5 },
+    { id: 'cs-3', title: 'Growth', week_number: 3, max_score: 100, due_date: '2026-03-20T12:00:00.000Z', grace_period_minutes: 5 },
+  ],
+  subgroups: [
+    { id: 'sg-a', name: 'Alpha' },
+    { id: 'sg-b', name: 'Beta' },
+  ],
+  students: [
+    { id: 'u-2', full_name: 'Zoe', email: 'zoe@example.com' },
+    { id: 'u-1', full_name: 'Ravi', email: 'ravi@example.com' },
+    { id: 'u-3', full_name: 'Nia', email: 'nia@example.com' },
+  ],
+  members: [
+    { subgroup_id: 'sg-a', user_id: 'u-1' },
+    { subgroup_id: 'sg-b', user_id: 'u-2' },
+  ],
+  submissions: [
+    { id: 'sub-1', case_study_id: 'cs-1', subgroup_id: 'sg-a', visibility: 'cohort_published', submitted_at: '2026-03-01T11:00:00.000Z', is_late: false, deadline_override: null, adjudicated_by: null },
+    { id: 'sub-2', case_study_id: 'cs-2', subgroup_id: 'sg-a', visibility: 'admin_reviewed', submitted_at: '2026-03-08T13:00:00.000Z', is_late: true, deadline_override: null, adjudicated_by: null },
+    { id: 'sub-3', case_study_id: 'cs-1', subgroup_id: 'sg-b', visibility: 'submitted', submitted_at: '2026-03-01T10:00:00.000Z', is_late: false, deadline_override: null, adjudicated_by: null },
+    { id: 'sub-4', case_study_id: 'cs-2', subgroup_id: 'sg-b', visibility: 'draft', submitted_at: null, is_late: false, deadline_override: '2026-03-12T12:00:00.000Z', adjudicated_by: null },
+  ],
+  reviews: [
+    review({ submission_id: 'sub-1', score: 90, adjusted_score: 90 }),
+    review({ submission_id: 'sub-2', score: 40, late_penalty: 10, adjusted_score: 30 }),
+  ],
+  ratings: [],
+  adjustments: [],
+  now,
+};
+
+describe('pickGradingReview', () => {
+  it("prefers the adjudicator's review, else the latest scored one", () => {
+    const first = review({ reviewer_id: 'admin-1', score: 70, updated_at: '2026-03-05T00:00:00.000Z' });
+    const second = review({ reviewer_id: 'admin-2', score: 60, updated_at: '2026-03-06T00:00:00.000Z' });
+    const unscored = review({ reviewer_id: 'admin-3', score: null, updated_at: '2026-03-07T00:00:00.000Z' });
+
+    expect(pickGradingReview([first, second, unscored], null)).toBe(second);
+    expect(pickGradingReview([first, second, unscored], 'admin-1')).toBe(first);
+    expect(pickGradingReview([unscored], null)).toBeNull();
+  });
+});
+
+describe('buildGradeBook', () => {
+  const gradeBook = buildGradeBook(input);
+  const alpha = gradeBook.subgroups.find(sg => sg.subgroup_id === 'sg-a')!;
+  const beta = gradeBook.subgroups.find(sg => sg.subgroup_id === 'sg-b')!;
+
+  it('fills each cell with final score, penalty, reviewer and status', () => {
+    expect(alpha.cells['cs-1']).toMatchObject({ status: 'published', final_score: 90, reviewer_name: 'Asha' });
+    expect(alpha.cells['cs-2']).toMatchObject({ status: 'graded', raw_score: 40, late_penalty: 10, final_score: 30, is_late: true });
+    expect(alpha.cells['cs-3']).toMatchObject({ status: 'not_submitted', final_score: null, submission_id: null });
+    expect(beta.cells['cs-1'].status).toBe('awaiting_review');
+  });
+
+  it('only marks a case study missing once the effective deadline and grace have passed', () => {
+    expect(beta.cells['cs-2'].status).toBe('not_submitted');
+    const later = buildGradeBook({ ...input, now: new Date('2026-03-13T00:00:00.000Z') });
+    expect(later.subgroups.find(sg => sg.subgroup_id === 'sg-b')!.cells['cs-2'].status).toBe('missing');
+  });
+
+  it('gives students their subgroup grades, sorted by name', () => {
+    expect(gradeBook.students.map(s => s.full_name)).toEqual(['Nia', 'Ravi', 'Zoe']);
+    const ravi = gradeBook.students.find(s => s.user_id === 'u-1')!;
+    expect(ravi.subgroup_name).toBe('Alpha');
+    expect(ravi.cells['cs-1']).toMatchObject({ final_score: 90, individual_adjustment: null });
+    expect(ravi.case_study_score).toBe(alpha.case_study_score);
+
+    const nia = gradeBook.students.find(s => s.user_id === 'u-3')!;
+    expect(nia).toMatchObject({ subgroup_id: null, cells: {}, case_study_score: null });
+  });
+
+  it("adds a student's adjustment to the group score, within the max score", () => {
+    const adjusted = buildGradeBook({
+      ...input,
+      members: [...input.members, { subgroup_id: 'sg-a', user_id: 'u-3' }],
+      ratings: [
+        { submission_id: 'sub-1', ratee_id: 'u-1', rating: 5 },
+        { submission_id: 'sub-1', ratee_id: 'u-3', rating: 3 },
+      ],
+      adjustments: [
+        { submission_id: 'sub-1', student_id: 'u-1', adjustment: 15 },
+        { submission_id: 'sub-2', student_id: 'u-3', adjustment: -6 },
+      ],
+    });
+    const ravi = adjusted.students.find(s => s.user_id === 'u-1')!;
+    const nia = adjusted.students.find(s => s.user_id === 'u-3')!;
+
+    expect(ravi.cells['cs-1']).toMatchObject({ final_score: 100, individual_adjustment: 15, contribution_factor: 1.25 });
+    expect(nia.cells['cs-1']).toMatchObject({ final_score: 90, individual_adjustment: null, contribution_factor: 0.75 });
+    expect(nia.cells['cs-2']).toMatchObject({ final_score: 24, individual_adjustment: -6 });
+    // (90 + 24) / 150
+    expect(nia.case_study_score).toBe(76);
+    // The subgroup row keeps the group score
+    expect(adjusted.subgroups.find(sg => sg.subgroup_id === 'sg-a')!.cells['cs-1'].final_score).toBe(90);
+  });
+
+  it('scores a subgroup over graded case studies only', () => {
+    // (90 + 30) / (100 + 50)
+    expect(alpha.case_study_score).toBe(80);
+    expect(beta.case_study_score).toBeNull();
+  });
+});
+
+describe('aggregateCaseStudyScore', () => {
+  it('counts missed case studies as zero', () => {
+    const cells = {
+      'cs-1': { case_study_id: 'cs-1', submission_id: 's', status: 'graded' as const, is_late: false, raw_score: 75, late_penalty: 0, final_score: 75, reviewer_name: null, individual_adjustment: null, contribution_factor: null },
+      'cs-2': { case_study_id: 'cs-2', submission_id: null, status: 'missing' as const, is_late: false, raw_score: null, late_penalty: 0, final_score: null, reviewer_name: null, individual_adjustment: null, contribution_factor: null },
+    };
+    expect(aggregateCaseStudyScore(cells, [{ id: 'cs-1', max_score: 100 }, { id: 'cs-2', max_score: 50 }])).toBe(50);
+  });
+});
+
+describe('gradeBookToRows', () => {
+  it('flattens each view into one row per student or subgroup', () => {
+    const gradeBook = buildGradeBook(input);
+    const [subgroupRow] = gradeBookToRows(gradeBook, 'subgroups');
+    expect(subgroupRow).toMatchObject({
+      Subgroup: 'Alpha',
+      'W2 Churn - Score': 30,
+      'W2 Churn - Late Penalty': 10,
+      'W2 Churn - Reviewer': 'Asha',
+      'W2 Churn - Status': 'graded',
+      'Case Study Score (%)': 80,
+    });
+
+    const studentRows = gradeBookToRows(gradeBook, 'students');
+    expect(studentRows[0]).toMatchObject({ Student: 'Nia', Subgroup: '', 'W1 Pricing - Score': '' });
+  });
+});
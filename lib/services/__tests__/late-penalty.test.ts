@@ -0,0 +1,187 @@
+/**
+ * Tests for late penalties: each policy's deduction, overrides, the
+ * validation of policy updates, and re-judging lateness when a deadline moves.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { minutesLate } from '@/lib/services/case-study-deadline';
+import {
+  computeLatePenalty,
+  latenessAt,
+  penaltyFields,
+  recomputeLateness,
+  validateLatePolicy,
+  type LatePolicy,
+} from '@/lib/services/late-penalty';
+
+const base: LatePolicy = {
+  late_policy: 'flag',
+  late_penalty_points: null,
+  late_penalty_percent: null,
+  late_penalty_unit: 'hour',
+  late_penalty_cap_percent: null,
+  late_zero_after_hours: null,
+};
+
+describe('computeLatePenalty', () => {
+  it('deducts nothing for flag-only or on-time submissions', () => {
+    expect(computeLatePenalty(base, 80, 120)).toBe(0);
+    expect(computeLatePenalty({ ...base, late_policy: 'fixed', late_penalty_points: 10 }, 80, 0)).toBe(0);
+  });
+
+  it('takes a fixed deduction, never more than the score', () => {
+    const policy = { ...base, late_policy: 'fixed' as const, late_penalty_points: 10 };
+    expect(computeLatePenalty(policy, 80, 5)).toBe(10);
+    expect(computeLatePenalty(policy, 6, 5)).toBe(6);
+  });
+
+  it('takes a percentage per started hour or day, up to the cap', () => {
+    const hourly = { ...base, late_policy: 'percent' as const, late_penalty_percent: 10, late_penalty_cap_percent: 25 };
+    expect(computeLatePenalty(hourly, 80, 30)).toBe(8);
+    expect(computeLatePenalty(hourly, 80, 61)).toBe(16);
+    expect(computeLatePenalty(hourly, 80, 600)).toBe(20);
+
+    const daily = { ...hourly, late_penalty_unit: 'day' as const, late_penalty_cap_percent: null };
+    expect(computeLatePenalty(daily, 80, 600)).toBe(8);
+    expect(computeLatePenalty(daily, 80, 24 * 60 + 1)).toBe(16);
+  });
+
+  it('zeroes the score only once the threshold is reached', () => {
+    const policy = { ...base, late_policy: 'zero_after' as const, late_zero_after_hours: 2 };
+    expect(computeLatePenalty(policy, 80, 119)).toBe(0);
+    expect(computeLatePenalty(policy, 80, 120)).toBe(80);
+  });
+});
+
+describe('penaltyFields', () => {
+  const policy = { ...base, late_policy: 'fixed' as const, late_penalty_points: 10 };
+  const late = { is_late: true, late_minutes: 30, late_penalty_override: null };
+
+  it('stores the policy deduction next to the adjusted score', () => {
+    expect(penaltyFields(policy, late, 80)).toEqual({ late_penalty: 10, adjusted_score: 70 });
+    expect(penaltyFields(policy, { ...late, is_late: false }, 80)).toEqual({ late_penalty: 0, adjusted_score: 80 });
+  });
+
+  it('lets an override replace the policy deduction', () => {
+    expect(penaltyFields(policy, { ...late, late_penalty_override: 0 }, 80)).toEqual({ late_penalty: 0, adjusted_score: 80 });
+    expect(penaltyFields(policy, { ...late, late_penalty_override: 25 }, 80)).toEqual({ late_penalty: 25, adjusted_score: 55 });
+  });
+
+  it('leaves ungraded reviews unadjusted', () => {
+    expect(penaltyFields(policy, late, null)).toEqual({ late_penalty: 0, adjusted_score: null });
+  });
+});
+
+describe('validateLatePolicy', () => {
+  it('requires the fields the chosen policy uses and clears the rest', () => {
+    const result = validateLatePolicy({ late_policy: 'fixed', late_penalty_points: 5, late_penalty_percent: 10 });
+    expect(result).toEqual({ ok: true, policy: { ...base, late_policy: 'fixed', late_penalty_points: 5 } });
+  });
+
+  it('rejects unknown policies and out-of-range values', () => {
+    expect(validateLatePolicy({ late_policy: 'halve' }).ok).toBe(false);
+    expect(validateLatePolicy({ late_policy: 'fixed' }).ok).toBe(false);
+    expect(validateLatePolicy({ late_policy: 'percent', late_penalty_percent: 150 }).ok).toBe(false);
+    expect(validateLatePolicy({ late_policy: 'percent', late_penalty_percent: 10, late_penalty_cap_percent: 'x' }).ok).toBe(false);
+    expect(validateLatePolicy({ late_policy: 'zero_after', late_zero_after_hours: -1 }).ok).toBe(false);
+  });
+});
+
+describe('minutesLate', () => {
+  const caseStudy = { due_date: '2026-03-01T12:00:00.000Z' };
+
+  it('counts started minutes past the effective deadline', () => {
+    expect(minutesLate({ deadline_override: null }, caseStudy, new Date('2026-03-01T12:00:30.000Z'))).toBe(1);
+    expect(minutesLate({ deadline_override: null }, caseStudy, new Date('2026-03-01T13:30:00.000Z'))).toBe(90);
+    expect(minutesLate({ deadline_override: '2026-03-02T12:00:00.000Z' }, caseStudy, new Date('2026-03-01T13:30:00.000Z'))).toBe(0);
+  });
+});
+
+describe('latenessAt', () => {
+  const caseStudy = { due_date: '2026-03-01T12:00:00.000Z', grace_period_minutes: 5 };
+  const handedIn = new Date('2026-03-01T12:30:00.000Z');
+
+  it('judges the original hand-in time against the deadline in force', () => {
+    expect(latenessAt({ deadline_override: null }, caseStudy, handedIn)).toEqual({ is_late: true, late_minutes: 30 });
+    expect(latenessAt({ deadline_override: null, student_deadline_override: '2026-03-01T13:00:00.000Z' }, caseStudy, handedIn))
+      .toEqual({ is_late: false, late_minutes: 0 });
+  });
+});
+
+type Result = { data?: unknown; error: unknown };
+
+/**
+ * Chainable query mock: awaiting a chain resolves to the next canned result
+ * for `${table}.${op}` (a list is consumed in order), and writes are recorded.
+ */
+function makeClient(results: Record<string, Result | Result[]>) {
+  const calls: { table: string; op: string; payload?: unknown }[] = [];
+
+  const client = {
+    from(table: string) {
+      let op = 'select';
+      const resolve = () => {
+        const canned = results[`${table}.${op}`];
+        const next = Array.isArray(canned) ? canned.shift() : canned;
+        return Promise.resolve(next ?? { data: null, error: null });
+      };
+      const chain: Record<string, unknown> = {
+        select: () => chain,
+        eq: () => chain,
+        in: () => chain,
+        not: () => chain,
+        maybeSingle: resolve,
+        single: resolve,
+        then: (onFulfilled: (r: Result) => unknown) => resolve().then(onFulfilled),
+      };
+      chain.update = (payload: unknown) => {
+        op = 'update';
+        calls.push({ table, op, payload });
+        return chain;
+      };
+      return chain;
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, calls };
+}
+
+describe('recomputeLateness', () => {
+  const policy = { ...base, late_policy: 'fixed' as const, late_penalty_points: 10 };
+
+  it('lifts an existing penalty once an extension covers the hand-in time', async () => {
+    const { client, calls } = makeClient({
+      'case_studies.select': { data: { due_date: '2026-03-01T12:00:00.000Z', grace_period_minutes: 5 }, error: null },
+      'case_study_submissions.select': [
+        {
+          data: [{
+            id: 'sub-1',
+            submitted_by: 'u1',
+            submitted_at: '2026-03-01T12:30:00.000Z',
+            deadline_override: '2026-03-02T12:00:00.000Z',
+            is_late: true,
+            late_minutes: 30,
+          }],
+          error: null,
+        },
+        // Re-read by recomputeAdjustedScores after the relabel
+        { data: [{ id: 'sub-1', is_late: false, late_minutes: 0, late_penalty_override: null, case_study: policy }], error: null },
+      ],
+      'case_study_student_deadlines.select': { data: [], error: null },
+      'case_study_reviews.select': {
+        data: [{ id: 'rev-1', submission_id: 'sub-1', score: 80, late_penalty: 10, adjusted_score: 70 }],
+        error: null,
+      },
+    });
+
+    const result = await recomputeLateness(client, 'cs-1');
+
+    expect(result).toEqual({ ok: true, relabelled: 1, updated: 1 });
+    expect(calls).toEqual([
+      { table: 'case_study_submissions', op: 'update', payload: { is_late: false, late_minutes: 0 } },
+      { table: 'case_study_reviews', op: 'update', payload: { late_penalty: 0, adjusted_score: 80 } },
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for the unmatched-participant suggestion scoring.
+ *
+ * Pins how the three signals combine: display-name / email local-part
+ * similarity against profiles.full_name, cohort membership of the session,
+ * and resemblance to the candidate's existing aliases. Cohort membership
+ * alone must never produce a suggestion.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  nameSimilarity,
+  rankCandidates,
+  scoreCandidate,
+  type SuggestionCandidate,
+} from '@/lib/services/participant-suggestions';
+
+function candidate(id: string, fullName: string, overrides: Partial<SuggestionCandidate> = {}): SuggestionCandidate {
+  return {
+    id,
+    full_name: fullName,
+    email: `${id}@school.edu`,
+    emailAliases: [],
+    nameAliases: [],
+    ...overrides,
+  };
+}
+
+describe('nameSimilarity', () => {
+  it('ignores case, punctuation and token order', () => {
+    expect(nameSimilarity('Priya Sharma', 'sharma, priya')).toBe(1);
+  });
+
+  it('matches email local parts against full names', () => {
+    expect(nameSimilarity('priya.sharma92@gmail.com', 'Priya Sharma')).toBe(1);
+    expect(nameSimilarity('priyasharma@gmail.com', 'Priya Sharma')).toBe(1);
+  });
+
+  it('tolerates small typos', () => {
+    expect(nameSimilarity('Priya Sharmaa', 'Priya Sharma')).toBeGreaterThan(0.9);
+  });
+
+  it('scores unrelated names low', () => {
+    expect(nameSimilarity('iPhone', 'Priya Sharma')).toBeLessThan(0.4);
+    expect(nameSimilarity('', 'Priya Sharma')).toBe(0);
+  });
+});
+
+describe('scoreCandidate', () => {
+  it('adds the cohort signal for members of the session cohort', () => {
+    const c = candidate('u1', 'Priya Sharma');
+    const inCohort = scoreCandidate('Priya Sharma', c, true);
+    const outside = scoreCandidate('Priya Sharma', c, false);
+
+    expect(inCohort.signals.cohort).toBe(1);
+    expect(inCohort.score).toBeGreaterThan(outside.score);
+  });
+
+  it('uses past email aliases for email participants', () => {
+    const c = candidate('u1', 'P. S.', { emailAliases: ['priya.sharma@yahoo.com'] });
+    const result = scoreCandidate('priya.sharma@gmail.com', c, false);
+
+    expect(result.signals.aliasHistory).toBe(1);
+  });
+
+  it('uses past display-name aliases for guests', () => {
+    const c = candidate('u1', 'Priya Sharma', { nameAliases: ["priya's ipad"] });
+    const result = scoreCandidate("Priya's iPad", c, false);
+
+    expect(result.signals.aliasHistory).toBe(1);
+  });
+});
+
+describe('rankCandidates', () => {
+  const candidates = [
+    candidate('u1', 'Priya Sharma'),
+    candidate('u2', 'Priya Shah'),
+    candidate('u3', 'Rahul Verma'),
+  ];
+
+  it('ranks the closest name first and drops unrelated profiles', () => {
+    const ranked = rankCandidates('priya.sharma@gmail.com', candidates, new Set());
+
+    expect(ranked[0].user_id).toBe('u1');
+    expect(ranked.map((r) => r.user_id)).not.toContain('u3');
+  });
+
+  it('never suggests a candidate on cohort membership alone', () => {
+    const ranked = rankCandidates('Galaxy S21', candidates, new Set(['u1', 'u2', 'u3']));
+
+    expect(ranked).toHaveLength(0);
+  });
+
+  it('respects the limit', () => {
+    const many = Array.from({ length: 6 }, (_, i) => candidate(`u${i}`, 'Priya Sharma'));
+
+    expect(rankCandidates('Priya Sharma', many, new Set(), 3)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Tests for peer review: rotation assignment (no self-review, balanced load),
+ * anonymous labels and the admin progress summary.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import { anonymousLabel, planPeerAssignments, summarizePeerReviews } from '@/lib/services/peer-review';
+
+describe('planPeerAssignments', () => {
+  it('assigns each subgroup N others and never itself', () => {
+    const ids = ['a', 'b', 'c', 'd', 'e'];
+    const pairings = planPeerAssignments(ids, 2);
+
+    expect(pairings).toHaveLength(10);
+    expect(pairings.filter((p) => p.reviewerSubgroupId === 'a').map((p) => p.revieweeSubgroupId)).toEqual(['b', 'c']);
+    expect(pairings.filter((p) => p.reviewerSubgroupId === 'e').map((p) => p.revieweeSubgroupId)).toEqual(['a', 'b']);
+    expect(pairings.some((p) => p.reviewerSubgroupId === p.revieweeSubgroupId)).toBe(false);
+
+    for (const id of ids) {
+      expect(pairings.filter((p) => p.revieweeSubgroupId === id)).toHaveLength(2);
+    }
+  });
+
+  it('caps N below the number of subgroups and ignores duplicates', () => {
+    const pairings = planPeerAssignments(['a', 'b', 'b'], 3);
+    expect(pairings).toEqual([
+      { reviewerSubgroupId: 'a', revieweeSubgroupId: 'b' },
+      { reviewerSubgroupId: 'b', revieweeSubgroupId: 'a' },
+    ]);
+    expect(planPeerAssignments(['a'], 2)).toEqual([]);
+    expect(planPeerAssignments([], 2)).toEqual([]);
+  });
+});
+
+describe('anonymousLabel', () => {
+  it('uses letters, then numbers past Z', () => {
+    expect(anonymousLabel(0)).toBe('Submission A');
+    expect(anonymousLabel(25)).toBe('Submission Z');
+    expect(anonymousLabel(26)).toBe('Submission 27');
+  });
+});
+
+describe('summarizePeerReviews', () => {
+  it('averages submitted scores only', () => {
+    expect(
+      summarizePeerReviews([
+        { status: 'submitted', score: 70 },
+        { status: 'submitted', score: 75 },
+        { status: 'submitted', score: 81 },
+        { status: 'pending', score: null },
+      ]),
+    ).toEqual({ assigned: 4, submitted: 3, meanScore: 75.3 });
+
+    expect(summarizePeerReviews([{ status: 'pending', score: null }])).toEqual({
+      assigned: 1,
+      submitted: 0,
+      meanScore: null,
+    });
+  });
+});
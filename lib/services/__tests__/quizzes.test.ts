@@ -0,0 +1,294 @@
+/**
+ * Tests for module quizzes: scoring each question type, attempt layout and
+ * timing, best-attempt and mastery rollups, authoring validation, what a
+ * student sees during and after an attempt, and item analysis.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  attemptsRemaining,
+  bestAttempt,
+  buildAttemptLayout,
+  buildItemAnalysis,
+  buildReview,
+  canRevealAnswers,
+  isAttemptExpired,
+  moduleMastery,
+  normalizeShortText,
+  questionsForAttempt,
+  scoreAttempt,
+  scoreQuestion,
+  seededShuffle,
+  toQuizInput,
+  validateQuizInput,
+  type QuizInput,
+} from '@/lib/services/quizzes';
+import type { QuizAttempt, QuizQuestion } from '@/types';
+
+function question(overrides: Partial<QuizQuestion> & Pick<QuizQuestion, 'id' | 'type'>): QuizQuestion {
+  return {
+    resource_id: 'quiz-1',
+    prompt: `Prompt ${overrides.id}`,
+    options: [],
+    correct_option_ids: [],
+    numeric_answer: null,
+    numeric_tolerance: 0,
+    accepted_answers: [],
+    case_sensitive: false,
+    points: 1,
+    explanation: null,
+    order_index: 0,
+    ...overrides,
+  };
+}
+
+const options = [
+  { id: 'a', text: 'Alpha' },
+  { id: 'b', text: 'Beta' },
+  { id: 'c', text: 'Gamma' },
+];
+
+const single = question({ id: 'q1', type: 'single_choice', options, correct_option_ids: ['b'], explanation: 'Beta it is' });
+const multi = question({ id: 'q2', type: 'multi_select', options, correct_option_ids: ['a', 'c'], points: 2 });
+const numeric = question({ id: 'q3', type: 'numeric', numeric_answer: 3.5, numeric_tolerance: 0.1 });
+const text = question({ id: 'q4', type: 'short_text', accepted_answers: ['New York', 'NYC'] });
+const questions = [single, multi, numeric, text];
+
+describe('scoreQuestion', () => {
+  it('accepts only the correct single choice', () => {
+    expect(scoreQuestion(single, { option_ids: ['b'] }).correct).toBe(true);
+    expect(scoreQuestion(single, { option_ids: ['a'] }).correct).toBe(false);
+    expect(scoreQuestion(single, { option_ids: ['b', 'a'] }).correct).toBe(false);
+  });
+
+  it('scores multi-select all-or-nothing', () => {
+    expect(scoreQuestion(multi, { option_ids: ['c', 'a'] })).toEqual({
+      question_id: 'q2', correct: true, points_awarded: 2, points_possible: 2,
+    });
+    expect(scoreQuestion(multi, { option_ids: ['a'] }).points_awarded).toBe(0);
+    expect(scoreQuestion(multi, { option_ids: ['a', 'b', 'c'] }).correct).toBe(false);
+  });
+
+  it('accepts numeric answers within tolerance, inclusive', () => {
+    expect(scoreQuestion(numeric, { value: 3.6 }).correct).toBe(true);
+    expect(scoreQuestion(numeric, { value: 3.4 }).correct).toBe(true);
+    expect(scoreQuestion(numeric, { value: 3.61 }).correct).toBe(false);
+    expect(scoreQuestion(question({ id: 'q', type: 'numeric', numeric_answer: 0.3 }), { value: 0.1 + 0.2 }).correct).toBe(true);
+  });
+
+  it('matches short text ignoring case and extra whitespace', () => {
+    expect(scoreQuestion(text, { text: '  new   york ' }).correct).toBe(true);
+    expect(scoreQuestion(text, { text: 'nyc' }).correct).toBe(true);
+    expect(scoreQuestion(text, { text: 'Boston' }).correct).toBe(false);
+    expect(scoreQuestion({ ...text, case_sensitive: true }, { text: 'nyc' }).correct).toBe(false);
+  });
+
+  it('scores a missing answer as zero', () => {
+    for (const q of questions) {
+      expect(scoreQuestion(q, undefined)).toMatchObject({ correct: false, points_awarded: 0 });
+    }
+    expect(scoreQuestion(text, { text: '   ' }).correct).toBe(false);
+  });
+});
+
+describe('normalizeShortText', () => {
+  it('keeps case only when asked to', () => {
+    expect(normalizeShortText(' Foo \t Bar ')).toBe('foo bar');
+    expect(normalizeShortText(' Foo  Bar ', true)).toBe('Foo Bar');
+  });
+});
+
+describe('scoreAttempt', () => {
+  it('totals weighted points and applies the pass mark', () => {
+    const answers = { q1: { option_ids: ['b'] }, q2: { option_ids: ['a', 'c'] }, q3: { value: 1 } };
+    const result = scoreAttempt(questions, answers, 70);
+    expect(result.score).toBe(3);
+    expect(result.max_score).toBe(5);
+    expect(result.percent).toBe(60);
+    expect(result.passed).toBe(false);
+    expect(scoreAttempt(questions, answers, 60).passed).toBe(true);
+  });
+});
+
+describe('attempt layout', () => {
+  it('shuffles deterministically for a seed', () => {
+    const items = Array.from({ length: 10 }, (_, i) => i);
+    const first = seededShuffle(items, 'attempt-1');
+    expect(seededShuffle(items, 'attempt-1')).toEqual(first);
+    expect([...first].sort((a, b) => a - b)).toEqual(items);
+    expect(seededShuffle(items, 'attempt-2')).not.toEqual(first);
+  });
+
+  it('keeps authored order when shuffling is off', () => {
+    const layout = buildAttemptLayout(questions, { shuffle_questions: false, shuffle_options: false }, 'seed');
+    expect(layout.question_order).toEqual(['q1', 'q2', 'q3', 'q4']);
+    expect(layout.option_order).toEqual({ q1: ['a', 'b', 'c'], q2: ['a', 'b', 'c'] });
+  });
+
+  it('shuffles questions and options as a permutation', () => {
+    const layout = buildAttemptLayout(questions, { shuffle_questions: true, shuffle_options: true }, 'seed');
+    expect([...layout.question_order].sort()).toEqual(['q1', 'q2', 'q3', 'q4']);
+    expect([...layout.option_order.q1].sort()).toEqual(['a', 'b', 'c']);
+    expect(layout.option_order.q3).toBeUndefined();
+  });
+});
+
+describe('attempt limits', () => {
+  it('allows a short grace period past the time limit', () => {
+    const attempt = { expires_at: '2026-03-10T12:00:00.000Z' };
+    expect(isAttemptExpired(attempt, new Date('2026-03-10T12:00:20.000Z'))).toBe(false);
+    expect(isAttemptExpired(attempt, new Date('2026-03-10T12:00:31.000Z'))).toBe(true);
+    expect(isAttemptExpired({ expires_at: null }, new Date('2030-01-01T00:00:00.000Z'))).toBe(false);
+  });
+
+  it('reports remaining attempts, null when unlimited', () => {
+    expect(attemptsRemaining(3, 1)).toBe(2);
+    expect(attemptsRemaining(2, 5)).toBe(0);
+    expect(attemptsRemaining(null, 9)).toBeNull();
+  });
+});
+
+describe('bestAttempt and moduleMastery', () => {
+  const attempt = (attempt_number: number, percent: number | null, submitted = true) => ({
+    attempt_number,
+    percent,
+    submitted_at: submitted ? '2026-03-10T12:00:00.000Z' : null,
+  });
+
+  it('picks the highest submitted attempt, earliest on a tie', () => {
+    expect(bestAttempt([attempt(1, 50), attempt(2, 80), attempt(3, 80)])?.attempt_number).toBe(2);
+    expect(bestAttempt([attempt(1, 50), attempt(2, null, false)])?.attempt_number).toBe(1);
+    expect(bestAttempt([attempt(1, null, false)])).toBeNull();
+  });
+
+  it('averages best scores with unattempted quizzes as zero', () => {
+    expect(moduleMastery([{ best_percent: 90 }, { best_percent: 70 }, { best_percent: null }])).toBe(53);
+    expect(moduleMastery([])).toBeNull();
+  });
+
+  it('reveals answers after passing or using every attempt', () => {
+    expect(canRevealAnswers({ show_answers: true }, { passed: true, attempts_remaining: 2 })).toBe(true);
+    expect(canRevealAnswers({ show_answers: true }, { passed: false, attempts_remaining: 0 })).toBe(true);
+    expect(canRevealAnswers({ show_answers: true }, { passed: false, attempts_remaining: null })).toBe(false);
+    expect(canRevealAnswers({ show_answers: false }, { passed: true, attempts_remaining: 0 })).toBe(false);
+  });
+});
+
+describe('validateQuizInput', () => {
+  const valid = (): QuizInput => toQuizInput({
+    title: 'Week 1 check',
+    settings: { max_attempts: 2, pass_percent: 80 },
+    questions: [
+      { type: 'single_choice', prompt: 'Pick one', options, correct_option_ids: ['a'] },
+      { type: 'numeric', prompt: 'How many?', numeric_answer: '4' },
+    ],
+  });
+
+  it('accepts a well-formed quiz and fills defaults', () => {
+    const input = valid();
+    expect(validateQuizInput(input)).toBeNull();
+    expect(input.settings.show_answers).toBe(true);
+    expect(input.questions[1]).toMatchObject({ numeric_answer: 4, numeric_tolerance: 0, points: 1 });
+  });
+
+  it('names the first problem found', () => {
+    expect(validateQuizInput({ ...valid(), title: ' ' })).toBe('Title is required');
+    expect(validateQuizInput({ ...valid(), questions: [] })).toBe('Add at least one question');
+
+    const badPass = valid();
+    badPass.settings.pass_percent = 120;
+    expect(validateQuizInput(badPass)).toBe('Pass mark must be between 0 and 100');
+
+    const twoCorrect = valid();
+    twoCorrect.questions[0].correct_option_ids = ['a', 'b'];
+    expect(validateQuizInput(twoCorrect)).toBe('Question 1: mark exactly one correct option');
+
+    const strayKey = valid();
+    strayKey.questions[0].correct_option_ids = ['z'];
+    expect(validateQuizInput(strayKey)).toBe('Question 1: correct answer is not one of the options');
+
+    const noAnswer = valid();
+    noAnswer.questions[1].numeric_answer = null;
+    expect(validateQuizInput(noAnswer)).toBe('Question 2: enter the numeric answer');
+  });
+});
+
+describe('questionsForAttempt and buildReview', () => {
+  const layout = { question_order: ['q2', 'q1'], option_order: { q1: ['c', 'a', 'b'], q2: ['b', 'c', 'a'] } };
+
+  it('follows the attempt order and leaves out the answer key', () => {
+    const shown = questionsForAttempt(questions, layout);
+    expect(shown.map(q => q.id)).toEqual(['q2', 'q1']);
+    expect(shown[1].options.map(o => o.id)).toEqual(['c', 'a', 'b']);
+    expect(shown[1]).not.toHaveProperty('correct_option_ids');
+    expect(shown[1]).not.toHaveProperty('explanation');
+  });
+
+  it('adds the answer key only when revealing', () => {
+    const attempt = {
+      ...layout,
+      answers: { q1: { option_ids: ['b'] } },
+      results: [scoreQuestion(single, { option_ids: ['b'] })],
+    };
+    const hidden = buildReview(questions, attempt, false);
+    expect(hidden[1]).toMatchObject({ answer: { option_ids: ['b'] }, result: { correct: true } });
+    expect(hidden[1].correct_option_ids).toBeUndefined();
+    expect(hidden[0].answer).toBeNull();
+
+    const revealed = buildReview(questions, attempt, true);
+    expect(revealed[1]).toMatchObject({ correct_option_ids: ['b'], explanation: 'Beta it is' });
+  });
+});
+
+describe('buildItemAnalysis', () => {
+  type AnalysisInput = Pick<QuizAttempt, 'user_id' | 'attempt_number' | 'question_order' | 'answers' | 'results' | 'percent' | 'passed'>;
+
+  const attempt = (userId: string, attemptNumber: number, q1Choice: string, q4Text: string): AnalysisInput => {
+    const answers = { q1: { option_ids: [q1Choice] }, q4: { text: q4Text } };
+    const scored = scoreAttempt([single, text], answers, 50);
+    return {
+      user_id: userId,
+      attempt_number: attemptNumber,
+      question_order: ['q1', 'q4'],
+      answers,
+      results: scored.results,
+      percent: scored.percent,
+      passed: scored.passed,
+    };
+  };
+
+  const attempts = [
+    attempt('u1', 1, 'b', 'NYC'),
+    attempt('u2', 1, 'b', 'Boston'),
+    attempt('u3', 1, 'a', 'Boston'),
+    attempt('u4', 1, 'c', 'Boston'),
+    attempt('u4', 2, 'b', 'NYC'),
+  ];
+
+  it('uses each student\'s first attempt only', () => {
+    const analysis = buildItemAnalysis('quiz-1', [single, text], attempts);
+    expect(analysis.students).toBe(4);
+    expect(analysis.mean_percent).toBe(37.5);
+    expect(analysis.pass_rate).toBe(0.5);
+  });
+
+  it('reports difficulty, discrimination and option spread', () => {
+    const [q1, q4] = buildItemAnalysis('quiz-1', [single, text], attempts).items;
+    expect(q1.difficulty).toBe(0.5);
+    expect(q1.discrimination).toBe(1);
+    expect(q1.option_counts).toEqual([
+      { option_id: 'a', text: 'Alpha', count: 1, is_correct: false },
+      { option_id: 'b', text: 'Beta', count: 2, is_correct: true },
+      { option_id: 'c', text: 'Gamma', count: 1, is_correct: false },
+    ]);
+    expect(q4.difficulty).toBe(0.25);
+    expect(q4.option_counts).toEqual([]);
+  });
+
+  it('leaves discrimination empty with too few responses', () => {
+    const [q1] = buildItemAnalysis('quiz-1', [single, text], attempts.slice(0, 3)).items;
+    expect(q1.discrimination).toBeNull();
+    expect(buildItemAnalysis('quiz-1', [single], []).items[0]).toMatchObject({ responses: 0, difficulty: null });
+  });
+});
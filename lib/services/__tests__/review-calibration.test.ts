@@ -0,0 +1,95 @@
+/**
+ * Tests for review calibration: score spread and per-criterion variance,
+ * the disagreement flag, mentor bias tendencies, and blind/visibility rules.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  computeAgreement,
+  isReviewBlind,
+  mentorCanReview,
+  summarizeReviewerBias,
+  type CalibrationReviewInput,
+} from '@/lib/services/review-calibration';
+
+function review(id: string, score: number | null, rubric: Record<string, number> = {}): CalibrationReviewInput {
+  return { reviewId: id, reviewerId: id, reviewerName: id, role: 'mentor', score, rubric };
+}
+
+const CRITERIA = [
+  { id: 'analysis', label: 'Analysis', max_score: 4 },
+  { id: 'writing', label: 'Writing', max_score: 10 },
+];
+
+describe('computeAgreement', () => {
+  it('measures spread against max score and flags beyond the threshold', () => {
+    const agreement = computeAgreement([review('a', 60), review('b', 80), review('c', 70)], [], 100, 15);
+
+    expect(agreement).toMatchObject({ reviewCount: 3, mean: 70, min: 60, max: 80, spread: 20, spreadPct: 20, flagged: true });
+    expect(agreement.stdDev).toBe(8.2);
+
+    expect(computeAgreement([review('a', 60), review('b', 80)], [], 200, 15)).toMatchObject({
+      spreadPct: 10,
+      flagged: false,
+    });
+  });
+
+  it('never flags a single scored review', () => {
+    const agreement = computeAgreement([review('a', 10), review('b', null)], [], 100, 0);
+    expect(agreement).toMatchObject({ reviewCount: 1, spread: 0, flagged: false });
+    expect(computeAgreement([], [], 100, 15)).toMatchObject({ reviewCount: 0, mean: null, flagged: false });
+  });
+
+  it('computes per-criterion variance on normalised scores', () => {
+    const agreement = computeAgreement(
+      [review('a', 50, { analysis: 4, writing: 5 }), review('b', 50, { analysis: 2, writing: 5 })],
+      CRITERIA,
+      100,
+      15,
+    );
+
+    expect(agreement.criteria).toEqual([
+      { criteriaId: 'analysis', label: 'Analysis', reviewCount: 2, variance: 625, spreadPct: 50 },
+      { criteriaId: 'writing', label: 'Writing', reviewCount: 2, variance: 0, spreadPct: 0 },
+    ]);
+  });
+});
+
+describe('summarizeReviewerBias', () => {
+  it('labels consistent deviations and orders by bias size', () => {
+    const report = summarizeReviewerBias([
+      { reviewerId: 'soft', reviewerName: 'Soft', deltaPct: 10 },
+      { reviewerId: 'soft', reviewerName: 'Soft', deltaPct: 6 },
+      { reviewerId: 'harsh', reviewerName: 'Harsh', deltaPct: -20 },
+      { reviewerId: 'harsh', reviewerName: 'Harsh', deltaPct: -10 },
+      { reviewerId: 'even', reviewerName: 'Even', deltaPct: 8 },
+      { reviewerId: 'even', reviewerName: 'Even', deltaPct: -8 },
+      { reviewerId: 'new', reviewerName: 'New', deltaPct: 30 },
+    ]);
+
+    expect(report.map((m) => [m.reviewerId, m.tendency])).toEqual([
+      ['new', 'insufficient_data'],
+      ['harsh', 'harsher'],
+      ['soft', 'softer'],
+      ['even', 'aligned'],
+    ]);
+    expect(report.find((m) => m.reviewerId === 'even')).toMatchObject({ meanDeltaPct: 0, meanAbsDeltaPct: 8 });
+  });
+});
+
+describe('calibration visibility', () => {
+  it('lets mentors review submitted work early only in calibration mode', () => {
+    expect(mentorCanReview('submitted', false)).toBe(false);
+    expect(mentorCanReview('submitted', true)).toBe(true);
+    expect(mentorCanReview('mentor_visible', false)).toBe(true);
+    expect(mentorCanReview('draft', true)).toBe(false);
+  });
+
+  it('stays blind until adjudicated or published', () => {
+    expect(isReviewBlind(true, { visibility: 'admin_reviewed', adjudicated_at: null })).toBe(true);
+    expect(isReviewBlind(true, { visibility: 'admin_reviewed', adjudicated_at: '2026-03-01T00:00:00Z' })).toBe(false);
+    expect(isReviewBlind(true, { visibility: 'subgroup_published', adjudicated_at: null })).toBe(false);
+    expect(isReviewBlind(false, { visibility: 'submitted', adjudicated_at: null })).toBe(false);
+  });
+});
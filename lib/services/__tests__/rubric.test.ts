@@ -0,0 +1,116 @@
+/**
+ * Tests for rubric grading: weighted score computation against the case
+ * study max score, level picks resolving to points, and template validation.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import { computeRubricScore, resolveRubricScores, validateRubricCriteria } from '@/lib/services/rubric';
+import type { RubricCriteria } from '@/types';
+
+const LEVELS = [
+  { label: 'Exceeds', description: null, points: 4 },
+  { label: 'Meets', description: null, points: 3 },
+  { label: 'Below', description: null, points: 1 },
+];
+
+function criterion(id: string, weight: number, levels = LEVELS): RubricCriteria {
+  return {
+    id,
+    case_study_id: 'cs',
+    label: id,
+    description: null,
+    weight,
+    levels,
+    max_score: Math.max(...levels.map((l) => l.points)),
+    order_index: 0,
+    created_at: '',
+  };
+}
+
+describe('computeRubricScore', () => {
+  it('weights each criterion by its share of points', () => {
+    const criteria = [criterion('analysis', 3), criterion('writing', 1)];
+
+    expect(computeRubricScore(criteria, { analysis: 4, writing: 4 }, 100)).toBe(100);
+    // (3 * 1 + 1 * 0.25) / 4 = 0.8125
+    expect(computeRubricScore(criteria, { analysis: 4, writing: 1 }, 100)).toBe(81);
+    expect(computeRubricScore(criteria, { analysis: 4, writing: 1 }, 20)).toBe(16);
+  });
+
+  it('never exceeds the max score', () => {
+    expect(computeRubricScore([criterion('a', 1)], { a: 9 }, 50)).toBe(50);
+    expect(computeRubricScore([], {}, 50)).toBe(0);
+  });
+});
+
+describe('resolveRubricScores', () => {
+  const criteria = [criterion('analysis', 2), criterion('writing', 1)];
+
+  it('takes points from the picked level and computes the total', () => {
+    const result = resolveRubricScores(
+      criteria,
+      [
+        { criteria_id: 'analysis', level_label: 'Meets', score: 99 },
+        { criteria_id: 'writing', level_label: 'Exceeds', comment: ' Clear ' },
+      ],
+      100,
+    );
+
+    expect(result).toMatchObject({
+      ok: true,
+      score: 83,
+      rows: [
+        { criteria_id: 'analysis', score: 3, level_label: 'Meets', comment: null },
+        { criteria_id: 'writing', score: 4, level_label: 'Exceeds', comment: 'Clear' },
+      ],
+    });
+  });
+
+  it('rejects unknown levels, out-of-range scores and missing criteria', () => {
+    const unknown = resolveRubricScores(criteria, [{ criteria_id: 'analysis', level_label: 'Stellar' }], 100);
+    expect(unknown.ok).toBe(false);
+
+    const tooHigh = resolveRubricScores(
+      criteria,
+      [{ criteria_id: 'analysis', score: 5 }, { criteria_id: 'writing', score: 1 }],
+      100,
+    );
+    expect(tooHigh).toMatchObject({ ok: false, error: { message: '"analysis" must be scored between 0 and 4' } });
+
+    const missing = resolveRubricScores(criteria, [{ criteria_id: 'analysis', level_label: 'Meets' }], 100);
+    expect(missing).toMatchObject({ ok: false, error: { stage: 'validation', message: expect.stringContaining('writing') } });
+  });
+});
+
+describe('validateRubricCriteria', () => {
+  it('trims input, defaults weight and orders levels by points', () => {
+    const result = validateRubricCriteria([
+      { label: ' Insight ', levels: [{ label: 'Below', points: 1 }, { label: 'Exceeds', points: 5, description: ' Deep ' }] },
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      criteria: [
+        {
+          label: 'Insight',
+          description: null,
+          weight: 1,
+          levels: [
+            { label: 'Exceeds', description: 'Deep', points: 5 },
+            { label: 'Below', description: null, points: 1 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('rejects empty rubrics, duplicate levels and zero-point criteria', () => {
+    expect(validateRubricCriteria([]).ok).toBe(false);
+    expect(
+      validateRubricCriteria([{ label: 'A', levels: [{ label: 'Meets', points: 2 }, { label: 'meets', points: 1 }] }]).ok,
+    ).toBe(false);
+    expect(validateRubricCriteria([{ label: 'A', levels: [{ label: 'None', points: 0 }] }]).ok).toBe(false);
+    expect(validateRubricCriteria([{ label: 'A', weight: 0, levels: LEVELS }]).ok).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Tests for the similarity check: tokenizing, link normalization, how
+ * shared passages are scored and excerpted, and which runs are ignored.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import {
+  boilerplate,
+  buildDoc,
+  compareDocs,
+  findSimilarPairs,
+  normalizeLink,
+  tokenize,
+} from '@/lib/services/similarity';
+import { textSourceFor } from '@/lib/services/text-extraction';
+
+const COPIED = 'The retailer should consolidate its regional warehouses to cut delivery times across the northern market';
+
+describe('tokenize', () => {
+  it('lower-cases words and keeps their offsets', () => {
+    const tokens = tokenize('Revenue grew, didn’t it?');
+    expect(tokens.map(t => t.word)).toEqual(['revenue', 'grew', "didn't", 'it']);
+    expect(tokens[1]).toMatchObject({ start: 8, end: 12 });
+  });
+});
+
+describe('normalizeLink', () => {
+  it('ignores scheme, www, trailing slashes, fragments and tracking parameters', () => {
+    expect(normalizeLink('https://www.Docs.google.com/document/d/abc/?utm_source=x#heading')).toBe('docs.google.com/document/d/abc');
+    expect(normalizeLink('http://example.com/a?id=2')).toBe('example.com/a?id=2');
+    expect(normalizeLink(' not a url ')).toBe('not a url');
+  });
+});
+
+describe('compareDocs', () => {
+  it('scores identical texts as 1 and unrelated texts as 0', () => {
+    expect(compareDocs(buildDoc('a', COPIED), buildDoc('b', COPIED)).score).toBe(1);
+    expect(compareDocs(buildDoc('a', COPIED), buildDoc('b', 'Pricing power depends on brand loyalty and switching costs')).score).toBe(0);
+  });
+
+  it('covers only the copied passage and excerpts it with context', () => {
+    const a = buildDoc('a', `Our own opening paragraph here. ${COPIED}. A conclusion we wrote.`);
+    const b = buildDoc('b', `${COPIED}.`);
+    const result = compareDocs(a, b);
+
+    const copiedWords = tokenize(COPIED).length;
+    expect(result.score).toBeCloseTo((copiedWords * 2) / (a.tokens.length + b.tokens.length), 4);
+    expect(result.passages).toHaveLength(1);
+    expect(result.passages[0].a).toEqual({
+      before: 'Our own opening paragraph here. ',
+      match: COPIED,
+      after: '. A conclusion we wrote.',
+    });
+    expect(result.passages[0].b.before).toBe('');
+  });
+
+  it('needs at least five identical words in a row', () => {
+    const result = compareDocs(buildDoc('a', 'cut delivery times across markets'), buildDoc('b', 'cut delivery times across the board'));
+    expect(result.score).toBe(0);
+  });
+
+  it('skips ignored runs and reports shared links', () => {
+    const a = buildDoc('a', COPIED, ['https://docs.google.com/d/1']);
+    const b = buildDoc('b', COPIED, ['docs.google.com/d/1/', 'https://example.com']);
+    const ignore = boilerplate([], COPIED);
+    const result = compareDocs(a, b, ignore);
+    expect(result.score).toBe(0);
+    expect(result.sharedLinks).toEqual(['docs.google.com/d/1']);
+  });
+});
+
+describe('boilerplate', () => {
+  it('treats runs in most submissions as common, but only with three or more', () => {
+    const prompt = 'Explain how the firm should respond to the new entrant';
+    const docs = ['x', 'y', 'z'].map(id => buildDoc(id, `${prompt} ${id === 'z' ? 'differently' : 'quickly'}`));
+    expect(boilerplate(docs).shingles.has('explain how the firm should')).toBe(true);
+    expect(boilerplate(docs.slice(0, 2)).shingles.size).toBe(0);
+  });
+});
+
+describe('findSimilarPairs', () => {
+  it('flags pairs over the threshold, including prior cohorts', () => {
+    const current = [
+      buildDoc('s1', COPIED),
+      buildDoc('s2', `${COPIED} and also reduce inventory`),
+      buildDoc('s3', 'An entirely original answer about loyalty programmes and pricing strategy for the region'),
+    ];
+    const prior = [buildDoc('p1', COPIED)];
+    const pairs = findSimilarPairs(current, prior, 0.5, { shingles: new Set(), links: new Set() });
+
+    expect(pairs.map(p => [p.submissionId, p.matchedSubmissionId, p.crossCohort])).toEqual([
+      ['s1', 'p1', true],
+      ['s1', 's2', false],
+      ['s2', 'p1', true],
+    ]);
+  });
+});
+
+describe('textSourceFor', () => {
+  it('picks an extractor by type or extension', () => {
+    expect(textSourceFor({ type: 'file', file_type: 'application/pdf', file_name: 'x' })).toBe('pdf');
+    expect(textSourceFor({ type: 'file', file_type: null, file_name: 'Report.DOCX' })).toBe('docx');
+    expect(textSourceFor({ type: 'file', file_type: 'image/png', file_name: 'chart.png' })).toBe('unsupported');
+    expect(textSourceFor({ type: 'link', file_type: null, file_name: null })).toBe('link');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for submission version diffs: added/removed attachments, replaced
+ * files (by hash, or by stored path when no hash was recorded) and relabelled links.
+ *
+ * Globals (`describe`, `it`, `expect`) provided by vitest.config.ts.
+ */
+
+import { diffAttachmentSets } from '@/lib/services/submission-versions';
+import type { AttachmentSnapshot } from '@/types';
+
+function file(id: string, name: string, opts: { hash?: string | null; size?: number; by?: string } = {}): AttachmentSnapshot {
+  return {
+    attachment_id: id,
+    type: 'file',
+    file_path: `cs/${id}/${name}`,
+    file_name: name,
+    file_size: opts.size ?? 1000,
+    file_type: 'application/pdf',
+    file_hash: opts.hash ?? null,
+    link_url: null,
+    link_label: null,
+    uploaded_by: opts.by ?? 'u1',
+  };
+}
+
+function link(id: string, url: string, label: string | null = null): AttachmentSnapshot {
+  return {
+    attachment_id: id,
+    type: 'link',
+    file_path: null,
+    file_name: null,
+    file_size: null,
+    file_type: null,
+    file_hash: null,
+    link_url: url,
+    link_label: label,
+    uploaded_by: 'u1',
+  };
+}
+
+describe('diffAttachmentSets', () => {
+  it('treats everything as added for the first version', () => {
+    const changes = diffAttachmentSets([], [file('a', 'deck.pdf'), link('b', 'https://x.test')]);
+    expect(changes.map((c) => [c.kind, c.label])).toEqual([
+      ['added', 'deck.pdf'],
+      ['added', 'https://x.test'],
+    ]);
+  });
+
+  it('reports nothing when the same attachment rows are kept', () => {
+    const set = [file('a', 'deck.pdf', { hash: 'h1' })];
+    expect(diffAttachmentSets(set, set)).toEqual([]);
+  });
+
+  it('reports added and removed attachments with who changed them', () => {
+    const changes = diffAttachmentSets(
+      [file('a', 'deck.pdf'), file('b', 'notes.pdf')],
+      [file('a', 'deck.pdf'), file('c', 'model.xlsx', { by: 'u2' })],
+    );
+    expect(changes).toHaveLength(2);
+    expect(changes[0]).toMatchObject({ kind: 'added', label: 'model.xlsx', changed_by: 'u2' });
+    expect(changes[1]).toMatchObject({ kind: 'removed', label: 'notes.pdf', changed_by: null });
+  });
+
+  it('marks a re-upload under the same name as changed when the hash differs', () => {
+    const changes = diffAttachmentSets(
+      [file('a', 'Deck.pdf', { hash: 'h1' })],
+      [file('b', 'deck.pdf', { hash: 'h2', by: 'u2' })],
+    );
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ kind: 'changed', changed_by: 'u2' });
+    expect(changes[0].before?.file_hash).toBe('h1');
+    expect(changes[0].after?.file_hash).toBe('h2');
+  });
+
+  it('ignores a re-upload with identical content', () => {
+    expect(diffAttachmentSets([file('a', 'deck.pdf', { hash: 'h1', size: 10 })], [file('b', 'deck.pdf', { hash: 'h1', size: 10 })])).toEqual([]);
+  });
+
+  it('treats a same-size re-upload as changed when either side has no hash', () => {
+    const changes = diffAttachmentSets([file('a', 'deck.pdf', { size: 10 })], [file('b', 'deck.pdf', { hash: 'h1', size: 10 })]);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ kind: 'changed', before: { file_path: 'cs/a/deck.pdf' }, after: { file_path: 'cs/b/deck.pdf' } });
+    expect(diffAttachmentSets([file('a', 'deck.pdf', { size: 10 })], [file('b', 'deck.pdf', { size: 12 })])[0].kind).toBe('changed');
+  });
+
+  it('marks a re-added link as changed only when its label differs', () => {
+    expect(diffAttachmentSets([link('a', 'https://x.test', 'Demo')], [link('b', 'https://x.test', 'Demo')])).toEqual([]);
+    const changes = diffAttachmentSets([link('a', 'https://x.test', 'Demo')], [link('b', 'https://x.test', 'Final demo')]);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ kind: 'changed', type: 'link', label: 'Final demo' });
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Annotations Service
+ * Inline reviewer markup on submitted PDFs (migration 049): highlights,
+ * page pins and page-level comments, keyed to the attachment and page.
+ *
+ * Positions are fractions of the page so they hold at any zoom. Students only
+ * see annotations once the submission is published to them, and never those
+ * of a mentor whose review the admin has overridden.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AnnotationKind, CaseStudyAnnotation } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const ANNOTATION_KINDS: AnnotationKind[] = ['highlight', 'pin', 'comment'];
+
+export const MAX_ANNOTATION_COMMENT = 2000;
+
+const PUBLISHED = ['subgroup_published', 'cohort_published'];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AnnotationInput {
+  page_number: number;
+  kind: AnnotationKind;
+  x?: number | null;
+  y?: number | null;
+  width?: number | null;
+  height?: number | null;
+  comment?: string | null;
+  color?: string | null;
+}
+
+/** The stored shape of an annotation's content, with unused fields nulled. */
+export type AnnotationFields = Pick<
+  CaseStudyAnnotation,
+  'page_number' | 'kind' | 'x' | 'y' | 'width' | 'height' | 'comment' | 'color'
+>;
+
+type AnnotationError = {
+  stage: 'validation' | 'not_found' | 'database';
+  message: string;
+};
+
+export type AnnotationResult<T> = ({ ok: true } & T) | { ok: false; error: AnnotationError };
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+function isFraction(n: unknown): n is number {
+  return typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= 1;
+}
+
+// Rounding from the browser can push an edge a hair past the page
+const EDGE_TOLERANCE = 0.001;
+
+/** Whether students can see a submission's annotations at this visibility. */
+export function annotationsPublished(visibility: string): boolean {
+  return PUBLISHED.includes(visibility);
+}
+
+/** Only uploaded PDFs can be annotated. */
+export function isPdfAttachment(attachment: { type: string; file_type: string | null; file_name: string | null }): boolean {
+  if (attachment.type !== 'file') return false;
+  return attachment.file_type === 'application/pdf' || !!attachment.file_name?.toLowerCase().endsWith('.pdf');
+}
+
+function validateComment(kind: AnnotationKind, comment: unknown): string | null {
+  if (comment !== undefined && comment !== null && typeof comment !== 'string') return 'comment must be a string';
+  const text = typeof comment === 'string' ? comment.trim() : '';
+  if (kind !== 'highlight' && !text) return `A ${kind} needs a comment`;
+  if (text.length > MAX_ANNOTATION_COMMENT) return `Comments are limited to ${MAX_ANNOTATION_COMMENT} characters`;
+  return null;
+}
+
+function validateColor(color: unknown): string | null {
+  if (color === undefined || color === null) return null;
+  if (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color)) return 'color must be a hex colour like #fde047';
+  return null;
+}
+
+/**
+ * Check an annotation before it is stored. Highlights need a rectangle inside
+ * the page, pins a point and a comment, page comments just the comment.
+ */
+export function validateAnnotation(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'Annotation is required';
+  const a = input as AnnotationInput;
+
+  if (!ANNOTATION_KINDS.includes(a.kind)) return `kind must be one of: ${ANNOTATION_KINDS.join(', ')}`;
+  if (!Number.isInteger(a.page_number) || a.page_number < 1) return 'page_number must be a positive whole number';
+
+  if (a.kind !== 'comment') {
+    if (!isFraction(a.x) || !isFraction(a.y)) return 'x and y must be fractions of the page between 0 and 1';
+  }
+  if (a.kind === 'highlight') {
+    if (!isFraction(a.width) || !isFraction(a.height) || a.width === 0 || a.height === 0) {
+      return 'A highlight needs a width and height between 0 and 1';
+    }
+    if (a.x! + a.width > 1 + EDGE_TOLERANCE || a.y! + a.height > 1 + EDGE_TOLERANCE) {
+      return 'A highlight must stay within the page';
+    }
+  }
+
+  return validateComment(a.kind, a.comment) ?? validateColor(a.color);
+}
+
+/** The fields to store for a validated annotation. */
+export function toAnnotationFields(input: AnnotationInput): AnnotationFields {
+  const positioned = input.kind !== 'comment';
+  const sized = input.kind === 'highlight';
+  return {
+    page_number: input.page_number,
+    kind: input.kind,
+    x: positioned ? input.x! : null,
+    y: positioned ? input.y! : null,
+    width: sized ? Math.min(input.width!, 1 - input.x!) : null,
+    height: sized ? Math.min(input.height!, 1 - input.y!) : null,
+    comment: input.comment?.trim() || null,
+    color: input.color ?? null,
+  };
+}
+
+/** Drop annotations by authors whose review students can't see. */
+export function visibleToStudents<T extends Pick<CaseStudyAnnotation, 'author_id' | 'author_role'>>(
+  annotations: T[],
+  overriddenMentorIds: string[],
+): T[] {
+  return annotations.filter(a => !(a.author_role === 'mentor' && a.author_id && overriddenMentorIds.includes(a.author_id)));
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+const ANNOTATION_SELECT =
+  '*, author:profiles!case_study_annotations_author_id_fkey(full_name), attachment:case_study_submission_attachments(file_name)';
+
+function mapAnnotation(row: Record<string, unknown>): CaseStudyAnnotation {
+  const { author, attachment, ...rest } = row;
+  const num = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+  return {
+    ...rest,
+    x: num(rest.x),
+    y: num(rest.y),
+    width: num(rest.width),
+    height: num(rest.height),
+    author_name: (author as { full_name: string | null } | null)?.full_name ?? null,
+    file_name: (attachment as { file_name: string | null } | null)?.file_name ?? null,
+  } as CaseStudyAnnotation;
+}
+
+/**
+ * A submission's annotations in page order. `authorId` limits them to one
+ * reviewer (blind calibration); `forStudents` applies the student rules.
+ */
+export async function listAnnotations(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  options: { attachmentId?: string | null; authorId?: string; forStudents?: boolean } = {},
+): Promise<AnnotationResult<{ annotations: CaseStudyAnnotation[] }>> {
+  let query = adminClient
+    .from('case_study_annotations')
+    .select(ANNOTATION_SELECT)
+    .eq('submission_id', submissionId);
+  if (options.attachmentId) query = query.eq('attachment_id', options.attachmentId);
+  if (options.authorId) query = query.eq('author_id', options.authorId);
+
+  const { data, error } = await query
+    .order('page_number', { ascending: true })
+    .order('created_at', { ascending: true });
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const annotations = (data || []).map(row => mapAnnotation(row as Record<string, unknown>));
+  if (!options.forStudents) return { ok: true, annotations };
+
+  const { data: overridden, error: reviewError } = await adminClient
+    .from('case_study_reviews')
+    .select('reviewer_id')
+    .eq('submission_id', submissionId)
+    .eq('reviewer_role', 'mentor')
+    .eq('overridden', true);
+  if (reviewError) return { ok: false, error: { stage: 'database', message: reviewError.message } };
+
+  return { ok: true, annotations: visibleToStudents(annotations, (overridden || []).map(r => r.reviewer_id)) };
+}
+
+/** Add an annotation to one of the submission's PDF attachments. */
+export async function createAnnotation(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  attachmentId: unknown,
+  input: unknown,
+  author: { userId: string; role: 'admin' | 'mentor' },
+): Promise<AnnotationResult<{ annotation: CaseStudyAnnotation }>> {
+  if (typeof attachmentId !== 'string') return { ok: false, error: { stage: 'validation', message: 'attachment_id is required' } };
+  const invalid = validateAnnotation(input);
+  if (invalid) return { ok: false, error: { stage: 'validation', message: invalid } };
+
+  const { data: attachment } = await adminClient
+    .from('case_study_submission_attachments')
+    .select('id, type, file_name, file_type')
+    .eq('id', attachmentId)
+    .eq('submission_id', submissionId)
+    .maybeSingle();
+  if (!attachment) return { ok: false, error: { stage: 'not_found', message: 'Attachment not found' } };
+  if (!isPdfAttachment(attachment)) {
+    return { ok: false, error: { stage: 'validation', message: 'Only PDF attachments can be annotated' } };
+  }
+
+  const { data, error } = await adminClient
+    .from('case_study_annotations')
+    .insert({
+      submission_id: submissionId,
+      attachment_id: attachmentId,
+      ...toAnnotationFields(input as AnnotationInput),
+      author_id: author.userId,
+      author_role: author.role,
+    })
+    .select(ANNOTATION_SELECT)
+    .single();
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  return { ok: true, annotation: mapAnnotation(data as Record<string, unknown>) };
+}
+
+/** Edit the comment or colour of the reviewer's own annotation. */
+export async function updateAnnotation(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  annotationId: string,
+  authorId: string,
+  patch: { comment?: unknown; color?: unknown },
+): Promise<AnnotationResult<{ annotation: CaseStudyAnnotation }>> {
+  const { data: existing } = await adminClient
+    .from('case_study_annotations')
+    .select('id, kind')
+    .eq('id', annotationId)
+    .eq('submission_id', submissionId)
+    .eq('author_id', authorId)
+    .maybeSingle();
+  if (!existing) return { ok: false, error: { stage: 'not_found', message: 'Annotation not found' } };
+
+  const updates: Record<string, unknown> = {};
+  if (patch.comment !== undefined) {
+    const invalid = validateComment(existing.kind, patch.comment);
+    if (invalid) return { ok: false, error: { stage: 'validation', message: invalid } };
+    updates.comment = typeof patch.comment === 'string' ? patch.comment.trim() || null : null;
+  }
+  if (patch.color !== undefined) {
+    const invalid = validateColor(patch.color);
+    if (invalid) return { ok: false, error: { stage: 'validation', message: invalid } };
+    updates.color = patch.color;
+  }
+  if (Object.keys(updates).length === 0) {
+    return { ok: false, error: { stage: 'validation', message: 'No valid fields to update' } };
+  }
+
+  const { data, error } = await adminClient
+    .from('case_study_annotations')
+    .update(updates)
+    .eq('id', annotationId)
+    .select(ANNOTATION_SELECT)
+    .single();
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  return { ok: true, annotation: mapAnnotation(data as Record<string, unknown>) };
+}
+
+/**
+ * Delete an annotation. Mentors pass their own id as `authorId`; admins pass
+ * null and may remove anyone's.
+ */
+export async function deleteAnnotation(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  annotationId: string,
+  authorId: string | null,
+): Promise<AnnotationResult<{ deleted: true }>> {
+  let query = adminClient
+    .from('case_study_annotations')
+    .delete()
+    .eq('id', annotationId)
+    .eq('submission_id', submissionId);
+  if (authorId) query = query.eq('author_id', authorId);
+
+  const { data, error } = await query.select('id');
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  if (!data || data.length === 0) return { ok: false, error: { stage: 'not_found', message: 'Annotation not found' } };
+
+  return { ok: true, deleted: true };
+}
@@ -0,0 +1,384 @@
+/**
+ * Assignments Service
+ * Weekly individual homework (migration 052): each student hands in one file
+ * or link per assignment, and their mentor or an admin grades it.
+ *
+ * Deadline math is shared with case studies (case-study-deadline.ts): the
+ * due date plus grace period closes submissions, and anything after the due
+ * date itself is late. There are no per-subgroup or per-student overrides.
+ * A student can replace their submission until it closes or is graded.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Assignment,
+  AssignmentRosterRow,
+  AssignmentStudentStatus,
+  AssignmentSubmission,
+  StudentAssignment,
+} from '@/types';
+import { getEffectiveDeadlineWithGrace, isLate, minutesLate } from '@/lib/services/case-study-deadline';
+import { loadCohortStudents } from '@/lib/services/grade-book';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const ASSIGNMENT_FILE_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+export const MAX_ASSIGNMENT_FILE_SIZE = 100 * 1024 * 1024; // 100MB
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AssignmentDeadlineInput = Pick<Assignment, 'due_date' | 'grace_period_minutes' | 'is_archived' | 'submissions_closed'>;
+
+export interface AssignmentSubmitInput {
+  assignmentId: string;
+  userId: string;
+  file?: { path: string; name: string; size: number; type: string } | null;
+  link?: string | null;
+}
+
+type AssignmentError = {
+  stage: 'validation' | 'forbidden' | 'not_found' | 'database';
+  message: string;
+};
+
+export type AssignmentResult<T> = ({ ok: true } & T) | { ok: false; error: AssignmentError };
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+/** Whether a student can hand in (or replace) their submission right now. */
+export function canSubmitAssignment(
+  assignment: AssignmentDeadlineInput,
+  submission: Pick<AssignmentSubmission, 'status'> | null,
+  now: Date = new Date(),
+): boolean {
+  if (assignment.is_archived || assignment.submissions_closed) return false;
+  if (submission?.status === 'graded') return false;
+  const closesAt = getEffectiveDeadlineWithGrace(null, assignment);
+  return !closesAt || now <= closesAt;
+}
+
+export function assignmentStudentStatus(
+  assignment: AssignmentDeadlineInput,
+  submission: Pick<AssignmentSubmission, 'status'> | null,
+  now: Date = new Date(),
+): AssignmentStudentStatus {
+  if (submission?.status === 'graded') return 'graded';
+  if (submission?.status === 'submitted') return 'submitted';
+  return canSubmitAssignment(assignment, submission, now) ? 'not_submitted' : 'missing';
+}
+
+/** Storage path for a student's upload; submissions only accept paths under it. */
+export function assignmentFileFolder(cohortId: string, userId: string): string {
+  return `assignments/${cohortId}/${userId}/`;
+}
+
+export function assignmentFilePath(cohortId: string, userId: string, filename: string, stamp = Date.now()): string {
+  return `${assignmentFileFolder(cohortId, userId)}${stamp}_${filename.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+}
+
+/** A submitted path must stay inside the student's folder; `..` would let the signed URL escape it. */
+export function isAssignmentFilePath(path: string, cohortId: string, userId: string): boolean {
+  return path.startsWith(assignmentFileFolder(cohortId, userId)) && !path.includes('..');
+}
+
+export function isValidSubmissionLink(value: string): boolean {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/** Null when the grade is usable, otherwise what is wrong with it. */
+export function validateGrade(grade: unknown, maxScore: number): string | null {
+  if (typeof grade !== 'number' || !Number.isFinite(grade)) return 'grade must be a number';
+  if (grade < 0 || grade > maxScore) return `grade must be between 0 and ${maxScore}`;
+  if (Math.round(grade * 100) !== grade * 100) return 'grade can have at most two decimal places';
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+/** Student membership in a cohort, including the legacy profiles.cohort_id. */
+export async function isCohortMember(adminClient: SupabaseClient, userId: string, cohortId: string): Promise<boolean> {
+  const { data: roleAssignment } = await adminClient
+    .from('user_role_assignments')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('cohort_id', cohortId)
+    .limit(1)
+    .maybeSingle();
+  if (roleAssignment) return true;
+
+  const { data: profile } = await adminClient.from('profiles').select('cohort_id').eq('id', userId).maybeSingle();
+  return profile?.cohort_id === cohortId;
+}
+
+/** Students in the subgroups a mentor is assigned to in one cohort. */
+export async function getMentorStudentIds(
+  adminClient: SupabaseClient,
+  mentorId: string,
+  cohortId: string,
+): Promise<Set<string>> {
+  const { data: mentorSubgroups } = await adminClient
+    .from('subgroup_mentors')
+    .select('subgroup_id, subgroup:subgroups!inner(cohort_id)')
+    .eq('user_id', mentorId)
+    .eq('subgroup.cohort_id', cohortId);
+
+  const subgroupIds = (mentorSubgroups || []).map(row => row.subgroup_id as string);
+  if (subgroupIds.length === 0) return new Set();
+
+  const { data: members } = await adminClient.from('subgroup_members').select('user_id').in('subgroup_id', subgroupIds);
+  return new Set((members || []).map((m: { user_id: string }) => m.user_id));
+}
+
+/** A cohort's live assignments with the student's own submission and status. */
+export async function listStudentAssignments(
+  adminClient: SupabaseClient,
+  cohortId: string,
+  userId: string,
+  now: Date = new Date(),
+): Promise<AssignmentResult<{ assignments: StudentAssignment[] }>> {
+  const { data: assignments, error } = await adminClient
+    .from('assignments')
+    .select('*')
+    .eq('cohort_id', cohortId)
+    .eq('is_archived', false)
+    .order('week_number')
+    .order('order_index');
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const ids = (assignments || []).map(a => a.id as string);
+  const { data: submissions, error: subError } = ids.length
+    ? await adminClient
+        .from('assignment_submissions')
+        .select('*, grader:profiles!assignment_submissions_graded_by_fkey(full_name)')
+        .in('assignment_id', ids)
+        .eq('user_id', userId)
+    : { data: [], error: null };
+  if (subError) return { ok: false, error: { stage: 'database', message: subError.message } };
+
+  const byAssignment = new Map<string, AssignmentSubmission>();
+  for (const s of submissions || []) {
+    const { grader, ...rest } = s as AssignmentSubmission & { grader?: { full_name: string | null } | null };
+    byAssignment.set(rest.assignment_id, { ...rest, graded_by_name: grader?.full_name ?? null });
+  }
+
+  return {
+    ok: true,
+    assignments: ((assignments || []) as Assignment[]).map(a => {
+      const submission = byAssignment.get(a.id) ?? null;
+      return {
+        ...a,
+        submission,
+        student_status: assignmentStudentStatus(a, submission, now),
+        can_submit: canSubmitAssignment(a, submission, now),
+      };
+    }),
+  };
+}
+
+/**
+ * Every student in the assignment's cohort (or only `studentIds`, for a
+ * mentor) with their submission, for grading.
+ */
+export async function loadAssignmentRoster(
+  adminClient: SupabaseClient,
+  assignment: Assignment,
+  studentIds: Set<string> | null = null,
+  now: Date = new Date(),
+): Promise<AssignmentResult<{ roster: AssignmentRosterRow[] }>> {
+  try {
+    const [students, { data: submissions, error: subError }, { data: memberships, error: memberError }] = await Promise.all([
+      loadCohortStudents(adminClient, assignment.cohort_id),
+      adminClient
+        .from('assignment_submissions')
+        .select('*, grader:profiles!assignment_submissions_graded_by_fkey(full_name)')
+        .eq('assignment_id', assignment.id)
+        .not('user_id', 'is', null),
+      adminClient
+        .from('subgroup_members')
+        .select('user_id, subgroup:subgroups!inner(name, cohort_id)')
+        .eq('subgroup.cohort_id', assignment.cohort_id),
+    ]);
+    if (subError) throw subError;
+    if (memberError) throw memberError;
+
+    const subgroupByUser = new Map<string, string>();
+    for (const m of memberships || []) {
+      const subgroup = m.subgroup as unknown as { name: string } | null;
+      if (subgroup) subgroupByUser.set(m.user_id as string, subgroup.name);
+    }
+
+    const submissionByUser = new Map<string, AssignmentSubmission>();
+    for (const s of submissions || []) {
+      const { grader, ...rest } = s as AssignmentSubmission & { grader?: { full_name: string | null } | null };
+      submissionByUser.set(rest.user_id!, { ...rest, graded_by_name: grader?.full_name ?? null });
+    }
+
+    const roster = students
+      .filter(st => !studentIds || studentIds.has(st.id))
+      .map(st => {
+        const submission = submissionByUser.get(st.id) ?? null;
+        return {
+          user_id: st.id,
+          full_name: st.full_name,
+          email: st.email,
+          subgroup_name: subgroupByUser.get(st.id) ?? null,
+          submission,
+          student_status: assignmentStudentStatus(assignment, submission, now),
+        };
+      })
+      .sort((a, b) => (a.full_name || a.email).localeCompare(b.full_name || b.email));
+
+    return { ok: true, roster };
+  } catch (error) {
+    return { ok: false, error: { stage: 'database', message: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+/**
+ * Hand in (or replace) a student's submission: exactly one of a file already
+ * uploaded to the student's folder, or a link. A replaced file is removed
+ * from storage.
+ */
+export async function submitAssignment(
+  adminClient: SupabaseClient,
+  input: AssignmentSubmitInput,
+  now: Date = new Date(),
+): Promise<AssignmentResult<{ submission: AssignmentSubmission }>> {
+  const link = input.link?.trim() || null;
+  if (!!input.file === !!link) {
+    return { ok: false, error: { stage: 'validation', message: 'Submit either a file or a link' } };
+  }
+  if (link && !isValidSubmissionLink(link)) {
+    return { ok: false, error: { stage: 'validation', message: 'Link must be an http(s) URL' } };
+  }
+
+  const { data: assignment, error: aError } = await adminClient
+    .from('assignments')
+    .select('*')
+    .eq('id', input.assignmentId)
+    .maybeSingle();
+  if (aError) return { ok: false, error: { stage: 'database', message: aError.message } };
+  if (!assignment) return { ok: false, error: { stage: 'not_found', message: 'Assignment not found' } };
+
+  if (!(await isCohortMember(adminClient, input.userId, assignment.cohort_id))) {
+    return { ok: false, error: { stage: 'forbidden', message: 'Access denied' } };
+  }
+
+  if (input.file) {
+    if (!isAssignmentFilePath(input.file.path, assignment.cohort_id, input.userId)) {
+      return { ok: false, error: { stage: 'validation', message: 'Invalid file path' } };
+    }
+    if (!ASSIGNMENT_FILE_TYPES.includes(input.file.type)) {
+      return { ok: false, error: { stage: 'validation', message: 'Invalid file type' } };
+    }
+  }
+
+  const { data: existing, error: existingError } = await adminClient
+    .from('assignment_submissions')
+    .select('id, status, file_path')
+    .eq('assignment_id', assignment.id)
+    .eq('user_id', input.userId)
+    .maybeSingle();
+  if (existingError) return { ok: false, error: { stage: 'database', message: existingError.message } };
+
+  if (!canSubmitAssignment(assignment, existing, now)) {
+    const message = existing?.status === 'graded'
+      ? 'This submission has already been graded'
+      : 'Submissions are closed or the deadline has passed';
+    return { ok: false, error: { stage: 'forbidden', message } };
+  }
+
+  const { data: submission, error: upsertError } = await adminClient
+    .from('assignment_submissions')
+    .upsert(
+      {
+        assignment_id: assignment.id,
+        user_id: input.userId,
+        file_path: input.file?.path ?? null,
+        file_name: input.file?.name ?? null,
+        file_size: input.file?.size ?? null,
+        file_type: input.file?.type ?? null,
+        file_url: null,
+        google_drive_url: link,
+        submitted_at: now.toISOString(),
+        is_late: isLate(null, assignment, now),
+        late_minutes: minutesLate(null, assignment, now),
+        status: 'submitted',
+        updated_at: now.toISOString(),
+      },
+      { onConflict: 'assignment_id,user_id' },
+    )
+    .select()
+    .single();
+  if (upsertError) return { ok: false, error: { stage: 'database', message: upsertError.message } };
+
+  if (existing?.file_path && existing.file_path !== input.file?.path) {
+    const { error: removeError } = await adminClient.storage.from('resources').remove([existing.file_path]);
+    if (removeError) console.error('Error removing replaced assignment file:', removeError);
+  }
+
+  return { ok: true, submission: submission as AssignmentSubmission };
+}
+
+/** Grade a submission, or change its grade; the caller has checked who may grade. */
+export async function gradeAssignmentSubmission(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  input: { grade: unknown; feedback?: string | null },
+  graderId: string,
+  now: Date = new Date(),
+): Promise<AssignmentResult<{ submission: AssignmentSubmission }>> {
+  const { data: existing, error } = await adminClient
+    .from('assignment_submissions')
+    .select('id, status, assignment:assignments(max_score)')
+    .eq('id', submissionId)
+    .maybeSingle();
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  if (!existing) return { ok: false, error: { stage: 'not_found', message: 'Submission not found' } };
+  if (existing.status === 'draft') {
+    return { ok: false, error: { stage: 'validation', message: 'Nothing has been submitted yet' } };
+  }
+
+  const assignment = existing.assignment as unknown as { max_score: number } | null;
+  const gradeError = validateGrade(input.grade, Number(assignment?.max_score ?? 100));
+  if (gradeError) return { ok: false, error: { stage: 'validation', message: gradeError } };
+
+  const { data: submission, error: updateError } = await adminClient
+    .from('assignment_submissions')
+    .update({
+      grade: input.grade,
+      feedback: input.feedback?.trim() || null,
+      graded_by: graderId,
+      graded_at: now.toISOString(),
+      status: 'graded',
+      updated_at: now.toISOString(),
+    })
+    .eq('id', submissionId)
+    .select()
+    .single();
+  if (updateError) return { ok: false, error: { stage: 'database', message: updateError.message } };
+
+  return { ok: true, submission: submission as AssignmentSubmission };
+}
@@ -0,0 +1,607 @@
+/**
+ * At-Risk Early Warning Service
+ * Flags students who cross per-cohort risk thresholds (migration 041) and
+ * queues a digest of newly flagged students to their subgroup mentors.
+ *
+ * Attendance signals reuse the policy evaluator's outcomes, so excused
+ * sessions neither break nor extend an absence streak. Run on a schedule by
+ * /api/cron/evaluate-at-risk; admins can also trigger a run per cohort.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AtRiskFlag, AtRiskReason, AtRiskThresholds } from '@/types';
+import { evaluateCohortEligibility, type StudentEligibility } from '@/lib/services/attendance-policy';
+import { getEffectiveDeadlineWithGrace } from '@/lib/services/case-study-deadline';
+import { enqueueEmailNotification, escapeHtml } from '@/lib/services/notification-queue';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A null threshold disables that signal. */
+export interface AtRiskRules {
+  enabled: boolean;
+  consecutiveAbsences: number | null;
+  attendanceWindowSessions: number;
+  minAttendancePercentage: number | null;
+  inactiveDays: number | null;
+  minVideoCompletion: number | null;
+  missedCaseStudies: number | null;
+}
+
+export interface StudentRiskInput {
+  /** Counted session ids, oldest first */
+  sessionIds: string[];
+  eligibility: Pick<StudentEligibility, 'outcomes' | 'percentages'>;
+  /** Latest login inside the inactivity window, if any */
+  lastLoginAt: string | null;
+  accountCreatedAt: string | null;
+  /** Percentage of the cohort's videos completed; null when there are none */
+  videoCompletion: number | null;
+  /** Past-due case studies the student's subgroup never submitted */
+  missedCaseStudies: number;
+}
+
+export type CohortRiskResult = {
+  cohortId: string;
+  evaluated: number;
+  flagged: number;
+  created: number;
+  resolved: number;
+};
+
+export type AtRiskRunResult = {
+  cohorts: CohortRiskResult[];
+  digestsQueued: number;
+  flagsNotified: number;
+};
+
+type Mentor = { id: string; email: string; full_name: string | null };
+type StudentProfile = { id: string; full_name: string | null; email: string; created_at: string | null };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_AT_RISK_RULES: AtRiskRules = {
+  enabled: true,
+  consecutiveAbsences: 2,
+  attendanceWindowSessions: 3,
+  minAttendancePercentage: 50,
+  inactiveDays: 7,
+  minVideoCompletion: null,
+  missedCaseStudies: 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Pure evaluation
+// ---------------------------------------------------------------------------
+
+export function rowToRiskRules(row: AtRiskThresholds): AtRiskRules {
+  const num = (v: number | null) => (v == null ? null : Number(v));
+  return {
+    enabled: row.enabled,
+    consecutiveAbsences: row.consecutive_absences,
+    attendanceWindowSessions: row.attendance_window_sessions,
+    minAttendancePercentage: num(row.min_attendance_percentage),
+    inactiveDays: row.inactive_days,
+    minVideoCompletion: num(row.min_video_completion),
+    missedCaseStudies: row.missed_case_studies,
+  };
+}
+
+export function evaluateStudentRisk(
+  rules: AtRiskRules,
+  input: StudentRiskInput,
+  now: Date = new Date(),
+): AtRiskReason[] {
+  const reasons: AtRiskReason[] = [];
+  const { outcomes, percentages } = input.eligibility;
+
+  // Most recent first, excused sessions dropped
+  const counted = input.sessionIds
+    .filter((id) => outcomes[id] && outcomes[id] !== 'excused')
+    .reverse();
+
+  if (rules.consecutiveAbsences != null) {
+    let streak = 0;
+    for (const id of counted) {
+      if (outcomes[id] !== 'absent') break;
+      streak++;
+    }
+    if (streak >= rules.consecutiveAbsences) {
+      reasons.push({
+        code: 'consecutive_absences',
+        value: streak,
+        threshold: rules.consecutiveAbsences,
+        message: `Missed the last ${streak} sessions`,
+      });
+    }
+  }
+
+  if (rules.minAttendancePercentage != null) {
+    const window = counted.slice(0, rules.attendanceWindowSessions);
+    // Only judge the trend once the window is full
+    if (window.length === rules.attendanceWindowSessions) {
+      const mean = window.reduce((sum, id) => sum + (percentages[id] || 0), 0) / window.length;
+      const rounded = Math.round(mean * 10) / 10;
+      if (mean < rules.minAttendancePercentage) {
+        reasons.push({
+          code: 'low_attendance_trend',
+          value: rounded,
+          threshold: rules.minAttendancePercentage,
+          message: `Averaged ${rounded}% attendance over the last ${window.length} sessions`,
+        });
+      }
+    }
+  }
+
+  if (rules.inactiveDays != null) {
+    const reference = input.lastLoginAt ?? input.accountCreatedAt;
+    if (reference) {
+      const days = Math.floor((now.getTime() - new Date(reference).getTime()) / DAY_MS);
+      if (days >= rules.inactiveDays) {
+        reasons.push({
+          code: 'inactive',
+          value: input.lastLoginAt ? days : null,
+          threshold: rules.inactiveDays,
+          message: input.lastLoginAt
+            ? `No login in ${days} days`
+            : `No login in the last ${rules.inactiveDays} days`,
+        });
+      }
+    }
+  }
+
+  if (rules.minVideoCompletion != null && input.videoCompletion != null) {
+    if (input.videoCompletion < rules.minVideoCompletion) {
+      reasons.push({
+        code: 'low_video_completion',
+        value: input.videoCompletion,
+        threshold: rules.minVideoCompletion,
+        message: `Completed ${input.videoCompletion}% of videos`,
+      });
+    }
+  }
+
+  if (rules.missedCaseStudies != null && input.missedCaseStudies >= rules.missedCaseStudies) {
+    reasons.push({
+      code: 'missed_case_studies',
+      value: input.missedCaseStudies,
+      threshold: rules.missedCaseStudies,
+      message: `${input.missedCaseStudies} case stud${input.missedCaseStudies === 1 ? 'y' : 'ies'} not submitted`,
+    });
+  }
+
+  return reasons;
+}
+
+// ---------------------------------------------------------------------------
+// Loaders
+// ---------------------------------------------------------------------------
+
+export async function loadRiskThresholds(
+  adminClient: SupabaseClient,
+  cohortId: string,
+): Promise<{ rules: AtRiskRules; thresholds: AtRiskThresholds | null }> {
+  const { data } = await adminClient
+    .from('at_risk_thresholds')
+    .select('*')
+    .eq('cohort_id', cohortId)
+    .maybeSingle();
+
+  const thresholds = (data as AtRiskThresholds | null) ?? null;
+  return { rules: thresholds ? rowToRiskRules(thresholds) : DEFAULT_AT_RISK_RULES, thresholds };
+}
+
+/** Students of a cohort — role assignments plus legacy profiles.cohort_id. */
+async function loadCohortStudents(adminClient: SupabaseClient, cohortId: string): Promise<StudentProfile[]> {
+  const [{ data: assignments }, { data: legacy }] = await Promise.all([
+    adminClient.from('user_role_assignments').select('user_id').eq('role', 'student').eq('cohort_id', cohortId),
+    adminClient.from('profiles').select('id').eq('role', 'student').eq('cohort_id', cohortId),
+  ]);
+
+  const ids = [
+    ...new Set([
+      ...(assignments || []).map((a: { user_id: string }) => a.user_id),
+      ...(legacy || []).map((p: { id: string }) => p.id),
+    ]),
+  ];
+  if (ids.length === 0) return [];
+
+  const { data: profiles, error } = await adminClient
+    .from('profiles')
+    .select('id, full_name, email, created_at')
+    .in('id', ids);
+  if (error) throw error;
+
+  return (profiles || []) as StudentProfile[];
+}
+
+/** Latest login since `since` per user, aggregated in the database (migration 055) so no rows are cut off. */
+async function loadRecentLogins(
+  adminClient: SupabaseClient,
+  userIds: string[],
+  since: Date,
+): Promise<Map<string, string>> {
+  const { data, error } = await adminClient.rpc('latest_logins', {
+    p_user_ids: userIds,
+    p_since: since.toISOString(),
+  });
+  if (error) throw error;
+
+  return new Map(
+    ((data || []) as Array<{ user_id: string; last_login_at: string }>).map((row) => [row.user_id, row.last_login_at]),
+  );
+}
+
+/** Video completion percentage per user; null when the cohort has no videos. */
+async function loadVideoCompletion(
+  adminClient: SupabaseClient,
+  cohortId: string,
+  userIds: string[],
+): Promise<Map<string, number> | null> {
+  const { data: modules } = await adminClient
+    .from('learning_modules')
+    .select('id')
+    .eq('cohort_id', cohortId);
+
+  const moduleIds = (modules || []).map((m: { id: string }) => m.id);
+  if (moduleIds.length === 0) return null;
+
+  const { data: videos } = await adminClient
+    .from('module_resources')
+    .select('id')
+    .in('module_id', moduleIds)
+    .eq('content_type', 'video');
+
+  const videoIds = (videos || []).map((v: { id: string }) => v.id);
+  if (videoIds.length === 0) return null;
+
+  const { data: progress, error } = await adminClient
+    .from('video_progress')
+    .select('user_id')
+    .in('user_id', userIds)
+    .in('resource_id', videoIds)
+    .eq('completed', true);
+  if (error) throw error;
+
+  const completed = new Map<string, number>();
+  for (const row of (progress || []) as Array<{ user_id: string }>) {
+    completed.set(row.user_id, (completed.get(row.user_id) || 0) + 1);
+  }
+
+  const completion = new Map<string, number>();
+  for (const userId of userIds) {
+    completion.set(userId, Math.round(((completed.get(userId) || 0) / videoIds.length) * 100));
+  }
+  return completion;
+}
+
+/** Past-due case studies each student's subgroup hasn't submitted. */
+async function loadMissedCaseStudies(
+  adminClient: SupabaseClient,
+  cohortId: string,
+  userIds: string[],
+  now: Date,
+): Promise<Map<string, number>> {
+  const missed = new Map<string, number>();
+
+  const [{ data: caseStudies }, { data: subgroups }] = await Promise.all([
+    adminClient
+      .from('case_studies')
+      .select('id, due_date, grace_period_minutes')
+      .eq('cohort_id', cohortId)
+      .eq('is_archived', false),
+    adminClient.from('subgroups').select('id').eq('cohort_id', cohortId),
+  ]);
+
+  const subgroupIds = (subgroups || []).map((s: { id: string }) => s.id);
+  if (!caseStudies?.length || subgroupIds.length === 0) return missed;
+
+  const [{ data: members }, { data: submissions }] = await Promise.all([
+    adminClient
+      .from('subgroup_members')
+      .select('subgroup_id, user_id')
+      .in('subgroup_id', subgroupIds)
+      .in('user_id', userIds),
+    adminClient
+      .from('case_study_submissions')
+      .select('case_study_id, subgroup_id, submitted_at, deadline_override, visibility')
+      .in('subgroup_id', subgroupIds)
+      .in('case_study_id', caseStudies.map((c: { id: string }) => c.id)),
+  ]);
+
+  const submissionByKey = new Map<
+    string,
+    { submitted_at: string | null; deadline_override: string | null; visibility: string }
+  >();
+  for (const s of submissions || []) {
+    submissionByKey.set(`${s.case_study_id}:${s.subgroup_id}`, s);
+  }
+
+  // Missed count per subgroup, then fanned out to members
+  const missedBySubgroup = new Map<string, number>();
+  for (const subgroupId of subgroupIds) {
+    let count = 0;
+    for (const cs of caseStudies as Array<{ id: string; due_date: string | null; grace_period_minutes: number }>) {
+      const submission = submissionByKey.get(`${cs.id}:${subgroupId}`) ?? null;
+      const deadline = getEffectiveDeadlineWithGrace(submission, cs);
+      if (!deadline || deadline > now) continue;
+      if (!submission?.submitted_at || submission.visibility === 'draft') count++;
+    }
+    missedBySubgroup.set(subgroupId, count);
+  }
+
+  for (const m of (members || []) as Array<{ subgroup_id: string; user_id: string }>) {
+    const count = missedBySubgroup.get(m.subgroup_id) || 0;
+    missed.set(m.user_id, Math.max(missed.get(m.user_id) || 0, count));
+  }
+  return missed;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation + flag sync
+// ---------------------------------------------------------------------------
+
+/**
+ * Evaluate every student in a cohort and sync at_risk_flags: new risks open a
+ * flag, existing active flags get fresh reasons, cleared students are resolved.
+ */
+export async function evaluateCohortRisk(
+  adminClient: SupabaseClient,
+  cohortId: string,
+  now: Date = new Date(),
+): Promise<CohortRiskResult> {
+  const result: CohortRiskResult = { cohortId, evaluated: 0, flagged: 0, created: 0, resolved: 0 };
+
+  const { rules } = await loadRiskThresholds(adminClient, cohortId);
+  const students = rules.enabled ? await loadCohortStudents(adminClient, cohortId) : [];
+  const userIds = students.map((s) => s.id);
+
+  const atRisk = new Map<string, AtRiskReason[]>();
+  if (userIds.length > 0) {
+    const inactivitySince = new Date(now.getTime() - (rules.inactiveDays ?? 0) * DAY_MS);
+    const [{ sessions, eligibility }, logins, videoCompletion, missedCaseStudies] = await Promise.all([
+      evaluateCohortEligibility(adminClient, cohortId, userIds),
+      rules.inactiveDays != null
+        ? loadRecentLogins(adminClient, userIds, inactivitySince)
+        : Promise.resolve(new Map<string, string>()),
+      rules.minVideoCompletion != null ? loadVideoCompletion(adminClient, cohortId, userIds) : Promise.resolve(null),
+      rules.missedCaseStudies != null
+        ? loadMissedCaseStudies(adminClient, cohortId, userIds, now)
+        : Promise.resolve(new Map<string, number>()),
+    ]);
+
+    const sessionIds = sessions.map((s) => s.id);
+    for (const student of students) {
+      const reasons = evaluateStudentRisk(
+        rules,
+        {
+          sessionIds,
+          eligibility: eligibility.get(student.id) ?? { outcomes: {}, percentages: {} },
+          lastLoginAt: logins.get(student.id) ?? null,
+          accountCreatedAt: student.created_at,
+          videoCompletion: videoCompletion ? (videoCompletion.get(student.id) ?? 0) : null,
+          missedCaseStudies: missedCaseStudies.get(student.id) || 0,
+        },
+        now,
+      );
+      if (reasons.length > 0) atRisk.set(student.id, reasons);
+    }
+    result.evaluated = students.length;
+    result.flagged = atRisk.size;
+  }
+
+  const { data: activeFlags, error: flagsError } = await adminClient
+    .from('at_risk_flags')
+    .select('id, user_id')
+    .eq('cohort_id', cohortId)
+    .in('status', ['open', 'acknowledged']);
+  if (flagsError) throw flagsError;
+
+  const timestamp = now.toISOString();
+  const flagByUser = new Map((activeFlags || []).map((f: { id: string; user_id: string }) => [f.user_id, f.id]));
+
+  for (const [userId, reasons] of atRisk) {
+    const flagId = flagByUser.get(userId);
+    if (flagId) {
+      await adminClient
+        .from('at_risk_flags')
+        .update({ reasons, last_evaluated_at: timestamp })
+        .eq('id', flagId);
+    } else {
+      const { error } = await adminClient.from('at_risk_flags').insert({
+        user_id: userId,
+        cohort_id: cohortId,
+        reasons,
+        first_flagged_at: timestamp,
+        last_evaluated_at: timestamp,
+      });
+      if (error) {
+        console.error('[At Risk] Failed to create flag:', error.message);
+        continue;
+      }
+      result.created++;
+    }
+  }
+
+  const cleared = [...flagByUser].filter(([userId]) => !atRisk.has(userId)).map(([, id]) => id);
+  if (cleared.length > 0) {
+    const { error } = await adminClient
+      .from('at_risk_flags')
+      .update({ status: 'resolved', resolved_at: timestamp, last_evaluated_at: timestamp })
+      .in('id', cleared);
+    if (error) throw error;
+    result.resolved = cleared.length;
+  }
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Mentor digests
+// ---------------------------------------------------------------------------
+
+/** Mentors per student, limited to subgroups of the flag's cohort. */
+async function loadMentorsByStudent(
+  adminClient: SupabaseClient,
+  flags: Array<Pick<AtRiskFlag, 'user_id' | 'cohort_id'>>,
+): Promise<Map<string, Mentor[]>> {
+  const byStudent = new Map<string, Mentor[]>();
+  const userIds = [...new Set(flags.map((f) => f.user_id))];
+  if (userIds.length === 0) return byStudent;
+
+  const { data: memberships } = await adminClient
+    .from('subgroup_members')
+    .select('subgroup_id, user_id, subgroup:subgroups(cohort_id)')
+    .in('user_id', userIds);
+
+  const rows = (memberships || []) as unknown as Array<{
+    subgroup_id: string;
+    user_id: string;
+    subgroup: { cohort_id: string } | { cohort_id: string }[] | null;
+  }>;
+  const subgroupIds = [...new Set(rows.map((m) => m.subgroup_id))];
+  if (subgroupIds.length === 0) return byStudent;
+
+  const { data: mentorRows } = await adminClient
+    .from('subgroup_mentors')
+    .select('subgroup_id, mentor:profiles(id, email, full_name)')
+    .in('subgroup_id', subgroupIds);
+
+  const mentorsBySubgroup = new Map<string, Mentor[]>();
+  for (const row of (mentorRows || []) as unknown as Array<{ subgroup_id: string; mentor: Mentor | Mentor[] | null }>) {
+    const mentor = Array.isArray(row.mentor) ? row.mentor[0] : row.mentor;
+    if (!mentor?.email) continue;
+    const list = mentorsBySubgroup.get(row.subgroup_id) || [];
+    list.push(mentor);
+    mentorsBySubgroup.set(row.subgroup_id, list);
+  }
+
+  const cohortsByStudent = new Map<string, Set<string>>();
+  for (const f of flags) {
+    const set = cohortsByStudent.get(f.user_id) || new Set<string>();
+    set.add(f.cohort_id);
+    cohortsByStudent.set(f.user_id, set);
+  }
+
+  for (const m of rows) {
+    const subgroup = Array.isArray(m.subgroup) ? m.subgroup[0] : m.subgroup;
+    if (!subgroup || !cohortsByStudent.get(m.user_id)?.has(subgroup.cohort_id)) continue;
+    const list = byStudent.get(m.user_id) || [];
+    for (const mentor of mentorsBySubgroup.get(m.subgroup_id) || []) {
+      if (!list.some((x) => x.id === mentor.id)) list.push(mentor);
+    }
+    byStudent.set(m.user_id, list);
+  }
+  return byStudent;
+}
+
+/**
+ * Queue one digest per mentor covering open flags nobody has been told about
+ * yet. Flags for students without a mentor stay un-notified until one is
+ * assigned.
+ */
+export async function queueMentorDigests(
+  adminClient: SupabaseClient,
+): Promise<{ digestsQueued: number; flagsNotified: number }> {
+  const { data, error } = await adminClient
+    .from('at_risk_flags')
+    .select('id, user_id, cohort_id, reasons, user:profiles!at_risk_flags_user_id_fkey(id, full_name, email)')
+    .eq('status', 'open')
+    .is('notified_at', null);
+  if (error) throw error;
+
+  const flags = (data || []) as unknown as Array<
+    Pick<AtRiskFlag, 'id' | 'user_id' | 'cohort_id' | 'reasons'> & {
+      user: { full_name: string | null; email: string } | null;
+    }
+  >;
+  if (flags.length === 0) return { digestsQueued: 0, flagsNotified: 0 };
+
+  const mentorsByStudent = await loadMentorsByStudent(adminClient, flags);
+
+  const digests = new Map<string, { mentor: Mentor; flags: typeof flags }>();
+  for (const flag of flags) {
+    for (const mentor of mentorsByStudent.get(flag.user_id) || []) {
+      const digest = digests.get(mentor.id) || { mentor, flags: [] };
+      digest.flags.push(flag);
+      digests.set(mentor.id, digest);
+    }
+  }
+
+  const notified = new Set<string>();
+  let digestsQueued = 0;
+
+  for (const { mentor, flags: mentorFlags } of digests.values()) {
+    const items = mentorFlags.map((f) => {
+      const name = f.user?.full_name || f.user?.email || 'A student';
+      const reasons = f.reasons.map((r) => escapeHtml(r.message)).join('; ');
+      return `<li><strong>${escapeHtml(name)}</strong> — ${reasons}</li>`;
+    });
+
+    const result = await enqueueEmailNotification(adminClient, {
+      subject: `${mentorFlags.length} student${mentorFlags.length === 1 ? '' : 's'} in your subgroups may need attention`,
+      body: [
+        `<p>Hi ${escapeHtml(mentor.full_name || 'there')},</p>`,
+        '<p>These students crossed an at-risk threshold:</p>',
+        `<ul>${items.join('')}</ul>`,
+        '<p>Follow up from the Subgroups page of your mentor dashboard.</p>',
+      ].join(''),
+      recipients: [{ id: mentor.id, email: mentor.email, name: mentor.full_name }],
+      metadata: { kind: 'at_risk_digest', flag_ids: mentorFlags.map((f) => f.id) },
+    });
+
+    if (!result.ok) {
+      console.error('[At Risk] Failed to queue mentor digest:', result.error.message);
+      continue;
+    }
+    digestsQueued++;
+    for (const f of mentorFlags) notified.add(f.id);
+  }
+
+  if (notified.size > 0) {
+    const { error: updateError } = await adminClient
+      .from('at_risk_flags')
+      .update({ notified_at: new Date().toISOString() })
+      .in('id', [...notified]);
+    if (updateError) throw updateError;
+  }
+
+  return { digestsQueued, flagsNotified: notified.size };
+}
+
+// ---------------------------------------------------------------------------
+// runAtRiskEvaluation
+// ---------------------------------------------------------------------------
+
+/** Evaluate the given cohort, or every active cohort, then send digests. */
+export async function runAtRiskEvaluation(
+  adminClient: SupabaseClient,
+  options: { cohortId?: string } = {},
+): Promise<AtRiskRunResult> {
+  let cohortIds: string[];
+  if (options.cohortId) {
+    cohortIds = [options.cohortId];
+  } else {
+    const { data, error } = await adminClient.from('cohorts').select('id').eq('status', 'active');
+    if (error) throw error;
+    cohortIds = (data || []).map((c: { id: string }) => c.id);
+  }
+
+  const cohorts: CohortRiskResult[] = [];
+  for (const cohortId of cohortIds) {
+    try {
+      cohorts.push(await evaluateCohortRisk(adminClient, cohortId));
+    } catch (error) {
+      // One broken cohort shouldn't stop the rest of the run
+      console.error(`[At Risk] Failed to evaluate cohort ${cohortId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const { digestsQueued, flagsNotified } = await queueMentorDigests(adminClient);
+  return { cohorts, digestsQueued, flagsNotified };
+}
@@ -9,20 +9,24 @@
  * 4. Overlapping time ranges → sweep-line merge algorithm
  * 5. No leave_time → use meeting end time
  * 6. Over 100% → capped with Math.min
- * 7. No email (guest) → stored as unmatched
+ * 7. No email (guest) → matched via display-name alias, else stored as unmatched
  * 8. Recalculate → delete existing + re-insert
+ *
+ * Each row also records punctuality (minutes late / left early, reconnects)
+ * measured from the merged segments; see attendance-punctuality.ts.
  */
 
 import { createAdminClient } from '@/lib/supabase/server';
 import { zoomService, ZoomPastParticipant } from '@/lib/integrations/zoom';
-import { matchParticipantToUser } from '@/lib/services/user-matcher';
+import { matchParticipantByName, matchParticipantToUser } from '@/lib/services/user-matcher';
+import { computePunctuality, type PunctualityFacts } from '@/lib/services/attendance-punctuality';
 
 export interface TimeSegment {
   join_time: Date;
   leave_time: Date;
 }
 
-interface ResolvedParticipant {
+export interface ResolvedParticipant {
   userId: string | null;
   email: string;
   displayName: string;
@@ -57,7 +61,8 @@ export function groupParticipantsByEmail(
  */
 export async function resolveUserIds(
   groups: Map<string, ZoomPastParticipant[]>,
-  meetingEndTime: Date
+  meetingEndTime: Date,
+  sessionCohortIds: string[] = []
 ): Promise<Map<string, ResolvedParticipant>> {
   const byUserId = new Map<string, ResolvedParticipant>();
   const unmatchedKey = (email: string) => `__unmatched__${email}`;
@@ -66,8 +71,12 @@ export async function resolveUserIds(
     const isNoEmail = emailKey.startsWith('__nomail__');
     const email = isNoEmail ? '' : emailKey;
 
-    // Resolve email to user_id
-    const userId = email ? await matchParticipantToUser(email) : null;
+    const displayName = participants[0]?.name || email || 'Unknown';
+
+    // Resolve email to user_id; guests fall back to display-name aliases confirmed for the session's cohorts
+    const userId = email
+      ? await matchParticipantToUser(email)
+      : await matchParticipantByName(participants[0]?.name || '', sessionCohortIds);
 
     // Build time segments from this group
     const segments: TimeSegment[] = participants.map((p) => ({
@@ -75,8 +84,6 @@ export async function resolveUserIds(
       leave_time: p.leave_time ? new Date(p.leave_time) : meetingEndTime,
     }));
 
-    const displayName = participants[0]?.name || email || 'Unknown';
-
     if (userId) {
       // Merge with existing entry for this user (alias resolution)
       const existing = byUserId.get(userId);
@@ -132,6 +139,33 @@ export function mergeOverlappingSegments(segments: TimeSegment[]): TimeSegment[]
   return merged;
 }
 
+/**
+ * Merge admin-granted segments (attendance_segment_overrides) into resolved participants.
+ * Users with no Zoom record at all get a new entry built from their overrides.
+ */
+export function applySegmentOverrides(
+  resolved: Map<string, ResolvedParticipant>,
+  overrides: { user_id: string; join_time: string; leave_time: string }[]
+): void {
+  for (const override of overrides) {
+    const segment: TimeSegment = {
+      join_time: new Date(override.join_time),
+      leave_time: new Date(override.leave_time),
+    };
+    const existing = resolved.get(override.user_id);
+    if (existing) {
+      existing.segments.push(segment);
+    } else {
+      resolved.set(override.user_id, {
+        userId: override.user_id,
+        email: '',
+        displayName: 'Manual override',
+        segments: [segment],
+      });
+    }
+  }
+}
+
 /**
  * Calculate total attended minutes from merged segments.
  */
@@ -142,6 +176,55 @@ function totalMinutesFromSegments(segments: TimeSegment[]): number {
   }, 0);
 }
 
+interface SessionDurationRecord {
+  actual_duration_minutes: number | null;
+  duration_minutes: number | null;
+  formal_end_minutes: number | null;
+  cliff_detection: unknown;
+}
+
+/**
+ * Admin-controlled denominators that always win over observed meeting length:
+ * 1. formal_end_minutes (admin-overridden value)
+ * 2. Detected cliff effectiveEndMinutes (auto-applied unless dismissed)
+ */
+export function resolveFormalEndDuration(
+  sessionRecord: SessionDurationRecord | null
+): { minutes: number; source: string } | null {
+  if (sessionRecord?.formal_end_minutes && sessionRecord.formal_end_minutes > 0) {
+    return { minutes: sessionRecord.formal_end_minutes, source: 'formal_end_minutes' };
+  }
+
+  if (sessionRecord?.cliff_detection) {
+    const cliff = sessionRecord.cliff_detection as Record<string, unknown>;
+    const isDetected = cliff.detected === true;
+    const isDismissed = cliff.dismissed === true;
+    const effectiveEnd = typeof cliff.effectiveEndMinutes === 'number' ? cliff.effectiveEndMinutes : 0;
+
+    if (isDetected && !isDismissed && effectiveEnd > 0) {
+      return { minutes: effectiveEnd, source: 'cliff_detection.effectiveEndMinutes (auto)' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Last-resort denominators from the session record itself:
+ * session.actual_duration_minutes, then session.duration_minutes (scheduled).
+ */
+export function resolveSessionRecordDuration(
+  sessionRecord: SessionDurationRecord | null
+): { minutes: number; source: string } | null {
+  if (sessionRecord?.actual_duration_minutes && sessionRecord.actual_duration_minutes > 0) {
+    return { minutes: sessionRecord.actual_duration_minutes, source: 'session.actual_duration_minutes' };
+  }
+  if (sessionRecord?.duration_minutes && sessionRecord.duration_minutes > 0) {
+    return { minutes: sessionRecord.duration_minutes, source: 'session.duration_minutes' };
+  }
+  return null;
+}
+
 /**
  * Orchestrator: calculate and persist attendance for a session.
  *
@@ -177,23 +260,11 @@ export async function calculateSessionAttendance(
   let resolvedDuration = 0;
   let durationSource = 'none';
 
-  // Priority 1: formal_end_minutes (admin explicitly set this value)
-  if (sessionRecord?.formal_end_minutes && sessionRecord.formal_end_minutes > 0) {
-    resolvedDuration = sessionRecord.formal_end_minutes;
-    durationSource = 'formal_end_minutes';
-  }
-
-  // Priority 2: Auto-apply detected cliff (unless dismissed)
-  if (!resolvedDuration && sessionRecord?.cliff_detection) {
-    const cliff = sessionRecord.cliff_detection as Record<string, unknown>;
-    const isDetected = cliff.detected === true;
-    const isDismissed = cliff.dismissed === true;
-    const effectiveEnd = typeof cliff.effectiveEndMinutes === 'number' ? cliff.effectiveEndMinutes : 0;
-
-    if (isDetected && !isDismissed && effectiveEnd > 0) {
-      resolvedDuration = effectiveEnd;
-      durationSource = 'cliff_detection.effectiveEndMinutes (auto)';
-    }
+  // Priority 1-2: formal end (admin explicitly set, or detected cliff)
+  const formalEnd = resolveFormalEndDuration(sessionRecord);
+  if (formalEnd) {
+    resolvedDuration = formalEnd.minutes;
+    durationSource = formalEnd.source;
   }
 
   // Priority 3: Caller-provided override
@@ -220,14 +291,12 @@ export async function calculateSessionAttendance(
     }
   }
 
-  // Priority 4-5: session record fields
+  // Priority 5-6: session record fields
   if (!resolvedDuration || resolvedDuration <= 0) {
-    if (sessionRecord?.actual_duration_minutes && sessionRecord.actual_duration_minutes > 0) {
-      resolvedDuration = sessionRecord.actual_duration_minutes;
-      durationSource = 'session.actual_duration_minutes';
-    } else if (sessionRecord?.duration_minutes && sessionRecord.duration_minutes > 0) {
-      resolvedDuration = sessionRecord.duration_minutes;
-      durationSource = 'session.duration_minutes';
+    const fallback = resolveSessionRecordDuration(sessionRecord);
+    if (fallback) {
+      resolvedDuration = fallback.minutes;
+      durationSource = fallback.source;
     }
   }
 
@@ -240,8 +309,96 @@ export async function calculateSessionAttendance(
   // 1. Fetch participants from Zoom
   const participants = await zoomService.getPastMeetingParticipants(zoomMeetingUuid);
 
-  if (!participants || participants.length === 0) {
-    return { imported: 0, unmatched: 0, actualDurationUsed: resolvedDuration };
+  // No early return on an empty participant list: approved segment overrides
+  // still have to be written, and persist is a no-op when there is nothing
+  const { imported, unmatched } = await persistSessionAttendance(sessionId, participants || [], resolvedDuration);
+
+  return { imported, unmatched, actualDurationUsed: resolvedDuration };
+}
+
+/**
+ * Recalculate a session using its most recent imported meeting UUID
+ * (zoom_import_logs), falling back to the session's zoom_meeting_id.
+ */
+export async function recalculateSessionAttendance(
+  sessionId: string
+): Promise<{ imported: number; unmatched: number; actualDurationUsed: number }> {
+  const supabase = await createAdminClient();
+
+  const { data: importLog } = await supabase
+    .from('zoom_import_logs')
+    .select('zoom_meeting_uuid')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  let meetingUuid: string | null = importLog?.zoom_meeting_uuid || null;
+
+  if (!meetingUuid) {
+    const { data: session } = await supabase
+      .from('sessions')
+      .select('zoom_meeting_id')
+      .eq('id', sessionId)
+      .single();
+    meetingUuid = session?.zoom_meeting_id || null;
+  }
+
+  if (!meetingUuid) {
+    throw new Error('No Zoom meeting UUID available for this session');
+  }
+
+  return calculateSessionAttendance(sessionId, meetingUuid);
+}
+
+export interface ComputedAttendanceRow {
+  userId: string | null;
+  email: string;
+  displayName: string;
+  /** Merged, non-overlapping segments */
+  segments: TimeSegment[];
+  durationSeconds: number;
+  percentage: number;
+  punctuality: PunctualityFacts;
+}
+
+/**
+ * Shared compute path: group, resolve, merge and score participant rows for a
+ * session without writing anything. Every attendance source (Zoom API, webhook
+ * replay, offline file import) goes through here, and the import preview shows
+ * exactly what persisting would store.
+ */
+export async function computeSessionAttendance(
+  sessionId: string,
+  participants: ZoomPastParticipant[],
+  resolvedDuration: number
+): Promise<ComputedAttendanceRow[]> {
+  const supabase = await createAdminClient();
+
+  // Admin-granted manual segments (approved attendance claims), the scheduled
+  // start that punctuality is measured from, and the cohorts that scope
+  // display-name aliases
+  const [{ data: overrides }, { data: sessionRow }, { data: sessionCohorts }] = await Promise.all([
+    supabase
+      .from('attendance_segment_overrides')
+      .select('user_id, join_time, leave_time')
+      .eq('session_id', sessionId),
+    supabase
+      .from('sessions')
+      .select('scheduled_at, cohort_id')
+      .eq('id', sessionId)
+      .maybeSingle(),
+    supabase
+      .from('session_cohorts')
+      .select('cohort_id')
+      .eq('session_id', sessionId),
+  ]);
+  const scheduledStart = sessionRow?.scheduled_at ? new Date(sessionRow.scheduled_at) : null;
+  const cohortIds = new Set<string>((sessionCohorts || []).map((sc: { cohort_id: string }) => sc.cohort_id));
+  if (sessionRow?.cohort_id) cohortIds.add(sessionRow.cohort_id);
+
+  if (participants.length === 0 && (!overrides || overrides.length === 0)) {
+    return [];
   }
 
   // Compute meeting end time from the latest leave_time across all participants
@@ -266,7 +423,50 @@ export async function calculateSessionAttendance(
   const groups = groupParticipantsByEmail(participants);
 
   // 3. Resolve to user IDs
-  const resolved = await resolveUserIds(groups, meetingEndTime);
+  const resolved = await resolveUserIds(groups, meetingEndTime, [...cohortIds]);
+
+  // 3b. Merge manual segment overrides into the resolved users
+  applySegmentOverrides(resolved, overrides || []);
+
+  const rows: ComputedAttendanceRow[] = [];
+
+  for (const [, participant] of resolved) {
+    // Merge overlapping segments
+    const mergedSegments = mergeOverlappingSegments(participant.segments);
+    const totalMinutes = totalMinutesFromSegments(mergedSegments);
+    const percentage = Math.min(100, Math.round((totalMinutes / resolvedDuration) * 100 * 100) / 100);
+
+    rows.push({
+      userId: participant.userId,
+      email: participant.email,
+      displayName: participant.displayName,
+      segments: mergedSegments,
+      durationSeconds: Math.round(totalMinutes * 60),
+      percentage,
+      // Late join / early leave against the schedule and effective end
+      punctuality: computePunctuality(mergedSegments, scheduledStart, resolvedDuration),
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Shared write path: compute rows via computeSessionAttendance, then replace
+ * the session's attendance + attendance_segments with them.
+ */
+export async function persistSessionAttendance(
+  sessionId: string,
+  participants: ZoomPastParticipant[],
+  resolvedDuration: number
+): Promise<{ imported: number; unmatched: number }> {
+  const rows = await computeSessionAttendance(sessionId, participants, resolvedDuration);
+
+  if (rows.length === 0) {
+    return { imported: 0, unmatched: 0 };
+  }
+
+  const supabase = await createAdminClient();
 
   // 4. Delete existing records for this session (recalculate behavior)
   // First get existing attendance IDs to cascade-delete segments
@@ -287,34 +487,29 @@ export async function calculateSessionAttendance(
       .eq('session_id', sessionId);
   }
 
-  // 5. Process each resolved participant
+  // 5. Insert each computed row
   let imported = 0;
   let unmatched = 0;
 
-  for (const [, participant] of resolved) {
-    // Merge overlapping segments
-    const mergedSegments = mergeOverlappingSegments(participant.segments);
-    const totalMinutes = totalMinutesFromSegments(mergedSegments);
-    const percentage = Math.min(100, Math.round((totalMinutes / resolvedDuration) * 100 * 100) / 100);
-
-    // Total duration in seconds
-    const totalDurationSeconds = Math.round(totalMinutes * 60);
-
+  for (const row of rows) {
     // First join and last leave
-    const firstJoin = mergedSegments[0].join_time;
-    const lastLeave = mergedSegments[mergedSegments.length - 1].leave_time;
+    const firstJoin = row.segments[0].join_time;
+    const lastLeave = row.segments[row.segments.length - 1].leave_time;
 
     // Insert attendance record
     const { data: attendanceRecord, error: attendanceError } = await supabase
       .from('attendance')
       .insert({
         session_id: sessionId,
-        user_id: participant.userId,
-        zoom_user_email: participant.email || participant.displayName,
+        user_id: row.userId,
+        zoom_user_email: row.email || row.displayName,
         join_time: firstJoin.toISOString(),
         leave_time: lastLeave.toISOString(),
-        duration_seconds: totalDurationSeconds,
-        attendance_percentage: percentage,
+        duration_seconds: row.durationSeconds,
+        attendance_percentage: row.percentage,
+        minutes_late: row.punctuality.minutesLate,
+        minutes_left_early: row.punctuality.minutesLeftEarly,
+        reconnect_count: row.punctuality.reconnectCount,
       })
       .select('id')
       .single();
@@ -325,8 +520,8 @@ export async function calculateSessionAttendance(
     }
 
     // Insert individual segments
-    if (attendanceRecord && mergedSegments.length > 0) {
-      const segmentRows = mergedSegments.map((seg) => ({
+    if (attendanceRecord && row.segments.length > 0) {
+      const segmentRows = row.segments.map((seg) => ({
         attendance_id: attendanceRecord.id,
         join_time: seg.join_time.toISOString(),
         leave_time: seg.leave_time.toISOString(),
@@ -338,12 +533,12 @@ export async function calculateSessionAttendance(
       await supabase.from('attendance_segments').insert(segmentRows);
     }
 
-    if (participant.userId) {
+    if (row.userId) {
       imported++;
     } else {
       unmatched++;
     }
   }
 
-  return { imported, unmatched, actualDurationUsed: resolvedDuration };
+  return { imported, unmatched };
 }
@@ -0,0 +1,257 @@
+/**
+ * Attendance Claims Service
+ * Student-filed attendance disputes and admin adjudication (migration 034).
+ *
+ * Approval resolves a claim either by linking the student's alternate email
+ * (user_email_aliases) or by granting a manual segment
+ * (attendance_segment_overrides), then reruns the calculator for the session.
+ * Every step is written to attendance_claim_events.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { attendanceService } from '@/lib/services/attendance';
+import {
+  recalculateSessionWithFallback,
+  type SessionRecalculation,
+} from '@/lib/services/attendance-replay';
+import type {
+  AttendanceClaim,
+  AttendanceClaimEvent,
+  AttendanceClaimReason,
+  AttendanceClaimResolution,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const CLAIM_REASONS: AttendanceClaimReason[] = [
+  'unaliased_email',
+  'dropped_connection',
+  'cliff_misapplied',
+  'other',
+];
+
+export const CLAIM_EVIDENCE_BUCKET = 'resources';
+export const MAX_CLAIM_EVIDENCE_FILES = 5;
+
+/** Storage prefix a student's evidence uploads must live under. */
+export function claimEvidencePrefix(userId: string): string {
+  return `attendance-claims/${userId}/`;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AdjudicateClaimInput = {
+  claimId: string;
+  adminId: string;
+  decision: 'approve' | 'reject';
+  resolution?: AttendanceClaimResolution;
+  aliasEmail?: string | null;
+  joinTime?: string | null;
+  leaveTime?: string | null;
+  note?: string | null;
+};
+
+export type AdjudicateClaimError = {
+  stage: 'not_found' | 'not_pending' | 'validate' | 'alias' | 'override' | 'update';
+  message: string;
+};
+
+export type ClaimRecalculation = SessionRecalculation;
+
+export type AdjudicateClaimResult =
+  | { ok: true; claim: AttendanceClaim; recalculation: ClaimRecalculation | null }
+  | { ok: false; error: AdjudicateClaimError };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email.trim());
+}
+
+export async function recordClaimEvent(
+  adminClient: SupabaseClient,
+  claimId: string,
+  actorId: string | null,
+  action: AttendanceClaimEvent['action'],
+  details?: Record<string, unknown>,
+): Promise<void> {
+  const { error } = await adminClient.from('attendance_claim_events').insert({
+    claim_id: claimId,
+    actor_id: actorId,
+    action,
+    details: details ?? null,
+  });
+
+  if (error) {
+    console.error('[Attendance Claims] Failed to record audit event:', error.message);
+  }
+}
+
+/** Rerun attendance for the claim's session and log the outcome on the claim. */
+async function recalculateForClaim(
+  adminClient: SupabaseClient,
+  claim: AttendanceClaim,
+  actorId: string,
+): Promise<ClaimRecalculation> {
+  const recalculation = await recalculateSessionWithFallback(claim.session_id);
+
+  await recordClaimEvent(
+    adminClient,
+    claim.id,
+    actorId,
+    recalculation.ok ? 'recalculated' : 'recalculation_failed',
+    recalculation,
+  );
+
+  return recalculation;
+}
+
+// ---------------------------------------------------------------------------
+// adjudicateClaim
+// ---------------------------------------------------------------------------
+
+export async function adjudicateClaim(
+  adminClient: SupabaseClient,
+  input: AdjudicateClaimInput,
+): Promise<AdjudicateClaimResult> {
+  const { claimId, adminId, decision, note } = input;
+
+  const { data: existing } = await adminClient
+    .from('attendance_claims')
+    .select('*')
+    .eq('id', claimId)
+    .maybeSingle();
+
+  if (!existing) {
+    return { ok: false, error: { stage: 'not_found', message: 'Claim not found' } };
+  }
+
+  const claim = existing as AttendanceClaim;
+
+  if (claim.status !== 'pending') {
+    return { ok: false, error: { stage: 'not_pending', message: `Claim is already ${claim.status}` } };
+  }
+
+  // ── Reject ────────────────────────────────────────────────
+  if (decision === 'reject') {
+    const { data: updated, error } = await adminClient
+      .from('attendance_claims')
+      .update({
+        status: 'rejected',
+        resolution_note: note ?? null,
+        reviewed_by: adminId,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', claimId)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { ok: false, error: { stage: 'update', message: error.message } };
+    }
+    if (!updated) {
+      return { ok: false, error: { stage: 'not_pending', message: 'Claim was reviewed concurrently' } };
+    }
+
+    await recordClaimEvent(adminClient, claimId, adminId, 'rejected', { note: note ?? null });
+    return { ok: true, claim: updated as AttendanceClaim, recalculation: null };
+  }
+
+  // ── Approve: apply the resolution first ───────────────────
+  const resolution = input.resolution;
+  if (resolution !== 'alias' && resolution !== 'manual_segment') {
+    return { ok: false, error: { stage: 'validate', message: 'resolution must be "alias" or "manual_segment"' } };
+  }
+
+  let overrideId: string | null = null;
+
+  if (resolution === 'alias') {
+    const aliasEmail = (input.aliasEmail || claim.alternate_email || '').trim().toLowerCase();
+    if (!aliasEmail || !isValidEmail(aliasEmail)) {
+      return { ok: false, error: { stage: 'validate', message: 'A valid alias email is required' } };
+    }
+
+    const aliasResult = await attendanceService.addEmailAlias(claim.user_id, aliasEmail);
+    if (!aliasResult.success) {
+      return { ok: false, error: { stage: 'alias', message: aliasResult.error || 'Failed to create alias' } };
+    }
+
+    await recordClaimEvent(adminClient, claimId, adminId, 'alias_created', { alias_email: aliasEmail });
+  } else {
+    const joinTime = input.joinTime || claim.claimed_join_time;
+    const leaveTime = input.leaveTime || claim.claimed_leave_time;
+    const joinMs = joinTime ? new Date(joinTime).getTime() : NaN;
+    const leaveMs = leaveTime ? new Date(leaveTime).getTime() : NaN;
+
+    if (Number.isNaN(joinMs) || Number.isNaN(leaveMs) || leaveMs <= joinMs) {
+      return {
+        ok: false,
+        error: { stage: 'validate', message: 'Valid joinTime and leaveTime (leave after join) are required' },
+      };
+    }
+
+    const { data: override, error: overrideError } = await adminClient
+      .from('attendance_segment_overrides')
+      .insert({
+        session_id: claim.session_id,
+        user_id: claim.user_id,
+        join_time: new Date(joinMs).toISOString(),
+        leave_time: new Date(leaveMs).toISOString(),
+        claim_id: claimId,
+        created_by: adminId,
+      })
+      .select('id, join_time, leave_time')
+      .single();
+
+    if (overrideError || !override) {
+      return {
+        ok: false,
+        error: { stage: 'override', message: overrideError?.message || 'Failed to record segment override' },
+      };
+    }
+
+    overrideId = override.id;
+    await recordClaimEvent(adminClient, claimId, adminId, 'segment_override_created', override);
+  }
+
+  const { data: updated, error: updateError } = await adminClient
+    .from('attendance_claims')
+    .update({
+      status: 'approved',
+      resolution,
+      resolution_note: note ?? null,
+      reviewed_by: adminId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', claimId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (updateError || !updated) {
+    // Drop our override so a lost race or failed update can't leave a second segment behind
+    if (overrideId) {
+      await adminClient.from('attendance_segment_overrides').delete().eq('id', overrideId);
+    }
+    if (updateError) {
+      return { ok: false, error: { stage: 'update', message: updateError.message } };
+    }
+    return { ok: false, error: { stage: 'not_pending', message: 'Claim was reviewed concurrently' } };
+  }
+
+  await recordClaimEvent(adminClient, claimId, adminId, 'approved', { resolution, note: note ?? null });
+
+  // ── Rerun the calculator so the student's percentage reflects the decision
+  const recalculation = await recalculateForClaim(adminClient, updated as AttendanceClaim, adminId);
+
+  return { ok: true, claim: updated as AttendanceClaim, recalculation };
+}
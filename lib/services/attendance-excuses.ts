@@ -0,0 +1,357 @@
+/**
+ * Attendance Excuses Service
+ * Student excused-absence requests and mentor/admin review (migration 038).
+ *
+ * Approving a request writes an attendance_excusals row linked to it, which
+ * the attendance policy evaluator treats as an excused session (dropped from
+ * the denominator). Requests for upcoming sessions also record an RSVP "no".
+ * Mentors of the student's subgroup are emailed via the notification queue.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { enqueueEmailNotification, escapeHtml } from '@/lib/services/notification-queue';
+import type { AttendanceExcuseCategory, AttendanceExcuseRequest } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const EXCUSE_CATEGORIES: AttendanceExcuseCategory[] = [
+  'illness',
+  'family_emergency',
+  'work_conflict',
+  'technical_issue',
+  'other',
+];
+
+export const EXCUSE_CATEGORY_LABELS: Record<AttendanceExcuseCategory, string> = {
+  illness: 'Illness',
+  family_emergency: 'Family emergency',
+  work_conflict: 'Work conflict',
+  technical_issue: 'Technical issue',
+  other: 'Other',
+};
+
+export const EXCUSE_ATTACHMENT_BUCKET = 'resources';
+
+/** Storage prefix a student's excuse attachments must live under. */
+export function excuseAttachmentPrefix(userId: string): string {
+  return `attendance-excuses/${userId}/`;
+}
+
+export function isExcuseCategory(value: unknown): value is AttendanceExcuseCategory {
+  return typeof value === 'string' && (EXCUSE_CATEGORIES as string[]).includes(value);
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CreateExcuseRequestInput = {
+  userId: string;
+  sessionId: string;
+  category: AttendanceExcuseCategory;
+  details?: string | null;
+  attachmentPath?: string | null;
+};
+
+export type CreateExcuseRequestResult =
+  | { ok: true; request: AttendanceExcuseRequest; mentorsNotified: number }
+  | {
+      ok: false;
+      error: { stage: 'validate' | 'not_found' | 'not_member' | 'duplicate' | 'insert'; message: string };
+    };
+
+export type ReviewExcuseRequestInput = {
+  requestId: string;
+  reviewerId: string;
+  decision: 'approve' | 'reject';
+  note?: string | null;
+};
+
+export type ReviewExcuseRequestResult =
+  | { ok: true; request: AttendanceExcuseRequest }
+  | { ok: false; error: { stage: 'not_found' | 'not_pending' | 'excusal' | 'update'; message: string } };
+
+type Mentor = { id: string; email: string; full_name: string | null };
+
+// ---------------------------------------------------------------------------
+// Mentors
+// ---------------------------------------------------------------------------
+
+/** Mentors assigned to any subgroup the student belongs to. */
+export async function getStudentSubgroupMentors(
+  adminClient: SupabaseClient,
+  studentId: string,
+): Promise<Mentor[]> {
+  const { data: memberships } = await adminClient
+    .from('subgroup_members')
+    .select('subgroup_id')
+    .eq('user_id', studentId);
+
+  const subgroupIds = (memberships || []).map((m: { subgroup_id: string }) => m.subgroup_id);
+  if (subgroupIds.length === 0) return [];
+
+  const { data: mentors } = await adminClient
+    .from('subgroup_mentors')
+    .select('user_id, mentor:profiles(id, email, full_name)')
+    .in('subgroup_id', subgroupIds);
+
+  const byId = new Map<string, Mentor>();
+  for (const row of (mentors || []) as unknown as Array<{ mentor: Mentor | Mentor[] | null }>) {
+    const mentor = Array.isArray(row.mentor) ? row.mentor[0] : row.mentor;
+    if (mentor?.email) byId.set(mentor.id, mentor);
+  }
+  return Array.from(byId.values());
+}
+
+export async function isSubgroupMentorOf(
+  adminClient: SupabaseClient,
+  mentorId: string,
+  studentId: string,
+): Promise<boolean> {
+  const { data: memberships } = await adminClient
+    .from('subgroup_members')
+    .select('subgroup_id')
+    .eq('user_id', studentId);
+
+  const subgroupIds = (memberships || []).map((m: { subgroup_id: string }) => m.subgroup_id);
+  if (subgroupIds.length === 0) return false;
+
+  const { data } = await adminClient
+    .from('subgroup_mentors')
+    .select('id')
+    .eq('user_id', mentorId)
+    .in('subgroup_id', subgroupIds)
+    .limit(1)
+    .maybeSingle();
+
+  return !!data;
+}
+
+/** Students in every subgroup the mentor is assigned to. */
+export async function getMentoredStudentIds(
+  adminClient: SupabaseClient,
+  mentorId: string,
+): Promise<string[]> {
+  const { data: assignments } = await adminClient
+    .from('subgroup_mentors')
+    .select('subgroup_id')
+    .eq('user_id', mentorId);
+
+  const subgroupIds = (assignments || []).map((a: { subgroup_id: string }) => a.subgroup_id);
+  if (subgroupIds.length === 0) return [];
+
+  const { data: members } = await adminClient
+    .from('subgroup_members')
+    .select('user_id')
+    .in('subgroup_id', subgroupIds);
+
+  return [...new Set((members || []).map((m: { user_id: string }) => m.user_id))];
+}
+
+async function notifyMentors(
+  adminClient: SupabaseClient,
+  request: AttendanceExcuseRequest,
+  session: { title: string; scheduled_at: string },
+): Promise<number> {
+  const [mentors, { data: student }] = await Promise.all([
+    getStudentSubgroupMentors(adminClient, request.user_id),
+    adminClient.from('profiles').select('full_name, email').eq('id', request.user_id).maybeSingle(),
+  ]);
+  if (mentors.length === 0) return 0;
+
+  const studentName = student?.full_name || student?.email || 'A student';
+  const sessionDate = new Date(session.scheduled_at).toUTCString();
+
+  const result = await enqueueEmailNotification(adminClient, {
+    subject: `Excused absence request: ${studentName} — ${session.title}`,
+    body: [
+      `<p>${escapeHtml(studentName)} requested an excused absence for <strong>${escapeHtml(session.title)}</strong> (${sessionDate}).</p>`,
+      `<p>Reason: ${EXCUSE_CATEGORY_LABELS[request.reason_category]}</p>`,
+      request.details ? `<p>${escapeHtml(request.details)}</p>` : '',
+      '<p>Review it from the Subgroups page of your mentor dashboard.</p>',
+    ].join(''),
+    recipients: mentors.map((m) => ({ id: m.id, email: m.email, name: m.full_name })),
+    metadata: { kind: 'attendance_excuse_request', request_id: request.id },
+  });
+
+  if (!result.ok) {
+    console.error('[Attendance Excuses] Failed to notify mentors:', result.error.message);
+    return 0;
+  }
+  return result.recipientCount;
+}
+
+// ---------------------------------------------------------------------------
+// createExcuseRequest
+// ---------------------------------------------------------------------------
+
+export async function createExcuseRequest(
+  adminClient: SupabaseClient,
+  input: CreateExcuseRequestInput,
+): Promise<CreateExcuseRequestResult> {
+  const { userId, sessionId, category } = input;
+
+  if (!isExcuseCategory(category)) {
+    return { ok: false, error: { stage: 'validate', message: `reason_category must be one of: ${EXCUSE_CATEGORIES.join(', ')}` } };
+  }
+
+  const attachmentPath = input.attachmentPath || null;
+  if (attachmentPath && (!attachmentPath.startsWith(excuseAttachmentPrefix(userId)) || attachmentPath.includes('..'))) {
+    return { ok: false, error: { stage: 'validate', message: 'Invalid attachment path' } };
+  }
+
+  const { data: session } = await adminClient
+    .from('sessions')
+    .select('id, title, cohort_id, scheduled_at, counts_for_students')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (!session || !session.counts_for_students) {
+    return { ok: false, error: { stage: 'not_found', message: 'Session not found' } };
+  }
+
+  // Student must belong to one of the session's cohorts
+  const { data: sessionCohorts } = await adminClient
+    .from('session_cohorts')
+    .select('cohort_id')
+    .eq('session_id', sessionId);
+
+  const cohortIds = new Set<string>((sessionCohorts || []).map((sc: { cohort_id: string }) => sc.cohort_id));
+  if (session.cohort_id) cohortIds.add(session.cohort_id);
+
+  const { data: membership } = cohortIds.size > 0
+    ? await adminClient
+        .from('user_role_assignments')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('role', 'student')
+        .in('cohort_id', Array.from(cohortIds))
+        .limit(1)
+        .maybeSingle()
+    : { data: null };
+
+  if (!membership) {
+    return { ok: false, error: { stage: 'not_member', message: 'You are not enrolled in this session\'s cohort' } };
+  }
+
+  const { data: inserted, error: insertError } = await adminClient
+    .from('attendance_excuse_requests')
+    .insert({
+      session_id: sessionId,
+      user_id: userId,
+      reason_category: category,
+      details: input.details?.trim() || null,
+      attachment_path: attachmentPath,
+    })
+    .select()
+    .single();
+
+  if (insertError || !inserted) {
+    if (insertError?.code === '23505') {
+      return { ok: false, error: { stage: 'duplicate', message: 'You already have an open excuse request for this session' } };
+    }
+    return { ok: false, error: { stage: 'insert', message: insertError?.message || 'Failed to create request' } };
+  }
+
+  const request = inserted as AttendanceExcuseRequest;
+
+  // Upcoming session: the request doubles as an RSVP "no"
+  if (new Date(session.scheduled_at).getTime() > Date.now()) {
+    const { data: existingRsvp } = await adminClient
+      .from('rsvps')
+      .select('reminder_enabled')
+      .eq('session_id', sessionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const { error: rsvpError } = await adminClient
+      .from('rsvps')
+      .upsert(
+        {
+          session_id: sessionId,
+          user_id: userId,
+          response: 'no',
+          reminder_enabled: existingRsvp?.reminder_enabled ?? false,
+        },
+        { onConflict: 'session_id,user_id' },
+      );
+
+    if (rsvpError) {
+      console.error('[Attendance Excuses] Failed to record RSVP:', rsvpError.message);
+    }
+  }
+
+  const mentorsNotified = await notifyMentors(adminClient, request, session);
+
+  return { ok: true, request, mentorsNotified };
+}
+
+// ---------------------------------------------------------------------------
+// reviewExcuseRequest
+// ---------------------------------------------------------------------------
+
+export async function reviewExcuseRequest(
+  adminClient: SupabaseClient,
+  input: ReviewExcuseRequestInput,
+): Promise<ReviewExcuseRequestResult> {
+  const { requestId, reviewerId, decision, note } = input;
+
+  const { data: existing } = await adminClient
+    .from('attendance_excuse_requests')
+    .select('*')
+    .eq('id', requestId)
+    .maybeSingle();
+
+  if (!existing) {
+    return { ok: false, error: { stage: 'not_found', message: 'Excuse request not found' } };
+  }
+
+  const request = existing as AttendanceExcuseRequest;
+  if (request.status !== 'pending') {
+    return { ok: false, error: { stage: 'not_pending', message: `Request is already ${request.status}` } };
+  }
+
+  if (decision === 'approve') {
+    const { error: excusalError } = await adminClient
+      .from('attendance_excusals')
+      .upsert(
+        {
+          session_id: request.session_id,
+          user_id: request.user_id,
+          reason: EXCUSE_CATEGORY_LABELS[request.reason_category],
+          granted_by: reviewerId,
+          request_id: request.id,
+        },
+        { onConflict: 'session_id,user_id' },
+      );
+
+    if (excusalError) {
+      return { ok: false, error: { stage: 'excusal', message: excusalError.message } };
+    }
+  }
+
+  const { data: updated, error: updateError } = await adminClient
+    .from('attendance_excuse_requests')
+    .update({
+      status: decision === 'approve' ? 'approved' : 'rejected',
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+      review_note: note?.trim() || null,
+    })
+    .eq('id', requestId)
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (updateError || !updated) {
+    if (decision === 'approve') {
+      // Roll back the excusal so the request and the denominator stay in sync
+      await adminClient.from('attendance_excusals').delete().eq('request_id', request.id);
+    }
+    return { ok: false, error: { stage: 'update', message: updateError?.message || 'Request was modified concurrently' } };
+  }
+
+  return { ok: true, request: updated as AttendanceExcuseRequest };
+}
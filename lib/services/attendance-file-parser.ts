@@ -0,0 +1,262 @@
+/**
+ * Attendance File Parser
+ * Normalizes attendance files from other meeting tools into Zoom
+ * past-participant rows (pure; no DB access, safe for client bundles).
+ *
+ * Supported sources:
+ * - zoom_csv        : Zoom web "Participants" report export (optionally with
+ *                     the meeting summary block above the participant table)
+ * - google_meet_csv : Google Meet attendance report
+ * - roster_csv      : generic email, join, leave (name optional)
+ *
+ * Timestamps without an explicit offset are read in the uploader's timezone;
+ * time-only values (Meet) are placed on the session's scheduled date.
+ */
+
+import Papa from 'papaparse';
+import type { ZoomPastParticipant } from '@/lib/integrations/zoom';
+import type { AttendanceImportSource } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ParseOptions {
+  /** Force a source instead of detecting it from the header row */
+  source?: AttendanceImportSource;
+  /** Session scheduled_at (ISO), used to date time-only values */
+  sessionDate: string;
+  /** Uploader's Date#getTimezoneOffset(), applied to offset-less timestamps */
+  timezoneOffsetMinutes: number;
+}
+
+export interface SkippedRow {
+  /** 1-based line number in the file */
+  line: number;
+  reason: string;
+}
+
+export type ParseAttendanceFileResult =
+  | { ok: true; source: AttendanceImportSource; participants: ZoomPastParticipant[]; skipped: SkippedRow[] }
+  | { ok: false; error: { stage: 'parse' | 'format'; message: string } };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const IMPORT_SOURCES: AttendanceImportSource[] = ['zoom_csv', 'google_meet_csv', 'roster_csv'];
+
+export const IMPORT_SOURCE_LABELS: Record<AttendanceImportSource, string> = {
+  zoom_csv: 'Zoom participants report',
+  google_meet_csv: 'Google Meet attendance',
+  roster_csv: 'Roster (email, join, leave)',
+};
+
+const COLUMN_ALIASES = {
+  name: ['name (original name)', 'name', 'full name', 'participant name', 'participant', 'display name'],
+  firstName: ['first name'],
+  lastName: ['last name'],
+  email: ['user email', 'email', 'email address', 'participant email'],
+  join: ['join time', 'time joined', 'joined at', 'first seen', 'join', 'joined'],
+  leave: ['leave time', 'time exited', 'exited at', 'last seen', 'leave', 'left'],
+};
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+// ---------------------------------------------------------------------------
+// Pure parsing
+// ---------------------------------------------------------------------------
+
+function normalizeHeader(header: string): string {
+  return header.replace(/^﻿/, '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function mapColumns(headers: string[]): Partial<Record<Column, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<Column, number>> = {};
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [Column, string[]][]) {
+    for (const alias of aliases) {
+      const index = normalized.indexOf(alias);
+      if (index !== -1) {
+        columns[column] = index;
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+export function detectImportSource(headers: string[]): AttendanceImportSource | null {
+  const normalized = headers.map(normalizeHeader);
+  const has = (h: string) => normalized.includes(h);
+
+  if (has('name (original name)') || (has('user email') && has('join time'))) return 'zoom_csv';
+  if (has('time joined') || has('time exited') || has('first seen') || has('first name')) return 'google_meet_csv';
+
+  const columns = mapColumns(headers);
+  if (columns.email !== undefined && columns.join !== undefined) return 'roster_csv';
+  return null;
+}
+
+const ISO_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:?\d{2})$/i;
+const DATE_TIME = /^(\d{1,4})[/-](\d{1,2})[/-](\d{1,4})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([AP]M)?$/i;
+const TIME_ONLY = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)?$/i;
+
+function to24h(hour: number, meridiem: string | undefined): number {
+  if (!meridiem) return hour;
+  const pm = meridiem.toUpperCase() === 'PM';
+  return (hour % 12) + (pm ? 12 : 0);
+}
+
+/**
+ * Parse one timestamp cell. `local` fields are wall-clock values in the
+ * uploader's timezone; the offset converts them to UTC.
+ */
+export function parseImportTimestamp(
+  value: string,
+  sessionDate: string,
+  timezoneOffsetMinutes: number,
+): Date | null {
+  const raw = value.trim();
+  if (!raw) return null;
+
+  if (ISO_WITH_OFFSET.test(raw)) {
+    const date = new Date(raw);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const localToUtc = (y: number, mo: number, d: number, h: number, mi: number, s: number) =>
+    new Date(Date.UTC(y, mo - 1, d, h, mi, s) + timezoneOffsetMinutes * 60_000);
+
+  const dateTime = raw.match(DATE_TIME);
+  if (dateTime) {
+    const [, a, b, c, h, mi, s, meridiem] = dateTime;
+    // YYYY-MM-DD, otherwise Zoom's US-style MM/DD/YYYY
+    const [y, mo, d] = a.length === 4 ? [a, b, c] : [c, a, b];
+    const date = localToUtc(Number(y), Number(mo), Number(d), to24h(Number(h), meridiem), Number(mi), Number(s || 0));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const timeOnly = raw.match(TIME_ONLY);
+  if (timeOnly) {
+    const [, h, mi, s, meridiem] = timeOnly;
+    // The session's calendar date as the uploader sees it
+    const local = new Date(new Date(sessionDate).getTime() - timezoneOffsetMinutes * 60_000);
+    return localToUtc(
+      local.getUTCFullYear(),
+      local.getUTCMonth() + 1,
+      local.getUTCDate(),
+      to24h(Number(h), meridiem),
+      Number(mi),
+      Number(s || 0),
+    );
+  }
+
+  return null;
+}
+
+/** Rows of the file, starting at the participant header (Zoom puts a meeting summary above it). */
+function locateParticipantTable(rows: string[][]): { headerIndex: number; columns: Partial<Record<Column, number>> } | null {
+  for (let i = 0; i < rows.length; i++) {
+    const columns = mapColumns(rows[i]);
+    if (columns.join !== undefined && (columns.email !== undefined || columns.name !== undefined || columns.firstName !== undefined)) {
+      return { headerIndex: i, columns };
+    }
+  }
+  return null;
+}
+
+export function parseAttendanceFile(csv: string, options: ParseOptions): ParseAttendanceFileResult {
+  const parsed = Papa.parse<string[]>(csv.trim(), { skipEmptyLines: true });
+  const rows = parsed.data.filter((r) => r.some((cell) => cell.trim() !== ''));
+
+  if (rows.length === 0) {
+    return { ok: false, error: { stage: 'parse', message: 'The file is empty' } };
+  }
+
+  const table = locateParticipantTable(rows);
+  if (!table) {
+    return { ok: false, error: { stage: 'format', message: 'No participant table found (need a join time column and an email or name column)' } };
+  }
+
+  const source = options.source ?? detectImportSource(rows[table.headerIndex]);
+  if (!source) {
+    return { ok: false, error: { stage: 'format', message: 'Could not detect the file format' } };
+  }
+
+  const { columns } = table;
+  if (source === 'roster_csv' && columns.email === undefined) {
+    return { ok: false, error: { stage: 'format', message: 'Roster files need an email column' } };
+  }
+
+  const cell = (row: string[], column: Column) =>
+    columns[column] !== undefined ? (row[columns[column] as number] ?? '').trim() : '';
+
+  const participants: ZoomPastParticipant[] = [];
+  const skipped: SkippedRow[] = [];
+
+  for (let i = table.headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+    const line = i + 1;
+
+    const email = cell(row, 'email').toLowerCase();
+    const name = cell(row, 'name') || [cell(row, 'firstName'), cell(row, 'lastName')].filter(Boolean).join(' ');
+
+    if (!email && !name) {
+      skipped.push({ line, reason: 'No email or name' });
+      continue;
+    }
+
+    const join = parseImportTimestamp(cell(row, 'join'), options.sessionDate, options.timezoneOffsetMinutes);
+    if (!join) {
+      skipped.push({ line, reason: `Unreadable join time "${cell(row, 'join')}"` });
+      continue;
+    }
+
+    const leaveRaw = cell(row, 'leave');
+    let leave = leaveRaw ? parseImportTimestamp(leaveRaw, options.sessionDate, options.timezoneOffsetMinutes) : null;
+    if (leaveRaw && !leave) {
+      skipped.push({ line, reason: `Unreadable leave time "${leaveRaw}"` });
+      continue;
+    }
+    // Time-only values that cross midnight
+    if (leave && leave < join && TIME_ONLY.test(leaveRaw)) {
+      leave = new Date(leave.getTime() + 24 * 60 * 60_000);
+    }
+    if (leave && leave < join) {
+      skipped.push({ line, reason: 'Leave time is before join time' });
+      continue;
+    }
+
+    // Files carry no participant id. Email-less guests are keyed by name so
+    // their rejoins group together (the API path keys by Zoom participant id).
+    const id = email || `name:${name.toLowerCase()}`;
+
+    participants.push({
+      id,
+      user_id: id,
+      name: name || email,
+      user_email: email,
+      join_time: join.toISOString(),
+      leave_time: leave ? leave.toISOString() : '',
+      duration: leave ? Math.round((leave.getTime() - join.getTime()) / 1000) : 0,
+    });
+  }
+
+  if (participants.length === 0) {
+    return { ok: false, error: { stage: 'parse', message: 'No usable attendance rows in the file' } };
+  }
+
+  return { ok: true, source, participants, skipped };
+}
+
+/** Minutes between the earliest join and the latest leave in the file. */
+export function observedSpanMinutes(participants: ZoomPastParticipant[]): number {
+  let first = Infinity;
+  let last = -Infinity;
+  for (const p of participants) {
+    first = Math.min(first, new Date(p.join_time).getTime());
+    if (p.leave_time) last = Math.max(last, new Date(p.leave_time).getTime());
+  }
+  return last > first ? Math.round((last - first) / 60_000) : 0;
+}
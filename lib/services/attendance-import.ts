@@ -0,0 +1,200 @@
+/**
+ * Offline Attendance Import
+ * Previews and applies attendance files parsed by attendance-file-parser.ts.
+ * Rows run through the exact same group/resolve/merge/percentage pipeline as
+ * calculateSessionAttendance, so a session scores identically whichever
+ * source its data came from. Applied imports are stored in attendance_imports
+ * (migration 040) so later recalculations can replay them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ZoomPastParticipant } from '@/lib/integrations/zoom';
+import {
+  computeSessionAttendance,
+  persistSessionAttendance,
+  resolveFormalEndDuration,
+  resolveSessionRecordDuration,
+} from '@/lib/services/attendance-calculator';
+import { observedSpanMinutes } from '@/lib/services/attendance-file-parser';
+import type { AttendanceImport, AttendanceImportSource } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ImportPreviewRow {
+  userId: string | null;
+  name: string;
+  email: string;
+  segments: number;
+  durationMinutes: number;
+  percentage: number;
+  minutesLate: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// DB operations
+// ---------------------------------------------------------------------------
+
+/**
+ * Duration priority chain (mirrors calculateSessionAttendance, with the
+ * file's own join/leave span standing in for the Zoom API):
+ * 1-2. formal_end_minutes / detected cliff
+ * 3.   caller-provided duration
+ * 4.   span observed in the file
+ * 5-6. session.actual_duration_minutes / session.duration_minutes
+ */
+export async function resolveImportDuration(
+  adminClient: SupabaseClient,
+  sessionId: string,
+  participants: ZoomPastParticipant[],
+  durationOverride?: number | null,
+): Promise<{ minutes: number; source: string } | null> {
+  const { data: sessionRecord } = await adminClient
+    .from('sessions')
+    .select('actual_duration_minutes, duration_minutes, formal_end_minutes, cliff_detection')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  const formalEnd = resolveFormalEndDuration(sessionRecord);
+  if (formalEnd) return formalEnd;
+
+  if (durationOverride && durationOverride > 0) {
+    return { minutes: Math.round(durationOverride), source: 'caller' };
+  }
+
+  const span = observedSpanMinutes(participants);
+  if (span > 0) return { minutes: span, source: 'import_file' };
+
+  return resolveSessionRecordDuration(sessionRecord);
+}
+
+/**
+ * What applying the import would store, row for row, with matched profiles.
+ * Nothing is written.
+ */
+export async function previewAttendanceImport(
+  adminClient: SupabaseClient,
+  sessionId: string,
+  participants: ZoomPastParticipant[],
+  durationMinutes: number,
+): Promise<ImportPreviewRow[]> {
+  const rows = await computeSessionAttendance(sessionId, participants, durationMinutes);
+
+  const userIds = rows.map((r) => r.userId).filter((id): id is string => !!id);
+  const { data: profiles } = userIds.length > 0
+    ? await adminClient.from('profiles').select('id, full_name, email').in('id', userIds)
+    : { data: [] };
+  const profileMap = new Map((profiles || []).map((p) => [p.id, p]));
+
+  return rows
+    .map((row) => {
+      const profile = row.userId ? profileMap.get(row.userId) : undefined;
+      return {
+        userId: row.userId,
+        name: profile?.full_name || row.displayName,
+        email: profile?.email || row.email,
+        segments: row.segments.length,
+        durationMinutes: Math.round(row.durationSeconds / 60),
+        percentage: row.percentage,
+        minutesLate: row.punctuality.minutesLate,
+      };
+    })
+    .sort((a, b) => Number(!!b.userId) - Number(!!a.userId) || b.percentage - a.percentage);
+}
+
+export type ApplyImportResult =
+  | { ok: true; importId: string; imported: number; unmatched: number }
+  | { ok: false; error: { stage: 'store'; message: string } };
+
+/** Store the normalized rows, then replace the session's attendance with them. */
+export async function applyAttendanceImport(
+  adminClient: SupabaseClient,
+  input: {
+    sessionId: string;
+    source: AttendanceImportSource;
+    fileName: string | null;
+    participants: ZoomPastParticipant[];
+    durationMinutes: number;
+    importedBy: string;
+  },
+): Promise<ApplyImportResult> {
+  const { data: stored, error } = await adminClient
+    .from('attendance_imports')
+    .insert({
+      session_id: input.sessionId,
+      source: input.source,
+      file_name: input.fileName,
+      participants: input.participants,
+      row_count: input.participants.length,
+      duration_minutes: input.durationMinutes,
+      imported_by: input.importedBy,
+    })
+    .select('id')
+    .single();
+
+  if (error || !stored) {
+    return { ok: false, error: { stage: 'store', message: error?.message || 'Failed to store import' } };
+  }
+
+  const { imported, unmatched } = await persistSessionAttendance(
+    input.sessionId,
+    input.participants,
+    input.durationMinutes,
+  );
+
+  return { ok: true, importId: stored.id, imported, unmatched };
+}
+
+/**
+ * The session's latest offline import, if it is newer than its latest Zoom
+ * API import — i.e. the file is what the current attendance was built from.
+ */
+export async function findCurrentOfflineImport(
+  adminClient: SupabaseClient,
+  sessionId: string,
+): Promise<AttendanceImport | null> {
+  const [{ data: latestImport }, { data: latestZoomLog }] = await Promise.all([
+    adminClient
+      .from('attendance_imports')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    adminClient
+      .from('zoom_import_logs')
+      .select('created_at')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (!latestImport) return null;
+  if (latestZoomLog && new Date(latestZoomLog.created_at) > new Date(latestImport.created_at)) return null;
+  return latestImport as AttendanceImport;
+}
+
+/**
+ * Rebuild a session's attendance from a stored import. A formal end or
+ * applied cliff set since the upload takes precedence over the stored duration.
+ */
+export async function replayAttendanceImport(
+  adminClient: SupabaseClient,
+  stored: AttendanceImport,
+): Promise<{ imported: number; unmatched: number }> {
+  const { data: sessionRecord } = await adminClient
+    .from('sessions')
+    .select('actual_duration_minutes, duration_minutes, formal_end_minutes, cliff_detection')
+    .eq('id', stored.session_id)
+    .maybeSingle();
+
+  const duration = resolveFormalEndDuration(sessionRecord)?.minutes ?? stored.duration_minutes;
+
+  return persistSessionAttendance(
+    stored.session_id,
+    stored.participants as ZoomPastParticipant[],
+    duration,
+  );
+}
@@ -0,0 +1,270 @@
+/**
+ * Attendance Policy Service
+ * Per-cohort attendance rules and eligibility outcomes (migration 037).
+ *
+ * A session counts as "present" when the student's attendance percentage,
+ * plus credit for joining up to `lateJoinGraceMinutes` late, reaches
+ * `minSessionPercentage`. Excused sessions drop out of the denominator.
+ * Missing more than `maxMissedSessions` makes the student ineligible, which
+ * certificates.ts can use to gate uploads.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AttendanceEligibilityStatus, AttendancePolicy } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AttendancePolicyRules {
+  minSessionPercentage: number;
+  lateJoinGraceMinutes: number;
+  maxMissedSessions: number;
+  excusedAbsencesAllowed: boolean;
+  gateCertificates: boolean;
+}
+
+export type ResolvedAttendancePolicy = {
+  rules: AttendancePolicyRules;
+  /** The stored row, or null when the cohort falls back to the defaults */
+  policy: AttendancePolicy | null;
+};
+
+export interface PolicySessionInput {
+  id: string;
+  scheduled_at: string;
+  duration_minutes: number;
+  actual_duration_minutes: number | null;
+  formal_end_minutes: number | null;
+}
+
+export interface PolicyAttendanceInput {
+  session_id: string;
+  attendance_percentage: number | null;
+  join_time: string | null;
+}
+
+export type SessionOutcome = 'present' | 'absent' | 'excused';
+
+export interface StudentEligibility {
+  status: AttendanceEligibilityStatus;
+  sessionsCounted: number;
+  sessionsPresent: number;
+  sessionsMissed: number;
+  sessionsExcused: number;
+  /** Absences left before becoming ineligible (negative once over the limit) */
+  remainingAbsences: number;
+  /** Mean grace-adjusted percentage over non-excused sessions */
+  adjustedPercentage: number;
+  outcomes: Record<string, SessionOutcome>;
+  /** Grace-adjusted percentage per session id (0 when no record) */
+  percentages: Record<string, number>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicyRules = {
+  minSessionPercentage: 75,
+  lateJoinGraceMinutes: 10,
+  maxMissedSessions: 3,
+  excusedAbsencesAllowed: true,
+  gateCertificates: false,
+};
+
+// ---------------------------------------------------------------------------
+// Pure evaluation
+// ---------------------------------------------------------------------------
+
+export function rowToPolicyRules(row: AttendancePolicy): AttendancePolicyRules {
+  return {
+    minSessionPercentage: Number(row.min_session_percentage),
+    lateJoinGraceMinutes: row.late_join_grace_minutes,
+    maxMissedSessions: row.max_missed_sessions,
+    excusedAbsencesAllowed: row.excused_absences_allowed,
+    gateCertificates: row.gate_certificates,
+  };
+}
+
+function effectiveDurationMinutes(session: PolicySessionInput): number {
+  return session.formal_end_minutes || session.actual_duration_minutes || session.duration_minutes;
+}
+
+/**
+ * Attendance percentage with up to `graceMinutes` of a late join credited
+ * back. Capped at 100.
+ */
+export function graceAdjustedPercentage(
+  session: PolicySessionInput,
+  record: PolicyAttendanceInput,
+  graceMinutes: number,
+): number {
+  const base = record.attendance_percentage || 0;
+  const duration = effectiveDurationMinutes(session);
+  if (!record.join_time || graceMinutes <= 0 || !duration) return base;
+
+  const minutesLate = (new Date(record.join_time).getTime() - new Date(session.scheduled_at).getTime()) / 60000;
+  if (minutesLate <= 0) return base;
+
+  const credited = Math.min(minutesLate, graceMinutes);
+  return Math.min(100, base + (credited / duration) * 100);
+}
+
+export function evaluateStudentEligibility(
+  rules: AttendancePolicyRules,
+  sessions: PolicySessionInput[],
+  records: PolicyAttendanceInput[],
+  excusedSessionIds: ReadonlySet<string> = new Set(),
+): StudentEligibility {
+  const recordBySession = new Map(records.map((r) => [r.session_id, r]));
+  const outcomes: Record<string, SessionOutcome> = {};
+  const percentages: Record<string, number> = {};
+  let present = 0;
+  let missed = 0;
+  let excused = 0;
+  let percentageSum = 0;
+
+  for (const session of sessions) {
+    const record = recordBySession.get(session.id);
+    const adjusted = record ? graceAdjustedPercentage(session, record, rules.lateJoinGraceMinutes) : 0;
+    percentages[session.id] = adjusted;
+
+    if (adjusted >= rules.minSessionPercentage) {
+      outcomes[session.id] = 'present';
+      present++;
+    } else if (rules.excusedAbsencesAllowed && excusedSessionIds.has(session.id)) {
+      outcomes[session.id] = 'excused';
+      excused++;
+      continue;
+    } else {
+      outcomes[session.id] = 'absent';
+      missed++;
+    }
+    percentageSum += adjusted;
+  }
+
+  const counted = present + missed;
+  const remainingAbsences = rules.maxMissedSessions - missed;
+
+  let status: AttendanceEligibilityStatus = 'eligible';
+  if (remainingAbsences < 0) {
+    status = 'ineligible';
+  } else if (remainingAbsences === 0 && missed > 0) {
+    status = 'at_risk';
+  }
+
+  return {
+    status,
+    sessionsCounted: counted,
+    sessionsPresent: present,
+    sessionsMissed: missed,
+    sessionsExcused: excused,
+    remainingAbsences,
+    adjustedPercentage: counted > 0 ? Math.round((percentageSum / counted) * 100) / 100 : 0,
+    outcomes,
+    percentages,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Loaders
+// ---------------------------------------------------------------------------
+
+export async function loadAttendancePolicy(
+  adminClient: SupabaseClient,
+  cohortId: string,
+): Promise<ResolvedAttendancePolicy> {
+  const { data } = await adminClient
+    .from('attendance_policies')
+    .select('*')
+    .eq('cohort_id', cohortId)
+    .maybeSingle();
+
+  const policy = (data as AttendancePolicy | null) ?? null;
+  return { rules: policy ? rowToPolicyRules(policy) : DEFAULT_ATTENDANCE_POLICY, policy };
+}
+
+/** Excused session ids keyed by user id. */
+export async function loadExcusedSessions(
+  adminClient: SupabaseClient,
+  sessionIds: string[],
+  userIds: string[],
+): Promise<Map<string, Set<string>>> {
+  const byUser = new Map<string, Set<string>>();
+  if (sessionIds.length === 0 || userIds.length === 0) return byUser;
+
+  const { data } = await adminClient
+    .from('attendance_excusals')
+    .select('session_id, user_id')
+    .in('session_id', sessionIds)
+    .in('user_id', userIds);
+
+  for (const row of (data || []) as Array<{ session_id: string; user_id: string }>) {
+    const set = byUser.get(row.user_id) || new Set<string>();
+    set.add(row.session_id);
+    byUser.set(row.user_id, set);
+  }
+  return byUser;
+}
+
+/**
+ * Evaluate eligibility for the given students against the cohort's countable
+ * past sessions (same session set the attendance analytics use). `sessions`
+ * is returned oldest first.
+ */
+export async function evaluateCohortEligibility(
+  adminClient: SupabaseClient,
+  cohortId: string,
+  userIds: string[],
+): Promise<{
+  rules: AttendancePolicyRules;
+  sessions: PolicySessionInput[];
+  eligibility: Map<string, StudentEligibility>;
+}> {
+  const [{ rules }, { data: sessions, error: sessionsError }] = await Promise.all([
+    loadAttendancePolicy(adminClient, cohortId),
+    adminClient
+      .from('sessions')
+      .select('id, scheduled_at, duration_minutes, actual_duration_minutes, formal_end_minutes')
+      .eq('counts_for_students', true)
+      .eq('cohort_id', cohortId)
+      .lt('scheduled_at', new Date().toISOString())
+      .order('scheduled_at', { ascending: true }),
+  ]);
+
+  if (sessionsError) throw sessionsError;
+
+  const sessionList = (sessions || []) as PolicySessionInput[];
+  const sessionIds = sessionList.map((s) => s.id);
+
+  const [{ data: records, error: recordsError }, excusedByUser] = await Promise.all([
+    sessionIds.length > 0 && userIds.length > 0
+      ? adminClient
+          .from('attendance')
+          .select('session_id, user_id, attendance_percentage, join_time')
+          .in('session_id', sessionIds)
+          .in('user_id', userIds)
+      : Promise.resolve({ data: [], error: null }),
+    loadExcusedSessions(adminClient, sessionIds, userIds),
+  ]);
+
+  if (recordsError) throw recordsError;
+
+  const recordsByUser = new Map<string, PolicyAttendanceInput[]>();
+  for (const row of (records || []) as Array<PolicyAttendanceInput & { user_id: string }>) {
+    const list = recordsByUser.get(row.user_id) || [];
+    list.push(row);
+    recordsByUser.set(row.user_id, list);
+  }
+
+  const eligibility = new Map<string, StudentEligibility>();
+  for (const userId of userIds) {
+    eligibility.set(
+      userId,
+      evaluateStudentEligibility(rules, sessionList, recordsByUser.get(userId) || [], excusedByUser.get(userId)),
+    );
+  }
+
+  return { rules, sessions: sessionList, eligibility };
+}
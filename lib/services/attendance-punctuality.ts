@@ -0,0 +1,119 @@
+/**
+ * Attendance Punctuality
+ * Late-join / early-leave facts per attendance row (migration 039) and their
+ * per-student and per-cohort aggregates.
+ *
+ * Facts are measured against the schedule, not the Zoom meeting: lateness
+ * from `scheduled_at`, early leave from `scheduled_at + resolved duration`
+ * (so an admin formal end or an applied cliff moves the finish line).
+ */
+
+import type { TimeSegment } from '@/lib/services/attendance-calculator';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PunctualityFacts {
+  /** null when the session has no scheduled start */
+  minutesLate: number | null;
+  minutesLeftEarly: number | null;
+  reconnectCount: number;
+}
+
+export interface PunctualityRecordInput {
+  minutes_late: number | null;
+  minutes_left_early: number | null;
+  reconnect_count: number | null;
+}
+
+export interface PunctualitySummary {
+  /** Rows with punctuality facts (legacy rows without them are skipped) */
+  sessionsMeasured: number;
+  /** Sessions joined more than the threshold late */
+  lateCount: number;
+  avgMinutesLate: number;
+  /** Sessions left more than the threshold before the effective end */
+  earlyLeaveCount: number;
+  avgMinutesLeftEarly: number;
+  totalReconnects: number;
+}
+
+// ---------------------------------------------------------------------------
+// Pure computation
+// ---------------------------------------------------------------------------
+
+/**
+ * Derive punctuality from merged (non-overlapping, sorted) segments.
+ * Joining early or staying past the end counts as zero, never negative.
+ */
+export function computePunctuality(
+  mergedSegments: TimeSegment[],
+  scheduledStart: Date | null,
+  effectiveDurationMinutes: number,
+): PunctualityFacts {
+  const reconnectCount = Math.max(0, mergedSegments.length - 1);
+
+  if (!scheduledStart || mergedSegments.length === 0) {
+    return { minutesLate: null, minutesLeftEarly: null, reconnectCount };
+  }
+
+  const start = scheduledStart.getTime();
+  const end = start + effectiveDurationMinutes * 60_000;
+  const firstJoin = mergedSegments[0].join_time.getTime();
+  const lastLeave = mergedSegments[mergedSegments.length - 1].leave_time.getTime();
+
+  return {
+    minutesLate: Math.max(0, Math.round((firstJoin - start) / 60_000)),
+    minutesLeftEarly: Math.max(0, Math.round((end - lastLeave) / 60_000)),
+    reconnectCount,
+  };
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Aggregate punctuality over attendance rows. A join or leave only counts as
+ * late/early once it exceeds `thresholdMinutes` (the cohort's late-join grace).
+ */
+export function summarizePunctuality(
+  records: PunctualityRecordInput[],
+  thresholdMinutes: number,
+): PunctualitySummary {
+  const measured = records.filter((r) => r.minutes_late !== null && r.minutes_left_early !== null);
+  const totalReconnects = records.reduce((sum, r) => sum + (r.reconnect_count || 0), 0);
+
+  if (measured.length === 0) {
+    return {
+      sessionsMeasured: 0,
+      lateCount: 0,
+      avgMinutesLate: 0,
+      earlyLeaveCount: 0,
+      avgMinutesLeftEarly: 0,
+      totalReconnects,
+    };
+  }
+
+  let lateCount = 0;
+  let earlyLeaveCount = 0;
+  let lateSum = 0;
+  let earlySum = 0;
+
+  for (const r of measured) {
+    const late = r.minutes_late as number;
+    const early = r.minutes_left_early as number;
+    lateSum += late;
+    earlySum += early;
+    if (late > thresholdMinutes) lateCount++;
+    if (early > thresholdMinutes) earlyLeaveCount++;
+  }
+
+  return {
+    sessionsMeasured: measured.length,
+    lateCount,
+    avgMinutesLate: round1(lateSum / measured.length),
+    earlyLeaveCount,
+    avgMinutesLeftEarly: round1(earlySum / measured.length),
+    totalReconnects,
+  };
+}
@@ -0,0 +1,304 @@
+/**
+ * Attendance Replay Engine
+ * Deterministically rebuilds attendance + attendance_segments for a session
+ * from stored Zoom webhook events alone (no Zoom API calls).
+ *
+ * Replay is a pure fold over verified events ordered by event time:
+ * 1. participant_joined → open a segment for the participant key
+ * 2. participant_left   → close the open segment (or use the payload's join_time)
+ * 3. meeting.ended      → close every open segment at the meeting end
+ * 4. Still-open segments close at the last observed event time
+ *
+ * The resulting participant rows go through the same group/resolve/merge/
+ * percentage pipeline as calculateSessionAttendance, so both sources agree.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import type { ZoomPastParticipant } from '@/lib/integrations/zoom';
+import {
+  persistSessionAttendance,
+  recalculateSessionAttendance,
+  resolveFormalEndDuration,
+  resolveSessionRecordDuration,
+} from '@/lib/services/attendance-calculator';
+import { listWebhookEvents } from '@/lib/services/zoom-webhook-events';
+import { findCurrentOfflineImport, replayAttendanceImport } from '@/lib/services/attendance-import';
+import type { ZoomWebhookEventRecord } from '@/types';
+
+export interface ReplayedMeeting {
+  participants: ZoomPastParticipant[];
+  meetingStart: string | null;
+  meetingEnd: string | null;
+  eventsApplied: number;
+  eventsIgnored: number;
+}
+
+export interface ReplayResult {
+  imported: number;
+  unmatched: number;
+  actualDurationUsed: number;
+  durationSource: string;
+  eventsApplied: number;
+  eventsIgnored: number;
+}
+
+export type SessionRecalculation =
+  | { ok: true; source: 'zoom_api' | 'webhook_events' | 'offline_import'; imported: number; unmatched: number }
+  | { ok: false; message: string };
+
+interface OpenSegment {
+  key: string;
+  email: string;
+  name: string;
+  joinTime: string;
+}
+
+type EventPayloadObject = {
+  start_time?: string;
+  end_time?: string;
+  participant?: { join_time?: string; leave_time?: string };
+};
+
+function payloadObject(event: ZoomWebhookEventRecord): EventPayloadObject {
+  const payload = event.payload?.payload as { object?: EventPayloadObject } | undefined;
+  return payload?.object || {};
+}
+
+function eventTime(event: ZoomWebhookEventRecord): string {
+  return event.event_ts || event.received_at;
+}
+
+function toParticipant(open: OpenSegment, leaveTime: string): ZoomPastParticipant {
+  const durationSeconds = Math.max(
+    0,
+    Math.round((new Date(leaveTime).getTime() - new Date(open.joinTime).getTime()) / 1000)
+  );
+  return {
+    id: open.key,
+    user_id: open.key,
+    name: open.name,
+    user_email: open.email,
+    join_time: open.joinTime,
+    leave_time: leaveTime,
+    duration: durationSeconds,
+  };
+}
+
+/**
+ * Fold stored webhook events into Zoom past-participant rows.
+ * Pure and order-independent on input: events are sorted by event time,
+ * then by received_at, then by id so replays are deterministic.
+ */
+export function replayWebhookEvents(events: ZoomWebhookEventRecord[]): ReplayedMeeting {
+  const sorted = [...events].sort((a, b) => {
+    const byTs = new Date(eventTime(a)).getTime() - new Date(eventTime(b)).getTime();
+    if (byTs !== 0) return byTs;
+    const byReceived = new Date(a.received_at).getTime() - new Date(b.received_at).getTime();
+    if (byReceived !== 0) return byReceived;
+    return a.id.localeCompare(b.id);
+  });
+
+  const open = new Map<string, OpenSegment>();
+  const participants: ZoomPastParticipant[] = [];
+  let meetingStart: string | null = null;
+  let meetingEnd: string | null = null;
+  let lastSeen: string | null = null;
+  let eventsApplied = 0;
+  let eventsIgnored = 0;
+
+  for (const event of sorted) {
+    const object = payloadObject(event);
+    const at = eventTime(event);
+    lastSeen = at;
+
+    switch (event.event_type) {
+      case 'meeting.started': {
+        meetingStart = object.start_time || at;
+        eventsApplied++;
+        break;
+      }
+
+      case 'meeting.participant_joined': {
+        if (!event.participant_key) {
+          eventsIgnored++;
+          break;
+        }
+        // Duplicate join without a leave in between — keep the earlier one
+        if (open.has(event.participant_key)) {
+          eventsIgnored++;
+          break;
+        }
+        open.set(event.participant_key, {
+          key: event.participant_key,
+          email: event.participant_email || '',
+          name: event.participant_name || event.participant_email || 'Unknown',
+          joinTime: object.participant?.join_time || at,
+        });
+        eventsApplied++;
+        break;
+      }
+
+      case 'meeting.participant_left': {
+        if (!event.participant_key) {
+          eventsIgnored++;
+          break;
+        }
+        const leaveTime = object.participant?.leave_time || at;
+        const existing = open.get(event.participant_key);
+
+        if (existing) {
+          participants.push(toParticipant(existing, leaveTime));
+          open.delete(event.participant_key);
+          eventsApplied++;
+        } else if (object.participant?.join_time) {
+          // Join delivery was lost, but the leave payload carries join_time
+          participants.push(
+            toParticipant(
+              {
+                key: event.participant_key,
+                email: event.participant_email || '',
+                name: event.participant_name || event.participant_email || 'Unknown',
+                joinTime: object.participant.join_time,
+              },
+              leaveTime
+            )
+          );
+          eventsApplied++;
+        } else {
+          eventsIgnored++;
+        }
+        break;
+      }
+
+      case 'meeting.ended': {
+        meetingEnd = object.end_time || at;
+        if (!meetingStart && object.start_time) {
+          meetingStart = object.start_time;
+        }
+        for (const segment of open.values()) {
+          participants.push(toParticipant(segment, meetingEnd));
+        }
+        open.clear();
+        eventsApplied++;
+        break;
+      }
+
+      default:
+        eventsIgnored++;
+    }
+  }
+
+  // Meeting never reported an end — close at the last event we saw
+  if (open.size > 0 && lastSeen) {
+    for (const segment of open.values()) {
+      participants.push(toParticipant(segment, meetingEnd || lastSeen));
+    }
+  }
+
+  return { participants, meetingStart, meetingEnd, eventsApplied, eventsIgnored };
+}
+
+/**
+ * Rebuild attendance for a session from its stored, signature-verified events.
+ *
+ * Duration priority chain (mirrors calculateSessionAttendance, with the
+ * webhook meeting.started → meeting.ended span standing in for the Zoom API):
+ * 1-2. formal_end_minutes / detected cliff
+ * 3.   meeting span observed in the event stream
+ * 4-5. session.actual_duration_minutes / session.duration_minutes
+ */
+export async function replaySessionAttendance(
+  sessionId: string,
+  meetingUuid?: string
+): Promise<ReplayResult> {
+  const supabase = await createAdminClient();
+
+  const { data: sessionRecord } = await supabase
+    .from('sessions')
+    .select('actual_duration_minutes, duration_minutes, formal_end_minutes, cliff_detection')
+    .eq('id', sessionId)
+    .single();
+
+  if (!sessionRecord) {
+    throw new Error('Session not found');
+  }
+
+  const events = await listWebhookEvents({ sessionId, meetingUuid, verifiedOnly: true });
+  if (events.length === 0) {
+    throw new Error('No verified webhook events stored for this session');
+  }
+
+  const replayed = replayWebhookEvents(events);
+
+  let resolved = resolveFormalEndDuration(sessionRecord);
+
+  if (!resolved && replayed.meetingStart && replayed.meetingEnd) {
+    const span = Math.round(
+      (new Date(replayed.meetingEnd).getTime() - new Date(replayed.meetingStart).getTime()) / 60000
+    );
+    if (span > 0) {
+      resolved = { minutes: span, source: 'webhook_events' };
+    }
+  }
+
+  if (!resolved) {
+    resolved = resolveSessionRecordDuration(sessionRecord);
+  }
+
+  if (!resolved) {
+    throw new Error('Could not determine meeting duration from any source');
+  }
+
+  console.log(`[Attendance Replay] Using duration: ${resolved.minutes} min (source: ${resolved.source}) for session ${sessionId}`);
+
+  const { imported, unmatched } = await persistSessionAttendance(
+    sessionId,
+    replayed.participants,
+    resolved.minutes
+  );
+
+  return {
+    imported,
+    unmatched,
+    actualDurationUsed: resolved.minutes,
+    durationSource: resolved.source,
+    eventsApplied: replayed.eventsApplied,
+    eventsIgnored: replayed.eventsIgnored,
+  };
+}
+
+/**
+ * Rerun attendance for a session after its matching inputs changed (new alias,
+ * manual segment). Sessions last imported from an uploaded file replay that
+ * file. Otherwise Zoom API first; if Zoom no longer has the meeting (or is
+ * rate limiting), fall back to stored webhook events. Never throws.
+ */
+export async function recalculateSessionWithFallback(sessionId: string): Promise<SessionRecalculation> {
+  try {
+    const supabase = await createAdminClient();
+    const offlineImport = await findCurrentOfflineImport(supabase, sessionId);
+    if (offlineImport) {
+      const result = await replayAttendanceImport(supabase, offlineImport);
+      return { ok: true, source: 'offline_import', imported: result.imported, unmatched: result.unmatched };
+    }
+  } catch (importError) {
+    return { ok: false, message: importError instanceof Error ? importError.message : String(importError) };
+  }
+
+  try {
+    const result = await recalculateSessionAttendance(sessionId);
+    return { ok: true, source: 'zoom_api', imported: result.imported, unmatched: result.unmatched };
+  } catch (zoomError) {
+    try {
+      const result = await replaySessionAttendance(sessionId);
+      return { ok: true, source: 'webhook_events', imported: result.imported, unmatched: result.unmatched };
+    } catch (replayError) {
+      return {
+        ok: false,
+        message: [zoomError, replayError]
+          .map((e) => (e instanceof Error ? e.message : String(e)))
+          .join('; '),
+      };
+    }
+  }
+}
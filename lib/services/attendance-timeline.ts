@@ -0,0 +1,215 @@
+/**
+ * Attendance Timeline
+ * Minute-by-minute view of a session built from stored attendance_segments:
+ * the concurrent-attendee curve, joins and departures per minute, and one
+ * swimlane per attendee.
+ *
+ * Minutes are measured from the session's scheduled start, with early joins
+ * clamped to minute 0. `cliff_detection.effectiveEndMinutes` counts from the
+ * Zoom meeting start and is drawn on the same axis, so it lands off by as
+ * much as the meeting started late.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CliffDetectionResult } from '@/lib/services/cliff-detector';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TimelineLaneInput {
+  userId: string | null;
+  name: string;
+  email: string | null;
+  segments: Array<{ join_time: string; leave_time: string | null }>;
+}
+
+export interface TimelineMinute {
+  minute: number;
+  /** Distinct attendees connected at any point during this minute */
+  present: number;
+  joins: number;
+  departures: number;
+}
+
+export interface TimelineLane {
+  userId: string | null;
+  name: string;
+  email: string | null;
+  /** Offsets in minutes from the origin, one decimal */
+  segments: Array<{ start: number; end: number }>;
+  attendedMinutes: number;
+}
+
+export interface AttendanceTimeline {
+  totalMinutes: number;
+  minutes: TimelineMinute[];
+  lanes: TimelineLane[];
+  peak: { minute: number; present: number } | null;
+}
+
+export type SessionTimelineResult =
+  | {
+      ok: true;
+      session: { id: string; title: string; scheduledAt: string };
+      origin: string;
+      effectiveEndMinutes: number | null;
+      formalEndMinutes: number | null;
+      cliffDetected: boolean;
+      timeline: AttendanceTimeline;
+    }
+  | { ok: false; error: { stage: 'session' | 'attendance'; message: string } };
+
+// ---------------------------------------------------------------------------
+// Pure builder
+// ---------------------------------------------------------------------------
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Bucket segments into whole minutes from `origin`. A segment without a
+ * leave time runs to the latest leave seen in the session.
+ */
+export function buildAttendanceTimeline(lanesInput: TimelineLaneInput[], origin: Date): AttendanceTimeline {
+  const originMs = origin.getTime();
+  const toMinutes = (iso: string) => (new Date(iso).getTime() - originMs) / 60000;
+
+  let lastLeave = 0;
+  for (const lane of lanesInput) {
+    for (const s of lane.segments) {
+      lastLeave = Math.max(lastLeave, toMinutes(s.leave_time ?? s.join_time));
+    }
+  }
+
+  const laneEntries = lanesInput
+    .map((lane) => {
+      const raw = lane.segments
+        .map((s) => ({
+          start: Math.max(0, toMinutes(s.join_time)),
+          end: s.leave_time ? toMinutes(s.leave_time) : lastLeave,
+        }))
+        .filter((s) => s.end > s.start)
+        .sort((a, b) => a.start - b.start);
+
+      const out: TimelineLane = {
+        userId: lane.userId,
+        name: lane.name,
+        email: lane.email,
+        segments: raw.map((s) => ({ start: round1(s.start), end: round1(s.end) })),
+        attendedMinutes: round1(raw.reduce((sum, s) => sum + (s.end - s.start), 0)),
+      };
+      return { lane: out, raw };
+    })
+    .filter((entry) => entry.raw.length > 0)
+    .sort((a, b) => a.raw[0].start - b.raw[0].start);
+
+  const totalMinutes = Math.ceil(lastLeave);
+  const minutes: TimelineMinute[] = Array.from({ length: totalMinutes }, (_, minute) => ({
+    minute,
+    present: 0,
+    joins: 0,
+    departures: 0,
+  }));
+
+  for (const { raw } of laneEntries) {
+    const covered = new Set<number>();
+    for (const s of raw) {
+      const first = Math.floor(s.start);
+      // A segment ending exactly on a boundary doesn't occupy the next minute
+      const last = Math.min(Math.ceil(s.end) - 1, totalMinutes - 1);
+      for (let m = first; m <= last; m++) covered.add(m);
+      if (minutes[first]) minutes[first].joins++;
+      const leaveBucket = Math.min(Math.floor(s.end), totalMinutes - 1);
+      if (minutes[leaveBucket]) minutes[leaveBucket].departures++;
+    }
+    for (const m of covered) minutes[m].present++;
+  }
+
+  let peak: AttendanceTimeline['peak'] = null;
+  for (const m of minutes) {
+    if (!peak || m.present > peak.present) peak = { minute: m.minute, present: m.present };
+  }
+
+  return {
+    totalMinutes,
+    minutes,
+    lanes: laneEntries.map((entry) => entry.lane),
+    peak,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Loader
+// ---------------------------------------------------------------------------
+
+export async function getSessionTimeline(
+  adminClient: SupabaseClient,
+  sessionId: string,
+): Promise<SessionTimelineResult> {
+  const { data: session } = await adminClient
+    .from('sessions')
+    .select('id, title, scheduled_at, formal_end_minutes, cliff_detection')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (!session) {
+    return { ok: false, error: { stage: 'session', message: 'Session not found' } };
+  }
+
+  const { data: attendance, error: attendanceError } = await adminClient
+    .from('attendance')
+    .select('id, user_id, zoom_user_email, user:profiles(full_name, email)')
+    .eq('session_id', sessionId);
+
+  if (attendanceError) {
+    return { ok: false, error: { stage: 'attendance', message: attendanceError.message } };
+  }
+
+  const rows = (attendance || []) as unknown as Array<{
+    id: string;
+    user_id: string | null;
+    zoom_user_email: string | null;
+    user: { full_name: string | null; email: string } | { full_name: string | null; email: string }[] | null;
+  }>;
+
+  const segmentsByAttendance = new Map<string, Array<{ join_time: string; leave_time: string | null }>>();
+  if (rows.length > 0) {
+    const { data: segments, error: segmentsError } = await adminClient
+      .from('attendance_segments')
+      .select('attendance_id, join_time, leave_time')
+      .in('attendance_id', rows.map((r) => r.id));
+
+    if (segmentsError) {
+      return { ok: false, error: { stage: 'attendance', message: segmentsError.message } };
+    }
+    for (const s of segments || []) {
+      const list = segmentsByAttendance.get(s.attendance_id) || [];
+      list.push({ join_time: s.join_time, leave_time: s.leave_time });
+      segmentsByAttendance.set(s.attendance_id, list);
+    }
+  }
+
+  const lanes: TimelineLaneInput[] = rows.map((r) => {
+    const profile = Array.isArray(r.user) ? r.user[0] : r.user;
+    return {
+      userId: r.user_id,
+      name: profile?.full_name || profile?.email || r.zoom_user_email || 'Unknown',
+      email: profile?.email ?? r.zoom_user_email,
+      segments: segmentsByAttendance.get(r.id) || [],
+    };
+  });
+
+  const origin = session.scheduled_at;
+
+  const cliff = session.cliff_detection as CliffDetectionResult | null;
+
+  return {
+    ok: true,
+    session: { id: session.id, title: session.title, scheduledAt: session.scheduled_at },
+    origin,
+    effectiveEndMinutes: cliff?.detected ? (cliff.effectiveEndMinutes ?? null) : null,
+    formalEndMinutes: session.formal_end_minutes,
+    cliffDetected: !!cliff?.detected,
+    timeline: buildAttendanceTimeline(lanes, new Date(origin)),
+  };
+}
@@ -0,0 +1,348 @@
+/**
+ * Case Study Analytics Service
+ * Per-case-study numbers for admins: how far subgroups got (funnel), when
+ * they submitted relative to the deadline, how graded work scored overall
+ * and per rubric criterion, and how long reviewers took.
+ *
+ * Scores come from the grading admin review, as in the grade book. Bins are
+ * fixed rather than fitted to the data, so the same case study run in
+ * different cohorts (linked through clone lineage) lines up bin for bin.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  AnalyticsHistogramBin,
+  CaseStudyAnalytics,
+  CaseStudyCriterionDistribution,
+  CaseStudyFunnelStage,
+  ReviewTurnaround,
+} from '@/types';
+import { lineageFilter } from '@/lib/services/case-study-clone';
+import { getEffectiveDeadline } from '@/lib/services/case-study-deadline';
+import { pickGradingReview } from '@/lib/services/review-calibration';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const FUNNEL_STAGES: CaseStudyFunnelStage[] = ['not_started', 'draft', 'submitted', 'reviewed', 'published'];
+
+const PUBLISHED = ['subgroup_published', 'cohort_published'];
+const REVIEWED = ['admin_reviewed', 'mentor_visible'];
+
+/** Hours relative to the deadline (negative = early); a bin takes values up to and including `max`. */
+export const TIMING_BINS: { label: string; max: number }[] = [
+  { label: '3+ days early', max: -72 },
+  { label: '1-3 days early', max: -24 },
+  { label: '6-24h early', max: -6 },
+  { label: '1-6h early', max: -1 },
+  { label: 'Final hour', max: 0 },
+  { label: 'Under 1h late', max: 1 },
+  { label: '1-24h late', max: 24 },
+  { label: '1+ day late', max: Infinity },
+];
+
+const PERCENT_BINS = ['0-20%', '20-40%', '40-60%', '60-80%', '80-100%'];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AnalyticsSubmissionInput {
+  id: string;
+  subgroup_id: string;
+  visibility: string;
+  submitted_at: string | null;
+  deadline_override: string | null;
+  adjudicated_by: string | null;
+}
+
+export interface AnalyticsReviewInput {
+  id: string;
+  submission_id: string;
+  reviewer_id: string;
+  reviewer_role: 'admin' | 'mentor';
+  score: number | null;
+  adjusted_score: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AnalyticsInput {
+  caseStudy: {
+    id: string;
+    title: string;
+    cohort_id: string;
+    cohort_name: string | null;
+    due_date: string | null;
+    max_score: number;
+  };
+  subgroupIds: string[];
+  submissions: AnalyticsSubmissionInput[];
+  reviews: AnalyticsReviewInput[];
+  criteria: { id: string; label: string; max_score: number }[];
+  rubricScores: { review_id: string; criteria_id: string; score: number }[];
+}
+
+type AnalyticsError = {
+  stage: 'not_found' | 'database';
+  message: string;
+};
+
+export type AnalyticsResult<T> = ({ ok: true } & T) | { ok: false; error: AnalyticsError };
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/** Nearest-rank percentile of an ascending list. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function funnelStage(
+  submission: Pick<AnalyticsSubmissionInput, 'visibility' | 'submitted_at'> | null,
+  reviews: Pick<AnalyticsReviewInput, 'score'>[],
+): CaseStudyFunnelStage {
+  if (!submission) return 'not_started';
+  if (PUBLISHED.includes(submission.visibility)) return 'published';
+  if (submission.visibility === 'draft' || !submission.submitted_at) return 'draft';
+  if (REVIEWED.includes(submission.visibility) || reviews.some(r => r.score !== null)) return 'reviewed';
+  return 'submitted';
+}
+
+export function timingBin(hoursFromDeadline: number): number {
+  return TIMING_BINS.findIndex(b => hoursFromDeadline <= b.max);
+}
+
+function percentBin(percent: number): number {
+  return Math.min(PERCENT_BINS.length - 1, Math.max(0, Math.floor(percent / 20)));
+}
+
+function emptyBins(labels: string[]): AnalyticsHistogramBin[] {
+  return labels.map(label => ({ label, count: 0 }));
+}
+
+export function buildCaseStudyAnalytics(input: AnalyticsInput): CaseStudyAnalytics {
+  const { caseStudy } = input;
+  const reviewsBySubmission = new Map<string, AnalyticsReviewInput[]>();
+  for (const r of input.reviews) {
+    const list = reviewsBySubmission.get(r.submission_id) || [];
+    list.push(r);
+    reviewsBySubmission.set(r.submission_id, list);
+  }
+
+  // Funnel: every subgroup in the cohort, plus any submission from one no longer in it
+  const submissionBySubgroup = new Map(input.submissions.map(s => [s.subgroup_id, s]));
+  const subgroupIds = new Set([...input.subgroupIds, ...submissionBySubgroup.keys()]);
+  const counts = new Map<CaseStudyFunnelStage, number>(FUNNEL_STAGES.map(stage => [stage, 0]));
+  for (const subgroupId of subgroupIds) {
+    const submission = submissionBySubgroup.get(subgroupId) ?? null;
+    const stage = funnelStage(submission, submission ? reviewsBySubmission.get(submission.id) || [] : []);
+    counts.set(stage, counts.get(stage)! + 1);
+  }
+  const funnel = FUNNEL_STAGES.map((stage, i) => ({
+    stage,
+    count: counts.get(stage)!,
+    reached: FUNNEL_STAGES.slice(i).reduce((sum, s) => sum + counts.get(s)!, 0),
+  }));
+
+  // Timing, for submissions that were actually handed in
+  const timing = emptyBins(TIMING_BINS.map(b => b.label));
+  const offsets: number[] = [];
+  for (const s of input.submissions) {
+    if (!s.submitted_at || s.visibility === 'draft') continue;
+    const deadline = getEffectiveDeadline(s, caseStudy);
+    if (!deadline) continue;
+    const hours = (new Date(s.submitted_at).getTime() - deadline.getTime()) / HOUR_MS;
+    offsets.push(hours);
+    timing[timingBin(hours)].count++;
+  }
+  offsets.sort((a, b) => a - b);
+  const medianOffset = percentile(offsets, 50);
+
+  // Scores from each submission's grading admin review
+  const scores = emptyBins(PERCENT_BINS);
+  const gradingReviewIds = new Set<string>();
+  for (const s of input.submissions) {
+    const admin = (reviewsBySubmission.get(s.id) || []).filter(r => r.reviewer_role === 'admin');
+    const grading = pickGradingReview(admin, s.adjudicated_by);
+    if (!grading || caseStudy.max_score <= 0) continue;
+    gradingReviewIds.add(grading.id);
+    const final = Number(grading.adjusted_score ?? grading.score);
+    scores[percentBin((final / caseStudy.max_score) * 100)].count++;
+  }
+
+  const criteria: CaseStudyCriterionDistribution[] = input.criteria.map(c => {
+    const bins = emptyBins(PERCENT_BINS);
+    const percents = input.rubricScores
+      .filter(rs => rs.criteria_id === c.id && gradingReviewIds.has(rs.review_id) && c.max_score > 0)
+      .map(rs => (Number(rs.score) / c.max_score) * 100);
+    for (const p of percents) bins[percentBin(p)].count++;
+    return {
+      criteria_id: c.id,
+      label: c.label,
+      max_score: c.max_score,
+      bins,
+      mean_percent: percents.length ? round1(percents.reduce((a, b) => a + b, 0) / percents.length) : null,
+      scored: percents.length,
+    };
+  });
+
+  // Turnaround from submission to the review being started. A review that
+  // predates the latest submitted_at was of an earlier version; skip it.
+  const submittedAt = new Map(input.submissions.map(s => [s.id, s.submitted_at]));
+  const turnaround: ReviewTurnaround[] = (['admin', 'mentor'] as const).map(role => {
+    const hours = input.reviews
+      .filter(r => r.reviewer_role === role)
+      .map(r => {
+        const at = submittedAt.get(r.submission_id);
+        return at ? (new Date(r.created_at).getTime() - new Date(at).getTime()) / HOUR_MS : null;
+      })
+      .filter((h): h is number => h !== null && h >= 0)
+      .sort((a, b) => a - b);
+    const median = percentile(hours, 50);
+    const p90 = percentile(hours, 90);
+    return {
+      reviewer_role: role,
+      reviews: hours.length,
+      median_hours: median === null ? null : round1(median),
+      p90_hours: p90 === null ? null : round1(p90),
+    };
+  });
+
+  return {
+    case_study_id: caseStudy.id,
+    title: caseStudy.title,
+    cohort_id: caseStudy.cohort_id,
+    cohort_name: caseStudy.cohort_name,
+    due_date: caseStudy.due_date,
+    max_score: caseStudy.max_score,
+    subgroups: subgroupIds.size,
+    funnel,
+    timing: offsets.length ? timing : [],
+    median_hours_before_deadline: medianOffset === null ? null : round1(-medianOffset),
+    scores,
+    criteria,
+    turnaround,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+/**
+ * Analytics for a case study, followed by the same case study (its original
+ * or clones of it) in other cohorts, most recent cohort first.
+ */
+export async function getCaseStudyAnalytics(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+): Promise<AnalyticsResult<{ analytics: CaseStudyAnalytics[] }>> {
+  try {
+    const { data: caseStudy, error: csError } = await adminClient
+      .from('case_studies')
+      .select('id, title, cohort_id, source_case_study_id')
+      .eq('id', caseStudyId)
+      .maybeSingle();
+    if (csError) throw csError;
+    if (!caseStudy) return { ok: false, error: { stage: 'not_found', message: 'Case study not found' } };
+
+    const { data: caseStudies, error: allError } = await adminClient
+      .from('case_studies')
+      .select('id, title, cohort_id, due_date, max_score, cohort:cohorts(name, start_date)')
+      .or(lineageFilter(caseStudy));
+    if (allError) throw allError;
+
+    type Row = {
+      id: string;
+      title: string;
+      cohort_id: string;
+      due_date: string | null;
+      max_score: number;
+      cohort: { name: string; start_date: string | null } | null;
+    };
+    const rows = ((caseStudies || []) as unknown as Row[])
+      .filter(cs => cs.id === caseStudyId || cs.cohort_id !== caseStudy.cohort_id)
+      .sort((a, b) => {
+        if (a.id === caseStudyId) return -1;
+        if (b.id === caseStudyId) return 1;
+        return (b.cohort?.start_date ?? '').localeCompare(a.cohort?.start_date ?? '');
+      });
+
+    const ids = rows.map(cs => cs.id);
+    const cohortIds = [...new Set(rows.map(cs => cs.cohort_id))];
+
+    const [subgroupsRes, submissionsRes, criteriaRes] = await Promise.all([
+      adminClient.from('subgroups').select('id, cohort_id').in('cohort_id', cohortIds),
+      adminClient
+        .from('case_study_submissions')
+        .select('id, case_study_id, subgroup_id, visibility, submitted_at, deadline_override, adjudicated_by')
+        .in('case_study_id', ids),
+      adminClient
+        .from('case_study_rubric_criteria')
+        .select('id, case_study_id, label, max_score')
+        .in('case_study_id', ids)
+        .order('order_index'),
+    ]);
+    if (subgroupsRes.error) throw subgroupsRes.error;
+    if (submissionsRes.error) throw submissionsRes.error;
+    if (criteriaRes.error) throw criteriaRes.error;
+
+    const submissions = submissionsRes.data || [];
+    const submissionIds = submissions.map(s => s.id as string);
+    const { data: reviews, error: reviewError } = submissionIds.length
+      ? await adminClient
+          .from('case_study_reviews')
+          .select('id, submission_id, reviewer_id, reviewer_role, score, adjusted_score, created_at, updated_at')
+          .in('submission_id', submissionIds)
+      : { data: [], error: null };
+    if (reviewError) throw reviewError;
+
+    const adminReviewIds = (reviews || []).filter(r => r.reviewer_role === 'admin').map(r => r.id as string);
+    const { data: rubricScores, error: rubricError } = adminReviewIds.length
+      ? await adminClient
+          .from('case_study_rubric_scores')
+          .select('review_id, criteria_id, score')
+          .in('review_id', adminReviewIds)
+      : { data: [], error: null };
+    if (rubricError) throw rubricError;
+
+    const caseStudyBySubmission = new Map(submissions.map(s => [s.id as string, s.case_study_id as string]));
+
+    const analytics = rows.map(cs => {
+      const csSubmissions = submissions.filter(s => s.case_study_id === cs.id) as AnalyticsSubmissionInput[];
+      const csReviews = ((reviews || []) as AnalyticsReviewInput[]).filter(
+        r => caseStudyBySubmission.get(r.submission_id) === cs.id,
+      );
+      return buildCaseStudyAnalytics({
+        caseStudy: {
+          id: cs.id,
+          title: cs.title,
+          cohort_id: cs.cohort_id,
+          cohort_name: cs.cohort?.name ?? null,
+          due_date: cs.due_date,
+          max_score: cs.max_score,
+        },
+        subgroupIds: (subgroupsRes.data || []).filter(sg => sg.cohort_id === cs.cohort_id).map(sg => sg.id as string),
+        submissions: csSubmissions,
+        reviews: csReviews,
+        criteria: (criteriaRes.data || []).filter(c => c.case_study_id === cs.id),
+        rubricScores: (rubricScores || []) as AnalyticsInput['rubricScores'],
+      });
+    });
+
+    return { ok: true, analytics };
+  } catch (error) {
+    return { ok: false, error: { stage: 'database', message: error instanceof Error ? error.message : String(error) } };
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * Case Study Clone Service
+ * Copies case studies from one cohort to another: settings, problem file,
+ * rubric criteria and general solutions (subgroup-specific ones are listed
+ * in the report's notes instead). Storage files are copied rather than shared,
+ * because deleting a case study removes its files.
+ *
+ * Week numbers are relative to a cohort's start, so they carry over as-is
+ * (plus an optional offset). Due dates keep their distance from the cohort's
+ * start_date: a case due on day 17 of the source cohort is due on day 17 of
+ * the target.
+ *
+ * Each clone records its original in source_case_study_id, which is how
+ * similarity checks and analytics find the same case study in other cohorts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CaseStudy, CaseStudyCloneCopied, CaseStudyCloneReport, CaseStudyCloneSkipped } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Settings copied verbatim. Per-run state (closed, archived, leaderboard,
+ * similarity runs) starts fresh, and solutions start hidden.
+ */
+const COPIED_COLUMNS = [
+  'title',
+  'description',
+  'order_index',
+  'max_score',
+  'grace_period_minutes',
+  'rubric_template_id',
+  'calibration_mode',
+  'calibration_threshold',
+  'peer_review_enabled',
+  'peer_reviews_per_subgroup',
+  'late_policy',
+  'late_penalty_points',
+  'late_penalty_percent',
+  'late_penalty_unit',
+  'late_penalty_cap_percent',
+  'late_zero_after_hours',
+  'contribution_survey_enabled',
+  'similarity_threshold',
+] as const;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ScheduleInput {
+  week_number: number;
+  end_week_number: number | null;
+  due_date: string | null;
+}
+
+export interface ShiftedSchedule extends ScheduleInput {
+  /** Why the due date was dropped or needs a look */
+  note: string | null;
+}
+
+type CloneError = {
+  stage: 'validation' | 'not_found' | 'database';
+  message: string;
+};
+
+export type CloneResult<T> = ({ ok: true } & T) | { ok: false; error: CloneError };
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+function dateToUtcMs(date: string): number {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+/**
+ * Move a case study's weeks and due date from the source cohort's calendar
+ * to the target's. Returns null when the offset would put it before week 1.
+ */
+export function shiftSchedule(
+  source: ScheduleInput,
+  sourceStart: string | null,
+  targetStart: string | null,
+  weekOffset = 0,
+  now = new Date(),
+): ShiftedSchedule | null {
+  const week_number = source.week_number + weekOffset;
+  const end_week_number = source.end_week_number === null ? null : source.end_week_number + weekOffset;
+  if (week_number < 1) return null;
+
+  if (!source.due_date) return { week_number, end_week_number, due_date: null, note: null };
+  if (!sourceStart || !targetStart) {
+    const missing = !sourceStart ? 'the source cohort' : 'the target cohort';
+    return { week_number, end_week_number, due_date: null, note: `No due date: ${missing} has no start date` };
+  }
+
+  const shiftMs = dateToUtcMs(targetStart) - dateToUtcMs(sourceStart) + weekOffset * 7 * DAY_MS;
+  const due = new Date(new Date(source.due_date).getTime() + shiftMs);
+  return {
+    week_number,
+    end_week_number,
+    due_date: due.toISOString(),
+    note: due < now ? 'Due date is in the past' : null,
+  };
+}
+
+/** The original a case study descends from: itself unless it was cloned. */
+export function lineageRoot(caseStudy: Pick<CaseStudy, 'id' | 'source_case_study_id'>): string {
+  return caseStudy.source_case_study_id ?? caseStudy.id;
+}
+
+/** PostgREST `or` filter for a case study's lineage: the original and every clone of it. */
+export function lineageFilter(caseStudy: Pick<CaseStudy, 'id' | 'source_case_study_id'>): string {
+  const root = lineageRoot(caseStudy);
+  return `id.eq.${root},source_case_study_id.eq.${root}`;
+}
+
+function sameTitle(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Storage path for a copied file: the target cohort's folder, a fresh timestamp, the original name. */
+export function clonedFilePath(sourcePath: string, targetCohortId: string, stamp = Date.now()): string {
+  const name = sourcePath.split('/').pop()!.replace(/^\d+_/, '');
+  return `${targetCohortId}/${stamp}_${name}`;
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+async function copyFile(adminClient: SupabaseClient, from: string, to: string): Promise<boolean> {
+  const { error } = await adminClient.storage.from('resources').copy(from, to);
+  if (error) console.error(`Error copying ${from}:`, error);
+  return !error;
+}
+
+/**
+ * Clone case studies from `sourceCohortId` into `targetCohortId`. Without
+ * `caseStudyIds` every non-archived case study is cloned. Case studies already
+ * cloned into the target, or whose title exists there, are skipped, so
+ * re-running is safe.
+ */
+export async function cloneCaseStudies(
+  adminClient: SupabaseClient,
+  sourceCohortId: string,
+  targetCohortId: string,
+  options: { caseStudyIds?: string[] | null; weekOffset?: number } = {},
+): Promise<CloneResult<{ report: CaseStudyCloneReport }>> {
+  const weekOffset = options.weekOffset ?? 0;
+  if (sourceCohortId === targetCohortId) {
+    return { ok: false, error: { stage: 'validation', message: 'Source and target cohorts must differ' } };
+  }
+
+  const { data: cohorts, error: cohortError } = await adminClient
+    .from('cohorts')
+    .select('id, start_date')
+    .in('id', [sourceCohortId, targetCohortId]);
+  if (cohortError) return { ok: false, error: { stage: 'database', message: cohortError.message } };
+
+  const source = cohorts?.find(c => c.id === sourceCohortId);
+  const target = cohorts?.find(c => c.id === targetCohortId);
+  if (!source) return { ok: false, error: { stage: 'not_found', message: 'Source cohort not found' } };
+  if (!target) return { ok: false, error: { stage: 'not_found', message: 'Target cohort not found' } };
+
+  let sourceQuery = adminClient
+    .from('case_studies')
+    .select('*')
+    .eq('cohort_id', sourceCohortId)
+    .order('week_number')
+    .order('order_index');
+  sourceQuery = options.caseStudyIds?.length
+    ? sourceQuery.in('id', options.caseStudyIds)
+    : sourceQuery.eq('is_archived', false);
+
+  const [sourceRes, existingRes] = await Promise.all([
+    sourceQuery,
+    adminClient.from('case_studies').select('id, title, source_case_study_id').eq('cohort_id', targetCohortId),
+  ]);
+  if (sourceRes.error) return { ok: false, error: { stage: 'database', message: sourceRes.error.message } };
+  if (existingRes.error) return { ok: false, error: { stage: 'database', message: existingRes.error.message } };
+
+  const caseStudies = sourceRes.data || [];
+  const ids = caseStudies.map(cs => cs.id);
+  const [criteriaRes, solutionsRes] = ids.length
+    ? await Promise.all([
+        adminClient.from('case_study_rubric_criteria').select('*').in('case_study_id', ids).order('order_index'),
+        adminClient.from('case_study_solutions').select('*').in('case_study_id', ids).order('order_index'),
+      ])
+    : [{ data: [], error: null }, { data: [], error: null }];
+  if (criteriaRes.error) return { ok: false, error: { stage: 'database', message: criteriaRes.error.message } };
+  if (solutionsRes.error) return { ok: false, error: { stage: 'database', message: solutionsRes.error.message } };
+
+  const existingTitles = (existingRes.data || []).map(cs => cs.title as string);
+  const existingRoots = new Set((existingRes.data || []).map(cs => lineageRoot(cs)));
+  const copied: CaseStudyCloneCopied[] = [];
+  const skipped: CaseStudyCloneSkipped[] = [];
+
+  for (const cs of caseStudies) {
+    if (existingRoots.has(lineageRoot(cs))) {
+      skipped.push({ source_id: cs.id, title: cs.title, reason: 'Already cloned into the target cohort' });
+      continue;
+    }
+    if (existingTitles.some(title => sameTitle(title, cs.title))) {
+      skipped.push({ source_id: cs.id, title: cs.title, reason: 'A case study with this title already exists in the target cohort' });
+      continue;
+    }
+
+    const schedule = shiftSchedule(cs, source.start_date, target.start_date, weekOffset);
+    if (!schedule) {
+      skipped.push({ source_id: cs.id, title: cs.title, reason: `Week ${cs.week_number} would move before week 1` });
+      continue;
+    }
+
+    const notes: string[] = schedule.note ? [schedule.note] : [];
+    const copiedFiles: string[] = [];
+
+    let problemFilePath: string | null = null;
+    if (cs.problem_file_path) {
+      const to = clonedFilePath(cs.problem_file_path, targetCohortId);
+      if (await copyFile(adminClient, cs.problem_file_path, to)) {
+        problemFilePath = to;
+        copiedFiles.push(to);
+      } else {
+        notes.push('Problem file could not be copied');
+      }
+    }
+
+    const row: Record<string, unknown> = { cohort_id: targetCohortId };
+    for (const column of COPIED_COLUMNS) row[column] = cs[column];
+
+    const { data: created, error: createError } = await adminClient
+      .from('case_studies')
+      .insert({
+        ...row,
+        week_number: schedule.week_number,
+        end_week_number: schedule.end_week_number,
+        due_date: schedule.due_date,
+        problem_file_path: problemFilePath,
+        problem_file_size: problemFilePath ? cs.problem_file_size : null,
+        solution_visible: false,
+        source_case_study_id: lineageRoot(cs),
+      })
+      .select('id')
+      .single();
+
+    if (createError || !created) {
+      if (copiedFiles.length) await adminClient.storage.from('resources').remove(copiedFiles);
+      skipped.push({ source_id: cs.id, title: cs.title, reason: `Could not create case study: ${createError?.message}` });
+      continue;
+    }
+
+    const criteria = (criteriaRes.data || []).filter(c => c.case_study_id === cs.id);
+    if (criteria.length) {
+      const { error } = await adminClient.from('case_study_rubric_criteria').insert(
+        criteria.map(c => ({
+          case_study_id: created.id,
+          label: c.label,
+          description: c.description,
+          weight: c.weight,
+          levels: c.levels,
+          max_score: c.max_score,
+          order_index: c.order_index,
+        })),
+      );
+      if (error) {
+        // Half a case study is worse than none: undo it and report why
+        await adminClient.from('case_studies').delete().eq('id', created.id);
+        if (copiedFiles.length) await adminClient.storage.from('resources').remove(copiedFiles);
+        skipped.push({ source_id: cs.id, title: cs.title, reason: `Could not copy rubric: ${error.message}` });
+        continue;
+      }
+    }
+
+    let solutionCount = 0;
+    for (const sol of (solutionsRes.data || []).filter(s => s.case_study_id === cs.id)) {
+      // Subgroups belong to the source cohort, and copying a subgroup's
+      // solution as a general one would show it to every target subgroup
+      if (sol.subgroup_id) {
+        notes.push(`Solution "${sol.title}" is for one subgroup and was not copied`);
+        continue;
+      }
+      const to = clonedFilePath(sol.file_path, targetCohortId);
+      if (!(await copyFile(adminClient, sol.file_path, to))) {
+        notes.push(`Solution "${sol.title}" could not be copied`);
+        continue;
+      }
+      const { error } = await adminClient.from('case_study_solutions').insert({
+        case_study_id: created.id,
+        title: sol.title,
+        subgroup_id: null,
+        file_path: to,
+        file_size: sol.file_size,
+        order_index: sol.order_index,
+      });
+      if (error) {
+        await adminClient.storage.from('resources').remove([to]);
+        notes.push(`Solution "${sol.title}" could not be copied`);
+        continue;
+      }
+      solutionCount++;
+    }
+
+    existingTitles.push(cs.title);
+    existingRoots.add(lineageRoot(cs));
+    copied.push({
+      source_id: cs.id,
+      case_study_id: created.id,
+      title: cs.title,
+      week_number: schedule.week_number,
+      due_date: schedule.due_date,
+      problem_file: !!problemFilePath,
+      rubric_criteria: criteria.length,
+      solutions: solutionCount,
+      notes,
+    });
+  }
+
+  return { ok: true, report: { copied, skipped } };
+}
@@ -1,22 +1,35 @@
 import type { CaseStudy, CaseStudySubmission, SubmissionVisibility, StudentSubmissionStatus } from '@/types';
 
 /**
- * Computes the effective deadline for a submission, considering per-subgroup overrides.
+ * Deadline inputs for a submission: the per-subgroup override and, when the
+ * deadline is evaluated for one student, that student's personal extension.
+ */
+export type DeadlineSubject = Pick<CaseStudySubmission, 'deadline_override'> & {
+  student_deadline_override?: string | null;
+};
+
+/**
+ * Computes the effective deadline for a submission, considering per-subgroup overrides
+ * and per-student extensions (the later of the two wins).
  * Returns null for open-ended case studies (no deadline).
  */
 export function getEffectiveDeadline(
-  submission: Pick<CaseStudySubmission, 'deadline_override'> | null,
+  submission: DeadlineSubject | null,
   caseStudy: Pick<CaseStudy, 'due_date'>
 ): Date | null {
   const raw = submission?.deadline_override ?? caseStudy.due_date;
-  return raw ? new Date(raw) : null;
+  if (!raw) return null;
+  const deadline = new Date(raw);
+  const personal = submission?.student_deadline_override;
+  if (personal && new Date(personal) > deadline) return new Date(personal);
+  return deadline;
 }
 
 /**
  * Computes the effective deadline INCLUDING grace period.
  */
 export function getEffectiveDeadlineWithGrace(
-  submission: Pick<CaseStudySubmission, 'deadline_override'> | null,
+  submission: DeadlineSubject | null,
   caseStudy: Pick<CaseStudy, 'due_date' | 'grace_period_minutes'>
 ): Date | null {
   const deadline = getEffectiveDeadline(submission, caseStudy);
@@ -28,7 +41,7 @@ export function getEffectiveDeadlineWithGrace(
  * Whether a student can currently upload/edit their submission.
  */
 export function canUpload(
-  submission: Pick<CaseStudySubmission, 'deadline_override' | 'visibility'> | null,
+  submission: (DeadlineSubject & Pick<CaseStudySubmission, 'visibility'>) | null,
   caseStudy: Pick<CaseStudy, 'due_date' | 'grace_period_minutes' | 'is_archived' | 'submissions_closed'>,
   now: Date = new Date()
 ): boolean {
@@ -48,7 +61,7 @@ export function canUpload(
  * (after the hard deadline but within grace period).
  */
 export function isLate(
-  submission: Pick<CaseStudySubmission, 'deadline_override'> | null,
+  submission: DeadlineSubject | null,
   caseStudy: Pick<CaseStudy, 'due_date' | 'grace_period_minutes'>,
   now: Date = new Date()
 ): boolean {
@@ -57,6 +70,20 @@ export function isLate(
   return now > deadline;
 }
 
+/**
+ * How many minutes past the effective deadline (before grace) a submission
+ * made right now would be, rounded up. Zero when on time or open-ended.
+ */
+export function minutesLate(
+  submission: DeadlineSubject | null,
+  caseStudy: Pick<CaseStudy, 'due_date'>,
+  now: Date = new Date()
+): number {
+  const deadline = getEffectiveDeadline(submission, caseStudy);
+  if (!deadline) return 0;
+  return Math.max(0, Math.ceil((now.getTime() - deadline.getTime()) / (60 * 1000)));
+}
+
 /**
  * Map internal visibility state to the student-facing status.
  * Students should never see internal pipeline states like "admin_reviewed" or "mentor_visible".
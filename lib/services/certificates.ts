@@ -32,6 +32,10 @@
  */
 
 import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  evaluateCohortEligibility,
+  type StudentEligibility,
+} from '@/lib/services/attendance-policy';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -508,3 +512,52 @@ export async function listCertificatesForUser(
 
   return flattened;
 }
+
+// ---------------------------------------------------------------------------
+// checkCertificateEligibility
+// ---------------------------------------------------------------------------
+
+export type CertificateEligibilityResult =
+  | { ok: true; gated: boolean; eligibility: StudentEligibility }
+  | {
+      ok: false;
+      error:
+        | { stage: 'ineligible'; message: string; eligibility: StudentEligibility }
+        | { stage: 'lookup'; message: string };
+    };
+
+/**
+ * Evaluate the recipient against the cohort's attendance policy. Only fails
+ * with `ineligible` when the policy has `gate_certificates` on — otherwise the
+ * eligibility is returned for display and the upload may proceed. Kept
+ * separate from `replaceCertificate` so admins can override the gate at the
+ * route layer.
+ */
+export async function checkCertificateEligibility(
+  adminClient: SupabaseClient,
+  userId: string,
+  cohortId: string,
+): Promise<CertificateEligibilityResult> {
+  let evaluated;
+  try {
+    evaluated = await evaluateCohortEligibility(adminClient, cohortId, [userId]);
+  } catch (err) {
+    return { ok: false, error: { stage: 'lookup', message: errMessage(err) } };
+  }
+
+  const eligibility = evaluated.eligibility.get(userId)!;
+  const gated = evaluated.rules.gateCertificates;
+
+  if (gated && eligibility.status === 'ineligible') {
+    return {
+      ok: false,
+      error: {
+        stage: 'ineligible',
+        message: `Recipient missed ${eligibility.sessionsMissed} sessions (limit ${evaluated.rules.maxMissedSessions})`,
+        eligibility,
+      },
+    };
+  }
+
+  return { ok: true, gated, eligibility };
+}
@@ -0,0 +1,123 @@
+/**
+ * Cliff Detection Config
+ * Loads per-cohort tuning for detectFormalEnd (migration 036) and fetches
+ * the Zoom inputs the detect-cliff routes share.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ZoomService } from '@/lib/integrations/zoom';
+import {
+  CLIFF_STRATEGIES,
+  DEFAULT_CLIFF_CONFIG,
+  toCliffInputs,
+  type CliffDetectionConfig,
+  type CliffStrategy,
+  type ResolvedParticipantInput,
+} from '@/lib/services/cliff-detector';
+
+export interface CliffDetectionConfigRow {
+  id: string;
+  cohort_id: string | null;
+  strategy: CliffStrategy;
+  window_size_minutes: number;
+  min_start_fraction: number;
+  stayer_threshold_minutes: number;
+  min_spike_ratio: number;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ResolvedCliffConfig = {
+  config: CliffDetectionConfig;
+  /** Where the config came from: a cohort id, 'global' or 'default' */
+  source: string;
+};
+
+export function rowToCliffConfig(row: CliffDetectionConfigRow): CliffDetectionConfig {
+  return {
+    strategy: row.strategy,
+    windowSizeMinutes: row.window_size_minutes,
+    minStartFraction: Number(row.min_start_fraction),
+    stayerThresholdMinutes: row.stayer_threshold_minutes,
+    minSpikeRatio: Number(row.min_spike_ratio),
+  };
+}
+
+export function isCliffStrategy(value: unknown): value is CliffStrategy {
+  return typeof value === 'string' && (CLIFF_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Resolve the config for a session: its legacy cohort, then session_cohorts,
+ * then the global row, then DEFAULT_CLIFF_CONFIG.
+ */
+export async function resolveCliffConfig(
+  adminClient: SupabaseClient,
+  sessionId: string,
+): Promise<ResolvedCliffConfig> {
+  const [{ data: session }, { data: sessionCohorts }, { data: rows }] = await Promise.all([
+    adminClient.from('sessions').select('cohort_id').eq('id', sessionId).maybeSingle(),
+    adminClient.from('session_cohorts').select('cohort_id').eq('session_id', sessionId),
+    adminClient.from('cliff_detection_configs').select('*'),
+  ]);
+
+  return pickCliffConfig(
+    (rows || []) as CliffDetectionConfigRow[],
+    [session?.cohort_id, ...(sessionCohorts || []).map((sc: { cohort_id: string }) => sc.cohort_id)],
+  );
+}
+
+/** Pure resolution over already-loaded config rows (used by bulk detection). */
+export function pickCliffConfig(
+  rows: CliffDetectionConfigRow[],
+  cohortIds: (string | null | undefined)[],
+): ResolvedCliffConfig {
+  for (const cohortId of cohortIds) {
+    if (!cohortId) continue;
+    const row = rows.find((r) => r.cohort_id === cohortId);
+    if (row) return { config: rowToCliffConfig(row), source: cohortId };
+  }
+
+  const global = rows.find((r) => r.cohort_id === null);
+  if (global) return { config: rowToCliffConfig(global), source: 'global' };
+
+  return { config: DEFAULT_CLIFF_CONFIG, source: 'default' };
+}
+
+/**
+ * Fetch participants and meeting bounds from Zoom and group them for the
+ * detector. Meeting times fall back to the participant join/leave span.
+ * Returns null when Zoom has no participant data for the meeting.
+ */
+export async function fetchCliffInputs(
+  zoomService: ZoomService,
+  meetingUuid: string,
+): Promise<{ inputs: ResolvedParticipantInput[]; meetingStart: string; meetingEnd: string } | null> {
+  const participants = await zoomService.getPastMeetingParticipants(meetingUuid);
+  if (!participants || participants.length === 0) return null;
+
+  let meetingStart: string;
+  let meetingEnd: string;
+  let host: { id?: string; email?: string } | undefined;
+
+  try {
+    const details = await zoomService.getPastMeetingDetails(meetingUuid);
+    if (details?.start_time && details?.end_time) {
+      meetingStart = details.start_time;
+      meetingEnd = details.end_time;
+      host = { id: details.host_id, email: details.user_email };
+    } else {
+      throw new Error('Missing start_time or end_time from meeting details');
+    }
+  } catch {
+    // Fallback: derive from participant join/leave times
+    console.warn('[cliff-config] Could not fetch meeting details, falling back to participant times');
+    const joinTimes = participants.map(p => new Date(p.join_time).getTime());
+    const leaveTimes = participants.map(p => new Date(p.leave_time).getTime());
+    meetingStart = new Date(Math.min(...joinTimes)).toISOString();
+    meetingEnd = new Date(Math.max(...leaveTimes)).toISOString();
+  }
+
+  return { inputs: toCliffInputs(participants, host), meetingStart, meetingEnd };
+}
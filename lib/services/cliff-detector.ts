@@ -5,10 +5,42 @@
 // (mass exodus). The detected "cliff" timestamp becomes the
 // effective session end so students aren't penalized for leaving
 // when told to.
+//
+// Three strategies share the same departure extraction and
+// result shape; the result records which one fired:
+// - sliding_window: densest departure window after the cutoff
+// - change_point:   two-rate split of the cumulative departure
+//                   curve (max Poisson likelihood gain)
+// - host_left:      anchors the end on the host's final leave
 // ─────────────────────────────────────────────────────────────
 
+export type CliffStrategy = 'sliding_window' | 'change_point' | 'host_left';
+
+export const CLIFF_STRATEGIES: CliffStrategy[] = ['sliding_window', 'change_point', 'host_left'];
+
+export interface CliffDetectionConfig {
+  strategy: CliffStrategy;
+  /** Width of the departure cluster, in minutes */
+  windowSizeMinutes: number;
+  /** Cliffs before this fraction of the meeting are ignored (0.5 = halfway) */
+  minStartFraction: number;
+  /** Leaving within this many minutes of meeting end counts as staying */
+  stayerThresholdMinutes: number;
+  /** Cluster must be this many times denser than background departures */
+  minSpikeRatio: number;
+}
+
+export const DEFAULT_CLIFF_CONFIG: CliffDetectionConfig = {
+  strategy: 'sliding_window',
+  windowSizeMinutes: 10,
+  minStartFraction: 0.5,
+  stayerThresholdMinutes: 2,
+  minSpikeRatio: 2.5,
+};
+
 export interface CliffDetectionResult {
   detected: boolean;
+  strategy?: CliffStrategy;
   reason?: string;
   confidence?: 'high' | 'medium' | 'low';
   effectiveEndMinutes?: number;
@@ -32,31 +64,45 @@ export interface ParticipantSegment {
 export interface ResolvedParticipantInput {
   userId: string | null;
   segments: ParticipantSegment[];
+  /** Meeting host — only used as an anchor by the host_left strategy */
+  isHost?: boolean;
 }
 
+
 // ── Internal helpers ──────────────────────────────────────────
 
 interface FinalDeparture {
   minutesMark: number;
 }
 
-const WINDOW_SIZE = 10; // minutes
-const STAYER_THRESHOLD_MS = 2 * 60_000; // 2 minutes before meeting end
+interface DepartureProfile {
+  sortedDepartures: FinalDeparture[];
+  stayers: number;
+  totalParticipants: number;
+  totalMeetingMinutes: number;
+  /** Host's final leave in minutes, null if no host or host stayed */
+  hostLeaveMin: number | null;
+  hostPresent: boolean;
+}
 
-// ── Main detection function ──────────────────────────────────
+interface CliffWindow {
+  startMin: number;
+  count: number;
+}
 
-export function detectFormalEnd(
-  participants: ResolvedParticipantInput[],
-  meetingStartTime: string,
-  meetingEndTime: string,
-): CliffDetectionResult {
-  const meetingStart = new Date(meetingStartTime).getTime();
-  const meetingEnd = new Date(meetingEndTime).getTime();
-  const totalMeetingMinutes = (meetingEnd - meetingStart) / 60_000;
+type Confidence = 'high' | 'medium' | 'low';
 
-  // ── Step 2: Extract final departures ──────────────────────
+function extractDepartures(
+  participants: ResolvedParticipantInput[],
+  meetingStart: number,
+  meetingEnd: number,
+  config: CliffDetectionConfig,
+): DepartureProfile {
+  const stayerThresholdMs = config.stayerThresholdMinutes * 60_000;
   const finalDepartures: FinalDeparture[] = [];
   let stayers = 0;
+  let hostLeaveMin: number | null = null;
+  let hostPresent = false;
 
   for (const participant of participants) {
     if (!participant.segments || participant.segments.length === 0) {
@@ -70,90 +116,98 @@ export function detectFormalEnd(
 
     const lastSegment = sorted[sorted.length - 1];
     const finalLeave = new Date(lastSegment.leave_time).getTime();
+    const stayed = finalLeave >= meetingEnd - stayerThresholdMs;
+
+    // The host anchors the end; it is not one of the departures being clustered
+    if (participant.isHost) {
+      hostPresent = true;
+      if (!stayed) {
+        const leaveMin = (finalLeave - meetingStart) / 60_000;
+        hostLeaveMin = hostLeaveMin === null ? leaveMin : Math.max(hostLeaveMin, leaveMin);
+      }
+      continue;
+    }
 
-    if (finalLeave >= meetingEnd - STAYER_THRESHOLD_MS) {
-      // Stayer – left within 2 min of meeting end (or after)
+    if (stayed) {
+      // Stayer – left within the threshold of meeting end (or after)
       stayers++;
     } else {
-      const minutesMark = (finalLeave - meetingStart) / 60_000;
-      finalDepartures.push({ minutesMark });
+      finalDepartures.push({ minutesMark: (finalLeave - meetingStart) / 60_000 });
     }
   }
 
-  const totalParticipants = finalDepartures.length + stayers;
-
-  // ── Step 3: Early exits ───────────────────────────────────
-  if (finalDepartures.length < 3) {
-    return { detected: false, reason: 'TOO_FEW_DEPARTURES' };
-  }
-  if (totalParticipants < 5) {
-    return { detected: false, reason: 'SESSION_TOO_SMALL' };
-  }
-
-  // ── Step 4: Sliding window scan ───────────────────────────
-  const sortedDepartures = [...finalDepartures].sort(
-    (a, b) => a.minutesMark - b.minutesMark,
-  );
-
-  const halfwayMark = totalMeetingMinutes * 0.5;
-
-  let bestWindow = { startMin: 0, count: 0 };
-
-  for (const d of sortedDepartures) {
-    if (d.minutesMark < halfwayMark) continue;
-
-    const windowEnd = d.minutesMark + WINDOW_SIZE;
-    let count = 0;
-    for (const other of sortedDepartures) {
-      if (other.minutesMark >= d.minutesMark && other.minutesMark <= windowEnd) {
-        count++;
-      }
-    }
-
-    if (count > bestWindow.count) {
-      bestWindow = { startMin: d.minutesMark, count };
-    }
-  }
+  return {
+    sortedDepartures: finalDepartures.sort((a, b) => a.minutesMark - b.minutesMark),
+    stayers,
+    totalParticipants: finalDepartures.length + stayers,
+    totalMeetingMinutes: (meetingEnd - meetingStart) / 60_000,
+    hostLeaveMin,
+    hostPresent,
+  };
+}
 
-  // ── Step 5: Validate cliff ────────────────────────────────
-  const cliffRatio = bestWindow.count / finalDepartures.length;
+function countInWindow(departures: FinalDeparture[], startMin: number, windowSize: number): number {
+  const windowEnd = startMin + windowSize;
+  return departures.filter((d) => d.minutesMark >= startMin && d.minutesMark <= windowEnd).length;
+}
 
-  const nonCliffDepartures = finalDepartures.length - bestWindow.count;
-  const nonCliffMinutes = totalMeetingMinutes - WINDOW_SIZE;
+function spikeRatioFor(profile: DepartureProfile, window: CliffWindow, windowSize: number): number {
+  const nonCliffDepartures = profile.sortedDepartures.length - window.count;
+  const nonCliffMinutes = profile.totalMeetingMinutes - windowSize;
   const backgroundRate = nonCliffDepartures / nonCliffMinutes;
-  const expectedInWindow = backgroundRate * WINDOW_SIZE;
-  const spikeRatio = bestWindow.count / Math.max(expectedInWindow, 0.5);
+  const expectedInWindow = backgroundRate * windowSize;
+  return window.count / Math.max(expectedInWindow, 0.5);
+}
 
-  const minRatio = totalParticipants < 20 ? 0.30 : 0.25;
-  const minAbsolute = totalParticipants < 20 ? 3 : 5;
-  const minSpike = 2.5;
+/**
+ * Shared validation for density-based strategies: the cluster must be a large
+ * enough share of departures, large in absolute terms, and a clear spike.
+ */
+function validateCluster(
+  profile: DepartureProfile,
+  window: CliffWindow,
+  config: CliffDetectionConfig,
+): { ok: true; cliffRatio: number; spikeRatio: number } | { ok: false; reason: string } {
+  const cliffRatio = window.count / profile.sortedDepartures.length;
+  const spikeRatio = spikeRatioFor(profile, window, config.windowSizeMinutes);
+
+  const minRatio = profile.totalParticipants < 20 ? 0.30 : 0.25;
+  const minAbsolute = profile.totalParticipants < 20 ? 3 : 5;
 
   if (cliffRatio < minRatio) {
-    return { detected: false, reason: 'CLUSTER_TOO_SMALL' };
+    return { ok: false, reason: 'CLUSTER_TOO_SMALL' };
   }
-  if (bestWindow.count < minAbsolute) {
-    return { detected: false, reason: 'ABSOLUTE_COUNT_LOW' };
+  if (window.count < minAbsolute) {
+    return { ok: false, reason: 'ABSOLUTE_COUNT_LOW' };
   }
-  if (spikeRatio < minSpike) {
-    return { detected: false, reason: 'NOT_ENOUGH_SPIKE' };
+  if (spikeRatio < config.minSpikeRatio) {
+    return { ok: false, reason: 'NOT_ENOUGH_SPIKE' };
   }
 
-  // ── Step 6: Effective end ─────────────────────────────────
-  const effectiveEndMinutes = Math.round(bestWindow.startMin);
+  return { ok: true, cliffRatio, spikeRatio };
+}
+
+function densityConfidence(cliffRatio: number, count: number, spikeRatio: number): Confidence {
+  if (cliffRatio >= 0.50 && count >= 8 && spikeRatio >= 5) return 'high';
+  if (cliffRatio >= 0.35 || (count >= 6 && spikeRatio >= 3)) return 'medium';
+  return 'low';
+}
 
-  // ── Step 7: Confidence ────────────────────────────────────
-  let confidence: 'high' | 'medium' | 'low';
-  if (cliffRatio >= 0.50 && bestWindow.count >= 8 && spikeRatio >= 5) {
-    confidence = 'high';
-  } else if (cliffRatio >= 0.35 || (bestWindow.count >= 6 && spikeRatio >= 3)) {
-    confidence = 'medium';
-  } else {
-    confidence = 'low';
-  }
+/** Assemble the detected result: histogram, impact and summary fields. */
+function buildDetectedResult(
+  profile: DepartureProfile,
+  window: CliffWindow,
+  effectiveEndMinutes: number,
+  confidence: Confidence,
+  cliffRatio: number,
+  spikeRatio: number,
+  config: CliffDetectionConfig,
+): CliffDetectionResult {
+  const { sortedDepartures, stayers, totalMeetingMinutes } = profile;
 
-  // ── Step 8: Histogram ─────────────────────────────────────
-  const cliffWindowStartMin = Math.round(bestWindow.startMin);
-  const cliffWindowEndMin = Math.round(bestWindow.startMin + WINDOW_SIZE);
+  // ── Histogram ─────────────────────────────────────────────
+  const cliffWindowStartMin = Math.round(window.startMin);
+  const cliffWindowEndMin = Math.round(window.startMin + config.windowSizeMinutes);
 
   const bucketSize = 5;
   const bucketCount = Math.ceil(totalMeetingMinutes / bucketSize);
@@ -184,7 +238,7 @@ export function detectFormalEnd(
     histogram.push({ minute: bucketStart, departures, isCliff });
   }
 
-  // ── Step 9: Impact ────────────────────────────────────────
+  // ── Impact ────────────────────────────────────────────────
   let studentsImpacted = 0;
   for (const dep of sortedDepartures) {
     if (
@@ -195,20 +249,231 @@ export function detectFormalEnd(
     }
   }
 
-  // ── Step 10: Return full result ───────────────────────────
   return {
     detected: true,
+    strategy: config.strategy,
     confidence,
     effectiveEndMinutes,
     cliffWindowStartMin,
     cliffWindowEndMin,
-    departuresInCliff: bestWindow.count,
-    totalFinalDepartures: finalDepartures.length,
+    departuresInCliff: window.count,
+    totalFinalDepartures: sortedDepartures.length,
     meetingEndStayers: stayers,
-    totalParticipants,
+    totalParticipants: profile.totalParticipants,
     cliffRatio,
     spikeRatio,
     studentsImpacted,
     histogram,
   };
 }
+
+// ── Strategies ────────────────────────────────────────────────
+
+/** Densest fixed-width departure window starting after the cutoff. */
+function detectSlidingWindow(profile: DepartureProfile, config: CliffDetectionConfig): CliffDetectionResult {
+  const { sortedDepartures, totalMeetingMinutes } = profile;
+  const cutoff = totalMeetingMinutes * config.minStartFraction;
+
+  let bestWindow: CliffWindow = { startMin: 0, count: 0 };
+
+  for (const d of sortedDepartures) {
+    if (d.minutesMark < cutoff) continue;
+
+    const count = countInWindow(sortedDepartures, d.minutesMark, config.windowSizeMinutes);
+    if (count > bestWindow.count) {
+      bestWindow = { startMin: d.minutesMark, count };
+    }
+  }
+
+  const validation = validateCluster(profile, bestWindow, config);
+  if (!validation.ok) {
+    return { detected: false, strategy: config.strategy, reason: validation.reason };
+  }
+
+  return buildDetectedResult(
+    profile,
+    bestWindow,
+    Math.round(bestWindow.startMin),
+    densityConfidence(validation.cliffRatio, bestWindow.count, validation.spikeRatio),
+    validation.cliffRatio,
+    validation.spikeRatio,
+    config,
+  );
+}
+
+/**
+ * Split the cumulative departure curve into a "before" and "after" rate and
+ * pick the split (at a departure, after the cutoff) with the largest Poisson
+ * log-likelihood gain over a single constant rate. The cliff window opens at
+ * the split, so gradual trickles that never change rate are not mistaken for
+ * a cliff just because one window happens to be dense.
+ */
+function detectChangePoint(profile: DepartureProfile, config: CliffDetectionConfig): CliffDetectionResult {
+  const { sortedDepartures, totalMeetingMinutes } = profile;
+  const n = sortedDepartures.length;
+  const cutoff = totalMeetingMinutes * config.minStartFraction;
+  const xLogX = (count: number, minutes: number) => (count > 0 ? count * Math.log(count / minutes) : 0);
+
+  const baseline = xLogX(n, totalMeetingMinutes);
+  let best: { index: number; gain: number } | null = null;
+
+  for (let i = 0; i < n; i++) {
+    const splitMin = sortedDepartures[i].minutesMark;
+    if (splitMin < cutoff) continue;
+
+    const before = i;
+    const after = n - i;
+    const beforeMinutes = Math.max(splitMin, 1);
+    const afterMinutes = Math.max(totalMeetingMinutes - splitMin, 1);
+
+    // Only rate increases are cliffs
+    if (after / afterMinutes <= before / beforeMinutes) continue;
+
+    const gain = xLogX(before, beforeMinutes) + xLogX(after, afterMinutes) - baseline;
+    if (!best || gain > best.gain) {
+      best = { index: i, gain };
+    }
+  }
+
+  if (!best) {
+    return { detected: false, strategy: config.strategy, reason: 'NO_RATE_CHANGE' };
+  }
+
+  const splitMin = sortedDepartures[best.index].minutesMark;
+  const window: CliffWindow = {
+    startMin: splitMin,
+    count: countInWindow(sortedDepartures, splitMin, config.windowSizeMinutes),
+  };
+
+  const validation = validateCluster(profile, window, config);
+  if (!validation.ok) {
+    return { detected: false, strategy: config.strategy, reason: validation.reason };
+  }
+
+  return buildDetectedResult(
+    profile,
+    window,
+    Math.round(splitMin),
+    densityConfidence(validation.cliffRatio, window.count, validation.spikeRatio),
+    validation.cliffRatio,
+    validation.spikeRatio,
+    config,
+  );
+}
+
+/**
+ * The host leaving before the meeting ends (a co-host keeps QnA running) is
+ * itself the "session is over" signal. Confidence reflects how many
+ * participants followed the host out within the window.
+ */
+function detectHostLeft(profile: DepartureProfile, config: CliffDetectionConfig): CliffDetectionResult {
+  if (!profile.hostPresent) {
+    return { detected: false, strategy: config.strategy, reason: 'HOST_NOT_IDENTIFIED' };
+  }
+  if (profile.hostLeaveMin === null) {
+    return { detected: false, strategy: config.strategy, reason: 'HOST_STAYED' };
+  }
+  if (profile.hostLeaveMin < profile.totalMeetingMinutes * config.minStartFraction) {
+    return { detected: false, strategy: config.strategy, reason: 'HOST_LEFT_EARLY' };
+  }
+
+  const window: CliffWindow = {
+    startMin: profile.hostLeaveMin,
+    count: countInWindow(profile.sortedDepartures, profile.hostLeaveMin, config.windowSizeMinutes),
+  };
+  const cliffRatio = window.count / profile.sortedDepartures.length;
+  const spikeRatio = spikeRatioFor(profile, window, config.windowSizeMinutes);
+
+  const confidence: Confidence =
+    cliffRatio >= 0.5 ? 'high' : cliffRatio >= 0.25 ? 'medium' : 'low';
+
+  return buildDetectedResult(
+    profile,
+    window,
+    Math.round(profile.hostLeaveMin),
+    confidence,
+    cliffRatio,
+    spikeRatio,
+    config,
+  );
+}
+
+const STRATEGY_IMPLEMENTATIONS: Record<
+  CliffStrategy,
+  (profile: DepartureProfile, config: CliffDetectionConfig) => CliffDetectionResult
+> = {
+  sliding_window: detectSlidingWindow,
+  change_point: detectChangePoint,
+  host_left: detectHostLeft,
+};
+
+// ── Main detection function ──────────────────────────────────
+
+export function detectFormalEnd(
+  participants: ResolvedParticipantInput[],
+  meetingStartTime: string,
+  meetingEndTime: string,
+  config: CliffDetectionConfig = DEFAULT_CLIFF_CONFIG,
+): CliffDetectionResult {
+  const meetingStart = new Date(meetingStartTime).getTime();
+  const meetingEnd = new Date(meetingEndTime).getTime();
+
+  const profile = extractDepartures(participants, meetingStart, meetingEnd, config);
+
+  // ── Early exits ───────────────────────────────────────────
+  if (profile.sortedDepartures.length < 3) {
+    return { detected: false, strategy: config.strategy, reason: 'TOO_FEW_DEPARTURES' };
+  }
+  if (profile.totalParticipants < 5) {
+    return { detected: false, strategy: config.strategy, reason: 'SESSION_TOO_SMALL' };
+  }
+
+  return STRATEGY_IMPLEMENTATIONS[config.strategy](profile, config);
+}
+
+/**
+ * Run every strategy with the same tuning so admins can compare them side by
+ * side on historical sessions before switching a cohort's strategy.
+ */
+export function compareCliffStrategies(
+  participants: ResolvedParticipantInput[],
+  meetingStartTime: string,
+  meetingEndTime: string,
+  config: CliffDetectionConfig = DEFAULT_CLIFF_CONFIG,
+): Record<CliffStrategy, CliffDetectionResult> {
+  return Object.fromEntries(
+    CLIFF_STRATEGIES.map((strategy) => [
+      strategy,
+      detectFormalEnd(participants, meetingStartTime, meetingEndTime, { ...config, strategy }),
+    ]),
+  ) as Record<CliffStrategy, CliffDetectionResult>;
+}
+
+// ── Zoom participant grouping ─────────────────────────────────
+
+/**
+ * Group raw Zoom participant rows into per-person inputs (by email, or by
+ * Zoom participant id for guests) and flag the host when identifiable.
+ */
+export function toCliffInputs(
+  participants: { id: string; user_email: string; join_time: string; leave_time: string }[],
+  host?: { id?: string | null; email?: string | null },
+): ResolvedParticipantInput[] {
+  const hostEmail = host?.email?.toLowerCase().trim() || null;
+  const groups = new Map<string, ResolvedParticipantInput>();
+
+  for (const p of participants) {
+    const key = (p.user_email || `__nomail__${p.id}`).toLowerCase().trim();
+    const entry = groups.get(key) || {
+      userId: key.startsWith('__nomail__') ? null : key,
+      segments: [],
+    };
+    entry.segments.push({ join_time: p.join_time, leave_time: p.leave_time });
+    if ((host?.id && p.id === host.id) || (hostEmail && key === hostEmail)) {
+      entry.isHost = true;
+    }
+    groups.set(key, entry);
+  }
+
+  return Array.from(groups.values());
+}
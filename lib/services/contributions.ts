@@ -0,0 +1,397 @@
+/**
+ * Contributions Service
+ * Who did the work in a subgroup submission (migration 048): attachment
+ * add/remove history, the optional peer contribution survey, and per-student
+ * adjustments to the group score.
+ *
+ * A member's contribution factor is their mean received rating over the
+ * subgroup's mean, so 1 is an average share. The suggested adjustment scales
+ * the group score by that factor; mentors and admins decide what to apply.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CaseStudyAttachmentEvent,
+  CaseStudyIndividualAdjustment,
+  MemberContribution,
+  SubmissionContributions,
+} from '@/types';
+import { pickGradingReview } from '@/lib/services/review-calibration';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RatingInput {
+  ratee_id: string;
+  rating: number;
+  comment?: string | null;
+}
+
+export interface ContributionStats {
+  ratings_received: number;
+  mean_rating: number | null;
+  contribution_factor: number | null;
+}
+
+type ContributionError = {
+  stage: 'validation' | 'not_found' | 'conflict' | 'database';
+  message: string;
+};
+
+export type ContributionResult<T> = ({ ok: true } & T) | { ok: false; error: ContributionError };
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Check a member's survey answers: whole ratings 1-5 for other members only. */
+export function validateRatings(ratings: unknown, raterId: string, memberIds: string[]): string | null {
+  if (!Array.isArray(ratings) || ratings.length === 0) return 'ratings must be a non-empty array';
+
+  const seen = new Set<string>();
+  for (const r of ratings as RatingInput[]) {
+    if (!r || typeof r.ratee_id !== 'string') return 'Each rating needs a ratee_id';
+    if (r.ratee_id === raterId) return 'You cannot rate yourself';
+    if (!memberIds.includes(r.ratee_id)) return 'You can only rate members of your subgroup';
+    if (seen.has(r.ratee_id)) return 'Each member can only be rated once';
+    if (!Number.isInteger(r.rating) || r.rating < 1 || r.rating > 5) return 'Ratings must be whole numbers from 1 to 5';
+    seen.add(r.ratee_id);
+  }
+  return null;
+}
+
+/** Ratings received per member and their contribution factor. */
+export function computeContributionFactors(
+  memberIds: string[],
+  ratings: { ratee_id: string; rating: number }[],
+): Map<string, ContributionStats> {
+  const received = new Map<string, number[]>(memberIds.map(id => [id, []]));
+  for (const r of ratings) received.get(r.ratee_id)?.push(r.rating);
+
+  const means = new Map<string, number>();
+  for (const [id, list] of received) {
+    if (list.length > 0) means.set(id, list.reduce((a, b) => a + b, 0) / list.length);
+  }
+  const groupMean = means.size > 0 ? [...means.values()].reduce((a, b) => a + b, 0) / means.size : null;
+
+  const stats = new Map<string, ContributionStats>();
+  for (const id of memberIds) {
+    const mean = means.get(id) ?? null;
+    stats.set(id, {
+      ratings_received: received.get(id)!.length,
+      mean_rating: mean === null ? null : round2(mean),
+      contribution_factor: mean === null || !groupMean ? null : round2(mean / groupMean),
+    });
+  }
+  return stats;
+}
+
+/** Points that scale the group score by the factor, kept within 0..maxScore. */
+export function suggestAdjustment(groupScore: number | null, factor: number | null, maxScore: number): number | null {
+  if (groupScore === null || factor === null) return null;
+  const individual = Math.min(Math.max(groupScore * factor, 0), maxScore);
+  return round2(individual - groupScore);
+}
+
+/** A student's score: the group's final score plus their adjustment, within 0..maxScore. */
+export function individualScore(groupScore: number | null, adjustment: number | null, maxScore: number): number | null {
+  if (groupScore === null) return null;
+  return round2(Math.min(Math.max(groupScore + (adjustment ?? 0), 0), maxScore));
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+/** Append to the attachment history. Failures are logged, never fatal. */
+export async function recordAttachmentEvent(
+  adminClient: SupabaseClient,
+  event: {
+    submissionId: string;
+    attachmentId: string;
+    action: 'added' | 'removed';
+    type: 'file' | 'link';
+    label: string | null;
+    uploadedBy: string | null;
+    actorId: string;
+  },
+): Promise<void> {
+  const { error } = await adminClient.from('case_study_attachment_events').insert({
+    submission_id: event.submissionId,
+    attachment_id: event.attachmentId,
+    action: event.action,
+    type: event.type,
+    label: event.label,
+    uploaded_by: event.uploadedBy,
+    actor_id: event.actorId,
+  });
+  if (error) console.error('Error recording attachment event:', error);
+}
+
+async function loadSubmissionMembers(
+  adminClient: SupabaseClient,
+  subgroupId: string,
+): Promise<{ id: string; full_name: string | null }[]> {
+  const { data, error } = await adminClient
+    .from('subgroup_members')
+    .select('user:profiles(id, full_name)')
+    .eq('subgroup_id', subgroupId);
+  if (error) throw error;
+
+  return (data || [])
+    .map(m => m.user as unknown as { id: string; full_name: string | null } | null)
+    .filter((u): u is { id: string; full_name: string | null } => !!u)
+    .sort((a, b) => (a.full_name ?? '').localeCompare(b.full_name ?? ''));
+}
+
+/**
+ * Everything a reviewer needs to judge individual contributions. Pass
+ * includeGroupScore: false while the admin's score must stay hidden (blind
+ * calibration); suggestions are then left out too.
+ */
+export async function getSubmissionContributions(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  options: { includeGroupScore: boolean },
+): Promise<ContributionResult<{ contributions: SubmissionContributions }>> {
+  try {
+    const { data: submission } = await adminClient
+      .from('case_study_submissions')
+      .select('id, subgroup_id, adjudicated_by, case_study:case_studies(max_score, contribution_survey_enabled)')
+      .eq('id', submissionId)
+      .maybeSingle();
+    if (!submission) return { ok: false, error: { stage: 'not_found', message: 'Submission not found' } };
+
+    const caseStudy = submission.case_study as unknown as { max_score: number; contribution_survey_enabled: boolean };
+
+    const [members, eventsRes, ratingsRes, adjustmentsRes, reviewsRes] = await Promise.all([
+      loadSubmissionMembers(adminClient, submission.subgroup_id),
+      adminClient
+        .from('case_study_attachment_events')
+        .select('*, uploader:profiles!case_study_attachment_events_uploaded_by_fkey(full_name), actor:profiles!case_study_attachment_events_actor_id_fkey(full_name)')
+        .eq('submission_id', submissionId)
+        .order('created_at', { ascending: false }),
+      adminClient
+        .from('case_study_contribution_ratings')
+        .select('rater_id, ratee_id, rating')
+        .eq('submission_id', submissionId),
+      adminClient
+        .from('case_study_individual_adjustments')
+        .select('*, adjuster:profiles!case_study_individual_adjustments_adjusted_by_fkey(full_name)')
+        .eq('submission_id', submissionId),
+      options.includeGroupScore
+        ? adminClient
+            .from('case_study_reviews')
+            .select('submission_id, reviewer_id, score, late_penalty, adjusted_score, updated_at')
+            .eq('submission_id', submissionId)
+            .eq('reviewer_role', 'admin')
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+    for (const res of [eventsRes, ratingsRes, adjustmentsRes, reviewsRes]) {
+      if (res.error) throw res.error;
+    }
+
+    const events: CaseStudyAttachmentEvent[] = (eventsRes.data || []).map(e => {
+      const { uploader, actor, ...rest } = e as Record<string, unknown>;
+      return {
+        ...rest,
+        uploaded_by_name: (uploader as { full_name: string | null } | null)?.full_name ?? null,
+        actor_name: (actor as { full_name: string | null } | null)?.full_name ?? null,
+      } as CaseStudyAttachmentEvent;
+    });
+
+    const adjustments = new Map<string, CaseStudyIndividualAdjustment>();
+    for (const a of adjustmentsRes.data || []) {
+      const { adjuster, ...rest } = a as Record<string, unknown>;
+      adjustments.set(rest.student_id as string, {
+        ...rest,
+        adjustment: Number(rest.adjustment),
+        adjusted_by_name: (adjuster as { full_name: string | null } | null)?.full_name ?? null,
+      } as CaseStudyIndividualAdjustment);
+    }
+
+    const ratings = (ratingsRes.data || []) as { rater_id: string; ratee_id: string; rating: number }[];
+    const memberIds = members.map(m => m.id);
+    const stats = computeContributionFactors(memberIds, ratings);
+
+    const grading = pickGradingReview(
+      (reviewsRes.data || []) as { reviewer_id: string; score: number | null; adjusted_score: number | null; updated_at: string }[],
+      submission.adjudicated_by,
+    );
+    const groupScore = grading ? Number(grading.adjusted_score ?? grading.score) : null;
+
+    const memberContributions: MemberContribution[] = members.map(m => {
+      const added = events.filter(e => e.action === 'added' && e.uploaded_by === m.id);
+      const s = stats.get(m.id)!;
+      return {
+        user_id: m.id,
+        full_name: m.full_name,
+        files_added: added.filter(e => e.type === 'file').length,
+        links_added: added.filter(e => e.type === 'link').length,
+        items_removed: events.filter(e => e.action === 'removed' && e.actor_id === m.id).length,
+        ...s,
+        suggested_adjustment: suggestAdjustment(groupScore, s.contribution_factor, caseStudy.max_score),
+        has_rated: ratings.some(r => r.rater_id === m.id),
+        adjustment: adjustments.get(m.id) ?? null,
+      };
+    });
+
+    return {
+      ok: true,
+      contributions: {
+        submission_id: submissionId,
+        survey_enabled: caseStudy.contribution_survey_enabled,
+        group_score: groupScore,
+        max_score: caseStudy.max_score,
+        members: memberContributions,
+        events,
+      },
+    };
+  } catch (error) {
+    return { ok: false, error: { stage: 'database', message: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+/** A member's own survey: the other members and what they already rated them. */
+export async function getContributionSurvey(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  raterId: string,
+): Promise<
+  ContributionResult<{
+    enabled: boolean;
+    submitted: boolean;
+    members: { id: string; full_name: string | null }[];
+    ratings: { ratee_id: string; rating: number; comment: string | null }[];
+  }>
+> {
+  const { data: submission } = await adminClient
+    .from('case_study_submissions')
+    .select('id, subgroup_id, submitted_at, case_study:case_studies(contribution_survey_enabled)')
+    .eq('id', submissionId)
+    .maybeSingle();
+  if (!submission) return { ok: false, error: { stage: 'not_found', message: 'Submission not found' } };
+
+  try {
+    const members = await loadSubmissionMembers(adminClient, submission.subgroup_id);
+    if (!members.some(m => m.id === raterId)) {
+      return { ok: false, error: { stage: 'not_found', message: 'Submission not found' } };
+    }
+
+    const { data: ratings, error } = await adminClient
+      .from('case_study_contribution_ratings')
+      .select('ratee_id, rating, comment')
+      .eq('submission_id', submissionId)
+      .eq('rater_id', raterId);
+    if (error) throw error;
+
+    return {
+      ok: true,
+      enabled: !!(submission.case_study as unknown as { contribution_survey_enabled: boolean } | null)?.contribution_survey_enabled,
+      submitted: !!submission.submitted_at,
+      members: members.filter(m => m.id !== raterId),
+      ratings: ratings || [],
+    };
+  } catch (error) {
+    return { ok: false, error: { stage: 'database', message: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+/** Save (or update) a member's survey answers once the submission is in. */
+export async function saveContributionRatings(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  raterId: string,
+  ratings: unknown,
+): Promise<ContributionResult<{ saved: number }>> {
+  const survey = await getContributionSurvey(adminClient, submissionId, raterId);
+  if (!survey.ok) return survey;
+  if (!survey.enabled) {
+    return { ok: false, error: { stage: 'conflict', message: 'The contribution survey is not enabled for this case study' } };
+  }
+  if (!survey.submitted) {
+    return { ok: false, error: { stage: 'conflict', message: 'The survey opens once your subgroup has submitted' } };
+  }
+
+  const invalid = validateRatings(ratings, raterId, survey.members.map(m => m.id));
+  if (invalid) return { ok: false, error: { stage: 'validation', message: invalid } };
+
+  const rows = (ratings as RatingInput[]).map(r => ({
+    submission_id: submissionId,
+    rater_id: raterId,
+    ratee_id: r.ratee_id,
+    rating: r.rating,
+    comment: r.comment?.trim() || null,
+  }));
+
+  const { error } = await adminClient
+    .from('case_study_contribution_ratings')
+    .upsert(rows, { onConflict: 'submission_id,rater_id,ratee_id' });
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  return { ok: true, saved: rows.length };
+}
+
+/**
+ * Set one student's adjustment to the group score, or clear it with
+ * `points: null`. A reason is required to set one.
+ */
+export async function setIndividualAdjustment(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  input: { studentId: string; points: number | null; reason?: string | null; userId: string; role: 'admin' | 'mentor' },
+): Promise<ContributionResult<{ adjustment: CaseStudyIndividualAdjustment | null }>> {
+  const { data: submission } = await adminClient
+    .from('case_study_submissions')
+    .select('id, subgroup_id')
+    .eq('id', submissionId)
+    .maybeSingle();
+  if (!submission) return { ok: false, error: { stage: 'not_found', message: 'Submission not found' } };
+
+  const { data: member } = await adminClient
+    .from('subgroup_members')
+    .select('id')
+    .eq('subgroup_id', submission.subgroup_id)
+    .eq('user_id', input.studentId)
+    .limit(1)
+    .maybeSingle();
+  if (!member) return { ok: false, error: { stage: 'validation', message: 'Student is not a member of this subgroup' } };
+
+  if (input.points === null) {
+    const { error } = await adminClient
+      .from('case_study_individual_adjustments')
+      .delete()
+      .eq('submission_id', submissionId)
+      .eq('student_id', input.studentId);
+    if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+    return { ok: true, adjustment: null };
+  }
+
+  const reason = input.reason?.trim();
+  if (!Number.isFinite(input.points)) return { ok: false, error: { stage: 'validation', message: 'points must be a number' } };
+  if (!reason) return { ok: false, error: { stage: 'validation', message: 'A reason is required to adjust an individual grade' } };
+
+  const { data, error } = await adminClient
+    .from('case_study_individual_adjustments')
+    .upsert(
+      {
+        submission_id: submissionId,
+        student_id: input.studentId,
+        adjustment: round2(input.points),
+        reason,
+        adjusted_by: input.userId,
+        adjusted_by_role: input.role,
+      },
+      { onConflict: 'submission_id,student_id' },
+    )
+    .select()
+    .single();
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  return { ok: true, adjustment: { ...data, adjustment: Number(data.adjustment) } as CaseStudyIndividualAdjustment };
+}
@@ -0,0 +1,653 @@
+/**
+ * Deadline Extensions Service
+ * Extension requests, approvals and direct grants for case study deadlines (migration 046).
+ *
+ * Three kinds of grant:
+ * - cohort:   moves case_studies.due_date
+ * - subgroup: sets case_study_submissions.deadline_override (one subgroup,
+ *             a hand-picked list, or every subgroup a mentor looks after)
+ * - student:  sets case_study_student_deadlines for one person
+ *
+ * Every grant is appended to case_study_extension_log.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CaseStudy,
+  CaseStudyExtensionLogEntry,
+  CaseStudyExtensionRequest,
+  ExtensionRequestStatus,
+  ExtensionScope,
+} from '@/types';
+import { getEffectiveDeadline } from './case-study-deadline';
+import { recomputeLateness } from './late-penalty';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type ExtensionError = {
+  stage: 'validation' | 'not_found' | 'conflict' | 'database';
+  message: string;
+};
+
+export type ExtensionResult<T> = ({ ok: true } & T) | { ok: false; error: ExtensionError };
+
+export type GrantInput = {
+  caseStudyId: string;
+  scope: ExtensionScope;
+  /** Required for scope 'subgroup' */
+  subgroupIds?: string[];
+  /** Required for scope 'student' */
+  studentId?: string;
+  dueDate: string;
+  reason?: string | null;
+  grantedBy: string;
+  requestId?: string | null;
+};
+
+const REVIEWED_VISIBILITIES = ['admin_reviewed', 'mentor_visible', 'subgroup_published', 'cohort_published'];
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Why a requested deadline can't be asked for, or null when it can.
+ * It must be in the future and later than the deadline currently in force;
+ * open-ended case studies have nothing to extend.
+ */
+export function validateRequestedDeadline(
+  requested: Date,
+  current: Date | null,
+  now: Date = new Date(),
+): string | null {
+  if (isNaN(requested.getTime())) return 'Invalid date format for requested_due_date';
+  if (!current) return 'This case study has no deadline';
+  if (requested <= now) return 'Requested deadline must be in the future';
+  if (requested <= current) return 'Requested deadline must be later than the current deadline';
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Deadlines in force
+// ---------------------------------------------------------------------------
+
+/** A student's personal deadlines, keyed by case study id. */
+export async function getStudentDeadlineOverrides(
+  adminClient: SupabaseClient,
+  studentId: string,
+  caseStudyIds: string[],
+): Promise<Record<string, string>> {
+  if (caseStudyIds.length === 0) return {};
+
+  const { data } = await adminClient
+    .from('case_study_student_deadlines')
+    .select('case_study_id, deadline_override')
+    .eq('student_id', studentId)
+    .in('case_study_id', caseStudyIds);
+
+  const out: Record<string, string> = {};
+  for (const row of data || []) out[row.case_study_id] = row.deadline_override;
+  return out;
+}
+
+export async function getStudentDeadlineOverride(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+  studentId: string,
+): Promise<string | null> {
+  const overrides = await getStudentDeadlineOverrides(adminClient, studentId, [caseStudyId]);
+  return overrides[caseStudyId] ?? null;
+}
+
+/** Subgroups in the case study's cohort that a mentor is assigned to. */
+export async function getMentorSubgroupIds(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+  mentorId: string,
+): Promise<string[]> {
+  const { data: cs } = await adminClient
+    .from('case_studies')
+    .select('cohort_id')
+    .eq('id', caseStudyId)
+    .maybeSingle();
+  if (!cs) return [];
+
+  const { data } = await adminClient
+    .from('subgroup_mentors')
+    .select('subgroup_id, subgroup:subgroups!inner(cohort_id)')
+    .eq('user_id', mentorId)
+    .eq('subgroup.cohort_id', cs.cohort_id);
+
+  return (data || []).map((row) => row.subgroup_id as string);
+}
+
+// ---------------------------------------------------------------------------
+// Grants
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply an extension and log it, then re-judge lateness so work already
+ * handed in before the new deadline stops carrying a late penalty.
+ * `alreadyReviewed` counts affected submissions that are past the point
+ * where a new deadline matters.
+ */
+export async function grantExtension(
+  adminClient: SupabaseClient,
+  input: GrantInput,
+): Promise<ExtensionResult<{ granted: number; alreadyReviewed: number }>> {
+  const applied = await applyExtension(adminClient, input);
+  if (!applied.ok) return applied;
+
+  const relabelled = await recomputeLateness(adminClient, input.caseStudyId);
+  if (!relabelled.ok) return { ok: false, error: relabelled.error };
+  return applied;
+}
+
+/**
+ * Log first, then write the new deadline for the scope, so a grant never
+ * takes effect without its log row; the log row is removed if the write
+ * fails. Subgroups without a submission row get a draft one carrying the override.
+ */
+async function applyExtension(
+  adminClient: SupabaseClient,
+  input: GrantInput,
+): Promise<ExtensionResult<{ granted: number; alreadyReviewed: number }>> {
+  const { data: caseStudy } = await adminClient
+    .from('case_studies')
+    .select('id, cohort_id, due_date')
+    .eq('id', input.caseStudyId)
+    .maybeSingle();
+  if (!caseStudy) return { ok: false, error: { stage: 'not_found', message: 'Case study not found' } };
+
+  const logBase = {
+    case_study_id: input.caseStudyId,
+    scope: input.scope,
+    new_due_date: input.dueDate,
+    reason: input.reason || null,
+    request_id: input.requestId ?? null,
+    granted_by: input.grantedBy,
+  };
+
+  if (input.scope === 'cohort') {
+    const { data: submissions } = await adminClient
+      .from('case_study_submissions')
+      .select('visibility')
+      .eq('case_study_id', input.caseStudyId);
+
+    const logged = await insertExtensionLog(adminClient, [{ ...logBase, previous_due_date: caseStudy.due_date }]);
+    if (!logged.ok) return logged;
+
+    const { error } = await adminClient
+      .from('case_studies')
+      .update({ due_date: input.dueDate })
+      .eq('id', input.caseStudyId);
+    if (error) {
+      await deleteExtensionLog(adminClient, logged.ids);
+      return { ok: false, error: { stage: 'database', message: error.message } };
+    }
+
+    return {
+      ok: true,
+      granted: 1,
+      alreadyReviewed: (submissions || []).filter((s) => REVIEWED_VISIBILITIES.includes(s.visibility)).length,
+    };
+  }
+
+  if (input.scope === 'student') {
+    if (!input.studentId) return { ok: false, error: { stage: 'validation', message: 'student_id is required' } };
+
+    const { data: memberships } = await adminClient
+      .from('subgroup_members')
+      .select('subgroup_id, subgroup:subgroups!inner(cohort_id)')
+      .eq('user_id', input.studentId)
+      .eq('subgroup.cohort_id', caseStudy.cohort_id)
+      .limit(1);
+    const subgroupId = memberships?.[0]?.subgroup_id ?? null;
+    if (!subgroupId) {
+      return { ok: false, error: { stage: 'not_found', message: 'Student is not in a subgroup of this cohort' } };
+    }
+
+    const [{ data: submission }, previousPersonal] = await Promise.all([
+      adminClient
+        .from('case_study_submissions')
+        .select('deadline_override, visibility')
+        .eq('case_study_id', input.caseStudyId)
+        .eq('subgroup_id', subgroupId)
+        .maybeSingle(),
+      getStudentDeadlineOverride(adminClient, input.caseStudyId, input.studentId),
+    ]);
+    const previous = getEffectiveDeadline(
+      { deadline_override: submission?.deadline_override ?? null, student_deadline_override: previousPersonal },
+      caseStudy,
+    );
+
+    const logged = await insertExtensionLog(adminClient, [
+      {
+        ...logBase,
+        subgroup_id: subgroupId,
+        student_id: input.studentId,
+        previous_due_date: previous?.toISOString() ?? null,
+      },
+    ]);
+    if (!logged.ok) return logged;
+
+    const { error } = await adminClient
+      .from('case_study_student_deadlines')
+      .upsert(
+        { case_study_id: input.caseStudyId, student_id: input.studentId, deadline_override: input.dueDate },
+        { onConflict: 'case_study_id,student_id' },
+      );
+    if (error) {
+      await deleteExtensionLog(adminClient, logged.ids);
+      return { ok: false, error: { stage: 'database', message: error.message } };
+    }
+
+    return {
+      ok: true,
+      granted: 1,
+      alreadyReviewed: submission && REVIEWED_VISIBILITIES.includes(submission.visibility) ? 1 : 0,
+    };
+  }
+
+  // scope === 'subgroup'
+  const subgroupIds = [...new Set(input.subgroupIds ?? [])];
+  if (subgroupIds.length === 0) {
+    return { ok: false, error: { stage: 'validation', message: 'At least one subgroup is required' } };
+  }
+
+  const { data: subgroups } = await adminClient
+    .from('subgroups')
+    .select('id')
+    .in('id', subgroupIds)
+    .eq('cohort_id', caseStudy.cohort_id);
+  if ((subgroups || []).length !== subgroupIds.length) {
+    return { ok: false, error: { stage: 'not_found', message: 'Subgroup not found in this cohort' } };
+  }
+
+  const { data: submissions, error: fetchError } = await adminClient
+    .from('case_study_submissions')
+    .select('id, subgroup_id, deadline_override, visibility')
+    .eq('case_study_id', input.caseStudyId)
+    .in('subgroup_id', subgroupIds);
+  if (fetchError) return { ok: false, error: { stage: 'database', message: fetchError.message } };
+
+  const bySubgroup = new Map((submissions || []).map((s) => [s.subgroup_id as string, s]));
+  const now = new Date().toISOString();
+
+  const logged = await insertExtensionLog(
+    adminClient,
+    subgroupIds.map((subgroupId) => ({
+      ...logBase,
+      subgroup_id: subgroupId,
+      previous_due_date: bySubgroup.get(subgroupId)?.deadline_override ?? caseStudy.due_date,
+    })),
+  );
+  if (!logged.ok) return logged;
+
+  // New draft rows go in first: unlike the overrides on existing rows, they can be taken back out
+  const missing = subgroupIds.filter((id) => !bySubgroup.has(id));
+  let insertedIds: string[] = [];
+  if (missing.length > 0) {
+    const { data: inserted, error } = await adminClient
+      .from('case_study_submissions')
+      .insert(
+        missing.map((subgroupId) => ({
+          case_study_id: input.caseStudyId,
+          subgroup_id: subgroupId,
+          deadline_override: input.dueDate,
+          visibility: 'draft',
+        })),
+      )
+      .select('id');
+    if (error) {
+      await deleteExtensionLog(adminClient, logged.ids);
+      return { ok: false, error: { stage: 'database', message: error.message } };
+    }
+    insertedIds = (inserted || []).map((s) => s.id as string);
+  }
+
+  const existingIds = (submissions || []).map((s) => s.id);
+  if (existingIds.length > 0) {
+    const { error } = await adminClient
+      .from('case_study_submissions')
+      .update({ deadline_override: input.dueDate, updated_at: now })
+      .in('id', existingIds);
+    if (error) {
+      if (insertedIds.length > 0) await adminClient.from('case_study_submissions').delete().in('id', insertedIds);
+      await deleteExtensionLog(adminClient, logged.ids);
+      return { ok: false, error: { stage: 'database', message: error.message } };
+    }
+  }
+
+  return {
+    ok: true,
+    granted: subgroupIds.length,
+    alreadyReviewed: (submissions || []).filter((s) => REVIEWED_VISIBILITIES.includes(s.visibility)).length,
+  };
+}
+
+async function insertExtensionLog(
+  adminClient: SupabaseClient,
+  rows: Record<string, unknown>[],
+): Promise<ExtensionResult<{ ids: string[] }>> {
+  const { data, error } = await adminClient.from('case_study_extension_log').insert(rows).select('id');
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  return { ok: true, ids: (data || []).map((row) => row.id as string) };
+}
+
+async function deleteExtensionLog(adminClient: SupabaseClient, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const { error } = await adminClient.from('case_study_extension_log').delete().in('id', ids);
+  if (error) console.error('Error removing extension log rows:', error);
+}
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+/**
+ * A student asks for more time, for their subgroup or (`personal`) just for
+ * themselves. One pending request per subgroup/student at a time, and only
+ * while the submission can still change.
+ */
+export async function requestExtension(
+  adminClient: SupabaseClient,
+  input: {
+    caseStudyId: string;
+    userId: string;
+    personal: boolean;
+    requestedDueDate: string;
+    reason: string;
+    now?: Date;
+  },
+): Promise<ExtensionResult<{ request: CaseStudyExtensionRequest }>> {
+  const reason = input.reason.trim();
+  if (!reason) return { ok: false, error: { stage: 'validation', message: 'A reason is required' } };
+
+  const { data: caseStudy } = await adminClient
+    .from('case_studies')
+    .select('id, cohort_id, due_date, is_archived')
+    .eq('id', input.caseStudyId)
+    .maybeSingle();
+  if (!caseStudy || caseStudy.is_archived) {
+    return { ok: false, error: { stage: 'not_found', message: 'Case study not found' } };
+  }
+
+  const { data: memberships } = await adminClient
+    .from('subgroup_members')
+    .select('subgroup_id, subgroup:subgroups!inner(cohort_id)')
+    .eq('user_id', input.userId)
+    .eq('subgroup.cohort_id', caseStudy.cohort_id)
+    .limit(1);
+  const subgroupId = memberships?.[0]?.subgroup_id ?? null;
+  if (!subgroupId) {
+    return { ok: false, error: { stage: 'validation', message: 'You are not in a subgroup for this cohort' } };
+  }
+
+  const [{ data: submission }, personalOverride] = await Promise.all([
+    adminClient
+      .from('case_study_submissions')
+      .select('deadline_override, visibility')
+      .eq('case_study_id', input.caseStudyId)
+      .eq('subgroup_id', subgroupId)
+      .maybeSingle(),
+    getStudentDeadlineOverride(adminClient, input.caseStudyId, input.userId),
+  ]);
+
+  if (submission && submission.visibility !== 'draft' && submission.visibility !== 'submitted') {
+    return { ok: false, error: { stage: 'validation', message: 'This submission is already under review' } };
+  }
+
+  const current = getEffectiveDeadline(
+    { deadline_override: submission?.deadline_override ?? null, student_deadline_override: personalOverride },
+    caseStudy,
+  );
+  const invalid = validateRequestedDeadline(new Date(input.requestedDueDate), current, input.now);
+  if (invalid) return { ok: false, error: { stage: 'validation', message: invalid } };
+
+  let pendingQuery = adminClient
+    .from('case_study_extension_requests')
+    .select('id', { count: 'exact', head: true })
+    .eq('case_study_id', input.caseStudyId)
+    .eq('subgroup_id', subgroupId)
+    .eq('status', 'pending');
+  pendingQuery = input.personal ? pendingQuery.eq('student_id', input.userId) : pendingQuery.is('student_id', null);
+  const { count } = await pendingQuery;
+  if (count) {
+    return { ok: false, error: { stage: 'conflict', message: 'An extension request is already pending' } };
+  }
+
+  const { data: request, error } = await adminClient
+    .from('case_study_extension_requests')
+    .insert({
+      case_study_id: input.caseStudyId,
+      subgroup_id: subgroupId,
+      student_id: input.personal ? input.userId : null,
+      requested_by: input.userId,
+      requested_due_date: new Date(input.requestedDueDate).toISOString(),
+      reason,
+    })
+    .select('*')
+    .single();
+
+  if (error || !request) {
+    return { ok: false, error: { stage: 'database', message: error?.message || 'Failed to create request' } };
+  }
+  return { ok: true, request: request as CaseStudyExtensionRequest };
+}
+
+/**
+ * Approve or reject a pending request. Approval grants the requested date
+ * unless the admin picks a different one, and logs it against the request.
+ * The request is claimed (moved off 'pending') before anything is granted,
+ * so concurrent decisions can't both act on it; a failed grant puts it back.
+ */
+export async function decideExtensionRequest(
+  adminClient: SupabaseClient,
+  requestId: string,
+  input: { approve: boolean; dueDate?: string | null; note?: string | null; deciderId: string },
+): Promise<ExtensionResult<{ request: CaseStudyExtensionRequest }>> {
+  const { data: request } = await adminClient
+    .from('case_study_extension_requests')
+    .select('*')
+    .eq('id', requestId)
+    .maybeSingle();
+  if (!request) return { ok: false, error: { stage: 'not_found', message: 'Extension request not found' } };
+  if (request.status !== 'pending') {
+    return { ok: false, error: { stage: 'conflict', message: `Request has already been ${request.status}` } };
+  }
+
+  const dueDate = input.dueDate || request.requested_due_date;
+  if (input.approve && isNaN(new Date(dueDate).getTime())) {
+    return { ok: false, error: { stage: 'validation', message: 'Invalid date format for due_date' } };
+  }
+
+  const status: ExtensionRequestStatus = input.approve ? 'approved' : 'rejected';
+  const { data: claimed, error } = await adminClient
+    .from('case_study_extension_requests')
+    .update({
+      status,
+      decided_by: input.deciderId,
+      decided_at: new Date().toISOString(),
+      decision_note: input.note || null,
+    })
+    .eq('id', requestId)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  if (!claimed) {
+    return { ok: false, error: { stage: 'conflict', message: 'Request was decided concurrently' } };
+  }
+
+  if (input.approve) {
+    const granted = await grantExtension(adminClient, {
+      caseStudyId: request.case_study_id,
+      scope: request.student_id ? 'student' : 'subgroup',
+      subgroupIds: [request.subgroup_id],
+      studentId: request.student_id ?? undefined,
+      dueDate: new Date(dueDate).toISOString(),
+      reason: request.reason,
+      grantedBy: input.deciderId,
+      requestId,
+    });
+    if (!granted.ok) {
+      const { error: releaseError } = await adminClient
+        .from('case_study_extension_requests')
+        .update({ status: 'pending', decided_by: null, decided_at: null, decision_note: null })
+        .eq('id', requestId);
+      if (releaseError) console.error('Error returning extension request to pending:', releaseError);
+      return granted;
+    }
+  }
+
+  return { ok: true, request: claimed as CaseStudyExtensionRequest };
+}
+
+// ---------------------------------------------------------------------------
+// Listings
+// ---------------------------------------------------------------------------
+
+/**
+ * The admin approval queue, newest first, with names and the deadline the
+ * requester currently has so the admin can see how much extra time is asked.
+ */
+export async function listExtensionRequests(
+  adminClient: SupabaseClient,
+  filters: { status?: ExtensionRequestStatus; cohortId?: string; caseStudyId?: string },
+): Promise<ExtensionResult<{ requests: CaseStudyExtensionRequest[] }>> {
+  let query = adminClient
+    .from('case_study_extension_requests')
+    .select(`
+      *,
+      case_study:case_studies!inner(title, cohort_id, due_date),
+      subgroup:subgroups(name),
+      requester:profiles!case_study_extension_requests_requested_by_fkey(full_name),
+      student:profiles!case_study_extension_requests_student_id_fkey(full_name)
+    `)
+    .order('created_at', { ascending: false });
+
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.cohortId) query = query.eq('case_study.cohort_id', filters.cohortId);
+  if (filters.caseStudyId) query = query.eq('case_study_id', filters.caseStudyId);
+
+  const { data, error } = await query;
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const rows = data || [];
+  const caseStudyIds = [...new Set(rows.map((r) => r.case_study_id as string))];
+  const subgroupIds = [...new Set(rows.map((r) => r.subgroup_id as string))];
+  const studentIds = [...new Set(rows.map((r) => r.student_id).filter(Boolean) as string[])];
+
+  const [{ data: submissions }, { data: personal }] = await Promise.all([
+    caseStudyIds.length
+      ? adminClient
+          .from('case_study_submissions')
+          .select('case_study_id, subgroup_id, deadline_override')
+          .in('case_study_id', caseStudyIds)
+          .in('subgroup_id', subgroupIds)
+      : Promise.resolve({ data: [] as Array<{ case_study_id: string; subgroup_id: string; deadline_override: string | null }> }),
+    studentIds.length
+      ? adminClient
+          .from('case_study_student_deadlines')
+          .select('case_study_id, student_id, deadline_override')
+          .in('case_study_id', caseStudyIds)
+          .in('student_id', studentIds)
+      : Promise.resolve({ data: [] as Array<{ case_study_id: string; student_id: string; deadline_override: string }> }),
+  ]);
+
+  const subgroupOverride = new Map(
+    (submissions || []).map((s) => [`${s.case_study_id}:${s.subgroup_id}`, s.deadline_override as string | null]),
+  );
+  const studentOverride = new Map(
+    (personal || []).map((p) => [`${p.case_study_id}:${p.student_id}`, p.deadline_override as string]),
+  );
+
+  const requests = rows.map((row) => {
+    const { case_study, subgroup, requester, student, ...rest } = row as Record<string, unknown> & {
+      case_study: Pick<CaseStudy, 'title' | 'due_date'>;
+      subgroup?: { name: string } | null;
+      requester?: { full_name: string } | null;
+      student?: { full_name: string } | null;
+    };
+    const r = rest as unknown as CaseStudyExtensionRequest;
+    const current = getEffectiveDeadline(
+      {
+        deadline_override: subgroupOverride.get(`${r.case_study_id}:${r.subgroup_id}`) ?? null,
+        student_deadline_override: r.student_id ? studentOverride.get(`${r.case_study_id}:${r.student_id}`) : null,
+      },
+      case_study,
+    );
+    return {
+      ...r,
+      case_study_title: case_study.title,
+      subgroup_name: subgroup?.name ?? undefined,
+      requested_by_name: requester?.full_name ?? undefined,
+      student_name: student?.full_name ?? null,
+      current_deadline: current?.toISOString() ?? null,
+    };
+  });
+
+  return { ok: true, requests };
+}
+
+/**
+ * Requests a student can see: ones they made and ones covering their whole
+ * subgroup, for the given case studies.
+ */
+export async function listStudentExtensionRequests(
+  adminClient: SupabaseClient,
+  userId: string,
+  subgroupId: string,
+  caseStudyIds: string[],
+): Promise<CaseStudyExtensionRequest[]> {
+  if (caseStudyIds.length === 0) return [];
+
+  const { data } = await adminClient
+    .from('case_study_extension_requests')
+    .select('*')
+    .eq('subgroup_id', subgroupId)
+    .in('case_study_id', caseStudyIds)
+    .or(`student_id.is.null,student_id.eq.${userId}`)
+    .order('created_at', { ascending: false });
+
+  return (data || []) as CaseStudyExtensionRequest[];
+}
+
+/** Every grant for a case study, newest first. */
+export async function listExtensionLog(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+): Promise<ExtensionResult<{ log: CaseStudyExtensionLogEntry[] }>> {
+  const { data, error } = await adminClient
+    .from('case_study_extension_log')
+    .select(`
+      *,
+      subgroup:subgroups(name),
+      student:profiles!case_study_extension_log_student_id_fkey(full_name),
+      granter:profiles!case_study_extension_log_granted_by_fkey(full_name)
+    `)
+    .eq('case_study_id', caseStudyId)
+    .order('created_at', { ascending: false });
+
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const log = (data || []).map((row) => {
+    const { subgroup, student, granter, ...rest } = row as Record<string, unknown> & {
+      subgroup?: { name: string } | null;
+      student?: { full_name: string } | null;
+      granter?: { full_name: string } | null;
+    };
+    return {
+      ...(rest as unknown as CaseStudyExtensionLogEntry),
+      subgroup_name: subgroup?.name ?? null,
+      student_name: student?.full_name ?? null,
+      granted_by_name: granter?.full_name ?? null,
+    };
+  });
+
+  return { ok: true, log };
+}
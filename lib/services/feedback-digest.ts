@@ -0,0 +1,420 @@
+/**
+ * Feedback Digest Service
+ * Tells students their case study feedback is out (migration 051).
+ *
+ * When a submission is published to its subgroup or cohort, each member gets
+ * a digest: the score, rubric breakdown, reviewer comments and, if the
+ * leaderboard is published, the subgroup's rank. Digests are queued as
+ * notification jobs (one per submission and channel, addressed to the
+ * subgroup) for /api/cron/process-notifications to deliver, so publishing
+ * never waits on email or WhatsApp. WhatsApp is queued only when that
+ * integration is active.
+ *
+ * A submission is claimed by setting feedback_notified_at before anything is
+ * queued, so concurrent publishes cannot notify it twice.
+ *
+ * WhatsApp uses a plain text message unless the integration config names an
+ * approved template in `feedback_digest_template`; its body values are the
+ * subgroup's name, the case study, the score and the link.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  enqueueEmailNotification,
+  enqueueWhatsAppNotification,
+  escapeHtml,
+} from '@/lib/services/notification-queue';
+import { pickGradingReview } from '@/lib/services/review-calibration';
+import type { SubmissionVisibility } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DIGEST_KIND = 'case_study_feedback_digest';
+
+/** Visibilities at which students can read their feedback. */
+export const PUBLISHED_VISIBILITIES: SubmissionVisibility[] = ['subgroup_published', 'cohort_published'];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DigestReview {
+  reviewer_id: string;
+  reviewer_role: 'admin' | 'mentor';
+  reviewer_name: string | null;
+  score: number | null;
+  adjusted_score: number | null;
+  late_penalty: number;
+  comment: string | null;
+  overridden: boolean;
+  updated_at: string;
+  rubric_scores: Array<{
+    label: string;
+    score: number;
+    max_score: number;
+    level_label: string | null;
+    comment: string | null;
+  }>;
+}
+
+export interface FeedbackDigest {
+  caseStudyTitle: string;
+  subgroupName: string;
+  score: number | null;
+  maxScore: number;
+  latePenalty: number;
+  rubric: DigestReview['rubric_scores'];
+  comments: Array<{ reviewer: string; comment: string }>;
+  /** Present when the leaderboard is published and the subgroup is on it */
+  rank: { position: number; of: number } | null;
+}
+
+export interface DigestRecipient {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface DigestDeliveryResult {
+  submissionsNotified: number;
+  emailsQueued: number;
+  whatsappQueued: number;
+  /** Submissions whose email or WhatsApp job could not be queued */
+  failed: number;
+}
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * What students see: the grading admin review's score and rubric when there
+ * is one (the adjudicator's under calibration), otherwise the mentor's. Comments come from every review students can see
+ * (overridden mentor reviews are hidden from them).
+ */
+export function buildFeedbackDigest(input: {
+  caseStudyTitle: string;
+  subgroupName: string;
+  maxScore: number;
+  reviews: DigestReview[];
+  adjudicatedBy: string | null;
+  rank: FeedbackDigest['rank'];
+}): FeedbackDigest {
+  const visible = input.reviews.filter(r => !(r.reviewer_role === 'mentor' && r.overridden));
+  const graded =
+    pickGradingReview(visible.filter(r => r.reviewer_role === 'admin'), input.adjudicatedBy) ??
+    visible.find(r => r.score !== null) ??
+    null;
+
+  return {
+    caseStudyTitle: input.caseStudyTitle,
+    subgroupName: input.subgroupName,
+    score: graded ? graded.adjusted_score ?? graded.score : null,
+    maxScore: input.maxScore,
+    latePenalty: graded ? Number(graded.late_penalty) || 0 : 0,
+    rubric: graded?.rubric_scores ?? [],
+    comments: visible
+      .filter(r => r.comment?.trim())
+      .map(r => ({
+        reviewer: r.reviewer_role === 'admin' ? 'Program team' : r.reviewer_name ? `Mentor ${r.reviewer_name}` : 'Mentor',
+        comment: r.comment!.trim(),
+      })),
+    rank: input.rank,
+  };
+}
+
+/**
+ * Standard competition ranking, as on the leaderboard: ties share a rank and
+ * the next rank skips. Unscored entries are unranked.
+ */
+export function rankByScore(scores: Map<string, number | null>): Map<string, { position: number; of: number }> {
+  const scored = [...scores].filter((e): e is [string, number] => e[1] !== null).sort((a, b) => b[1] - a[1]);
+  const ranks = new Map<string, { position: number; of: number }>();
+  scored.forEach(([id, score], i) => {
+    const position = i > 0 && score === scored[i - 1][1] ? ranks.get(scored[i - 1][0])!.position : i + 1;
+    ranks.set(id, { position, of: scored.length });
+  });
+  return ranks;
+}
+
+function scoreLine(digest: FeedbackDigest): string {
+  if (digest.score === null) return 'Not scored';
+  const penalty = digest.latePenalty > 0 ? ` (after a ${digest.latePenalty}-point late penalty)` : '';
+  return `${digest.score}/${digest.maxScore}${penalty}`;
+}
+
+export function renderDigestEmail(
+  digest: FeedbackDigest,
+  recipientName: string | null,
+  link: string,
+): { subject: string; html: string; text: string } {
+  const subject = `Feedback is out: ${digest.caseStudyTitle}`;
+
+  const rubricRows = digest.rubric
+    .map(
+      r =>
+        `<tr><td style="padding: 4px 8px 4px 0;">${escapeHtml(r.label)}${r.level_label ? ` <span style="color: #666666;">(${escapeHtml(r.level_label)})</span>` : ''}</td>` +
+        `<td style="padding: 4px 0; text-align: right; white-space: nowrap;">${r.score}/${r.max_score}</td></tr>`,
+    )
+    .join('');
+  const comments = digest.comments
+    .map(c => `<p style="margin: 0 0 12px;"><strong>${escapeHtml(c.reviewer)}</strong><br>${escapeHtml(c.comment).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+  const html = [
+    `<p>Hi ${escapeHtml(recipientName || 'there')},</p>`,
+    `<p>Feedback on <strong>${escapeHtml(digest.subgroupName)}</strong>'s submission for <strong>${escapeHtml(digest.caseStudyTitle)}</strong> has been published.</p>`,
+    `<p style="font-size: 18px;"><strong>Score: ${escapeHtml(scoreLine(digest))}</strong>`,
+    digest.rank ? `<br>Rank ${digest.rank.position} of ${digest.rank.of}` : '',
+    '</p>',
+    rubricRows ? `<table style="border-collapse: collapse; margin: 0 0 16px;">${rubricRows}</table>` : '',
+    comments,
+    `<p><a href="${escapeHtml(link)}">Read the full feedback</a></p>`,
+  ].join('');
+
+  const text = [
+    `Hi ${recipientName || 'there'},`,
+    '',
+    `Feedback on ${digest.subgroupName}'s submission for ${digest.caseStudyTitle} has been published.`,
+    '',
+    `Score: ${scoreLine(digest)}`,
+    ...(digest.rank ? [`Rank ${digest.rank.position} of ${digest.rank.of}`] : []),
+    ...(digest.rubric.length ? ['', ...digest.rubric.map(r => `${r.label}: ${r.score}/${r.max_score}`)] : []),
+    ...digest.comments.flatMap(c => ['', `${c.reviewer}:`, c.comment]),
+    '',
+    `Read the full feedback: ${link}`,
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+/** Short WhatsApp version: score, rank and the link; comments stay in the app and email. */
+export function renderDigestWhatsApp(digest: FeedbackDigest, recipientName: string | null, link: string): string {
+  return [
+    `Hi ${recipientName || 'there'}, feedback for ${digest.caseStudyTitle} (${digest.subgroupName}) is out.`,
+    `Score: ${scoreLine(digest)}${digest.rank ? ` · Rank ${digest.rank.position} of ${digest.rank.of}` : ''}`,
+    `Read it here: ${link}`,
+  ].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+/** The feedback digest template when WhatsApp is active and deliverable by the cron. */
+async function loadWhatsAppConfig(adminClient: SupabaseClient): Promise<{ templateName: string | null } | null> {
+  const { data: integration } = await adminClient
+    .from('notification_integrations')
+    .select('is_active, provider, config')
+    .eq('channel', 'whatsapp')
+    .maybeSingle();
+  if (!integration?.is_active) return null;
+
+  const config = (integration.config || {}) as Record<string, string | undefined>;
+  if ((config.provider || integration.provider || 'interakt') !== 'interakt') return null;
+  if (!config.api_key && !process.env.INTERAKT_API_KEY) return null;
+  return { templateName: config.feedback_digest_template || null };
+}
+
+/**
+ * Queue digests for published submissions of a case study that haven't been
+ * notified yet. Submissions are claimed first and only claimed ones are
+ * queued; a claim is released if nothing could be queued for it, so the next
+ * publish retries it. Never throws: a failed notification must not undo the
+ * publish that triggered it.
+ */
+export async function queueFeedbackDigests(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+  submissionIds: string[],
+): Promise<DigestDeliveryResult> {
+  const result: DigestDeliveryResult = { submissionsNotified: 0, emailsQueued: 0, whatsappQueued: 0, failed: 0 };
+  if (submissionIds.length === 0) return result;
+
+  const pending = new Set<string>();
+  const release = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const { error } = await adminClient
+      .from('case_study_submissions')
+      .update({ feedback_notified_at: null })
+      .in('id', ids);
+    if (error) console.error('Error releasing feedback digest claims:', error);
+  };
+
+  try {
+    const { data: caseStudy } = await adminClient
+      .from('case_studies')
+      .select('id, title, max_score, leaderboard_published')
+      .eq('id', caseStudyId)
+      .single();
+    if (!caseStudy) return result;
+
+    // Claim: only the request whose update flips feedback_notified_at gets the row back
+    const { data: submissions, error: subError } = await adminClient
+      .from('case_study_submissions')
+      .update({ feedback_notified_at: new Date().toISOString() })
+      .in('id', submissionIds)
+      .in('visibility', PUBLISHED_VISIBILITIES)
+      .is('feedback_notified_at', null)
+      .select('id, subgroup_id, adjudicated_by, subgroup:subgroups(name)');
+    if (subError) throw subError;
+    if (!submissions?.length) return result;
+    for (const s of submissions) pending.add(s.id);
+
+    const ids = submissions.map(s => s.id);
+    const subgroupIds = submissions.map(s => s.subgroup_id);
+
+    const [reviewsRes, membersRes, whatsapp] = await Promise.all([
+      adminClient
+        .from('case_study_reviews')
+        .select('id, submission_id, reviewer_id, reviewer_role, score, adjusted_score, late_penalty, comment, overridden, updated_at, reviewer:profiles!case_study_reviews_reviewer_id_fkey(full_name)')
+        .in('submission_id', ids),
+      adminClient
+        .from('subgroup_members')
+        .select('subgroup_id, user:profiles(id, full_name, email, phone)')
+        .in('subgroup_id', subgroupIds),
+      loadWhatsAppConfig(adminClient),
+    ]);
+    if (reviewsRes.error) throw reviewsRes.error;
+    if (membersRes.error) throw membersRes.error;
+
+    const reviewIds = (reviewsRes.data || []).map(r => r.id);
+    const { data: rubricScores } = reviewIds.length
+      ? await adminClient
+          .from('case_study_rubric_scores')
+          .select('review_id, score, level_label, comment, criteria:case_study_rubric_criteria(label, max_score, order_index)')
+          .in('review_id', reviewIds)
+      : { data: [] };
+
+    const rubricByReview = new Map<string, Array<DigestReview['rubric_scores'][number] & { order: number }>>();
+    for (const rs of rubricScores || []) {
+      const criteria = rs.criteria as unknown as { label: string; max_score: number; order_index: number } | null;
+      if (!criteria) continue;
+      const list = rubricByReview.get(rs.review_id) || [];
+      list.push({
+        label: criteria.label,
+        score: Number(rs.score),
+        max_score: criteria.max_score,
+        level_label: rs.level_label ?? null,
+        comment: rs.comment ?? null,
+        order: criteria.order_index,
+      });
+      rubricByReview.set(rs.review_id, list);
+    }
+
+    const reviewsBySubmission = new Map<string, DigestReview[]>();
+    for (const r of reviewsRes.data || []) {
+      const reviewer = r.reviewer as unknown as { full_name: string } | null;
+      const list = reviewsBySubmission.get(r.submission_id) || [];
+      list.push({
+        reviewer_id: r.reviewer_id,
+        reviewer_role: r.reviewer_role,
+        reviewer_name: reviewer?.full_name ?? null,
+        score: r.score,
+        adjusted_score: r.adjusted_score,
+        late_penalty: Number(r.late_penalty ?? 0),
+        comment: r.comment,
+        overridden: !!r.overridden,
+        updated_at: r.updated_at,
+        rubric_scores: (rubricByReview.get(r.id) || [])
+          .sort((a, b) => a.order - b.order)
+          .map(rs => ({ label: rs.label, score: rs.score, max_score: rs.max_score, level_label: rs.level_label, comment: rs.comment })),
+      });
+      reviewsBySubmission.set(r.submission_id, list);
+    }
+
+    // Rank among cohort-published submissions, like the leaderboard
+    let ranks = new Map<string, { position: number; of: number }>();
+    if (caseStudy.leaderboard_published) {
+      const { data: ranked } = await adminClient
+        .from('case_study_submissions')
+        .select('id, adjudicated_by, reviews:case_study_reviews(reviewer_id, reviewer_role, score, adjusted_score, updated_at)')
+        .eq('case_study_id', caseStudyId)
+        .eq('visibility', 'cohort_published');
+      const scores = new Map<string, number | null>();
+      for (const s of ranked || []) {
+        type RankReview = { reviewer_id: string; reviewer_role: string; score: number | null; adjusted_score: number | null; updated_at: string };
+        const admin = pickGradingReview(
+          (s.reviews as RankReview[]).filter(r => r.reviewer_role === 'admin'),
+          s.adjudicated_by,
+        );
+        scores.set(s.id, admin ? admin.adjusted_score ?? admin.score : null);
+      }
+      ranks = rankByScore(scores);
+    }
+
+    const membersBySubgroup = new Map<string, DigestRecipient[]>();
+    for (const m of membersRes.data || []) {
+      const user = m.user as unknown as { id: string; full_name: string | null; email: string | null; phone: string | null } | null;
+      if (!user) continue;
+      const list = membersBySubgroup.get(m.subgroup_id) || [];
+      list.push({ id: user.id, name: user.full_name, email: user.email, phone: user.phone });
+      membersBySubgroup.set(m.subgroup_id, list);
+    }
+
+    const link = `${process.env.NEXT_PUBLIC_APP_URL ?? ''}/case-studies`;
+
+    for (const submission of submissions) {
+      const subgroup = submission.subgroup as unknown as { name: string } | null;
+      const digest = buildFeedbackDigest({
+        caseStudyTitle: caseStudy.title,
+        subgroupName: subgroup?.name ?? 'Your subgroup',
+        maxScore: caseStudy.max_score,
+        reviews: reviewsBySubmission.get(submission.id) || [],
+        adjudicatedBy: submission.adjudicated_by,
+        rank: ranks.get(submission.id) ?? null,
+      });
+      const members = membersBySubgroup.get(submission.subgroup_id) || [];
+      const metadata = { kind: DIGEST_KIND, case_study_id: caseStudyId, submission_id: submission.id };
+      // One job per channel carries one body, so greet the subgroup rather than each member
+      const greeting = subgroup?.name ?? null;
+
+      const email = renderDigestEmail(digest, greeting, link);
+      const emailJob = await enqueueEmailNotification(adminClient, {
+        subject: email.subject,
+        body: email.html,
+        recipients: members.filter(m => m.email).map(m => ({ id: m.id, email: m.email!, name: m.name })),
+        metadata,
+      });
+
+      const whatsappJob = whatsapp
+        ? await enqueueWhatsAppNotification(adminClient, {
+            body: renderDigestWhatsApp(digest, greeting, link),
+            recipients: members.filter(m => m.phone).map(m => ({ id: m.id, phone: m.phone!, name: m.name })),
+            templateName: whatsapp.templateName,
+            templateVariables: {
+              name: greeting || 'there',
+              case_study: digest.caseStudyTitle,
+              score: scoreLine(digest),
+              link,
+            },
+            metadata,
+          })
+        : null;
+
+      for (const job of [emailJob, whatsappJob]) {
+        if (job && !job.ok) console.error('Error queueing feedback digest:', job.error);
+      }
+      if (emailJob.ok) result.emailsQueued += emailJob.recipientCount;
+      if (whatsappJob?.ok) result.whatsappQueued += whatsappJob.recipientCount;
+
+      if (!emailJob.ok || (whatsappJob && !whatsappJob.ok)) {
+        result.failed++;
+        // Keep the claim if either channel went out; retrying would repeat it
+        if (!emailJob.ok && !whatsappJob?.ok) continue;
+      }
+      pending.delete(submission.id);
+      result.submissionsNotified++;
+    }
+
+    await release([...pending]);
+  } catch (error) {
+    console.error('Error queueing feedback digests:', error);
+    await release([...pending]);
+  }
+
+  return result;
+}
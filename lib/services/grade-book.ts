@@ -0,0 +1,406 @@
+/**
+ * Grade Book Service
+ * One cohort's case study grades as a matrix of subgroups and students by
+ * case studies, and the case_study_score it feeds into `rankings`.
+ *
+ * The admin review carries the grade (the adjudicator's when a calibration
+ * was adjudicated), after late penalties. Students get their subgroup's
+ * grade plus any individual adjustment a mentor or admin made from the
+ * contribution data (lib/services/contributions.ts). A case study counts
+ * towards case_study_score once it is graded, or as zero once its deadline and
+ * grace period passed without a submission.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CaseStudy,
+  CohortGradeBook,
+  GradeBookCaseStudy,
+  GradeBookCell,
+  GradeBookStatus,
+  GradeBookStudentRow,
+  GradeBookSubgroupRow,
+} from '@/types';
+import { getEffectiveDeadlineWithGrace } from '@/lib/services/case-study-deadline';
+import { pickGradingReview } from '@/lib/services/review-calibration';
+import { computeContributionFactors, individualScore } from '@/lib/services/contributions';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type GradeBookCaseStudyInput = GradeBookCaseStudy & Pick<CaseStudy, 'grace_period_minutes'>;
+
+export interface GradeBookSubmissionInput {
+  id: string;
+  case_study_id: string;
+  subgroup_id: string;
+  visibility: string;
+  submitted_at: string | null;
+  is_late: boolean;
+  deadline_override: string | null;
+  adjudicated_by: string | null;
+}
+
+export interface GradeBookReviewInput {
+  submission_id: string;
+  reviewer_id: string;
+  reviewer_name: string | null;
+  score: number | null;
+  late_penalty: number;
+  adjusted_score: number | null;
+  updated_at: string;
+}
+
+export interface GradeBookInput {
+  cohortId: string;
+  caseStudies: GradeBookCaseStudyInput[];
+  subgroups: { id: string; name: string }[];
+  students: { id: string; full_name: string | null; email: string }[];
+  members: { subgroup_id: string; user_id: string }[];
+  submissions: GradeBookSubmissionInput[];
+  /** Admin reviews only */
+  reviews: GradeBookReviewInput[];
+  ratings: { submission_id: string; ratee_id: string; rating: number }[];
+  adjustments: { submission_id: string; student_id: string; adjustment: number }[];
+  now: Date;
+}
+
+type GradeBookError = {
+  stage: 'database';
+  message: string;
+};
+
+export type GradeBookResult<T> = ({ ok: true } & T) | { ok: false; error: GradeBookError };
+
+export type GradeBookView = 'students' | 'subgroups';
+
+const PUBLISHED = ['subgroup_published', 'cohort_published'];
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function buildGradeBookCell(
+  caseStudy: GradeBookCaseStudyInput,
+  submission: GradeBookSubmissionInput | null,
+  review: GradeBookReviewInput | null,
+  now: Date,
+): GradeBookCell {
+  const submitted = !!submission?.submitted_at && submission.visibility !== 'draft';
+
+  let status: GradeBookStatus;
+  if (review) {
+    status = PUBLISHED.includes(submission?.visibility ?? '') ? 'published' : 'graded';
+  } else if (submitted) {
+    status = 'awaiting_review';
+  } else {
+    const closesAt = getEffectiveDeadlineWithGrace(submission, caseStudy);
+    status = closesAt && closesAt < now ? 'missing' : 'not_submitted';
+  }
+
+  const raw = review?.score ?? null;
+  return {
+    case_study_id: caseStudy.id,
+    submission_id: submission?.id ?? null,
+    status,
+    is_late: !!submission?.is_late,
+    raw_score: raw,
+    late_penalty: review ? Number(review.late_penalty ?? 0) : 0,
+    final_score: review ? Number(review.adjusted_score ?? raw) : null,
+    reviewer_name: review?.reviewer_name ?? null,
+    individual_adjustment: null,
+    contribution_factor: null,
+  };
+}
+
+/**
+ * Percent of possible points: graded case studies count their final score,
+ * missed ones count zero, and anything still open or awaiting review is left
+ * out. Null until something counts.
+ */
+export function aggregateCaseStudyScore(
+  cells: Record<string, GradeBookCell>,
+  caseStudies: Pick<GradeBookCaseStudy, 'id' | 'max_score'>[],
+): number | null {
+  let earned = 0;
+  let possible = 0;
+  for (const cs of caseStudies) {
+    const cell = cells[cs.id];
+    if (!cell) continue;
+    if (cell.final_score !== null) {
+      earned += cell.final_score;
+      possible += cs.max_score;
+    } else if (cell.status === 'missing') {
+      possible += cs.max_score;
+    }
+  }
+  return possible > 0 ? round2((earned / possible) * 100) : null;
+}
+
+export function buildGradeBook(input: GradeBookInput): CohortGradeBook {
+  const submissionByKey = new Map(input.submissions.map(s => [`${s.case_study_id}:${s.subgroup_id}`, s]));
+  const reviewsBySubmission = new Map<string, GradeBookReviewInput[]>();
+  for (const r of input.reviews) {
+    const list = reviewsBySubmission.get(r.submission_id) ?? [];
+    list.push(r);
+    reviewsBySubmission.set(r.submission_id, list);
+  }
+
+  const caseStudies: GradeBookCaseStudy[] = input.caseStudies.map(cs => ({
+    id: cs.id,
+    title: cs.title,
+    week_number: cs.week_number,
+    max_score: cs.max_score,
+    due_date: cs.due_date,
+  }));
+
+  const subgroups: GradeBookSubgroupRow[] = input.subgroups.map(sg => {
+    const cells: Record<string, GradeBookCell> = {};
+    for (const cs of input.caseStudies) {
+      const submission = submissionByKey.get(`${cs.id}:${sg.id}`) ?? null;
+      const review = submission
+        ? pickGradingReview(reviewsBySubmission.get(submission.id) ?? [], submission.adjudicated_by)
+        : null;
+      cells[cs.id] = buildGradeBookCell(cs, submission, review, input.now);
+    }
+    return {
+      subgroup_id: sg.id,
+      subgroup_name: sg.name,
+      cells,
+      case_study_score: aggregateCaseStudyScore(cells, caseStudies),
+    };
+  });
+
+  const subgroupById = new Map(subgroups.map(sg => [sg.subgroup_id, sg]));
+  const subgroupByUser = new Map(
+    input.members.filter(m => subgroupById.has(m.subgroup_id)).map(m => [m.user_id, m.subgroup_id]),
+  );
+  const membersBySubgroup = new Map<string, string[]>();
+  for (const [userId, subgroupId] of subgroupByUser) {
+    membersBySubgroup.set(subgroupId, [...(membersBySubgroup.get(subgroupId) ?? []), userId]);
+  }
+  const adjustmentByKey = new Map(input.adjustments.map(a => [`${a.submission_id}:${a.student_id}`, Number(a.adjustment)]));
+  const factorsBySubmission = new Map<string, ReturnType<typeof computeContributionFactors>>();
+  const maxScoreById = new Map(caseStudies.map(cs => [cs.id, cs.max_score]));
+
+  const studentCell = (cell: GradeBookCell, userId: string, subgroupId: string): GradeBookCell => {
+    if (!cell.submission_id) return cell;
+    let factors = factorsBySubmission.get(cell.submission_id);
+    if (!factors) {
+      factors = computeContributionFactors(
+        membersBySubgroup.get(subgroupId) ?? [],
+        input.ratings.filter(r => r.submission_id === cell.submission_id),
+      );
+      factorsBySubmission.set(cell.submission_id, factors);
+    }
+    const adjustment = adjustmentByKey.get(`${cell.submission_id}:${userId}`) ?? null;
+    return {
+      ...cell,
+      final_score: individualScore(cell.final_score, adjustment, maxScoreById.get(cell.case_study_id)!),
+      individual_adjustment: adjustment,
+      contribution_factor: factors.get(userId)?.contribution_factor ?? null,
+    };
+  };
+
+  // A student outside every subgroup could not submit, so has no grades yet
+  const students: GradeBookStudentRow[] = input.students
+    .map(student => {
+      const subgroup = subgroupById.get(subgroupByUser.get(student.id) ?? '');
+      const cells: Record<string, GradeBookCell> = {};
+      for (const [caseStudyId, cell] of Object.entries(subgroup?.cells ?? {})) {
+        cells[caseStudyId] = studentCell(cell, student.id, subgroup!.subgroup_id);
+      }
+      return {
+        user_id: student.id,
+        full_name: student.full_name,
+        email: student.email,
+        subgroup_id: subgroup?.subgroup_id ?? null,
+        subgroup_name: subgroup?.subgroup_name ?? null,
+        cells,
+        case_study_score: aggregateCaseStudyScore(cells, caseStudies),
+      };
+    })
+    .sort((a, b) => (a.full_name ?? a.email).localeCompare(b.full_name ?? b.email));
+
+  return {
+    cohort_id: input.cohortId,
+    case_studies: caseStudies,
+    subgroups,
+    students,
+    generated_at: input.now.toISOString(),
+  };
+}
+
+/**
+ * Flatten the grade book into spreadsheet rows (one per student or subgroup),
+ * with score, penalty, reviewer and status columns for each case study, plus
+ * the individual adjustment for students.
+ */
+export function gradeBookToRows(gradeBook: CohortGradeBook, view: GradeBookView): Record<string, string | number>[] {
+  const rows: Array<GradeBookStudentRow | GradeBookSubgroupRow> =
+    view === 'students' ? gradeBook.students : gradeBook.subgroups;
+
+  return rows.map(row => {
+    const out: Record<string, string | number> =
+      'user_id' in row
+        ? { Student: row.full_name ?? '', Email: row.email, Subgroup: row.subgroup_name ?? '' }
+        : { Subgroup: row.subgroup_name };
+
+    for (const cs of gradeBook.case_studies) {
+      const cell = row.cells[cs.id];
+      const label = `W${cs.week_number} ${cs.title}`;
+      out[`${label} - Score`] = cell?.final_score ?? '';
+      out[`${label} - Late Penalty`] = cell && cell.late_penalty > 0 ? cell.late_penalty : '';
+      if ('user_id' in row) out[`${label} - Adjustment`] = cell?.individual_adjustment ?? '';
+      out[`${label} - Reviewer`] = cell?.reviewer_name ?? '';
+      out[`${label} - Status`] = cell?.status ?? '';
+    }
+    out['Case Study Score (%)'] = row.case_study_score ?? '';
+    return out;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+/** Students of a cohort — role assignments plus legacy profiles.cohort_id. */
+export async function loadCohortStudents(
+  adminClient: SupabaseClient,
+  cohortId: string,
+): Promise<GradeBookInput['students']> {
+  const [{ data: assignments }, { data: legacy }] = await Promise.all([
+    adminClient.from('user_role_assignments').select('user_id').eq('role', 'student').eq('cohort_id', cohortId),
+    adminClient.from('profiles').select('id').eq('role', 'student').eq('cohort_id', cohortId),
+  ]);
+
+  const ids = [
+    ...new Set([
+      ...(assignments || []).map((a: { user_id: string }) => a.user_id),
+      ...(legacy || []).map((p: { id: string }) => p.id),
+    ]),
+  ];
+  if (ids.length === 0) return [];
+
+  const { data: profiles, error } = await adminClient.from('profiles').select('id, full_name, email').in('id', ids);
+  if (error) throw error;
+  return profiles || [];
+}
+
+export async function getCohortGradeBook(
+  adminClient: SupabaseClient,
+  cohortId: string,
+  now: Date = new Date(),
+): Promise<GradeBookResult<{ gradeBook: CohortGradeBook }>> {
+  try {
+    const [{ data: caseStudies, error: csError }, { data: subgroups, error: sgError }, students] = await Promise.all([
+      adminClient
+        .from('case_studies')
+        .select('id, title, week_number, max_score, due_date, grace_period_minutes')
+        .eq('cohort_id', cohortId)
+        .order('week_number')
+        .order('order_index'),
+      adminClient.from('subgroups').select('id, name').eq('cohort_id', cohortId).order('name'),
+      loadCohortStudents(adminClient, cohortId),
+    ]);
+    if (csError) throw csError;
+    if (sgError) throw sgError;
+
+    const subgroupIds = (subgroups || []).map(sg => sg.id);
+    const caseStudyIds = (caseStudies || []).map(cs => cs.id);
+
+    const [{ data: members, error: memberError }, { data: submissions, error: subError }] = await Promise.all([
+      subgroupIds.length
+        ? adminClient.from('subgroup_members').select('subgroup_id, user_id').in('subgroup_id', subgroupIds)
+        : Promise.resolve({ data: [], error: null }),
+      caseStudyIds.length
+        ? adminClient
+            .from('case_study_submissions')
+            .select('id, case_study_id, subgroup_id, visibility, submitted_at, is_late, deadline_override, adjudicated_by')
+            .in('case_study_id', caseStudyIds)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+    if (memberError) throw memberError;
+    if (subError) throw subError;
+
+    const submissionIds = (submissions || []).map(s => s.id as string);
+    const none = Promise.resolve({ data: [], error: null });
+    const [reviewsRes, ratingsRes, adjustmentsRes] = await Promise.all([
+      submissionIds.length
+        ? adminClient
+            .from('case_study_reviews')
+            .select('submission_id, reviewer_id, score, late_penalty, adjusted_score, updated_at, reviewer:profiles!case_study_reviews_reviewer_id_fkey(full_name)')
+            .in('submission_id', submissionIds)
+            .eq('reviewer_role', 'admin')
+        : none,
+      submissionIds.length
+        ? adminClient
+            .from('case_study_contribution_ratings')
+            .select('submission_id, ratee_id, rating')
+            .in('submission_id', submissionIds)
+        : none,
+      submissionIds.length
+        ? adminClient
+            .from('case_study_individual_adjustments')
+            .select('submission_id, student_id, adjustment')
+            .in('submission_id', submissionIds)
+        : none,
+    ]);
+    if (reviewsRes.error) throw reviewsRes.error;
+    if (ratingsRes.error) throw ratingsRes.error;
+    if (adjustmentsRes.error) throw adjustmentsRes.error;
+
+    const gradeBook = buildGradeBook({
+      cohortId,
+      caseStudies: (caseStudies || []) as GradeBookCaseStudyInput[],
+      subgroups: subgroups || [],
+      students,
+      members: members || [],
+      submissions: (submissions || []) as GradeBookSubmissionInput[],
+      reviews: (reviewsRes.data || []).map(r => {
+        const { reviewer, ...rest } = r as Record<string, unknown>;
+        return {
+          ...rest,
+          reviewer_name: (reviewer as { full_name: string | null } | null)?.full_name ?? null,
+        } as GradeBookReviewInput;
+      }),
+      ratings: (ratingsRes.data || []) as GradeBookInput['ratings'],
+      adjustments: (adjustmentsRes.data || []) as GradeBookInput['adjustments'],
+      now,
+    });
+
+    return { ok: true, gradeBook };
+  } catch (error) {
+    return { ok: false, error: { stage: 'database', message: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+/**
+ * Write each student's case_study_score into `rankings`, leaving the other
+ * ranking columns alone. Students with nothing graded yet get null.
+ */
+export async function syncRankingScores(
+  adminClient: SupabaseClient,
+  gradeBook: CohortGradeBook,
+): Promise<GradeBookResult<{ updated: number }>> {
+  if (gradeBook.students.length === 0) return { ok: true, updated: 0 };
+
+  const calculatedAt = new Date().toISOString();
+  const { error } = await adminClient.from('rankings').upsert(
+    gradeBook.students.map(s => ({
+      user_id: s.user_id,
+      cohort_id: gradeBook.cohort_id,
+      case_study_score: s.case_study_score,
+      calculated_at: calculatedAt,
+    })),
+    { onConflict: 'user_id,cohort_id' },
+  );
+
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  return { ok: true, updated: gradeBook.students.length };
+}
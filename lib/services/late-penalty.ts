@@ -0,0 +1,340 @@
+/**
+ * Late Penalty Service
+ * Turns a submission's lateness into a score deduction (migration 047).
+ *
+ * Reviews keep the raw score; late_penalty and adjusted_score are derived
+ * from the case study's policy, the submission's late_minutes and any
+ * per-submission override, and are rewritten whenever one of those changes.
+ * late_minutes itself is re-judged from submitted_at whenever a deadline
+ * moves (extensions, due date edits), so an extension can lift a penalty.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CaseStudy, CaseStudySubmission, LatePolicyType } from '@/types';
+import { isLate, minutesLate, type DeadlineSubject } from './case-study-deadline';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LatePolicy = Pick<
+  CaseStudy,
+  | 'late_policy'
+  | 'late_penalty_points'
+  | 'late_penalty_percent'
+  | 'late_penalty_unit'
+  | 'late_penalty_cap_percent'
+  | 'late_zero_after_hours'
+>;
+
+export type LatenessInput = Pick<CaseStudySubmission, 'is_late' | 'late_minutes' | 'late_penalty_override'>;
+
+export type LatenessFields = Pick<CaseStudySubmission, 'is_late' | 'late_minutes'>;
+
+export type PenaltyFields = {
+  late_penalty: number;
+  adjusted_score: number | null;
+};
+
+type LatePenaltyError = {
+  stage: 'validation' | 'not_found' | 'database';
+  message: string;
+};
+
+export type LatePenaltyResult<T> = ({ ok: true } & T) | { ok: false; error: LatePenaltyError };
+
+const LATE_POLICIES: LatePolicyType[] = ['flag', 'fixed', 'percent', 'zero_after'];
+
+const POLICY_COLUMNS =
+  'late_policy, late_penalty_points, late_penalty_percent, late_penalty_unit, late_penalty_cap_percent, late_zero_after_hours';
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Points the policy takes off a raw score for a submission this many minutes
+ * late. Never more than the score itself.
+ */
+export function computeLatePenalty(policy: LatePolicy, rawScore: number, lateMinutes: number): number {
+  if (lateMinutes <= 0 || rawScore <= 0) return 0;
+
+  switch (policy.late_policy) {
+    case 'fixed':
+      return round2(Math.min(Number(policy.late_penalty_points ?? 0), rawScore));
+    case 'percent': {
+      const unitMinutes = policy.late_penalty_unit === 'day' ? 24 * 60 : 60;
+      const units = Math.ceil(lateMinutes / unitMinutes);
+      const percent = Math.min(Number(policy.late_penalty_percent ?? 0) * units, Number(policy.late_penalty_cap_percent ?? 100));
+      return round2((rawScore * percent) / 100);
+    }
+    case 'zero_after':
+      return lateMinutes >= Number(policy.late_zero_after_hours ?? 0) * 60 ? rawScore : 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * The stored penalty columns for a review: an override replaces the policy's
+ * deduction, and an ungraded review has nothing to adjust.
+ */
+export function penaltyFields(policy: LatePolicy, submission: LatenessInput, rawScore: number | null): PenaltyFields {
+  if (rawScore === null) return { late_penalty: 0, adjusted_score: null };
+
+  const penalty =
+    submission.late_penalty_override !== null
+      ? round2(Math.min(Number(submission.late_penalty_override), rawScore))
+      : submission.is_late
+        ? computeLatePenalty(policy, rawScore, submission.late_minutes)
+        : 0;
+
+  return { late_penalty: penalty, adjusted_score: round2(Math.max(0, rawScore - penalty)) };
+}
+
+/** Lateness of work handed in at `submittedAt`, judged against the deadline in force now. */
+export function latenessAt(
+  subject: DeadlineSubject,
+  caseStudy: Pick<CaseStudy, 'due_date' | 'grace_period_minutes'>,
+  submittedAt: Date,
+): LatenessFields {
+  return {
+    is_late: isLate(subject, caseStudy, submittedAt),
+    late_minutes: minutesLate(subject, caseStudy, submittedAt),
+  };
+}
+
+/** Short human description, e.g. "−10% per hour late, up to 50%". */
+export function describeLatePolicy(policy: LatePolicy): string {
+  switch (policy.late_policy) {
+    case 'fixed':
+      return `−${Number(policy.late_penalty_points ?? 0)} points if late`;
+    case 'percent': {
+      const cap = policy.late_penalty_cap_percent !== null ? `, up to ${Number(policy.late_penalty_cap_percent)}%` : '';
+      return `−${Number(policy.late_penalty_percent ?? 0)}% per ${policy.late_penalty_unit} late${cap}`;
+    }
+    case 'zero_after':
+      return `Zero if ${Number(policy.late_zero_after_hours ?? 0)}+ hours late`;
+    default:
+      return 'Late submissions are flagged only';
+  }
+}
+
+/**
+ * Check a policy update from the admin UI. Only the fields the chosen policy
+ * uses are required; the rest are cleared.
+ */
+export function validateLatePolicy(input: Record<string, unknown>): { ok: true; policy: LatePolicy } | { ok: false; message: string } {
+  const type = input.late_policy as LatePolicyType;
+  if (!LATE_POLICIES.includes(type)) {
+    return { ok: false, message: `late_policy must be one of: ${LATE_POLICIES.join(', ')}` };
+  }
+
+  const num = (key: string): number | null => {
+    const v = input[key];
+    if (v === null || v === undefined || v === '') return null;
+    const n = Number(v);
+    return Number.isFinite(n) ? n : NaN;
+  };
+
+  const policy: LatePolicy = {
+    late_policy: type,
+    late_penalty_points: null,
+    late_penalty_percent: null,
+    late_penalty_unit: input.late_penalty_unit === 'day' ? 'day' : 'hour',
+    late_penalty_cap_percent: null,
+    late_zero_after_hours: null,
+  };
+
+  if (type === 'fixed') {
+    const points = num('late_penalty_points');
+    if (points === null || isNaN(points) || points < 0) return { ok: false, message: 'late_penalty_points must be 0 or more' };
+    policy.late_penalty_points = points;
+  }
+
+  if (type === 'percent') {
+    const percent = num('late_penalty_percent');
+    if (percent === null || isNaN(percent) || percent <= 0 || percent > 100) {
+      return { ok: false, message: 'late_penalty_percent must be between 0 and 100' };
+    }
+    const cap = num('late_penalty_cap_percent');
+    if (cap !== null && (isNaN(cap) || cap <= 0 || cap > 100)) {
+      return { ok: false, message: 'late_penalty_cap_percent must be between 0 and 100' };
+    }
+    policy.late_penalty_percent = percent;
+    policy.late_penalty_cap_percent = cap;
+  }
+
+  if (type === 'zero_after') {
+    const hours = num('late_zero_after_hours');
+    if (hours === null || isNaN(hours) || hours < 0) return { ok: false, message: 'late_zero_after_hours must be 0 or more' };
+    policy.late_zero_after_hours = hours;
+  }
+
+  return { ok: true, policy };
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+/** Penalty columns for a review about to be saved on this submission. */
+export async function getPenaltyFields(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  rawScore: number | null,
+): Promise<PenaltyFields> {
+  const { data } = await adminClient
+    .from('case_study_submissions')
+    .select(`is_late, late_minutes, late_penalty_override, case_study:case_studies(${POLICY_COLUMNS})`)
+    .eq('id', submissionId)
+    .maybeSingle();
+
+  if (!data) return { late_penalty: 0, adjusted_score: rawScore };
+  const policy = data.case_study as unknown as LatePolicy;
+  return penaltyFields(policy, data, rawScore);
+}
+
+/**
+ * Rewrite late_penalty / adjusted_score on every review of a case study (or
+ * of one submission), e.g. after the policy or an override changed.
+ */
+export async function recomputeAdjustedScores(
+  adminClient: SupabaseClient,
+  target: { caseStudyId: string } | { submissionId: string },
+): Promise<LatePenaltyResult<{ updated: number }>> {
+  let query = adminClient
+    .from('case_study_submissions')
+    .select(`id, is_late, late_minutes, late_penalty_override, case_study:case_studies(${POLICY_COLUMNS})`);
+  query = 'caseStudyId' in target ? query.eq('case_study_id', target.caseStudyId) : query.eq('id', target.submissionId);
+
+  const { data: submissions, error } = await query;
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  if (!submissions?.length) return { ok: true, updated: 0 };
+
+  const bySubmission = new Map(submissions.map((s) => [s.id as string, s]));
+  const { data: reviews, error: reviewError } = await adminClient
+    .from('case_study_reviews')
+    .select('id, submission_id, score, late_penalty, adjusted_score')
+    .in('submission_id', [...bySubmission.keys()]);
+  if (reviewError) return { ok: false, error: { stage: 'database', message: reviewError.message } };
+
+  let updated = 0;
+  for (const review of reviews || []) {
+    const submission = bySubmission.get(review.submission_id)!;
+    const fields = penaltyFields(
+      submission.case_study as unknown as LatePolicy,
+      submission,
+      review.score === null ? null : Number(review.score),
+    );
+    const unchanged =
+      Number(review.late_penalty) === fields.late_penalty &&
+      (review.adjusted_score === null ? null : Number(review.adjusted_score)) === fields.adjusted_score;
+    if (unchanged) continue;
+
+    const { error: updateError } = await adminClient.from('case_study_reviews').update(fields).eq('id', review.id);
+    if (updateError) return { ok: false, error: { stage: 'database', message: updateError.message } };
+    updated++;
+  }
+
+  return { ok: true, updated };
+}
+
+/**
+ * Re-judge is_late / late_minutes on every handed-in submission of a case
+ * study against the deadlines now in force (due date, subgroup override and
+ * the submitter's personal extension), then rewrite the review penalties.
+ */
+export async function recomputeLateness(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+): Promise<LatePenaltyResult<{ relabelled: number; updated: number }>> {
+  const [{ data: caseStudy }, { data: submissions, error }, { data: personal }] = await Promise.all([
+    adminClient.from('case_studies').select('due_date, grace_period_minutes').eq('id', caseStudyId).maybeSingle(),
+    adminClient
+      .from('case_study_submissions')
+      .select('id, submitted_by, submitted_at, deadline_override, is_late, late_minutes')
+      .eq('case_study_id', caseStudyId)
+      .not('submitted_at', 'is', null),
+    adminClient
+      .from('case_study_student_deadlines')
+      .select('student_id, deadline_override')
+      .eq('case_study_id', caseStudyId),
+  ]);
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  if (!caseStudy) return { ok: false, error: { stage: 'not_found', message: 'Case study not found' } };
+
+  const personalByStudent = new Map((personal || []).map((p) => [p.student_id as string, p.deadline_override as string]));
+
+  let relabelled = 0;
+  for (const submission of submissions || []) {
+    const fields = latenessAt(
+      {
+        deadline_override: submission.deadline_override,
+        student_deadline_override: submission.submitted_by ? personalByStudent.get(submission.submitted_by) ?? null : null,
+      },
+      caseStudy,
+      new Date(submission.submitted_at),
+    );
+    if (fields.is_late === submission.is_late && fields.late_minutes === submission.late_minutes) continue;
+
+    const { error: updateError } = await adminClient.from('case_study_submissions').update(fields).eq('id', submission.id);
+    if (updateError) return { ok: false, error: { stage: 'database', message: updateError.message } };
+    relabelled++;
+  }
+
+  const recomputed = await recomputeAdjustedScores(adminClient, { caseStudyId });
+  if (!recomputed.ok) return recomputed;
+  return { ok: true, relabelled, updated: recomputed.updated };
+}
+
+/**
+ * Replace the policy's penalty for one submission (points, 0 to waive), or
+ * clear the override with `points: null`. Setting one requires a reason.
+ */
+export async function setPenaltyOverride(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  input: { points: number | null; reason?: string | null; userId: string },
+): Promise<LatePenaltyResult<{ updated: number }>> {
+  const reason = input.reason?.trim() || null;
+  if (input.points !== null) {
+    if (!Number.isFinite(input.points) || input.points < 0) {
+      return { ok: false, error: { stage: 'validation', message: 'points must be 0 or more' } };
+    }
+    if (!reason) return { ok: false, error: { stage: 'validation', message: 'A reason is required to override a late penalty' } };
+  }
+
+  const { data: submission } = await adminClient
+    .from('case_study_submissions')
+    .select('id')
+    .eq('id', submissionId)
+    .maybeSingle();
+  if (!submission) return { ok: false, error: { stage: 'not_found', message: 'Submission not found' } };
+
+  const { error } = await adminClient
+    .from('case_study_submissions')
+    .update(
+      input.points === null
+        ? {
+            late_penalty_override: null,
+            late_penalty_override_reason: null,
+            late_penalty_overridden_by: null,
+            late_penalty_overridden_at: null,
+          }
+        : {
+            late_penalty_override: input.points,
+            late_penalty_override_reason: reason,
+            late_penalty_overridden_by: input.userId,
+            late_penalty_overridden_at: new Date().toISOString(),
+          },
+    )
+    .eq('id', submissionId);
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  return recomputeAdjustedScores(adminClient, { submissionId });
+}
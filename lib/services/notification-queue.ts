@@ -0,0 +1,183 @@
+/**
+ * Notification Queue
+ * Enqueue system-generated emails and WhatsApp messages onto the
+ * notification_jobs pipeline (migration 008), delivered by
+ * /api/cron/process-notifications.
+ *
+ * The cron picks up pending jobs and sends every notification_logs row with
+ * event_type 'sent' and a null created_at, stamping created_at on delivery —
+ * so recipient rows are inserted with created_at explicitly null.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type NotificationRecipient = {
+  id?: string | null;
+  email: string;
+  name?: string | null;
+};
+
+export type EnqueueEmailInput = {
+  subject: string;
+  /** HTML body */
+  body: string;
+  recipients: NotificationRecipient[];
+  /** 1-10, higher = more urgent */
+  priority?: number;
+  /** Stored on the job, e.g. { kind: 'attendance_excuse_request', request_id } */
+  metadata?: Record<string, unknown>;
+};
+
+export type EnqueueEmailResult =
+  | { ok: true; jobId: string | null; recipientCount: number }
+  | { ok: false; error: { stage: 'job' | 'logs'; message: string } };
+
+export type WhatsAppRecipient = {
+  id?: string | null;
+  phone: string;
+  name?: string | null;
+};
+
+export type EnqueueWhatsAppInput = {
+  /** Plain text body, sent when no template is named */
+  body: string;
+  recipients: WhatsAppRecipient[];
+  /** Approved Interakt template; the cron sends it with templateVariables */
+  templateName?: string | null;
+  templateVariables?: Record<string, string>;
+  priority?: number;
+  metadata?: Record<string, unknown>;
+};
+
+export type EnqueueWhatsAppResult = EnqueueEmailResult;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/** Escape user-supplied text before interpolating it into an email body. */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]);
+}
+
+export async function enqueueEmailNotification(
+  adminClient: SupabaseClient,
+  input: EnqueueEmailInput,
+): Promise<EnqueueEmailResult> {
+  // Dedupe by email; nothing to send is not an error
+  const byEmail = new Map<string, NotificationRecipient>();
+  for (const r of input.recipients) {
+    const email = r.email?.trim().toLowerCase();
+    if (email && !byEmail.has(email)) byEmail.set(email, { ...r, email });
+  }
+  const recipients = Array.from(byEmail.values());
+  if (recipients.length === 0) {
+    return { ok: true, jobId: null, recipientCount: 0 };
+  }
+
+  const single = recipients.length === 1 ? recipients[0] : null;
+
+  const { data: job, error: jobError } = await adminClient
+    .from('notification_jobs')
+    .insert({
+      recipient_type: single?.id ? 'user' : 'custom',
+      recipient_id: single?.id ?? null,
+      recipient_email: single?.email ?? null,
+      recipient_name: single?.name ?? null,
+      channel: 'email',
+      subject: input.subject,
+      body: input.body,
+      status: 'pending',
+      priority: input.priority ?? 5,
+      scheduled_for: new Date().toISOString(),
+      metadata: input.metadata ?? {},
+    })
+    .select('id')
+    .single();
+
+  if (jobError || !job) {
+    return { ok: false, error: { stage: 'job', message: jobError?.message || 'Failed to create notification job' } };
+  }
+
+  const { error: logsError } = await adminClient.from('notification_logs').insert(
+    recipients.map((r) => ({
+      job_id: job.id,
+      event_type: 'sent',
+      recipient_email: r.email,
+      created_at: null,
+      metadata: { recipient_id: r.id ?? null, recipient_name: r.name ?? null },
+    })),
+  );
+
+  if (logsError) {
+    // Without recipients the job would be marked sent without sending anything
+    await adminClient.from('notification_jobs').update({ status: 'cancelled' }).eq('id', job.id);
+    return { ok: false, error: { stage: 'logs', message: logsError.message } };
+  }
+
+  return { ok: true, jobId: job.id, recipientCount: recipients.length };
+}
+
+export async function enqueueWhatsAppNotification(
+  adminClient: SupabaseClient,
+  input: EnqueueWhatsAppInput,
+): Promise<EnqueueWhatsAppResult> {
+  const byPhone = new Map<string, WhatsAppRecipient>();
+  for (const r of input.recipients) {
+    const phone = r.phone?.trim();
+    if (phone && !byPhone.has(phone)) byPhone.set(phone, { ...r, phone });
+  }
+  const recipients = Array.from(byPhone.values());
+  if (recipients.length === 0) {
+    return { ok: true, jobId: null, recipientCount: 0 };
+  }
+
+  const single = recipients.length === 1 ? recipients[0] : null;
+
+  const { data: job, error: jobError } = await adminClient
+    .from('notification_jobs')
+    .insert({
+      recipient_type: single?.id ? 'user' : 'custom',
+      recipient_id: single?.id ?? null,
+      recipient_name: single?.name ?? null,
+      channel: 'whatsapp',
+      subject: null,
+      body: input.body,
+      status: 'pending',
+      priority: input.priority ?? 5,
+      scheduled_for: new Date().toISOString(),
+      metadata: {
+        ...(input.metadata ?? {}),
+        ...(input.templateName
+          ? { whatsapp_template_name: input.templateName, variable_values: input.templateVariables ?? {} }
+          : {}),
+      },
+    })
+    .select('id')
+    .single();
+
+  if (jobError || !job) {
+    return { ok: false, error: { stage: 'job', message: jobError?.message || 'Failed to create notification job' } };
+  }
+
+  const { error: logsError } = await adminClient.from('notification_logs').insert(
+    recipients.map((r) => ({
+      job_id: job.id,
+      event_type: 'sent',
+      recipient_phone: r.phone,
+      created_at: null,
+      metadata: { recipient_id: r.id ?? null, recipient_name: r.name ?? null },
+    })),
+  );
+
+  if (logsError) {
+    await adminClient.from('notification_jobs').update({ status: 'cancelled' }).eq('id', job.id);
+    return { ok: false, error: { stage: 'logs', message: logsError.message } };
+  }
+
+  return { ok: true, jobId: job.id, recipientCount: recipients.length };
+}
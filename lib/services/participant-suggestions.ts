@@ -0,0 +1,419 @@
+/**
+ * Participant Suggestion Engine
+ * Ranks candidate profiles for unmatched Zoom participants (attendance rows
+ * with user_id = null) so admins can link them in bulk.
+ *
+ * Each candidate is scored from three signals, each in [0, 1]:
+ * - name:         display name (or email local part) vs profiles.full_name
+ * - cohort:       candidate is a student in a cohort of one of the sessions
+ * - aliasHistory: candidate's existing aliases resemble this participant
+ *
+ * Only students of the sessions' cohorts are considered. Confirming a
+ * suggestion links an email alias (or, for email-less guests, a display-name
+ * alias for the cohorts of their sessions) and recalculates every session
+ * the participant was unmatched in, so segments merge into the user's
+ * attendance row.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { attendanceService } from '@/lib/services/attendance';
+import {
+  recalculateSessionWithFallback,
+  type SessionRecalculation,
+} from '@/lib/services/attendance-replay';
+import { normalizeDisplayName } from '@/lib/services/user-matcher';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const SUGGESTION_WEIGHTS = { name: 0.6, cohort: 0.25, aliasHistory: 0.15 };
+export const MIN_SUGGESTION_SCORE = 0.4;
+export const MAX_SUGGESTIONS_PER_PARTICIPANT = 3;
+/** Minimum name or alias resemblance — cohort membership alone never qualifies */
+export const MIN_RESEMBLANCE = 0.5;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SuggestionCandidate = {
+  id: string;
+  full_name: string | null;
+  email: string;
+  emailAliases: string[];
+  nameAliases: string[];
+};
+
+export type CandidateScore = {
+  user_id: string;
+  full_name: string | null;
+  email: string;
+  score: number;
+  signals: { name: number; cohort: number; aliasHistory: number };
+};
+
+export type ParticipantSuggestion = {
+  /** Value stored in attendance.zoom_user_email — an email, or a display name for guests */
+  participant: string;
+  isEmail: boolean;
+  sessions: { id: string; title: string; date: string }[];
+  candidates: CandidateScore[];
+};
+
+export type ConfirmMatchInput = { participant: string; user_id: string };
+
+export type ConfirmMatchesResult = {
+  linked: ConfirmMatchInput[];
+  failed: (ConfirmMatchInput & { error: string })[];
+  sessions: ({ sessionId: string } & SessionRecalculation)[];
+};
+
+// ---------------------------------------------------------------------------
+// Pure scoring helpers
+// ---------------------------------------------------------------------------
+
+export function isEmailLike(value: string): boolean {
+  return value.includes('@');
+}
+
+/** Split a name or email local part into lowercase word tokens. */
+export function nameTokens(value: string): string[] {
+  const base = isEmailLike(value) ? value.split('@')[0] : value;
+  return base
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // "jdoe" vs "john": initial + surname style local parts
+  if (a.length === 1 || b.length === 1) return a[0] === b[0] ? 0.5 : 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Similarity in [0, 1] between two names (or email local parts).
+ * Token-order independent: each token on the shorter side is paired with its
+ * best match on the other side, then the concatenated forms are compared so
+ * "johndoe" still matches "John Doe".
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const ta = nameTokens(a);
+  const tb = nameTokens(b);
+  if (ta.length === 0 || tb.length === 0) return 0;
+
+  const [shorter, longer] = ta.length <= tb.length ? [ta, tb] : [tb, ta];
+  const paired =
+    shorter.reduce((sum, t) => sum + Math.max(...longer.map((u) => tokenSimilarity(t, u))), 0) /
+    longer.length;
+
+  const joined = tokenSimilarity([...ta].sort().join(''), [...tb].sort().join(''));
+  const concatenated = tokenSimilarity(ta.join(''), tb.join(''));
+
+  return Math.round(Math.max(paired, joined, concatenated) * 100) / 100;
+}
+
+/** Best similarity between the participant and any alias the candidate already has. */
+export function aliasHistorySimilarity(participant: string, candidate: SuggestionCandidate): number {
+  const normalized = isEmailLike(participant)
+    ? participant.toLowerCase().trim()
+    : normalizeDisplayName(participant);
+
+  const aliases = isEmailLike(participant) ? candidate.emailAliases : candidate.nameAliases;
+  if (aliases.length === 0) return 0;
+
+  return Math.max(...aliases.map((alias) => nameSimilarity(normalized, alias)));
+}
+
+export function scoreCandidate(
+  participant: string,
+  candidate: SuggestionCandidate,
+  inSessionCohort: boolean,
+): CandidateScore {
+  const name = Math.max(
+    nameSimilarity(participant, candidate.full_name || ''),
+    isEmailLike(participant) ? nameSimilarity(participant, candidate.email) : 0
+  );
+  const cohort = inSessionCohort ? 1 : 0;
+  const aliasHistory = aliasHistorySimilarity(participant, candidate);
+
+  const score =
+    name * SUGGESTION_WEIGHTS.name +
+    cohort * SUGGESTION_WEIGHTS.cohort +
+    aliasHistory * SUGGESTION_WEIGHTS.aliasHistory;
+
+  return {
+    user_id: candidate.id,
+    full_name: candidate.full_name,
+    email: candidate.email,
+    score: Math.round(score * 100) / 100,
+    signals: { name, cohort, aliasHistory },
+  };
+}
+
+/** Rank candidates for one participant, best first. */
+export function rankCandidates(
+  participant: string,
+  candidates: SuggestionCandidate[],
+  cohortMemberIds: Set<string>,
+  limit = MAX_SUGGESTIONS_PER_PARTICIPANT,
+): CandidateScore[] {
+  return candidates
+    .map((c) => scoreCandidate(participant, c, cohortMemberIds.has(c.id)))
+    .filter(
+      (s) =>
+        s.score >= MIN_SUGGESTION_SCORE &&
+        Math.max(s.signals.name, s.signals.aliasHistory) >= MIN_RESEMBLANCE
+    )
+    .sort((a, b) => b.score - a.score || a.user_id.localeCompare(b.user_id))
+    .slice(0, limit);
+}
+
+// ---------------------------------------------------------------------------
+// buildParticipantSuggestions
+// ---------------------------------------------------------------------------
+
+export async function buildParticipantSuggestions(
+  adminClient: SupabaseClient,
+): Promise<ParticipantSuggestion[]> {
+  const { data: unmatched, error } = await adminClient
+    .from('attendance')
+    .select('zoom_user_email, session_id, sessions(title, scheduled_at, cohort_id)')
+    .is('user_id', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  if (!unmatched || unmatched.length === 0) return [];
+
+  // Group unmatched rows by participant, collecting sessions and their cohorts
+  const byParticipant = new Map<string, { sessions: ParticipantSuggestion['sessions']; sessionIds: Set<string> }>();
+  const legacyCohortBySession = new Map<string, string>();
+
+  for (const row of unmatched) {
+    const participant = row.zoom_user_email as string | null;
+    if (!participant) continue;
+
+    const session = row.sessions as unknown as { title: string; scheduled_at: string; cohort_id: string | null } | null;
+    const entry = byParticipant.get(participant) || { sessions: [], sessionIds: new Set<string>() };
+    if (!entry.sessionIds.has(row.session_id)) {
+      entry.sessionIds.add(row.session_id);
+      entry.sessions.push({
+        id: row.session_id,
+        title: session?.title || 'Unknown session',
+        date: session?.scheduled_at || '',
+      });
+    }
+    byParticipant.set(participant, entry);
+    if (session?.cohort_id) legacyCohortBySession.set(row.session_id, session.cohort_id);
+  }
+
+  const allSessionIds = [...new Set(unmatched.map((r) => r.session_id as string))];
+
+  const { data: sessionCohorts } = await adminClient
+    .from('session_cohorts')
+    .select('session_id, cohort_id')
+    .in('session_id', allSessionIds);
+
+  // session → cohort ids (junction table plus legacy sessions.cohort_id)
+  const cohortsBySession = new Map<string, Set<string>>();
+  for (const [sessionId, cohortId] of legacyCohortBySession) {
+    cohortsBySession.set(sessionId, new Set([cohortId]));
+  }
+  for (const sc of sessionCohorts || []) {
+    const set = cohortsBySession.get(sc.session_id) || new Set<string>();
+    set.add(sc.cohort_id);
+    cohortsBySession.set(sc.session_id, set);
+  }
+
+  const allCohortIds = [...new Set([...cohortsBySession.values()].flatMap((s) => [...s]))];
+  const { data: memberships } = allCohortIds.length > 0
+    ? await adminClient
+        .from('user_role_assignments')
+        .select('user_id, cohort_id')
+        .eq('role', 'student')
+        .in('cohort_id', allCohortIds)
+    : { data: [] };
+
+  const studentsByCohort = new Map<string, Set<string>>();
+  for (const m of memberships || []) {
+    const set = studentsByCohort.get(m.cohort_id) || new Set<string>();
+    set.add(m.user_id);
+    studentsByCohort.set(m.cohort_id, set);
+  }
+
+  // Candidates are limited to students of the sessions' cohorts, which also
+  // keeps the profile and alias reads well under PostgREST's row cap
+  const memberIds = [...new Set((memberships || []).map((m) => m.user_id as string))];
+  const [{ data: profiles }, { data: emailAliases }, { data: nameAliases }] = memberIds.length > 0
+    ? await Promise.all([
+        adminClient.from('profiles').select('id, full_name, email').in('id', memberIds),
+        adminClient.from('user_email_aliases').select('user_id, alias_email').in('user_id', memberIds),
+        adminClient.from('user_name_aliases').select('user_id, display_name').in('user_id', memberIds),
+      ])
+    : [{ data: [] }, { data: [] }, { data: [] }];
+
+  const aliasesByUser = new Map<string, { emails: string[]; names: string[] }>();
+  const aliasesFor = (userId: string) => {
+    const entry = aliasesByUser.get(userId) || { emails: [], names: [] };
+    aliasesByUser.set(userId, entry);
+    return entry;
+  };
+  for (const a of emailAliases || []) aliasesFor(a.user_id).emails.push(a.alias_email);
+  for (const a of nameAliases || []) aliasesFor(a.user_id).names.push(a.display_name);
+
+  const candidates: SuggestionCandidate[] = (profiles || []).map((p) => ({
+    id: p.id,
+    full_name: p.full_name,
+    email: p.email,
+    emailAliases: aliasesByUser.get(p.id)?.emails ?? [],
+    nameAliases: aliasesByUser.get(p.id)?.names ?? [],
+  }));
+
+  const suggestions: ParticipantSuggestion[] = [];
+
+  for (const [participant, entry] of byParticipant) {
+    const cohortMemberIds = new Set<string>();
+    for (const sessionId of entry.sessionIds) {
+      for (const cohortId of cohortsBySession.get(sessionId) || []) {
+        for (const userId of studentsByCohort.get(cohortId) || []) {
+          cohortMemberIds.add(userId);
+        }
+      }
+    }
+
+    suggestions.push({
+      participant,
+      isEmail: isEmailLike(participant),
+      sessions: entry.sessions,
+      candidates: rankCandidates(participant, candidates, cohortMemberIds),
+    });
+  }
+
+  // Participants with a confident top candidate first
+  return suggestions.sort(
+    (a, b) => (b.candidates[0]?.score ?? 0) - (a.candidates[0]?.score ?? 0)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// confirmParticipantMatches
+// ---------------------------------------------------------------------------
+
+/** Cohorts of the sessions a guest is still unmatched in; their name alias is scoped to these. */
+async function unmatchedParticipantCohortIds(
+  adminClient: SupabaseClient,
+  participant: string,
+): Promise<string[]> {
+  const { data: rows } = await adminClient
+    .from('attendance')
+    .select('session_id, sessions(cohort_id)')
+    .is('user_id', null)
+    .eq('zoom_user_email', participant);
+
+  const sessionIds = [...new Set((rows || []).map((r) => r.session_id as string))];
+  if (sessionIds.length === 0) return [];
+
+  const cohortIds = new Set<string>();
+  for (const row of rows || []) {
+    const session = row.sessions as unknown as { cohort_id: string | null } | null;
+    if (session?.cohort_id) cohortIds.add(session.cohort_id);
+  }
+
+  const { data: sessionCohorts } = await adminClient
+    .from('session_cohorts')
+    .select('cohort_id')
+    .in('session_id', sessionIds);
+  for (const sc of sessionCohorts || []) cohortIds.add(sc.cohort_id);
+
+  return [...cohortIds];
+}
+
+export async function confirmParticipantMatches(
+  adminClient: SupabaseClient,
+  adminId: string,
+  matches: ConfirmMatchInput[],
+): Promise<ConfirmMatchesResult> {
+  const linked: ConfirmMatchInput[] = [];
+  const failed: ConfirmMatchesResult['failed'] = [];
+
+  for (const match of matches) {
+    if (isEmailLike(match.participant)) {
+      const result = await attendanceService.addEmailAlias(match.user_id, match.participant.trim());
+      if (!result.success) {
+        failed.push({ ...match, error: result.error || 'Failed to create alias' });
+        continue;
+      }
+    } else {
+      const cohortIds = await unmatchedParticipantCohortIds(adminClient, match.participant);
+      if (cohortIds.length === 0) {
+        failed.push({ ...match, error: 'None of this participant\'s sessions belong to a cohort' });
+        continue;
+      }
+
+      const displayName = normalizeDisplayName(match.participant);
+      const { error } = await adminClient.from('user_name_aliases').insert(
+        cohortIds.map((cohortId) => ({
+          user_id: match.user_id,
+          cohort_id: cohortId,
+          display_name: displayName,
+          created_by: adminId,
+        }))
+      );
+      if (error) {
+        failed.push({
+          ...match,
+          error: error.code === '23505' ? 'This display name is already linked to a user in that cohort' : error.message,
+        });
+        continue;
+      }
+    }
+    linked.push(match);
+  }
+
+  if (linked.length === 0) {
+    return { linked, failed, sessions: [] };
+  }
+
+  // Every session where a newly linked participant is still unmatched
+  const { data: affected } = await adminClient
+    .from('attendance')
+    .select('session_id')
+    .is('user_id', null)
+    .in('zoom_user_email', linked.map((m) => m.participant));
+
+  const sessionIds = [...new Set((affected || []).map((a) => a.session_id as string))];
+  const sessions: ConfirmMatchesResult['sessions'] = [];
+
+  // Sequential — each recalculation may call the Zoom API
+  for (const sessionId of sessionIds) {
+    const recalculation = await recalculateSessionWithFallback(sessionId);
+    if (!recalculation.ok) {
+      console.error(`[Participant Suggestions] Recalculation failed for session ${sessionId}:`, recalculation.message);
+    }
+    sessions.push({ sessionId, ...recalculation });
+  }
+
+  return { linked, failed, sessions };
+}
@@ -0,0 +1,397 @@
+/**
+ * Peer Review Service
+ * Anonymous subgroup-to-subgroup review of case study submissions (migration 044).
+ *
+ * Once submissions close, each subgroup that submitted reviews N other
+ * subgroups' work against the case study's rubric. Peer scores are stored
+ * apart from case_study_reviews: they are a signal for admins, never part of
+ * the final score.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CaseStudyPeerReview, RubricCriteria } from '@/types';
+import { getCaseStudyRubric, resolveRubricScores, type RubricScoreInput, type RubricScoreRow } from './rubric';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PeerPairing = {
+  reviewerSubgroupId: string;
+  revieweeSubgroupId: string;
+};
+
+export type PeerReviewSummary = {
+  assigned: number;
+  submitted: number;
+  /** Mean of submitted peer scores, one decimal; null until one is in */
+  meanScore: number | null;
+};
+
+/** What a reviewing subgroup sees: no subgroup names on either side. */
+export type PeerInboxItem = {
+  id: string;
+  label: string;
+  status: CaseStudyPeerReview['status'];
+  score: number | null;
+  rubric_scores: RubricScoreRow[];
+  comment: string | null;
+  submitted_at: string | null;
+  case_study: { id: string; title: string; week_number: number; max_score: number };
+};
+
+export type PeerAttachment = {
+  id: string;
+  type: 'file' | 'link';
+  file_name: string | null;
+  link_url: string | null;
+  link_label: string | null;
+  url: string | null;
+};
+
+type PeerReviewError = {
+  stage: 'validation' | 'not_found' | 'conflict' | 'database';
+  message: string;
+};
+
+export type PeerReviewResult<T> = ({ ok: true } & T) | { ok: false; error: PeerReviewError };
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Rotation assignment: the i-th subgroup reviews the next `perSubgroup`
+ * subgroups in the list, wrapping around. Nobody reviews themselves and every
+ * subgroup gives and receives the same number of reviews. `perSubgroup` is
+ * capped at one less than the number of subgroups.
+ */
+export function planPeerAssignments(subgroupIds: string[], perSubgroup: number): PeerPairing[] {
+  const ids = [...new Set(subgroupIds)];
+  const count = Math.min(Math.max(Math.floor(perSubgroup), 0), ids.length - 1);
+  const pairings: PeerPairing[] = [];
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let k = 1; k <= count; k++) {
+      pairings.push({ reviewerSubgroupId: ids[i], revieweeSubgroupId: ids[(i + k) % ids.length] });
+    }
+  }
+  return pairings;
+}
+
+/** "Submission A", "Submission B", … then "Submission 27" past Z. */
+export function anonymousLabel(index: number): string {
+  return index < 26 ? `Submission ${String.fromCharCode(65 + index)}` : `Submission ${index + 1}`;
+}
+
+export function summarizePeerReviews(
+  reviews: Array<Pick<CaseStudyPeerReview, 'status' | 'score'>>,
+): PeerReviewSummary {
+  const scores = reviews
+    .filter((r) => r.status === 'submitted' && r.score !== null)
+    .map((r) => Number(r.score));
+
+  return {
+    assigned: reviews.length,
+    submitted: reviews.filter((r) => r.status === 'submitted').length,
+    meanScore: scores.length
+      ? Math.round((scores.reduce((sum, s) => sum + s, 0) / scores.length) * 10) / 10
+      : null,
+  };
+}
+
+function shuffled<T>(items: T[]): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Assignment
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the peer review assignments for a case study. Runs once: if any
+ * assignments exist the call is refused, so a second close/reopen cycle does
+ * not reshuffle reviews students may already have started.
+ */
+export async function assignPeerReviews(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+): Promise<PeerReviewResult<{ created: number }>> {
+  const { data: caseStudy } = await adminClient
+    .from('case_studies')
+    .select('id, peer_review_enabled, peer_reviews_per_subgroup')
+    .eq('id', caseStudyId)
+    .maybeSingle();
+
+  if (!caseStudy) return { ok: false, error: { stage: 'not_found', message: 'Case study not found' } };
+  if (!caseStudy.peer_review_enabled) {
+    return { ok: false, error: { stage: 'validation', message: 'Peer review is not enabled for this case study' } };
+  }
+
+  const { count } = await adminClient
+    .from('case_study_peer_reviews')
+    .select('id', { count: 'exact', head: true })
+    .eq('case_study_id', caseStudyId);
+  if (count) {
+    return { ok: false, error: { stage: 'conflict', message: 'Peer reviews have already been assigned' } };
+  }
+
+  const { data: submissions, error } = await adminClient
+    .from('case_study_submissions')
+    .select('id, subgroup_id')
+    .eq('case_study_id', caseStudyId)
+    .neq('visibility', 'draft');
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  if (!submissions || submissions.length < 2) {
+    return {
+      ok: false,
+      error: { stage: 'validation', message: 'At least two subgroups must submit before peer review can start' },
+    };
+  }
+
+  const submissionBySubgroup = new Map(submissions.map((s) => [s.subgroup_id as string, s.id as string]));
+  const pairings = planPeerAssignments(shuffled([...submissionBySubgroup.keys()]), caseStudy.peer_reviews_per_subgroup);
+
+  const { error: insertError } = await adminClient.from('case_study_peer_reviews').insert(
+    pairings.map((p) => ({
+      case_study_id: caseStudyId,
+      submission_id: submissionBySubgroup.get(p.revieweeSubgroupId),
+      reviewer_subgroup_id: p.reviewerSubgroupId,
+    })),
+  );
+  if (insertError) return { ok: false, error: { stage: 'database', message: insertError.message } };
+
+  return { ok: true, created: pairings.length };
+}
+
+// ---------------------------------------------------------------------------
+// Student inbox
+// ---------------------------------------------------------------------------
+
+/**
+ * A subgroup's peer review assignments in a cohort, labelled per case study
+ * in a stable order. Case studies with peer review switched off are left out.
+ */
+export async function getPeerInbox(
+  adminClient: SupabaseClient,
+  subgroupId: string,
+  cohortId: string,
+): Promise<PeerReviewResult<{ items: PeerInboxItem[]; rubrics: Record<string, RubricCriteria[]> }>> {
+  const { data, error } = await adminClient
+    .from('case_study_peer_reviews')
+    .select('id, status, score, rubric_scores, comment, submitted_at, created_at, case_study:case_studies!inner(id, title, week_number, max_score, cohort_id, peer_review_enabled, is_archived)')
+    .eq('reviewer_subgroup_id', subgroupId)
+    .eq('case_study.cohort_id', cohortId)
+    .eq('case_study.peer_review_enabled', true)
+    .eq('case_study.is_archived', false)
+    .order('created_at')
+    .order('id');
+
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const perCaseStudy: Record<string, number> = {};
+  const items: PeerInboxItem[] = (data || []).map((row) => {
+    const cs = row.case_study as unknown as PeerInboxItem['case_study'];
+    const index = perCaseStudy[cs.id] ?? 0;
+    perCaseStudy[cs.id] = index + 1;
+    return {
+      id: row.id,
+      label: anonymousLabel(index),
+      status: row.status,
+      score: row.score === null ? null : Number(row.score),
+      rubric_scores: row.rubric_scores ?? [],
+      comment: row.comment,
+      submitted_at: row.submitted_at,
+      case_study: { id: cs.id, title: cs.title, week_number: cs.week_number, max_score: cs.max_score },
+    };
+  });
+
+  const rubrics: Record<string, RubricCriteria[]> = {};
+  await Promise.all(
+    Object.keys(perCaseStudy).map(async (csId) => {
+      rubrics[csId] = await getCaseStudyRubric(adminClient, csId);
+    }),
+  );
+
+  return { ok: true, items, rubrics };
+}
+
+/**
+ * The reviewing subgroup of an assignment, provided the user belongs to it;
+ * null otherwise so routes answer 404 without revealing the assignment.
+ */
+export async function resolvePeerReviewer(
+  adminClient: SupabaseClient,
+  assignmentId: string,
+  userId: string,
+): Promise<string | null> {
+  const { data: assignment } = await adminClient
+    .from('case_study_peer_reviews')
+    .select('reviewer_subgroup_id')
+    .eq('id', assignmentId)
+    .maybeSingle();
+
+  if (!assignment) return null;
+
+  const { data: membership } = await adminClient
+    .from('subgroup_members')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('subgroup_id', assignment.reviewer_subgroup_id)
+    .limit(1)
+    .maybeSingle();
+
+  return membership ? (assignment.reviewer_subgroup_id as string) : null;
+}
+
+/**
+ * The submission behind one assignment, stripped of anything that identifies
+ * its subgroup. Files come back as short-lived signed URLs.
+ */
+export async function getPeerSubmission(
+  adminClient: SupabaseClient,
+  assignmentId: string,
+  subgroupId: string,
+): Promise<PeerReviewResult<{ attachments: PeerAttachment[] }>> {
+  const { data: assignment } = await adminClient
+    .from('case_study_peer_reviews')
+    .select('id, submission_id')
+    .eq('id', assignmentId)
+    .eq('reviewer_subgroup_id', subgroupId)
+    .maybeSingle();
+
+  if (!assignment) return { ok: false, error: { stage: 'not_found', message: 'Peer review not found' } };
+
+  const { data, error } = await adminClient
+    .from('case_study_submission_attachments')
+    .select('id, type, file_name, file_path, link_url, link_label')
+    .eq('submission_id', assignment.submission_id)
+    .order('created_at', { ascending: true });
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const attachments = await Promise.all(
+    (data || []).map(async (a): Promise<PeerAttachment> => {
+      let url: string | null = a.link_url;
+      if (a.type === 'file' && a.file_path) {
+        const { data: signed } = await adminClient.storage.from('resources').createSignedUrl(a.file_path, 3600);
+        url = signed?.signedUrl ?? null;
+      }
+      return {
+        id: a.id,
+        type: a.type,
+        file_name: a.file_name,
+        link_url: a.link_url,
+        link_label: a.link_label,
+        url,
+      };
+    }),
+  );
+
+  return { ok: true, attachments };
+}
+
+/**
+ * Save a subgroup's peer review. Graded like an official review: with a
+ * rubric every criterion needs a level and the score is derived from them,
+ * otherwise a whole score out of max_score is required. Any member of the
+ * reviewing subgroup may resubmit while peer review stays enabled.
+ */
+export async function submitPeerReview(
+  adminClient: SupabaseClient,
+  input: {
+    assignmentId: string;
+    subgroupId: string;
+    userId: string;
+    score?: unknown;
+    rubricScores?: unknown;
+    comment?: unknown;
+  },
+): Promise<PeerReviewResult<{ review: CaseStudyPeerReview }>> {
+  const { data: assignment } = await adminClient
+    .from('case_study_peer_reviews')
+    .select('id, case_study_id, case_study:case_studies(max_score, peer_review_enabled)')
+    .eq('id', input.assignmentId)
+    .eq('reviewer_subgroup_id', input.subgroupId)
+    .maybeSingle();
+
+  if (!assignment) return { ok: false, error: { stage: 'not_found', message: 'Peer review not found' } };
+
+  const cs = assignment.case_study as unknown as { max_score: number; peer_review_enabled: boolean } | null;
+  if (!cs?.peer_review_enabled) {
+    return { ok: false, error: { stage: 'validation', message: 'Peer review is closed for this case study' } };
+  }
+
+  const criteria = await getCaseStudyRubric(adminClient, assignment.case_study_id);
+  let score: number;
+  let rows: RubricScoreRow[] = [];
+
+  if (criteria.length > 0) {
+    if (!Array.isArray(input.rubricScores)) {
+      return { ok: false, error: { stage: 'validation', message: 'Grade each rubric criterion' } };
+    }
+    const resolved = resolveRubricScores(criteria, input.rubricScores as RubricScoreInput[], cs.max_score);
+    if (!resolved.ok) return resolved;
+    score = resolved.score;
+    rows = resolved.rows;
+  } else {
+    if (typeof input.score !== 'number' || !Number.isInteger(input.score) || input.score < 0 || input.score > cs.max_score) {
+      return { ok: false, error: { stage: 'validation', message: `Score must be between 0 and ${cs.max_score}` } };
+    }
+    score = input.score;
+  }
+
+  const comment = typeof input.comment === 'string' && input.comment.trim() ? input.comment.trim() : null;
+
+  const { data: review, error } = await adminClient
+    .from('case_study_peer_reviews')
+    .update({
+      status: 'submitted',
+      score,
+      rubric_scores: rows,
+      comment,
+      submitted_by: input.userId,
+      submitted_at: new Date().toISOString(),
+    })
+    .eq('id', assignment.id)
+    .select('*')
+    .single();
+
+  if (error || !review) {
+    return { ok: false, error: { stage: 'database', message: error?.message || 'Failed to save peer review' } };
+  }
+  return { ok: true, review: review as CaseStudyPeerReview };
+}
+
+// ---------------------------------------------------------------------------
+// Admin
+// ---------------------------------------------------------------------------
+
+/** Peer reviews per submission, with the reviewing subgroup's name. */
+export async function loadPeerReviewsBySubmission(
+  adminClient: SupabaseClient,
+  submissionIds: string[],
+): Promise<Record<string, CaseStudyPeerReview[]>> {
+  if (submissionIds.length === 0) return {};
+  const { data } = await adminClient
+    .from('case_study_peer_reviews')
+    .select('*, reviewer_subgroup:subgroups(name)')
+    .in('submission_id', submissionIds)
+    .order('created_at');
+
+  const bySubmission: Record<string, CaseStudyPeerReview[]> = {};
+  for (const row of data || []) {
+    const { reviewer_subgroup, ...rest } = row as CaseStudyPeerReview & { reviewer_subgroup?: { name: string } | null };
+    (bySubmission[rest.submission_id] ||= []).push({
+      ...rest,
+      score: rest.score === null ? null : Number(rest.score),
+      reviewer_subgroup_name: reviewer_subgroup?.name,
+    });
+  }
+  return bySubmission;
+}
@@ -0,0 +1,997 @@
+/**
+ * Quizzes Service
+ * Auto-graded knowledge checks attached to learning modules (migration 053).
+ * A quiz is a module_resources row with content_type 'quiz', its settings in
+ * module_quizzes and its questions in quiz_questions.
+ *
+ * Each attempt freezes its question and option order when it starts, so a
+ * shuffled quiz looks the same after a reload and scoring only covers the
+ * questions the student was shown. Answers are autosaved on the attempt; a
+ * timed attempt left open past its limit is scored on what was saved the
+ * next time the student opens the quiz. Passing marks the resource complete
+ * in resource_progress. Editing the answer key does not rescore attempts
+ * that were already submitted.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  ModuleResource,
+  QuizAnswer,
+  QuizAttempt,
+  QuizItemAnalysis,
+  QuizItemStat,
+  QuizQuestion,
+  QuizQuestionForStudent,
+  QuizQuestionResult,
+  QuizQuestionType,
+  QuizReviewItem,
+  QuizSettings,
+  QuizSummary,
+} from '@/types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const QUIZ_QUESTION_TYPES: QuizQuestionType[] = ['single_choice', 'multi_select', 'numeric', 'short_text'];
+
+/** Submissions this long after expires_at still count, to absorb network lag. */
+export const QUIZ_SUBMIT_GRACE_SECONDS = 30;
+
+/** Share of students in each of the upper and lower groups for discrimination. */
+const DISCRIMINATION_GROUP_SHARE = 0.27;
+
+/** Fewer first attempts than this and discrimination is just noise. */
+const MIN_RESPONSES_FOR_DISCRIMINATION = 4;
+
+export const DEFAULT_QUIZ_SETTINGS: QuizSettingsInput = {
+  instructions: null,
+  max_attempts: null,
+  time_limit_minutes: null,
+  shuffle_questions: false,
+  shuffle_options: false,
+  pass_percent: 70,
+  show_answers: true,
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type QuizSettingsInput = Pick<
+  QuizSettings,
+  'instructions' | 'max_attempts' | 'time_limit_minutes' | 'shuffle_questions' | 'shuffle_options' | 'pass_percent' | 'show_answers'
+>;
+
+/** A question as the admin editor sends it; `id` is set for existing questions. */
+export type QuizQuestionInput = Omit<QuizQuestion, 'id' | 'resource_id' | 'order_index'> & { id?: string };
+
+export interface QuizInput {
+  title: string;
+  settings: QuizSettingsInput;
+  questions: QuizQuestionInput[];
+}
+
+type ScorableQuestion = Pick<
+  QuizQuestion,
+  'id' | 'type' | 'correct_option_ids' | 'numeric_answer' | 'numeric_tolerance' | 'accepted_answers' | 'case_sensitive' | 'points'
+>;
+
+export interface AttemptLayout {
+  question_order: string[];
+  option_order: Record<string, string[]>;
+}
+
+export interface AttemptScore {
+  results: QuizQuestionResult[];
+  score: number;
+  max_score: number;
+  percent: number;
+  passed: boolean;
+}
+
+type AnalysisAttempt = Pick<QuizAttempt, 'user_id' | 'attempt_number' | 'question_order' | 'answers' | 'results' | 'percent' | 'passed'>;
+
+export interface QuizDetail {
+  quiz: QuizSummary;
+  instructions: string | null;
+  show_answers: boolean;
+  attempts: QuizAttempt[];
+  open_attempt: { attempt: QuizAttempt; questions: QuizQuestionForStudent[] } | null;
+  /** The latest submitted attempt, question by question */
+  review: QuizReviewItem[] | null;
+}
+
+type QuizError = {
+  stage: 'validation' | 'forbidden' | 'not_found' | 'database';
+  message: string;
+};
+
+export type QuizResult<T> = ({ ok: true } & T) | { ok: false; error: QuizError };
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Trim, collapse inner whitespace and, unless case matters, lowercase. */
+export function normalizeShortText(value: string, caseSensitive = false): string {
+  const collapsed = value.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+}
+
+/**
+ * Score one question. Multi-select is all-or-nothing: every correct option
+ * and no others. A missing answer scores zero.
+ */
+export function scoreQuestion(question: ScorableQuestion, answer: QuizAnswer | null | undefined): QuizQuestionResult {
+  const points = Number(question.points);
+  let correct = false;
+
+  switch (question.type) {
+    case 'single_choice': {
+      const chosen = answer?.option_ids ?? [];
+      correct = chosen.length === 1 && question.correct_option_ids.includes(chosen[0]);
+      break;
+    }
+    case 'multi_select': {
+      const chosen = new Set(answer?.option_ids ?? []);
+      correct = chosen.size === question.correct_option_ids.length
+        && question.correct_option_ids.every(id => chosen.has(id));
+      break;
+    }
+    case 'numeric': {
+      const value = answer?.value;
+      correct = typeof value === 'number' && Number.isFinite(value) && question.numeric_answer !== null
+        // Epsilon so 0.1 + 0.2 style representation error can't fail an exact answer
+        && Math.abs(value - Number(question.numeric_answer)) <= Number(question.numeric_tolerance) + 1e-9;
+      break;
+    }
+    case 'short_text': {
+      const text = answer?.text;
+      if (text && text.trim()) {
+        const given = normalizeShortText(text, question.case_sensitive);
+        correct = question.accepted_answers.some(a => normalizeShortText(a, question.case_sensitive) === given);
+      }
+      break;
+    }
+  }
+
+  return { question_id: question.id, correct, points_awarded: correct ? points : 0, points_possible: points };
+}
+
+/** Score the questions an attempt was shown against its answers. */
+export function scoreAttempt(
+  questions: ScorableQuestion[],
+  answers: Record<string, QuizAnswer>,
+  passPercent: number,
+): AttemptScore {
+  const results = questions.map(q => scoreQuestion(q, answers[q.id]));
+  const score = round2(results.reduce((sum, r) => sum + r.points_awarded, 0));
+  const maxScore = round2(results.reduce((sum, r) => sum + r.points_possible, 0));
+  const percent = maxScore > 0 ? round2((score / maxScore) * 100) : 0;
+  return { results, score, max_score: maxScore, percent, passed: maxScore > 0 && percent >= passPercent };
+}
+
+/** Deterministic Fisher-Yates driven by a string seed (mulberry32 over an FNV-1a hash). */
+export function seededShuffle<T>(items: readonly T[], seed: string): T[] {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  let state = h >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** Question and option order for a new attempt; `questions` must be in order_index order. */
+export function buildAttemptLayout(
+  questions: Pick<QuizQuestion, 'id' | 'options'>[],
+  settings: Pick<QuizSettings, 'shuffle_questions' | 'shuffle_options'>,
+  seed: string,
+): AttemptLayout {
+  const ordered = settings.shuffle_questions ? seededShuffle(questions, seed) : questions;
+  const optionOrder: Record<string, string[]> = {};
+  for (const q of ordered) {
+    if (q.options.length === 0) continue;
+    const ids = q.options.map(o => o.id);
+    optionOrder[q.id] = settings.shuffle_options ? seededShuffle(ids, `${seed}:${q.id}`) : ids;
+  }
+  return { question_order: ordered.map(q => q.id), option_order: optionOrder };
+}
+
+export function attemptExpiresAt(startedAt: Date, timeLimitMinutes: number | null): Date | null {
+  return timeLimitMinutes ? new Date(startedAt.getTime() + timeLimitMinutes * 60_000) : null;
+}
+
+/** Whether an open attempt can no longer take answers. */
+export function isAttemptExpired(attempt: Pick<QuizAttempt, 'expires_at'>, now: Date = new Date()): boolean {
+  if (!attempt.expires_at) return false;
+  return now.getTime() > new Date(attempt.expires_at).getTime() + QUIZ_SUBMIT_GRACE_SECONDS * 1000;
+}
+
+/** Null when attempts are unlimited. */
+export function attemptsRemaining(maxAttempts: number | null, attemptsUsed: number): number | null {
+  return maxAttempts === null ? null : Math.max(0, maxAttempts - attemptsUsed);
+}
+
+/** Highest-scoring submitted attempt; the earlier one wins a tie. */
+export function bestAttempt<T extends Pick<QuizAttempt, 'submitted_at' | 'percent' | 'attempt_number'>>(attempts: T[]): T | null {
+  let best: T | null = null;
+  for (const a of attempts) {
+    if (!a.submitted_at || a.percent === null) continue;
+    if (!best || Number(a.percent) > Number(best.percent)
+      || (Number(a.percent) === Number(best.percent) && a.attempt_number < best.attempt_number)) {
+      best = a;
+    }
+  }
+  return best;
+}
+
+/**
+ * Mean of the best percent on each of a module's quizzes, counting quizzes
+ * not yet attempted as 0. Null when the module has no quizzes.
+ */
+export function moduleMastery(quizzes: Pick<QuizSummary, 'best_percent'>[]): number | null {
+  if (quizzes.length === 0) return null;
+  const total = quizzes.reduce((sum, q) => sum + (q.best_percent ?? 0), 0);
+  return Math.round(total / quizzes.length);
+}
+
+/** Whether a student may see correct answers and explanations. */
+export function canRevealAnswers(
+  settings: Pick<QuizSettings, 'show_answers'>,
+  summary: Pick<QuizSummary, 'passed' | 'attempts_remaining'>,
+): boolean {
+  return settings.show_answers && (summary.passed || summary.attempts_remaining === 0);
+}
+
+/** An attempt's questions in its own order, without the answer key. */
+export function questionsForAttempt(
+  questions: QuizQuestion[],
+  layout: Pick<QuizAttempt, 'question_order' | 'option_order'>,
+): QuizQuestionForStudent[] {
+  const byId = new Map(questions.map(q => [q.id, q]));
+  return layout.question_order.flatMap(id => {
+    const q = byId.get(id);
+    if (!q) return [];
+    const order = layout.option_order[id];
+    const optionsById = new Map(q.options.map(o => [o.id, o]));
+    const options = order
+      ? order.flatMap(optionId => optionsById.get(optionId) ?? [])
+      : q.options;
+    return [{ id: q.id, type: q.type, prompt: q.prompt, options, points: Number(q.points) }];
+  });
+}
+
+export function buildReview(
+  questions: QuizQuestion[],
+  attempt: Pick<QuizAttempt, 'question_order' | 'option_order' | 'answers' | 'results'>,
+  reveal: boolean,
+): QuizReviewItem[] {
+  const byId = new Map(questions.map(q => [q.id, q]));
+  const resultById = new Map((attempt.results ?? []).map(r => [r.question_id, r]));
+  return questionsForAttempt(questions, attempt).map(q => {
+    const full = byId.get(q.id)!;
+    return {
+      ...q,
+      answer: attempt.answers[q.id] ?? null,
+      result: resultById.get(q.id) ?? null,
+      ...(reveal && {
+        correct_option_ids: full.correct_option_ids,
+        numeric_answer: full.numeric_answer,
+        numeric_tolerance: Number(full.numeric_tolerance),
+        accepted_answers: full.accepted_answers,
+        explanation: full.explanation,
+      }),
+    };
+  });
+}
+
+/** Shape a request body into QuizInput, defaulting anything missing, before validation. */
+export function toQuizInput(body: Record<string, unknown>): QuizInput {
+  const settings = (body.settings ?? {}) as Partial<QuizSettingsInput>;
+  const questions = Array.isArray(body.questions) ? (body.questions as Partial<QuizQuestionInput>[]) : [];
+  const numberOrNull = (v: unknown) => (v === null || v === undefined || v === '' ? null : Number(v));
+
+  return {
+    title: typeof body.title === 'string' ? body.title : '',
+    settings: {
+      instructions: typeof settings.instructions === 'string' ? settings.instructions : null,
+      max_attempts: numberOrNull(settings.max_attempts),
+      time_limit_minutes: numberOrNull(settings.time_limit_minutes),
+      shuffle_questions: settings.shuffle_questions === true,
+      shuffle_options: settings.shuffle_options === true,
+      pass_percent: numberOrNull(settings.pass_percent) ?? DEFAULT_QUIZ_SETTINGS.pass_percent,
+      show_answers: settings.show_answers !== false,
+    },
+    questions: questions.map(q => ({
+      id: typeof q.id === 'string' ? q.id : undefined,
+      type: q.type as QuizQuestionType,
+      prompt: typeof q.prompt === 'string' ? q.prompt : '',
+      options: Array.isArray(q.options) ? q.options : [],
+      correct_option_ids: Array.isArray(q.correct_option_ids) ? q.correct_option_ids : [],
+      numeric_answer: numberOrNull(q.numeric_answer),
+      numeric_tolerance: numberOrNull(q.numeric_tolerance) ?? 0,
+      accepted_answers: Array.isArray(q.accepted_answers) ? q.accepted_answers.filter(a => typeof a === 'string') : [],
+      case_sensitive: q.case_sensitive === true,
+      points: numberOrNull(q.points) ?? 1,
+      explanation: typeof q.explanation === 'string' ? q.explanation : null,
+    })),
+  };
+}
+
+/** Null when the quiz can be saved, otherwise the first problem found. */
+export function validateQuizInput(input: QuizInput): string | null {
+  if (!input.title?.trim()) return 'Title is required';
+
+  const s = input.settings;
+  if (s.max_attempts !== null && (!Number.isInteger(s.max_attempts) || s.max_attempts < 1)) {
+    return 'Attempts must be a whole number of at least 1';
+  }
+  if (s.time_limit_minutes !== null && (!Number.isInteger(s.time_limit_minutes) || s.time_limit_minutes < 1)) {
+    return 'Time limit must be a whole number of minutes';
+  }
+  if (!Number.isInteger(s.pass_percent) || s.pass_percent < 0 || s.pass_percent > 100) {
+    return 'Pass mark must be between 0 and 100';
+  }
+
+  if (!input.questions?.length) return 'Add at least one question';
+
+  for (const [index, q] of input.questions.entries()) {
+    const label = `Question ${index + 1}`;
+    if (!QUIZ_QUESTION_TYPES.includes(q.type)) return `${label}: unknown question type`;
+    if (!q.prompt?.trim()) return `${label}: prompt is required`;
+    if (!(typeof q.points === 'number' && q.points > 0)) return `${label}: points must be greater than 0`;
+
+    if (q.type === 'single_choice' || q.type === 'multi_select') {
+      if (q.options.length < 2) return `${label}: add at least two options`;
+      if (q.options.some(o => !o.id || !o.text?.trim())) return `${label}: options cannot be blank`;
+      const optionIds = new Set(q.options.map(o => o.id));
+      if (optionIds.size !== q.options.length) return `${label}: duplicate option ids`;
+      if (q.correct_option_ids.some(id => !optionIds.has(id))) return `${label}: correct answer is not one of the options`;
+      if (q.type === 'single_choice' && q.correct_option_ids.length !== 1) return `${label}: mark exactly one correct option`;
+      if (q.type === 'multi_select' && q.correct_option_ids.length === 0) return `${label}: mark at least one correct option`;
+    } else if (q.type === 'numeric') {
+      if (typeof q.numeric_answer !== 'number' || !Number.isFinite(q.numeric_answer)) return `${label}: enter the numeric answer`;
+      if (typeof q.numeric_tolerance !== 'number' || !(q.numeric_tolerance >= 0)) return `${label}: tolerance cannot be negative`;
+    } else if (!q.accepted_answers.some(a => a.trim())) {
+      return `${label}: add at least one accepted answer`;
+    }
+  }
+  return null;
+}
+
+/** Drop the fields a question's type does not use, so the table checks hold. */
+function questionRow(q: QuizQuestionInput, resourceId: string, orderIndex: number) {
+  const isChoice = q.type === 'single_choice' || q.type === 'multi_select';
+  return {
+    ...(q.id ? { id: q.id } : {}),
+    resource_id: resourceId,
+    type: q.type,
+    prompt: q.prompt.trim(),
+    options: isChoice ? q.options.map(o => ({ id: o.id, text: o.text.trim() })) : [],
+    correct_option_ids: isChoice ? q.correct_option_ids : [],
+    numeric_answer: q.type === 'numeric' ? q.numeric_answer : null,
+    numeric_tolerance: q.type === 'numeric' ? q.numeric_tolerance : 0,
+    accepted_answers: q.type === 'short_text' ? q.accepted_answers.map(a => a.trim()).filter(Boolean) : [],
+    case_sensitive: q.type === 'short_text' ? q.case_sensitive : false,
+    points: q.points,
+    explanation: q.explanation?.trim() || null,
+    order_index: orderIndex,
+  };
+}
+
+/**
+ * Per-question difficulty (share correct) and upper-lower discrimination,
+ * from each student's first submitted attempt: later attempts have seen the
+ * feedback and would flatten both numbers.
+ */
+export function buildItemAnalysis(
+  resourceId: string,
+  questions: QuizQuestion[],
+  attempts: AnalysisAttempt[],
+): QuizItemAnalysis {
+  const firstByUser = new Map<string, AnalysisAttempt>();
+  for (const a of attempts) {
+    const current = firstByUser.get(a.user_id);
+    if (!current || a.attempt_number < current.attempt_number) firstByUser.set(a.user_id, a);
+  }
+  const firsts = [...firstByUser.values()].sort((a, b) => Number(b.percent ?? 0) - Number(a.percent ?? 0));
+
+  const groupSize = Math.max(1, Math.round(firsts.length * DISCRIMINATION_GROUP_SHARE));
+  const upper = firsts.slice(0, groupSize);
+  const lower = firsts.slice(-groupSize);
+
+  const correctOn = (a: AnalysisAttempt, questionId: string) =>
+    !!a.results?.find(r => r.question_id === questionId)?.correct;
+
+  const correctRate = (group: AnalysisAttempt[], questionId: string): number | null => {
+    const shown = group.filter(a => a.question_order.includes(questionId));
+    return shown.length ? shown.filter(a => correctOn(a, questionId)).length / shown.length : null;
+  };
+
+  const items: QuizItemStat[] = questions.map(q => {
+    const shown = firsts.filter(a => a.question_order.includes(q.id));
+    const correctCount = shown.filter(a => correctOn(a, q.id)).length;
+
+    let discrimination: number | null = null;
+    if (shown.length >= MIN_RESPONSES_FOR_DISCRIMINATION) {
+      const up = correctRate(upper, q.id);
+      const low = correctRate(lower, q.id);
+      if (up !== null && low !== null) discrimination = round2(up - low);
+    }
+
+    return {
+      question_id: q.id,
+      prompt: q.prompt,
+      type: q.type,
+      responses: shown.length,
+      difficulty: shown.length ? round2(correctCount / shown.length) : null,
+      discrimination,
+      option_counts: q.options.map(o => ({
+        option_id: o.id,
+        text: o.text,
+        count: shown.filter(a => a.answers[q.id]?.option_ids?.includes(o.id)).length,
+        is_correct: q.correct_option_ids.includes(o.id),
+      })),
+    };
+  });
+
+  return {
+    resource_id: resourceId,
+    students: firsts.length,
+    mean_percent: firsts.length
+      ? round2(firsts.reduce((sum, a) => sum + Number(a.percent ?? 0), 0) / firsts.length)
+      : null,
+    pass_rate: firsts.length ? round2(firsts.filter(a => a.passed).length / firsts.length) : null,
+    items,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+function toQuestion(row: Record<string, unknown>): QuizQuestion {
+  const q = row as unknown as QuizQuestion;
+  return {
+    ...q,
+    numeric_answer: q.numeric_answer === null ? null : Number(q.numeric_answer),
+    numeric_tolerance: Number(q.numeric_tolerance),
+    points: Number(q.points),
+  };
+}
+
+function toAttempt(row: Record<string, unknown>): QuizAttempt {
+  const a = row as unknown as QuizAttempt;
+  return {
+    ...a,
+    score: a.score === null ? null : Number(a.score),
+    max_score: a.max_score === null ? null : Number(a.max_score),
+    percent: a.percent === null ? null : Number(a.percent),
+  };
+}
+
+/**
+ * Modules among `moduleIds` a student can see: global ones, their cohort's
+ * own, ones linked to their cohort, or the legacy profiles.cohort_id.
+ * Mirrors the check in /api/module-resources/[id]/signed-url.
+ */
+export async function accessibleModuleIds(
+  adminClient: SupabaseClient,
+  userId: string,
+  moduleIds: string[],
+): Promise<Set<string>> {
+  if (moduleIds.length === 0) return new Set();
+
+  const [{ data: modules }, { data: roles }, { data: profile }] = await Promise.all([
+    adminClient.from('learning_modules').select('id, cohort_id, is_global').in('id', moduleIds),
+    adminClient.from('user_role_assignments').select('cohort_id').eq('user_id', userId),
+    adminClient.from('profiles').select('cohort_id').eq('id', userId).maybeSingle(),
+  ]);
+
+  const cohortIds = new Set(
+    [...(roles || []).map(r => r.cohort_id as string | null), profile?.cohort_id as string | null]
+      .filter((id): id is string => !!id)
+  );
+
+  const accessible = new Set<string>();
+  for (const m of modules || []) {
+    if (m.is_global || (m.cohort_id && cohortIds.has(m.cohort_id))) accessible.add(m.id);
+  }
+
+  const remaining = moduleIds.filter(id => !accessible.has(id));
+  if (remaining.length && cohortIds.size) {
+    const { data: links } = await adminClient
+      .from('cohort_module_links')
+      .select('module_id')
+      .in('module_id', remaining)
+      .in('cohort_id', [...cohortIds]);
+    for (const l of links || []) accessible.add(l.module_id as string);
+  }
+  return accessible;
+}
+
+interface LoadedQuiz {
+  resource: ModuleResource;
+  settings: QuizSettings;
+  questions: QuizQuestion[];
+}
+
+/** A quiz resource with its settings and questions (answer key included). */
+export async function loadQuiz(adminClient: SupabaseClient, resourceId: string): Promise<QuizResult<LoadedQuiz>> {
+  const [{ data: resource, error }, { data: settings, error: settingsError }, { data: questions, error: qError }] = await Promise.all([
+    adminClient.from('module_resources').select('*').eq('id', resourceId).eq('content_type', 'quiz').maybeSingle(),
+    adminClient.from('module_quizzes').select('*').eq('resource_id', resourceId).maybeSingle(),
+    adminClient.from('quiz_questions').select('*').eq('resource_id', resourceId).order('order_index'),
+  ]);
+  const dbError = error || settingsError || qError;
+  if (dbError) return { ok: false, error: { stage: 'database', message: dbError.message } };
+  if (!resource || !settings) return { ok: false, error: { stage: 'not_found', message: 'Quiz not found' } };
+
+  return {
+    ok: true,
+    resource: resource as ModuleResource,
+    settings: settings as QuizSettings,
+    questions: (questions || []).map(toQuestion),
+  };
+}
+
+async function loadAttempts(adminClient: SupabaseClient, resourceIds: string[], userId: string) {
+  const { data, error } = await adminClient
+    .from('quiz_attempts')
+    .select('*')
+    .in('resource_id', resourceIds)
+    .eq('user_id', userId)
+    .order('attempt_number');
+  return { attempts: (data || []).map(toAttempt), error };
+}
+
+async function saveQuizContent(
+  adminClient: SupabaseClient,
+  resourceId: string,
+  input: QuizInput,
+): Promise<QuizResult<{ resourceId: string }>> {
+  const { error: settingsError } = await adminClient
+    .from('module_quizzes')
+    .upsert(
+      { resource_id: resourceId, ...input.settings, instructions: input.settings.instructions?.trim() || null },
+      { onConflict: 'resource_id' },
+    );
+  if (settingsError) return { ok: false, error: { stage: 'database', message: settingsError.message } };
+
+  const { data: existing, error: existingError } = await adminClient
+    .from('quiz_questions')
+    .select('id')
+    .eq('resource_id', resourceId);
+  if (existingError) return { ok: false, error: { stage: 'database', message: existingError.message } };
+
+  const existingIds = new Set((existing || []).map(q => q.id as string));
+  // Ids from another quiz (or made up) are dropped so they insert as new questions
+  const rows = input.questions.map((q, i) =>
+    questionRow(q.id && existingIds.has(q.id) ? q : { ...q, id: undefined }, resourceId, i)
+  );
+  const updates = rows.filter(r => 'id' in r);
+  const inserts = rows.filter(r => !('id' in r));
+  const keptIds = new Set(updates.map(r => (r as { id: string }).id));
+  const removedIds = [...existingIds].filter(id => !keptIds.has(id));
+
+  if (removedIds.length) {
+    const { error } = await adminClient.from('quiz_questions').delete().in('id', removedIds);
+    if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  }
+  if (updates.length) {
+    const { error } = await adminClient.from('quiz_questions').upsert(updates, { onConflict: 'id' });
+    if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  }
+  if (inserts.length) {
+    const { error } = await adminClient.from('quiz_questions').insert(inserts);
+    if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  }
+
+  return { ok: true, resourceId };
+}
+
+/** Create a quiz at the end of a module's quizzes. */
+export async function createQuiz(
+  adminClient: SupabaseClient,
+  moduleId: string,
+  input: QuizInput,
+): Promise<QuizResult<{ resourceId: string }>> {
+  const invalid = validateQuizInput(input);
+  if (invalid) return { ok: false, error: { stage: 'validation', message: invalid } };
+
+  const { count } = await adminClient
+    .from('module_resources')
+    .select('id', { count: 'exact', head: true })
+    .eq('module_id', moduleId)
+    .eq('content_type', 'quiz');
+
+  const { data: resource, error } = await adminClient
+    .from('module_resources')
+    .insert({ module_id: moduleId, title: input.title.trim(), content_type: 'quiz', order_index: count ?? 0 })
+    .select('id')
+    .single();
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const result = await saveQuizContent(adminClient, resource.id, input);
+  if (!result.ok) {
+    // Don't leave a quiz resource without settings behind
+    await adminClient.from('module_resources').delete().eq('id', resource.id);
+  }
+  return result;
+}
+
+/**
+ * Update a quiz's title, settings and questions. Questions missing from
+ * `input` are deleted and ones without an id are added.
+ */
+export async function updateQuiz(
+  adminClient: SupabaseClient,
+  resourceId: string,
+  input: QuizInput,
+): Promise<QuizResult<{ resourceId: string }>> {
+  const invalid = validateQuizInput(input);
+  if (invalid) return { ok: false, error: { stage: 'validation', message: invalid } };
+
+  const { data: resource, error } = await adminClient
+    .from('module_resources')
+    .update({ title: input.title.trim() })
+    .eq('id', resourceId)
+    .eq('content_type', 'quiz')
+    .select('id')
+    .maybeSingle();
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  if (!resource) return { ok: false, error: { stage: 'not_found', message: 'Quiz not found' } };
+
+  return saveQuizContent(adminClient, resourceId, input);
+}
+
+function summarize(
+  resource: Pick<ModuleResource, 'id' | 'module_id' | 'title'>,
+  settings: QuizSettings,
+  questionCount: number,
+  attempts: QuizAttempt[],
+): QuizSummary {
+  const submitted = attempts.filter(a => a.submitted_at);
+  const open = attempts.find(a => !a.submitted_at);
+  const best = bestAttempt(submitted);
+  return {
+    resource_id: resource.id,
+    module_id: resource.module_id ?? '',
+    title: resource.title,
+    question_count: questionCount,
+    max_attempts: settings.max_attempts,
+    time_limit_minutes: settings.time_limit_minutes,
+    pass_percent: settings.pass_percent,
+    attempts_used: attempts.length,
+    attempts_remaining: attemptsRemaining(settings.max_attempts, attempts.length),
+    best_percent: best ? best.percent : null,
+    passed: submitted.some(a => a.passed),
+    open_attempt_id: open?.id ?? null,
+  };
+}
+
+/** Mark the quiz complete for the student; never un-completes a resource. */
+async function markQuizCompleted(adminClient: SupabaseClient, resourceId: string, userId: string, now: Date) {
+  const { error } = await adminClient
+    .from('resource_progress')
+    .upsert(
+      { user_id: userId, resource_id: resourceId, is_completed: true, last_viewed_at: now.toISOString() },
+      { onConflict: 'user_id,resource_id' },
+    );
+  if (error) console.error('Error marking quiz complete:', error);
+}
+
+async function finalizeAttempt(
+  adminClient: SupabaseClient,
+  quiz: LoadedQuiz,
+  attempt: QuizAttempt,
+  answers: Record<string, QuizAnswer>,
+  timedOut: boolean,
+  now: Date,
+): Promise<QuizResult<{ attempt: QuizAttempt }>> {
+  const byId = new Map(quiz.questions.map(q => [q.id, q]));
+  const shown = attempt.question_order.flatMap(id => byId.get(id) ?? []);
+  const scored = scoreAttempt(shown, answers, quiz.settings.pass_percent);
+
+  const { data, error } = await adminClient
+    .from('quiz_attempts')
+    .update({
+      answers,
+      submitted_at: now.toISOString(),
+      timed_out: timedOut,
+      ...scored,
+    })
+    .eq('id', attempt.id)
+    .is('submitted_at', null)
+    .select()
+    .maybeSingle();
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  if (!data) return { ok: false, error: { stage: 'forbidden', message: 'This attempt has already been submitted' } };
+
+  if (scored.passed) await markQuizCompleted(adminClient, attempt.resource_id, attempt.user_id, now);
+  return { ok: true, attempt: toAttempt(data) };
+}
+
+/** Score any of the student's timed attempts that ran out while left open. */
+async function finalizeExpired(
+  adminClient: SupabaseClient,
+  quiz: LoadedQuiz,
+  attempts: QuizAttempt[],
+  now: Date,
+): Promise<QuizResult<{ attempts: QuizAttempt[] }>> {
+  const out: QuizAttempt[] = [];
+  for (const a of attempts) {
+    if (!a.submitted_at && isAttemptExpired(a, now)) {
+      const result = await finalizeAttempt(adminClient, quiz, a, a.answers, true, now);
+      if (!result.ok && result.error.stage === 'database') return result;
+      out.push(result.ok ? result.attempt : a);
+    } else {
+      out.push(a);
+    }
+  }
+  return { ok: true, attempts: out };
+}
+
+/** Quizzes in the given modules with the student's progress, plus mastery per module. */
+export async function listQuizSummaries(
+  adminClient: SupabaseClient,
+  userId: string,
+  moduleIds: string[],
+): Promise<QuizResult<{ quizzes: QuizSummary[]; mastery: Record<string, number> }>> {
+  const accessible = [...(await accessibleModuleIds(adminClient, userId, moduleIds))];
+  if (accessible.length === 0) return { ok: true, quizzes: [], mastery: {} };
+
+  const { data: resources, error } = await adminClient
+    .from('module_resources')
+    .select('id, module_id, title, order_index, quiz:module_quizzes!inner(*), questions:quiz_questions(count)')
+    .in('module_id', accessible)
+    .eq('content_type', 'quiz')
+    .order('order_index');
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const ids = (resources || []).map(r => r.id as string);
+  if (ids.length === 0) return { ok: true, quizzes: [], mastery: {} };
+
+  const { attempts, error: attemptError } = await loadAttempts(adminClient, ids, userId);
+  if (attemptError) return { ok: false, error: { stage: 'database', message: attemptError.message } };
+
+  const quizzes = (resources || []).map(r => {
+    const settings = (Array.isArray(r.quiz) ? r.quiz[0] : r.quiz) as QuizSettings;
+    const count = (r.questions as unknown as { count: number }[] | null)?.[0]?.count ?? 0;
+    return summarize(
+      r as unknown as ModuleResource,
+      settings,
+      count,
+      attempts.filter(a => a.resource_id === r.id),
+    );
+  });
+
+  const mastery: Record<string, number> = {};
+  for (const moduleId of new Set(quizzes.map(q => q.module_id))) {
+    mastery[moduleId] = moduleMastery(quizzes.filter(q => q.module_id === moduleId))!;
+  }
+  return { ok: true, quizzes, mastery };
+}
+
+async function loadQuizForStudent(
+  adminClient: SupabaseClient,
+  resourceId: string,
+  userId: string,
+): Promise<QuizResult<LoadedQuiz>> {
+  const quiz = await loadQuiz(adminClient, resourceId);
+  if (!quiz.ok) return quiz;
+  const moduleId = quiz.resource.module_id;
+  if (!moduleId || !(await accessibleModuleIds(adminClient, userId, [moduleId])).has(moduleId)) {
+    return { ok: false, error: { stage: 'forbidden', message: 'Access denied' } };
+  }
+  return quiz;
+}
+
+/** Everything the quiz player needs: progress, any open attempt and the latest review. */
+export async function getQuizDetail(
+  adminClient: SupabaseClient,
+  resourceId: string,
+  userId: string,
+  now: Date = new Date(),
+): Promise<QuizResult<{ detail: QuizDetail }>> {
+  const quiz = await loadQuizForStudent(adminClient, resourceId, userId);
+  if (!quiz.ok) return quiz;
+
+  const loaded = await loadAttempts(adminClient, [resourceId], userId);
+  if (loaded.error) return { ok: false, error: { stage: 'database', message: loaded.error.message } };
+  const finalized = await finalizeExpired(adminClient, quiz, loaded.attempts, now);
+  if (!finalized.ok) return finalized;
+  const attempts = finalized.attempts;
+
+  const summary = summarize(quiz.resource, quiz.settings, quiz.questions.length, attempts);
+  const open = attempts.find(a => !a.submitted_at) ?? null;
+  const latest = [...attempts].reverse().find(a => a.submitted_at) ?? null;
+
+  return {
+    ok: true,
+    detail: {
+      quiz: summary,
+      instructions: quiz.settings.instructions,
+      show_answers: quiz.settings.show_answers,
+      attempts: attempts.filter(a => a.submitted_at),
+      open_attempt: open ? { attempt: open, questions: questionsForAttempt(quiz.questions, open) } : null,
+      review: latest
+        ? buildReview(quiz.questions, latest, canRevealAnswers(quiz.settings, summary))
+        : null,
+    },
+  };
+}
+
+/** Resume the student's open attempt, or start a new one if they have attempts left. */
+export async function startQuizAttempt(
+  adminClient: SupabaseClient,
+  resourceId: string,
+  userId: string,
+  now: Date = new Date(),
+): Promise<QuizResult<{ attempt: QuizAttempt; questions: QuizQuestionForStudent[] }>> {
+  const quiz = await loadQuizForStudent(adminClient, resourceId, userId);
+  if (!quiz.ok) return quiz;
+  if (quiz.questions.length === 0) {
+    return { ok: false, error: { stage: 'validation', message: 'This quiz has no questions yet' } };
+  }
+
+  const loaded = await loadAttempts(adminClient, [resourceId], userId);
+  if (loaded.error) return { ok: false, error: { stage: 'database', message: loaded.error.message } };
+  const finalized = await finalizeExpired(adminClient, quiz, loaded.attempts, now);
+  if (!finalized.ok) return finalized;
+
+  const open = finalized.attempts.find(a => !a.submitted_at);
+  if (open) return { ok: true, attempt: open, questions: questionsForAttempt(quiz.questions, open) };
+
+  if (attemptsRemaining(quiz.settings.max_attempts, finalized.attempts.length) === 0) {
+    return { ok: false, error: { stage: 'forbidden', message: 'No attempts left' } };
+  }
+
+  const attemptNumber = finalized.attempts.length + 1;
+  const layout = buildAttemptLayout(quiz.questions, quiz.settings, `${userId}:${resourceId}:${attemptNumber}`);
+  const { data, error } = await adminClient
+    .from('quiz_attempts')
+    .insert({
+      resource_id: resourceId,
+      user_id: userId,
+      attempt_number: attemptNumber,
+      started_at: now.toISOString(),
+      expires_at: attemptExpiresAt(now, quiz.settings.time_limit_minutes)?.toISOString() ?? null,
+      ...layout,
+    })
+    .select()
+    .single();
+  if (error) {
+    // Unique violation: a second tab started the same attempt first
+    if (error.code === '23505') {
+      return { ok: false, error: { stage: 'forbidden', message: 'An attempt is already in progress' } };
+    }
+    return { ok: false, error: { stage: 'database', message: error.message } };
+  }
+
+  const attempt = toAttempt(data);
+  return { ok: true, attempt, questions: questionsForAttempt(quiz.questions, attempt) };
+}
+
+async function loadOwnOpenAttempt(
+  adminClient: SupabaseClient,
+  attemptId: string,
+  userId: string,
+): Promise<QuizResult<{ attempt: QuizAttempt }>> {
+  const { data, error } = await adminClient.from('quiz_attempts').select('*').eq('id', attemptId).maybeSingle();
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  if (!data || data.user_id !== userId) return { ok: false, error: { stage: 'not_found', message: 'Attempt not found' } };
+  if (data.submitted_at) {
+    return { ok: false, error: { stage: 'forbidden', message: 'This attempt has already been submitted' } };
+  }
+  return { ok: true, attempt: toAttempt(data) };
+}
+
+/** Keep only answers to questions the attempt was shown. */
+function sanitizeAnswers(attempt: QuizAttempt, answers: unknown): Record<string, QuizAnswer> {
+  const out: Record<string, QuizAnswer> = {};
+  if (!answers || typeof answers !== 'object') return out;
+  const shown = new Set(attempt.question_order);
+  for (const [questionId, raw] of Object.entries(answers as Record<string, QuizAnswer>)) {
+    if (!shown.has(questionId) || !raw || typeof raw !== 'object') continue;
+    const answer: QuizAnswer = {};
+    if (Array.isArray(raw.option_ids)) answer.option_ids = raw.option_ids.filter((id): id is string => typeof id === 'string');
+    if (typeof raw.value === 'number' && Number.isFinite(raw.value)) answer.value = raw.value;
+    if (typeof raw.text === 'string') answer.text = raw.text.slice(0, 1000);
+    out[questionId] = answer;
+  }
+  return out;
+}
+
+/** Autosave answers on an open attempt. */
+export async function saveAttemptAnswers(
+  adminClient: SupabaseClient,
+  attemptId: string,
+  userId: string,
+  answers: unknown,
+  now: Date = new Date(),
+): Promise<QuizResult<{ saved_at: string }>> {
+  const loaded = await loadOwnOpenAttempt(adminClient, attemptId, userId);
+  if (!loaded.ok) return loaded;
+  if (isAttemptExpired(loaded.attempt, now)) {
+    return { ok: false, error: { stage: 'forbidden', message: 'Time is up for this attempt' } };
+  }
+
+  const { error } = await adminClient
+    .from('quiz_attempts')
+    .update({ answers: sanitizeAnswers(loaded.attempt, answers) })
+    .eq('id', attemptId)
+    .is('submitted_at', null);
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  return { ok: true, saved_at: now.toISOString() };
+}
+
+/**
+ * Submit an attempt and score it. After the time limit (plus grace) the
+ * answers in the request are ignored and the last autosave is scored.
+ */
+export async function submitQuizAttempt(
+  adminClient: SupabaseClient,
+  attemptId: string,
+  userId: string,
+  answers: unknown,
+  now: Date = new Date(),
+): Promise<QuizResult<{ attempt: QuizAttempt; quiz: QuizSummary; review: QuizReviewItem[] }>> {
+  const loaded = await loadOwnOpenAttempt(adminClient, attemptId, userId);
+  if (!loaded.ok) return loaded;
+
+  const quiz = await loadQuiz(adminClient, loaded.attempt.resource_id);
+  if (!quiz.ok) return quiz;
+
+  const timedOut = isAttemptExpired(loaded.attempt, now);
+  const finalAnswers = timedOut ? loaded.attempt.answers : sanitizeAnswers(loaded.attempt, answers);
+  const result = await finalizeAttempt(adminClient, quiz, loaded.attempt, finalAnswers, timedOut, now);
+  if (!result.ok) return result;
+
+  const all = await loadAttempts(adminClient, [quiz.resource.id], userId);
+  if (all.error) return { ok: false, error: { stage: 'database', message: all.error.message } };
+  const summary = summarize(quiz.resource, quiz.settings, quiz.questions.length, all.attempts);
+
+  return {
+    ok: true,
+    attempt: result.attempt,
+    quiz: summary,
+    review: buildReview(quiz.questions, result.attempt, canRevealAnswers(quiz.settings, summary)),
+  };
+}
+
+/** Item analysis over every student's first submitted attempt. */
+export async function getQuizItemAnalysis(
+  adminClient: SupabaseClient,
+  resourceId: string,
+): Promise<QuizResult<{ analysis: QuizItemAnalysis }>> {
+  const quiz = await loadQuiz(adminClient, resourceId);
+  if (!quiz.ok) return quiz;
+
+  const { data, error } = await adminClient
+    .from('quiz_attempts')
+    .select('user_id, attempt_number, question_order, answers, results, percent, passed')
+    .eq('resource_id', resourceId)
+    .not('submitted_at', 'is', null);
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const attempts = (data || []).map(a => ({ ...a, percent: a.percent === null ? null : Number(a.percent) })) as AnalysisAttempt[];
+  return { ok: true, analysis: buildItemAnalysis(resourceId, quiz.questions, attempts) };
+}
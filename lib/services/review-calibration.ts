@@ -0,0 +1,423 @@
+/**
+ * Review Calibration Service
+ * Blind multi-reviewer scoring for case studies (migration 043).
+ *
+ * Agreement is measured on scores normalised to a percentage of the maximum,
+ * so case studies with different max_score values can be compared. Mentor
+ * bias is each mentor's score minus the admin baseline for the same
+ * submission (the mean of its admin reviews).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getCaseStudyRubric } from '@/lib/services/rubric';
+import type { RubricCriteria } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Mean deviation (percentage points) within which a mentor counts as aligned. */
+export const BIAS_TOLERANCE_PCT = 5;
+
+/** Reviews needed before a mentor's tendency is reported. */
+export const MIN_BIAS_SAMPLE = 2;
+
+const MENTOR_VISIBLE = ['mentor_visible', 'subgroup_published', 'cohort_published'];
+const PUBLISHED = ['subgroup_published', 'cohort_published'];
+
+/**
+ * Whether a mentor may open and review a submission. Calibration mode lets
+ * mentors score independently as soon as the submission is in.
+ */
+export function mentorCanReview(visibility: string, calibrationMode: boolean): boolean {
+  if (MENTOR_VISIBLE.includes(visibility)) return true;
+  return calibrationMode && ['submitted', 'admin_reviewed'].includes(visibility);
+}
+
+/** Other reviewers' scores stay hidden until adjudication or publication. */
+export function isReviewBlind(
+  calibrationMode: boolean,
+  submission: { visibility: string; adjudicated_at: string | null },
+): boolean {
+  return calibrationMode && !submission.adjudicated_at && !PUBLISHED.includes(submission.visibility);
+}
+
+/**
+ * Of a submission's admin reviews, the one that carries the grade: the
+ * adjudicator's, else the most recently updated scored review.
+ */
+export function pickGradingReview<T extends { reviewer_id: string; score: number | null; updated_at: string }>(
+  reviews: T[],
+  adjudicatedBy: string | null,
+): T | null {
+  const scored = reviews.filter(r => r.score !== null);
+  const adjudicated = adjudicatedBy ? scored.find(r => r.reviewer_id === adjudicatedBy) : undefined;
+  if (adjudicated) return adjudicated;
+  return scored.reduce<T | null>((latest, r) => (!latest || r.updated_at > latest.updated_at ? r : latest), null);
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CalibrationReviewInput {
+  reviewId: string;
+  reviewerId: string;
+  reviewerName: string | null;
+  role: 'admin' | 'mentor';
+  score: number | null;
+  /** criteria_id -> points */
+  rubric: Record<string, number>;
+}
+
+export interface CriterionAgreement {
+  criteriaId: string;
+  label: string;
+  reviewCount: number;
+  /** Population variance of the normalised (%) scores */
+  variance: number;
+  spreadPct: number;
+}
+
+export interface SubmissionAgreement {
+  reviewCount: number;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  spread: number | null;
+  spreadPct: number | null;
+  stdDev: number | null;
+  criteria: CriterionAgreement[];
+  flagged: boolean;
+}
+
+export type BiasTendency = 'harsher' | 'softer' | 'aligned' | 'insufficient_data';
+
+export interface MentorCalibration {
+  reviewerId: string;
+  reviewerName: string | null;
+  reviewCount: number;
+  /** Mean of (mentor − admin baseline), in percentage points of max score */
+  meanDeltaPct: number;
+  meanAbsDeltaPct: number;
+  tendency: BiasTendency;
+}
+
+export interface SubmissionCalibration {
+  submissionId: string;
+  subgroupId: string;
+  subgroupName: string;
+  visibility: string;
+  adjudicatedAt: string | null;
+  adjudicationNote: string | null;
+  reviews: CalibrationReviewInput[];
+  agreement: SubmissionAgreement;
+}
+
+type CalibrationError = { stage: 'not_found' | 'validation' | 'database'; message: string };
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return mean(values.map((v) => (v - m) ** 2));
+}
+
+export function computeAgreement(
+  reviews: CalibrationReviewInput[],
+  criteria: Pick<RubricCriteria, 'id' | 'label' | 'max_score'>[],
+  maxScore: number,
+  thresholdPct: number,
+): SubmissionAgreement {
+  const scores = reviews.map((r) => r.score).filter((s): s is number => s !== null);
+
+  const criteriaAgreement: CriterionAgreement[] = criteria
+    .map((c) => {
+      const pcts = reviews
+        .map((r) => r.rubric[c.id])
+        .filter((v): v is number => v !== undefined && c.max_score > 0)
+        .map((v) => (v / c.max_score) * 100);
+      return {
+        criteriaId: c.id,
+        label: c.label,
+        reviewCount: pcts.length,
+        variance: pcts.length >= 2 ? round1(variance(pcts)) : 0,
+        spreadPct: pcts.length >= 2 ? round1(Math.max(...pcts) - Math.min(...pcts)) : 0,
+      };
+    })
+    .filter((c) => c.reviewCount > 0);
+
+  if (scores.length === 0) {
+    return {
+      reviewCount: 0,
+      mean: null,
+      min: null,
+      max: null,
+      spread: null,
+      spreadPct: null,
+      stdDev: null,
+      criteria: criteriaAgreement,
+      flagged: false,
+    };
+  }
+
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const spreadPct = maxScore > 0 ? round1(((max - min) / maxScore) * 100) : 0;
+
+  return {
+    reviewCount: scores.length,
+    mean: round1(mean(scores)),
+    min,
+    max,
+    spread: max - min,
+    spreadPct,
+    stdDev: round1(Math.sqrt(variance(scores))),
+    criteria: criteriaAgreement,
+    flagged: scores.length >= 2 && spreadPct > thresholdPct,
+  };
+}
+
+/** Aggregate per-review deltas into one row per mentor, largest bias first. */
+export function summarizeReviewerBias(
+  entries: Array<{ reviewerId: string; reviewerName: string | null; deltaPct: number }>,
+): MentorCalibration[] {
+  const byReviewer = new Map<string, { name: string | null; deltas: number[] }>();
+  for (const e of entries) {
+    const row = byReviewer.get(e.reviewerId) || { name: e.reviewerName, deltas: [] };
+    row.deltas.push(e.deltaPct);
+    byReviewer.set(e.reviewerId, row);
+  }
+
+  return [...byReviewer.entries()]
+    .map(([reviewerId, { name, deltas }]) => {
+      const meanDelta = round1(mean(deltas));
+      let tendency: BiasTendency = 'aligned';
+      if (deltas.length < MIN_BIAS_SAMPLE) tendency = 'insufficient_data';
+      else if (meanDelta < -BIAS_TOLERANCE_PCT) tendency = 'harsher';
+      else if (meanDelta > BIAS_TOLERANCE_PCT) tendency = 'softer';
+
+      return {
+        reviewerId,
+        reviewerName: name,
+        reviewCount: deltas.length,
+        meanDeltaPct: meanDelta,
+        meanAbsDeltaPct: round1(mean(deltas.map(Math.abs))),
+        tendency,
+      };
+    })
+    .sort((a, b) => Math.abs(b.meanDeltaPct) - Math.abs(a.meanDeltaPct));
+}
+
+// ---------------------------------------------------------------------------
+// Loaders
+// ---------------------------------------------------------------------------
+
+async function loadCalibrationReviews(
+  adminClient: SupabaseClient,
+  submissionIds: string[],
+): Promise<Record<string, CalibrationReviewInput[]>> {
+  if (submissionIds.length === 0) return {};
+
+  const { data: reviews } = await adminClient
+    .from('case_study_reviews')
+    .select('id, submission_id, reviewer_id, reviewer_role, score, reviewer:profiles!case_study_reviews_reviewer_id_fkey(full_name)')
+    .in('submission_id', submissionIds);
+
+  const reviewIds = (reviews || []).map((r) => r.id);
+  const rubricByReview: Record<string, Record<string, number>> = {};
+  if (reviewIds.length > 0) {
+    const { data: rubricScores } = await adminClient
+      .from('case_study_rubric_scores')
+      .select('review_id, criteria_id, score')
+      .in('review_id', reviewIds);
+    for (const rs of rubricScores || []) {
+      (rubricByReview[rs.review_id] ||= {})[rs.criteria_id] = rs.score;
+    }
+  }
+
+  const bySubmission: Record<string, CalibrationReviewInput[]> = {};
+  for (const r of reviews || []) {
+    const reviewer = r.reviewer as unknown as { full_name: string | null } | null;
+    (bySubmission[r.submission_id] ||= []).push({
+      reviewId: r.id,
+      reviewerId: r.reviewer_id,
+      reviewerName: reviewer?.full_name ?? null,
+      role: r.reviewer_role,
+      score: r.score,
+      rubric: rubricByReview[r.id] || {},
+    });
+  }
+  return bySubmission;
+}
+
+export async function getCaseStudyCalibration(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+): Promise<
+  | {
+      ok: true;
+      settings: { calibrationMode: boolean; calibrationThreshold: number; maxScore: number };
+      submissions: SubmissionCalibration[];
+    }
+  | { ok: false; error: CalibrationError }
+> {
+  const { data: caseStudy } = await adminClient
+    .from('case_studies')
+    .select('id, max_score, calibration_mode, calibration_threshold')
+    .eq('id', caseStudyId)
+    .maybeSingle();
+
+  if (!caseStudy) return { ok: false, error: { stage: 'not_found', message: 'Case study not found' } };
+
+  const { data: submissions, error } = await adminClient
+    .from('case_study_submissions')
+    .select('id, subgroup_id, visibility, adjudicated_at, adjudication_note, subgroup:subgroups(name)')
+    .eq('case_study_id', caseStudyId)
+    .neq('visibility', 'draft');
+
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const maxScore = caseStudy.max_score ?? 100;
+  const threshold = Number(caseStudy.calibration_threshold);
+  const [reviewsBySubmission, criteria] = await Promise.all([
+    loadCalibrationReviews(adminClient, (submissions || []).map((s) => s.id)),
+    getCaseStudyRubric(adminClient, caseStudyId),
+  ]);
+
+  const rows: SubmissionCalibration[] = (submissions || []).map((s) => {
+    const subgroup = s.subgroup as unknown as { name: string } | null;
+    const reviews = reviewsBySubmission[s.id] || [];
+    return {
+      submissionId: s.id,
+      subgroupId: s.subgroup_id,
+      subgroupName: subgroup?.name ?? 'Unknown',
+      visibility: s.visibility,
+      adjudicatedAt: s.adjudicated_at,
+      adjudicationNote: s.adjudication_note,
+      reviews,
+      agreement: computeAgreement(reviews, criteria, maxScore, threshold),
+    };
+  });
+
+  rows.sort((a, b) => (b.agreement.spreadPct ?? -1) - (a.agreement.spreadPct ?? -1));
+
+  return {
+    ok: true,
+    settings: { calibrationMode: caseStudy.calibration_mode, calibrationThreshold: threshold, maxScore },
+    submissions: rows,
+  };
+}
+
+/**
+ * Submissions of a calibration-mode case study whose reviewers disagree and
+ * that no admin has adjudicated yet. Empty when calibration is off.
+ */
+export async function getUnresolvedDisagreements(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+): Promise<Set<string>> {
+  const result = await getCaseStudyCalibration(adminClient, caseStudyId);
+  if (!result.ok || !result.settings.calibrationMode) return new Set();
+  return new Set(
+    result.submissions.filter((s) => s.agreement.flagged && !s.adjudicatedAt).map((s) => s.submissionId),
+  );
+}
+
+/**
+ * Mark a submission as adjudicated. The admin's own review carries the final
+ * score, so one must exist first.
+ */
+export async function adjudicateSubmission(
+  adminClient: SupabaseClient,
+  input: { caseStudyId: string; submissionId: string; adjudicatorId: string; note: string | null },
+): Promise<{ ok: true; adjudicatedAt: string } | { ok: false; error: CalibrationError }> {
+  const { data: submission } = await adminClient
+    .from('case_study_submissions')
+    .select('id')
+    .eq('id', input.submissionId)
+    .eq('case_study_id', input.caseStudyId)
+    .maybeSingle();
+
+  if (!submission) return { ok: false, error: { stage: 'not_found', message: 'Submission not found' } };
+
+  const { data: adminReview } = await adminClient
+    .from('case_study_reviews')
+    .select('id')
+    .eq('submission_id', input.submissionId)
+    .eq('reviewer_id', input.adjudicatorId)
+    .eq('reviewer_role', 'admin')
+    .not('score', 'is', null)
+    .maybeSingle();
+
+  if (!adminReview) {
+    return {
+      ok: false,
+      error: { stage: 'validation', message: 'Save your own scored review first; it becomes the final score' },
+    };
+  }
+
+  const adjudicatedAt = new Date().toISOString();
+  const { error } = await adminClient
+    .from('case_study_submissions')
+    .update({
+      adjudicated_by: input.adjudicatorId,
+      adjudicated_at: adjudicatedAt,
+      adjudication_note: input.note,
+      updated_at: adjudicatedAt,
+    })
+    .eq('id', input.submissionId);
+
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  return { ok: true, adjudicatedAt };
+}
+
+/** Per-mentor bias against the admin baseline across a cohort's case studies. */
+export async function getMentorCalibrationReport(
+  adminClient: SupabaseClient,
+  cohortId: string,
+): Promise<MentorCalibration[]> {
+  const { data: caseStudies } = await adminClient
+    .from('case_studies')
+    .select('id, max_score')
+    .eq('cohort_id', cohortId);
+
+  const maxById = new Map((caseStudies || []).map((cs) => [cs.id, cs.max_score ?? 100]));
+  if (maxById.size === 0) return [];
+
+  const { data: submissions } = await adminClient
+    .from('case_study_submissions')
+    .select('id, case_study_id')
+    .in('case_study_id', [...maxById.keys()])
+    .neq('visibility', 'draft');
+
+  const caseStudyBySubmission = new Map((submissions || []).map((s) => [s.id, s.case_study_id]));
+  const reviewsBySubmission = await loadCalibrationReviews(adminClient, [...caseStudyBySubmission.keys()]);
+
+  const entries: Array<{ reviewerId: string; reviewerName: string | null; deltaPct: number }> = [];
+  for (const [submissionId, reviews] of Object.entries(reviewsBySubmission)) {
+    const adminScores = reviews.filter((r) => r.role === 'admin' && r.score !== null).map((r) => r.score!);
+    if (adminScores.length === 0) continue;
+    const baseline = mean(adminScores);
+    const maxScore = maxById.get(caseStudyBySubmission.get(submissionId)!) || 100;
+
+    for (const r of reviews) {
+      if (r.role !== 'mentor' || r.score === null) continue;
+      entries.push({
+        reviewerId: r.reviewerId,
+        reviewerName: r.reviewerName,
+        deltaPct: ((r.score - baseline) / maxScore) * 100,
+      });
+    }
+  }
+
+  return summarizeReviewerBias(entries);
+}
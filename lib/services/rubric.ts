@@ -0,0 +1,436 @@
+/**
+ * Rubric Service
+ * Reusable rubric templates and level-based case study grading (migration 042).
+ *
+ * A template is copied into case_study_rubric_criteria when attached, so a
+ * case study keeps the rubric it was graded with even if the template is
+ * edited later. Reviewers pick one level per criterion; the review score is
+ * derived from those picks rather than typed in.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RubricCriteria, RubricLevel, RubricTemplate } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RubricCriterionInput = {
+  label: string;
+  description: string | null;
+  weight: number;
+  levels: RubricLevel[];
+};
+
+export type RubricTemplateInput = {
+  name: string;
+  description: string | null;
+  criteria: RubricCriterionInput[];
+};
+
+/** One criterion pick as sent by the review screens. */
+export type RubricScoreInput = {
+  criteria_id: string;
+  score?: number | null;
+  level_label?: string | null;
+  comment?: string | null;
+};
+
+export type RubricScoreRow = {
+  criteria_id: string;
+  score: number;
+  level_label: string | null;
+  comment: string | null;
+};
+
+type GradableCriterion = Pick<RubricCriteria, 'id' | 'label' | 'weight' | 'levels' | 'max_score'>;
+
+type RubricError = {
+  stage: 'validation' | 'not_found' | 'conflict' | 'database';
+  message: string;
+};
+
+export type RubricResult<T> = ({ ok: true } & T) | { ok: false; error: RubricError };
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+/** Highest points on offer for a criterion. */
+export function criterionMaxPoints(levels: RubricLevel[]): number {
+  return levels.reduce((max, l) => Math.max(max, l.points), 0);
+}
+
+/**
+ * Weighted mean of each criterion's share of its points, scaled to the case
+ * study's max score. Criteria without a score count as zero.
+ */
+export function computeRubricScore(
+  criteria: GradableCriterion[],
+  scores: Record<string, number>,
+  maxScore: number,
+): number {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const c of criteria) {
+    const weight = Number(c.weight) || 0;
+    if (c.max_score <= 0 || weight <= 0) continue;
+    totalWeight += weight;
+    weighted += weight * Math.min((scores[c.id] ?? 0) / c.max_score, 1);
+  }
+  if (totalWeight === 0) return 0;
+  return Math.round((weighted / totalWeight) * maxScore);
+}
+
+/** Normalise and validate a template (or case study) criteria list. */
+export function validateRubricCriteria(input: unknown): RubricResult<{ criteria: RubricCriterionInput[] }> {
+  const fail = (message: string) => ({ ok: false as const, error: { stage: 'validation' as const, message } });
+
+  if (!Array.isArray(input) || input.length === 0) return fail('Add at least one criterion');
+
+  const criteria: RubricCriterionInput[] = [];
+  for (const [i, raw] of input.entries()) {
+    const c = (raw ?? {}) as Record<string, unknown>;
+    const label = typeof c.label === 'string' ? c.label.trim() : '';
+    if (!label) return fail(`Criterion ${i + 1} needs a label`);
+
+    const weight = c.weight === undefined ? 1 : Number(c.weight);
+    if (!Number.isFinite(weight) || weight <= 0) return fail(`"${label}" needs a positive weight`);
+
+    if (!Array.isArray(c.levels) || c.levels.length === 0) return fail(`"${label}" needs at least one level`);
+
+    const levels: RubricLevel[] = [];
+    const seen = new Set<string>();
+    for (const rawLevel of c.levels) {
+      const l = (rawLevel ?? {}) as Record<string, unknown>;
+      const levelLabel = typeof l.label === 'string' ? l.label.trim() : '';
+      const points = Number(l.points);
+      if (!levelLabel) return fail(`Every level of "${label}" needs a label`);
+      if (seen.has(levelLabel.toLowerCase())) return fail(`"${label}" has duplicate level "${levelLabel}"`);
+      if (!Number.isInteger(points) || points < 0) {
+        return fail(`Level "${levelLabel}" of "${label}" needs whole, non-negative points`);
+      }
+      seen.add(levelLabel.toLowerCase());
+      levels.push({
+        label: levelLabel,
+        description: typeof l.description === 'string' && l.description.trim() ? l.description.trim() : null,
+        points,
+      });
+    }
+    if (criterionMaxPoints(levels) === 0) return fail(`"${label}" needs a level worth more than 0 points`);
+
+    levels.sort((a, b) => b.points - a.points);
+    criteria.push({
+      label,
+      description: typeof c.description === 'string' && c.description.trim() ? c.description.trim() : null,
+      weight,
+      levels,
+    });
+  }
+
+  return { ok: true, criteria };
+}
+
+/**
+ * Check a reviewer's picks against the case study's criteria and derive the
+ * review score. A picked level wins over a raw score; every criterion must
+ * be graded.
+ */
+export function resolveRubricScores(
+  criteria: GradableCriterion[],
+  input: RubricScoreInput[],
+  maxScore: number,
+): RubricResult<{ rows: RubricScoreRow[]; score: number }> {
+  const fail = (message: string) => ({ ok: false as const, error: { stage: 'validation' as const, message } });
+  const byId = new Map(criteria.map((c) => [c.id, c]));
+  const rows = new Map<string, RubricScoreRow>();
+
+  for (const item of input) {
+    const criterion = byId.get(item?.criteria_id);
+    if (!criterion) return fail('Rubric score references an unknown criterion');
+
+    let score: number;
+    let levelLabel: string | null = null;
+    if (item.level_label) {
+      const level = criterion.levels.find((l) => l.label === item.level_label);
+      if (!level) return fail(`"${item.level_label}" is not a level of "${criterion.label}"`);
+      score = level.points;
+      levelLabel = level.label;
+    } else {
+      score = Number(item.score);
+      if (!Number.isInteger(score) || score < 0 || score > criterion.max_score) {
+        return fail(`"${criterion.label}" must be scored between 0 and ${criterion.max_score}`);
+      }
+    }
+
+    rows.set(criterion.id, {
+      criteria_id: criterion.id,
+      score,
+      level_label: levelLabel,
+      comment: typeof item.comment === 'string' && item.comment.trim() ? item.comment.trim() : null,
+    });
+  }
+
+  const missing = criteria.filter((c) => !rows.has(c.id));
+  if (missing.length > 0) {
+    return fail(`Grade every rubric criterion (missing: ${missing.map((c) => c.label).join(', ')})`);
+  }
+
+  const list = criteria.map((c) => rows.get(c.id)!);
+  const scores = Object.fromEntries(list.map((r) => [r.criteria_id, r.score]));
+  return { ok: true, rows: list, score: computeRubricScore(criteria, scores, maxScore) };
+}
+
+// ---------------------------------------------------------------------------
+// Templates
+// ---------------------------------------------------------------------------
+
+export async function listRubricTemplates(adminClient: SupabaseClient): Promise<RubricResult<{ templates: RubricTemplate[] }>> {
+  const { data, error } = await adminClient
+    .from('rubric_templates')
+    .select('*, criteria:rubric_template_criteria(*)')
+    .order('name');
+
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const templates = ((data || []) as RubricTemplate[]).map((t) => ({
+    ...t,
+    criteria: [...(t.criteria || [])]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((c) => ({ ...c, weight: Number(c.weight) })),
+  }));
+  return { ok: true, templates };
+}
+
+/** Create a template, or replace an existing one's fields and criteria. */
+export async function saveRubricTemplate(
+  adminClient: SupabaseClient,
+  input: RubricTemplateInput & { id?: string; userId: string },
+): Promise<RubricResult<{ templateId: string }>> {
+  let templateId = input.id;
+
+  if (templateId) {
+    const { data, error } = await adminClient
+      .from('rubric_templates')
+      .update({ name: input.name, description: input.description })
+      .eq('id', templateId)
+      .select('id')
+      .maybeSingle();
+    if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+    if (!data) return { ok: false, error: { stage: 'not_found', message: 'Rubric template not found' } };
+
+    const { error: deleteError } = await adminClient
+      .from('rubric_template_criteria')
+      .delete()
+      .eq('template_id', templateId);
+    if (deleteError) return { ok: false, error: { stage: 'database', message: deleteError.message } };
+  } else {
+    const { data, error } = await adminClient
+      .from('rubric_templates')
+      .insert({ name: input.name, description: input.description, created_by: input.userId })
+      .select('id')
+      .single();
+    if (error || !data) {
+      return { ok: false, error: { stage: 'database', message: error?.message || 'Failed to create template' } };
+    }
+    templateId = data.id as string;
+  }
+
+  const { error: criteriaError } = await adminClient.from('rubric_template_criteria').insert(
+    input.criteria.map((c, i) => ({
+      template_id: templateId,
+      label: c.label,
+      description: c.description,
+      weight: c.weight,
+      levels: c.levels,
+      order_index: i,
+    })),
+  );
+  if (criteriaError) return { ok: false, error: { stage: 'database', message: criteriaError.message } };
+
+  return { ok: true, templateId: templateId! };
+}
+
+// ---------------------------------------------------------------------------
+// Case study rubric
+// ---------------------------------------------------------------------------
+
+export async function getCaseStudyRubric(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+): Promise<RubricCriteria[]> {
+  const { data } = await adminClient
+    .from('case_study_rubric_criteria')
+    .select('*')
+    .eq('case_study_id', caseStudyId)
+    .order('order_index');
+
+  return ((data || []) as RubricCriteria[]).map((c) => ({
+    ...c,
+    weight: Number(c.weight),
+    levels: Array.isArray(c.levels) ? c.levels : [],
+  }));
+}
+
+/**
+ * Copy a template's criteria onto a case study, replacing its rubric. Refuses
+ * when reviews have already been graded against the current rubric unless
+ * `force` is set, since replacing criteria deletes those rubric scores.
+ */
+export async function attachRubricTemplate(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+  templateId: string,
+  options: { force?: boolean } = {},
+): Promise<RubricResult<{ criteria: RubricCriteria[] }>> {
+  const [{ data: caseStudy }, { data: template }] = await Promise.all([
+    adminClient.from('case_studies').select('id').eq('id', caseStudyId).maybeSingle(),
+    adminClient
+      .from('rubric_templates')
+      .select('id, criteria:rubric_template_criteria(*)')
+      .eq('id', templateId)
+      .maybeSingle(),
+  ]);
+
+  if (!caseStudy) return { ok: false, error: { stage: 'not_found', message: 'Case study not found' } };
+  if (!template) return { ok: false, error: { stage: 'not_found', message: 'Rubric template not found' } };
+
+  const existing = await getCaseStudyRubric(adminClient, caseStudyId);
+  if (existing.length > 0 && !options.force) {
+    const { count } = await adminClient
+      .from('case_study_rubric_scores')
+      .select('id', { count: 'exact', head: true })
+      .in('criteria_id', existing.map((c) => c.id));
+    if (count) {
+      return {
+        ok: false,
+        error: {
+          stage: 'conflict',
+          message: `${count} rubric score(s) were recorded against the current rubric and will be removed`,
+        },
+      };
+    }
+  }
+
+  if (existing.length > 0) {
+    const { error } = await adminClient.from('case_study_rubric_criteria').delete().eq('case_study_id', caseStudyId);
+    if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+  }
+
+  const templateCriteria = ((template.criteria || []) as Array<RubricCriterionInput & { order_index: number }>)
+    .sort((a, b) => a.order_index - b.order_index);
+
+  const { error: insertError } = await adminClient.from('case_study_rubric_criteria').insert(
+    templateCriteria.map((c, i) => ({
+      case_study_id: caseStudyId,
+      label: c.label,
+      description: c.description,
+      weight: c.weight,
+      levels: c.levels,
+      max_score: criterionMaxPoints(c.levels),
+      order_index: i,
+    })),
+  );
+  if (insertError) return { ok: false, error: { stage: 'database', message: insertError.message } };
+
+  await adminClient.from('case_studies').update({ rubric_template_id: templateId }).eq('id', caseStudyId);
+
+  return { ok: true, criteria: await getCaseStudyRubric(adminClient, caseStudyId) };
+}
+
+/** Remove a case study's rubric so it goes back to a single typed score. */
+export async function detachRubric(adminClient: SupabaseClient, caseStudyId: string): Promise<RubricResult<object>> {
+  const { error } = await adminClient.from('case_study_rubric_criteria').delete().eq('case_study_id', caseStudyId);
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  await adminClient.from('case_studies').update({ rubric_template_id: null }).eq('id', caseStudyId);
+  return { ok: true };
+}
+
+// ---------------------------------------------------------------------------
+// Reviews
+// ---------------------------------------------------------------------------
+
+/**
+ * Work out the score a review should store. With rubric picks the score is
+ * computed from them; a typed score is only accepted when the case study has
+ * no rubric. `score` stays undefined when the caller sent neither.
+ */
+export async function prepareReviewScore(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+  input: { score?: unknown; rubricScores?: unknown },
+): Promise<RubricResult<{ score: number | null | undefined; rows: RubricScoreRow[] | null }>> {
+  const { data: cs } = await adminClient
+    .from('case_studies')
+    .select('max_score')
+    .eq('id', caseStudyId)
+    .single();
+  const maxScore = cs?.max_score ?? 100;
+  const criteria = await getCaseStudyRubric(adminClient, caseStudyId);
+
+  if (Array.isArray(input.rubricScores) && input.rubricScores.length > 0) {
+    if (criteria.length === 0) {
+      return { ok: false, error: { stage: 'validation', message: 'This case study has no rubric' } };
+    }
+    const resolved = resolveRubricScores(criteria, input.rubricScores as RubricScoreInput[], maxScore);
+    if (!resolved.ok) return resolved;
+    return { ok: true, score: resolved.score, rows: resolved.rows };
+  }
+
+  const { score } = input;
+  if (score === undefined || score === null) {
+    return { ok: true, score: score as null | undefined, rows: null };
+  }
+  if (criteria.length > 0) {
+    return {
+      ok: false,
+      error: { stage: 'validation', message: 'This case study is graded by rubric. Grade each criterion instead.' },
+    };
+  }
+  if (typeof score !== 'number' || score < 0 || score > maxScore) {
+    return { ok: false, error: { stage: 'validation', message: `Score must be between 0 and ${maxScore}` } };
+  }
+  return { ok: true, score, rows: null };
+}
+
+/** Replace a review's rubric picks. */
+export async function saveRubricScores(
+  adminClient: SupabaseClient,
+  reviewId: string,
+  rows: RubricScoreRow[],
+): Promise<{ error: string | null }> {
+  const { error: deleteError } = await adminClient
+    .from('case_study_rubric_scores')
+    .delete()
+    .eq('review_id', reviewId);
+  if (deleteError) return { error: deleteError.message };
+
+  const { error } = await adminClient
+    .from('case_study_rubric_scores')
+    .insert(rows.map((r) => ({ ...r, review_id: reviewId })));
+  return { error: error?.message ?? null };
+}
+
+/** Rubric picks for a set of reviews, keyed by review id. */
+export async function loadRubricScoresByReview(
+  adminClient: SupabaseClient,
+  reviewIds: string[],
+): Promise<Record<string, RubricScoreRow[]>> {
+  if (reviewIds.length === 0) return {};
+  const { data } = await adminClient
+    .from('case_study_rubric_scores')
+    .select('review_id, criteria_id, score, level_label, comment')
+    .in('review_id', reviewIds);
+
+  const byReview: Record<string, RubricScoreRow[]> = {};
+  for (const r of data || []) {
+    (byReview[r.review_id] ||= []).push({
+      criteria_id: r.criteria_id,
+      score: r.score,
+      level_label: r.level_label,
+      comment: r.comment,
+    });
+  }
+  return byReview;
+}
@@ -0,0 +1,485 @@
+/**
+ * Similarity Service
+ * Local copy detection across case study submissions (migration 050).
+ *
+ * Each submission's attachments are reduced to one text (PDF and DOCX
+ * content plus link labels and URLs). Two texts are compared by finding runs
+ * of at least SHINGLE_WORDS identical words; the score is the share of both
+ * texts those runs cover. Runs found in the problem statement or in most of
+ * the case study's submissions are ignored, since every group quotes the
+ * prompt. Identical links (the same shared doc, say) are reported too.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PassageExcerpt, SimilarityMatch, SimilarityPassage } from '@/types';
+import { extractDocxText, extractPdfText, textSourceFor } from '@/lib/services/text-extraction';
+import { lineageFilter } from '@/lib/services/case-study-clone';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Shortest run of identical words that counts as a match. */
+export const SHINGLE_WORDS = 5;
+
+/** Longer texts are truncated; enough for any realistic submission. */
+export const MAX_WORDS = 50_000;
+
+/** Passages kept per pair, longest first. */
+export const MAX_PASSAGES = 10;
+
+/** A run (or link) in more than this share of submissions is boilerplate. */
+export const COMMON_SHARE = 0.5;
+
+const CONTEXT_CHARS = 80;
+const MAX_MATCH_CHARS = 600;
+
+// Candidate positions tried when a run occurs several times in the other text
+const MAX_CANDIDATES = 8;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface SimilarityDoc {
+  id: string;
+  text: string;
+  tokens: Token[];
+  /** Run of SHINGLE_WORDS words → positions where it starts */
+  shingles: Map<string, number[]>;
+  links: string[];
+}
+
+export interface DocComparison {
+  score: number;
+  passages: SimilarityPassage[];
+  sharedLinks: string[];
+}
+
+export interface SimilarPair extends DocComparison {
+  submissionId: string;
+  matchedSubmissionId: string;
+  crossCohort: boolean;
+}
+
+type SimilarityError = {
+  stage: 'validation' | 'not_found' | 'database';
+  message: string;
+};
+
+export type SimilarityResult<T> = ({ ok: true } & T) | { ok: false; error: SimilarityError };
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+/** Lower-cased words with their character offsets in the original text. */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const m of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu)) {
+    tokens.push({ word: m[0].toLowerCase().replace('’', "'"), start: m.index!, end: m.index! + m[0].length });
+    if (tokens.length >= MAX_WORDS) break;
+  }
+  return tokens;
+}
+
+function shingleAt(tokens: Token[], i: number): string {
+  let key = tokens[i].word;
+  for (let k = 1; k < SHINGLE_WORDS; k++) key += ' ' + tokens[i + k].word;
+  return key;
+}
+
+function shinglesOf(tokens: Token[]): Map<string, number[]> {
+  const shingles = new Map<string, number[]>();
+  for (let i = 0; i + SHINGLE_WORDS <= tokens.length; i++) {
+    const key = shingleAt(tokens, i);
+    const positions = shingles.get(key);
+    if (positions) positions.push(i);
+    else shingles.set(key, [i]);
+  }
+  return shingles;
+}
+
+/**
+ * Compare links by what they point at: no scheme, www, trailing slash,
+ * fragment or tracking parameters.
+ */
+export function normalizeLink(url: string): string {
+  try {
+    const trimmed = url.trim();
+    const u = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    for (const key of [...u.searchParams.keys()]) {
+      if (key.startsWith('utm_')) u.searchParams.delete(key);
+    }
+    const query = u.searchParams.toString();
+    const host = u.hostname.toLowerCase().replace(/^www\./, '');
+    return `${host}${u.pathname.replace(/\/+$/, '')}${query ? `?${query}` : ''}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+export function buildDoc(id: string, text: string, links: string[] = []): SimilarityDoc {
+  const tokens = tokenize(text);
+  return { id, text, tokens, shingles: shinglesOf(tokens), links: [...new Set(links.map(normalizeLink))] };
+}
+
+/**
+ * Runs and links to ignore: those in the problem statement, and, once there
+ * are at least three submissions, those shared by more than COMMON_SHARE of
+ * them.
+ */
+export function boilerplate(docs: SimilarityDoc[], problemText = ''): { shingles: Set<string>; links: Set<string> } {
+  const shingles = new Set(shinglesOf(tokenize(problemText)).keys());
+  const links = new Set<string>();
+  if (docs.length < 3) return { shingles, links };
+
+  const limit = docs.length * COMMON_SHARE;
+  const shingleCounts = new Map<string, number>();
+  const linkCounts = new Map<string, number>();
+  for (const doc of docs) {
+    for (const key of doc.shingles.keys()) shingleCounts.set(key, (shingleCounts.get(key) ?? 0) + 1);
+    for (const link of doc.links) linkCounts.set(link, (linkCounts.get(link) ?? 0) + 1);
+  }
+  for (const [key, count] of shingleCounts) if (count > limit) shingles.add(key);
+  for (const [link, count] of linkCounts) if (count > limit) links.add(link);
+  return { shingles, links };
+}
+
+function excerpt(doc: SimilarityDoc, from: number, length: number): PassageExcerpt {
+  const start = doc.tokens[from].start;
+  const end = doc.tokens[from + length - 1].end;
+  const match = doc.text.slice(start, end);
+  return {
+    before: doc.text.slice(Math.max(0, start - CONTEXT_CHARS), start),
+    match: match.length > MAX_MATCH_CHARS ? `${match.slice(0, MAX_MATCH_CHARS)}…` : match,
+    after: doc.text.slice(end, end + CONTEXT_CHARS),
+  };
+}
+
+/**
+ * Greedy matching: walk `a`, and wherever a run of SHINGLE_WORDS words also
+ * occurs in `b`, extend it as far as both texts agree. The score is the share
+ * of all words (in both texts) inside a matched run.
+ */
+export function compareDocs(
+  a: SimilarityDoc,
+  b: SimilarityDoc,
+  ignore: { shingles: Set<string>; links: Set<string> } = { shingles: new Set(), links: new Set() },
+): DocComparison {
+  const coveredB = new Uint8Array(b.tokens.length);
+  const runs: { i: number; j: number; length: number }[] = [];
+  let coveredA = 0;
+
+  let i = 0;
+  while (i + SHINGLE_WORDS <= a.tokens.length) {
+    const key = shingleAt(a.tokens, i);
+    const positions = ignore.shingles.has(key) ? undefined : b.shingles.get(key);
+    if (!positions) {
+      i++;
+      continue;
+    }
+
+    let best = { j: positions[0], length: SHINGLE_WORDS };
+    for (const j of positions.slice(0, MAX_CANDIDATES)) {
+      let length = SHINGLE_WORDS;
+      while (
+        i + length < a.tokens.length &&
+        j + length < b.tokens.length &&
+        a.tokens[i + length].word === b.tokens[j + length].word
+      ) {
+        length++;
+      }
+      if (length > best.length) best = { j, length };
+    }
+
+    runs.push({ i, ...best });
+    coveredA += best.length;
+    coveredB.fill(1, best.j, best.j + best.length);
+    i += best.length;
+  }
+
+  const totalWords = a.tokens.length + b.tokens.length;
+  const covered = coveredA + coveredB.reduce((sum, v) => sum + v, 0);
+
+  const passages = runs
+    .sort((x, y) => y.length - x.length)
+    .slice(0, MAX_PASSAGES)
+    .map(r => ({ a: excerpt(a, r.i, r.length), b: excerpt(b, r.j, r.length) }));
+
+  const bLinks = new Set(b.links);
+  const sharedLinks = a.links.filter(link => bLinks.has(link) && !ignore.links.has(link));
+
+  return { score: totalWords ? round4(covered / totalWords) : 0, passages, sharedLinks };
+}
+
+/**
+ * Every pair within `current`, and each of `current` against `prior`
+ * (earlier cohorts), kept when the score reaches the threshold or the two
+ * share a link.
+ */
+export function findSimilarPairs(
+  current: SimilarityDoc[],
+  prior: SimilarityDoc[],
+  threshold: number,
+  ignore: { shingles: Set<string>; links: Set<string> },
+): SimilarPair[] {
+  const pairs: SimilarPair[] = [];
+  const consider = (a: SimilarityDoc, b: SimilarityDoc, crossCohort: boolean) => {
+    const comparison = compareDocs(a, b, ignore);
+    if (comparison.score >= threshold || comparison.sharedLinks.length > 0) {
+      pairs.push({ submissionId: a.id, matchedSubmissionId: b.id, crossCohort, ...comparison });
+    }
+  };
+
+  for (let x = 0; x < current.length; x++) {
+    for (let y = x + 1; y < current.length; y++) consider(current[x], current[y], false);
+    for (const p of prior) consider(current[x], p, true);
+  }
+  return pairs.sort((x, y) => y.score - x.score);
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+async function downloadFile(adminClient: SupabaseClient, path: string): Promise<Uint8Array> {
+  const { data, error } = await adminClient.storage.from('resources').download(path);
+  if (error || !data) throw error ?? new Error('Download failed');
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * Text and links per submission. Attachments without cached text are
+ * extracted now and cached; failures are cached too, so one broken file
+ * doesn't slow every later check.
+ */
+export async function loadSubmissionTexts(
+  adminClient: SupabaseClient,
+  submissionIds: string[],
+): Promise<Map<string, { text: string; links: string[] }>> {
+  const bySubmission = new Map<string, { text: string; links: string[] }>(
+    submissionIds.map(id => [id, { text: '', links: [] }]),
+  );
+  if (submissionIds.length === 0) return bySubmission;
+
+  const [attachmentsRes, textsRes] = await Promise.all([
+    adminClient
+      .from('case_study_submission_attachments')
+      .select('id, submission_id, type, file_path, file_name, file_type, link_url, link_label')
+      .in('submission_id', submissionIds)
+      .order('created_at', { ascending: true }),
+    adminClient
+      .from('case_study_submission_texts')
+      .select('attachment_id, content')
+      .in('submission_id', submissionIds),
+  ]);
+  if (attachmentsRes.error) throw attachmentsRes.error;
+  if (textsRes.error) throw textsRes.error;
+
+  const cached = new Map((textsRes.data || []).map(t => [t.attachment_id as string, t.content as string]));
+
+  for (const att of attachmentsRes.data || []) {
+    const entry = bySubmission.get(att.submission_id)!;
+    if (att.type === 'link' && att.link_url) entry.links.push(att.link_url);
+
+    let content = cached.get(att.id);
+    if (content === undefined) {
+      const source = textSourceFor(att);
+      let error: string | null = null;
+      content = '';
+      try {
+        if (source === 'link') content = [att.link_label, att.link_url].filter(Boolean).join('\n');
+        else if (source === 'pdf' && att.file_path) content = await extractPdfText(await downloadFile(adminClient, att.file_path));
+        else if (source === 'docx' && att.file_path) content = await extractDocxText(await downloadFile(adminClient, att.file_path));
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+        console.error(`Error extracting text from attachment ${att.id}:`, err);
+      }
+
+      const { error: cacheError } = await adminClient.from('case_study_submission_texts').upsert(
+        { attachment_id: att.id, submission_id: att.submission_id, source, content, error },
+        { onConflict: 'attachment_id' },
+      );
+      if (cacheError) console.error('Error caching extracted text:', cacheError);
+    }
+
+    if (content) entry.text += (entry.text ? '\n\n' : '') + content;
+  }
+
+  return bySubmission;
+}
+
+async function loadProblemText(adminClient: SupabaseClient, problemFilePath: string | null): Promise<string> {
+  if (!problemFilePath) return '';
+  try {
+    return await extractPdfText(await downloadFile(adminClient, problemFilePath));
+  } catch (err) {
+    // Without it the prompt may show up as shared text; the check still runs
+    console.error('Error extracting problem statement text:', err);
+    return '';
+  }
+}
+
+/**
+ * Check a case study's submitted work against itself and against prior
+ * cohorts' submissions to the same case (its original or clones of it),
+ * replacing the stored pairs.
+ * Pass `threshold` to change the case study's threshold first.
+ */
+export async function runSimilarityCheck(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+  options: { threshold?: unknown } = {},
+): Promise<SimilarityResult<{ checked: number; comparedPrior: number; flagged: number; threshold: number }>> {
+  const { data: caseStudy } = await adminClient
+    .from('case_studies')
+    .select('id, cohort_id, problem_file_path, similarity_threshold, source_case_study_id')
+    .eq('id', caseStudyId)
+    .maybeSingle();
+  if (!caseStudy) return { ok: false, error: { stage: 'not_found', message: 'Case study not found' } };
+
+  let threshold = Number(caseStudy.similarity_threshold);
+  if (options.threshold !== undefined) {
+    const t = options.threshold;
+    if (typeof t !== 'number' || !(t > 0 && t <= 1)) {
+      return { ok: false, error: { stage: 'validation', message: 'threshold must be a number above 0 and at most 1' } };
+    }
+    threshold = t;
+  }
+
+  try {
+    const { data: priorCases, error: priorError } = await adminClient
+      .from('case_studies')
+      .select('id')
+      .or(lineageFilter(caseStudy))
+      .neq('cohort_id', caseStudy.cohort_id);
+    if (priorError) throw priorError;
+
+    const priorCaseIds = (priorCases || []).map(c => c.id);
+    const [currentRes, priorRes] = await Promise.all([
+      adminClient
+        .from('case_study_submissions')
+        .select('id')
+        .eq('case_study_id', caseStudyId)
+        .not('submitted_at', 'is', null),
+      priorCaseIds.length
+        ? adminClient
+            .from('case_study_submissions')
+            .select('id')
+            .in('case_study_id', priorCaseIds)
+            .not('submitted_at', 'is', null)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+    if (currentRes.error) throw currentRes.error;
+    if (priorRes.error) throw priorRes.error;
+
+    const currentIds = (currentRes.data || []).map(s => s.id as string);
+    const priorIds = (priorRes.data || []).map(s => s.id as string);
+
+    const [texts, problemText] = await Promise.all([
+      loadSubmissionTexts(adminClient, [...currentIds, ...priorIds]),
+      loadProblemText(adminClient, caseStudy.problem_file_path),
+    ]);
+    const toDoc = (id: string) => buildDoc(id, texts.get(id)!.text, texts.get(id)!.links);
+    const currentDocs = currentIds.map(toDoc);
+    const priorDocs = priorIds.map(toDoc);
+
+    const pairs = findSimilarPairs(currentDocs, priorDocs, threshold, boilerplate(currentDocs, problemText));
+    const computedAt = new Date().toISOString();
+
+    const { error: deleteError } = await adminClient
+      .from('case_study_similarity_pairs')
+      .delete()
+      .eq('case_study_id', caseStudyId);
+    if (deleteError) throw deleteError;
+
+    if (pairs.length) {
+      const { error: insertError } = await adminClient.from('case_study_similarity_pairs').insert(
+        pairs.map(p => ({
+          case_study_id: caseStudyId,
+          submission_id: p.submissionId,
+          matched_submission_id: p.matchedSubmissionId,
+          cross_cohort: p.crossCohort,
+          score: p.score,
+          shared_links: p.sharedLinks,
+          passages: p.passages,
+          computed_at: computedAt,
+        })),
+      );
+      if (insertError) throw insertError;
+    }
+
+    const { error: updateError } = await adminClient
+      .from('case_studies')
+      .update({ similarity_threshold: threshold, similarity_checked_at: computedAt })
+      .eq('id', caseStudyId);
+    if (updateError) throw updateError;
+
+    return { ok: true, checked: currentIds.length, comparedPrior: priorIds.length, flagged: pairs.length, threshold };
+  } catch (error) {
+    return { ok: false, error: { stage: 'database', message: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+/**
+ * A case study's flagged pairs keyed by submission, each seen from that
+ * submission's side (its passages first). Cross-cohort pairs only appear
+ * under the current cohort's submission.
+ */
+export async function loadSimilarityBySubmission(
+  adminClient: SupabaseClient,
+  caseStudyId: string,
+): Promise<Record<string, SimilarityMatch[]>> {
+  const { data } = await adminClient
+    .from('case_study_similarity_pairs')
+    .select(
+      '*, submission:case_study_submissions!case_study_similarity_pairs_submission_id_fkey(subgroup:subgroups(name)), matched:case_study_submissions!case_study_similarity_pairs_matched_submission_id_fkey(subgroup:subgroups(name, cohort:cohorts(name)))',
+    )
+    .eq('case_study_id', caseStudyId)
+    .order('score', { ascending: false });
+
+  const bySubmission: Record<string, SimilarityMatch[]> = {};
+  for (const row of data || []) {
+    const { submission, matched, ...pair } = row as Record<string, unknown> & {
+      submission: { subgroup: { name: string } | null } | null;
+      matched: { subgroup: { name: string; cohort: { name: string } | null } | null } | null;
+    };
+    const score = Number(pair.score);
+    const passages = (pair.passages ?? []) as SimilarityPassage[];
+    const shared = {
+      pair_id: pair.id as string,
+      cross_cohort: pair.cross_cohort as boolean,
+      score,
+      shared_links: (pair.shared_links ?? []) as string[],
+    };
+
+    (bySubmission[pair.submission_id as string] ||= []).push({
+      ...shared,
+      matched_submission_id: pair.matched_submission_id as string,
+      matched_subgroup_name: matched?.subgroup?.name ?? null,
+      matched_cohort_name: shared.cross_cohort ? matched?.subgroup?.cohort?.name ?? null : null,
+      passages,
+    });
+    if (!shared.cross_cohort) {
+      (bySubmission[pair.matched_submission_id as string] ||= []).push({
+        ...shared,
+        matched_submission_id: pair.submission_id as string,
+        matched_subgroup_name: submission?.subgroup?.name ?? null,
+        matched_cohort_name: null,
+        passages: passages.map(p => ({ a: p.b, b: p.a })),
+      });
+    }
+  }
+  return bySubmission;
+}
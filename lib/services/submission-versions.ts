@@ -0,0 +1,258 @@
+/**
+ * Submission Versions Service
+ * Immutable snapshots of a subgroup's attachment set, one per submit (migration 045).
+ *
+ * The attachments table is the editable working copy; a version freezes what
+ * was handed in, who handed it in and whether that hand-in was late. Diffs
+ * between consecutive versions are derived here rather than stored.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AttachmentSnapshot, CaseStudy, CaseStudySubmission, SubmissionAttachment, SubmissionVersion } from '@/types';
+import { isLate, minutesLate, type DeadlineSubject } from './case-study-deadline';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AttachmentChange = {
+  kind: 'added' | 'removed' | 'changed';
+  type: 'file' | 'link';
+  /** File name, or the link's label/URL */
+  label: string;
+  before: AttachmentSnapshot | null;
+  after: AttachmentSnapshot | null;
+  /** Who uploaded the new attachment; null for removals */
+  changed_by: string | null;
+  changed_by_name?: string | null;
+};
+
+export type SubmissionVersionWithChanges = SubmissionVersion & {
+  /** Changes relative to the previous version (everything is "added" in v1) */
+  changes: AttachmentChange[];
+};
+
+type VersionError = {
+  stage: 'not_found' | 'database';
+  message: string;
+};
+
+export type VersionResult<T> = ({ ok: true } & T) | { ok: false; error: VersionError };
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+export function toSnapshot(
+  a: Pick<
+    SubmissionAttachment,
+    'id' | 'type' | 'file_path' | 'file_name' | 'file_size' | 'file_type' | 'file_hash' | 'link_url' | 'link_label' | 'uploaded_by'
+  >,
+): AttachmentSnapshot {
+  return {
+    attachment_id: a.id,
+    type: a.type,
+    file_path: a.file_path,
+    file_name: a.file_name,
+    file_size: a.file_size,
+    file_type: a.file_type,
+    file_hash: a.file_hash ?? null,
+    link_url: a.link_url,
+    link_label: a.link_label,
+    uploaded_by: a.uploaded_by,
+  };
+}
+
+function snapshotLabel(a: AttachmentSnapshot): string {
+  return (a.type === 'file' ? a.file_name : a.link_label || a.link_url) ?? '';
+}
+
+/** Files are matched by name, links by URL. */
+function matchKey(a: AttachmentSnapshot): string {
+  return a.type === 'file' ? `file:${(a.file_name ?? '').toLowerCase()}` : `link:${a.link_url ?? ''}`;
+}
+
+/**
+ * Same content: compare hashes when both sides have one. Without them a
+ * matching size proves nothing, so only the same stored object counts.
+ */
+function sameContent(before: AttachmentSnapshot, after: AttachmentSnapshot): boolean {
+  if (before.type === 'link') return (before.link_label ?? '') === (after.link_label ?? '');
+  if (before.file_hash && after.file_hash) return before.file_hash === after.file_hash;
+  return before.file_path === after.file_path && before.file_size === after.file_size;
+}
+
+/**
+ * What changed between two attachment sets. The same attachment row is
+ * always unchanged; otherwise a file re-uploaded under the same name (or a
+ * link re-added with the same URL) is "changed" when its content differs and
+ * ignored when it does not.
+ */
+export function diffAttachmentSets(previous: AttachmentSnapshot[], current: AttachmentSnapshot[]): AttachmentChange[] {
+  const currentIds = new Set(current.map((a) => a.attachment_id));
+  const previousIds = new Set(previous.map((a) => a.attachment_id));
+
+  const removedByKey = new Map<string, AttachmentSnapshot>();
+  for (const a of previous) {
+    if (!currentIds.has(a.attachment_id)) removedByKey.set(matchKey(a), a);
+  }
+
+  const changes: AttachmentChange[] = [];
+  for (const a of current) {
+    if (previousIds.has(a.attachment_id)) continue;
+
+    const before = removedByKey.get(matchKey(a));
+    if (before) {
+      removedByKey.delete(matchKey(a));
+      if (sameContent(before, a)) continue;
+      changes.push({ kind: 'changed', type: a.type, label: snapshotLabel(a), before, after: a, changed_by: a.uploaded_by });
+    } else {
+      changes.push({ kind: 'added', type: a.type, label: snapshotLabel(a), before: null, after: a, changed_by: a.uploaded_by });
+    }
+  }
+
+  for (const a of removedByKey.values()) {
+    changes.push({ kind: 'removed', type: a.type, label: snapshotLabel(a), before: a, after: null, changed_by: null });
+  }
+
+  return changes;
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+async function loadVersions(adminClient: SupabaseClient, submissionId: string): Promise<SubmissionVersion[]> {
+  const { data } = await adminClient
+    .from('case_study_submission_versions')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .order('version_number', { ascending: true });
+
+  return ((data || []) as SubmissionVersion[]).map((v) => ({
+    ...v,
+    attachments: Array.isArray(v.attachments) ? v.attachments : [],
+  }));
+}
+
+/**
+ * Snapshot the submission's current attachments as a new version. Lateness
+ * (and how late) is judged at `now` against the submission's effective
+ * deadline. Nothing is written when there are no attachments yet or nothing
+ * changed since the latest version; `version` is then the latest one (or null).
+ */
+export async function createSubmissionVersion(
+  adminClient: SupabaseClient,
+  input: {
+    submission: Pick<CaseStudySubmission, 'id'> & DeadlineSubject;
+    caseStudy: Pick<CaseStudy, 'due_date' | 'grace_period_minutes'>;
+    userId: string;
+    now?: Date;
+  },
+): Promise<VersionResult<{ version: SubmissionVersion | null; created: boolean }>> {
+  const now = input.now ?? new Date();
+
+  const { data: rows, error } = await adminClient
+    .from('case_study_submission_attachments')
+    .select('*')
+    .eq('submission_id', input.submission.id)
+    .order('created_at', { ascending: true });
+  if (error) return { ok: false, error: { stage: 'database', message: error.message } };
+
+  const versions = await loadVersions(adminClient, input.submission.id);
+  const latest = versions[versions.length - 1] ?? null;
+
+  const snapshot = ((rows || []) as SubmissionAttachment[]).map(toSnapshot);
+  const unchanged =
+    latest !== null &&
+    latest.attachments.length === snapshot.length &&
+    diffAttachmentSets(latest.attachments, snapshot).length === 0;
+
+  if (snapshot.length === 0 || unchanged) {
+    return { ok: true, version: latest, created: false };
+  }
+
+  const { data: version, error: insertError } = await adminClient
+    .from('case_study_submission_versions')
+    .insert({
+      submission_id: input.submission.id,
+      version_number: (latest?.version_number ?? 0) + 1,
+      submitted_by: input.userId,
+      submitted_at: now.toISOString(),
+      is_late: isLate(input.submission, input.caseStudy, now),
+      late_minutes: minutesLate(input.submission, input.caseStudy, now),
+      attachments: snapshot,
+    })
+    .select('*')
+    .single();
+
+  if (insertError || !version) {
+    return { ok: false, error: { stage: 'database', message: insertError?.message || 'Failed to save version' } };
+  }
+  return { ok: true, version: version as SubmissionVersion, created: true };
+}
+
+/** Version timeline, newest first, each with its diff and people's names. */
+export async function listSubmissionVersions(
+  adminClient: SupabaseClient,
+  submissionId: string,
+): Promise<SubmissionVersionWithChanges[]> {
+  const versions = await loadVersions(adminClient, submissionId);
+  if (versions.length === 0) return [];
+
+  const withChanges = versions.map((v, i) => ({
+    ...v,
+    changes: diffAttachmentSets(i > 0 ? versions[i - 1].attachments : [], v.attachments),
+  }));
+
+  const userIds = new Set<string>();
+  for (const v of withChanges) {
+    if (v.submitted_by) userIds.add(v.submitted_by);
+    for (const c of v.changes) if (c.changed_by) userIds.add(c.changed_by);
+  }
+
+  const names: Record<string, string> = {};
+  if (userIds.size > 0) {
+    const { data: profiles } = await adminClient
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', [...userIds]);
+    for (const p of profiles || []) names[p.id] = p.full_name;
+  }
+
+  return withChanges
+    .map((v) => ({
+      ...v,
+      submitted_by_name: v.submitted_by ? names[v.submitted_by] ?? null : null,
+      changes: v.changes.map((c) => ({ ...c, changed_by_name: c.changed_by ? names[c.changed_by] ?? null : null })),
+    }))
+    .reverse();
+}
+
+/** Id of the most recent version, which is what a reviewer grading now sees. */
+export async function getLatestVersionId(adminClient: SupabaseClient, submissionId: string): Promise<string | null> {
+  const { data } = await adminClient
+    .from('case_study_submission_versions')
+    .select('id')
+    .eq('submission_id', submissionId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.id ?? null;
+}
+
+/** Whether a stored file belongs to any snapshot, so it must stay in storage. */
+export async function isFileInVersionHistory(
+  adminClient: SupabaseClient,
+  submissionId: string,
+  filePath: string,
+): Promise<boolean> {
+  const { count } = await adminClient
+    .from('case_study_submission_versions')
+    .select('id', { count: 'exact', head: true })
+    .eq('submission_id', submissionId)
+    .contains('attachments', [{ file_path: filePath }]);
+
+  return !!count;
+}
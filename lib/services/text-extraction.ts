@@ -0,0 +1,49 @@
+/**
+ * Text Extraction
+ * Plain text from uploaded PDF and DOCX files, done in-process with
+ * pdfjs-dist and mammoth (no external service). Server-only.
+ */
+
+export type TextSource = 'pdf' | 'docx' | 'link' | 'unsupported';
+
+/** Which extractor applies to an attachment. */
+export function textSourceFor(attachment: {
+  type: string;
+  file_name: string | null;
+  file_type: string | null;
+}): TextSource {
+  if (attachment.type === 'link') return 'link';
+  const name = attachment.file_name?.toLowerCase() ?? '';
+  if (attachment.file_type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (
+    attachment.file_type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
+    name.endsWith('.docx')
+  ) {
+    return 'docx';
+  }
+  return 'unsupported';
+}
+
+/** Text of every page, pages separated by blank lines. */
+export async function extractPdfText(data: Uint8Array): Promise<string> {
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const doc = await getDocument({ data, isEvalSupported: false, useSystemFonts: true }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let p = 1; p <= doc.numPages; p++) {
+      const page = await doc.getPage(p);
+      const content = await page.getTextContent();
+      pages.push(content.items.map(item => ('str' in item ? item.str : '')).join(' '));
+    }
+    return pages.join('\n\n');
+  } finally {
+    await doc.destroy();
+  }
+}
+
+export async function extractDocxText(data: Uint8Array): Promise<string> {
+  const mammoth = (await import('mammoth')).default;
+  const { value } = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+  return value;
+}
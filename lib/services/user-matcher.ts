@@ -1,6 +1,7 @@
 /**
  * User Matcher
- * Resolves Zoom participant emails to user IDs via profile lookup and email aliases.
+ * Resolves Zoom participant emails to user IDs via profile lookup and email aliases,
+ * and email-less participants via admin-confirmed display-name aliases.
  * Extracted to break circular dependency between attendance.ts and attendance-calculator.ts.
  */
 
@@ -34,3 +35,33 @@ export async function matchParticipantToUser(email: string): Promise<string | nu
 
   return alias?.user_id || null;
 }
+
+/**
+ * Normalize a Zoom display name for alias storage and comparison:
+ * lowercase, trimmed, inner whitespace collapsed.
+ */
+export function normalizeDisplayName(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Match an email-less Zoom participant to a user via user_name_aliases.
+ * Only exact (normalized) display-name links confirmed by an admin for one of
+ * the session's cohorts count; a name linked to different people across
+ * those cohorts is ambiguous and stays unmatched.
+ */
+export async function matchParticipantByName(displayName: string, cohortIds: string[]): Promise<string | null> {
+  const normalized = normalizeDisplayName(displayName || '');
+  if (!normalized || cohortIds.length === 0) return null;
+
+  const supabase = await createAdminClient();
+
+  const { data: aliases } = await supabase
+    .from('user_name_aliases')
+    .select('user_id')
+    .eq('display_name', normalized)
+    .in('cohort_id', cohortIds);
+
+  const userIds = new Set((aliases || []).map((a) => a.user_id as string));
+  return userIds.size === 1 ? [...userIds][0] : null;
+}
@@ -0,0 +1,139 @@
+/**
+ * Zoom Webhook Event Store
+ * Append-only persistence of raw Zoom webhook deliveries (migration 033).
+ *
+ * Every delivery is stored verbatim with its signature-verification result,
+ * keyed by meeting UUID. The replay engine (attendance-replay.ts) rebuilds
+ * attendance from verified rows only; unverified rows are kept for audit.
+ */
+
+import crypto from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+import type { ZoomWebhookEventRecord } from '@/types';
+
+export interface RawZoomWebhookEvent {
+  event?: string;
+  event_ts?: number;
+  payload?: {
+    object?: {
+      id?: string | number;
+      uuid?: string;
+      participant?: {
+        id?: string;
+        user_id?: string;
+        participant_uuid?: string;
+        user_name?: string;
+        email?: string;
+        join_time?: string;
+        leave_time?: string;
+      };
+    };
+  };
+}
+
+export type ZoomWebhookEventInsert = Omit<ZoomWebhookEventRecord, 'id' | 'received_at'>;
+
+/**
+ * Stable key used to pair a participant's join and leave events.
+ * Prefers Zoom's per-participant identifiers, then email, then display name.
+ */
+export function participantKeyFor(
+  participant: NonNullable<NonNullable<RawZoomWebhookEvent['payload']>['object']>['participant']
+): string | null {
+  if (!participant) return null;
+  const key =
+    participant.participant_uuid ||
+    participant.user_id ||
+    participant.id ||
+    participant.email?.toLowerCase().trim() ||
+    participant.user_name;
+  return key ? String(key) : null;
+}
+
+/**
+ * Build the row stored for a webhook delivery. Pure — exported for tests.
+ */
+export function buildWebhookEventRow(
+  rawBody: string,
+  event: RawZoomWebhookEvent,
+  signatureVerified: boolean,
+  sessionId: string | null
+): ZoomWebhookEventInsert {
+  const object = event.payload?.object;
+  const participant = object?.participant;
+
+  return {
+    event_type: event.event || 'unknown',
+    meeting_id: object?.id !== undefined && object?.id !== null ? String(object.id) : null,
+    meeting_uuid: object?.uuid || null,
+    session_id: sessionId,
+    participant_key: participantKeyFor(participant),
+    participant_email: participant?.email ? participant.email.toLowerCase().trim() : null,
+    participant_name: participant?.user_name || null,
+    event_ts: typeof event.event_ts === 'number' ? new Date(event.event_ts).toISOString() : null,
+    payload: event as Record<string, unknown>,
+    payload_hash: crypto.createHash('sha256').update(rawBody).digest('hex'),
+    signature_verified: signatureVerified,
+  };
+}
+
+/**
+ * Append a webhook delivery to the event store.
+ * Redeliveries (same raw body) are ignored via the payload_hash unique constraint.
+ * Never throws — a storage failure must not stop live attendance processing.
+ */
+export async function storeWebhookEvent(
+  rawBody: string,
+  event: RawZoomWebhookEvent,
+  signatureVerified: boolean,
+  sessionId: string | null
+): Promise<void> {
+  try {
+    const supabase = await createAdminClient();
+    const row = buildWebhookEventRow(rawBody, event, signatureVerified, sessionId);
+
+    const { error } = await supabase
+      .from('zoom_webhook_events')
+      .upsert(row, { onConflict: 'payload_hash', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('[Zoom Webhook Events] Failed to store event:', error.message);
+    }
+  } catch (error) {
+    console.error('[Zoom Webhook Events] Failed to store event:', error);
+  }
+}
+
+/**
+ * List stored events for a session, oldest first.
+ * When meetingUuid is given, events are selected by meeting instance instead of
+ * session link (covers deliveries received before the meeting was linked).
+ */
+export async function listWebhookEvents(
+  options: { sessionId?: string; meetingUuid?: string; verifiedOnly?: boolean }
+): Promise<ZoomWebhookEventRecord[]> {
+  const supabase = await createAdminClient();
+
+  let query = supabase
+    .from('zoom_webhook_events')
+    .select('*')
+    .order('event_ts', { ascending: true, nullsFirst: false })
+    .order('received_at', { ascending: true });
+
+  if (options.meetingUuid) {
+    query = query.eq('meeting_uuid', options.meetingUuid);
+  } else if (options.sessionId) {
+    query = query.eq('session_id', options.sessionId);
+  } else {
+    throw new Error('sessionId or meetingUuid is required');
+  }
+
+  if (options.verifiedOnly) {
+    query = query.eq('signature_verified', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as ZoomWebhookEventRecord[];
+}
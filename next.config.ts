@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Submission text extraction loads pdfjs's worker from node_modules at runtime
+  serverExternalPackages: ['pdfjs-dist'],
   experimental: {
     serverActions: {
       bodySizeLimit: '20mb',
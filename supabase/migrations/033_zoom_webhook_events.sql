@@ -0,0 +1,73 @@
+-- Migration 033: Zoom webhook event store
+-- =============================================================================
+-- Append-only log of every Zoom webhook delivery received by
+-- /api/attendance/webhook, keyed by meeting UUID. The raw payload is kept
+-- verbatim alongside the signature-verification result so that:
+--   - attendance + attendance_segments can be rebuilt for a session from the
+--     stored events alone (see lib/services/attendance-replay.ts), without
+--     calling the Zoom past-participants API;
+--   - attendance disputes can be audited against what Zoom actually sent.
+--
+-- Rows are never updated or deleted. The only permitted mutation is linking a
+-- row to a session after the fact (session_id), which also covers the
+-- ON DELETE SET NULL path when a session is removed.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS zoom_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type TEXT NOT NULL,
+  meeting_id TEXT,
+  meeting_uuid TEXT,
+  session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+  participant_key TEXT,
+  participant_email TEXT,
+  participant_name TEXT,
+  event_ts TIMESTAMPTZ,
+  payload JSONB NOT NULL,
+  payload_hash TEXT NOT NULL,
+  signature_verified BOOLEAN NOT NULL DEFAULT false,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (payload_hash)
+);
+
+COMMENT ON COLUMN zoom_webhook_events.payload_hash IS 'sha256 of the raw request body. Zoom retries deliveries; the unique constraint makes redelivery a no-op.';
+COMMENT ON COLUMN zoom_webhook_events.participant_key IS 'Stable per-participant key used to pair join/leave events: Zoom participant id, then email, then display name.';
+
+CREATE INDEX IF NOT EXISTS idx_zoom_webhook_events_meeting_uuid
+  ON zoom_webhook_events(meeting_uuid);
+CREATE INDEX IF NOT EXISTS idx_zoom_webhook_events_meeting_id
+  ON zoom_webhook_events(meeting_id);
+CREATE INDEX IF NOT EXISTS idx_zoom_webhook_events_session
+  ON zoom_webhook_events(session_id, event_ts);
+
+-- -----------------------------------------------------------------------------
+-- Append-only guard
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION prevent_zoom_webhook_event_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'zoom_webhook_events is append-only';
+  END IF;
+
+  IF (to_jsonb(NEW) - 'session_id') IS DISTINCT FROM (to_jsonb(OLD) - 'session_id') THEN
+    RAISE EXCEPTION 'zoom_webhook_events is append-only (only session_id may be linked)';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS zoom_webhook_events_append_only ON zoom_webhook_events;
+CREATE TRIGGER zoom_webhook_events_append_only
+  BEFORE UPDATE OR DELETE ON zoom_webhook_events
+  FOR EACH ROW EXECUTE FUNCTION prevent_zoom_webhook_event_mutation();
+
+-- -----------------------------------------------------------------------------
+-- Row Level Security
+-- -----------------------------------------------------------------------------
+-- No policies: the webhook route and admin replay route both use the
+-- service-role client. Without a policy PostgREST denies anon/authenticated.
+
+ALTER TABLE zoom_webhook_events ENABLE ROW LEVEL SECURITY;
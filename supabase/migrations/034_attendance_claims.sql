@@ -0,0 +1,109 @@
+-- Migration 034: Attendance dispute workflow
+-- =============================================================================
+-- Students file an attendance claim against a specific session with evidence
+-- (alternate email, join screenshots). Admins adjudicate from a review queue.
+--
+-- Approving a claim resolves it one of two ways, then reruns the calculator:
+--   - 'alias'          → inserts a user_email_aliases row for the alternate email
+--   - 'manual_segment' → inserts an attendance_segment_overrides row, which the
+--                        calculator merges into the user's Zoom segments on every
+--                        (re)calculation so the fix survives recalculate-all
+--
+-- Every state change is written to attendance_claim_events (append-only audit).
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. attendance_claims
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS attendance_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL
+    CHECK (reason IN ('unaliased_email', 'dropped_connection', 'cliff_misapplied', 'other')),
+  description TEXT,
+  alternate_email TEXT,
+  claimed_join_time TIMESTAMPTZ,
+  claimed_leave_time TIMESTAMPTZ,
+  evidence_paths TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'withdrawn')),
+  resolution TEXT CHECK (resolution IS NULL OR resolution IN ('alias', 'manual_segment')),
+  resolution_note TEXT,
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_claims_status
+  ON attendance_claims(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_attendance_claims_user
+  ON attendance_claims(user_id);
+CREATE INDEX IF NOT EXISTS idx_attendance_claims_session
+  ON attendance_claims(session_id);
+
+-- One open claim per student per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_claims_one_pending
+  ON attendance_claims(session_id, user_id)
+  WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS update_attendance_claims_updated_at ON attendance_claims;
+CREATE TRIGGER update_attendance_claims_updated_at
+  BEFORE UPDATE ON attendance_claims
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- -----------------------------------------------------------------------------
+-- 2. attendance_segment_overrides
+-- -----------------------------------------------------------------------------
+-- Admin-granted presence that Zoom did not record. Merged into the user's
+-- segments by persistSessionAttendance() before percentage calculation.
+
+CREATE TABLE IF NOT EXISTS attendance_segment_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  join_time TIMESTAMPTZ NOT NULL,
+  leave_time TIMESTAMPTZ NOT NULL,
+  claim_id UUID REFERENCES attendance_claims(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (leave_time > join_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_segment_overrides_session
+  ON attendance_segment_overrides(session_id);
+
+-- -----------------------------------------------------------------------------
+-- 3. attendance_claim_events (audit trail)
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS attendance_claim_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  claim_id UUID NOT NULL REFERENCES attendance_claims(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  action TEXT NOT NULL
+    CHECK (action IN ('submitted', 'withdrawn', 'approved', 'rejected', 'alias_created', 'segment_override_created', 'recalculated', 'recalculation_failed')),
+  details JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_claim_events_claim
+  ON attendance_claim_events(claim_id, created_at);
+
+-- -----------------------------------------------------------------------------
+-- 4. Row Level Security
+-- -----------------------------------------------------------------------------
+-- All reads/writes go through API routes on the service-role client. Students
+-- may read their own claims directly; everything else is denied by default.
+
+ALTER TABLE attendance_claims ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Students can read own attendance claims" ON attendance_claims;
+CREATE POLICY "Students can read own attendance claims"
+  ON attendance_claims FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE attendance_segment_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attendance_claim_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,30 @@
+-- Migration 035: Display-name aliases for email-less Zoom participants
+-- =============================================================================
+-- Guests who join Zoom without signing in have no email, so the calculator
+-- stores them as unmatched rows keyed by display name. user_email_aliases
+-- cannot help them. When an admin confirms a suggestion for such a
+-- participant, the normalized display name is linked here and
+-- resolveUserIds consults it for email-less groups.
+--
+-- Aliases are scoped to a cohort: "John" in one cohort says nothing about
+-- "John" in another, so a link only applies to sessions of the cohorts it
+-- was confirmed for (the cohorts of the sessions the guest was unmatched in).
+--
+-- display_name is stored lowercased with collapsed whitespace (see
+-- normalizeDisplayName in lib/services/user-matcher.ts).
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS user_name_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  cohort_id UUID NOT NULL REFERENCES cohorts(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (cohort_id, display_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_name_aliases_user ON user_name_aliases(user_id);
+
+-- Service role only (admin API routes use createAdminClient)
+ALTER TABLE user_name_aliases ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,42 @@
+-- Migration 036: Per-cohort cliff detection tuning
+-- =============================================================================
+-- detectFormalEnd used to hard-code a 10-minute window, a 50% halfway cutoff
+-- and a 2-minute stayer threshold. Those now live here, along with the
+-- strategy to run ('sliding_window' | 'change_point' | 'host_left').
+--
+-- Resolution for a session: the config of its cohort (legacy sessions.cohort_id
+-- first, then session_cohorts), else the global row (cohort_id IS NULL), else
+-- DEFAULT_CLIFF_CONFIG in lib/services/cliff-detector.ts.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS cliff_detection_configs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cohort_id UUID UNIQUE REFERENCES cohorts(id) ON DELETE CASCADE,
+  strategy TEXT NOT NULL DEFAULT 'sliding_window'
+    CHECK (strategy IN ('sliding_window', 'change_point', 'host_left')),
+  window_size_minutes INTEGER NOT NULL DEFAULT 10
+    CHECK (window_size_minutes BETWEEN 1 AND 60),
+  min_start_fraction NUMERIC(3,2) NOT NULL DEFAULT 0.50
+    CHECK (min_start_fraction >= 0 AND min_start_fraction < 1),
+  stayer_threshold_minutes INTEGER NOT NULL DEFAULT 2
+    CHECK (stayer_threshold_minutes BETWEEN 0 AND 30),
+  min_spike_ratio NUMERIC(4,2) NOT NULL DEFAULT 2.50
+    CHECK (min_spike_ratio > 0 AND min_spike_ratio <= 20),
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- At most one global (cohort-less) row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cliff_detection_configs_global
+  ON cliff_detection_configs ((cohort_id IS NULL))
+  WHERE cohort_id IS NULL;
+
+DROP TRIGGER IF EXISTS update_cliff_detection_configs_updated_at ON cliff_detection_configs;
+CREATE TRIGGER update_cliff_detection_configs_updated_at
+  BEFORE UPDATE ON cliff_detection_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Service role only (admin API routes use createAdminClient)
+ALTER TABLE cliff_detection_configs ENABLE ROW LEVEL SECURITY;
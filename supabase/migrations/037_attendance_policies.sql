@@ -0,0 +1,69 @@
+-- Migration 037: Cohort attendance policies and eligibility inputs
+-- =============================================================================
+-- Defines what "present" means for a cohort and when a student stops being
+-- eligible (e.g. for a completion certificate). Evaluated in app code by
+-- lib/services/attendance-policy.ts against attendance.attendance_percentage.
+--
+--   - min_session_percentage   : adjusted percentage needed to count as present
+--   - late_join_grace_minutes  : minutes of a late join credited back
+--   - max_missed_sessions      : absences allowed before becoming ineligible
+--   - excused_absences_allowed : whether excusals are honoured at all
+--   - gate_certificates        : block certificate upload for ineligible students
+--
+-- attendance_excusals lists sessions a student is excused from. Excused
+-- sessions are removed from the student's denominator and never count as
+-- missed.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. attendance_policies (one per cohort)
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS attendance_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cohort_id UUID NOT NULL UNIQUE REFERENCES cohorts(id) ON DELETE CASCADE,
+  min_session_percentage NUMERIC(5,2) NOT NULL DEFAULT 75
+    CHECK (min_session_percentage >= 0 AND min_session_percentage <= 100),
+  late_join_grace_minutes INTEGER NOT NULL DEFAULT 10
+    CHECK (late_join_grace_minutes >= 0 AND late_join_grace_minutes <= 60),
+  max_missed_sessions INTEGER NOT NULL DEFAULT 3
+    CHECK (max_missed_sessions >= 0),
+  excused_absences_allowed BOOLEAN NOT NULL DEFAULT true,
+  gate_certificates BOOLEAN NOT NULL DEFAULT false,
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_attendance_policies_updated_at ON attendance_policies;
+CREATE TRIGGER update_attendance_policies_updated_at
+  BEFORE UPDATE ON attendance_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE attendance_policies ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------------------------------------------
+-- 2. attendance_excusals (session × student)
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS attendance_excusals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason TEXT,
+  granted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(session_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_excusals_user ON attendance_excusals(user_id);
+
+ALTER TABLE attendance_excusals ENABLE ROW LEVEL SECURITY;
+
+-- Students can see their own excusals
+DROP POLICY IF EXISTS "Users can view own attendance excusals" ON attendance_excusals;
+CREATE POLICY "Users can view own attendance excusals"
+  ON attendance_excusals FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,63 @@
+-- Migration 038: Excused absence requests
+-- =============================================================================
+-- Students request an excused absence for a session (before it happens, from
+-- the RSVP "Can't make it" flow, or afterwards from their attendance page),
+-- picking a reason category and optionally attaching a document.
+--
+-- Mentors of the student's subgroup and admins approve or reject requests.
+-- Approval writes an attendance_excusals row (migration 037) linked back to
+-- the request, which removes the session from the student's attendance
+-- denominator. Rejecting or withdrawing leaves no excusal behind.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. attendance_excuse_requests
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS attendance_excuse_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason_category TEXT NOT NULL
+    CHECK (reason_category IN ('illness', 'family_emergency', 'work_conflict', 'technical_issue', 'other')),
+  details TEXT,
+  attachment_path TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'withdrawn')),
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One open (pending or approved) request per student per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_excuse_requests_open
+  ON attendance_excuse_requests(session_id, user_id)
+  WHERE status IN ('pending', 'approved');
+
+CREATE INDEX IF NOT EXISTS idx_attendance_excuse_requests_status
+  ON attendance_excuse_requests(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_attendance_excuse_requests_user
+  ON attendance_excuse_requests(user_id);
+
+DROP TRIGGER IF EXISTS update_attendance_excuse_requests_updated_at ON attendance_excuse_requests;
+CREATE TRIGGER update_attendance_excuse_requests_updated_at
+  BEFORE UPDATE ON attendance_excuse_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE attendance_excuse_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can read own excuse requests" ON attendance_excuse_requests;
+CREATE POLICY "Students can read own excuse requests"
+  ON attendance_excuse_requests FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- -----------------------------------------------------------------------------
+-- 2. Link excusals back to the request that granted them
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE attendance_excusals
+  ADD COLUMN IF NOT EXISTS request_id UUID REFERENCES attendance_excuse_requests(id) ON DELETE CASCADE;
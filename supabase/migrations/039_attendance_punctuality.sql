@@ -0,0 +1,19 @@
+-- Migration 039: Per-session punctuality facts on attendance
+-- =============================================================================
+-- Derived from the merged attendance segments when attendance is calculated
+-- (lib/services/attendance-calculator.ts), relative to the session's
+-- scheduled_at and its effective end (scheduled_at + resolved duration, which
+-- honours formal_end_minutes and applied cliffs).
+--
+--   - minutes_late        : first join after scheduled_at, 0 if on time
+--   - minutes_left_early  : last leave before the effective end, 0 if stayed
+--   - reconnect_count     : gaps between merged segments (drop-outs + rejoins)
+--
+-- Rows written before this migration keep NULL late/early values until the
+-- session is recalculated; aggregations skip them.
+-- =============================================================================
+
+ALTER TABLE attendance
+  ADD COLUMN IF NOT EXISTS minutes_late INTEGER CHECK (minutes_late >= 0),
+  ADD COLUMN IF NOT EXISTS minutes_left_early INTEGER CHECK (minutes_left_early >= 0),
+  ADD COLUMN IF NOT EXISTS reconnect_count INTEGER NOT NULL DEFAULT 0 CHECK (reconnect_count >= 0);
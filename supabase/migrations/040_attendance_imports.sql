@@ -0,0 +1,31 @@
+-- Migration 040: Offline attendance imports
+-- =============================================================================
+-- Sessions held on Google Meet, another Zoom account, or in person have no
+-- Zoom API data or webhook events to recalculate from. Uploaded attendance
+-- files are normalized into Zoom past-participant rows
+-- (lib/services/attendance-import.ts) and kept here, so a later recalculation
+-- (new alias, approved claim) replays the same rows through the calculator.
+--
+--   - source          : zoom_csv | google_meet_csv | roster_csv
+--   - participants    : normalized rows ({ id, name, user_email, join_time,
+--                       leave_time, duration }) fed to persistSessionAttendance
+--   - duration_minutes: denominator used when the import was applied
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS attendance_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('zoom_csv', 'google_meet_csv', 'roster_csv')),
+  file_name TEXT,
+  participants JSONB NOT NULL DEFAULT '[]'::jsonb,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+  imported_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_imports_session
+  ON attendance_imports(session_id, created_at DESC);
+
+-- Service role only (admin API routes use createAdminClient)
+ALTER TABLE attendance_imports ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,87 @@
+-- Migration 041: At-risk early warning
+-- =============================================================================
+-- A scheduled evaluator (lib/services/at-risk.ts, /api/cron/evaluate-at-risk)
+-- checks each active cohort's students against per-cohort thresholds and keeps
+-- one open flag per student while any threshold is crossed. Subgroup mentors
+-- see the flags on their Subgroups page and receive a digest of new flags via
+-- notification_jobs.
+--
+-- Signals:
+--   - consecutive_absences       : most recent counted sessions missed in a row
+--                                  (excused sessions are skipped, not absences)
+--   - attendance_window_sessions / min_attendance_percentage
+--                                : mean attendance over the last N sessions
+--   - inactive_days              : days since the last login_events row
+--   - min_video_completion       : % of the cohort's videos completed
+--   - missed_case_studies        : past-due case studies the student's
+--                                  subgroup never submitted
+-- A NULL threshold disables that signal.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. at_risk_thresholds (one per cohort; defaults apply when absent)
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS at_risk_thresholds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cohort_id UUID NOT NULL UNIQUE REFERENCES cohorts(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  consecutive_absences INTEGER DEFAULT 2 CHECK (consecutive_absences > 0),
+  attendance_window_sessions INTEGER NOT NULL DEFAULT 3 CHECK (attendance_window_sessions > 0),
+  min_attendance_percentage NUMERIC(5,2) DEFAULT 50
+    CHECK (min_attendance_percentage >= 0 AND min_attendance_percentage <= 100),
+  inactive_days INTEGER DEFAULT 7 CHECK (inactive_days > 0),
+  min_video_completion NUMERIC(5,2) DEFAULT NULL
+    CHECK (min_video_completion >= 0 AND min_video_completion <= 100),
+  missed_case_studies INTEGER DEFAULT 1 CHECK (missed_case_studies > 0),
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_at_risk_thresholds_updated_at ON at_risk_thresholds;
+CREATE TRIGGER update_at_risk_thresholds_updated_at
+  BEFORE UPDATE ON at_risk_thresholds
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- -----------------------------------------------------------------------------
+-- 2. at_risk_flags
+-- -----------------------------------------------------------------------------
+-- reasons: [{ code, value, threshold, message }] from the latest evaluation.
+-- A flag stays open (or acknowledged) while the student is still at risk and
+-- is resolved automatically once no threshold is crossed.
+
+CREATE TABLE IF NOT EXISTS at_risk_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  cohort_id UUID NOT NULL REFERENCES cohorts(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+  first_flagged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_evaluated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  notified_at TIMESTAMPTZ,
+  acknowledged_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  acknowledged_at TIMESTAMPTZ,
+  acknowledgement_note TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One active flag per student per cohort
+CREATE UNIQUE INDEX IF NOT EXISTS idx_at_risk_flags_active
+  ON at_risk_flags(user_id, cohort_id)
+  WHERE status IN ('open', 'acknowledged');
+
+CREATE INDEX IF NOT EXISTS idx_at_risk_flags_cohort_status
+  ON at_risk_flags(cohort_id, status);
+
+DROP TRIGGER IF EXISTS update_at_risk_flags_updated_at ON at_risk_flags;
+CREATE TRIGGER update_at_risk_flags_updated_at
+  BEFORE UPDATE ON at_risk_flags
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Service role only (mentor/admin API routes use createAdminClient)
+ALTER TABLE at_risk_thresholds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE at_risk_flags ENABLE ROW LEVEL SECURITY;
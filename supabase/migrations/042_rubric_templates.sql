@@ -0,0 +1,70 @@
+-- Migration 042: Rubric templates and level-based grading
+-- =============================================================================
+-- Admins keep a library of reusable rubrics. Attaching a template to a case
+-- study copies its criteria into case_study_rubric_criteria (replacing any
+-- existing criteria), so later edits to the template never change a rubric
+-- that is already being graded against.
+--
+-- Each criterion carries a weight and a list of levels:
+--   levels: [{ label, description, points }]   e.g. Exceeds / Meets / Below
+-- case_study_rubric_criteria.max_score is the highest level's points. The
+-- review score is the weighted mean of (points / max_score) scaled to
+-- case_studies.max_score (lib/services/rubric.ts).
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. rubric_templates
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS rubric_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_rubric_templates_updated_at ON rubric_templates;
+CREATE TRIGGER update_rubric_templates_updated_at
+  BEFORE UPDATE ON rubric_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- -----------------------------------------------------------------------------
+-- 2. rubric_template_criteria
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS rubric_template_criteria (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES rubric_templates(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  description TEXT,
+  weight NUMERIC(6,2) NOT NULL DEFAULT 1 CHECK (weight > 0),
+  levels JSONB NOT NULL DEFAULT '[]'::jsonb,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rubric_template_criteria_template
+  ON rubric_template_criteria(template_id);
+
+-- -----------------------------------------------------------------------------
+-- 3. Case study rubric columns
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_study_rubric_criteria
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS weight NUMERIC(6,2) NOT NULL DEFAULT 1 CHECK (weight > 0),
+  ADD COLUMN IF NOT EXISTS levels JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Which template the current criteria were copied from (informational)
+ALTER TABLE case_studies
+  ADD COLUMN IF NOT EXISTS rubric_template_id UUID REFERENCES rubric_templates(id) ON DELETE SET NULL;
+
+-- The level the reviewer clicked; score holds that level's points
+ALTER TABLE case_study_rubric_scores
+  ADD COLUMN IF NOT EXISTS level_label TEXT;
+
+-- Service role only (admin API routes use createAdminClient)
+ALTER TABLE rubric_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rubric_template_criteria ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,32 @@
+-- Migration 043: Review calibration
+-- =============================================================================
+-- In calibration mode a case study's submissions are scored blind by several
+-- reviewers (admins and the subgroup's mentors). Mentors may review as soon as
+-- a submission is in, without waiting for the admin to release it, and nobody
+-- sees the other reviewers' scores until the submission is adjudicated or
+-- published.
+--
+-- Agreement (score spread, per-criterion variance) is computed on read in
+-- lib/services/review-calibration.ts. A submission whose score spread exceeds
+-- calibration_threshold (% of max_score) is flagged and cannot be published to
+-- students until an admin adjudicates it; the admin's review is the final
+-- score, as elsewhere.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Case study settings
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_studies
+  ADD COLUMN IF NOT EXISTS calibration_mode BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS calibration_threshold NUMERIC(5,2) NOT NULL DEFAULT 15
+    CHECK (calibration_threshold >= 0 AND calibration_threshold <= 100);
+
+-- -----------------------------------------------------------------------------
+-- 2. Adjudication
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_study_submissions
+  ADD COLUMN IF NOT EXISTS adjudicated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS adjudicated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS adjudication_note TEXT;
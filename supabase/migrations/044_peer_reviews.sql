@@ -0,0 +1,60 @@
+-- Migration 044: Peer review between subgroups
+-- =============================================================================
+-- Optional peer-review phase for a case study. When submissions are closed
+-- (PUT /api/admin/case-studies/[id]/close-submissions) and peer review is
+-- enabled, every subgroup that submitted is assigned peer_reviews_per_subgroup
+-- other subgroups' submissions, never its own. Assignment is a rotation over a
+-- shuffled list (lib/services/peer-review.ts), so each submission also
+-- receives the same number of peer reviews.
+--
+-- Peer reviews are anonymous in both directions: students never see which
+-- subgroup wrote a submission or which subgroup reviewed theirs. Scores live
+-- here rather than in case_study_reviews and never count towards the final
+-- score; admins see them as an extra signal while reviewing.
+--
+-- rubric_scores mirrors case_study_rubric_scores rows:
+--   [{ criteria_id, score, level_label, comment }]
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Case study settings
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_studies
+  ADD COLUMN IF NOT EXISTS peer_review_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS peer_reviews_per_subgroup INTEGER NOT NULL DEFAULT 2
+    CHECK (peer_reviews_per_subgroup BETWEEN 1 AND 5);
+
+-- -----------------------------------------------------------------------------
+-- 2. case_study_peer_reviews
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS case_study_peer_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_study_id UUID NOT NULL REFERENCES case_studies(id) ON DELETE CASCADE,
+  submission_id UUID NOT NULL REFERENCES case_study_submissions(id) ON DELETE CASCADE,
+  reviewer_subgroup_id UUID NOT NULL REFERENCES subgroups(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'submitted')),
+  score NUMERIC(6,2),
+  rubric_scores JSONB NOT NULL DEFAULT '[]'::jsonb,
+  comment TEXT,
+  submitted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (submission_id, reviewer_subgroup_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_study_peer_reviews_case_study
+  ON case_study_peer_reviews(case_study_id);
+
+CREATE INDEX IF NOT EXISTS idx_case_study_peer_reviews_reviewer
+  ON case_study_peer_reviews(reviewer_subgroup_id);
+
+DROP TRIGGER IF EXISTS update_case_study_peer_reviews_updated_at ON case_study_peer_reviews;
+CREATE TRIGGER update_case_study_peer_reviews_updated_at
+  BEFORE UPDATE ON case_study_peer_reviews
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Service role only (API routes use createAdminClient)
+ALTER TABLE case_study_peer_reviews ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,89 @@
+-- Migration 045: Immutable submission versions
+-- =============================================================================
+-- case_study_submission_attachments is the working set a subgroup edits before
+-- the deadline; rows are added and removed in place. Every submit action
+-- (POST /api/case-studies/submissions) now snapshots that set into
+-- case_study_submission_versions, so a replaced file stays on record.
+--
+-- attachments: [{ attachment_id, type, file_path, file_name, file_size,
+--                 file_type, file_hash, link_url, link_label, uploaded_by }]
+--
+-- Diffs between versions (added / removed / changed) are computed on read in
+-- lib/services/submission-versions.ts. file_hash is the SHA-256 of the file,
+-- computed in the browser before upload; older attachments have none, so a
+-- re-upload without hashes on both sides counts as changed unless it is the
+-- same stored file.
+--
+-- is_late is evaluated per version against the effective deadline at the time
+-- of that submit. case_study_reviews.submission_version_id records which
+-- version a reviewer graded.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. File hashes
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_study_submission_attachments
+  ADD COLUMN IF NOT EXISTS file_hash TEXT;
+
+-- -----------------------------------------------------------------------------
+-- 2. case_study_submission_versions
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS case_study_submission_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id UUID NOT NULL REFERENCES case_study_submissions(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL CHECK (version_number > 0),
+  submitted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  is_late BOOLEAN NOT NULL DEFAULT false,
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (submission_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_study_submission_versions_submission
+  ON case_study_submission_versions(submission_id);
+
+-- -----------------------------------------------------------------------------
+-- 3. Graded version on reviews
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_study_reviews
+  ADD COLUMN IF NOT EXISTS submission_version_id UUID
+    REFERENCES case_study_submission_versions(id) ON DELETE SET NULL;
+
+-- -----------------------------------------------------------------------------
+-- 4. Backfill: current attachments become version 1 of submitted work
+-- -----------------------------------------------------------------------------
+
+INSERT INTO case_study_submission_versions (submission_id, version_number, submitted_by, submitted_at, is_late, attachments)
+SELECT
+  s.id,
+  1,
+  s.submitted_by,
+  COALESCE(s.submitted_at, s.updated_at),
+  s.is_late,
+  COALESCE(
+    (SELECT jsonb_agg(jsonb_build_object(
+        'attachment_id', a.id,
+        'type', a.type,
+        'file_path', a.file_path,
+        'file_name', a.file_name,
+        'file_size', a.file_size,
+        'file_type', a.file_type,
+        'file_hash', a.file_hash,
+        'link_url', a.link_url,
+        'link_label', a.link_label,
+        'uploaded_by', a.uploaded_by
+      ) ORDER BY a.created_at)
+     FROM case_study_submission_attachments a
+     WHERE a.submission_id = s.id),
+    '[]'::jsonb
+  )
+FROM case_study_submissions s
+WHERE s.visibility <> 'draft'
+  AND NOT EXISTS (SELECT 1 FROM case_study_submission_versions v WHERE v.submission_id = s.id);
+
+-- Service role only (API routes use createAdminClient)
+ALTER TABLE case_study_submission_versions ENABLE ROW LEVEL SECURITY;
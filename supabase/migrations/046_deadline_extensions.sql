@@ -0,0 +1,95 @@
+-- Migration 046: Deadline extension requests, per-student deadlines and log
+-- =============================================================================
+-- Extensions used to be a bare PUT that moved case_studies.due_date or set
+-- case_study_submissions.deadline_override, with no record of who asked, why,
+-- or who approved it.
+--
+--   case_study_extension_requests  students ask for more time, either for
+--                                  their whole subgroup or just themselves;
+--                                  admins approve or reject from a queue
+--   case_study_student_deadlines   personal deadline for one student, the
+--                                  per-student counterpart of deadline_override
+--   case_study_extension_log       append-only record of every grant, whether
+--                                  from an approved request or applied
+--                                  directly (cohort, subgroup, a mentor's
+--                                  subgroups in bulk, or one student)
+--
+-- A student's effective deadline is the later of their subgroup's deadline
+-- and their personal one (lib/services/case-study-deadline.ts).
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. case_study_extension_requests
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS case_study_extension_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_study_id UUID NOT NULL REFERENCES case_studies(id) ON DELETE CASCADE,
+  subgroup_id UUID NOT NULL REFERENCES subgroups(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  requested_due_date TIMESTAMPTZ NOT NULL,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  decided_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  decision_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_study_extension_requests_case_study
+  ON case_study_extension_requests(case_study_id);
+
+CREATE INDEX IF NOT EXISTS idx_case_study_extension_requests_pending
+  ON case_study_extension_requests(status) WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS update_case_study_extension_requests_updated_at ON case_study_extension_requests;
+CREATE TRIGGER update_case_study_extension_requests_updated_at
+  BEFORE UPDATE ON case_study_extension_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- -----------------------------------------------------------------------------
+-- 2. case_study_student_deadlines
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS case_study_student_deadlines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_study_id UUID NOT NULL REFERENCES case_studies(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  deadline_override TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (case_study_id, student_id)
+);
+
+DROP TRIGGER IF EXISTS update_case_study_student_deadlines_updated_at ON case_study_student_deadlines;
+CREATE TRIGGER update_case_study_student_deadlines_updated_at
+  BEFORE UPDATE ON case_study_student_deadlines
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- -----------------------------------------------------------------------------
+-- 3. case_study_extension_log
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS case_study_extension_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_study_id UUID NOT NULL REFERENCES case_studies(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('cohort', 'subgroup', 'student')),
+  subgroup_id UUID REFERENCES subgroups(id) ON DELETE SET NULL,
+  student_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  previous_due_date TIMESTAMPTZ,
+  new_due_date TIMESTAMPTZ NOT NULL,
+  reason TEXT,
+  request_id UUID REFERENCES case_study_extension_requests(id) ON DELETE SET NULL,
+  granted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_study_extension_log_case_study
+  ON case_study_extension_log(case_study_id, created_at DESC);
+
+-- Service role only (API routes use createAdminClient)
+ALTER TABLE case_study_extension_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_study_student_deadlines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_study_extension_log ENABLE ROW LEVEL SECURITY;
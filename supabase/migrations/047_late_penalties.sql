@@ -0,0 +1,89 @@
+-- Migration 047: Late penalty policies
+-- =============================================================================
+-- is_late used to be informational only. Each case study now has a late
+-- policy that turns lateness into a score deduction:
+--
+--   flag        no deduction, the submission is only marked late (default,
+--               the previous behaviour)
+--   fixed       late_penalty_points off the score
+--   percent     late_penalty_percent of the score per started hour or day
+--               (late_penalty_unit), capped at late_penalty_cap_percent
+--   zero_after  score drops to zero once the submission is
+--               late_zero_after_hours or more late; earlier is flag only
+--
+-- Late submissions are only accepted within the grace period, so the grace
+-- period bounds how late a submission can be.
+--
+-- late_minutes is recorded at submit time next to is_late, per version and on
+-- the submission (which mirrors its latest version). Reviews keep the raw
+-- score in `score` and store late_penalty and adjusted_score next to it;
+-- lib/services/late-penalty.ts recomputes them whenever a review, the policy
+-- or a per-submission override changes. An override replaces the computed
+-- deduction for one submission and must carry a reason.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Policy on case studies
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_studies
+  ADD COLUMN IF NOT EXISTS late_policy TEXT NOT NULL DEFAULT 'flag'
+    CHECK (late_policy IN ('flag', 'fixed', 'percent', 'zero_after')),
+  ADD COLUMN IF NOT EXISTS late_penalty_points NUMERIC(6,2) CHECK (late_penalty_points >= 0),
+  ADD COLUMN IF NOT EXISTS late_penalty_percent NUMERIC(5,2) CHECK (late_penalty_percent BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS late_penalty_unit TEXT NOT NULL DEFAULT 'hour'
+    CHECK (late_penalty_unit IN ('hour', 'day')),
+  ADD COLUMN IF NOT EXISTS late_penalty_cap_percent NUMERIC(5,2) CHECK (late_penalty_cap_percent BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS late_zero_after_hours NUMERIC(6,2) CHECK (late_zero_after_hours >= 0);
+
+-- -----------------------------------------------------------------------------
+-- 2. How late: submissions and versions
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_study_submissions
+  ADD COLUMN IF NOT EXISTS late_minutes INTEGER NOT NULL DEFAULT 0 CHECK (late_minutes >= 0);
+
+ALTER TABLE case_study_submission_versions
+  ADD COLUMN IF NOT EXISTS late_minutes INTEGER NOT NULL DEFAULT 0 CHECK (late_minutes >= 0);
+
+UPDATE case_study_submissions s
+SET late_minutes = GREATEST(0, CEIL(EXTRACT(EPOCH FROM (s.submitted_at - COALESCE(s.deadline_override, cs.due_date))) / 60))::INTEGER
+FROM case_studies cs
+WHERE cs.id = s.case_study_id
+  AND s.is_late
+  AND s.submitted_at IS NOT NULL
+  AND COALESCE(s.deadline_override, cs.due_date) IS NOT NULL;
+
+UPDATE case_study_submission_versions v
+SET late_minutes = s.late_minutes
+FROM case_study_submissions s
+WHERE s.id = v.submission_id
+  AND v.is_late
+  AND v.version_number = 1;
+
+-- -----------------------------------------------------------------------------
+-- 3. Per-submission override
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_study_submissions
+  ADD COLUMN IF NOT EXISTS late_penalty_override NUMERIC(6,2) CHECK (late_penalty_override >= 0),
+  ADD COLUMN IF NOT EXISTS late_penalty_override_reason TEXT,
+  ADD COLUMN IF NOT EXISTS late_penalty_overridden_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS late_penalty_overridden_at TIMESTAMPTZ;
+
+ALTER TABLE case_study_submissions
+  DROP CONSTRAINT IF EXISTS case_study_submissions_late_penalty_override_reason_check;
+ALTER TABLE case_study_submissions
+  ADD CONSTRAINT case_study_submissions_late_penalty_override_reason_check
+    CHECK (late_penalty_override IS NULL OR COALESCE(TRIM(late_penalty_override_reason), '') <> '');
+
+-- -----------------------------------------------------------------------------
+-- 4. Raw and adjusted scores on reviews
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_study_reviews
+  ADD COLUMN IF NOT EXISTS late_penalty NUMERIC(6,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS adjusted_score NUMERIC(6,2);
+
+-- Existing policies are all 'flag', so nothing was deducted
+UPDATE case_study_reviews SET adjusted_score = score WHERE adjusted_score IS NULL;
@@ -0,0 +1,108 @@
+-- Migration 048: Individual contributions within subgroup submissions
+-- =============================================================================
+-- A submission belongs to a subgroup and only remembers its last submitted_by,
+-- so mentors cannot tell who did the work. Three additions:
+--
+--   case_study_attachment_events       append-only add/remove history of
+--                                      attachments; the attachment rows
+--                                      themselves are deleted in place
+--   case_study_contribution_ratings    optional survey (contribution_survey_
+--                                      enabled on the case study): after
+--                                      submitting, each member rates every
+--                                      other member's contribution 1-5
+--   case_study_individual_adjustments  points a mentor or admin adds to or
+--                                      takes off one student's grade relative
+--                                      to the group score, with a reason
+--
+-- The contribution factor (a member's mean rating over the subgroup's mean) is
+-- computed on read in lib/services/contributions.ts. The grade book adds each
+-- student's adjustment to the group's final score.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Survey switch
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_studies
+  ADD COLUMN IF NOT EXISTS contribution_survey_enabled BOOLEAN NOT NULL DEFAULT false;
+
+-- -----------------------------------------------------------------------------
+-- 2. case_study_attachment_events
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS case_study_attachment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id UUID NOT NULL REFERENCES case_study_submissions(id) ON DELETE CASCADE,
+  -- No FK: the attachment row is gone once removed
+  attachment_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('added', 'removed')),
+  type TEXT NOT NULL CHECK (type IN ('file', 'link')),
+  label TEXT,
+  uploaded_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_study_attachment_events_submission
+  ON case_study_attachment_events(submission_id, created_at);
+
+-- Existing attachments become their own 'added' events
+INSERT INTO case_study_attachment_events (submission_id, attachment_id, action, type, label, uploaded_by, actor_id, created_at)
+SELECT a.submission_id, a.id, 'added', a.type, COALESCE(a.file_name, a.link_label, a.link_url), a.uploaded_by, a.uploaded_by, a.created_at
+FROM case_study_submission_attachments a
+WHERE NOT EXISTS (
+  SELECT 1 FROM case_study_attachment_events e
+  WHERE e.attachment_id = a.id AND e.action = 'added'
+);
+
+-- -----------------------------------------------------------------------------
+-- 3. case_study_contribution_ratings
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS case_study_contribution_ratings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id UUID NOT NULL REFERENCES case_study_submissions(id) ON DELETE CASCADE,
+  rater_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  ratee_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (submission_id, rater_id, ratee_id),
+  CHECK (rater_id <> ratee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_study_contribution_ratings_submission
+  ON case_study_contribution_ratings(submission_id);
+
+DROP TRIGGER IF EXISTS update_case_study_contribution_ratings_updated_at ON case_study_contribution_ratings;
+CREATE TRIGGER update_case_study_contribution_ratings_updated_at
+  BEFORE UPDATE ON case_study_contribution_ratings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- -----------------------------------------------------------------------------
+-- 4. case_study_individual_adjustments
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS case_study_individual_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id UUID NOT NULL REFERENCES case_study_submissions(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  adjustment NUMERIC(6,2) NOT NULL,
+  reason TEXT NOT NULL CHECK (TRIM(reason) <> ''),
+  adjusted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  adjusted_by_role TEXT NOT NULL CHECK (adjusted_by_role IN ('admin', 'mentor')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (submission_id, student_id)
+);
+
+DROP TRIGGER IF EXISTS update_case_study_individual_adjustments_updated_at ON case_study_individual_adjustments;
+CREATE TRIGGER update_case_study_individual_adjustments_updated_at
+  BEFORE UPDATE ON case_study_individual_adjustments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Service role only (API routes use createAdminClient)
+ALTER TABLE case_study_attachment_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_study_contribution_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_study_individual_adjustments ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,53 @@
+-- Migration 049: Inline PDF annotations on case study submissions
+-- =============================================================================
+-- Reviewers could only leave a review comment and per-criterion comments.
+-- Annotations let admins and mentors mark up a submitted PDF directly:
+--
+--   highlight  a rectangle on the page, comment optional
+--   pin        a point on the page with a comment
+--   comment    a note on the page as a whole (no position)
+--
+-- Positions are fractions (0-1) of the rendered page's width and height, so
+-- they survive zooming. Each annotation is keyed to the attachment and page.
+-- Students see annotations once the submission is subgroup_published or
+-- cohort_published; annotations by a mentor whose review the admin has
+-- overridden stay hidden, like the review itself.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. case_study_annotations
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS case_study_annotations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id UUID NOT NULL REFERENCES case_study_submissions(id) ON DELETE CASCADE,
+  attachment_id UUID NOT NULL REFERENCES case_study_submission_attachments(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL CHECK (page_number >= 1),
+  kind TEXT NOT NULL CHECK (kind IN ('highlight', 'pin', 'comment')),
+  x NUMERIC(6,5) CHECK (x BETWEEN 0 AND 1),
+  y NUMERIC(6,5) CHECK (y BETWEEN 0 AND 1),
+  width NUMERIC(6,5) CHECK (width > 0 AND width <= 1),
+  height NUMERIC(6,5) CHECK (height > 0 AND height <= 1),
+  comment TEXT,
+  color TEXT,
+  author_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  author_role TEXT NOT NULL CHECK (author_role IN ('admin', 'mentor')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (kind = 'comment' OR (x IS NOT NULL AND y IS NOT NULL)),
+  CHECK (kind <> 'highlight' OR (width IS NOT NULL AND height IS NOT NULL)),
+  CHECK (kind = 'highlight' OR TRIM(COALESCE(comment, '')) <> '')
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_study_annotations_attachment_page
+  ON case_study_annotations(attachment_id, page_number);
+CREATE INDEX IF NOT EXISTS idx_case_study_annotations_submission
+  ON case_study_annotations(submission_id);
+
+DROP TRIGGER IF EXISTS update_case_study_annotations_updated_at ON case_study_annotations;
+CREATE TRIGGER update_case_study_annotations_updated_at
+  BEFORE UPDATE ON case_study_annotations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Service role only (API routes use createAdminClient)
+ALTER TABLE case_study_annotations ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,76 @@
+-- Migration 050: Similarity checks across case study submissions
+-- =============================================================================
+-- Many subgroups answer the same prompt, so copying between groups (and from
+-- earlier cohorts) needs to be caught. Everything runs inside the app:
+--
+--   case_study_submission_texts   text extracted once per attachment (PDF and
+--                                 DOCX files; links contribute their URL and
+--                                 label). Attachments are immutable, so the
+--                                 cache never goes stale
+--   case_study_similarity_pairs   pairs at or above the case study's
+--                                 threshold from the latest check, with the
+--                                 matched passages from both sides
+--
+-- "Prior cohorts' submissions to the same case" are submissions to case
+-- studies in other cohorts with the same title (case-insensitive), which is
+-- how case studies are reused between cohorts today.
+--
+-- Scores are the share of both texts covered by shared runs of at least five
+-- words, ignoring runs that appear in the problem statement or in most of the
+-- case study's submissions. See lib/services/similarity.ts.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Threshold and last run on case_studies
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE case_studies
+  ADD COLUMN IF NOT EXISTS similarity_threshold NUMERIC(4,3) NOT NULL DEFAULT 0.25
+    CHECK (similarity_threshold > 0 AND similarity_threshold <= 1),
+  ADD COLUMN IF NOT EXISTS similarity_checked_at TIMESTAMPTZ;
+
+-- -----------------------------------------------------------------------------
+-- 2. case_study_submission_texts
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS case_study_submission_texts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attachment_id UUID NOT NULL UNIQUE REFERENCES case_study_submission_attachments(id) ON DELETE CASCADE,
+  submission_id UUID NOT NULL REFERENCES case_study_submissions(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('pdf', 'docx', 'link', 'unsupported')),
+  content TEXT NOT NULL DEFAULT '',
+  -- Set when extraction failed; the attachment is skipped, not retried
+  error TEXT,
+  extracted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_study_submission_texts_submission
+  ON case_study_submission_texts(submission_id);
+
+-- -----------------------------------------------------------------------------
+-- 3. case_study_similarity_pairs
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS case_study_similarity_pairs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The case study whose check found the pair
+  case_study_id UUID NOT NULL REFERENCES case_studies(id) ON DELETE CASCADE,
+  submission_id UUID NOT NULL REFERENCES case_study_submissions(id) ON DELETE CASCADE,
+  matched_submission_id UUID NOT NULL REFERENCES case_study_submissions(id) ON DELETE CASCADE,
+  -- True when the match is from another cohort's run of the same case
+  cross_cohort BOOLEAN NOT NULL DEFAULT false,
+  score NUMERIC(5,4) NOT NULL CHECK (score BETWEEN 0 AND 1),
+  shared_links TEXT[] NOT NULL DEFAULT '{}',
+  -- [{ a: { before, match, after }, b: { before, match, after } }], longest first
+  passages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (case_study_id, submission_id, matched_submission_id),
+  CHECK (submission_id <> matched_submission_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_study_similarity_pairs_case_study
+  ON case_study_similarity_pairs(case_study_id);
+
+-- Service role only (API routes use createAdminClient)
+ALTER TABLE case_study_submission_texts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_study_similarity_pairs ENABLE ROW LEVEL SECURITY;
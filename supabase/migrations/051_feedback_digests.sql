@@ -0,0 +1,22 @@
+-- Migration 051: Feedback digests on publication
+-- =============================================================================
+-- Publishing a submission to its subgroup or cohort (publish, publish-bulk)
+-- queues a digest of the feedback for its members: score, rubric breakdown,
+-- reviewer comments and, when the leaderboard is published, the subgroup's
+-- rank.
+--
+-- Digests are queued as pending notification_jobs (one job per submission
+-- and channel, one notification_logs row per member with created_at null)
+-- with metadata.kind = 'case_study_feedback_digest'. The notification cron,
+-- /api/cron/process-notifications, delivers them by email and, when that
+-- integration is active, WhatsApp, so publishing never waits on a send.
+--
+-- feedback_notified_at marks a submission as notified. It is set by a
+-- conditional update before anything is queued, so concurrent publishes
+-- cannot notify a submission twice; moving it on from subgroup_published to
+-- cohort_published does not send a second digest.
+-- See lib/services/feedback-digest.ts.
+-- =============================================================================
+
+ALTER TABLE case_study_submissions
+  ADD COLUMN IF NOT EXISTS feedback_notified_at TIMESTAMPTZ;
@@ -0,0 +1,57 @@
+-- Migration 052: Individual assignments
+-- =============================================================================
+-- The assignments / assignment_submissions tables from migration 004 were
+-- never wired up. They now back weekly individual homework: admins create
+-- assignments per cohort and week, each student submits a file or a link,
+-- and the student's mentor (or an admin) grades it with a grade and feedback.
+--
+-- Deadlines work like case studies (lib/services/case-study-deadline.ts):
+-- due_date plus grace_period_minutes, with submissions after due_date marked
+-- late. A student may replace their submission until the deadline passes or
+-- it is graded.
+--
+-- Only individual submissions (user_id) are created; group_id stays for the
+-- legacy groups table. Files live in the `resources` bucket under
+-- assignments/<cohort_id>/<user_id>/. See lib/services/assignments.ts.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Assignment settings
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS grace_period_minutes INT NOT NULL DEFAULT 5 CHECK (grace_period_minutes >= 0),
+  ADD COLUMN IF NOT EXISTS submissions_closed BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS is_archived BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS order_index INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- -----------------------------------------------------------------------------
+-- 2. Submission file, lateness and timestamps
+-- -----------------------------------------------------------------------------
+
+-- file_url (004) held a public URL; uploads are now private storage paths
+ALTER TABLE assignment_submissions
+  ADD COLUMN IF NOT EXISTS file_path TEXT,
+  ADD COLUMN IF NOT EXISTS file_size BIGINT,
+  ADD COLUMN IF NOT EXISTS file_type TEXT,
+  ADD COLUMN IF NOT EXISTS is_late BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS late_minutes INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+ALTER TABLE assignment_submissions
+  DROP CONSTRAINT IF EXISTS assignment_submissions_has_content_check;
+ALTER TABLE assignment_submissions
+  ADD CONSTRAINT assignment_submissions_has_content_check
+    CHECK (status = 'draft' OR file_path IS NOT NULL OR file_url IS NOT NULL OR google_drive_url IS NOT NULL);
+
+-- -----------------------------------------------------------------------------
+-- 3. One submission per student per assignment
+-- -----------------------------------------------------------------------------
+
+-- NULL user_id (group rows) never conflicts, so this only constrains individuals
+ALTER TABLE assignment_submissions
+  DROP CONSTRAINT IF EXISTS assignment_submissions_assignment_user_key;
+ALTER TABLE assignment_submissions
+  ADD CONSTRAINT assignment_submissions_assignment_user_key UNIQUE (assignment_id, user_id);
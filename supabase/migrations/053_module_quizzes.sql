@@ -0,0 +1,129 @@
+-- Migration 053: Quizzes on learning modules
+-- =============================================================================
+-- Adds a `quiz` content type to module_resources. A quiz resource has one
+-- settings row and an ordered list of questions:
+--
+--   single_choice  one correct option
+--   multi_select   every correct option and nothing else
+--   numeric        within numeric_tolerance of numeric_answer
+--   short_text     matches one of accepted_answers (trimmed, whitespace
+--                  collapsed, case-insensitive unless case_sensitive)
+--
+-- Each attempt stores its own question and option order (when shuffling is
+-- on), the student's saved answers and, once submitted, the per-question
+-- results. Attempts with a time limit get expires_at; an attempt left open
+-- past it is scored on its saved answers. Passing an attempt marks the
+-- resource complete in resource_progress. See lib/services/quizzes.ts.
+--
+-- Questions hold the answer key, so students never read these tables
+-- directly: RLS is on with no policies and API routes use the service role.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- 1. Quiz content type
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE module_resources
+  DROP CONSTRAINT IF EXISTS module_resources_content_type_check;
+ALTER TABLE module_resources
+  ADD CONSTRAINT module_resources_content_type_check
+    CHECK (content_type IN ('video', 'slides', 'document', 'link', 'quiz'));
+
+-- -----------------------------------------------------------------------------
+-- 2. module_quizzes (settings, one row per quiz resource)
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS module_quizzes (
+  resource_id UUID PRIMARY KEY REFERENCES module_resources(id) ON DELETE CASCADE,
+  instructions TEXT,
+  max_attempts INTEGER CHECK (max_attempts IS NULL OR max_attempts >= 1), -- NULL = unlimited
+  time_limit_minutes INTEGER CHECK (time_limit_minutes IS NULL OR time_limit_minutes >= 1),
+  shuffle_questions BOOLEAN NOT NULL DEFAULT false,
+  shuffle_options BOOLEAN NOT NULL DEFAULT false,
+  pass_percent INTEGER NOT NULL DEFAULT 70 CHECK (pass_percent BETWEEN 0 AND 100),
+  -- Reveal correct answers and explanations once the student passes or runs out of attempts
+  show_answers BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_module_quizzes_updated_at ON module_quizzes;
+CREATE TRIGGER update_module_quizzes_updated_at
+  BEFORE UPDATE ON module_quizzes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE module_quizzes ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------------------------------------------
+-- 3. quiz_questions
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS quiz_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id UUID NOT NULL REFERENCES module_quizzes(resource_id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('single_choice', 'multi_select', 'numeric', 'short_text')),
+  prompt TEXT NOT NULL CHECK (TRIM(prompt) <> ''),
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,          -- [{ id, text }]
+  correct_option_ids TEXT[] NOT NULL DEFAULT '{}',
+  numeric_answer NUMERIC,
+  numeric_tolerance NUMERIC NOT NULL DEFAULT 0 CHECK (numeric_tolerance >= 0),
+  accepted_answers TEXT[] NOT NULL DEFAULT '{}',
+  case_sensitive BOOLEAN NOT NULL DEFAULT false,
+  points NUMERIC(6,2) NOT NULL DEFAULT 1 CHECK (points > 0),
+  explanation TEXT,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (type <> 'single_choice' OR cardinality(correct_option_ids) = 1),
+  CHECK (type <> 'multi_select' OR cardinality(correct_option_ids) >= 1),
+  CHECK (type <> 'numeric' OR numeric_answer IS NOT NULL),
+  CHECK (type <> 'short_text' OR cardinality(accepted_answers) >= 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_resource
+  ON quiz_questions(resource_id, order_index);
+
+DROP TRIGGER IF EXISTS update_quiz_questions_updated_at ON quiz_questions;
+CREATE TRIGGER update_quiz_questions_updated_at
+  BEFORE UPDATE ON quiz_questions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE quiz_questions ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------------------------------------------
+-- 4. quiz_attempts
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id UUID NOT NULL REFERENCES module_quizzes(resource_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL CHECK (attempt_number >= 1),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  submitted_at TIMESTAMPTZ,
+  question_order UUID[] NOT NULL DEFAULT '{}',
+  option_order JSONB NOT NULL DEFAULT '{}'::jsonb,     -- { question_id: [option_id, ...] }
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,          -- { question_id: { option_ids | value | text } }
+  results JSONB,                                       -- [{ question_id, correct, points_awarded }]
+  score NUMERIC(8,2),
+  max_score NUMERIC(8,2),
+  percent NUMERIC(5,2),
+  passed BOOLEAN,
+  timed_out BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (resource_id, user_id, attempt_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user
+  ON quiz_attempts(user_id, resource_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_resource_submitted
+  ON quiz_attempts(resource_id) WHERE submitted_at IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_quiz_attempts_updated_at ON quiz_attempts;
+CREATE TRIGGER update_quiz_attempts_updated_at
+  BEFORE UPDATE ON quiz_attempts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE quiz_attempts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,19 @@
+-- Migration 054: Case study lineage
+-- =============================================================================
+-- Cloning a case study into another cohort (lib/services/case-study-clone.ts)
+-- now records where it came from. source_case_study_id always points at the
+-- original: a clone of a clone links to the first case study, so one case
+-- study and all of its copies share a single root.
+--
+-- Prior-cohort similarity checks and cross-cohort analytics use this lineage
+-- to find "the same case study in other cohorts" instead of matching titles,
+-- so renamed clones stay linked and unrelated case studies that happen to
+-- share a title stay apart. Case studies reused by hand before cloning
+-- existed can be linked by setting the column.
+-- =============================================================================
+
+ALTER TABLE case_studies
+  ADD COLUMN IF NOT EXISTS source_case_study_id UUID REFERENCES case_studies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_case_studies_source
+  ON case_studies(source_case_study_id) WHERE source_case_study_id IS NOT NULL;
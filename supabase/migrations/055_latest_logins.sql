@@ -0,0 +1,19 @@
+-- Migration 055: Latest login per user
+-- =============================================================================
+-- At-risk detection (lib/services/at-risk.ts) needs each student's most recent
+-- login. Reading the raw login_events rows for a cohort runs into PostgREST's
+-- row limit on busy weeks, silently dropping students' logins and flagging
+-- them as inactive. This function returns one row per user instead.
+--
+-- Users with no login since p_since are left out.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION latest_logins(p_user_ids UUID[], p_since TIMESTAMPTZ)
+RETURNS TABLE (user_id UUID, last_login_at TIMESTAMPTZ) AS $$
+  SELECT le.user_id, MAX(le.created_at) AS last_login_at
+  FROM login_events le
+  WHERE le.user_id = ANY(p_user_ids)
+    AND le.created_at >= p_since
+  GROUP BY le.user_id;
+$$ LANGUAGE sql STABLE;
+
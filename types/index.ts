@@ -18,7 +18,7 @@ export type ResourceType = 'file' | 'folder' | 'link';
 
 export type ResourceCategory = 'video' | 'article' | 'presentation' | 'pdf';
 
-export type ModuleResourceType = 'video' | 'slides' | 'document' | 'link';
+export type ModuleResourceType = 'video' | 'slides' | 'document' | 'link' | 'quiz';
 
 export type FileType = 'pdf' | 'doc' | 'docx' | 'xls' | 'xlsx' | 'ppt' | 'pptx' | 'mp4' | 'other';
 
@@ -94,6 +94,7 @@ export interface Session {
   google_event_id: string | null;
   created_by: string | null;
   created_at: string;
+  counts_for_students?: boolean;
   // Multi-cohort and guest support
   cohorts?: SessionCohort[];
   guests?: SessionGuest[];
@@ -117,6 +118,9 @@ export interface Attendance {
   leave_time: string | null;
   duration_seconds: number | null;
   attendance_percentage: number | null;
+  minutes_late: number | null;
+  minutes_left_early: number | null;
+  reconnect_count: number;
   created_at: string;
 }
 
@@ -229,6 +233,125 @@ export interface ModuleResourceWithTracking extends ModuleResource {
   last_viewed_at?: string;
 }
 
+// Quizzes (module_resources with content_type 'quiz')
+export type QuizQuestionType = 'single_choice' | 'multi_select' | 'numeric' | 'short_text';
+
+export interface QuizOption {
+  id: string;
+  text: string;
+}
+
+export interface QuizSettings {
+  resource_id: string;
+  instructions: string | null;
+  max_attempts: number | null;        // null = unlimited
+  time_limit_minutes: number | null;  // null = untimed
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
+  pass_percent: number;
+  show_answers: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QuizQuestion {
+  id: string;
+  resource_id: string;
+  type: QuizQuestionType;
+  prompt: string;
+  options: QuizOption[];
+  correct_option_ids: string[];
+  numeric_answer: number | null;
+  numeric_tolerance: number;
+  accepted_answers: string[];
+  case_sensitive: boolean;
+  points: number;
+  explanation: string | null;
+  order_index: number;
+}
+
+/** A question as a student sees it while the attempt is open (no answer key) */
+export type QuizQuestionForStudent = Pick<QuizQuestion, 'id' | 'type' | 'prompt' | 'options' | 'points'>;
+
+export interface QuizAnswer {
+  option_ids?: string[];
+  value?: number | null;
+  text?: string;
+}
+
+/** A question after submission; the answer key is only present once revealed */
+export interface QuizReviewItem extends QuizQuestionForStudent {
+  answer: QuizAnswer | null;
+  result: QuizQuestionResult | null;
+  correct_option_ids?: string[];
+  numeric_answer?: number | null;
+  numeric_tolerance?: number;
+  accepted_answers?: string[];
+  explanation?: string | null;
+}
+
+export interface QuizQuestionResult {
+  question_id: string;
+  correct: boolean;
+  points_awarded: number;
+  points_possible: number;
+}
+
+export interface QuizAttempt {
+  id: string;
+  resource_id: string;
+  user_id: string;
+  attempt_number: number;
+  started_at: string;
+  expires_at: string | null;
+  submitted_at: string | null;
+  question_order: string[];
+  option_order: Record<string, string[]>;
+  answers: Record<string, QuizAnswer>;
+  results: QuizQuestionResult[] | null;
+  score: number | null;
+  max_score: number | null;
+  percent: number | null;
+  passed: boolean | null;
+  timed_out: boolean;
+}
+
+/** One quiz on the student learnings page */
+export interface QuizSummary {
+  resource_id: string;
+  module_id: string;
+  title: string;
+  question_count: number;
+  max_attempts: number | null;
+  time_limit_minutes: number | null;
+  pass_percent: number;
+  attempts_used: number;
+  attempts_remaining: number | null;
+  best_percent: number | null;
+  passed: boolean;
+  open_attempt_id: string | null;
+}
+
+/** Per-question stats for admins; difficulty is the share answering correctly */
+export interface QuizItemStat {
+  question_id: string;
+  prompt: string;
+  type: QuizQuestionType;
+  responses: number;
+  difficulty: number | null;
+  /** Upper-27% minus lower-27% correct rate, by total score; null under 4 responses */
+  discrimination: number | null;
+  option_counts: { option_id: string; text: string; count: number; is_correct: boolean }[];
+}
+
+export interface QuizItemAnalysis {
+  resource_id: string;
+  students: number;
+  mean_percent: number | null;
+  pass_rate: number | null;
+  items: QuizItemStat[];
+}
+
 export interface UserEmailAlias {
   id: string;
   user_id: string;
@@ -245,6 +368,189 @@ export interface AttendanceSegment {
   created_at: string;
 }
 
+export interface ZoomWebhookEventRecord {
+  id: string;
+  event_type: string;
+  meeting_id: string | null;
+  meeting_uuid: string | null;
+  session_id: string | null;
+  participant_key: string | null;
+  participant_email: string | null;
+  participant_name: string | null;
+  event_ts: string | null;
+  payload: Record<string, unknown>;
+  payload_hash: string;
+  signature_verified: boolean;
+  received_at: string;
+}
+
+// Attendance disputes
+export type AttendanceClaimReason = 'unaliased_email' | 'dropped_connection' | 'cliff_misapplied' | 'other';
+
+export type AttendanceClaimStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export type AttendanceClaimResolution = 'alias' | 'manual_segment';
+
+export interface AttendanceClaim {
+  id: string;
+  session_id: string;
+  user_id: string;
+  reason: AttendanceClaimReason;
+  description: string | null;
+  alternate_email: string | null;
+  claimed_join_time: string | null;
+  claimed_leave_time: string | null;
+  evidence_paths: string[];
+  status: AttendanceClaimStatus;
+  resolution: AttendanceClaimResolution | null;
+  resolution_note: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined
+  session?: Pick<Session, 'id' | 'title' | 'scheduled_at'>;
+  user?: Pick<Profile, 'id' | 'full_name' | 'email'>;
+  events?: AttendanceClaimEvent[];
+  current_percentage?: number | null;
+}
+
+export interface AttendanceClaimEvent {
+  id: string;
+  claim_id: string;
+  actor_id: string | null;
+  action:
+    | 'submitted'
+    | 'withdrawn'
+    | 'approved'
+    | 'rejected'
+    | 'alias_created'
+    | 'segment_override_created'
+    | 'recalculated'
+    | 'recalculation_failed';
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface AttendanceSegmentOverride {
+  id: string;
+  session_id: string;
+  user_id: string;
+  join_time: string;
+  leave_time: string;
+  claim_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type AttendanceEligibilityStatus = 'eligible' | 'at_risk' | 'ineligible';
+
+export interface AttendancePolicy {
+  id: string;
+  cohort_id: string;
+  min_session_percentage: number;
+  late_join_grace_minutes: number;
+  max_missed_sessions: number;
+  excused_absences_allowed: boolean;
+  gate_certificates: boolean;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AttendanceExcusal {
+  id: string;
+  session_id: string;
+  user_id: string;
+  reason: string | null;
+  granted_by: string | null;
+  request_id: string | null;
+  created_at: string;
+}
+
+export type AttendanceExcuseCategory = 'illness' | 'family_emergency' | 'work_conflict' | 'technical_issue' | 'other';
+export type AttendanceExcuseStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export interface AttendanceExcuseRequest {
+  id: string;
+  session_id: string;
+  user_id: string;
+  reason_category: AttendanceExcuseCategory;
+  details: string | null;
+  attachment_path: string | null;
+  status: AttendanceExcuseStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AttendanceImportSource = 'zoom_csv' | 'google_meet_csv' | 'roster_csv';
+
+export interface AttendanceImport {
+  id: string;
+  session_id: string;
+  source: AttendanceImportSource;
+  file_name: string | null;
+  participants: unknown[];
+  row_count: number;
+  duration_minutes: number;
+  imported_by: string | null;
+  created_at: string;
+}
+
+export type AtRiskReasonCode =
+  | 'consecutive_absences'
+  | 'low_attendance_trend'
+  | 'inactive'
+  | 'low_video_completion'
+  | 'missed_case_studies';
+
+export interface AtRiskReason {
+  code: AtRiskReasonCode;
+  /** Observed value; null when it can't be measured (e.g. no login ever recorded) */
+  value: number | null;
+  threshold: number;
+  message: string;
+}
+
+export interface AtRiskThresholds {
+  id: string;
+  cohort_id: string;
+  enabled: boolean;
+  consecutive_absences: number | null;
+  attendance_window_sessions: number;
+  min_attendance_percentage: number | null;
+  inactive_days: number | null;
+  min_video_completion: number | null;
+  missed_case_studies: number | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AtRiskFlagStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface AtRiskFlag {
+  id: string;
+  user_id: string;
+  cohort_id: string;
+  status: AtRiskFlagStatus;
+  reasons: AtRiskReason[];
+  first_flagged_at: string;
+  last_evaluated_at: string;
+  notified_at: string | null;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  acknowledgement_note: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  user?: Pick<Profile, 'id' | 'full_name' | 'email' | 'avatar_url'>;
+}
+
 export interface Invoice {
   id: string;
   user_id: string;
@@ -413,12 +719,38 @@ export interface CaseStudy {
   is_archived: boolean;
   leaderboard_published: boolean;
   problem_updated_at: string | null;
+  rubric_template_id: string | null;
+  calibration_mode: boolean;
+  /** Max score spread between reviewers, as % of max_score, before flagging */
+  calibration_threshold: number;
+  peer_review_enabled: boolean;
+  /** How many other subgroups' submissions each subgroup peer-reviews */
+  peer_reviews_per_subgroup: number;
+  late_policy: LatePolicyType;
+  /** fixed: points deducted */
+  late_penalty_points: number | null;
+  /** percent: % of the score deducted per started hour/day late */
+  late_penalty_percent: number | null;
+  late_penalty_unit: 'hour' | 'day';
+  /** percent: maximum total deduction, as % of the score */
+  late_penalty_cap_percent: number | null;
+  /** zero_after: score becomes zero at this many hours late */
+  late_zero_after_hours: number | null;
+  /** Members rate each other's contribution after submitting */
+  contribution_survey_enabled: boolean;
+  /** Similarity score (0-1) at which submission pairs are flagged */
+  similarity_threshold: number;
+  similarity_checked_at: string | null;
+  /** The original case study this one was cloned from (clones of clones point at the original) */
+  source_case_study_id: string | null;
   // Joined data (populated by API)
   solutions?: CaseStudySolution[];
   submissions?: CaseStudySubmission[];
   rubric_criteria?: RubricCriteria[];
 }
 
+export type LatePolicyType = 'flag' | 'fixed' | 'percent' | 'zero_after';
+
 export interface CaseStudySolution {
   id: string;
   case_study_id: string;
@@ -447,8 +779,19 @@ export interface CaseStudySubmission {
   submitted_by: string | null;
   submitted_at: string | null;
   is_late: boolean;
+  late_minutes: number;
   deadline_override: string | null;
   visibility: SubmissionVisibility;
+  /** Points deducted instead of the policy's penalty; null = use the policy */
+  late_penalty_override: number | null;
+  late_penalty_override_reason: string | null;
+  late_penalty_overridden_by: string | null;
+  late_penalty_overridden_at: string | null;
+  adjudicated_by: string | null;
+  adjudicated_at: string | null;
+  adjudication_note: string | null;
+  /** When members were sent the feedback digest */
+  feedback_notified_at: string | null;
   created_at: string;
   updated_at: string;
   // Joined data
@@ -468,6 +811,8 @@ export interface SubmissionAttachment {
   file_name: string | null;
   file_size: number | null;
   file_type: string | null;
+  /** SHA-256 hex of the file, computed in the browser before upload */
+  file_hash: string | null;
   link_url: string | null;
   link_label: string | null;
   uploaded_by: string;
@@ -476,14 +821,49 @@ export interface SubmissionAttachment {
   uploaded_by_name?: string;
 }
 
+/** An attachment as it stood when a submission version was snapshotted. */
+export interface AttachmentSnapshot {
+  attachment_id: string;
+  type: 'file' | 'link';
+  file_path: string | null;
+  file_name: string | null;
+  file_size: number | null;
+  file_type: string | null;
+  file_hash: string | null;
+  link_url: string | null;
+  link_label: string | null;
+  uploaded_by: string | null;
+}
+
+export interface SubmissionVersion {
+  id: string;
+  submission_id: string;
+  version_number: number;
+  submitted_by: string | null;
+  submitted_at: string;
+  is_late: boolean;
+  late_minutes: number;
+  attachments: AttachmentSnapshot[];
+  created_at: string;
+  // Joined
+  submitted_by_name?: string | null;
+}
+
 export interface CaseStudyReview {
   id: string;
   submission_id: string;
   reviewer_id: string;
   reviewer_role: 'admin' | 'mentor';
+  /** Raw score as graded */
   score: number | null;
+  /** Points taken off for lateness */
+  late_penalty: number;
+  /** score minus late_penalty, floored at zero */
+  adjusted_score: number | null;
   comment: string | null;
   overridden: boolean;
+  /** The submission version the reviewer graded */
+  submission_version_id: string | null;
   created_at: string;
   updated_at: string;
   // Joined
@@ -491,10 +871,20 @@ export interface CaseStudyReview {
   rubric_scores?: RubricScore[];
 }
 
+export interface RubricLevel {
+  label: string;
+  description: string | null;
+  points: number;
+}
+
 export interface RubricCriteria {
   id: string;
   case_study_id: string;
   label: string;
+  description: string | null;
+  weight: number;
+  levels: RubricLevel[];
+  /** Highest level's points */
   max_score: number;
   order_index: number;
   created_at: string;
@@ -505,12 +895,361 @@ export interface RubricScore {
   review_id: string;
   criteria_id: string;
   score: number;
+  level_label: string | null;
   comment: string | null;
   // Joined
   criteria_label?: string;
   criteria_max_score?: number;
 }
 
+export interface RubricTemplateCriterion {
+  id: string;
+  template_id: string;
+  label: string;
+  description: string | null;
+  weight: number;
+  levels: RubricLevel[];
+  order_index: number;
+  created_at: string;
+}
+
+export interface RubricTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined
+  criteria?: RubricTemplateCriterion[];
+}
+
+export type PeerReviewStatus = 'pending' | 'submitted';
+
+export interface CaseStudyPeerReview {
+  id: string;
+  case_study_id: string;
+  submission_id: string;
+  reviewer_subgroup_id: string;
+  status: PeerReviewStatus;
+  score: number | null;
+  rubric_scores: Array<Pick<RubricScore, 'criteria_id' | 'score' | 'level_label' | 'comment'>>;
+  comment: string | null;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined (admin only — students never see subgroup names)
+  reviewer_subgroup_name?: string;
+}
+
+export type ExtensionScope = 'cohort' | 'subgroup' | 'student';
+export type ExtensionRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface CaseStudyExtensionRequest {
+  id: string;
+  case_study_id: string;
+  subgroup_id: string;
+  /** Set for a personal extension; null when the whole subgroup asks */
+  student_id: string | null;
+  requested_by: string;
+  requested_due_date: string;
+  reason: string;
+  status: ExtensionRequestStatus;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined
+  case_study_title?: string;
+  subgroup_name?: string;
+  requested_by_name?: string;
+  student_name?: string | null;
+  current_deadline?: string | null;
+}
+
+/** One granted extension; the log is append-only. */
+export interface CaseStudyExtensionLogEntry {
+  id: string;
+  case_study_id: string;
+  scope: ExtensionScope;
+  subgroup_id: string | null;
+  student_id: string | null;
+  previous_due_date: string | null;
+  new_due_date: string;
+  reason: string | null;
+  request_id: string | null;
+  granted_by: string | null;
+  created_at: string;
+  // Joined
+  subgroup_name?: string | null;
+  student_name?: string | null;
+  granted_by_name?: string | null;
+}
+
+// Individual contributions within a subgroup submission
+export interface CaseStudyAttachmentEvent {
+  id: string;
+  submission_id: string;
+  attachment_id: string;
+  action: 'added' | 'removed';
+  type: 'file' | 'link';
+  label: string | null;
+  uploaded_by: string | null;
+  actor_id: string | null;
+  created_at: string;
+  // Joined
+  uploaded_by_name?: string | null;
+  actor_name?: string | null;
+}
+
+export interface CaseStudyContributionRating {
+  id: string;
+  submission_id: string;
+  rater_id: string;
+  ratee_id: string;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CaseStudyIndividualAdjustment {
+  id: string;
+  submission_id: string;
+  student_id: string;
+  /** Points added to (or, negative, taken off) the group's final score */
+  adjustment: number;
+  reason: string;
+  adjusted_by: string | null;
+  adjusted_by_role: 'admin' | 'mentor';
+  created_at: string;
+  updated_at: string;
+  // Joined
+  adjusted_by_name?: string | null;
+}
+
+export interface MemberContribution {
+  user_id: string;
+  full_name: string | null;
+  files_added: number;
+  links_added: number;
+  items_removed: number;
+  ratings_received: number;
+  mean_rating: number | null;
+  /** Mean rating over the subgroup's mean; 1 is an average share */
+  contribution_factor: number | null;
+  /** Adjustment that would scale the group score by the factor */
+  suggested_adjustment: number | null;
+  has_rated: boolean;
+  adjustment: CaseStudyIndividualAdjustment | null;
+}
+
+export interface SubmissionContributions {
+  submission_id: string;
+  survey_enabled: boolean;
+  group_score: number | null;
+  max_score: number;
+  members: MemberContribution[];
+  events: CaseStudyAttachmentEvent[];
+}
+
+// Inline PDF annotations on submission attachments
+export type AnnotationKind = 'highlight' | 'pin' | 'comment';
+
+export interface CaseStudyAnnotation {
+  id: string;
+  submission_id: string;
+  attachment_id: string;
+  page_number: number;
+  kind: AnnotationKind;
+  /** Fractions (0-1) of the page; null for page-level comments */
+  x: number | null;
+  y: number | null;
+  /** Highlights only */
+  width: number | null;
+  height: number | null;
+  comment: string | null;
+  color: string | null;
+  author_id: string | null;
+  author_role: 'admin' | 'mentor';
+  created_at: string;
+  updated_at: string;
+  // Joined
+  author_name?: string | null;
+  file_name?: string | null;
+}
+
+// Cloning case studies between cohorts
+export interface CaseStudyCloneCopied {
+  source_id: string;
+  case_study_id: string;
+  title: string;
+  week_number: number;
+  due_date: string | null;
+  problem_file: boolean;
+  rubric_criteria: number;
+  solutions: number;
+  /** Anything copied only in part, e.g. a due date that could not be shifted */
+  notes: string[];
+}
+
+export interface CaseStudyCloneSkipped {
+  source_id: string;
+  title: string;
+  reason: string;
+}
+
+export interface CaseStudyCloneReport {
+  copied: CaseStudyCloneCopied[];
+  skipped: CaseStudyCloneSkipped[];
+}
+
+// Case study analytics
+export type CaseStudyFunnelStage = 'not_started' | 'draft' | 'submitted' | 'reviewed' | 'published';
+
+export interface CaseStudyFunnelStep {
+  stage: CaseStudyFunnelStage;
+  /** Subgroups currently at this stage */
+  count: number;
+  /** Subgroups at this stage or further along */
+  reached: number;
+}
+
+export interface AnalyticsHistogramBin {
+  label: string;
+  count: number;
+}
+
+export interface CaseStudyCriterionDistribution {
+  criteria_id: string;
+  label: string;
+  max_score: number;
+  /** Graded submissions by percent of max_score, in 20-point bands */
+  bins: AnalyticsHistogramBin[];
+  /** Null until a graded submission scores this criterion */
+  mean_percent: number | null;
+  scored: number;
+}
+
+export interface ReviewTurnaround {
+  reviewer_role: 'admin' | 'mentor';
+  reviews: number;
+  median_hours: number | null;
+  p90_hours: number | null;
+}
+
+export interface CaseStudyAnalytics {
+  case_study_id: string;
+  title: string;
+  cohort_id: string;
+  cohort_name: string | null;
+  due_date: string | null;
+  max_score: number;
+  subgroups: number;
+  funnel: CaseStudyFunnelStep[];
+  /** Submission times relative to each subgroup's deadline; empty without a deadline */
+  timing: AnalyticsHistogramBin[];
+  /** Positive when the typical submission came in before the deadline */
+  median_hours_before_deadline: number | null;
+  /** Graded submissions by final score as a percent of max_score */
+  scores: AnalyticsHistogramBin[];
+  criteria: CaseStudyCriterionDistribution[];
+  turnaround: ReviewTurnaround[];
+}
+
+// Similarity checks across submissions
+export interface PassageExcerpt {
+  before: string;
+  match: string;
+  after: string;
+}
+
+/** The same passage as it appears in each of the two submissions */
+export interface SimilarityPassage {
+  a: PassageExcerpt;
+  b: PassageExcerpt;
+}
+
+export interface CaseStudySimilarityPair {
+  id: string;
+  case_study_id: string;
+  submission_id: string;
+  matched_submission_id: string;
+  cross_cohort: boolean;
+  /** Share of both texts covered by shared passages, 0-1 */
+  score: number;
+  shared_links: string[];
+  passages: SimilarityPassage[];
+  computed_at: string;
+}
+
+/** A flagged pair seen from one submission; passage `a` is that submission's side */
+export interface SimilarityMatch {
+  pair_id: string;
+  matched_submission_id: string;
+  matched_subgroup_name: string | null;
+  /** Set for matches from another cohort */
+  matched_cohort_name: string | null;
+  cross_cohort: boolean;
+  score: number;
+  shared_links: string[];
+  passages: SimilarityPassage[];
+}
+
+// Grade book (cohort x case studies)
+export type GradeBookStatus = 'not_submitted' | 'missing' | 'awaiting_review' | 'graded' | 'published';
+
+export interface GradeBookCaseStudy {
+  id: string;
+  title: string;
+  week_number: number;
+  max_score: number;
+  due_date: string | null;
+}
+
+export interface GradeBookCell {
+  case_study_id: string;
+  submission_id: string | null;
+  status: GradeBookStatus;
+  is_late: boolean;
+  /** Admin review score before the late penalty */
+  raw_score: number | null;
+  late_penalty: number;
+  /** Score after the late penalty — the one that counts */
+  final_score: number | null;
+  reviewer_name: string | null;
+  /** Student rows: points added to the group score for this student */
+  individual_adjustment: number | null;
+  /** Student rows: peer-rated share of the work, 1 = average */
+  contribution_factor: number | null;
+}
+
+export interface GradeBookSubgroupRow {
+  subgroup_id: string;
+  subgroup_name: string;
+  cells: Record<string, GradeBookCell>;
+  /** Percent of possible points across graded and missed case studies */
+  case_study_score: number | null;
+}
+
+export interface GradeBookStudentRow extends Omit<GradeBookSubgroupRow, 'subgroup_id' | 'subgroup_name'> {
+  user_id: string;
+  full_name: string | null;
+  email: string;
+  subgroup_id: string | null;
+  subgroup_name: string | null;
+}
+
+export interface CohortGradeBook {
+  cohort_id: string;
+  case_studies: GradeBookCaseStudy[];
+  subgroups: GradeBookSubgroupRow[];
+  students: GradeBookStudentRow[];
+  generated_at: string;
+}
+
 // Student-facing status (no internal state leaked)
 export type StudentSubmissionStatus =
   | 'not_submitted'
@@ -547,7 +1286,16 @@ export interface Assignment {
   description: string | null;
   due_date: string | null;
   max_score: number;
+  grace_period_minutes: number;
+  submissions_closed: boolean;
+  is_archived: boolean;
+  order_index: number;
+  created_by: string | null;
   created_at: string;
+  updated_at: string;
+  // Counts for grading lists (non-draft submissions)
+  submission_count?: number;
+  graded_count?: number;
 }
 
 export interface AssignmentSubmission {
@@ -555,22 +1303,50 @@ export interface AssignmentSubmission {
   assignment_id: string;
   group_id: string | null;
   user_id: string | null;
+  /** Legacy public URL; uploads use file_path in the resources bucket */
   file_url: string | null;
+  file_path: string | null;
   file_name: string | null;
+  file_size: number | null;
+  file_type: string | null;
   google_drive_url: string | null;
   submitted_at: string;
+  is_late: boolean;
+  late_minutes: number;
   grade: number | null;
   feedback: string | null;
   graded_by: string | null;
   graded_at: string | null;
   status: 'draft' | 'submitted' | 'graded';
   created_at: string;
+  updated_at: string;
+  // Joined data
+  graded_by_name?: string | null;
 }
 
 export interface AssignmentWithSubmissions extends Assignment {
   submissions?: AssignmentSubmission[];
 }
 
+/** What a student sees for one assignment */
+export type AssignmentStudentStatus = 'not_submitted' | 'submitted' | 'graded' | 'missing';
+
+export interface StudentAssignment extends Assignment {
+  submission: AssignmentSubmission | null;
+  student_status: AssignmentStudentStatus;
+  can_submit: boolean;
+}
+
+/** One student's row when grading an assignment */
+export interface AssignmentRosterRow {
+  user_id: string;
+  full_name: string | null;
+  email: string;
+  subgroup_name: string | null;
+  submission: AssignmentSubmission | null;
+  student_status: AssignmentStudentStatus;
+}
+
 // Video Progress and Captions
 export interface VideoProgress {
   id: string;